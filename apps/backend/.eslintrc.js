@@ -16,6 +16,14 @@ module.exports = {
     es2022: true,
   },
   ignorePatterns: ['.eslintrc.js', 'dist'],
+  overrides: [
+    {
+      // WHY: Specs are left out of tsconfig.json (not built); ts-jest type-checks them
+      files: ['*.spec.ts'],
+      parserOptions: { project: null },
+      env: { jest: true },
+    },
+  ],
   rules: {
     // WHY: Allow unused vars that start with underscore (common pattern for unused params)
     '@typescript-eslint/no-unused-vars': [
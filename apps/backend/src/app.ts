@@ -6,7 +6,25 @@ import { notFoundMiddleware } from './middlewares/notFound.middleware';
 import healthRoutes from './routes/health.routes';
 import swaggerRoutes from './routes/swagger.routes';
 import authRoutes from './modules/auth/auth.routes';
+import sessionRoutes from './modules/session/session.routes';
+import mfaRoutes from './modules/mfa/mfa.routes';
 import adminHrRoutes from './modules/admin/hr/hr.routes';
+import auditRoutes from './modules/audit/audit.routes';
+import lockoutRoutes from './modules/throttle/throttle.routes';
+import employeeRoutes from './modules/employee/employee.routes';
+import departmentRoutes from './modules/department/department.routes';
+import leaveRoutes from './modules/leave/leave.routes';
+import leaveBalanceRoutes from './modules/leave-balance/leave-balance.routes';
+import holidayRoutes from './modules/holiday/holiday.routes';
+import attendanceRoutes from './modules/attendance/attendance.routes';
+import orgRoutes from './modules/org/org.routes';
+import analyticsRoutes from './modules/analytics/analytics.routes';
+import payrollRoutes from './modules/payroll/payroll.routes';
+import performanceRoutes from './modules/performance/performance.routes';
+import recruitmentRoutes from './modules/recruitment/recruitment.routes';
+import onboardingRoutes from './modules/onboarding/onboarding.routes';
+import surveyRoutes from './modules/survey/survey.routes';
+import notificationRoutes from './modules/notification/notification.routes';
 
 /**
  * WHAT: Express application configuration
@@ -66,9 +84,63 @@ export function createApp(): Express {
   // WHY: Authentication routes - handles login, register, logout, token refresh
   app.use('/api/auth', authRoutes);
 
+  // WHY: Own signed-in sessions (list and revoke)
+  app.use('/api/auth/sessions', sessionRoutes);
+
+  // WHY: Two-factor enrolment and management for the current user
+  app.use('/api/auth/mfa', mfaRoutes);
+
   // WHY: Admin routes - HR management (SUPER_ADMIN only)
   app.use('/api/admin/hr', adminHrRoutes);
 
+  // WHY: Audit log of admin, HR and auth actions (SUPER_ADMIN only)
+  app.use('/api/admin/audit', auditRoutes);
+
+  // WHY: Lift failed-login lockouts (SUPER_ADMIN only)
+  app.use('/api/admin/lockouts', lockoutRoutes);
+
+  // WHY: Employee management routes (HR and SUPER_ADMIN)
+  app.use('/api/employees', employeeRoutes);
+
+  // WHY: Department management routes (reads for all roles, writes for HR)
+  app.use('/api/departments', departmentRoutes);
+
+  // WHY: Leave workflow routes (apply for all roles, review by manager or HR)
+  app.use('/api/leaves', leaveRoutes);
+
+  // WHY: Leave balances and ledger (own balance for all roles, others for HR)
+  app.use('/api/leave-balances', leaveBalanceRoutes);
+
+  // WHY: Holiday calendar (reads for all roles, writes for HR)
+  app.use('/api/holidays', holidayRoutes);
+
+  // WHY: Attendance routes (own check-in/out for all roles, company-wide queries for HR)
+  app.use('/api/attendance', attendanceRoutes);
+
+  // WHY: Organisation hierarchy (reporting chains, reports trees, org chart)
+  app.use('/api/org', orgRoutes);
+
+  // WHY: Dashboard figures (headcount, leave, joinings, attendance)
+  app.use('/api/analytics', analyticsRoutes);
+
+  // WHY: Salary structures, monthly payroll runs and payslips
+  app.use('/api/payroll', payrollRoutes);
+
+  // WHY: Review cycles, self/manager assessments and calibrated ratings
+  app.use('/api/performance', performanceRoutes);
+
+  // WHY: Job requisitions, candidates and their pipeline stages
+  app.use('/api/recruitment', recruitmentRoutes);
+
+  // WHY: New hires' onboarding checklists
+  app.use('/api/onboarding', onboardingRoutes);
+
+  // WHY: Anonymous pulse surveys and their aggregated results
+  app.use('/api/surveys', surveyRoutes);
+
+  // WHY: Own notifications and their live stream (all roles)
+  app.use('/api/notifications', notificationRoutes);
+
   // ============================================
   // ERROR HANDLING (Must be last!)
   // ============================================
@@ -1,5 +1,6 @@
 import dotenv from 'dotenv';
 import { z } from 'zod';
+import { UserRole } from '../modules/auth/auth.types';
 
 /**
  * WHAT: Environment variable validation and loading
@@ -45,6 +46,55 @@ const envSchema = z.object({
   // WHY: JWT_REFRESH_SECRET is separate secret for refresh tokens
   // Separate secret provides additional security layer
   JWT_REFRESH_SECRET: z.string().min(32, 'JWT_REFRESH_SECRET must be at least 32 characters'),
+
+  // WHY: WEEKEND_DAYS are excluded from leave duration
+  // Comma-separated day numbers (0 = Sunday ... 6 = Saturday), defaults to Saturday and Sunday
+  WEEKEND_DAYS: z
+    .string()
+    .regex(/^[0-6](,[0-6])*$/, 'WEEKEND_DAYS must be comma-separated numbers 0-6')
+    .default('0,6')
+    .transform((value) => [...new Set(value.split(',').map(Number))]),
+
+  // WHY: APP_URL is the frontend base URL used in links sent by email (e.g. password reset)
+  APP_URL: z.string().url().default('http://localhost:5173'),
+
+  // WHY: MAIL_TRANSPORT selects where outgoing mail goes.
+  // file = JSON lines in MAIL_FILE_PATH, mongo = mail_outbox collection (both for dev/test)
+  MAIL_TRANSPORT: z.enum(['file', 'mongo']).default('file'),
+  MAIL_FILE_PATH: z.string().default('tmp/mail-outbox.jsonl'),
+  MAIL_FROM: z.string().email().default('no-reply@hr-portal.local'),
+
+  // WHY: THROTTLE_STORE selects where rate limit and lockout counters live.
+  // memory = per process (single instance), mongo = shared by all instances
+  THROTTLE_STORE: z.enum(['memory', 'mongo']).default('memory'),
+
+  // WHY: Per-IP request limits on /auth/login, /auth/refresh and
+  // /auth/forgot-password, per window
+  RATE_LIMIT_WINDOW_MINUTES: z.string().regex(/^\d+$/).transform(Number).default('15'),
+  LOGIN_RATE_LIMIT_MAX: z.string().regex(/^\d+$/).transform(Number).default('20'),
+  REFRESH_RATE_LIMIT_MAX: z.string().regex(/^\d+$/).transform(Number).default('60'),
+  FORGOT_PASSWORD_RATE_LIMIT_MAX: z.string().regex(/^\d+$/).transform(Number).default('5'),
+
+  // WHY: Account lockout - this many failed logins within the window lock the
+  // account (by email) for LOGIN_LOCKOUT_MINUTES
+  LOGIN_MAX_FAILED_ATTEMPTS: z.string().regex(/^\d+$/).transform(Number).default('5'),
+  LOGIN_FAILURE_WINDOW_MINUTES: z.string().regex(/^\d+$/).transform(Number).default('15'),
+  LOGIN_LOCKOUT_MINUTES: z.string().regex(/^\d+$/).transform(Number).default('15'),
+
+  // WHY: MFA_REQUIRED_ROLES makes two-factor login mandatory for these roles
+  // (comma-separated, e.g. SUPER_ADMIN,HR). Empty = MFA is optional for everyone
+  MFA_REQUIRED_ROLES: z
+    .string()
+    .default('')
+    .transform((value) => value.split(',').map((role) => role.trim()).filter(Boolean))
+    .pipe(z.array(z.nativeEnum(UserRole))),
+
+  // WHY: MFA_ISSUER is the account name shown in authenticator apps
+  MFA_ISSUER: z.string().min(1).default('HR Portal'),
+
+  // WHY: Company name and address printed in the payslip header
+  COMPANY_NAME: z.string().min(1).default('HR Portal'),
+  COMPANY_ADDRESS: z.string().optional(),
 });
 
 /**
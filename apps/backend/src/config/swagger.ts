@@ -46,6 +46,56 @@ const swaggerDefinition: SwaggerDefinition = {
         description: "JWT Authorization header using the Bearer scheme",
       },
     },
+    // WHY: Shared by every list endpoint (utils/query.util createListQuerySchema)
+    parameters: {
+      PageParam: {
+        in: "query",
+        name: "page",
+        schema: { type: "integer", minimum: 1, default: 1 },
+      },
+      LimitParam: {
+        in: "query",
+        name: "limit",
+        schema: { type: "integer", minimum: 1, maximum: 100, default: 10 },
+      },
+      SortParam: {
+        in: "query",
+        name: "sort",
+        schema: { type: "string" },
+        description:
+          "Comma-separated sortable fields, '-' prefix for descending (e.g. -createdAt,lastName)",
+      },
+      SearchParam: {
+        in: "query",
+        name: "q",
+        schema: { type: "string", maxLength: 100 },
+        description: "Case-insensitive text search over the resource's search fields",
+      },
+      ExportFormatParam: {
+        in: "query",
+        name: "format",
+        schema: { type: "string", enum: ["csv", "xlsx"], default: "csv" },
+      },
+      ExportColumnsParam: {
+        in: "query",
+        name: "columns",
+        schema: { type: "string" },
+        description:
+          "Comma-separated column keys in the wanted order. Defaults to every column the caller may see",
+      },
+      ExportFromParam: {
+        in: "query",
+        name: "from",
+        schema: { type: "string", format: "date" },
+        description: "Start of the date range (inclusive)",
+      },
+      ExportToParam: {
+        in: "query",
+        name: "to",
+        schema: { type: "string", format: "date" },
+        description: "End of the date range (inclusive)",
+      },
+    },
   },
   tags: [
     {
@@ -56,6 +106,78 @@ const swaggerDefinition: SwaggerDefinition = {
       name: "Authentication",
       description: "User authentication and authorization",
     },
+    {
+      name: "Sessions",
+      description: "Signed-in devices and session revocation",
+    },
+    {
+      name: "MFA",
+      description: "Two-factor authentication enrolment and backup codes",
+    },
+    {
+      name: "Lockouts",
+      description: "Failed-login account lockouts",
+    },
+    {
+      name: "Employees",
+      description: "Employee records and lifecycle management",
+    },
+    {
+      name: "Departments",
+      description: "Departments, department heads and members",
+    },
+    {
+      name: "Leaves",
+      description: "Leave requests and approval workflow",
+    },
+    {
+      name: "Leave Balances",
+      description: "Leave entitlement, balances and ledger",
+    },
+    {
+      name: "Holidays",
+      description: "Holiday calendar and working-day calculation",
+    },
+    {
+      name: "Attendance",
+      description: "Check-in/check-out, daily attendance and attendance charts",
+    },
+    {
+      name: "Organisation",
+      description: "Reporting chains, reports trees and org chart",
+    },
+    {
+      name: "Analytics",
+      description: "Dashboard statistics and chart data",
+    },
+    {
+      name: "Payroll",
+      description: "Salary structures, monthly payroll runs and payslips",
+    },
+    {
+      name: "Performance",
+      description: "Review cycles, self and manager assessments, calibration",
+    },
+    {
+      name: "Recruitment",
+      description: "Job requisitions, candidates, pipeline stages and resumes",
+    },
+    {
+      name: "Onboarding",
+      description: "New hires' onboarding checklists",
+    },
+    {
+      name: "Surveys",
+      description: "Anonymous pulse surveys and their results",
+    },
+    {
+      name: "Notifications",
+      description: "In-app notifications and their live stream",
+    },
+    {
+      name: "Audit",
+      description: "Immutable log of admin, HR and auth actions",
+    },
   ],
 };
 
@@ -1,7 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { JWTPayload } from '../modules/auth/auth.types';
-import { AUTH_ERRORS } from '../modules/auth/auth.constants';
+import { JWTPayload, TokenScope } from '../modules/auth/auth.types';
+import { AUTH_ERRORS, TOKEN_SCOPE_ERRORS } from '../modules/auth/auth.constants';
 import env from '../config/env';
 
 /**
@@ -26,18 +26,21 @@ export interface AuthenticatedRequest extends Request {
 }
 
 /**
- * WHAT: JWT authentication middleware
+ * WHAT: Verify the access token and attach the user
  * 
- * WHY: Verifies JWT access token from Authorization header.
- * If valid, attaches user payload to request for use in controllers.
- * If invalid, returns 401 Unauthorized.
+ * WHY: Shared by authenticate() and the scoped variants below - they only
+ * differ in which restricted token scopes they accept.
  * 
- * HOW: Extracts token from header, verifies with JWT, attaches to request
+ * HOW: Extracts token from header, verifies with JWT, rejects scopes not
+ * in allowedScopes (and unscoped tokens unless allowUnscoped) with 403,
+ * attaches payload to request
  */
-export function authenticate(
+function verifyAccessToken(
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction,
+  allowedScopes: TokenScope[],
+  allowUnscoped: boolean = true,
 ): void {
   try {
     // WHY: Extract token from Authorization header
@@ -61,6 +64,27 @@ export function authenticate(
     // jwt.verify throws error if token is invalid or expired
     const decoded = jwt.verify(token, env.JWT_SECRET) as JWTPayload;
 
+    // WHY: Restricted tokens only work on the routes that complete their step
+    // 403 (not 401) - the token is valid, the client should finish the step, not log in again
+    if (decoded.scope && !allowedScopes.includes(decoded.scope)) {
+      res.status(403).json({
+        success: false,
+        error: TOKEN_SCOPE_ERRORS[decoded.scope],
+      });
+      return;
+    }
+
+    // WHY: Routes that finish a login step make no sense with a full token
+    if (!decoded.scope && !allowUnscoped) {
+      res.status(403).json({
+        success: false,
+        error: {
+          message: AUTH_ERRORS.FORBIDDEN,
+        },
+      });
+      return;
+    }
+
     // WHY: Attach user payload to request
     // Controllers can access req.user for user information
     req.user = decoded;
@@ -94,3 +118,68 @@ export function authenticate(
   }
 }
 
+/**
+ * WHAT: JWT authentication middleware
+ * 
+ * WHY: Verifies JWT access token from Authorization header.
+ * If valid, attaches user payload to request for use in controllers.
+ * If invalid, returns 401 Unauthorized. Restricted (scoped) tokens get 403.
+ * 
+ * HOW: Extracts token from header, verifies with JWT, attaches to request
+ */
+export function authenticate(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): void {
+  verifyAccessToken(req, res, next, []);
+}
+
+/**
+ * WHAT: Authentication middleware that also accepts password-change tokens
+ * 
+ * WHY: Users who must change their password only get a password-change
+ * token at login. This is the one middleware that accepts it.
+ * 
+ * HOW: Same as authenticate(), allowing the PASSWORD_CHANGE scope
+ */
+export function authenticateForPasswordChange(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): void {
+  verifyAccessToken(req, res, next, [TokenScope.PASSWORD_CHANGE]);
+}
+
+/**
+ * WHAT: Authentication middleware that also accepts MFA setup tokens
+ * 
+ * WHY: Users whose role requires MFA, but who haven't enrolled, only get an
+ * MFA setup token at login. Enrolment routes accept it (and full tokens,
+ * for users enrolling voluntarily).
+ * 
+ * HOW: Same as authenticate(), allowing the MFA_SETUP scope
+ */
+export function authenticateForMfaSetup(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): void {
+  verifyAccessToken(req, res, next, [TokenScope.MFA_SETUP]);
+}
+
+/**
+ * WHAT: Authentication middleware for the MFA login challenge
+ * 
+ * WHY: Completing the challenge turns an MFA challenge token into a session.
+ * Only that token is accepted - a full token has nothing left to prove.
+ * 
+ * HOW: Same as authenticate(), requiring the MFA_CHALLENGE scope
+ */
+export function authenticateMfaChallenge(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): void {
+  verifyAccessToken(req, res, next, [TokenScope.MFA_CHALLENGE], false);
+}
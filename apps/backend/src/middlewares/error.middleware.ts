@@ -25,6 +25,7 @@ import { Request, Response, NextFunction } from 'express';
 export interface AppError extends Error {
   statusCode?: number;
   isOperational?: boolean;
+  code?: string;
 }
 
 /**
@@ -62,6 +63,8 @@ export function errorMiddleware(
     success: false,
     error: {
       message: err.message || 'Internal server error',
+      // WHY: Machine-readable code (if set) for programmatic error handling
+      ...((err as AppError).code && { code: (err as AppError).code }),
       // WHY: Only include stack trace in development
       ...(isDevelopment && { stack: err.stack }),
     },
@@ -1,7 +1,8 @@
 import { Response, NextFunction } from 'express';
-import { UserRole } from '../modules/auth/auth.types';
+import { Permission, UserRole } from '../modules/auth/auth.types';
 import { AuthenticatedRequest } from './auth.middleware';
 import { AUTH_ERRORS } from '../modules/auth/auth.constants';
+import { hasPermission } from '../utils/permission.util';
 
 /**
  * WHAT: Role-Based Access Control (RBAC) middleware
@@ -13,7 +14,9 @@ import { AUTH_ERRORS } from '../modules/auth/auth.constants';
  * - MANAGER: Team management
  * - EMPLOYEE: Basic access
  * 
- * HOW: Checks user role against allowed roles, returns 403 if not allowed
+ * HOW: Checks user role against allowed roles, returns 403 if not allowed.
+ * Routes use requirePermission(); the role-based helpers remain for callers
+ * that really mean a role rather than a capability.
  */
 
 /**
@@ -74,3 +77,40 @@ export const requireEmployee = () =>
     UserRole.SUPER_ADMIN,
   );
 
+
+/**
+ * WHAT: Permission-based access control middleware factory
+ * 
+ * WHY: Routes declare the capability they need (e.g. leave:approve)
+ * instead of listing roles. Which roles have that capability is decided
+ * once, in ROLE_PERMISSIONS.
+ * 
+ * HOW: Returns Express middleware that requires every listed permission
+ */
+export function requirePermission(...requiredPermissions: Permission[]) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    // WHY: Should be called after authenticate middleware
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          message: AUTH_ERRORS.UNAUTHORIZED,
+        },
+      });
+      return;
+    }
+
+    const role = req.user.role;
+    if (!requiredPermissions.every((permission) => hasPermission(role, permission))) {
+      res.status(403).json({
+        success: false,
+        error: {
+          message: AUTH_ERRORS.FORBIDDEN,
+        },
+      });
+      return;
+    }
+
+    next();
+  };
+}
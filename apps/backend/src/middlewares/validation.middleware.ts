@@ -13,24 +13,32 @@ import { z, ZodSchema } from 'zod';
  * HOW: Factory function that returns Express middleware
  */
 
+/**
+ * WHAT: Request part to validate
+ * 
+ * WHY: Most endpoints validate the body, but list endpoints take filters
+ * from the query string and item endpoints take IDs from route params.
+ */
+export type RequestSource = 'body' | 'query' | 'params';
+
 /**
  * WHAT: Validation middleware factory
  * 
  * WHY: Factory pattern allows creating middleware for different schemas.
  * Each route can use its own validation schema.
  * 
- * HOW: Returns Express middleware that validates request body against schema
+ * HOW: Returns Express middleware that validates request body (or query/params) against schema
  */
-export function validateRequest(schema: ZodSchema) {
+export function validateRequest(schema: ZodSchema, source: RequestSource = 'body') {
   return (req: Request, res: Response, next: NextFunction) => {
     try {
-      // WHY: Validate request body against Zod schema
+      // WHY: Validate request part against Zod schema
       // If validation fails, Zod throws error with details
-      const validated = schema.parse(req.body);
+      const validated = schema.parse(req[source]);
 
-      // WHY: Replace req.body with validated data
-      // This ensures type safety and removes any extra fields
-      req.body = validated;
+      // WHY: Replace request part with validated data
+      // This ensures type safety, applies coercion/defaults and removes any extra fields
+      req[source] = validated;
 
       // WHY: Continue to next middleware/controller
       next();
@@ -11,9 +11,16 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { createHrUser, getHrUsers, updateHrStatus } from './hr.service';
-import { CreateHrInput, UpdateHrStatusInput } from './hr.validation';
-import { sendSuccess } from '../../../utils/response.util';
+import { createHrUser, getHrUsers, exportHrUsers, updateHrStatus } from './hr.service';
+import {
+  CreateHrInput,
+  UpdateHrStatusInput,
+  ListHrUsersQuery,
+  ExportHrUsersQuery,
+} from './hr.validation';
+import { JWTPayload } from '../../auth/auth.types';
+import { sendSuccess, sendPaginated, sendExport } from '../../../utils/response.util';
+import { getAuditContext } from '../../../utils/audit.util';
 
 /**
  * WHAT: Create HR user controller
@@ -33,7 +40,7 @@ export async function createHrController(
     const input = req.body as CreateHrInput;
 
     // WHY: Call service layer for business logic
-    const user = await createHrUser(input);
+    const user = await createHrUser(input, getAuditContext(req));
 
     // WHY: Use standardized success response utility
     // 201 Created for resource creation
@@ -58,11 +65,40 @@ export async function getHrUsersController(
   next: NextFunction,
 ): Promise<void> {
   try {
+    // WHY: Query is validated (and coerced) by validation middleware
+    const query = req.query as unknown as ListHrUsersQuery;
+
     // WHY: Call service layer for business logic
-    const result = await getHrUsers();
+    const result = await getHrUsers(query);
 
-    // WHY: Use standardized success response utility
-    sendSuccess(res, result, 200);
+    // WHY: Paginated envelope - { items, pagination }
+    sendPaginated(res, result.users, result.pagination);
+  } catch (error) {
+    // WHY: Pass error to error middleware for consistent error handling
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Export HR users controller
+ * 
+ * WHY: Handles GET /api/admin/hr/export requests.
+ * Streams the HR user list as CSV or XLSX.
+ * 
+ * HOW: Express route handler
+ */
+export async function exportHrUsersController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: Query is validated (and coerced) by validation middleware
+    const query = req.query as unknown as ExportHrUsersQuery;
+
+    const file = await exportHrUsers(req.user as JWTPayload, query, getAuditContext(req));
+
+    await sendExport(res, file);
   } catch (error) {
     // WHY: Pass error to error middleware for consistent error handling
     next(error);
@@ -87,7 +123,7 @@ export async function updateHrStatusController(
     const input = req.body as UpdateHrStatusInput;
 
     // WHY: Call service layer for business logic
-    const user = await updateHrStatus(userId, input);
+    const user = await updateHrStatus(userId, input, getAuditContext(req));
 
     // WHY: Use standardized success response utility
     sendSuccess(
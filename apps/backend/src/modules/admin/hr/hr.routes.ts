@@ -15,25 +15,31 @@ import { Router } from 'express';
 import {
   createHrController,
   getHrUsersController,
+  exportHrUsersController,
   updateHrStatusController,
 } from './hr.controller';
 import { validateRequest } from '../../../middlewares/validation.middleware';
-import { createHrSchema, updateHrStatusSchema } from './hr.validation';
+import {
+  createHrSchema,
+  updateHrStatusSchema,
+  listHrUsersQuerySchema,
+  exportHrUsersQuerySchema,
+} from './hr.validation';
 import { authenticate } from '../../../middlewares/auth.middleware';
-import { requireRole } from '../../../middlewares/rbac.middleware';
-import { UserRole } from '../../auth/auth.types';
+import { requirePermission } from '../../../middlewares/rbac.middleware';
+import { Permission } from '../../auth/auth.types';
 
 const router = Router();
 
 /**
- * WHY: All admin routes require authentication and SUPER_ADMIN role
+ * WHY: All admin routes require authentication and the hr:manage permission
  * authenticate: Verifies JWT token and attaches user to request
- * requireRole: Ensures user has SUPER_ADMIN role
+ * requirePermission: hr:manage is granted to SUPER_ADMIN only
  * 
  * These middlewares run before all routes in this router
  */
 router.use(authenticate);
-router.use(requireRole([UserRole.SUPER_ADMIN]));
+router.use(requirePermission(Permission.HR_MANAGE));
 
 /**
  * @swagger
@@ -86,35 +92,79 @@ router.post(
  * /admin/hr:
  *   get:
  *     summary: Get all HR users
- *     description: Returns list of all HR users. Only accessible by SUPER_ADMIN.
+ *     description: Returns a paginated list of HR users. Only accessible by SUPER_ADMIN.
+ *       q matches the email. Sortable by createdAt and email (default -createdAt).
  *     tags: [Admin]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[isActive]
+ *         schema:
+ *           type: boolean
  *     responses:
  *       200:
- *         description: List of HR users
+ *         description: Paginated HR user list ({ items, pagination })
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - SUPER_ADMIN role required
+ */
+router.get(
+  '/',
+  validateRequest(listHrUsersQuerySchema, 'query'), // WHY: Validate query string
+  getHrUsersController,
+);
+
+/**
+ * @swagger
+ * /admin/hr/export:
+ *   get:
+ *     summary: Export HR users
+ *     description: Streams the HR user list as a CSV or XLSX download. Takes the list's sort, q and
+ *       filter parameters without paging; from and to limit the account creation date. Columns are
+ *       email, isActive, mustChangePassword, createdAt and updatedAt. Only accessible by SUPER_ADMIN.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ExportFormatParam'
+ *       - $ref: '#/components/parameters/ExportColumnsParam'
+ *       - $ref: '#/components/parameters/ExportFromParam'
+ *       - $ref: '#/components/parameters/ExportToParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[isActive]
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Export file
  *         content:
- *           application/json:
+ *           text/csv:
  *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                 data:
- *                   type: object
- *                   properties:
- *                     users:
- *                       type: array
- *                       items:
- *                         type: object
- *                     total:
- *                       type: number
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid filter, sort, date range or unknown column
  *       401:
  *         description: Unauthorized
  *       403:
  *         description: Forbidden - SUPER_ADMIN role required
  */
-router.get('/', getHrUsersController);
+router.get(
+  '/export',
+  validateRequest(exportHrUsersQuerySchema, 'query'), // WHY: Validate query string
+  exportHrUsersController,
+);
 
 /**
  * @swagger
@@ -10,34 +10,35 @@
  * HOW: Contains all HR management business logic
  */
 
-import { User } from '../../auth/auth.model';
-import { UserRole } from '../../auth/auth.types';
-import { CreateHrInput, UpdateHrStatusInput } from './hr.validation';
+import { FilterQuery } from 'mongoose';
+import { User, IUserDocument } from '../../auth/auth.model';
+import { JWTPayload, UserRole } from '../../auth/auth.types';
+import {
+  CreateHrInput,
+  UpdateHrStatusInput,
+  ListHrUsersQuery,
+  ExportHrUsersQuery,
+} from './hr.validation';
 import { HrUserResponse, HrListResponse } from './hr.types';
-import crypto from 'crypto';
-
-/**
- * WHAT: Generate random password
- * 
- * WHY: Auto-generate secure passwords when admin doesn't provide one.
- * Ensures strong passwords without requiring admin to create them.
- * 
- * HOW: Uses crypto to generate random secure password
- */
-function generateRandomPassword(): string {
-  // WHY: Generate 16-character random password with mixed case, numbers, and symbols
-  // Secure enough for initial password (user should change on first login)
-  const length = 16;
-  const charset = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*';
-  const randomBytes = crypto.randomBytes(length);
-  let password = '';
-  
-  for (let i = 0; i < length; i++) {
-    password += charset[randomBytes[i] % charset.length];
-  }
-  
-  return password;
-}
+import { generateRandomPassword } from '../../../utils/password.util';
+import { recordAuditLog } from '../../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../../audit/audit.model';
+import { AuditContext } from '../../audit/audit.types';
+import { sendMail } from '../../mail/mail.service';
+import { temporaryPasswordMail } from '../../mail/mail.templates';
+import {
+  publishHrAccountCreated,
+  publishAccountDeactivated,
+} from '../../notification/notification.events';
+import env from '../../../config/env';
+import { buildSearchFilter, findPage, stableSort } from '../../../utils/query.util';
+import {
+  ExportColumn,
+  ExportFile,
+  createExportFile,
+  selectExportColumns,
+  toDateRangeFilter,
+} from '../../../utils/export.util';
 
 /**
  * WHAT: Create HR user service
@@ -45,10 +46,12 @@ function generateRandomPassword(): string {
  * WHY: Creates new HR user accounts.
  * Only SUPER_ADMIN can create HR users (enforced at route level).
  * 
- * HOW: Creates user with HR role, hashes password, returns user data
+ * HOW: Creates user with HR role, hashes password, returns user data.
+ * The password must be changed at first login; a generated one is emailed.
  */
 export async function createHrUser(
   input: CreateHrInput,
+  context: AuditContext,
 ): Promise<HrUserResponse> {
   // WHY: Check if user already exists - prevents duplicate accounts
   const existingUser = await User.findOne({ email: input.email });
@@ -67,6 +70,7 @@ export async function createHrUser(
     password, // WHY: Password will be hashed by pre-save hook in model
     role: UserRole.HR, // WHY: Fixed role - always HR for this endpoint
     isActive: true, // WHY: New HR users are active by default
+    mustChangePassword: true, // WHY: The admin knows (or chose) this password
   });
 
   // WHY: Return user without password (security)
@@ -74,6 +78,20 @@ export async function createHrUser(
   delete (userObject as any).password;
   delete (userObject as any).refreshToken;
 
+  await recordAuditLog(context, {
+    action: AuditAction.CREATE,
+    entityType: AuditEntityType.USER,
+    entityId: user._id.toString(),
+    after: userObject,
+  });
+
+  // WHY: A generated password is never returned - the new user gets it by email
+  if (!input.password) {
+    await sendMail(temporaryPasswordMail(user.email, password, `${env.APP_URL}/login`));
+  }
+
+  await publishHrAccountCreated(user, context.actorId);
+
   return {
     id: user._id.toString(),
     email: user.email,
@@ -85,19 +103,33 @@ export async function createHrUser(
 }
 
 /**
- * WHAT: Get all HR users service
+ * WHAT: Build the HR user filter for a list or export query
+ * 
+ * WHY: role is set last so no query value can widen the result to other roles.
+ * Password is excluded by default (select: false in model).
+ */
+function buildHrUserFilter(
+  query: Pick<ListHrUsersQuery, 'filter' | 'q'>,
+): FilterQuery<IUserDocument> {
+  return {
+    ...query.filter,
+    ...buildSearchFilter<IUserDocument>(query.q, ['email']),
+    role: UserRole.HR,
+  };
+}
+
+/**
+ * WHAT: Get HR users service
  * 
- * WHY: Retrieves list of all HR users for admin dashboard.
+ * WHY: Paginated list of HR users for the admin dashboard.
  * Only returns HR role users (filtered by role).
  * 
- * HOW: Queries database for users with HR role
+ * HOW: Role filter plus the validated list query
  */
-export async function getHrUsers(): Promise<HrListResponse> {
-  // WHY: Find all users with HR role
-  // Excludes password and refreshToken by default (select: false in model)
-  const users = await User.find({ role: UserRole.HR })
-    .sort({ createdAt: -1 }) // WHY: Sort by newest first
-    .lean(); // WHY: lean() returns plain objects (faster, no Mongoose overhead)
+export async function getHrUsers(query: ListHrUsersQuery): Promise<HrListResponse> {
+  const filter = buildHrUserFilter(query);
+
+  const { docs: users, pagination } = await findPage(User, filter, query);
 
   // WHY: Transform to response format
   const hrUsers: HrUserResponse[] = users.map((user) => ({
@@ -111,10 +143,67 @@ export async function getHrUsers(): Promise<HrListResponse> {
 
   return {
     users: hrUsers,
-    total: hrUsers.length,
+    pagination,
   };
 }
 
+/**
+ * WHAT: HR user export columns
+ */
+const HR_USER_EXPORT_COLUMNS: ExportColumn<IUserDocument>[] = [
+  { key: 'email', header: 'Email', value: (user) => user.email },
+  { key: 'isActive', header: 'Active', value: (user) => user.isActive },
+  {
+    key: 'mustChangePassword',
+    header: 'Must Change Password',
+    value: (user) => user.mustChangePassword,
+  },
+  { key: 'createdAt', header: 'Created At', value: (user) => user.createdAt },
+  { key: 'updatedAt', header: 'Updated At', value: (user) => user.updatedAt },
+];
+
+/**
+ * WHAT: Export HR users service
+ * 
+ * WHY: Access reviews need the list of HR accounts as a file.
+ * 
+ * HOW: List filter plus from/to on creation date; records the export and
+ * returns a file streaming users from a cursor
+ */
+export async function exportHrUsers(
+  actor: JWTPayload,
+  query: ExportHrUsersQuery,
+  context: AuditContext,
+): Promise<ExportFile> {
+  const columns = selectExportColumns(HR_USER_EXPORT_COLUMNS, query.columns, actor.role);
+
+  const filter = buildHrUserFilter(query);
+  const createdAt = toDateRangeFilter(query.from, query.to);
+  if (createdAt) {
+    filter.createdAt = createdAt;
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.EXPORT,
+    entityType: AuditEntityType.USER,
+    metadata: {
+      format: query.format,
+      columns: columns.map((column) => column.key),
+      filter: query.filter,
+      q: query.q,
+      from: query.from,
+      to: query.to,
+    },
+  });
+
+  return createExportFile({
+    name: 'hr-users',
+    format: query.format,
+    columns,
+    rows: () => User.find(filter).sort(stableSort(query.sort)).cursor(),
+  });
+}
+
 /**
  * WHAT: Update HR user status service
  * 
@@ -129,6 +218,7 @@ export async function getHrUsers(): Promise<HrListResponse> {
 export async function updateHrStatus(
   userId: string,
   input: UpdateHrStatusInput,
+  context: AuditContext,
 ): Promise<HrUserResponse> {
   // WHY: Find user and verify it's an HR user
   const user = await User.findById(userId);
@@ -141,10 +231,25 @@ export async function updateHrStatus(
     throw new Error('User is not an HR user');
   }
 
+  // WHY: Snapshot before the change for the audit diff
+  const before = user.toObject();
+
   // WHY: Update isActive status (soft delete)
   user.isActive = input.isActive;
   await user.save();
 
+  await recordAuditLog(context, {
+    action: AuditAction.STATUS_CHANGE,
+    entityType: AuditEntityType.USER,
+    entityId: user._id.toString(),
+    before,
+    after: user.toObject(),
+  });
+
+  if (before.isActive && !user.isActive) {
+    await publishAccountDeactivated(user, context.actorId);
+  }
+
   // WHY: Return updated user without sensitive fields
   const userObject = user.toObject();
   delete (userObject as any).password;
@@ -8,6 +8,7 @@
  */
 
 import { UserRole } from '../../auth/auth.types';
+import { Pagination } from '../../../utils/response.util';
 
 /**
  * WHAT: Create HR user request interface
@@ -57,12 +58,12 @@ export interface UpdateHrStatusRequest {
  * WHAT: HR list response interface
  * 
  * WHY: Type-safe response structure for HR list endpoint.
- * Includes pagination metadata for future pagination support.
+ * Sent as the paginated envelope ({ items, pagination }).
  * 
  * HOW: Used in service and controller responses
  */
 export interface HrListResponse {
   users: HrUserResponse[];
-  total: number;
+  pagination: Pagination;
 }
 
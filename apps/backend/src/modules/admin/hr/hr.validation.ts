@@ -4,10 +4,13 @@
  * WHY: Request validation ensures data integrity and security.
  * Prevents invalid data from reaching business logic layer.
  * 
- * HOW: Zod schemas for validating request bodies
+ * HOW: Zod schemas for validating request bodies and query strings
  */
 
 import { z } from 'zod';
+import { queryBooleanSchema } from '../../../utils/validation.util';
+import { createListQuerySchema } from '../../../utils/query.util';
+import { createExportQuerySchema } from '../../../utils/export.util';
 
 /**
  * WHAT: Create HR user validation schema
@@ -58,6 +61,34 @@ export const updateHrStatusSchema = z.object({
   }),
 });
 
+const hrUserFilters = {
+  isActive: queryBooleanSchema,
+};
+
+const HR_USER_SORTABLE_FIELDS = ['createdAt', 'email'];
+
+/**
+ * WHAT: List HR users query validation schema
+ * 
+ * WHY: Standard list query - q matches the email.
+ */
+export const listHrUsersQuerySchema = createListQuerySchema({
+  filters: hrUserFilters,
+  sortable: HR_USER_SORTABLE_FIELDS,
+  defaultSort: '-createdAt', // WHY: Newest first
+});
+
+/**
+ * WHAT: Export HR users query validation schema
+ * 
+ * WHY: Same filters as the list; from/to filter on account creation date.
+ */
+export const exportHrUsersQuerySchema = createExportQuerySchema({
+  filters: hrUserFilters,
+  sortable: HR_USER_SORTABLE_FIELDS,
+  defaultSort: '-createdAt',
+});
+
 /**
  * WHAT: Type exports for TypeScript
  * 
@@ -67,4 +98,6 @@ export const updateHrStatusSchema = z.object({
  */
 export type CreateHrInput = z.infer<typeof createHrSchema>;
 export type UpdateHrStatusInput = z.infer<typeof updateHrStatusSchema>;
+export type ListHrUsersQuery = z.infer<typeof listHrUsersQuerySchema>;
+export type ExportHrUsersQuery = z.infer<typeof exportHrUsersQuerySchema>;
 
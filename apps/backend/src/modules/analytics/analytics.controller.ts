@@ -0,0 +1,88 @@
+/**
+ * WHAT: Analytics controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ * - Input validation (delegates to validation layer)
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getAdminDashboard, getHrDashboard, getMyDashboard } from './analytics.service';
+import { DashboardQuery } from './analytics.validation';
+import { JWTPayload } from '../auth/auth.types';
+import { sendSuccess } from '../../utils/response.util';
+
+/**
+ * WHAT: Admin dashboard controller
+ *
+ * WHY: Handles GET /api/analytics/admin requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getAdminDashboardController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: Query is validated and coerced by validation middleware
+    const query = req.query as unknown as DashboardQuery;
+
+    const analytics = await getAdminDashboard(query);
+
+    sendSuccess(res, analytics);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: HR dashboard controller
+ *
+ * WHY: Handles GET /api/analytics/hr requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getHrDashboardController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = req.query as unknown as DashboardQuery;
+
+    const analytics = await getHrDashboard(query);
+
+    sendSuccess(res, analytics);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Own dashboard controller
+ *
+ * WHY: Handles GET /api/analytics/me requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMyDashboardController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const query = req.query as unknown as DashboardQuery;
+
+    const analytics = await getMyDashboard(user, query);
+
+    sendSuccess(res, analytics);
+  } catch (error) {
+    next(error);
+  }
+}
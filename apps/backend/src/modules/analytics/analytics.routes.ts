@@ -0,0 +1,131 @@
+/**
+ * WHAT: Analytics routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions and RBAC middleware
+ */
+
+import { Router } from 'express';
+import {
+  getAdminDashboardController,
+  getHrDashboardController,
+  getMyDashboardController,
+} from './analytics.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import { dashboardQuerySchema } from './analytics.validation';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: All analytics routes require authentication.
+ * The admin dashboard needs analytics:admin, the HR dashboard analytics:read;
+ * the own dashboard is open to every role with an employee profile.
+ */
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /analytics/admin:
+ *   get:
+ *     summary: Admin dashboard analytics
+ *     description: Active employees, active departments, pending leave requests and this month's
+ *       attendance rate, plus headcount by department and the monthly attendance trend.
+ *       Requires analytics:admin (SUPER_ADMIN only).
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: months
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *           default: 6
+ *         description: Months covered by the attendance trend, current month included
+ *     responses:
+ *       200:
+ *         description: Stats, headcountByDepartment and attendanceTrend
+ *       403:
+ *         description: Forbidden - requires analytics:admin permission
+ */
+router.get(
+  '/admin',
+  requirePermission(Permission.ANALYTICS_ADMIN),
+  validateRequest(dashboardQuerySchema, 'query'), // WHY: Validate query string
+  getAdminDashboardController,
+);
+
+/**
+ * @swagger
+ * /analytics/hr:
+ *   get:
+ *     summary: HR dashboard analytics
+ *     description: Active employees, pending leave requests, new joinings this month and employees
+ *       on leave today, plus the leave status distribution for the current leave year and the
+ *       monthly joining trend. Requires analytics:read.
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: months
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *           default: 6
+ *         description: Months covered by the joining trend, current month included
+ *     responses:
+ *       200:
+ *         description: Stats, leaveYear, leaveStatus and joiningTrend
+ *       403:
+ *         description: Forbidden - requires analytics:read permission
+ */
+router.get(
+  '/hr',
+  requirePermission(Permission.ANALYTICS_READ),
+  validateRequest(dashboardQuerySchema, 'query'), // WHY: Validate query string
+  getHrDashboardController,
+);
+
+/**
+ * @swagger
+ * /analytics/me:
+ *   get:
+ *     summary: Own dashboard analytics
+ *     description: The caller's attendance rate this month, remaining leave and pending requests,
+ *       monthly hours worked against target and leave balances by type. For roles with
+ *       leave:approve, team summarises active direct reports (members, pendingApprovals,
+ *       onLeaveToday); otherwise it is null.
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: months
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *           default: 6
+ *         description: Months covered by the hours chart, current month included
+ *     responses:
+ *       200:
+ *         description: Stats, monthlyHours, leaveBalances and team
+ *       404:
+ *         description: No employee profile for the caller
+ */
+router.get(
+  '/me',
+  requirePermission(Permission.PROFILE_READ),
+  validateRequest(dashboardQuerySchema, 'query'), // WHY: Validate query string
+  getMyDashboardController,
+);
+
+export default router;
@@ -0,0 +1,252 @@
+/**
+ * WHAT: Analytics service - business logic layer
+ *
+ * WHY: Dashboards need counts and distributions across collections.
+ * Computing them in MongoDB aggregation pipelines means only the results
+ * travel to the server, not every employee and leave document.
+ *
+ * HOW: Small aggregations composed into one response per dashboard.
+ * Attendance figures come from the attendance service instead - absences
+ * are derived from working days, not stored, so they can't be aggregated.
+ */
+
+import { FilterQuery } from 'mongoose';
+import { Employee, IEmployeeDocument } from '../employee/employee.model';
+import { Department } from '../department/department.model';
+import { Leave, ILeaveDocument, LeaveStatus } from '../leave/leave.model';
+import { getEmployeeDocumentByUserId } from '../employee/employee.service';
+import {
+  getAttendanceTrend,
+  getMyAttendance,
+  getMyMonthlyHours,
+} from '../attendance/attendance.service';
+import { getLeaveYear, getMyBalance } from '../leave-balance/leave-balance.service';
+import { getLatestFinalRating } from '../performance/performance.service';
+import { JobRequisition, RequisitionStatus } from '../recruitment/job-requisition.model';
+import { getOpenPipelineStageCounts } from '../recruitment/job-requisition.service';
+import { getLatestSatisfaction } from '../survey/survey-results.service';
+import { JWTPayload, Permission } from '../auth/auth.types';
+import { DashboardQuery } from './analytics.validation';
+import {
+  HeadcountPoint,
+  LeaveStatusPoint,
+  JoiningsPoint,
+  AdminDashboardAnalytics,
+  HrDashboardAnalytics,
+  EmployeeDashboardAnalytics,
+  TeamAnalytics,
+} from './analytics.types';
+import { hasPermission } from '../../utils/permission.util';
+import { addUtcDays, lastUtcMonths, toUtcDay } from '../../utils/date.util';
+
+/**
+ * WHAT: Active employees per department
+ *
+ * HOW: Largest department first
+ */
+async function getHeadcountByDepartment(): Promise<HeadcountPoint[]> {
+  return Employee.aggregate<HeadcountPoint>([
+    { $match: { isActive: true } },
+    { $group: { _id: '$department', employees: { $sum: 1 } } },
+    { $sort: { employees: -1, _id: 1 } },
+    { $project: { _id: 0, department: '$_id', employees: 1 } },
+  ]);
+}
+
+/**
+ * WHAT: Leave requests per status for one leave year
+ *
+ * WHY: Every status is listed, with 0 when there are none, so the chart
+ * keeps its colours in a fixed order.
+ */
+async function getLeaveStatusDistribution(year: number): Promise<LeaveStatusPoint[]> {
+  const counts = await Leave.aggregate<{ _id: LeaveStatus; count: number }>([
+    {
+      $match: {
+        startDate: { $gte: new Date(Date.UTC(year, 0, 1)), $lt: new Date(Date.UTC(year + 1, 0, 1)) },
+      },
+    },
+    { $group: { _id: '$status', count: { $sum: 1 } } },
+  ]);
+
+  return Object.values(LeaveStatus).map((status) => ({
+    status,
+    count: counts.find((item) => item._id === status)?.count ?? 0,
+  }));
+}
+
+/**
+ * WHAT: Employees joining per month over the last N months
+ *
+ * WHY: Inactive employees count too - they did join that month.
+ */
+async function getJoiningTrend(months: number): Promise<JoiningsPoint[]> {
+  const buckets = lastUtcMonths(months);
+
+  const counts = await Employee.aggregate<{ _id: string; joinings: number }>([
+    {
+      $match: {
+        joiningDate: {
+          $gte: buckets[0].from,
+          $lt: addUtcDays(buckets[buckets.length - 1].to, 1),
+        },
+      },
+    },
+    {
+      $group: {
+        _id: { $dateToString: { format: '%Y-%m', date: '$joiningDate' } },
+        joinings: { $sum: 1 },
+      },
+    },
+  ]);
+
+  return buckets.map(({ month, label }) => ({
+    month,
+    label,
+    joinings: counts.find((item) => item._id === month)?.joinings ?? 0,
+  }));
+}
+
+/**
+ * WHAT: Count approved leave covering today
+ */
+async function countOnLeaveToday(filter: FilterQuery<ILeaveDocument> = {}): Promise<number> {
+  const today = toUtcDay(new Date());
+
+  return Leave.countDocuments({
+    ...filter,
+    status: LeaveStatus.APPROVED,
+    startDate: { $lte: today },
+    endDate: { $gte: today },
+  });
+}
+
+/**
+ * WHAT: Direct reports summary
+ */
+async function getTeamAnalytics(manager: IEmployeeDocument): Promise<TeamAnalytics> {
+  const reports = await Employee.find({ managerId: manager._id, isActive: true }).select('_id');
+  const reportIds = reports.map((report) => report._id);
+
+  const [pendingApprovals, onLeaveToday] = await Promise.all([
+    Leave.countDocuments({ employeeId: { $in: reportIds }, status: LeaveStatus.PENDING }),
+    countOnLeaveToday({ employeeId: { $in: reportIds } }),
+  ]);
+
+  return { members: reportIds.length, pendingApprovals, onLeaveToday };
+}
+
+/**
+ * WHAT: Admin dashboard service
+ *
+ * WHY: Company-wide headcount, leave backlog and attendance for SUPER_ADMIN.
+ *
+ * HOW: The attendance rate stat is the current month of the trend
+ */
+export async function getAdminDashboard(query: DashboardQuery): Promise<AdminDashboardAnalytics> {
+  const [activeEmployees, activeDepartments, pendingLeaves, headcountByDepartment, attendanceTrend] =
+    await Promise.all([
+      Employee.countDocuments({ isActive: true }),
+      Department.countDocuments({ isActive: true }),
+      Leave.countDocuments({ status: LeaveStatus.PENDING }),
+      getHeadcountByDepartment(),
+      getAttendanceTrend({ months: query.months }),
+    ]);
+
+  return {
+    stats: {
+      activeEmployees,
+      activeDepartments,
+      pendingLeaves,
+      attendanceRate: attendanceTrend[attendanceTrend.length - 1]?.present ?? 0,
+    },
+    headcountByDepartment,
+    attendanceTrend,
+  };
+}
+
+/**
+ * WHAT: HR dashboard service
+ *
+ * WHY: Leave workload, hiring, recruitment and satisfaction for HR.
+ *
+ * HOW: New joinings this month is the last point of the joining trend
+ */
+export async function getHrDashboard(query: DashboardQuery): Promise<HrDashboardAnalytics> {
+  const leaveYear = getLeaveYear(new Date());
+
+  const [
+    activeEmployees,
+    pendingLeaves,
+    onLeaveToday,
+    activeRecruitments,
+    leaveStatus,
+    joiningTrend,
+    recruitmentPipeline,
+    satisfaction,
+  ] = await Promise.all([
+    Employee.countDocuments({ isActive: true }),
+    Leave.countDocuments({ status: LeaveStatus.PENDING }),
+    countOnLeaveToday(),
+    JobRequisition.countDocuments({ status: RequisitionStatus.OPEN }),
+    getLeaveStatusDistribution(leaveYear),
+    getJoiningTrend(query.months),
+    getOpenPipelineStageCounts(),
+    getLatestSatisfaction(),
+  ]);
+
+  return {
+    stats: {
+      activeEmployees,
+      pendingLeaves,
+      newJoiningsThisMonth: joiningTrend[joiningTrend.length - 1]?.joinings ?? 0,
+      onLeaveToday,
+      activeRecruitments,
+      employeeSatisfaction: satisfaction?.satisfaction ?? null,
+    },
+    leaveYear,
+    leaveStatus,
+    joiningTrend,
+    recruitmentPipeline,
+    satisfaction,
+  };
+}
+
+/**
+ * WHAT: Employee dashboard service
+ *
+ * WHY: The caller's own attendance, hours, leave and performance rating;
+ * managers also see their direct reports' leave backlog.
+ *
+ * HOW: Current-month attendance rate, this leave year's balances, the
+ * latest finalised review's rating
+ */
+export async function getMyDashboard(
+  actor: JWTPayload,
+  query: DashboardQuery,
+): Promise<EmployeeDashboardAnalytics> {
+  const employee = await getEmployeeDocumentByUserId(actor.userId);
+  const [currentMonth] = lastUtcMonths(1);
+
+  const [attendance, monthlyHours, balance, pendingRequests, performanceRating, team] =
+    await Promise.all([
+      getMyAttendance(actor.userId, { from: currentMonth.from, to: toUtcDay(new Date()) }),
+      getMyMonthlyHours(actor.userId, { months: query.months }),
+      getMyBalance(actor.userId, getLeaveYear(new Date())),
+      Leave.countDocuments({ employeeId: employee._id, status: LeaveStatus.PENDING }),
+      getLatestFinalRating(employee._id),
+      hasPermission(actor.role, Permission.LEAVE_APPROVE) ? getTeamAnalytics(employee) : null,
+    ]);
+
+  return {
+    stats: {
+      attendanceRate: attendance.summary.attendanceRate,
+      remainingLeaves: balance.totalRemaining,
+      pendingRequests,
+      performanceRating,
+    },
+    monthlyHours,
+    leaveBalances: balance.balances,
+    team,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * WHAT: TypeScript types for Analytics module
+ *
+ * WHY: Centralized type definitions ensure type safety across analytics module.
+ * Each dashboard gets one response with its stat cards and chart series.
+ *
+ * HOW: Exports interfaces used in analytics service and controller
+ */
+
+import { LeaveStatus } from '../leave/leave.model';
+import { AttendanceTrendPoint, MonthlyHoursPoint } from '../attendance/attendance.types';
+import { LeaveTypeBalance } from '../leave-balance/leave-balance.types';
+import { StageCount } from '../recruitment/recruitment.types';
+import { SatisfactionSummary } from '../survey/survey.types';
+
+/**
+ * WHAT: Active employees in one department
+ */
+export interface HeadcountPoint {
+  department: string;
+  employees: number;
+}
+
+/**
+ * WHAT: Leave requests with one status
+ */
+export interface LeaveStatusPoint {
+  status: LeaveStatus;
+  count: number;
+}
+
+/**
+ * WHAT: Employees who joined in one month
+ */
+export interface JoiningsPoint {
+  month: string; // WHY: YYYY-MM
+  label: string; // WHY: Short month name, used as chart axis label
+  joinings: number;
+}
+
+/**
+ * WHAT: Admin dashboard response
+ *
+ * WHY: Company-wide overview for SUPER_ADMIN.
+ */
+export interface AdminDashboardAnalytics {
+  stats: {
+    activeEmployees: number;
+    activeDepartments: number;
+    pendingLeaves: number;
+    attendanceRate: number; // WHY: Current month, percentage
+  };
+  headcountByDepartment: HeadcountPoint[];
+  attendanceTrend: AttendanceTrendPoint[];
+}
+
+/**
+ * WHAT: HR dashboard response
+ */
+export interface HrDashboardAnalytics {
+  stats: {
+    activeEmployees: number;
+    pendingLeaves: number;
+    newJoiningsThisMonth: number;
+    onLeaveToday: number;
+    activeRecruitments: number; // WHY: Open job requisitions
+    employeeSatisfaction: number | null; // WHY: Percentage, from satisfaction below
+  };
+  leaveYear: number;
+  leaveStatus: LeaveStatusPoint[]; // WHY: Requests starting in leaveYear, every status listed
+  joiningTrend: JoiningsPoint[];
+  recruitmentPipeline: StageCount[]; // WHY: Candidates of open requisitions, every stage listed
+  satisfaction: SatisfactionSummary | null; // WHY: Latest closed survey with enough respondents
+}
+
+/**
+ * WHAT: Direct reports summary on a manager's dashboard
+ */
+export interface TeamAnalytics {
+  members: number; // WHY: Active direct reports
+  pendingApprovals: number;
+  onLeaveToday: number;
+}
+
+/**
+ * WHAT: Employee dashboard response
+ *
+ * WHY: Per-employee summary. team is set for roles that review their
+ * reports' leave (leave:approve), null otherwise.
+ */
+export interface EmployeeDashboardAnalytics {
+  stats: {
+    attendanceRate: number; // WHY: Current month, percentage
+    remainingLeaves: number;
+    pendingRequests: number;
+    performanceRating: number | null; // WHY: Latest finalised review; null before the first one
+  };
+  monthlyHours: MonthlyHoursPoint[];
+  leaveBalances: LeaveTypeBalance[];
+  team: TeamAnalytics | null;
+}
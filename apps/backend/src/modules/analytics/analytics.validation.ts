@@ -0,0 +1,26 @@
+/**
+ * WHAT: Validation schemas for Analytics endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating query strings
+ */
+
+import { z } from 'zod';
+
+/**
+ * WHAT: Dashboard query schema
+ *
+ * WHY: Monthly chart series cover the last N months (current month included).
+ */
+export const dashboardQuerySchema = z.object({
+  months: z.coerce.number().int().min(1).max(12).default(6),
+});
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type DashboardQuery = z.infer<typeof dashboardQuerySchema>;
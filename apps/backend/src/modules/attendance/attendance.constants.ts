@@ -0,0 +1,54 @@
+/**
+ * WHAT: Attendance module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Single place to change attendance rules
+ * - Consistent error messages
+ *
+ * HOW: Exports constants used across attendance module
+ */
+
+/**
+ * WHAT: Working-hour thresholds
+ *
+ * WHY: Status at check-out is decided by worked hours:
+ * - >= FULL_DAY_MIN_HOURS: PRESENT
+ * - >= HALF_DAY_MIN_HOURS: HALF_DAY
+ * - less: ABSENT
+ * STANDARD_WORK_HOURS is the expected hours per working day (chart target).
+ */
+export const STANDARD_WORK_HOURS = 8;
+export const FULL_DAY_MIN_HOURS = 6;
+export const HALF_DAY_MIN_HOURS = 3;
+
+/**
+ * WHAT: Longest shift a check-out can close
+ *
+ * WHY: Check-out also closes yesterday's open record (night shifts). A
+ * record left open by a forgotten check-out would otherwise be closed the
+ * next day with 24+ hours, so later check-outs are capped here and the
+ * record is flagged for HR to follow up.
+ */
+export const MAX_SHIFT_HOURS = 16;
+
+/**
+ * WHAT: Maximum days per daily-records query
+ *
+ * WHY: Daily records are built per employee per day; bounding the range
+ * keeps HR queries across the whole company cheap.
+ */
+export const MAX_RANGE_DAYS = 62;
+
+/**
+ * WHAT: Attendance error messages
+ *
+ * WHY: Consistent messages across service functions.
+ */
+export const ATTENDANCE_ERRORS = {
+  ALREADY_CHECKED_IN: 'You have already checked in today',
+  NOT_CHECKED_IN: 'You have not checked in today',
+  ALREADY_CHECKED_OUT: 'You have already checked out today',
+  ON_LEAVE: 'You are on approved leave today',
+  INACTIVE_EMPLOYEE: 'Inactive employees cannot record attendance',
+  RANGE_TOO_LARGE: `Date range cannot exceed ${MAX_RANGE_DAYS} days`,
+} as const;
@@ -0,0 +1,226 @@
+/**
+ * WHAT: Attendance controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ * - Input validation (delegates to validation layer)
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  checkIn,
+  checkOut,
+  getMyTodayAttendance,
+  getMyAttendance,
+  getMyMonthlyHours,
+  getAttendance,
+  getAttendanceSummary,
+  getAttendanceTrend,
+} from './attendance.service';
+import {
+  AttendanceNoteInput,
+  MyAttendanceQuery,
+  ListAttendanceQuery,
+  AttendanceSummaryQuery,
+  MonthlyChartQuery,
+} from './attendance.validation';
+import { JWTPayload } from '../auth/auth.types';
+import { sendSuccess, sendPaginated } from '../../utils/response.util';
+
+/**
+ * WHAT: Check-in controller
+ *
+ * WHY: Handles POST /api/attendance/check-in requests.
+ *
+ * HOW: Express route handler
+ */
+export async function checkInController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: User is attached by authenticate middleware
+    const user = req.user as JWTPayload;
+    const input = req.body as AttendanceNoteInput;
+
+    const attendance = await checkIn(user.userId, input);
+
+    // WHY: 201 Created - a new attendance record
+    sendSuccess(res, attendance, 201, 'Checked in successfully');
+  } catch (error) {
+    // WHY: Pass error to error middleware for consistent error handling
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Check-out controller
+ *
+ * WHY: Handles POST /api/attendance/check-out requests.
+ *
+ * HOW: Express route handler
+ */
+export async function checkOutController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as AttendanceNoteInput;
+
+    const attendance = await checkOut(user.userId, input);
+
+    sendSuccess(res, attendance, 200, 'Checked out successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Today's attendance controller
+ *
+ * WHY: Handles GET /api/attendance/me/today requests.
+ * Returns null when not checked in yet.
+ *
+ * HOW: Express route handler
+ */
+export async function getMyTodayAttendanceController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    const attendance = await getMyTodayAttendance(user.userId);
+
+    sendSuccess(res, attendance);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Own attendance controller
+ *
+ * WHY: Handles GET /api/attendance/me requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMyAttendanceController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    // WHY: Query is validated and coerced by validation middleware
+    const query = req.query as unknown as MyAttendanceQuery;
+
+    const result = await getMyAttendance(user.userId, query);
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Own monthly hours controller
+ *
+ * WHY: Handles GET /api/attendance/me/monthly-hours requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMyMonthlyHoursController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const query = req.query as unknown as MonthlyChartQuery;
+
+    const points = await getMyMonthlyHours(user.userId, query);
+
+    sendSuccess(res, points);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: HR daily records controller
+ *
+ * WHY: Handles GET /api/attendance requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getAttendanceController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = req.query as unknown as ListAttendanceQuery;
+
+    const result = await getAttendance(query);
+
+    // WHY: Paginated envelope - { items, pagination }
+    sendPaginated(res, result.records, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: HR attendance summary controller
+ *
+ * WHY: Handles GET /api/attendance/summary requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getAttendanceSummaryController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = req.query as unknown as AttendanceSummaryQuery;
+
+    const summary = await getAttendanceSummary(query);
+
+    sendSuccess(res, summary);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: HR attendance trend controller
+ *
+ * WHY: Handles GET /api/attendance/trend requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getAttendanceTrendController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = req.query as unknown as MonthlyChartQuery;
+
+    const points = await getAttendanceTrend(query);
+
+    sendSuccess(res, points);
+  } catch (error) {
+    next(error);
+  }
+}
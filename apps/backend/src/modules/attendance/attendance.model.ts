@@ -0,0 +1,122 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Attendance Mongoose model and schema
+ * 
+ * WHY: Stores one record per employee per day with check-in/check-out
+ * times, so worked hours and daily status can be reported.
+ * 
+ * HOW: Defines attendance document structure
+ */
+
+/**
+ * WHAT: Attendance status enum
+ * 
+ * WHY: Enum ensures type safety for daily status.
+ * ON_LEAVE and ABSENT are usually derived (approved leave / no record),
+ * PRESENT and HALF_DAY come from worked hours.
+ * 
+ * HOW: Used in attendance model and throughout attendance module
+ */
+export enum AttendanceStatus {
+  PRESENT = 'PRESENT',
+  ABSENT = 'ABSENT',
+  HALF_DAY = 'HALF_DAY',
+  ON_LEAVE = 'ON_LEAVE',
+}
+
+/**
+ * WHAT: Attendance document interface
+ * 
+ * WHY: TypeScript interface ensures type safety.
+ * 
+ * HOW: Used throughout attendance module for type safety
+ */
+export interface IAttendanceDocument extends Document {
+  employeeId: mongoose.Types.ObjectId; // WHY: Reference to Employee
+  date: Date; // WHY: Calendar day (UTC midnight)
+  checkIn: Date;
+  checkOut?: Date;
+  workedHours: number; // WHY: Computed at check-out
+  checkOutCapped: boolean; // WHY: Closed at MAX_SHIFT_HOURS - HR should follow up
+  status: AttendanceStatus;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Attendance schema definition
+ * 
+ * WHY: Schema defines structure, validation, and indexes for attendance collection.
+ * 
+ * HOW: Mongoose schema with validation and indexes
+ */
+const attendanceSchema = new Schema<IAttendanceDocument>(
+  {
+    employeeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Employee',
+      required: true,
+    },
+
+    date: {
+      type: Date,
+      required: true,
+    },
+
+    checkIn: {
+      type: Date,
+      required: [true, 'Check-in time is required'],
+    },
+
+    checkOut: {
+      type: Date,
+      validate: {
+        validator: function (this: IAttendanceDocument, value: Date) {
+          return value >= this.checkIn;
+        },
+        message: 'Check-out must be after check-in',
+      },
+    },
+
+    workedHours: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+
+    checkOutCapped: {
+      type: Boolean,
+      default: false,
+    },
+
+    status: {
+      type: String,
+      enum: Object.values(AttendanceStatus),
+      required: true,
+    },
+
+    notes: {
+      type: String,
+      maxlength: [500, 'Notes must be less than 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// WHY: One attendance record per employee per day
+attendanceSchema.index({ employeeId: 1, date: 1 }, { unique: true });
+// WHY: HR range queries across employees
+attendanceSchema.index({ date: 1 });
+
+/**
+ * WHAT: Attendance model export
+ * 
+ * WHY: Model provides database operations.
+ * 
+ * HOW: Mongoose model created from schema
+ */
+export const Attendance = mongoose.model<IAttendanceDocument>('Attendance', attendanceSchema);
@@ -0,0 +1,309 @@
+/**
+ * WHAT: Attendance routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions and RBAC middleware
+ */
+
+import { Router } from 'express';
+import {
+  checkInController,
+  checkOutController,
+  getMyTodayAttendanceController,
+  getMyAttendanceController,
+  getMyMonthlyHoursController,
+  getAttendanceController,
+  getAttendanceSummaryController,
+  getAttendanceTrendController,
+} from './attendance.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import {
+  attendanceNoteSchema,
+  myAttendanceQuerySchema,
+  listAttendanceQuerySchema,
+  attendanceSummaryQuerySchema,
+  monthlyChartQuerySchema,
+} from './attendance.validation';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: All attendance routes require authentication.
+ * Own attendance is open to every role with an employee profile;
+ * company-wide queries need attendance:read, per route.
+ */
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /attendance/check-in:
+ *   post:
+ *     summary: Check in
+ *     description: Records check-in for today using the server time. Refused on full-day approved leave or if already checked in.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Checked in
+ *       403:
+ *         description: Employee inactive
+ *       409:
+ *         description: Already checked in, or on approved leave today
+ */
+router.post(
+  '/check-in',
+  requirePermission(Permission.ATTENDANCE_RECORD),
+  validateRequest(attendanceNoteSchema), // WHY: Validate request body
+  checkInController,
+);
+
+/**
+ * @swagger
+ * /attendance/check-out:
+ *   post:
+ *     summary: Check out
+ *     description: Closes today's (or yesterday's) open record and computes worked hours and status.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Checked out
+ *       409:
+ *         description: Not checked in, or already checked out
+ */
+router.post(
+  '/check-out',
+  requirePermission(Permission.ATTENDANCE_RECORD),
+  validateRequest(attendanceNoteSchema), // WHY: Validate request body
+  checkOutController,
+);
+
+/**
+ * @swagger
+ * /attendance/me/today:
+ *   get:
+ *     summary: Get today's attendance
+ *     description: Returns today's record, or null when not checked in yet.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Today's record or null
+ */
+router.get(
+  '/me/today',
+  requirePermission(Permission.ATTENDANCE_RECORD),
+  getMyTodayAttendanceController,
+);
+
+/**
+ * @swagger
+ * /attendance/me/monthly-hours:
+ *   get:
+ *     summary: Get my monthly hours
+ *     description: Hours worked vs target per month, for the "Monthly Attendance" chart.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: months
+ *         schema:
+ *           type: integer
+ *           default: 6
+ *     responses:
+ *       200:
+ *         description: List of { month, label, hours, target }
+ */
+router.get(
+  '/me/monthly-hours',
+  requirePermission(Permission.ATTENDANCE_RECORD),
+  validateRequest(monthlyChartQuerySchema, 'query'), // WHY: Validate query string
+  getMyMonthlyHoursController,
+);
+
+/**
+ * @swagger
+ * /attendance/me:
+ *   get:
+ *     summary: Get my attendance
+ *     description: Daily records (PRESENT, HALF_DAY, ABSENT, ON_LEAVE) and a summary for a date range. Defaults to the current month.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: "{ records, summary }"
+ *       400:
+ *         description: Invalid or too large date range
+ */
+router.get(
+  '/me',
+  requirePermission(Permission.ATTENDANCE_RECORD),
+  validateRequest(myAttendanceQuerySchema, 'query'), // WHY: Validate query string
+  getMyAttendanceController,
+);
+
+/**
+ * @swagger
+ * /attendance/summary:
+ *   get:
+ *     summary: Get attendance summary
+ *     description: Status counts and attendance rate for a date range, optionally per department or employee. Accessible by HR and SUPER_ADMIN.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: employeeId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attendance summary
+ */
+router.get(
+  '/summary',
+  requirePermission(Permission.ATTENDANCE_READ),
+  validateRequest(attendanceSummaryQuerySchema, 'query'), // WHY: Validate query string
+  getAttendanceSummaryController,
+);
+
+/**
+ * @swagger
+ * /attendance/trend:
+ *   get:
+ *     summary: Get attendance trend
+ *     description: Present/absent percentage per month, for the "Attendance Trend" chart. Accessible by HR and SUPER_ADMIN.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: months
+ *         schema:
+ *           type: integer
+ *           default: 6
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of { month, label, present, absent }
+ */
+router.get(
+  '/trend',
+  requirePermission(Permission.ATTENDANCE_READ),
+  validateRequest(monthlyChartQuerySchema, 'query'), // WHY: Validate query string
+  getAttendanceTrendController,
+);
+
+/**
+ * @swagger
+ * /attendance:
+ *   get:
+ *     summary: List daily attendance
+ *     description: Daily records for all active employees (or one department/employee) over a date range,
+ *       newest day first by default (limit defaults to 50). q matches the employee's first name, last name
+ *       or employee ID. Sortable by date, status and workedHours. Accessible by HR and SUPER_ADMIN.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: filter[department]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filter[employeeId]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filter[status]
+ *         schema:
+ *           type: string
+ *           enum: [PRESENT, ABSENT, HALF_DAY, ON_LEAVE]
+ *       - in: query
+ *         name: filter[checkOutCapped]
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *         description: Records whose check-out came after the maximum shift length and was capped
+ *     responses:
+ *       200:
+ *         description: Paginated daily records ({ items, pagination })
+ *       400:
+ *         description: Invalid filter or sort, or an invalid or too large date range
+ */
+router.get(
+  '/',
+  requirePermission(Permission.ATTENDANCE_READ),
+  validateRequest(listAttendanceQuerySchema, 'query'), // WHY: Validate query string
+  getAttendanceController,
+);
+
+export default router;
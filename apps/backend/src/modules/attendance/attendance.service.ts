@@ -0,0 +1,518 @@
+/**
+ * WHAT: Attendance service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Owns check-in/check-out, worked hours, and the daily status of each
+ * employee (PRESENT, HALF_DAY, ABSENT, ON_LEAVE).
+ *
+ * HOW: Only check-ins are stored. ON_LEAVE comes from approved Leave
+ * documents and ABSENT from working days without a record, both derived
+ * at read time so cancelled leave or holiday changes never leave stale rows.
+ */
+
+import { FilterQuery } from 'mongoose';
+import { Attendance, IAttendanceDocument, AttendanceStatus } from './attendance.model';
+import { Employee, IEmployeeDocument } from '../employee/employee.model';
+import { Leave, ILeaveDocument, LeaveStatus } from '../leave/leave.model';
+import { getEmployeeDocumentByUserId } from '../employee/employee.service';
+import { getWorkingDates } from '../holiday/holiday.service';
+import {
+  AttendanceNoteInput,
+  MyAttendanceQuery,
+  ListAttendanceQuery,
+  AttendanceSummaryQuery,
+  MonthlyChartQuery,
+} from './attendance.validation';
+import {
+  AttendanceResponse,
+  DailyAttendanceRecord,
+  DailyAttendanceListResult,
+  AttendanceSummary,
+  MonthlyHoursPoint,
+  AttendanceTrendPoint,
+} from './attendance.types';
+import {
+  STANDARD_WORK_HOURS,
+  FULL_DAY_MIN_HOURS,
+  HALF_DAY_MIN_HOURS,
+  MAX_SHIFT_HOURS,
+  ATTENDANCE_ERRORS,
+} from './attendance.constants';
+import { createHttpError } from '../../utils/error.util';
+import { buildSearchFilter, escapeRegex, paginateRows } from '../../utils/query.util';
+import { addUtcDays, lastUtcMonths, toDateKey, toUtcDay } from '../../utils/date.util';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * WHAT: Round to two decimals
+ *
+ * WHY: Hours and percentages are shown to users; long floats are noise.
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * WHAT: Map attendance document to response shape
+ */
+function toAttendanceResponse(attendance: IAttendanceDocument): AttendanceResponse {
+  return {
+    id: attendance._id.toString(),
+    employeeId: attendance.employeeId.toString(),
+    date: attendance.date,
+    checkIn: attendance.checkIn,
+    checkOut: attendance.checkOut,
+    workedHours: attendance.workedHours,
+    checkOutCapped: attendance.checkOutCapped,
+    status: attendance.status,
+    notes: attendance.notes,
+    createdAt: attendance.createdAt,
+    updatedAt: attendance.updatedAt,
+  };
+}
+
+/**
+ * WHAT: Status for a number of worked hours
+ *
+ * WHY: Single place for the PRESENT / HALF_DAY / ABSENT thresholds.
+ */
+function statusForHours(hours: number): AttendanceStatus {
+  if (hours >= FULL_DAY_MIN_HOURS) {
+    return AttendanceStatus.PRESENT;
+  }
+  if (hours >= HALF_DAY_MIN_HOURS) {
+    return AttendanceStatus.HALF_DAY;
+  }
+  return AttendanceStatus.ABSENT;
+}
+
+/**
+ * WHAT: Check whether a leave covers a day only for half of it
+ */
+function isHalfDayOfLeave(leave: ILeaveDocument, day: Date): boolean {
+  return (
+    (leave.startHalfDay && toUtcDay(leave.startDate).getTime() === day.getTime()) ||
+    (leave.endHalfDay && toUtcDay(leave.endDate).getTime() === day.getTime())
+  );
+}
+
+/**
+ * WHAT: Load approved leaves overlapping a range
+ */
+async function findApprovedLeaves(
+  employeeIds: IEmployeeDocument['_id'][],
+  start: Date,
+  end: Date,
+): Promise<ILeaveDocument[]> {
+  return Leave.find({
+    employeeId: { $in: employeeIds },
+    status: LeaveStatus.APPROVED,
+    startDate: { $lte: end },
+    endDate: { $gte: start },
+  });
+}
+
+/**
+ * WHAT: Build daily attendance rows for employees over a range
+ *
+ * WHY: Core of every read endpoint and chart. One row per employee per
+ * expected working day (plus any day they actually checked in).
+ *
+ * HOW: For each employee and day:
+ * - stored record -> its status
+ * - else approved leave covers the day -> ON_LEAVE
+ * - else the day is over -> ABSENT
+ * - else (today, not checked in yet) -> no row
+ * Days before joining and after today are skipped.
+ */
+async function buildDailyRecords(
+  employees: IEmployeeDocument[],
+  from: Date,
+  to: Date,
+  includeEmployee = false,
+): Promise<DailyAttendanceRecord[]> {
+  const today = toUtcDay(new Date());
+  const start = toUtcDay(from);
+  const end = new Date(Math.min(toUtcDay(to).getTime(), today.getTime()));
+  if (employees.length === 0 || start > end) {
+    return [];
+  }
+
+  const employeeIds = employees.map((employee) => employee._id);
+  const [records, leaves] = await Promise.all([
+    Attendance.find({ employeeId: { $in: employeeIds }, date: { $gte: start, $lte: end } }),
+    findApprovedLeaves(employeeIds, start, end),
+  ]);
+
+  const recordsByKey = new Map(
+    records.map((record) => [`${record.employeeId.toString()}:${toDateKey(record.date)}`, record]),
+  );
+
+  // WHY: Employees at the same location share a working calendar
+  const workingDatesByLocation = new Map<string, Date[]>();
+  const workingDatesFor = async (location?: string): Promise<Date[]> => {
+    const key = location?.toLowerCase() ?? '';
+    if (!workingDatesByLocation.has(key)) {
+      workingDatesByLocation.set(key, await getWorkingDates(start, end, location));
+    }
+    return workingDatesByLocation.get(key)!;
+  };
+
+  const rows: DailyAttendanceRecord[] = [];
+
+  for (const employee of employees) {
+    const employeeKey = employee._id.toString();
+    const joinedOn = toUtcDay(employee.joiningDate);
+
+    // WHY: Working days plus any other day the employee actually checked in
+    const dayTimes = new Set(
+      (await workingDatesFor(employee.location))
+        .filter((day) => day >= joinedOn)
+        .map((day) => day.getTime()),
+    );
+    records
+      .filter((record) => record.employeeId.toString() === employeeKey)
+      .forEach((record) => dayTimes.add(record.date.getTime()));
+
+    const employeeLeaves = leaves.filter((leave) => leave.employeeId.toString() === employeeKey);
+    const summary = includeEmployee
+      ? {
+          id: employeeKey,
+          employeeId: employee.employeeId,
+          firstName: employee.firstName,
+          lastName: employee.lastName,
+          department: employee.department,
+        }
+      : undefined;
+
+    for (const time of [...dayTimes].sort((a, b) => a - b)) {
+      const day = new Date(time);
+      const dateKey = toDateKey(day);
+      const record = recordsByKey.get(`${employeeKey}:${dateKey}`);
+
+      if (record) {
+        rows.push({
+          date: dateKey,
+          employeeId: employeeKey,
+          employee: summary,
+          status: record.status,
+          checkIn: record.checkIn,
+          checkOut: record.checkOut,
+          workedHours: record.workedHours,
+          checkOutCapped: record.checkOutCapped,
+          attendanceId: record._id.toString(),
+        });
+        continue;
+      }
+
+      const leave = employeeLeaves.find(
+        (candidate) => toUtcDay(candidate.startDate) <= day && toUtcDay(candidate.endDate) >= day,
+      );
+      if (leave) {
+        rows.push({
+          date: dateKey,
+          employeeId: employeeKey,
+          employee: summary,
+          status: AttendanceStatus.ON_LEAVE,
+          workedHours: 0,
+          leaveId: leave._id.toString(),
+        });
+      } else if (day < today) {
+        rows.push({
+          date: dateKey,
+          employeeId: employeeKey,
+          employee: summary,
+          status: AttendanceStatus.ABSENT,
+          workedHours: 0,
+        });
+      }
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * WHAT: Count statuses over a set of rows
+ *
+ * WHY: Leave days don't count for or against attendance, so the rate is
+ * (present + half day) / (present + half day + absent).
+ */
+function summarizeRows(rows: DailyAttendanceRecord[], from: Date, to: Date): AttendanceSummary {
+  const count = (status: AttendanceStatus): number =>
+    rows.filter((row) => row.status === status).length;
+
+  const present = count(AttendanceStatus.PRESENT);
+  const halfDay = count(AttendanceStatus.HALF_DAY);
+  const absent = count(AttendanceStatus.ABSENT);
+  const counted = present + halfDay + absent;
+
+  return {
+    from: toDateKey(toUtcDay(from)),
+    to: toDateKey(toUtcDay(to)),
+    present,
+    halfDay,
+    absent,
+    onLeave: count(AttendanceStatus.ON_LEAVE),
+    attendanceRate: counted > 0 ? round2(((present + halfDay) / counted) * 100) : 0,
+  };
+}
+
+/**
+ * WHAT: Load employees for HR attendance queries
+ *
+ * WHY: A specific employee is returned even if inactive (history);
+ * otherwise only active employees, optionally in one department.
+ * q matches name or employee ID.
+ */
+async function findEmployeesForQuery(query: {
+  department?: string;
+  employeeId?: string;
+  q?: string;
+}): Promise<IEmployeeDocument[]> {
+  const filter: FilterQuery<IEmployeeDocument> = {
+    ...buildSearchFilter<IEmployeeDocument>(query.q, ['firstName', 'lastName', 'employeeId']),
+  };
+
+  if (query.employeeId) {
+    filter._id = query.employeeId;
+  } else {
+    filter.isActive = true;
+  }
+
+  if (query.department) {
+    filter.department = new RegExp(`^${escapeRegex(query.department)}$`, 'i');
+  }
+
+  return Employee.find(filter).sort({ firstName: 1, lastName: 1 });
+}
+
+/**
+ * WHAT: Check in service
+ *
+ * WHY: Starts the employee's attendance for today.
+ * Time comes from the server clock so it can't be back-dated.
+ *
+ * HOW: Refuses inactive employees, full-day approved leave and double check-in
+ */
+export async function checkIn(
+  userId: string,
+  input: AttendanceNoteInput,
+): Promise<AttendanceResponse> {
+  const employee = await getEmployeeDocumentByUserId(userId);
+  if (!employee.isActive) {
+    throw createHttpError(ATTENDANCE_ERRORS.INACTIVE_EMPLOYEE, 403);
+  }
+
+  const now = new Date();
+  const today = toUtcDay(now);
+
+  // WHY: Half-day leave still allows working the other half
+  const [leave] = await findApprovedLeaves([employee._id], today, today);
+  if (leave && !isHalfDayOfLeave(leave, today)) {
+    throw createHttpError(ATTENDANCE_ERRORS.ON_LEAVE, 409);
+  }
+
+  const existing = await Attendance.exists({ employeeId: employee._id, date: today });
+  if (existing) {
+    throw createHttpError(ATTENDANCE_ERRORS.ALREADY_CHECKED_IN, 409);
+  }
+
+  try {
+    const attendance = await Attendance.create({
+      employeeId: employee._id,
+      date: today,
+      checkIn: now,
+      status: AttendanceStatus.PRESENT, // WHY: Provisional until check-out computes hours
+      notes: input.notes,
+    });
+
+    return toAttendanceResponse(attendance);
+  } catch (error) {
+    // WHY: Unique index catches a concurrent double check-in
+    if ((error as { code?: number })?.code === 11000) {
+      throw createHttpError(ATTENDANCE_ERRORS.ALREADY_CHECKED_IN, 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * WHAT: Check out service
+ *
+ * WHY: Ends the open attendance record and computes worked hours and status.
+ * Yesterday's open record is accepted too, so shifts crossing midnight work.
+ *
+ * HOW: Finds latest open record, sets checkOut, workedHours and status.
+ * A check-out more than MAX_SHIFT_HOURS after check-in is a forgotten one:
+ * the record is closed at the cap and flagged for HR instead.
+ */
+export async function checkOut(
+  userId: string,
+  input: AttendanceNoteInput,
+): Promise<AttendanceResponse> {
+  const employee = await getEmployeeDocumentByUserId(userId);
+
+  const now = new Date();
+  const today = toUtcDay(now);
+
+  const attendance = await Attendance.findOne({
+    employeeId: employee._id,
+    date: { $gte: addUtcDays(today, -1) },
+    checkOut: { $exists: false },
+  }).sort({ date: -1 });
+
+  if (!attendance) {
+    const checkedOutToday = await Attendance.exists({ employeeId: employee._id, date: today });
+    throw createHttpError(
+      checkedOutToday ? ATTENDANCE_ERRORS.ALREADY_CHECKED_OUT : ATTENDANCE_ERRORS.NOT_CHECKED_IN,
+      409,
+    );
+  }
+
+  const shiftEnd = new Date(attendance.checkIn.getTime() + MAX_SHIFT_HOURS * MS_PER_HOUR);
+  const checkOutCapped = now > shiftEnd;
+  const checkOutAt = checkOutCapped ? shiftEnd : now;
+  const workedHours = round2((checkOutAt.getTime() - attendance.checkIn.getTime()) / MS_PER_HOUR);
+
+  attendance.checkOut = checkOutAt;
+  attendance.checkOutCapped = checkOutCapped;
+  attendance.workedHours = workedHours;
+  attendance.status = statusForHours(workedHours);
+  if (input.notes !== undefined) {
+    attendance.notes = input.notes;
+  }
+  await attendance.save();
+
+  return toAttendanceResponse(attendance);
+}
+
+/**
+ * WHAT: Get today's attendance service
+ *
+ * WHY: Lets the UI show a check-in or check-out button.
+ */
+export async function getMyTodayAttendance(userId: string): Promise<AttendanceResponse | null> {
+  const employee = await getEmployeeDocumentByUserId(userId);
+
+  const attendance = await Attendance.findOne({
+    employeeId: employee._id,
+    date: toUtcDay(new Date()),
+  });
+
+  return attendance ? toAttendanceResponse(attendance) : null;
+}
+
+/**
+ * WHAT: Get own daily records service
+ *
+ * WHY: Backs "My Attendance".
+ */
+export async function getMyAttendance(
+  userId: string,
+  query: MyAttendanceQuery,
+): Promise<{ records: DailyAttendanceRecord[]; summary: AttendanceSummary }> {
+  const employee = await getEmployeeDocumentByUserId(userId);
+  const records = await buildDailyRecords([employee], query.from, query.to);
+
+  return { records, summary: summarizeRows(records, query.from, query.to) };
+}
+
+/**
+ * WHAT: Get own monthly hours service
+ *
+ * WHY: Feeds the "Monthly Attendance" chart (hours worked vs target).
+ *
+ * HOW: Target = (working days - leave days) x STANDARD_WORK_HOURS, up to today
+ */
+export async function getMyMonthlyHours(
+  userId: string,
+  query: MonthlyChartQuery,
+): Promise<MonthlyHoursPoint[]> {
+  const employee = await getEmployeeDocumentByUserId(userId);
+
+  return Promise.all(
+    lastUtcMonths(query.months).map(async ({ month, label, from, to }) => {
+      const rows = await buildDailyRecords([employee], from, to);
+      const expectedDays = rows.filter((row) => row.status !== AttendanceStatus.ON_LEAVE).length;
+
+      return {
+        month,
+        label,
+        hours: round2(rows.reduce((sum, row) => sum + row.workedHours, 0)),
+        target: expectedDays * STANDARD_WORK_HOURS,
+      };
+    }),
+  );
+}
+
+/**
+ * WHAT: Get daily records service (HR)
+ *
+ * WHY: Backs the HR "Attendance" page - who was present, absent or on
+ * leave, by date range and department.
+ *
+ * HOW: Rows are computed, not stored, so they are filtered by status and
+ * capped check-out and paginated in memory - the range is capped at
+ * MAX_RANGE_DAYS. Employees keep name order within a sort key.
+ */
+export async function getAttendance(
+  query: ListAttendanceQuery,
+): Promise<DailyAttendanceListResult> {
+  const { status, checkOutCapped, ...employeeFilter } = query.filter;
+  const employees = await findEmployeesForQuery({ ...employeeFilter, q: query.q });
+  let rows = await buildDailyRecords(employees, query.from, query.to, true);
+
+  if (status) {
+    rows = rows.filter((row) => row.status === status);
+  }
+  if (checkOutCapped !== undefined) {
+    rows = rows.filter((row) => (row.checkOutCapped ?? false) === checkOutCapped);
+  }
+
+  const { docs: records, pagination } = paginateRows(rows, query);
+
+  return { records, pagination };
+}
+
+/**
+ * WHAT: Get attendance summary service (HR)
+ *
+ * WHY: Status counts and attendance rate for stats cards.
+ */
+export async function getAttendanceSummary(
+  query: AttendanceSummaryQuery,
+): Promise<AttendanceSummary> {
+  const employees = await findEmployeesForQuery(query);
+  const rows = await buildDailyRecords(employees, query.from, query.to);
+
+  return summarizeRows(rows, query.from, query.to);
+}
+
+/**
+ * WHAT: Get attendance trend service (HR)
+ *
+ * WHY: Feeds the "Attendance Trend" chart (present/absent % per month).
+ */
+export async function getAttendanceTrend(
+  query: MonthlyChartQuery,
+): Promise<AttendanceTrendPoint[]> {
+  const employees = await findEmployeesForQuery(query);
+
+  const points: AttendanceTrendPoint[] = [];
+  // WHY: Sequential - each month loads a full range of records
+  for (const { month, label, from, to } of lastUtcMonths(query.months)) {
+    const summary = summarizeRows(await buildDailyRecords(employees, from, to), from, to);
+    const counted = summary.present + summary.halfDay + summary.absent;
+
+    points.push({
+      month,
+      label,
+      present: summary.attendanceRate,
+      absent: counted > 0 ? round2((summary.absent / counted) * 100) : 0,
+    });
+  }
+
+  return points;
+}
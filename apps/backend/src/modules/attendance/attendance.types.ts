@@ -0,0 +1,110 @@
+/**
+ * WHAT: TypeScript types for Attendance module
+ *
+ * WHY: Centralized type definitions ensure type safety across attendance module.
+ *
+ * HOW: Exports interfaces used in attendance service and controller
+ */
+
+import { AttendanceStatus } from './attendance.model';
+
+/**
+ * WHAT: Employee summary embedded in HR attendance responses
+ */
+export interface AttendanceEmployeeSummary {
+  id: string;
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  department: string;
+}
+
+/**
+ * WHAT: Stored attendance record response
+ *
+ * WHY: Returned by check-in/check-out and today's record.
+ */
+export interface AttendanceResponse {
+  id: string;
+  employeeId: string;
+  date: Date;
+  checkIn: Date;
+  checkOut?: Date;
+  workedHours: number;
+  checkOutCapped: boolean;
+  status: AttendanceStatus;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Daily attendance record
+ *
+ * WHY: One row per employee per expected working day. Rows come either
+ * from a stored record or are derived: ON_LEAVE from approved leave,
+ * ABSENT when a past working day has no record.
+ */
+export interface DailyAttendanceRecord {
+  date: string; // WHY: YYYY-MM-DD
+  employeeId: string;
+  employee?: AttendanceEmployeeSummary;
+  status: AttendanceStatus;
+  checkIn?: Date;
+  checkOut?: Date;
+  workedHours: number;
+  checkOutCapped?: boolean; // WHY: Set when backed by a stored record
+  attendanceId?: string; // WHY: Set when backed by a stored record
+  leaveId?: string; // WHY: Set when ON_LEAVE
+}
+
+/**
+ * WHAT: Daily records list result
+ *
+ * WHY: Matches the pagination shape expected by sendPaginated().
+ */
+export interface DailyAttendanceListResult {
+  records: DailyAttendanceRecord[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * WHAT: Status counts over a period
+ *
+ * WHY: Backs attendance stats; rate = (present + half day) / days that
+ * counted (leave days excluded), as a percentage.
+ */
+export interface AttendanceSummary {
+  from: string;
+  to: string;
+  present: number;
+  halfDay: number;
+  absent: number;
+  onLeave: number;
+  attendanceRate: number;
+}
+
+/**
+ * WHAT: Monthly hours point for the "Monthly Attendance" chart
+ */
+export interface MonthlyHoursPoint {
+  month: string; // WHY: YYYY-MM
+  label: string; // WHY: Short month name, used as chart axis label
+  hours: number;
+  target: number; // WHY: Working days x STANDARD_WORK_HOURS
+}
+
+/**
+ * WHAT: Monthly percentage point for the "Attendance Trend" chart
+ */
+export interface AttendanceTrendPoint {
+  month: string; // WHY: YYYY-MM
+  label: string;
+  present: number; // WHY: Percentage of counted days
+  absent: number; // WHY: Percentage of counted days
+}
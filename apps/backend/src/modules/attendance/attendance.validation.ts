@@ -0,0 +1,130 @@
+/**
+ * WHAT: Validation schemas for Attendance endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating request bodies and query strings
+ */
+
+import { z } from 'zod';
+import { AttendanceStatus } from './attendance.model';
+import { MAX_RANGE_DAYS, ATTENDANCE_ERRORS } from './attendance.constants';
+import { objectIdSchema, queryBooleanSchema } from '../../utils/validation.util';
+import { createListQuerySchema } from '../../utils/query.util';
+import { MS_PER_DAY, toUtcDay } from '../../utils/date.util';
+
+/**
+ * WHAT: Check-in / check-out body schema
+ *
+ * WHY: Times are taken from the server clock, never the client,
+ * so only an optional note is accepted.
+ */
+export const attendanceNoteSchema = z.object({
+  notes: z
+    .string()
+    .trim()
+    .max(500, 'Notes must be less than 500 characters')
+    .optional(),
+});
+
+/**
+ * WHAT: Date range query schema
+ *
+ * WHY: Defaults to the current month up to today.
+ */
+const dateRangeSchema = z.object({
+  from: z.coerce
+    .date({ invalid_type_error: 'Invalid from date' })
+    .default(() => {
+      const today = new Date();
+      return new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+    }),
+  to: z.coerce
+    .date({ invalid_type_error: 'Invalid to date' })
+    .default(() => toUtcDay(new Date())),
+});
+
+/**
+ * WHAT: Date range checks
+ *
+ * WHY: Shared by every range query - order and maximum length.
+ */
+function checkDateRange(data: { from: Date; to: Date }, ctx: z.RefinementCtx): void {
+  if (data.to < data.from) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'To date must be on or after from date',
+      path: ['to'],
+    });
+    return;
+  }
+
+  const days = (toUtcDay(data.to).getTime() - toUtcDay(data.from).getTime()) / MS_PER_DAY;
+  if (days >= MAX_RANGE_DAYS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: ATTENDANCE_ERRORS.RANGE_TOO_LARGE,
+      path: ['to'],
+    });
+  }
+}
+
+/**
+ * WHAT: Own attendance query schema
+ */
+export const myAttendanceQuerySchema = dateRangeSchema.superRefine(checkDateRange);
+
+/**
+ * WHAT: HR attendance query schema
+ *
+ * WHY: The list query plus a date range. HR filters daily records by
+ * department, employee and status, or finds capped check-outs to correct;
+ * q matches the employee's name or ID.
+ */
+export const listAttendanceQuerySchema = createListQuerySchema({
+  filters: {
+    department: z.string().trim().min(1),
+    employeeId: objectIdSchema,
+    status: z.nativeEnum(AttendanceStatus),
+    checkOutCapped: queryBooleanSchema,
+  },
+  sortable: ['date', 'status', 'workedHours'],
+  defaultSort: '-date', // WHY: Newest day first
+  defaultLimit: 50, // WHY: One row per employee per day - a page is about a day of a team
+})
+  .extend(dateRangeSchema.shape)
+  .superRefine(checkDateRange);
+
+/**
+ * WHAT: HR attendance summary query schema
+ */
+export const attendanceSummaryQuerySchema = dateRangeSchema
+  .extend({
+    department: z.string().trim().min(1).optional(),
+    employeeId: objectIdSchema.optional(),
+  })
+  .superRefine(checkDateRange);
+
+/**
+ * WHAT: Monthly chart query schema
+ *
+ * WHY: Charts cover the last N months (current month included).
+ */
+export const monthlyChartQuerySchema = z.object({
+  months: z.coerce.number().int().min(1).max(12).default(6),
+  department: z.string().trim().min(1).optional(),
+});
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * WHY: Type-safe request bodies in controllers.
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type AttendanceNoteInput = z.infer<typeof attendanceNoteSchema>;
+export type MyAttendanceQuery = z.infer<typeof myAttendanceQuerySchema>;
+export type ListAttendanceQuery = z.infer<typeof listAttendanceQuerySchema>;
+export type AttendanceSummaryQuery = z.infer<typeof attendanceSummaryQuerySchema>;
+export type MonthlyChartQuery = z.infer<typeof monthlyChartQuerySchema>;
@@ -0,0 +1,29 @@
+/**
+ * WHAT: Audit module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Single place to decide what is never written to the audit log
+ * - Consistent behaviour across modules that record entries
+ *
+ * HOW: Exports constants used across audit module
+ */
+
+/**
+ * WHAT: Fields whose values are never stored
+ *
+ * WHY: The audit log is readable by SUPER_ADMIN; secrets must not leak into it.
+ * A change to these fields is still recorded, with the value redacted.
+ */
+export const AUDIT_REDACTED_FIELDS = ['password', 'refreshToken'] as const;
+
+/**
+ * WHAT: Fields left out of diffs
+ *
+ * WHY: Bookkeeping fields change on every save and carry no meaning.
+ */
+export const AUDIT_IGNORED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt'] as const;
+
+/**
+ * WHAT: Placeholder for redacted values
+ */
+export const AUDIT_REDACTED_VALUE = '[REDACTED]';
@@ -0,0 +1,41 @@
+/**
+ * WHAT: Audit controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ * - Input validation (delegates to validation layer)
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getAuditLogs } from './audit.service';
+import { ListAuditLogsQuery } from './audit.validation';
+import { sendPaginated } from '../../utils/response.util';
+
+/**
+ * WHAT: List audit log controller
+ *
+ * WHY: Handles GET /api/admin/audit requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getAuditLogsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: Query is validated and coerced by validation middleware
+    const query = req.query as unknown as ListAuditLogsQuery;
+
+    const result = await getAuditLogs(query);
+
+    sendPaginated(res, result.entries, result.pagination);
+  } catch (error) {
+    // WHY: Pass error to error middleware for consistent error handling
+    next(error);
+  }
+}
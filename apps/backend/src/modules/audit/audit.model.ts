@@ -0,0 +1,208 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { UserRole } from '../auth/auth.types';
+
+/**
+ * WHAT: Audit log Mongoose model and schema
+ * 
+ * WHY: Admin, HR and auth actions change accounts and employee records.
+ * The audit log records who did what, to which record, from where and when,
+ * so changes can be traced after the fact.
+ * 
+ * HOW: Defines audit entry structure; updates and deletes are blocked
+ */
+
+/**
+ * WHAT: Audited actions
+ * 
+ * WHY: Fixed vocabulary keeps entries filterable and consistent across modules.
+ */
+export enum AuditAction {
+  LOGIN = 'LOGIN',
+  LOGIN_FAILED = 'LOGIN_FAILED',
+  LOGOUT = 'LOGOUT',
+  REGISTER = 'REGISTER',
+  PASSWORD_RESET_REQUEST = 'PASSWORD_RESET_REQUEST',
+  PASSWORD_RESET = 'PASSWORD_RESET',
+  PASSWORD_CHANGE = 'PASSWORD_CHANGE',
+  SESSION_REVOKE = 'SESSION_REVOKE',
+  TOKEN_REUSE = 'TOKEN_REUSE', // WHY: A rotated refresh token was replayed - possible theft
+  ACCOUNT_LOCK = 'ACCOUNT_LOCK', // WHY: Too many failed logins - possible password guessing
+  ACCOUNT_UNLOCK = 'ACCOUNT_UNLOCK',
+  MFA_ENABLE = 'MFA_ENABLE',
+  MFA_DISABLE = 'MFA_DISABLE',
+  MFA_BACKUP_CODES_REGENERATE = 'MFA_BACKUP_CODES_REGENERATE',
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  STATUS_CHANGE = 'STATUS_CHANGE',
+  DELETE = 'DELETE',
+  EXPORT = 'EXPORT', // WHY: Bulk data left the system - who took what, and with which columns
+}
+
+/**
+ * WHAT: Audited entity types
+ * 
+ * WHY: Together with entityId, identifies the record an action targeted.
+ */
+export enum AuditEntityType {
+  USER = 'USER',
+  EMPLOYEE = 'EMPLOYEE',
+  DEPARTMENT = 'DEPARTMENT',
+  HOLIDAY = 'HOLIDAY',
+  LEAVE_BALANCE = 'LEAVE_BALANCE',
+  LEAVE = 'LEAVE',
+  SESSION = 'SESSION',
+  SALARY_STRUCTURE = 'SALARY_STRUCTURE',
+  PAYROLL_RUN = 'PAYROLL_RUN',
+  REVIEW_CYCLE = 'REVIEW_CYCLE',
+  PERFORMANCE_REVIEW = 'PERFORMANCE_REVIEW',
+  JOB_REQUISITION = 'JOB_REQUISITION',
+  CANDIDATE = 'CANDIDATE',
+  ONBOARDING = 'ONBOARDING',
+  SURVEY = 'SURVEY',
+}
+
+/**
+ * WHAT: Field-level change
+ * 
+ * WHY: before is absent on create, after is absent on delete.
+ */
+export interface AuditFieldChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * WHAT: Audit log document interface
+ * 
+ * WHY: TypeScript interface ensures type safety.
+ * 
+ * HOW: Used throughout audit module for type safety
+ */
+export interface IAuditLogDocument extends Document {
+  actorId?: mongoose.Types.ObjectId; // WHY: Reference to User - absent for failed logins
+  actorEmail?: string; // WHY: Kept as text so entries stay readable if the user changes
+  actorRole?: UserRole;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string;
+  changes?: Record<string, AuditFieldChange>;
+  metadata?: Record<string, unknown>;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+/**
+ * WHAT: Audit log schema definition
+ * 
+ * WHY: Schema defines structure, validation, and indexes for audit collection.
+ * 
+ * HOW: Mongoose schema with validation and indexes
+ */
+const auditLogSchema = new Schema<IAuditLogDocument>(
+  {
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+
+    actorEmail: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
+
+    actorRole: {
+      type: String,
+      enum: Object.values(UserRole),
+    },
+
+    action: {
+      type: String,
+      enum: Object.values(AuditAction),
+      required: true,
+    },
+
+    entityType: {
+      type: String,
+      enum: Object.values(AuditEntityType),
+      required: true,
+    },
+
+    entityId: {
+      type: String,
+    },
+
+    // WHY: Mixed - the diffed fields depend on the entity type
+    changes: {
+      type: Schema.Types.Mixed,
+    },
+
+    metadata: {
+      type: Schema.Types.Mixed,
+    },
+
+    ip: {
+      type: String,
+    },
+
+    userAgent: {
+      type: String,
+      maxlength: 500,
+    },
+  },
+  {
+    // WHY: Entries are never updated, so only createdAt is meaningful
+    timestamps: { createdAt: true, updatedAt: false },
+    // WHY: Mixed fields may hold empty objects worth keeping (e.g. metadata)
+    minimize: false,
+  },
+);
+
+// WHY: The audit endpoint filters by actor, entity and date range, newest first
+auditLogSchema.index({ createdAt: -1 });
+auditLogSchema.index({ actorId: 1, createdAt: -1 });
+auditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+
+/**
+ * WHAT: Block updates and deletes
+ * 
+ * WHY: An audit trail that can be edited proves nothing.
+ * Entries can only be inserted.
+ * 
+ * HOW: Pre hooks on every update/delete query reject the operation
+ */
+function rejectMutation(): never {
+  throw new Error('Audit log entries are immutable');
+}
+
+auditLogSchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'replaceOne',
+    'findOneAndReplace',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+  ],
+  rejectMutation,
+);
+
+auditLogSchema.pre('save', function (next) {
+  // WHY: save() on an existing document would be an update
+  if (!this.isNew) {
+    return next(new Error('Audit log entries are immutable'));
+  }
+  next();
+});
+
+/**
+ * WHAT: Audit log model export
+ * 
+ * WHY: Model provides database operations.
+ * 
+ * HOW: Mongoose model created from schema
+ */
+export const AuditLog = mongoose.model<IAuditLogDocument>('AuditLog', auditLogSchema);
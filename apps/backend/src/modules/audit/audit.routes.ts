@@ -0,0 +1,95 @@
+/**
+ * WHAT: Audit routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions and RBAC middleware
+ */
+
+import { Router } from 'express';
+import { getAuditLogsController } from './audit.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import { listAuditLogsQuerySchema } from './audit.validation';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: The audit log covers every admin and HR action, including HR's own -
+ * audit:read is granted to SUPER_ADMIN only. There are no write routes: entries are
+ * recorded by the services that perform the actions.
+ */
+router.use(authenticate);
+router.use(requirePermission(Permission.AUDIT_READ));
+
+/**
+ * @swagger
+ * /admin/audit:
+ *   get:
+ *     summary: List audit log entries
+ *     description: Admin, HR and auth actions (including failed logins), newest first by default
+ *       (limit defaults to 20). q matches the actor email or entity ID. Sortable by createdAt.
+ *       Only accessible by SUPER_ADMIN.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[actorId]
+ *         schema:
+ *           type: string
+ *         description: User ID of the actor
+ *       - in: query
+ *         name: filter[actorEmail]
+ *         schema:
+ *           type: string
+ *         description: Actor email (also matches failed logins)
+ *       - in: query
+ *         name: filter[action]
+ *         schema:
+ *           type: string
+ *           enum: [LOGIN, LOGIN_FAILED, LOGOUT, REGISTER, PASSWORD_RESET_REQUEST, PASSWORD_RESET, PASSWORD_CHANGE, SESSION_REVOKE, TOKEN_REUSE, ACCOUNT_LOCK, ACCOUNT_UNLOCK, MFA_ENABLE, MFA_DISABLE, MFA_BACKUP_CODES_REGENERATE, CREATE, UPDATE, STATUS_CHANGE, DELETE, EXPORT]
+ *       - in: query
+ *         name: filter[entityType]
+ *         schema:
+ *           type: string
+ *           enum: [USER, EMPLOYEE, DEPARTMENT, HOLIDAY, LEAVE_BALANCE, LEAVE, SESSION]
+ *       - in: query
+ *         name: filter[entityId]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Inclusive
+ *     responses:
+ *       200:
+ *         description: Paginated audit entries ({ items, pagination })
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - requires audit:read permission (SUPER_ADMIN)
+ */
+router.get(
+  '/',
+  validateRequest(listAuditLogsQuerySchema, 'query'), // WHY: Validate query string
+  getAuditLogsController,
+);
+
+export default router;
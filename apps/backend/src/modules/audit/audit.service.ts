@@ -0,0 +1,150 @@
+/**
+ * WHAT: Audit service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Records audit entries for other modules and serves the audit endpoint.
+ *
+ * HOW: Diffs before/after snapshots and appends entries to the audit log
+ */
+
+import { FilterQuery } from 'mongoose';
+import { AuditLog, AuditFieldChange, IAuditLogDocument } from './audit.model';
+import { AuditContext, AuditLogListResult, AuditLogResponse, RecordAuditInput } from './audit.types';
+import { ListAuditLogsQuery } from './audit.validation';
+import {
+  AUDIT_IGNORED_FIELDS,
+  AUDIT_REDACTED_FIELDS,
+  AUDIT_REDACTED_VALUE,
+} from './audit.constants';
+import { addUtcDays, toUtcDay } from '../../utils/date.util';
+import { buildSearchFilter, findPage } from '../../utils/query.util';
+
+/**
+ * WHAT: Map audit document to response shape
+ */
+function toAuditLogResponse(entry: IAuditLogDocument): AuditLogResponse {
+  return {
+    id: entry._id.toString(),
+    actorId: entry.actorId?.toString(),
+    actorEmail: entry.actorEmail,
+    actorRole: entry.actorRole,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    changes: entry.changes,
+    metadata: entry.metadata,
+    ip: entry.ip,
+    userAgent: entry.userAgent,
+    createdAt: entry.createdAt,
+  };
+}
+
+/**
+ * WHAT: Normalize a snapshot to plain JSON values
+ *
+ * WHY: Snapshots may hold ObjectIds, Dates and Mongoose subdocuments.
+ * JSON round-trip makes them comparable and storable as-is.
+ */
+function toPlain(snapshot?: object): Record<string, unknown> {
+  return snapshot ? (JSON.parse(JSON.stringify(snapshot)) as Record<string, unknown>) : {};
+}
+
+/**
+ * WHAT: Build field-level diff between two snapshots
+ *
+ * WHY: Entries show only what changed, not whole documents.
+ *
+ * HOW:
+ * - Top-level fields are compared by JSON value (nested objects as a whole)
+ * - Bookkeeping fields are skipped
+ * - Secret fields are recorded as changed, with the value redacted
+ */
+function buildChanges(
+  before?: object,
+  after?: object,
+): Record<string, AuditFieldChange> {
+  const previous = toPlain(before);
+  const next = toPlain(after);
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  const changes: Record<string, AuditFieldChange> = {};
+
+  for (const field of fields) {
+    if ((AUDIT_IGNORED_FIELDS as readonly string[]).includes(field)) {
+      continue;
+    }
+    if (JSON.stringify(previous[field]) === JSON.stringify(next[field])) {
+      continue;
+    }
+
+    const redacted = (AUDIT_REDACTED_FIELDS as readonly string[]).includes(field);
+    const change: AuditFieldChange = {};
+    if (field in previous) {
+      change.before = redacted ? AUDIT_REDACTED_VALUE : previous[field];
+    }
+    if (field in next) {
+      change.after = redacted ? AUDIT_REDACTED_VALUE : next[field];
+    }
+    changes[field] = change;
+  }
+
+  return changes;
+}
+
+/**
+ * WHAT: Record an audit entry
+ *
+ * WHY: Called by admin, HR and auth services after a mutation succeeds
+ * (or a login fails).
+ *
+ * HOW: Never throws - the action already happened, so a failed audit
+ * write is logged instead of turning a successful request into an error.
+ */
+export async function recordAuditLog(
+  context: AuditContext,
+  input: RecordAuditInput,
+): Promise<void> {
+  try {
+    const changes = buildChanges(input.before, input.after);
+
+    await AuditLog.create({
+      actorId: context.actorId,
+      actorEmail: context.actorEmail,
+      actorRole: context.actorRole,
+      action: input.action,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      changes: Object.keys(changes).length > 0 ? changes : undefined,
+      metadata: input.metadata,
+      ip: context.ip,
+      userAgent: context.userAgent?.slice(0, 500),
+    });
+  } catch (error) {
+    console.error('Failed to write audit log entry:', error);
+  }
+}
+
+/**
+ * WHAT: Get audit log service
+ *
+ * WHY: SUPER_ADMIN reviews who changed what.
+ *
+ * HOW: Filters by actor, action, entity and date range; newest first by default, paginated
+ */
+export async function getAuditLogs(query: ListAuditLogsQuery): Promise<AuditLogListResult> {
+  const filter: FilterQuery<IAuditLogDocument> = {
+    ...query.filter,
+    ...buildSearchFilter<IAuditLogDocument>(query.q, ['actorEmail', 'entityId']),
+  };
+
+  if (query.from || query.to) {
+    filter.createdAt = {
+      ...(query.from && { $gte: toUtcDay(query.from) }),
+      // WHY: to is inclusive - everything before the start of the next day
+      ...(query.to && { $lt: addUtcDays(toUtcDay(query.to), 1) }),
+    };
+  }
+
+  const { docs: entries, pagination } = await findPage(AuditLog, filter, query);
+
+  return { entries: entries.map(toAuditLogResponse), pagination };
+}
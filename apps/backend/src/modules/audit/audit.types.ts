@@ -0,0 +1,72 @@
+/**
+ * WHAT: TypeScript types for Audit module
+ *
+ * WHY: Centralized type definitions ensure type safety across audit module.
+ *
+ * HOW: Exports interfaces used by services that record entries and by the audit endpoint
+ */
+
+import { UserRole } from '../auth/auth.types';
+import { AuditAction, AuditEntityType, AuditFieldChange } from './audit.model';
+
+/**
+ * WHAT: Who made a request and from where
+ *
+ * WHY: Services don't see the HTTP request. Controllers build this with
+ * getAuditContext(req) and pass it to mutating services.
+ */
+export interface AuditContext {
+  actorId?: string;
+  actorEmail?: string;
+  actorRole?: UserRole;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * WHAT: Input for recording one audit entry
+ *
+ * WHY: before/after are snapshots of the record; the service turns them
+ * into a field-level diff.
+ */
+export interface RecordAuditInput {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string;
+  before?: object;
+  after?: object;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * WHAT: Audit log response
+ */
+export interface AuditLogResponse {
+  id: string;
+  actorId?: string;
+  actorEmail?: string;
+  actorRole?: UserRole;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string;
+  changes?: Record<string, AuditFieldChange>;
+  metadata?: Record<string, unknown>;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+/**
+ * WHAT: Audit log list result
+ *
+ * WHY: Matches the pagination shape expected by sendPaginated().
+ */
+export interface AuditLogListResult {
+  entries: AuditLogResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
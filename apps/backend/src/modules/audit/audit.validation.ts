@@ -0,0 +1,48 @@
+/**
+ * WHAT: Validation schemas for Audit endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating query strings
+ */
+
+import { z } from 'zod';
+import { AuditAction, AuditEntityType } from './audit.model';
+import { objectIdSchema } from '../../utils/validation.util';
+import { createListQuerySchema } from '../../utils/query.util';
+
+/**
+ * WHAT: Audit log query validation schema
+ *
+ * WHY: The list query plus a date range. Filter by actor (ID or email),
+ * entity and action; q matches the actor email or entity ID.
+ * from/to are UTC days and both inclusive.
+ */
+export const listAuditLogsQuerySchema = createListQuerySchema({
+  filters: {
+    actorId: objectIdSchema,
+    actorEmail: z.string().trim().toLowerCase(),
+    action: z.nativeEnum(AuditAction),
+    entityType: z.nativeEnum(AuditEntityType),
+    entityId: z.string().trim().min(1),
+  },
+  sortable: ['createdAt'], // WHY: The only order the indexes serve on a growing collection
+  defaultSort: '-createdAt', // WHY: Most recent activity first
+  defaultLimit: 20,
+})
+  .extend({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must be on or before to',
+    path: ['to'],
+  });
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type ListAuditLogsQuery = z.infer<typeof listAuditLogsQuerySchema>;
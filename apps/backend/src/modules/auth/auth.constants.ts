@@ -1,3 +1,5 @@
+import { Permission, TokenScope, UserRole } from './auth.types';
+
 /**
  * WHAT: Authentication constants and configuration
  * 
@@ -25,6 +27,9 @@
 export const TOKEN_EXPIRATION = {
   ACCESS_TOKEN: '15m', // 15 minutes - short-lived for security
   REFRESH_TOKEN: '7d', // 7 days - long-lived for UX
+  PASSWORD_CHANGE_TOKEN: '10m', // 10 minutes - only to set a new password right after login
+  MFA_CHALLENGE_TOKEN: '5m', // 5 minutes - enough to open the authenticator app
+  MFA_SETUP_TOKEN: '10m', // 10 minutes - only to enrol in MFA right after login
 } as const;
 
 /**
@@ -60,6 +65,42 @@ export const AUTH_ERRORS = {
   REFRESH_TOKEN_INVALID: 'Invalid refresh token',
   UNAUTHORIZED: 'Unauthorized access',
   FORBIDDEN: 'Insufficient permissions',
+  RESET_TOKEN_INVALID: 'Password reset link is invalid or has expired',
+  PASSWORD_CHANGE_REQUIRED: 'You must change your password before continuing',
+  CURRENT_PASSWORD_INVALID: 'Current password is incorrect',
+  PASSWORD_UNCHANGED: 'New password must be different from the current password',
+  MFA_REQUIRED: 'Enter your two-factor authentication code to continue',
+  MFA_SETUP_REQUIRED: 'You must set up two-factor authentication before continuing',
+} as const;
+
+/**
+ * WHAT: Errors for scoped tokens used on the wrong route
+ *
+ * WHY: Tells the client which step it still has to finish.
+ *
+ * HOW: Used by the auth middleware when it rejects a token's scope
+ */
+export const TOKEN_SCOPE_ERRORS: Record<TokenScope, { message: string; code: string }> = {
+  [TokenScope.PASSWORD_CHANGE]: {
+    message: AUTH_ERRORS.PASSWORD_CHANGE_REQUIRED,
+    code: 'PASSWORD_CHANGE_REQUIRED',
+  },
+  [TokenScope.MFA_CHALLENGE]: { message: AUTH_ERRORS.MFA_REQUIRED, code: 'MFA_REQUIRED' },
+  [TokenScope.MFA_SETUP]: { message: AUTH_ERRORS.MFA_SETUP_REQUIRED, code: 'MFA_SETUP_REQUIRED' },
+};
+
+/**
+ * WHAT: Password reset settings
+ * 
+ * WHY: Reset links are emailed, so they must expire quickly.
+ * The forgot-password response is the same whether or not the email exists,
+ * so it can't be used to discover accounts.
+ * 
+ * HOW: Used in password reset service
+ */
+export const PASSWORD_RESET = {
+  TOKEN_TTL_MINUTES: 30,
+  REQUEST_MESSAGE: 'If an account exists for this email, a password reset link has been sent',
 } as const;
 
 /**
@@ -73,3 +114,55 @@ export const AUTH_ERRORS = {
  */
 export const BCRYPT_SALT_ROUNDS = 10;
 
+
+/**
+ * WHAT: Permissions granted to each role
+ * 
+ * WHY: Single place that decides what each role can do.
+ * - EMPLOYEE: Self-service (own profile, leave, attendance) and company directory
+ * - MANAGER: Employee + review leave and performance of direct reports
+ * - HR: Manager + employee, department, holiday, leave and attendance administration
+ * - SUPER_ADMIN: Everything, including HR accounts and the audit log
+ * 
+ * HOW: Looked up by requirePermission() middleware and /auth/me
+ */
+const EMPLOYEE_PERMISSIONS: Permission[] = [
+  Permission.PROFILE_READ,
+  Permission.DEPARTMENT_READ,
+  Permission.HOLIDAY_READ,
+  Permission.LEAVE_APPLY,
+  Permission.ATTENDANCE_RECORD,
+  Permission.ORG_READ,
+  Permission.PAYSLIP_READ,
+  Permission.PERFORMANCE_SELF,
+  Permission.SURVEY_RESPOND,
+];
+
+const MANAGER_PERMISSIONS: Permission[] = [
+  ...EMPLOYEE_PERMISSIONS,
+  Permission.LEAVE_APPROVE,
+  Permission.PERFORMANCE_REVIEW,
+];
+
+const HR_PERMISSIONS: Permission[] = [
+  ...MANAGER_PERMISSIONS,
+  Permission.EMPLOYEE_READ,
+  Permission.EMPLOYEE_MANAGE,
+  Permission.SALARY_READ,
+  Permission.DEPARTMENT_MANAGE,
+  Permission.HOLIDAY_MANAGE,
+  Permission.LEAVE_MANAGE,
+  Permission.ATTENDANCE_READ,
+  Permission.ANALYTICS_READ,
+  Permission.PAYROLL_MANAGE,
+  Permission.PERFORMANCE_MANAGE,
+  Permission.RECRUITMENT_MANAGE,
+  Permission.SURVEY_MANAGE,
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  [UserRole.EMPLOYEE]: EMPLOYEE_PERMISSIONS,
+  [UserRole.MANAGER]: MANAGER_PERMISSIONS,
+  [UserRole.HR]: HR_PERMISSIONS,
+  [UserRole.SUPER_ADMIN]: Object.values(Permission),
+};
@@ -5,10 +5,24 @@ import {
   refreshAccessToken,
   logoutUser,
   getUserById,
+  requestPasswordReset,
+  resetPassword,
+  changePassword,
+  completeMfaChallenge,
 } from './auth.service';
-import { LoginInput, RegisterInput, RefreshTokenInput } from './auth.validation';
-import { AUTH_ERRORS } from './auth.constants';
+import {
+  LoginInput,
+  RegisterInput,
+  RefreshTokenInput,
+  ForgotPasswordInput,
+  ResetPasswordInput,
+  ChangePasswordInput,
+} from './auth.validation';
+import { AUTH_ERRORS, PASSWORD_RESET } from './auth.constants';
 import { sendSuccess } from '../../utils/response.util';
+import { getAuditContext } from '../../utils/audit.util';
+import { JWTPayload } from './auth.types';
+import { MfaCodeInput } from '../mfa/mfa.validation';
 
 /**
  * WHAT: Authentication controller - HTTP request/response layer
@@ -42,7 +56,7 @@ export async function loginController(
 
     // WHY: Call service layer for business logic
     // Controller only handles HTTP concerns, not business logic
-    const result = await loginUser(input);
+    const result = await loginUser(input, getAuditContext(req));
 
     // WHY: Use standardized success response utility
     // Returns consistent format: { success: true, data: {...} }
@@ -71,7 +85,7 @@ export async function registerController(
     const input = req.body as RegisterInput;
 
     // WHY: Call service to create user
-    const user = await registerUser(input);
+    const user = await registerUser(input, getAuditContext(req));
 
     // WHY: Use standardized success response utility
     // 201 Created for resource creation
@@ -104,8 +118,8 @@ export async function refreshTokenController(
   try {
     const input = req.body as RefreshTokenInput;
 
-    // WHY: Call service to refresh access token
-    const result = await refreshAccessToken(input);
+    // WHY: Call service to rotate the refresh token and issue a new access token
+    const result = await refreshAccessToken(input, getAuditContext(req));
 
     // WHY: Use standardized success response utility
     sendSuccess(res, result, 200);
@@ -118,7 +132,7 @@ export async function refreshTokenController(
  * WHAT: Logout controller
  * 
  * WHY: Handles logout requests.
- * Invalidates refresh token to prevent token reuse.
+ * Revokes the current session's refresh token to prevent token reuse.
  * 
  * HOW: Express route handler
  */
@@ -131,13 +145,14 @@ export async function logoutController(
     // WHY: Get userId from request (set by auth middleware)
     // req.user is added by auth middleware after JWT verification
     const userId = (req as any).user?.userId;
+    const sessionId = req.user?.sessionId;
 
-    if (!userId) {
+    if (!userId || !sessionId) {
       throw new Error(AUTH_ERRORS.UNAUTHORIZED);
     }
 
-    // WHY: Call service to invalidate refresh token
-    await logoutUser(userId);
+    // WHY: Call service to revoke the current device session
+    await logoutUser(userId, sessionId, getAuditContext(req));
 
     // WHY: Use standardized success response utility
     sendSuccess(
@@ -183,3 +198,104 @@ export async function getCurrentUserController(
   }
 }
 
+/**
+ * WHAT: Forgot password controller
+ * 
+ * WHY: Handles POST /api/auth/forgot-password requests.
+ * Always answers the same way, so it can't be used to discover accounts.
+ * 
+ * HOW: Express route handler
+ */
+export async function forgotPasswordController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const input = req.body as ForgotPasswordInput;
+
+    await requestPasswordReset(input, getAuditContext(req));
+
+    sendSuccess(res, { message: PASSWORD_RESET.REQUEST_MESSAGE }, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Reset password controller
+ * 
+ * WHY: Handles POST /api/auth/reset-password requests.
+ * 
+ * HOW: Express route handler
+ */
+export async function resetPasswordController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const input = req.body as ResetPasswordInput;
+
+    await resetPassword(input, getAuditContext(req));
+
+    sendSuccess(
+      res,
+      {
+        message: 'Password reset successfully. Please login with your new password',
+      },
+      200,
+    );
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Change password controller
+ * 
+ * WHY: Handles POST /api/auth/change-password requests.
+ * Accepts the restricted password-change token issued at login.
+ * 
+ * HOW: Express route handler - returns new tokens like login
+ */
+export async function changePasswordController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as ChangePasswordInput;
+
+    const result = await changePassword(user.userId, input, getAuditContext(req));
+
+    sendSuccess(res, result, 200, 'Password changed successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: MFA login controller
+ * 
+ * WHY: Handles POST /api/auth/login/mfa - the second login step.
+ * 
+ * HOW: The MFA challenge token identifies the user; the code finishes the login
+ */
+export async function mfaLoginController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as MfaCodeInput;
+
+    const result = await completeMfaChallenge(user.userId, input, getAuditContext(req));
+
+    sendSuccess(res, result, 200);
+  } catch (error) {
+    next(error);
+  }
+}
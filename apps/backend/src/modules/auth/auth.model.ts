@@ -28,7 +28,7 @@ export interface IUserDocument extends Document {
   password: string;
   role: UserRole;
   isActive: boolean;
-  refreshToken?: string;
+  mustChangePassword: boolean;
   createdAt: Date;
   updatedAt: Date;
   // WHY: Instance method to compare password - keeps password logic in model
@@ -44,7 +44,8 @@ export interface IUserDocument extends Document {
  * - password: Hashed password, never returned in queries
  * - role: User's permission level (RBAC)
  * - isActive: Soft delete - allows disabling accounts without deletion
- * - refreshToken: Stored refresh token for token rotation
+ * - mustChangePassword: Password was set by someone else and must be replaced
+ * Refresh tokens live in the Session collection (one per device).
  * 
  * HOW: Mongoose schema with validation and indexes
  */
@@ -87,11 +88,11 @@ const userSchema = new Schema<IUserDocument>(
       required: true,
     },
 
-    // WHY: Refresh token stored in database for token rotation and invalidation
-    // Optional because not all users may have active refresh tokens
-    refreshToken: {
-      type: String,
-      select: false, // WHY: Don't return in queries by default
+    // WHY: Set when an admin/HR creates the account - they know (or generated)
+    // the password. Login only grants a password-change token until it's replaced.
+    mustChangePassword: {
+      type: Boolean,
+      default: false,
     },
   },
   {
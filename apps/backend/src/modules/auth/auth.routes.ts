@@ -5,14 +5,28 @@ import {
   refreshTokenController,
   logoutController,
   getCurrentUserController,
+  forgotPasswordController,
+  resetPasswordController,
+  changePasswordController,
+  mfaLoginController,
 } from './auth.controller';
 import { validateRequest } from '../../middlewares/validation.middleware';
 import {
   loginSchema,
   registerSchema,
   refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  changePasswordSchema,
 } from './auth.validation';
-import { authenticate } from '../../middlewares/auth.middleware';
+import {
+  authenticate,
+  authenticateForPasswordChange,
+  authenticateMfaChallenge,
+} from '../../middlewares/auth.middleware';
+import { mfaCodeSchema } from '../mfa/mfa.validation';
+import { rateLimitByIp, rejectLockedAccount } from '../../middlewares/rateLimit.middleware';
+import env from '../../config/env';
 
 /**
  * WHAT: Authentication routes - route definitions only
@@ -34,7 +48,7 @@ const router = Router();
  * /auth/login:
  *   post:
  *     summary: User login
- *     description: Authenticate user with email and password. Returns access token and refresh token.
+ *     description: Authenticate user with email and password. Returns access token and refresh token. If user.mustChangePassword is true, only a short-lived password-change token is returned (no refresh token) - it is accepted by /auth/change-password only. If user.mfaSetupRequired is true (role requires MFA, none enrolled), only an MFA setup token is returned - it is accepted by /auth/mfa/setup and /auth/mfa/enable only. If the user has MFA enabled, the response holds only mfaRequired (true) and a short-lived mfaToken - finish with /auth/login/mfa.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -84,17 +98,79 @@ const router = Router();
  *                         role:
  *                           type: string
  *                           enum: [SUPER_ADMIN, HR, MANAGER, EMPLOYEE]
+ *                         permissions:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                           example: [profile:read, leave:apply, leave:approve]
+ *                         mustChangePassword:
+ *                           type: boolean
+ *                           example: false
+ *                         mfaSetupRequired:
+ *                           type: boolean
+ *                           example: false
  *       400:
  *         description: Validation error
  *       401:
  *         description: Invalid credentials
+ *       423:
+ *         description: Account locked after too many failed logins (LOCKED) - see Retry-After
+ *       429:
+ *         description: Too many login requests from this IP (RATE_LIMITED) - see Retry-After
  */
 router.post(
   '/login',
+  rateLimitByIp('login', env.LOGIN_RATE_LIMIT_MAX), // WHY: Slow down guessing from one IP
   validateRequest(loginSchema), // WHY: Validate request body before processing
+  rejectLockedAccount, // WHY: Needs the normalised email from validation
   loginController,
 );
 
+/**
+ * @swagger
+ * /auth/login/mfa:
+ *   post:
+ *     summary: Complete login with a second factor
+ *     description: Second login step for users with MFA enabled. Send the mfaToken from /auth/login as the bearer token and an authenticator code or an unused backup code. Returns the same response as /auth/login. Wrong codes count as failed logins towards the account lockout.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: 6-digit authenticator code, or a backup code (e.g. a1b2c-3d4e5)
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Login successful - tokens returned
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Invalid, expired or missing MFA token, or wrong code (MFA_CODE_INVALID)
+ *       403:
+ *         description: Token is not an MFA challenge token
+ *       423:
+ *         description: Account locked after too many failed logins (LOCKED) - see Retry-After
+ *       429:
+ *         description: Too many requests from this IP (RATE_LIMITED) - see Retry-After
+ */
+router.post(
+  '/login/mfa',
+  rateLimitByIp('mfa', env.LOGIN_RATE_LIMIT_MAX), // WHY: 6-digit codes are guessable without a limit
+  authenticateMfaChallenge, // WHY: Only the challenge token from /auth/login is accepted
+  rejectLockedAccount, // WHY: Wrong codes lock the account like wrong passwords
+  validateRequest(mfaCodeSchema),
+  mfaLoginController,
+);
+
 /**
  * @swagger
  * /auth/register:
@@ -159,7 +235,7 @@ router.post(
  * /auth/refresh:
  *   post:
  *     summary: Refresh access token
- *     description: Get a new access token using refresh token. Allows seamless authentication without re-login.
+ *     description: Get a new access token using refresh token. The refresh token is rotated - store the returned one, the one sent stops working. Sending an already-used refresh token revokes its session.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -175,7 +251,7 @@ router.post(
  *                 example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
  *     responses:
  *       200:
- *         description: New access token generated
+ *         description: New access token and rotated refresh token generated
  *         content:
  *           application/json:
  *             schema:
@@ -190,21 +266,138 @@ router.post(
  *                     accessToken:
  *                       type: string
  *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                     refreshToken:
+ *                       type: string
+ *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
  *       401:
- *         description: Invalid or expired refresh token
+ *         description: Invalid, expired or revoked refresh token (REFRESH_TOKEN_INVALID), or an already-used one (REFRESH_TOKEN_REUSED)
+ *       429:
+ *         description: Too many refresh requests from this IP (RATE_LIMITED) - see Retry-After
  */
 router.post(
   '/refresh',
+  rateLimitByIp('refresh', env.REFRESH_RATE_LIMIT_MAX), // WHY: Limit token stuffing from one IP
   validateRequest(refreshTokenSchema), // WHY: Validate refresh token
   refreshTokenController,
 );
 
+/**
+ * @swagger
+ * /auth/forgot-password:
+ *   post:
+ *     summary: Request password reset
+ *     description: Emails a single-use reset link valid for 30 minutes. The response is the same whether or not the email belongs to an account.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: user@example.com
+ *     responses:
+ *       200:
+ *         description: Request accepted
+ *       400:
+ *         description: Validation error
+ *       429:
+ *         description: Too many reset requests from this IP (RATE_LIMITED) - see Retry-After
+ */
+router.post(
+  '/forgot-password',
+  rateLimitByIp('forgot-password', env.FORGOT_PASSWORD_RATE_LIMIT_MAX), // WHY: Each call sends an email and replaces the pending link
+  validateRequest(forgotPasswordSchema), // WHY: Validate email
+  forgotPasswordController,
+);
+
+/**
+ * @swagger
+ * /auth/reset-password:
+ *   post:
+ *     summary: Reset password
+ *     description: Sets a new password using the token from the reset link. The token works once. All sessions of the user are revoked - every device must log in again.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 description: Same strength rules as registration
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *       400:
+ *         description: Validation error, or invalid/expired/used token (RESET_TOKEN_INVALID)
+ */
+router.post(
+  '/reset-password',
+  validateRequest(resetPasswordSchema), // WHY: Validate token and password strength
+  resetPasswordController,
+);
+
+/**
+ * @swagger
+ * /auth/change-password:
+ *   post:
+ *     summary: Change password
+ *     description: Changes the password of the authenticated user. Accepts a normal access token or the password-change token issued at login when mustChangePassword is set. All sessions are revoked and new tokens are returned (same shape as login - an MFA setup token if the role requires MFA and none is enrolled).
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *                 format: password
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *                 description: Same strength rules as registration, must differ from the current password
+ *     responses:
+ *       200:
+ *         description: Password changed - new access and refresh tokens returned
+ *       400:
+ *         description: Validation error, wrong current password (CURRENT_PASSWORD_INVALID) or unchanged password (PASSWORD_UNCHANGED)
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.post(
+  '/change-password',
+  authenticateForPasswordChange, // WHY: The only route that accepts the password-change token
+  validateRequest(changePasswordSchema), // WHY: Validate new password strength
+  changePasswordController,
+);
+
 /**
  * @swagger
  * /auth/logout:
  *   post:
  *     summary: User logout
- *     description: Logout user and invalidate refresh token. Requires authentication.
+ *     description: Logout the current session and revoke its refresh token. Other sessions stay signed in. Requires authentication.
  *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
@@ -267,6 +460,11 @@ router.post(
  *                         role:
  *                           type: string
  *                           enum: [SUPER_ADMIN, HR, MANAGER, EMPLOYEE]
+ *                         permissions:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                           example: [profile:read, leave:apply, leave:approve]
  *                         isActive:
  *                           type: boolean
  *                         createdAt:
@@ -1,15 +1,46 @@
 import jwt from 'jsonwebtoken';
 import { User, IUserDocument } from './auth.model';
-import { LoginInput, RegisterInput, RefreshTokenInput } from './auth.validation';
+import {
+  LoginInput,
+  RegisterInput,
+  RefreshTokenInput,
+  ForgotPasswordInput,
+  ResetPasswordInput,
+  ChangePasswordInput,
+} from './auth.validation';
 import {
   LoginResponse,
   JWTPayload,
   UserRole,
   IUser,
+  CurrentUserResponse,
+  RefreshTokenResponse,
+  TokenScope,
+  MfaChallengeResponse,
 } from './auth.types';
-import { AUTH_ERRORS } from './auth.constants';
+import { PasswordResetToken } from './password-reset.model';
+import { AUTH_ERRORS, PASSWORD_RESET } from './auth.constants';
 import { TOKEN_EXPIRATION } from './auth.constants';
 import env from '../../config/env';
+import { createHttpError } from '../../utils/error.util';
+import { generateSecureToken, hashToken } from '../../utils/token.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+import { getPermissionsForRole } from '../../utils/permission.util';
+import {
+  createSession,
+  rotateSession,
+  endSession,
+  revokeAllSessions,
+} from '../session/session.service';
+import { SessionRevokedReason } from '../session/session.model';
+import { sendMail } from '../mail/mail.service';
+import { passwordResetMail } from '../mail/mail.templates';
+import { recordLoginFailure, clearLoginFailures } from '../throttle/throttle.service';
+import { isMfaEnabled, isMfaRequiredForRole, verifyMfaCode } from '../mfa/mfa.service';
+import { MfaCodeInput } from '../mfa/mfa.validation';
+import { MFA_ERRORS, MFA_ERROR_CODES } from '../mfa/mfa.constants';
 
 /**
  * WHAT: Authentication service - business logic layer
@@ -40,20 +71,135 @@ function generateAccessToken(payload: JWTPayload): string {
 }
 
 /**
- * WHAT: Generate JWT refresh token
+ * WHAT: Generate a scoped token
  * 
- * WHY: Refresh tokens are long-lived tokens used to get new access tokens.
- * Stored in database for invalidation and rotation.
- * Separate secret provides additional security.
+ * WHY: Logins that aren't finished yet (password change, MFA challenge,
+ * MFA setup) get only a scoped token. authenticate() rejects every scope,
+ * so each token works only on the routes of its own step.
  * 
- * HOW: Signs JWT with user ID and refresh secret
+ * HOW: Same secret as access tokens, scope claim, shorter expiration
  */
-function generateRefreshToken(userId: string): string {
-  // WHY: Refresh token only contains userId (minimal payload)
-  // Long expiration (7 days) for better UX
-  return jwt.sign({ userId }, env.JWT_REFRESH_SECRET, {
-    expiresIn: TOKEN_EXPIRATION.REFRESH_TOKEN,
+function generateScopedToken(
+  payload: JWTPayload,
+  scope: TokenScope,
+  expiresIn: string,
+): string {
+  return jwt.sign({ ...payload, scope }, env.JWT_SECRET, { expiresIn });
+}
+
+/**
+ * WHAT: Open a device session and issue its tokens
+ * 
+ * WHY: Shared by login and password change - both end with a signed-in device.
+ * 
+ * HOW: Creates the session, signs its ID into the access token
+ */
+async function issueSessionTokens(
+  user: IUserDocument,
+  context: AuditContext,
+): Promise<{ sessionId: string; accessToken: string; refreshToken: string }> {
+  // WHY: Each login is its own session, so other devices stay signed in.
+  // The session stores a hash of the refresh token for rotation and revocation.
+  const { sessionId, refreshToken } = await createSession(user._id.toString(), context);
+
+  const accessToken = generateAccessToken({
+    userId: user._id.toString(),
+    email: user.email,
+    role: user.role,
+    sessionId,
   });
+
+  return { sessionId, accessToken, refreshToken };
+}
+
+/**
+ * WHAT: Map user document to the login response user
+ */
+function toLoginUser(user: IUserDocument, mfaSetupRequired: boolean = false): LoginResponse['user'] {
+  return {
+    id: user._id.toString(),
+    email: user.email,
+    role: user.role,
+    // WHY: Lets the frontend show only what the user can do, right after login
+    permissions: getPermissionsForRole(user.role),
+    mustChangePassword: user.mustChangePassword,
+    mfaSetupRequired,
+  };
+}
+
+/**
+ * WHAT: Build the login response for an authenticated user
+ * 
+ * WHY: Shared by every way a login can finish (password, MFA code,
+ * password change, MFA enrolment), so the account policies apply to all of them.
+ * 
+ * HOW: In order - admin-set password: password-change token; role requires
+ * MFA but none enrolled: MFA setup token; otherwise a device session.
+ * Restricted tokens come without a session - it is opened once the step is done.
+ */
+async function issueLoginResponse(
+  user: IUserDocument,
+  context: AuditContext,
+): Promise<{ response: LoginResponse; sessionId?: string }> {
+  const payload: JWTPayload = {
+    userId: user._id.toString(),
+    email: user.email,
+    role: user.role,
+  };
+
+  if (user.mustChangePassword) {
+    const accessToken = generateScopedToken(
+      payload,
+      TokenScope.PASSWORD_CHANGE,
+      TOKEN_EXPIRATION.PASSWORD_CHANGE_TOKEN,
+    );
+    return { response: { accessToken, user: toLoginUser(user) } };
+  }
+
+  if (isMfaRequiredForRole(user.role) && !(await isMfaEnabled(user._id.toString()))) {
+    const accessToken = generateScopedToken(
+      payload,
+      TokenScope.MFA_SETUP,
+      TOKEN_EXPIRATION.MFA_SETUP_TOKEN,
+    );
+    return { response: { accessToken, user: toLoginUser(user, true) } };
+  }
+
+  const { sessionId, accessToken, refreshToken } = await issueSessionTokens(user, context);
+
+  return { response: { accessToken, refreshToken, user: toLoginUser(user) }, sessionId };
+}
+
+/**
+ * WHAT: Finish a login and record it
+ * 
+ * HOW: Issues the login response and writes the LOGIN audit entry;
+ * metadata says which restricted step (if any) the user was sent to
+ */
+async function completeLogin(
+  user: IUserDocument,
+  context: AuditContext,
+  metadata: Record<string, unknown> = {},
+): Promise<LoginResponse> {
+  const { response, sessionId } = await issueLoginResponse(user, context);
+
+  // WHY: Login is a public route - the actor is the user who just authenticated
+  await recordAuditLog(
+    { ...context, actorId: user._id.toString(), actorEmail: user.email, actorRole: user.role },
+    {
+      action: AuditAction.LOGIN,
+      entityType: AuditEntityType.USER,
+      entityId: user._id.toString(),
+      metadata: {
+        ...metadata,
+        ...(sessionId && { sessionId }),
+        ...(response.user.mustChangePassword && { mustChangePassword: true }),
+        ...(response.user.mfaSetupRequired && { mfaSetupRequired: true }),
+      },
+    },
+  );
+
+  return response;
 }
 
 /**
@@ -66,6 +212,7 @@ function generateRefreshToken(userId: string): string {
  */
 export async function registerUser(
   input: RegisterInput,
+  context: AuditContext,
 ): Promise<Omit<IUser, 'password' | 'refreshToken'>> {
   // WHY: Check if user already exists - prevents duplicate accounts
   const existingUser = await User.findOne({ email: input.email });
@@ -86,20 +233,67 @@ export async function registerUser(
   delete (userObject as any).password;
   delete (userObject as any).refreshToken;
 
+  // WHY: Register is a public route - without a logged-in actor, the user registered themselves
+  const actorContext = context.actorId
+    ? context
+    : { ...context, actorId: user._id.toString(), actorEmail: user.email, actorRole: user.role };
+
+  await recordAuditLog(actorContext, {
+    action: AuditAction.REGISTER,
+    entityType: AuditEntityType.USER,
+    entityId: user._id.toString(),
+    after: userObject,
+  });
+
   return userObject as Omit<IUser, 'password' | 'refreshToken'>;
 }
 
+/**
+ * WHAT: Record a failed login attempt
+ *
+ * WHY: Failed logins are the first sign of password guessing.
+ * The attempted email is recorded even when no such user exists,
+ * and counts towards that email's lockout.
+ */
+async function recordFailedLogin(
+  context: AuditContext,
+  email: string,
+  reason: string,
+  userId?: string,
+): Promise<void> {
+  const actorContext = { ...context, actorId: userId, actorEmail: email };
+
+  await recordAuditLog(actorContext, {
+    action: AuditAction.LOGIN_FAILED,
+    entityType: AuditEntityType.USER,
+    entityId: userId,
+    metadata: { reason },
+  });
+
+  const lockedUntil = await recordLoginFailure(email);
+  if (lockedUntil) {
+    await recordAuditLog(actorContext, {
+      action: AuditAction.ACCOUNT_LOCK,
+      entityType: AuditEntityType.USER,
+      entityId: userId,
+      metadata: { lockedUntil },
+    });
+  }
+}
+
 /**
  * WHAT: User login service
  * 
  * WHY: Login authenticates user and returns tokens.
  * Validates credentials, checks if user is active, generates tokens.
  * 
- * HOW: Finds user, verifies password, generates tokens, stores refresh token
+ * HOW: Finds user, verifies password, then either returns an MFA challenge
+ * or finishes the login (see issueLoginResponse)
  */
 export async function loginUser(
   input: LoginInput,
-): Promise<LoginResponse> {
+  context: AuditContext,
+): Promise<LoginResponse | MfaChallengeResponse> {
   // WHY: Find user by email with password selected (normally password is excluded)
   // select('+password') explicitly includes password field for comparison
   const user = await User.findOne({ email: input.email }).select('+password');
@@ -107,11 +301,13 @@ export async function loginUser(
   // WHY: Generic error message prevents email enumeration attacks
   // Attacker can't tell if email exists or password is wrong
   if (!user) {
+    await recordFailedLogin(context, input.email, 'UNKNOWN_EMAIL');
     throw new Error(AUTH_ERRORS.INVALID_CREDENTIALS);
   }
 
   // WHY: Check if account is active - allows soft delete without data loss
   if (!user.isActive) {
+    await recordFailedLogin(context, input.email, 'USER_INACTIVE', user._id.toString());
     throw new Error(AUTH_ERRORS.USER_INACTIVE);
   }
 
@@ -119,36 +315,131 @@ export async function loginUser(
   // comparePassword is instance method defined in model
   const isPasswordValid = await user.comparePassword(input.password);
   if (!isPasswordValid) {
+    await recordFailedLogin(context, input.email, 'INVALID_PASSWORD', user._id.toString());
     throw new Error(AUTH_ERRORS.INVALID_CREDENTIALS);
   }
 
-  // WHY: Generate tokens after successful authentication
-  const payload: JWTPayload = {
-    userId: user._id.toString(),
-    email: user.email,
-    role: user.role,
-  };
+  // WHY: Password alone isn't a finished login when MFA is on. Nothing is
+  // issued but a challenge token, and failures aren't cleared yet -
+  // wrong codes count towards the same lockout.
+  if (await isMfaEnabled(user._id.toString())) {
+    const mfaToken = generateScopedToken(
+      { userId: user._id.toString(), email: user.email, role: user.role },
+      TokenScope.MFA_CHALLENGE,
+      TOKEN_EXPIRATION.MFA_CHALLENGE_TOKEN,
+    );
+
+    return { mfaRequired: true, mfaToken };
+  }
+
+  // WHY: Earlier failures were the owner's typos - start counting from zero
+  await clearLoginFailures(input.email);
+
+  return completeLogin(user, context);
+}
+
+/**
+ * WHAT: MFA login step service
+ * 
+ * WHY: Second step of login for users with MFA. Accepts an authenticator
+ * code or a backup code; only now are real tokens issued.
+ * 
+ * HOW: Verifies (and consumes) the code; a wrong code is a failed login
+ */
+export async function completeMfaChallenge(
+  userId: string,
+  input: MfaCodeInput,
+  context: AuditContext,
+): Promise<LoginResponse> {
+  const user = await User.findById(userId);
+  if (!user || !user.isActive) {
+    throw createHttpError(AUTH_ERRORS.USER_INACTIVE, 401);
+  }
+
+  const method = await verifyMfaCode(userId, input.code);
+  if (!method) {
+    await recordFailedLogin(context, user.email, 'INVALID_MFA_CODE', userId);
+    throw createHttpError(MFA_ERRORS.CODE_INVALID, 401, MFA_ERROR_CODES.CODE_INVALID);
+  }
 
-  const accessToken = generateAccessToken(payload);
-  const refreshToken = generateRefreshToken(user._id.toString());
+  await clearLoginFailures(user.email);
 
-  // WHY: Store refresh token in database for:
-  // - Token invalidation on logout
-  // - Token rotation (can revoke old tokens)
-  // - Security (can detect token theft if multiple refresh tokens exist)
-  user.refreshToken = refreshToken;
+  return completeLogin(user, context, { mfa: method });
+}
+
+/**
+ * WHAT: Finish a login that was waiting for MFA enrolment
+ * 
+ * WHY: Users whose role requires MFA sign in with an MFA setup token until
+ * they enrol. Enrolling proves the second factor, so the login can finish.
+ * 
+ * HOW: Called after MFA was enabled with an MFA setup token
+ */
+export async function completeMfaEnrolment(
+  userId: string,
+  context: AuditContext,
+): Promise<LoginResponse> {
+  const user = await User.findById(userId);
+  if (!user || !user.isActive) {
+    throw createHttpError(AUTH_ERRORS.USER_INACTIVE, 401);
+  }
+
+  return completeLogin(user, context, { mfaEnrolled: true });
+}
+
+/**
+ * WHAT: Change password service
+ * 
+ * WHY: Completes a forced password change after first login, and lets any
+ * signed-in user change their password. Every other session is revoked -
+ * they were opened with the old password.
+ * 
+ * HOW: Verifies the current password, saves the new one, clears
+ * mustChangePassword, revokes all sessions and finishes the login
+ */
+export async function changePassword(
+  userId: string,
+  input: ChangePasswordInput,
+  context: AuditContext,
+): Promise<LoginResponse> {
+  const user = await User.findById(userId).select('+password');
+  if (!user || !user.isActive) {
+    throw createHttpError(AUTH_ERRORS.USER_INACTIVE, 401);
+  }
+
+  const isPasswordValid = await user.comparePassword(input.currentPassword);
+  if (!isPasswordValid) {
+    throw createHttpError(AUTH_ERRORS.CURRENT_PASSWORD_INVALID, 400, 'CURRENT_PASSWORD_INVALID');
+  }
+
+  // WHY: A forced change must actually replace the admin-known password
+  if (input.currentPassword === input.newPassword) {
+    throw createHttpError(AUTH_ERRORS.PASSWORD_UNCHANGED, 400, 'PASSWORD_UNCHANGED');
+  }
+
+  const wasForced = user.mustChangePassword;
+
+  // WHY: Password will be hashed by pre-save hook
+  user.password = input.newPassword;
+  user.mustChangePassword = false;
   await user.save();
 
-  // WHY: Return tokens and user info (without sensitive data)
-  return {
-    accessToken,
-    refreshToken,
-    user: {
-      id: user._id.toString(),
-      email: user.email,
-      role: user.role,
+  const revokedSessions = await revokeAllSessions(userId, SessionRevokedReason.PASSWORD_CHANGE);
+
+  // WHY: A role that requires MFA still has to enrol before getting a session
+  const { response, sessionId } = await issueLoginResponse(user, context);
+
+  await recordAuditLog(
+    { ...context, actorId: userId, actorEmail: user.email, actorRole: user.role },
+    {
+      action: AuditAction.PASSWORD_CHANGE,
+      entityType: AuditEntityType.USER,
+      entityId: userId,
+      metadata: { forced: wasForced, revokedSessions, ...(sessionId && { sessionId }) },
     },
-  };
+  );
+
+  return response;
 }
 
 /**
@@ -156,65 +447,55 @@ export async function loginUser(
  * 
  * WHY: Refresh tokens allow getting new access tokens without re-authentication.
  * Improves UX (users don't need to login frequently) while maintaining security.
+ * The refresh token is rotated on every call - the old one stops working.
  * 
- * HOW: Verifies refresh token, generates new access token
+ * HOW: Rotates the device session, then issues an access token for the current user data
  */
 export async function refreshAccessToken(
   input: RefreshTokenInput,
-): Promise<{ accessToken: string }> {
-  try {
-    // WHY: Verify refresh token signature and expiration
-    // If invalid or expired, throw error
-    const decoded = jwt.verify(
-      input.refreshToken,
-      env.JWT_REFRESH_SECRET,
-    ) as { userId: string };
-
-    // WHY: Find user and verify refresh token matches stored token
-    // This prevents use of revoked tokens
-    const user = await User.findById(decoded.userId).select('+refreshToken');
-    if (!user || !user.isActive) {
-      throw new Error(AUTH_ERRORS.USER_INACTIVE);
-    }
-
-    // WHY: Verify refresh token matches stored token
-    // Prevents use of old/revoked tokens
-    if (user.refreshToken !== input.refreshToken) {
-      throw new Error(AUTH_ERRORS.REFRESH_TOKEN_INVALID);
-    }
-
-    // WHY: Generate new access token with current user data
-    const payload: JWTPayload = {
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-    };
-
-    const accessToken = generateAccessToken(payload);
-
-    return { accessToken };
-  } catch (error) {
-    // WHY: Handle JWT errors (expired, invalid signature, etc.)
-    if (error instanceof jwt.JsonWebTokenError) {
-      throw new Error(AUTH_ERRORS.REFRESH_TOKEN_INVALID);
-    }
-    throw error;
+  context: AuditContext,
+): Promise<RefreshTokenResponse> {
+  // WHY: Rejects invalid, revoked and replayed tokens (a replay revokes the session)
+  const { userId, sessionId, refreshToken } = await rotateSession(input.refreshToken, context);
+
+  // WHY: Deactivated users can't keep their sessions alive
+  const user = await User.findById(userId);
+  if (!user || !user.isActive) {
+    await endSession(sessionId, SessionRevokedReason.USER_INACTIVE);
+    throw createHttpError(AUTH_ERRORS.USER_INACTIVE, 401);
   }
+
+  // WHY: Generate new access token with current user data (role may have changed)
+  const payload: JWTPayload = {
+    userId: user._id.toString(),
+    email: user.email,
+    role: user.role,
+    sessionId,
+  };
+
+  return { accessToken: generateAccessToken(payload), refreshToken };
 }
 
 /**
  * WHAT: Logout service
  * 
- * WHY: Logout invalidates refresh token by removing it from database.
- * Prevents token reuse after logout.
+ * WHY: Logout revokes the current device session so its refresh token can't be reused.
+ * Sessions on other devices stay signed in.
  * 
- * HOW: Removes refresh token from user document
+ * HOW: Revokes the session the access token was issued for
  */
-export async function logoutUser(userId: string): Promise<void> {
-  // WHY: Remove refresh token from database
-  // After logout, refresh token can't be used to get new access tokens
-  await User.findByIdAndUpdate(userId, {
-    $unset: { refreshToken: 1 }, // WHY: $unset removes field from document
+export async function logoutUser(
+  userId: string,
+  sessionId: string,
+  context: AuditContext,
+): Promise<void> {
+  await endSession(sessionId, SessionRevokedReason.LOGOUT);
+
+  await recordAuditLog(context, {
+    action: AuditAction.LOGOUT,
+    entityType: AuditEntityType.USER,
+    entityId: userId,
+    metadata: { sessionId },
   });
 }
 
@@ -228,7 +509,7 @@ export async function logoutUser(userId: string): Promise<void> {
  */
 export async function getUserById(
   userId: string,
-): Promise<Omit<IUser, 'password' | 'refreshToken'>> {
+): Promise<CurrentUserResponse> {
   const user = await User.findById(userId);
   if (!user || !user.isActive) {
     throw new Error('User not found');
@@ -239,6 +520,106 @@ export async function getUserById(
   delete (userObject as any).password;
   delete (userObject as any).refreshToken;
 
-  return userObject as Omit<IUser, 'password' | 'refreshToken'>;
+  // WHY: Effective permissions come from the role, so role changes apply immediately
+  return {
+    ...(userObject as Omit<IUser, 'password' | 'refreshToken'>),
+    permissions: getPermissionsForRole(user.role),
+  };
+}
+
+/**
+ * WHAT: Request password reset service
+ * 
+ * WHY: Lets users who forgot their password set a new one via an emailed link.
+ * Returns nothing either way - the response must not reveal whether the
+ * email belongs to an account.
+ * 
+ * HOW: Replaces any outstanding reset token with a new one (only its hash is
+ * stored) and mails the link
+ */
+export async function requestPasswordReset(
+  input: ForgotPasswordInput,
+  context: AuditContext,
+): Promise<void> {
+  const user = await User.findOne({ email: input.email });
+  if (!user || !user.isActive) {
+    return;
+  }
+
+  // WHY: Only the most recent link works
+  await PasswordResetToken.deleteMany({ userId: user._id, usedAt: { $exists: false } });
+
+  const token = generateSecureToken();
+  await PasswordResetToken.create({
+    userId: user._id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + PASSWORD_RESET.TOKEN_TTL_MINUTES * 60 * 1000),
+  });
+
+  const resetUrl = `${env.APP_URL}/reset-password?token=${token}`;
+  await sendMail(passwordResetMail(user.email, resetUrl, PASSWORD_RESET.TOKEN_TTL_MINUTES));
+
+  // WHY: Public route - the actor is the account owner
+  await recordAuditLog(
+    { ...context, actorId: user._id.toString(), actorEmail: user.email, actorRole: user.role },
+    {
+      action: AuditAction.PASSWORD_RESET_REQUEST,
+      entityType: AuditEntityType.USER,
+      entityId: user._id.toString(),
+    },
+  );
 }
 
+/**
+ * WHAT: Reset password service
+ * 
+ * WHY: Completes the forgot-password flow. All sessions are revoked, because
+ * whoever knew the old password may also be signed in somewhere.
+ * 
+ * HOW: Marks the token used in the same query that finds it (single use even
+ * under concurrent requests), sets the new password, revokes all sessions
+ */
+export async function resetPassword(
+  input: ResetPasswordInput,
+  context: AuditContext,
+): Promise<void> {
+  const resetToken = await PasswordResetToken.findOneAndUpdate(
+    {
+      tokenHash: hashToken(input.token),
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    { usedAt: new Date() },
+    { new: true },
+  );
+
+  if (!resetToken) {
+    throw createHttpError(AUTH_ERRORS.RESET_TOKEN_INVALID, 400, 'RESET_TOKEN_INVALID');
+  }
+
+  const user = await User.findById(resetToken.userId);
+  if (!user || !user.isActive) {
+    throw createHttpError(AUTH_ERRORS.RESET_TOKEN_INVALID, 400, 'RESET_TOKEN_INVALID');
+  }
+
+  // WHY: Password will be hashed by pre-save hook
+  user.password = input.password;
+  // WHY: The user chose this password themselves - no forced change needed
+  user.mustChangePassword = false;
+  await user.save();
+
+  const revokedSessions = await revokeAllSessions(
+    user._id.toString(),
+    SessionRevokedReason.PASSWORD_RESET,
+  );
+
+  await recordAuditLog(
+    { ...context, actorId: user._id.toString(), actorEmail: user.email, actorRole: user.role },
+    {
+      action: AuditAction.PASSWORD_RESET,
+      entityType: AuditEntityType.USER,
+      entityId: user._id.toString(),
+      metadata: { revokedSessions },
+    },
+  );
+}
@@ -29,11 +29,68 @@ export enum UserRole {
   EMPLOYEE = "EMPLOYEE",
 }
 
+/**
+ * WHAT: Named permissions for access control
+ *
+ * WHY: Routes check what a user may do, not which role they have.
+ * Roles are mapped to permissions in one place (ROLE_PERMISSIONS), so
+ * changing what a role can do doesn't touch every route.
+ *
+ * HOW: "<resource>:<action>" strings, checked by requirePermission() middleware
+ * and returned from /auth/me for the frontend
+ */
+export enum Permission {
+  PROFILE_READ = "profile:read", // WHY: Own dashboard and employee profile
+  EMPLOYEE_READ = "employee:read",
+  EMPLOYEE_MANAGE = "employee:manage",
+  SALARY_READ = "salary:read", // WHY: Salary figures in exports
+  DEPARTMENT_READ = "department:read",
+  DEPARTMENT_MANAGE = "department:manage",
+  HOLIDAY_READ = "holiday:read",
+  HOLIDAY_MANAGE = "holiday:manage",
+  LEAVE_APPLY = "leave:apply", // WHY: Own leave requests and balance
+  LEAVE_APPROVE = "leave:approve", // WHY: Review leave of direct reports
+  LEAVE_MANAGE = "leave:manage", // WHY: Review any leave, view/adjust any balance
+  ATTENDANCE_RECORD = "attendance:record", // WHY: Own check-in/out and history
+  ATTENDANCE_READ = "attendance:read", // WHY: Company-wide attendance
+  ORG_READ = "org:read",
+  ANALYTICS_READ = "analytics:read", // WHY: HR dashboard figures
+  ANALYTICS_ADMIN = "analytics:admin", // WHY: Admin dashboard figures (SUPER_ADMIN only)
+  PAYROLL_MANAGE = "payroll:manage", // WHY: Salary structures and payroll runs
+  PAYSLIP_READ = "payslip:read", // WHY: Own payslips
+  PERFORMANCE_SELF = "performance:self", // WHY: Own reviews and self-assessment
+  PERFORMANCE_REVIEW = "performance:review", // WHY: Assess direct reports
+  PERFORMANCE_MANAGE = "performance:manage", // WHY: Review cycles and calibration
+  RECRUITMENT_MANAGE = "recruitment:manage", // WHY: Requisitions and candidates
+  SURVEY_RESPOND = "survey:respond", // WHY: Answer pulse surveys
+  SURVEY_MANAGE = "survey:manage", // WHY: Author surveys and read their results
+  HR_MANAGE = "hr:manage", // WHY: Create and (de)activate HR accounts
+  AUDIT_READ = "audit:read",
+  ACCOUNT_UNLOCK = "account:unlock", // WHY: Lift a failed-login lockout early
+}
+
+/**
+ * WHAT: Restricted access token scopes
+ *
+ * WHY: Some logins must finish a step before the user gets normal access
+ * (e.g. replacing a generated password). A scoped token proves who the user
+ * is but is accepted only by the routes that complete that step.
+ *
+ * HOW: Set as `scope` on the JWT payload; authenticate() rejects scoped tokens
+ */
+export enum TokenScope {
+  PASSWORD_CHANGE = "password_change",
+  MFA_CHALLENGE = "mfa_challenge", // WHY: Password was right, the second factor is still missing
+  MFA_SETUP = "mfa_setup", // WHY: Role requires MFA but the user hasn't enrolled yet
+}
+
 /**
  * WHAT: JWT payload interface
  *
  * WHY: Type-safe JWT payload ensures consistent token structure.
- * Contains user identity and role for authorization decisions.
+ * Contains user identity and role for authorization decisions,
+ * and the device session the token was issued for (logout, session list).
+ * Scoped tokens have no session - they can't be refreshed.
  *
  * HOW: Used when creating and verifying JWT tokens
  */
@@ -41,6 +98,8 @@ export interface JWTPayload {
   userId: string;
   email: string;
   role: UserRole;
+  sessionId?: string;
+  scope?: TokenScope;
 }
 
 /**
@@ -61,19 +120,47 @@ export interface LoginRequest {
  *
  * WHY: Consistent response structure for login endpoint.
  * Returns access token for immediate use and refresh token for token renewal.
+ * When mustChangePassword or mfaSetupRequired is set, accessToken is a
+ * scoped token for that step and there is no refresh token.
  *
  * HOW: Used in auth controller to structure login response
  */
 export interface LoginResponse {
   accessToken: string;
-  refreshToken: string;
+  refreshToken?: string;
   user: {
     id: string;
     email: string;
     role: UserRole;
+    permissions: Permission[];
+    mustChangePassword: boolean;
+    mfaSetupRequired: boolean; // WHY: accessToken is an MFA setup token - enrol before continuing
   };
 }
 
+/**
+ * WHAT: Login response when MFA is enabled
+ *
+ * WHY: The password was right, but no tokens are issued until the second
+ * factor is proven. mfaToken only works on POST /auth/login/mfa, for a few minutes.
+ *
+ * HOW: Returned by login instead of LoginResponse
+ */
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+/**
+ * WHAT: Current user response
+ *
+ * WHY: /auth/me returns the user together with their effective permissions,
+ * so the frontend can guard routes and menus without knowing role rules.
+ */
+export type CurrentUserResponse = Omit<IUser, 'password' | 'refreshToken'> & {
+  permissions: Permission[];
+};
+
 /**
  * WHAT: Refresh token request interface
  *
@@ -86,6 +173,17 @@ export interface RefreshTokenRequest {
   refreshToken: string;
 }
 
+/**
+ * WHAT: Refresh token response interface
+ *
+ * WHY: Refresh tokens are rotated - the client must store the new one,
+ * the token it sent is no longer valid.
+ */
+export interface RefreshTokenResponse {
+  accessToken: string;
+  refreshToken: string;
+}
+
 /**
  * WHAT: User document interface (MongoDB document)
  *
@@ -100,7 +198,7 @@ export interface IUser {
   password: string;
   role: UserRole;
   isActive: boolean;
-  refreshToken?: string;
+  mustChangePassword: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
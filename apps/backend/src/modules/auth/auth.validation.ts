@@ -33,6 +33,19 @@ export const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+/**
+ * WHAT: Password strength schema
+ * 
+ * WHY: Same rules wherever a user chooses a password (register, reset).
+ */
+const strongPasswordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters')
+  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+  .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+  .regex(/[0-9]/, 'Password must contain at least one number')
+  .regex(/[^A-Za-z0-9]/, 'Password must contain at least one special character');
+
 /**
  * WHAT: Register request validation schema
  * 
@@ -49,13 +62,7 @@ export const registerSchema = z.object({
     .trim(),
 
   // WHY: Strong password requirements prevent weak passwords
-  password: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/[0-9]/, 'Password must contain at least one number')
-    .regex(/[^A-Za-z0-9]/, 'Password must contain at least one special character'),
+  password: strongPasswordSchema,
 
   // WHY: Role must be valid enum value - prevents invalid roles
   role: z.nativeEnum(UserRole).optional().default(UserRole.EMPLOYEE),
@@ -74,6 +81,38 @@ export const refreshTokenSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required'),
 });
 
+/**
+ * WHAT: Forgot password request validation schema
+ */
+export const forgotPasswordSchema = z.object({
+  email: z
+    .string()
+    .email('Invalid email format')
+    .toLowerCase()
+    .trim(),
+});
+
+/**
+ * WHAT: Reset password request validation schema
+ * 
+ * WHY: The new password must meet the same rules as at registration.
+ */
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: strongPasswordSchema,
+});
+
+/**
+ * WHAT: Change password request validation schema
+ * 
+ * WHY: Current password is required even with a valid token - a token
+ * left on a shared machine must not be enough to take over the account.
+ */
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: strongPasswordSchema,
+});
+
 /**
  * WHAT: Type inference from validation schemas
  * 
@@ -85,4 +124,7 @@ export const refreshTokenSchema = z.object({
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
 
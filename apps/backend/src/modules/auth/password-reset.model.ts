@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Password reset token Mongoose model and schema
+ * 
+ * WHY: Forgot-password links carry a random token. Only its hash is stored,
+ * so a leaked collection can't be used to reset anyone's password.
+ * 
+ * HOW: One document per requested reset. usedAt makes it single-use,
+ * expiresAt makes it time-limited (and lets MongoDB delete it via TTL).
+ */
+
+/**
+ * WHAT: Password reset token document interface
+ * 
+ * WHY: TypeScript interface ensures type safety.
+ */
+export interface IPasswordResetTokenDocument extends Document {
+  userId: mongoose.Types.ObjectId; // WHY: Reference to User
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * WHAT: Password reset token schema definition
+ * 
+ * HOW: Mongoose schema with validation and indexes
+ */
+const passwordResetTokenSchema = new Schema<IPasswordResetTokenDocument>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true, // WHY: Invalidate a user's outstanding tokens
+    },
+
+    // WHY: Unique - the reset endpoint looks tokens up by hash
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+
+    usedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+// WHY: TTL index - MongoDB deletes tokens once they expire
+passwordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * WHAT: Password reset token model export
+ */
+export const PasswordResetToken = mongoose.model<IPasswordResetTokenDocument>(
+  'PasswordResetToken',
+  passwordResetTokenSchema,
+);
@@ -0,0 +1,209 @@
+/**
+ * WHAT: Department controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  createDepartment,
+  getDepartments,
+  getDepartmentById,
+  updateDepartment,
+  assignDepartmentHead,
+  updateDepartmentStatus,
+} from './department.service';
+import { getEmployees } from '../employee/employee.service';
+import {
+  CreateDepartmentInput,
+  UpdateDepartmentInput,
+  AssignDepartmentHeadInput,
+  UpdateDepartmentStatusInput,
+  ListDepartmentsQuery,
+  ListDepartmentEmployeesQuery,
+} from './department.validation';
+import { sendSuccess, sendPaginated } from '../../utils/response.util';
+import { getAuditContext } from '../../utils/audit.util';
+
+/**
+ * WHAT: Create department controller
+ *
+ * WHY: Handles POST /api/departments requests.
+ *
+ * HOW: Express route handler
+ */
+export async function createDepartmentController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const input = req.body as CreateDepartmentInput;
+
+    const department = await createDepartment(input, getAuditContext(req));
+
+    // WHY: 201 Created for resource creation
+    sendSuccess(res, department, 201, 'Department created successfully');
+  } catch (error) {
+    // WHY: Pass error to error middleware for consistent error handling
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List departments controller
+ *
+ * WHY: Handles GET /api/departments requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getDepartmentsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = req.query as unknown as ListDepartmentsQuery;
+
+    const result = await getDepartments(query);
+
+    sendPaginated(res, result.departments, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get department by ID controller
+ *
+ * WHY: Handles GET /api/departments/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getDepartmentByIdController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const department = await getDepartmentById(req.params.id);
+
+    sendSuccess(res, department, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Update department controller
+ *
+ * WHY: Handles PATCH /api/departments/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function updateDepartmentController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const input = req.body as UpdateDepartmentInput;
+
+    const department = await updateDepartment(req.params.id, input, getAuditContext(req));
+
+    sendSuccess(res, department, 200, 'Department updated successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Assign department head controller
+ *
+ * WHY: Handles PUT /api/departments/:id/head requests.
+ *
+ * HOW: Express route handler
+ */
+export async function assignDepartmentHeadController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const input = req.body as AssignDepartmentHeadInput;
+
+    const department = await assignDepartmentHead(req.params.id, input, getAuditContext(req));
+
+    sendSuccess(
+      res,
+      department,
+      200,
+      input.headId ? 'Department head assigned successfully' : 'Department head removed successfully',
+    );
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Update department status controller
+ *
+ * WHY: Handles PATCH /api/departments/:id/status requests.
+ *
+ * HOW: Express route handler
+ */
+export async function updateDepartmentStatusController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const input = req.body as UpdateDepartmentStatusInput;
+
+    const department = await updateDepartmentStatus(req.params.id, input, getAuditContext(req));
+
+    sendSuccess(
+      res,
+      department,
+      200,
+      `Department ${input.isActive ? 'activated' : 'deactivated'} successfully`,
+    );
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List department employees controller
+ *
+ * WHY: Handles GET /api/departments/:id/employees requests.
+ * Reuses the employee list so filters and response shape match /api/employees.
+ *
+ * HOW: Resolves department name, delegates to employee service
+ */
+export async function getDepartmentEmployeesController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = req.query as unknown as ListDepartmentEmployeesQuery;
+
+    // WHY: Throws 404 if department doesn't exist
+    const department = await getDepartmentById(req.params.id);
+
+    const result = await getEmployees({
+      ...query,
+      filter: { ...query.filter, department: department.name },
+    });
+
+    sendPaginated(res, result.employees, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
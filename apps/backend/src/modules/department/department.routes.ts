@@ -0,0 +1,313 @@
+/**
+ * WHAT: Department routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions and RBAC middleware
+ */
+
+import { Router } from 'express';
+import {
+  createDepartmentController,
+  getDepartmentsController,
+  getDepartmentByIdController,
+  updateDepartmentController,
+  assignDepartmentHeadController,
+  updateDepartmentStatusController,
+  getDepartmentEmployeesController,
+} from './department.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import {
+  createDepartmentSchema,
+  updateDepartmentSchema,
+  assignDepartmentHeadSchema,
+  updateDepartmentStatusSchema,
+  listDepartmentsQuerySchema,
+  listDepartmentEmployeesQuerySchema,
+} from './department.validation';
+import { idParamSchema } from '../../utils/validation.util';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: All department routes require authentication.
+ * Reading departments is open to every role (needed for forms and profiles);
+ * changes need department:manage and member lists employee:read, per route.
+ */
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /departments:
+ *   post:
+ *     summary: Create department
+ *     description: Creates a new department. Accessible by HR and SUPER_ADMIN.
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - code
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Engineering
+ *               code:
+ *                 type: string
+ *                 example: ENG
+ *               description:
+ *                 type: string
+ *               budget:
+ *                 type: number
+ *     responses:
+ *       201:
+ *         description: Department created successfully
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: Name or code already exists
+ */
+router.post(
+  '/',
+  requirePermission(Permission.DEPARTMENT_MANAGE),
+  validateRequest(createDepartmentSchema), // WHY: Validate request body
+  createDepartmentController,
+);
+
+/**
+ * @swagger
+ * /departments:
+ *   get:
+ *     summary: List departments
+ *     description: Returns a paginated list of departments. Accessible by all authenticated users.
+ *       q matches name or code. Sortable by name, code and createdAt (default name).
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[isActive]
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Paginated department list ({ items, pagination })
+ */
+router.get(
+  '/',
+  requirePermission(Permission.DEPARTMENT_READ),
+  validateRequest(listDepartmentsQuerySchema, 'query'), // WHY: Validate query string
+  getDepartmentsController,
+);
+
+/**
+ * @swagger
+ * /departments/{id}:
+ *   get:
+ *     summary: Get department
+ *     description: Returns department details including the head summary.
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Department details
+ *       404:
+ *         description: Department not found
+ */
+router.get(
+  '/:id',
+  requirePermission(Permission.DEPARTMENT_READ),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  getDepartmentByIdController,
+);
+
+/**
+ * @swagger
+ * /departments/{id}:
+ *   patch:
+ *     summary: Update department
+ *     description: Updates name, code, description or budget. Renaming also updates the department on all employee records.
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Department updated successfully
+ *       404:
+ *         description: Department not found
+ *       409:
+ *         description: Name or code already exists
+ */
+router.patch(
+  '/:id',
+  requirePermission(Permission.DEPARTMENT_MANAGE),
+  validateRequest(idParamSchema, 'params'),
+  validateRequest(updateDepartmentSchema), // WHY: Validate request body
+  updateDepartmentController,
+);
+
+/**
+ * @swagger
+ * /departments/{id}/head:
+ *   put:
+ *     summary: Assign department head
+ *     description: Sets or changes the department head. The head must be an active employee of the department. Send null to remove the head.
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - headId
+ *             properties:
+ *               headId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Employee ID of the new head
+ *     responses:
+ *       200:
+ *         description: Department head updated
+ *       400:
+ *         description: Employee inactive or not a member of the department
+ *       404:
+ *         description: Department not found
+ */
+router.put(
+  '/:id/head',
+  requirePermission(Permission.DEPARTMENT_MANAGE),
+  validateRequest(idParamSchema, 'params'),
+  validateRequest(assignDepartmentHeadSchema), // WHY: Validate request body
+  assignDepartmentHeadController,
+);
+
+/**
+ * @swagger
+ * /departments/{id}/status:
+ *   patch:
+ *     summary: Update department status
+ *     description: Activates or deactivates a department. Deactivation is refused while active employees belong to it.
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - isActive
+ *             properties:
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Department status updated
+ *       404:
+ *         description: Department not found
+ *       409:
+ *         description: Department still has active employees
+ */
+router.patch(
+  '/:id/status',
+  requirePermission(Permission.DEPARTMENT_MANAGE),
+  validateRequest(idParamSchema, 'params'),
+  validateRequest(updateDepartmentStatusSchema), // WHY: Validate request body
+  updateDepartmentStatusController,
+);
+
+/**
+ * @swagger
+ * /departments/{id}/employees:
+ *   get:
+ *     summary: List department employees
+ *     description: Returns a paginated list of employees in the department. Accessible by HR and SUPER_ADMIN.
+ *       Same query options as GET /employees, without filter[department].
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[designation]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filter[location]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filter[managerId]
+ *         schema:
+ *           type: string
+ *         description: Manager employee document ID
+ *       - in: query
+ *         name: filter[isActive]
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Paginated employee list ({ items, pagination })
+ *       404:
+ *         description: Department not found
+ */
+router.get(
+  '/:id/employees',
+  requirePermission(Permission.EMPLOYEE_READ),
+  validateRequest(idParamSchema, 'params'),
+  validateRequest(listDepartmentEmployeesQuerySchema, 'query'), // WHY: Validate query string
+  getDepartmentEmployeesController,
+);
+
+export default router;
@@ -0,0 +1,346 @@
+/**
+ * WHAT: Department service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Also owns the rule that Employee.department must name an active department,
+ * so reports grouped by department stay consistent.
+ *
+ * HOW: Contains all department management business logic
+ */
+
+import mongoose, { FilterQuery } from 'mongoose';
+import { Department, IDepartmentDocument } from './department.model';
+import { Employee, IEmployeeDocument } from '../employee/employee.model';
+import {
+  CreateDepartmentInput,
+  UpdateDepartmentInput,
+  AssignDepartmentHeadInput,
+  UpdateDepartmentStatusInput,
+  ListDepartmentsQuery,
+} from './department.validation';
+import { DepartmentResponse, DepartmentListResult } from './department.types';
+import { createHttpError } from '../../utils/error.util';
+import { buildSearchFilter, escapeRegex, findPage } from '../../utils/query.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+
+/**
+ * WHAT: Map department document to response shape
+ *
+ * WHY: Keeps response format consistent across all endpoints.
+ * Head summary is optional - only included when the head was loaded.
+ */
+function toDepartmentResponse(
+  department: IDepartmentDocument,
+  head?: IEmployeeDocument | null,
+): DepartmentResponse {
+  return {
+    id: department._id.toString(),
+    name: department.name,
+    code: department.code,
+    description: department.description,
+    headId: department.headId?.toString(),
+    head: head
+      ? {
+          id: head._id.toString(),
+          employeeId: head.employeeId,
+          firstName: head.firstName,
+          lastName: head.lastName,
+        }
+      : undefined,
+    budget: department.budget,
+    isActive: department.isActive,
+    createdAt: department.createdAt,
+    updatedAt: department.updatedAt,
+  };
+}
+
+/**
+ * WHAT: Find department or throw 404
+ *
+ * WHY: Most operations start with the same lookup and error.
+ */
+async function findDepartmentOrFail(id: string): Promise<IDepartmentDocument> {
+  const department = await Department.findById(id);
+  if (!department) {
+    throw createHttpError('Department not found', 404);
+  }
+  return department;
+}
+
+/**
+ * WHAT: Ensure name and code are not used by another department
+ *
+ * WHY: Clear 409 errors instead of duplicate key errors from MongoDB.
+ */
+async function assertUniqueNameAndCode(
+  input: { name?: string; code?: string },
+  excludeId?: string,
+): Promise<void> {
+  const conditions: FilterQuery<IDepartmentDocument>[] = [];
+  if (input.name) {
+    conditions.push({ name: input.name });
+  }
+  if (input.code) {
+    conditions.push({ code: input.code });
+  }
+  if (conditions.length === 0) {
+    return;
+  }
+
+  const existing = await Department.findOne({
+    $or: conditions,
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  });
+
+  if (existing) {
+    throw createHttpError('Department with this name or code already exists', 409);
+  }
+}
+
+/**
+ * WHAT: Resolve an employee department value to an active department name
+ *
+ * WHY: Employee.department is stored as a string. Validating it against
+ * active Department documents stops typos and retired departments from
+ * creeping into employee records. Accepts the name (case-insensitive) or code.
+ *
+ * HOW: Looks up an active department by name or code, returns its canonical name
+ */
+export async function resolveActiveDepartmentName(value: string): Promise<string> {
+  const department = await Department.findOne({
+    isActive: true,
+    $or: [
+      { name: new RegExp(`^${escapeRegex(value)}$`, 'i') },
+      { code: value.toUpperCase() },
+    ],
+  });
+
+  if (!department) {
+    throw createHttpError(`Department "${value}" not found or inactive`, 400);
+  }
+
+  return department.name;
+}
+
+/**
+ * WHAT: Create department service
+ *
+ * WHY: Creates a new organizational department.
+ *
+ * HOW: Checks uniqueness, creates document
+ */
+export async function createDepartment(
+  input: CreateDepartmentInput,
+  context: AuditContext,
+): Promise<DepartmentResponse> {
+  await assertUniqueNameAndCode(input);
+
+  const department = await Department.create({
+    ...input,
+    isActive: true, // WHY: New departments are active by default
+  });
+
+  await recordAuditLog(context, {
+    action: AuditAction.CREATE,
+    entityType: AuditEntityType.DEPARTMENT,
+    entityId: department._id.toString(),
+    after: department.toObject(),
+  });
+
+  return toDepartmentResponse(department);
+}
+
+/**
+ * WHAT: Get departments service
+ *
+ * WHY: Paginated department list with optional status filter and search.
+ *
+ * HOW: Builds filter, loads page and heads in batch
+ */
+export async function getDepartments(
+  query: ListDepartmentsQuery,
+): Promise<DepartmentListResult> {
+  const filter: FilterQuery<IDepartmentDocument> = {
+    ...query.filter,
+    ...buildSearchFilter<IDepartmentDocument>(query.q, ['name', 'code']),
+  };
+
+  const { docs: departments, pagination } = await findPage(Department, filter, query);
+
+  // WHY: Load all heads in one query instead of one per department
+  const headIds = departments
+    .map((department) => department.headId)
+    .filter((headId): headId is mongoose.Types.ObjectId => Boolean(headId));
+  const heads = await Employee.find({ _id: { $in: headIds } });
+  const headsById = new Map(heads.map((head) => [head._id.toString(), head]));
+
+  return {
+    departments: departments.map((department) =>
+      toDepartmentResponse(
+        department,
+        department.headId ? headsById.get(department.headId.toString()) : null,
+      ),
+    ),
+    pagination,
+  };
+}
+
+/**
+ * WHAT: Get department by ID service
+ *
+ * WHY: Returns department details including head summary.
+ */
+export async function getDepartmentById(id: string): Promise<DepartmentResponse> {
+  const department = await findDepartmentOrFail(id);
+  const head = department.headId ? await Employee.findById(department.headId) : null;
+
+  return toDepartmentResponse(department, head);
+}
+
+/**
+ * WHAT: Update department service
+ *
+ * WHY: Allows editing name, code, description and budget.
+ * Employee.department stores the department name, so a rename is
+ * propagated to all employees in the same transaction.
+ *
+ * HOW: Checks uniqueness, updates department (and employees on rename)
+ */
+export async function updateDepartment(
+  id: string,
+  input: UpdateDepartmentInput,
+  context: AuditContext,
+): Promise<DepartmentResponse> {
+  const department = await findDepartmentOrFail(id);
+  await assertUniqueNameAndCode(input, id);
+  const before = department.toObject();
+
+  const previousName = department.name;
+  const isRename = input.name !== undefined && input.name !== previousName;
+
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      department.set(input);
+      await department.save({ session });
+
+      // WHY: Keep employee records pointing at the renamed department
+      if (isRename) {
+        await Employee.updateMany(
+          { department: previousName },
+          { department: department.name },
+          { session },
+        );
+      }
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.UPDATE,
+    entityType: AuditEntityType.DEPARTMENT,
+    entityId: id,
+    before,
+    after: department.toObject(),
+  });
+
+  const head = department.headId ? await Employee.findById(department.headId) : null;
+  return toDepartmentResponse(department, head);
+}
+
+/**
+ * WHAT: Assign department head service
+ *
+ * WHY: Sets or changes who heads the department (null removes the head).
+ * The head must be an active employee of the same department.
+ *
+ * HOW: Validates employee membership, updates headId
+ */
+export async function assignDepartmentHead(
+  id: string,
+  input: AssignDepartmentHeadInput,
+  context: AuditContext,
+): Promise<DepartmentResponse> {
+  const department = await findDepartmentOrFail(id);
+
+  if (!department.isActive) {
+    throw createHttpError('Cannot assign a head to an inactive department', 400);
+  }
+
+  // WHY: null removes the head
+  let head: IEmployeeDocument | null = null;
+  if (input.headId !== null) {
+    head = await Employee.findById(input.headId);
+    if (!head || !head.isActive) {
+      throw createHttpError('Employee not found or inactive', 400);
+    }
+
+    // WHY: A department head must be a member of that department
+    if (head.department !== department.name) {
+      throw createHttpError('Department head must belong to the department', 400);
+    }
+  }
+
+  const before = department.toObject();
+  department.headId = head?._id;
+  await department.save();
+
+  await recordAuditLog(context, {
+    action: AuditAction.UPDATE,
+    entityType: AuditEntityType.DEPARTMENT,
+    entityId: id,
+    before,
+    after: department.toObject(),
+  });
+
+  return toDepartmentResponse(department, head);
+}
+
+/**
+ * WHAT: Update department status service
+ *
+ * WHY: Soft-deactivates (or reactivates) a department.
+ * Deactivating is refused while active employees still belong to it,
+ * otherwise those employees would reference an inactive department.
+ *
+ * HOW: Checks active member count, updates isActive
+ */
+export async function updateDepartmentStatus(
+  id: string,
+  input: UpdateDepartmentStatusInput,
+  context: AuditContext,
+): Promise<DepartmentResponse> {
+  const department = await findDepartmentOrFail(id);
+
+  if (!input.isActive) {
+    const activeMembers = await Employee.countDocuments({
+      department: department.name,
+      isActive: true,
+    });
+
+    if (activeMembers > 0) {
+      throw createHttpError(
+        `Cannot deactivate department with ${activeMembers} active employee(s)`,
+        409,
+      );
+    }
+  }
+
+  const before = department.toObject();
+  department.isActive = input.isActive;
+  await department.save();
+
+  await recordAuditLog(context, {
+    action: AuditAction.STATUS_CHANGE,
+    entityType: AuditEntityType.DEPARTMENT,
+    entityId: id,
+    before,
+    after: department.toObject(),
+  });
+
+  const head = department.headId ? await Employee.findById(department.headId) : null;
+  return toDepartmentResponse(department, head);
+}
@@ -0,0 +1,53 @@
+/**
+ * WHAT: TypeScript types for Department module
+ *
+ * WHY: Centralized type definitions ensure type safety across department module.
+ * Response types decouple the API contract from the Mongoose document shape.
+ *
+ * HOW: Exports interfaces used in department service and controller
+ */
+
+import { Pagination } from '../../utils/response.util';
+
+/**
+ * WHAT: Department head summary
+ *
+ * WHY: Lists and detail views show who heads the department
+ * without a second request for the full employee profile.
+ */
+export interface DepartmentHeadSummary {
+  id: string;
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * WHAT: Department response interface
+ *
+ * WHY: Type-safe response structure for department data.
+ *
+ * HOW: Used in service and controller responses
+ */
+export interface DepartmentResponse {
+  id: string;
+  name: string;
+  code: string;
+  description?: string;
+  headId?: string;
+  head?: DepartmentHeadSummary;
+  budget?: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Department list result
+ *
+ * WHY: Matches the pagination shape expected by sendPaginated().
+ */
+export interface DepartmentListResult {
+  departments: DepartmentResponse[];
+  pagination: Pagination;
+}
@@ -0,0 +1,115 @@
+/**
+ * WHAT: Validation schemas for Department endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating request bodies and query strings
+ */
+
+import { z } from 'zod';
+import { objectIdSchema, queryBooleanSchema } from '../../utils/validation.util';
+import { createListQuerySchema } from '../../utils/query.util';
+import {
+  employeeMemberFilters,
+  EMPLOYEE_SORTABLE_FIELDS,
+} from '../employee/employee.validation';
+
+/**
+ * WHAT: Create department validation schema
+ *
+ * WHY: Mirrors model constraints so errors surface as 400s, not Mongoose errors.
+ * Code is normalized to uppercase (e.g., "eng" -> "ENG").
+ */
+export const createDepartmentSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Department name is required')
+    .max(100, 'Department name must be less than 100 characters'),
+
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{2,10}$/, 'Department code must be 2-10 letters'),
+
+  description: z
+    .string()
+    .trim()
+    .max(500, 'Description must be less than 500 characters')
+    .optional(),
+
+  budget: z.number().min(0, 'Budget cannot be negative').optional(),
+});
+
+/**
+ * WHAT: Update department validation schema
+ *
+ * WHY: Partial update - only provided fields change.
+ * Head assignment and status have dedicated endpoints.
+ */
+export const updateDepartmentSchema = createDepartmentSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * WHAT: Assign department head validation schema
+ *
+ * WHY: headId is an Employee document ID; null removes the current head.
+ */
+export const assignDepartmentHeadSchema = z.object({
+  headId: objectIdSchema.nullable(),
+});
+
+/**
+ * WHAT: Update department status validation schema
+ *
+ * WHY: Validates soft-deactivation requests.
+ */
+export const updateDepartmentStatusSchema = z.object({
+  isActive: z.boolean({
+    required_error: 'isActive is required',
+    invalid_type_error: 'isActive must be a boolean',
+  }),
+});
+
+/**
+ * WHAT: List departments query validation schema
+ *
+ * WHY: Standard list query - q matches name or code.
+ */
+export const listDepartmentsQuerySchema = createListQuerySchema({
+  filters: {
+    isActive: queryBooleanSchema,
+  },
+  sortable: ['name', 'code', 'createdAt'],
+  defaultSort: 'name',
+});
+
+/**
+ * WHAT: Department members query validation schema
+ *
+ * WHY: Same filters as the employee list, minus department (fixed by the route).
+ */
+export const listDepartmentEmployeesQuerySchema = createListQuerySchema({
+  filters: employeeMemberFilters,
+  sortable: EMPLOYEE_SORTABLE_FIELDS,
+  defaultSort: '-createdAt',
+});
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * WHY: Type-safe request bodies in controllers.
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type CreateDepartmentInput = z.infer<typeof createDepartmentSchema>;
+export type UpdateDepartmentInput = z.infer<typeof updateDepartmentSchema>;
+export type AssignDepartmentHeadInput = z.infer<typeof assignDepartmentHeadSchema>;
+export type UpdateDepartmentStatusInput = z.infer<typeof updateDepartmentStatusSchema>;
+export type ListDepartmentsQuery = z.infer<typeof listDepartmentsQuerySchema>;
+export type ListDepartmentEmployeesQuery = z.infer<typeof listDepartmentEmployeesQuerySchema>;
@@ -0,0 +1,487 @@
+/**
+ * WHAT: Employee CSV import service
+ *
+ * WHY: Onboarding a company means entering hundreds of employees. HR uploads
+ * one CSV instead of filling in the create form for each of them.
+ *
+ * HOW: Every row is checked (fields, duplicates, existing records,
+ * departments, managers) before anything is written. Valid rows are then
+ * created in one transaction; invalid rows are reported and skipped.
+ * Managers are set after all rows are inserted, as seed-all.ts does, since
+ * a row may report to someone further down the file.
+ */
+
+import mongoose from 'mongoose';
+import bcrypt from 'bcrypt';
+import { Employee, IEmployeeDocument } from './employee.model';
+import { User, IUserDocument } from '../auth/auth.model';
+import { BCRYPT_SALT_ROUNDS } from '../auth/auth.constants';
+import {
+  ImportEmployeeRow,
+  ImportEmployeesQuery,
+  importEmployeeRowSchema,
+} from './employee.validation';
+import { EmployeeImportResult, EmployeeImportRowError } from './employee.types';
+import {
+  EMPLOYEE_IMPORT_COLUMNS,
+  EMPLOYEE_IMPORT_ERRORS,
+  EMPLOYEE_IMPORT_LIMITS,
+  EMPLOYEE_IMPORT_REQUIRED_COLUMNS,
+} from './employee.constants';
+import { parseCsv } from '../../utils/csv.util';
+import { generateRandomPassword } from '../../utils/password.util';
+import { createHttpError } from '../../utils/error.util';
+import { resolveActiveDepartmentName } from '../department/department.service';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+import { sendMail } from '../mail/mail.service';
+import { temporaryPasswordMail } from '../mail/mail.templates';
+import env from '../../config/env';
+
+/**
+ * WHAT: A row that has passed every check so far
+ */
+interface ImportCandidate {
+  row: number;
+  input: ImportEmployeeRow;
+  department?: string; // WHY: Canonical department name, set once resolved
+}
+
+/**
+ * WHAT: Import working state
+ *
+ * HOW: Rows leave candidates when they get an error. fileRows maps every
+ * employeeId in the file (valid or not) to its row, for manager error messages.
+ */
+interface ImportState {
+  candidates: Map<number, ImportCandidate>;
+  fileRows: Map<string, number>;
+  errors: EmployeeImportRowError[];
+}
+
+/**
+ * WHAT: Record an error and drop the row from the import
+ */
+function rejectRow(state: ImportState, row: number, message: string, field?: string): void {
+  state.errors.push({
+    row,
+    employeeId: state.candidates.get(row)?.input.employeeId,
+    field,
+    message,
+  });
+  state.candidates.delete(row);
+}
+
+/**
+ * WHAT: Map the header row to import columns
+ *
+ * WHY: A wrong header would misplace every cell in the file, so it fails
+ * the whole upload rather than every row.
+ */
+function resolveColumns(header: string[]): string[] {
+  const byLowerCase = new Map<string, string>(
+    EMPLOYEE_IMPORT_COLUMNS.map((column) => [column.toLowerCase(), column]),
+  );
+  const columns = header.map((name) => byLowerCase.get(name.trim().toLowerCase()));
+
+  const unknown = header.filter((_, index) => !columns[index]);
+  if (unknown.length > 0) {
+    throw createHttpError(
+      `Unknown columns: ${unknown.map((name) => `"${name}"`).join(', ')}. Allowed: ${EMPLOYEE_IMPORT_COLUMNS.join(', ')}`,
+      400,
+    );
+  }
+
+  const duplicates = columns.filter((column, index) => columns.indexOf(column) !== index);
+  if (duplicates.length > 0) {
+    throw createHttpError(`Duplicate columns: ${duplicates.join(', ')}`, 400);
+  }
+
+  const missing = EMPLOYEE_IMPORT_REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw createHttpError(`Missing required columns: ${missing.join(', ')}`, 400);
+  }
+
+  return columns as string[];
+}
+
+/**
+ * WHAT: Turn one row's cells into a create-employee shaped object
+ *
+ * HOW: Empty cells are left out (optional fields stay unset); dotted
+ * columns become nested objects, so address/emergencyContact exist only
+ * when at least one of their cells is filled
+ */
+function toRowInput(columns: string[], cells: string[]): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+
+  columns.forEach((column, index) => {
+    const value = cells[index]?.trim();
+    if (!value) {
+      return;
+    }
+
+    const [parent, child] = column.split('.');
+    if (child) {
+      input[parent] = { ...(input[parent] as Record<string, string> | undefined), [child]: value };
+    } else {
+      input[column] = value;
+    }
+  });
+
+  return input;
+}
+
+/**
+ * WHAT: Validate every row's fields
+ */
+function validateRows(state: ImportState, columns: string[], rows: string[][]): void {
+  rows.forEach((cells, index) => {
+    const row = index + 2; // WHY: Spreadsheet row number - the header is row 1
+    const input = toRowInput(columns, cells);
+    const employeeId =
+      typeof input.employeeId === 'string' ? input.employeeId.toUpperCase() : undefined;
+
+    if (employeeId && !state.fileRows.has(employeeId)) {
+      state.fileRows.set(employeeId, row);
+    }
+
+    if (cells.length > columns.length) {
+      state.errors.push({ row, employeeId, message: EMPLOYEE_IMPORT_ERRORS.TOO_MANY_CELLS });
+      return;
+    }
+
+    const result = importEmployeeRowSchema.safeParse(input);
+    if (!result.success) {
+      state.errors.push(
+        ...result.error.errors.map((issue) => ({
+          row,
+          employeeId,
+          field: issue.path.join('.'),
+          message: issue.message,
+        })),
+      );
+      return;
+    }
+
+    state.candidates.set(row, { row, input: result.data });
+  });
+}
+
+/**
+ * WHAT: Reject rows that share an email or employee ID
+ *
+ * WHY: All copies are rejected - the import can't know which one is right.
+ */
+function rejectDuplicates(state: ImportState, field: 'email' | 'employeeId'): void {
+  const rowsByValue = new Map<string, number[]>();
+  for (const candidate of state.candidates.values()) {
+    const value = candidate.input[field];
+    rowsByValue.set(value, [...(rowsByValue.get(value) ?? []), candidate.row]);
+  }
+
+  for (const [value, rows] of rowsByValue) {
+    if (rows.length > 1) {
+      for (const row of rows) {
+        rejectRow(state, row, `Duplicate ${field} "${value}" in rows ${rows.join(', ')}`, field);
+      }
+    }
+  }
+}
+
+/**
+ * WHAT: Reject rows whose email or employee ID is already taken
+ *
+ * HOW: Two queries for the whole file instead of two per row
+ */
+async function rejectExisting(state: ImportState): Promise<void> {
+  const candidates = [...state.candidates.values()];
+
+  const [users, employees] = await Promise.all([
+    User.find({ email: { $in: candidates.map((candidate) => candidate.input.email) } }).select('email'),
+    Employee.find({
+      employeeId: { $in: candidates.map((candidate) => candidate.input.employeeId) },
+    }).select('employeeId'),
+  ]);
+
+  const takenEmails = new Set(users.map((user) => user.email));
+  const takenEmployeeIds = new Set(employees.map((employee) => employee.employeeId));
+
+  for (const candidate of candidates) {
+    if (takenEmails.has(candidate.input.email)) {
+      rejectRow(state, candidate.row, EMPLOYEE_IMPORT_ERRORS.EMAIL_EXISTS, 'email');
+    } else if (takenEmployeeIds.has(candidate.input.employeeId)) {
+      rejectRow(state, candidate.row, EMPLOYEE_IMPORT_ERRORS.EMPLOYEE_ID_EXISTS, 'employeeId');
+    }
+  }
+}
+
+/**
+ * WHAT: Resolve each row's department to an active department name
+ *
+ * HOW: Same rule as single creates (name or code); each distinct value is
+ * looked up once
+ */
+async function resolveDepartments(state: ImportState): Promise<void> {
+  const resolved = new Map<string, string | Error>();
+
+  for (const candidate of [...state.candidates.values()]) {
+    const value = candidate.input.department;
+    if (!resolved.has(value)) {
+      resolved.set(
+        value,
+        await resolveActiveDepartmentName(value).catch((error: Error) => error),
+      );
+    }
+
+    const department = resolved.get(value)!;
+    if (department instanceof Error) {
+      rejectRow(state, candidate.row, department.message, 'department');
+    } else {
+      candidate.department = department;
+    }
+  }
+}
+
+/**
+ * WHAT: Reject rows whose managers form a loop within the file
+ *
+ * WHY: Existing employees can't report to rows that don't exist yet,
+ * so a loop can only run through rows of this file.
+ */
+function rejectManagerCycles(state: ImportState): void {
+  const byEmployeeId = new Map(
+    [...state.candidates.values()].map((candidate) => [candidate.input.employeeId, candidate]),
+  );
+
+  const looping = [...byEmployeeId.values()].filter((start) => {
+    const seen = new Set<string>();
+    let current: ImportCandidate | undefined = start;
+
+    while (current && !seen.has(current.input.employeeId)) {
+      seen.add(current.input.employeeId);
+      current = current.input.managerEmployeeId
+        ? byEmployeeId.get(current.input.managerEmployeeId)
+        : undefined;
+    }
+
+    return current === start;
+  });
+
+  for (const candidate of looping) {
+    rejectRow(state, candidate.row, EMPLOYEE_IMPORT_ERRORS.MANAGER_CYCLE, 'managerEmployeeId');
+  }
+}
+
+/**
+ * WHAT: Check every row's manager
+ *
+ * WHY: A manager is either another valid row of this file or an existing
+ * active employee. A row whose manager row fails is rejected too, so nobody
+ * is imported reporting to someone who wasn't.
+ *
+ * HOW: Returns the document IDs of existing managers by employeeId.
+ * Rejections repeat until no row points at a missing or rejected manager.
+ */
+async function resolveManagers(state: ImportState): Promise<Map<string, mongoose.Types.ObjectId>> {
+  const fileIds = new Set([...state.candidates.values()].map((c) => c.input.employeeId));
+  const externalIds = [...state.candidates.values()]
+    .map((candidate) => candidate.input.managerEmployeeId)
+    .filter((id): id is string => id !== undefined && !fileIds.has(id));
+
+  const existing = await Employee.find({
+    employeeId: { $in: externalIds },
+    isActive: true,
+  }).select('employeeId');
+  const existingIds = new Map(existing.map((employee) => [employee.employeeId, employee._id]));
+
+  const managerError = (managerEmployeeId: string) => {
+    const row = state.fileRows.get(managerEmployeeId);
+    return row
+      ? `Manager ${managerEmployeeId} (row ${row}) can't be imported`
+      : `Manager ${managerEmployeeId} not found or inactive`;
+  };
+
+  for (const candidate of [...state.candidates.values()]) {
+    if (candidate.input.managerEmployeeId === candidate.input.employeeId) {
+      rejectRow(state, candidate.row, EMPLOYEE_IMPORT_ERRORS.SELF_MANAGER, 'managerEmployeeId');
+    }
+  }
+
+  rejectManagerCycles(state);
+
+  // WHY: Also catches unknown managers on the first pass
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const validIds = new Set([...state.candidates.values()].map((c) => c.input.employeeId));
+
+    for (const candidate of [...state.candidates.values()]) {
+      const managerEmployeeId = candidate.input.managerEmployeeId;
+      if (managerEmployeeId && !validIds.has(managerEmployeeId) && !existingIds.has(managerEmployeeId)) {
+        rejectRow(state, candidate.row, managerError(managerEmployeeId), 'managerEmployeeId');
+        changed = true;
+      }
+    }
+  }
+
+  return existingIds;
+}
+
+/**
+ * WHAT: Create the valid rows
+ *
+ * WHY: One transaction - either every valid row is imported or none is,
+ * so a failure half-way never leaves HR guessing which rows made it.
+ *
+ * HOW: insertMany for users then employees, then managers in one bulkWrite.
+ * insertMany skips the User save hook, so passwords are hashed beforehand -
+ * outside the transaction, which bcrypt for hundreds of rows would otherwise keep open.
+ */
+async function createEmployees(
+  candidates: ImportCandidate[],
+  existingManagerIds: Map<string, mongoose.Types.ObjectId>,
+): Promise<Array<{ user: IUserDocument; employee: IEmployeeDocument; password: string }>> {
+  const passwords = candidates.map(() => generateRandomPassword());
+  const hashes = await Promise.all(
+    passwords.map((password) => bcrypt.hash(password, BCRYPT_SALT_ROUNDS)),
+  );
+
+  const session = await mongoose.startSession();
+  try {
+    let users: IUserDocument[] = [];
+    let employees: IEmployeeDocument[] = [];
+
+    await session.withTransaction(async () => {
+      users = await User.insertMany(
+        candidates.map((candidate, index) => ({
+          email: candidate.input.email,
+          password: hashes[index],
+          role: candidate.input.role,
+          isActive: true,
+          mustChangePassword: true, // WHY: Generated password - replaced on first login
+        })),
+        { session },
+      );
+
+      employees = await Employee.insertMany(
+        candidates.map((candidate, index) => ({
+          userId: users[index]._id,
+          employeeId: candidate.input.employeeId,
+          firstName: candidate.input.firstName,
+          lastName: candidate.input.lastName,
+          phoneNumber: candidate.input.phoneNumber,
+          dateOfBirth: candidate.input.dateOfBirth,
+          joiningDate: candidate.input.joiningDate,
+          department: candidate.department,
+          designation: candidate.input.designation,
+          location: candidate.input.location,
+          salary: candidate.input.salary,
+          address: candidate.input.address,
+          emergencyContact: candidate.input.emergencyContact,
+          isActive: true,
+        })),
+        { session },
+      );
+
+      // WHY: Every row now has a document ID, so in-file managers can be linked
+      const createdIds = new Map(employees.map((employee) => [employee.employeeId, employee._id]));
+      const updates = candidates.flatMap((candidate, index) => {
+        const managerEmployeeId = candidate.input.managerEmployeeId;
+        if (!managerEmployeeId) {
+          return [];
+        }
+
+        const managerId = createdIds.get(managerEmployeeId) ?? existingManagerIds.get(managerEmployeeId);
+        employees[index].managerId = managerId;
+        return [{ updateOne: { filter: { _id: employees[index]._id }, update: { managerId } } }];
+      });
+
+      if (updates.length > 0) {
+        await Employee.bulkWrite(updates, { session });
+      }
+    });
+
+    return employees.map((employee, index) => ({
+      user: users[index],
+      employee,
+      password: passwords[index],
+    }));
+  } finally {
+    await session.endSession();
+  }
+}
+
+/**
+ * WHAT: Import employees service
+ *
+ * WHY: Bulk onboarding from a spreadsheet. dryRun runs every check and
+ * reports what would happen without writing anything.
+ *
+ * HOW: Validates all rows, creates the valid ones in one transaction,
+ * then audits each new employee and emails their temporary password
+ */
+export async function importEmployees(
+  csv: string,
+  query: ImportEmployeesQuery,
+  context: AuditContext,
+): Promise<EmployeeImportResult> {
+  let table: string[][];
+  try {
+    table = parseCsv(csv);
+  } catch (error) {
+    throw createHttpError(`${EMPLOYEE_IMPORT_ERRORS.INVALID_CSV}: ${(error as Error).message}`, 400);
+  }
+
+  const [header = [], ...rows] = table;
+  if (rows.length === 0) {
+    throw createHttpError(EMPLOYEE_IMPORT_ERRORS.NO_ROWS, 400);
+  }
+  if (rows.length > EMPLOYEE_IMPORT_LIMITS.MAX_ROWS) {
+    throw createHttpError(EMPLOYEE_IMPORT_ERRORS.TOO_MANY_ROWS, 400);
+  }
+
+  const columns = resolveColumns(header);
+  const state: ImportState = { candidates: new Map(), fileRows: new Map(), errors: [] };
+
+  validateRows(state, columns, rows);
+  rejectDuplicates(state, 'email');
+  rejectDuplicates(state, 'employeeId');
+  await rejectExisting(state);
+  await resolveDepartments(state);
+  const existingManagerIds = await resolveManagers(state);
+
+  const candidates = [...state.candidates.values()].sort((a, b) => a.row - b.row);
+  const result: EmployeeImportResult = {
+    dryRun: query.dryRun,
+    totalRows: rows.length,
+    created: 0,
+    imported: candidates.map((candidate) => ({
+      row: candidate.row,
+      employeeId: candidate.input.employeeId,
+      email: candidate.input.email,
+    })),
+    errors: state.errors.sort((a, b) => a.row - b.row),
+  };
+
+  if (query.dryRun || candidates.length === 0) {
+    return result;
+  }
+
+  const created = await createEmployees(candidates, existingManagerIds);
+
+  for (const { user, employee, password } of created) {
+    await recordAuditLog(context, {
+      action: AuditAction.CREATE,
+      entityType: AuditEntityType.EMPLOYEE,
+      entityId: employee._id.toString(),
+      after: employee.toObject(),
+      metadata: { email: user.email, role: user.role, source: 'csv-import' },
+    });
+
+    await sendMail(temporaryPasswordMail(user.email, password, `${env.APP_URL}/login`));
+  }
+
+  return { ...result, created: created.length };
+}
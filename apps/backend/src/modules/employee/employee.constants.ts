@@ -0,0 +1,78 @@
+/**
+ * WHAT: Employee module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Consistent error messages
+ * - Single place to change import limits
+ *
+ * HOW: Exports constants used across employee module
+ */
+
+/**
+ * WHAT: CSV import limits
+ *
+ * WHY: Bounds the size of one request and one transaction. A larger
+ * company is imported in several files.
+ */
+export const EMPLOYEE_IMPORT_LIMITS = {
+  MAX_ROWS: 1000,
+  MAX_BYTES: '2mb', // WHY: express.text() limit - ~1000 rows with full addresses
+} as const;
+
+/**
+ * WHAT: CSV import columns
+ *
+ * WHY: Column names are the Employee field names; nested fields use dot
+ * notation (address.city). The manager is referenced by employeeId, since
+ * HR doesn't know document IDs and the manager may be in the same file.
+ * Columns may appear in any order; header matching ignores case.
+ */
+export const EMPLOYEE_IMPORT_COLUMNS = [
+  'employeeId',
+  'email',
+  'role',
+  'firstName',
+  'lastName',
+  'phoneNumber',
+  'dateOfBirth',
+  'joiningDate',
+  'department',
+  'designation',
+  'location',
+  'salary',
+  'managerEmployeeId',
+  'address.street',
+  'address.city',
+  'address.state',
+  'address.zipCode',
+  'address.country',
+  'emergencyContact.name',
+  'emergencyContact.relationship',
+  'emergencyContact.phoneNumber',
+] as const;
+
+/**
+ * WHAT: Columns every import file must have
+ */
+export const EMPLOYEE_IMPORT_REQUIRED_COLUMNS = [
+  'employeeId',
+  'email',
+  'firstName',
+  'lastName',
+  'department',
+  'designation',
+] as const;
+
+/**
+ * WHAT: Employee import error messages
+ */
+export const EMPLOYEE_IMPORT_ERRORS = {
+  INVALID_CSV: 'Invalid CSV',
+  NO_ROWS: 'CSV file has no data rows',
+  TOO_MANY_ROWS: `CSV file has more than ${EMPLOYEE_IMPORT_LIMITS.MAX_ROWS} data rows - split it into several files`,
+  TOO_MANY_CELLS: 'Row has more cells than the header',
+  EMAIL_EXISTS: 'User with this email already exists',
+  EMPLOYEE_ID_EXISTS: 'Employee ID already exists',
+  SELF_MANAGER: 'Employee cannot be their own manager',
+  MANAGER_CYCLE: 'Manager chain loops back to this employee',
+} as const;
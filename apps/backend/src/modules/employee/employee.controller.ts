@@ -0,0 +1,220 @@
+/**
+ * WHAT: Employee controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ * - Input validation (delegates to validation layer)
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  createEmployee,
+  getEmployees,
+  exportEmployees,
+  getEmployeeById,
+  updateEmployee,
+  updateEmployeeStatus,
+} from './employee.service';
+import { importEmployees } from './employee-import.service';
+import {
+  CreateEmployeeInput,
+  ImportEmployeesQuery,
+  UpdateEmployeeInput,
+  UpdateEmployeeStatusInput,
+  ListEmployeesQuery,
+  ExportEmployeesQuery,
+} from './employee.validation';
+import { sendSuccess, sendPaginated, sendExport } from '../../utils/response.util';
+import { JWTPayload } from '../auth/auth.types';
+import { getAuditContext } from '../../utils/audit.util';
+
+/**
+ * WHAT: Create employee controller
+ *
+ * WHY: Handles POST /api/employees requests.
+ * Creates employee record and linked user account in one step.
+ *
+ * HOW: Express route handler
+ */
+export async function createEmployeeController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: Request body is validated by validation middleware before reaching controller
+    const input = req.body as CreateEmployeeInput;
+
+    const employee = await createEmployee(input, getAuditContext(req));
+
+    // WHY: 201 Created for resource creation
+    sendSuccess(res, employee, 201, 'Employee created successfully');
+  } catch (error) {
+    // WHY: Pass error to error middleware for consistent error handling
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Import employees controller
+ *
+ * WHY: Handles POST /api/employees/import requests.
+ * Bulk-creates employees from a CSV body, or only checks it on a dry run.
+ *
+ * HOW: Express route handler
+ */
+export async function importEmployeesController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: Body (raw CSV text) and query are validated by validation middleware
+    const query = req.query as unknown as ImportEmployeesQuery;
+
+    const result = await importEmployees(req.body as string, query, getAuditContext(req));
+
+    // WHY: 201 only when something was created - a dry run never writes
+    sendSuccess(
+      res,
+      result,
+      result.created > 0 ? 201 : 200,
+      query.dryRun
+        ? 'Dry run complete - nothing was imported'
+        : `Imported ${result.created} of ${result.totalRows} employees`,
+    );
+  } catch (error) {
+    // WHY: Pass error to error middleware for consistent error handling
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List employees controller
+ *
+ * WHY: Handles GET /api/employees requests.
+ * Returns paginated employee list with optional filters.
+ *
+ * HOW: Express route handler
+ */
+export async function getEmployeesController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: Query is validated and coerced by validation middleware
+    const query = req.query as unknown as ListEmployeesQuery;
+
+    const result = await getEmployees(query);
+
+    // WHY: Paginated envelope - { items, pagination }
+    sendPaginated(res, result.employees, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Export employees controller
+ *
+ * WHY: Handles GET /api/employees/export requests.
+ * Streams the filtered employee list as CSV or XLSX.
+ *
+ * HOW: Express route handler
+ */
+export async function exportEmployeesController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: Query is validated and coerced by validation middleware
+    const query = req.query as unknown as ExportEmployeesQuery;
+
+    const file = await exportEmployees(req.user as JWTPayload, query, getAuditContext(req));
+
+    await sendExport(res, file);
+  } catch (error) {
+    // WHY: Pass error to error middleware for consistent error handling
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get employee by ID controller
+ *
+ * WHY: Handles GET /api/employees/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getEmployeeByIdController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const employee = await getEmployeeById(req.params.id);
+
+    sendSuccess(res, employee, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Update employee controller
+ *
+ * WHY: Handles PATCH /api/employees/:id requests.
+ * Partially updates employee profile fields.
+ *
+ * HOW: Express route handler
+ */
+export async function updateEmployeeController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const input = req.body as UpdateEmployeeInput;
+
+    const employee = await updateEmployee(req.params.id, input, getAuditContext(req));
+
+    sendSuccess(res, employee, 200, 'Employee updated successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Update employee status controller
+ *
+ * WHY: Handles PATCH /api/employees/:id/status requests.
+ * Soft-deactivates or reactivates an employee.
+ *
+ * HOW: Express route handler
+ */
+export async function updateEmployeeStatusController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const input = req.body as UpdateEmployeeStatusInput;
+
+    const employee = await updateEmployeeStatus(req.params.id, input, getAuditContext(req));
+
+    sendSuccess(
+      res,
+      employee,
+      200,
+      `Employee ${input.isActive ? 'activated' : 'deactivated'} successfully`,
+    );
+  } catch (error) {
+    next(error);
+  }
+}
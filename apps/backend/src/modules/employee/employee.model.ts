@@ -1,5 +1,4 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { UserRole } from '../auth/auth.types';
 
 /**
  * WHAT: Employee Mongoose model and schema
@@ -27,6 +26,7 @@ export interface IEmployeeDocument extends Document {
   joiningDate: Date;
   department: string;
   designation: string;
+  location?: string; // WHY: Work location - selects location-specific holidays
   managerId?: mongoose.Types.ObjectId; // WHY: Reference to manager (self-reference)
   salary?: number;
   address?: {
@@ -42,6 +42,7 @@ export interface IEmployeeDocument extends Document {
     phoneNumber: string;
   };
   isActive: boolean;
+  exitDate?: Date; // WHY: Last working day - set on deactivation, cleared on reactivation
   createdAt: Date;
   updatedAt: Date;
 }
@@ -116,6 +117,12 @@ const employeeSchema = new Schema<IEmployeeDocument>(
       trim: true,
     },
 
+    // WHY: Work location (office/city) - location-specific holidays apply only here
+    location: {
+      type: String,
+      trim: true,
+    },
+
     // WHY: Manager reference for organizational hierarchy
     managerId: {
       type: Schema.Types.ObjectId,
@@ -147,6 +154,11 @@ const employeeSchema = new Schema<IEmployeeDocument>(
       default: true,
       required: true,
     },
+
+    // WHY: Payroll still pays the exit month, prorated up to this day
+    exitDate: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,403 @@
+/**
+ * WHAT: Employee routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions and RBAC middleware
+ */
+
+import express, { Router } from 'express';
+import {
+  createEmployeeController,
+  importEmployeesController,
+  getEmployeesController,
+  exportEmployeesController,
+  getEmployeeByIdController,
+  updateEmployeeController,
+  updateEmployeeStatusController,
+} from './employee.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import {
+  createEmployeeSchema,
+  updateEmployeeSchema,
+  updateEmployeeStatusSchema,
+  listEmployeesQuerySchema,
+  exportEmployeesQuerySchema,
+  importEmployeesBodySchema,
+  importEmployeesQuerySchema,
+} from './employee.validation';
+import { EMPLOYEE_IMPORT_LIMITS } from './employee.constants';
+import { idParamSchema } from '../../utils/validation.util';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: All employee management routes require authentication
+ * authenticate: Verifies JWT token and attaches user to request
+ * requirePermission: employee:read for reads, employee:manage for changes
+ */
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /employees:
+ *   post:
+ *     summary: Create employee
+ *     description: Creates an employee record and its linked user account in one step. Accessible by HR and SUPER_ADMIN.
+ *     tags: [Employees]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - employeeId
+ *               - firstName
+ *               - lastName
+ *               - department
+ *               - designation
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: jane.doe@example.com
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 description: Optional. If not provided, a secure password will be auto-generated.
+ *               role:
+ *                 type: string
+ *                 enum: [EMPLOYEE, MANAGER]
+ *                 default: EMPLOYEE
+ *               employeeId:
+ *                 type: string
+ *                 example: EMP010
+ *               firstName:
+ *                 type: string
+ *                 example: Jane
+ *               lastName:
+ *                 type: string
+ *                 example: Doe
+ *               department:
+ *                 type: string
+ *                 example: Engineering
+ *               designation:
+ *                 type: string
+ *                 example: Software Engineer
+ *               location:
+ *                 type: string
+ *                 example: Bengaluru
+ *                 description: Work location, used for location-specific holidays
+ *               joiningDate:
+ *                 type: string
+ *                 format: date
+ *               managerId:
+ *                 type: string
+ *                 description: Employee document ID of the manager
+ *               salary:
+ *                 type: number
+ *     responses:
+ *       201:
+ *         description: Employee created successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - requires employee:manage permission
+ *       409:
+ *         description: Email or employee ID already exists
+ */
+router.post(
+  '/',
+  requirePermission(Permission.EMPLOYEE_MANAGE),
+  validateRequest(createEmployeeSchema), // WHY: Validate request body
+  createEmployeeController,
+);
+
+/**
+ * @swagger
+ * /employees/import:
+ *   post:
+ *     summary: Import employees from CSV
+ *     description: Creates employees and their user accounts from a CSV file sent as the request body.
+ *       The header row names the columns - employeeId, email, firstName, lastName, department and
+ *       designation are required; role, phoneNumber, dateOfBirth, joiningDate, location, salary,
+ *       managerEmployeeId, address.street, address.city, address.state, address.zipCode, address.country,
+ *       emergencyContact.name, emergencyContact.relationship and emergencyContact.phoneNumber are optional.
+ *       Every row is validated first. Valid rows are created in one transaction and invalid rows are
+ *       reported per row and skipped. Each new employee gets a generated password by email.
+ *       At most 1000 rows per file. Accessible by HR and SUPER_ADMIN.
+ *     tags: [Employees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Validate every row and report the result without creating anything
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *           example: |
+ *             employeeId,email,firstName,lastName,department,designation,managerEmployeeId
+ *             EMP100,lead@example.com,Lee,Ng,Engineering,Engineering Lead,
+ *             EMP101,dev@example.com,Sam,Roy,Engineering,Software Engineer,EMP100
+ *     responses:
+ *       200:
+ *         description: Dry run result, or nothing was valid to import ({ dryRun, totalRows, created, imported, errors })
+ *       201:
+ *         description: Valid rows were imported; errors lists the skipped rows
+ *       400:
+ *         description: Not a CSV body, unknown or missing columns, or too many rows
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - requires employee:manage permission
+ *       413:
+ *         description: File larger than 2 MB
+ */
+router.post(
+  '/import',
+  requirePermission(Permission.EMPLOYEE_MANAGE),
+  express.text({ type: 'text/csv', limit: EMPLOYEE_IMPORT_LIMITS.MAX_BYTES }), // WHY: CSV arrives as the raw body
+  validateRequest(importEmployeesBodySchema), // WHY: Validate request body
+  validateRequest(importEmployeesQuerySchema, 'query'), // WHY: Validate query string
+  importEmployeesController,
+);
+
+/**
+ * @swagger
+ * /employees:
+ *   get:
+ *     summary: List employees
+ *     description: Returns a paginated list of employees. Accessible by HR and SUPER_ADMIN.
+ *       q matches first name, last name or employee ID. Sortable by createdAt, joiningDate,
+ *       firstName, lastName and employeeId (default -createdAt).
+ *     tags: [Employees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[department]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filter[designation]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filter[location]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filter[managerId]
+ *         schema:
+ *           type: string
+ *         description: Manager employee document ID
+ *       - in: query
+ *         name: filter[isActive]
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Paginated employee list ({ items, pagination })
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - requires employee:read permission
+ */
+router.get(
+  '/',
+  requirePermission(Permission.EMPLOYEE_READ),
+  validateRequest(listEmployeesQuerySchema, 'query'), // WHY: Validate query string
+  getEmployeesController,
+);
+
+/**
+ * @swagger
+ * /employees/export:
+ *   get:
+ *     summary: Export employees
+ *     description: Streams the employee list as a CSV or XLSX download. Takes the same sort, q and
+ *       filter parameters as the list, without paging. from and to limit the joining date.
+ *       Columns are employeeId, email, role, firstName, lastName, phoneNumber, dateOfBirth,
+ *       joiningDate, department, designation, location, salary, managerEmployeeId, the address and
+ *       emergencyContact fields, isActive and createdAt. salary needs the salary:read permission.
+ *       Default sort is employeeId. Accessible by HR and SUPER_ADMIN.
+ *     tags: [Employees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ExportFormatParam'
+ *       - $ref: '#/components/parameters/ExportColumnsParam'
+ *       - $ref: '#/components/parameters/ExportFromParam'
+ *       - $ref: '#/components/parameters/ExportToParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[department]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filter[isActive]
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Export file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid filter, sort, date range or unknown column
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - requires employee:read permission, or a column the caller may not see
+ */
+router.get(
+  '/export',
+  requirePermission(Permission.EMPLOYEE_READ),
+  validateRequest(exportEmployeesQuerySchema, 'query'), // WHY: Validate query string
+  exportEmployeesController,
+);
+
+/**
+ * @swagger
+ * /employees/{id}:
+ *   get:
+ *     summary: Get employee
+ *     description: Returns a single employee with linked account email and role.
+ *     tags: [Employees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Employee ID
+ *     responses:
+ *       200:
+ *         description: Employee details
+ *       404:
+ *         description: Employee not found
+ */
+router.get(
+  '/:id',
+  requirePermission(Permission.EMPLOYEE_READ),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  getEmployeeByIdController,
+);
+
+/**
+ * @swagger
+ * /employees/{id}:
+ *   patch:
+ *     summary: Update employee
+ *     description: Partially updates employee profile fields. Set managerId to null to remove the manager.
+ *     tags: [Employees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Employee ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Employee updated successfully
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Employee not found
+ */
+router.patch(
+  '/:id',
+  requirePermission(Permission.EMPLOYEE_MANAGE),
+  validateRequest(idParamSchema, 'params'),
+  validateRequest(updateEmployeeSchema), // WHY: Validate request body
+  updateEmployeeController,
+);
+
+/**
+ * @swagger
+ * /employees/{id}/status:
+ *   patch:
+ *     summary: Update employee status
+ *     description: Activates or deactivates an employee (soft delete). Also activates/deactivates the linked user account.
+ *     tags: [Employees]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Employee ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - isActive
+ *             properties:
+ *               isActive:
+ *                 type: boolean
+ *                 example: false
+ *               exitDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Last working day when deactivating (defaults to today). Payroll pays the exit month up to this day.
+ *     responses:
+ *       200:
+ *         description: Employee status updated successfully
+ *       400:
+ *         description: Validation error, or an exit date before joining or in the future
+ *       404:
+ *         description: Employee not found
+ */
+router.patch(
+  '/:id/status',
+  requirePermission(Permission.EMPLOYEE_MANAGE),
+  validateRequest(idParamSchema, 'params'),
+  validateRequest(updateEmployeeStatusSchema), // WHY: Validate request body
+  updateEmployeeStatusController,
+);
+
+export default router;
@@ -0,0 +1,538 @@
+/**
+ * WHAT: Employee service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Provides:
+ * - Reusability (logic can be used by controllers, other services, etc.)
+ * - Testability (can test business logic without HTTP)
+ * - Single Responsibility (controller handles HTTP, service handles logic)
+ *
+ * HOW: Contains all employee management business logic
+ */
+
+import mongoose, { FilterQuery } from 'mongoose';
+import { Employee, IEmployeeDocument } from './employee.model';
+import { User, IUserDocument } from '../auth/auth.model';
+import {
+  CreateEmployeeInput,
+  UpdateEmployeeInput,
+  UpdateEmployeeStatusInput,
+  ListEmployeesQuery,
+  ExportEmployeesQuery,
+} from './employee.validation';
+import { EmployeeResponse, EmployeeListResult } from './employee.types';
+import { generateRandomPassword } from '../../utils/password.util';
+import { createHttpError } from '../../utils/error.util';
+import { buildSearchFilter, findPage, stableSort } from '../../utils/query.util';
+import {
+  ExportColumn,
+  ExportFile,
+  createExportFile,
+  selectExportColumns,
+  toDateRangeFilter,
+  toExportDate,
+} from '../../utils/export.util';
+import { toUtcDay } from '../../utils/date.util';
+import { JWTPayload, Permission } from '../auth/auth.types';
+import { resolveActiveDepartmentName } from '../department/department.service';
+import { Department } from '../department/department.model';
+import { assertNoManagerCycle } from '../org/org.service';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { sendMail } from '../mail/mail.service';
+import { temporaryPasswordMail } from '../mail/mail.templates';
+import env from '../../config/env';
+import { AuditContext } from '../audit/audit.types';
+import { publishAccountDeactivated } from '../notification/notification.events';
+
+/**
+ * WHAT: Map employee document to response shape
+ *
+ * WHY: Keeps response format consistent across all endpoints.
+ * Linked user is optional - account fields are omitted when not loaded.
+ *
+ * HOW: Picks public fields and stringifies ObjectIds
+ */
+function toEmployeeResponse(
+  employee: IEmployeeDocument,
+  user?: Pick<IUserDocument, 'email' | 'role'> | null,
+): EmployeeResponse {
+  return {
+    id: employee._id.toString(),
+    userId: employee.userId.toString(),
+    email: user?.email,
+    role: user?.role,
+    employeeId: employee.employeeId,
+    firstName: employee.firstName,
+    lastName: employee.lastName,
+    phoneNumber: employee.phoneNumber,
+    dateOfBirth: employee.dateOfBirth,
+    joiningDate: employee.joiningDate,
+    department: employee.department,
+    designation: employee.designation,
+    location: employee.location,
+    managerId: employee.managerId?.toString(),
+    salary: employee.salary,
+    address: employee.address,
+    emergencyContact: employee.emergencyContact,
+    isActive: employee.isActive,
+    exitDate: employee.exitDate,
+    createdAt: employee.createdAt,
+    updatedAt: employee.updatedAt,
+  };
+}
+
+/**
+ * WHAT: Ensure manager reference points to an active employee
+ *
+ * WHY: managerId is a free ObjectId - without this check, employees
+ * could report to deleted or deactivated records, or to someone who
+ * (indirectly) reports to them.
+ */
+async function assertValidManager(
+  managerId: string,
+  employeeId?: string,
+): Promise<void> {
+  // WHY: An employee cannot be their own manager
+  if (employeeId && managerId === employeeId) {
+    throw createHttpError('Employee cannot be their own manager', 400);
+  }
+
+  const manager = await Employee.findById(managerId);
+  if (!manager || !manager.isActive) {
+    throw createHttpError('Manager not found or inactive', 400);
+  }
+
+  // WHY: Managers above the new manager must not include this employee
+  await assertNoManagerCycle(managerId, employeeId);
+}
+
+/**
+ * WHAT: Find the employee record linked to a user account
+ *
+ * WHY: Self-service features (leave, attendance, ...) start from the JWT,
+ * which only carries the userId. This resolves the caller's Employee document.
+ *
+ * HOW: Looks up Employee by userId, throws 404 if the user has no employee profile
+ */
+export async function getEmployeeDocumentByUserId(
+  userId: string,
+): Promise<IEmployeeDocument> {
+  const employee = await Employee.findOne({ userId });
+  if (!employee) {
+    throw createHttpError('Employee profile not found for this user', 404);
+  }
+  return employee;
+}
+
+/**
+ * WHAT: Create employee service
+ *
+ * WHY: Creates the employee record together with its linked User account,
+ * so HR doesn't have to call /auth/register separately.
+ * Runs in a transaction so a failure never leaves a User without an Employee.
+ *
+ * HOW: Validates uniqueness, manager and department, then creates User + Employee in one transaction
+ */
+export async function createEmployee(
+  input: CreateEmployeeInput,
+  context: AuditContext,
+): Promise<EmployeeResponse> {
+  // WHY: Check uniqueness up front for clear 409 errors (instead of duplicate key errors)
+  const existingUser = await User.findOne({ email: input.email });
+  if (existingUser) {
+    throw createHttpError('User with this email already exists', 409);
+  }
+
+  const existingEmployee = await Employee.findOne({ employeeId: input.employeeId });
+  if (existingEmployee) {
+    throw createHttpError('Employee ID already exists', 409);
+  }
+
+  if (input.managerId) {
+    await assertValidManager(input.managerId);
+  }
+
+  // WHY: Department must be an active Department (stored by canonical name)
+  const department = await resolveActiveDepartmentName(input.department);
+
+  // WHY: Auto-generate password if not provided (same approach as HR creation)
+  const password = input.password || generateRandomPassword();
+
+  const session = await mongoose.startSession();
+  try {
+    let created: { user: IUserDocument; employee: IEmployeeDocument } | undefined;
+
+    await session.withTransaction(async () => {
+      // WHY: Array form of create() is required to pass a session
+      const [user] = await User.create(
+        [
+          {
+            email: input.email,
+            password, // WHY: Password will be hashed by pre-save hook in model
+            role: input.role,
+            isActive: true,
+            mustChangePassword: true, // WHY: HR knows (or chose) this password
+          },
+        ],
+        { session },
+      );
+
+      const [employee] = await Employee.create(
+        [
+          {
+            userId: user._id,
+            employeeId: input.employeeId,
+            firstName: input.firstName,
+            lastName: input.lastName,
+            phoneNumber: input.phoneNumber,
+            dateOfBirth: input.dateOfBirth,
+            joiningDate: input.joiningDate,
+            department,
+            designation: input.designation,
+            location: input.location,
+            managerId: input.managerId,
+            salary: input.salary,
+            address: input.address,
+            emergencyContact: input.emergencyContact,
+            isActive: true,
+          },
+        ],
+        { session },
+      );
+
+      created = { user, employee };
+    });
+
+    if (!created) {
+      throw new Error('Failed to create employee');
+    }
+
+    await recordAuditLog(context, {
+      action: AuditAction.CREATE,
+      entityType: AuditEntityType.EMPLOYEE,
+      entityId: created.employee._id.toString(),
+      after: created.employee.toObject(),
+      metadata: { email: created.user.email, role: created.user.role },
+    });
+
+    // WHY: A generated password is never returned - the new employee gets it by email
+    if (!input.password) {
+      await sendMail(temporaryPasswordMail(created.user.email, password, `${env.APP_URL}/login`));
+    }
+
+    return toEmployeeResponse(created.employee, created.user);
+  } finally {
+    await session.endSession();
+  }
+}
+
+/**
+ * WHAT: Build the employee filter for a list or export query
+ *
+ * WHY: The list and the export must select the same employees for the same query.
+ *
+ * HOW: Validated filter values map straight onto employee fields
+ */
+function buildEmployeeFilter(
+  query: Pick<ListEmployeesQuery, 'filter' | 'q'>,
+): FilterQuery<IEmployeeDocument> {
+  return {
+    ...query.filter,
+    ...buildSearchFilter<IEmployeeDocument>(query.q, ['firstName', 'lastName', 'employeeId']),
+  };
+}
+
+/**
+ * WHAT: Get employees service
+ *
+ * WHY: Paginated list for HR employee management screens.
+ * Supports whitelisted filters, sorting and name/ID search.
+ *
+ * HOW: Shared filter, one page of results with linked accounts
+ */
+export async function getEmployees(
+  query: ListEmployeesQuery,
+): Promise<EmployeeListResult> {
+  const filter = buildEmployeeFilter(query);
+
+  const { docs: employees, pagination } = await findPage(Employee, filter, query);
+
+  // WHY: Load linked accounts in one query instead of one per employee
+  const users = await User.find({
+    _id: { $in: employees.map((employee) => employee.userId) },
+  });
+  const usersById = new Map(users.map((user) => [user._id.toString(), user]));
+
+  return {
+    employees: employees.map((employee) =>
+      toEmployeeResponse(employee, usersById.get(employee.userId.toString())),
+    ),
+    pagination,
+  };
+}
+
+/**
+ * WHAT: Employee row as exported
+ *
+ * WHY: The account and manager are populated, so the sheet shows an
+ * email and a manager's employee ID instead of document IDs.
+ */
+type EmployeeExportRow = Omit<IEmployeeDocument, 'userId' | 'managerId'> & {
+  userId: Pick<IUserDocument, 'email' | 'role'> | null;
+  managerId: Pick<IEmployeeDocument, 'employeeId'> | null;
+};
+
+/**
+ * WHAT: Employee export columns
+ *
+ * WHY: Keys match the CSV import columns, so an export (without the last
+ * two columns) can be edited and imported elsewhere. Salary needs salary:read.
+ */
+const EMPLOYEE_EXPORT_COLUMNS: ExportColumn<EmployeeExportRow>[] = [
+  { key: 'employeeId', header: 'Employee ID', value: (row) => row.employeeId },
+  { key: 'email', header: 'Email', value: (row) => row.userId?.email },
+  { key: 'role', header: 'Role', value: (row) => row.userId?.role },
+  { key: 'firstName', header: 'First Name', value: (row) => row.firstName },
+  { key: 'lastName', header: 'Last Name', value: (row) => row.lastName },
+  { key: 'phoneNumber', header: 'Phone', value: (row) => row.phoneNumber },
+  { key: 'dateOfBirth', header: 'Date of Birth', value: (row) => toExportDate(row.dateOfBirth) },
+  { key: 'joiningDate', header: 'Joining Date', value: (row) => toExportDate(row.joiningDate) },
+  { key: 'department', header: 'Department', value: (row) => row.department },
+  { key: 'designation', header: 'Designation', value: (row) => row.designation },
+  { key: 'location', header: 'Location', value: (row) => row.location },
+  {
+    key: 'salary',
+    header: 'Salary',
+    value: (row) => row.salary,
+    permission: Permission.SALARY_READ,
+  },
+  { key: 'managerEmployeeId', header: 'Manager ID', value: (row) => row.managerId?.employeeId },
+  { key: 'address.street', header: 'Street', value: (row) => row.address?.street },
+  { key: 'address.city', header: 'City', value: (row) => row.address?.city },
+  { key: 'address.state', header: 'State', value: (row) => row.address?.state },
+  { key: 'address.zipCode', header: 'Zip Code', value: (row) => row.address?.zipCode },
+  { key: 'address.country', header: 'Country', value: (row) => row.address?.country },
+  {
+    key: 'emergencyContact.name',
+    header: 'Emergency Contact',
+    value: (row) => row.emergencyContact?.name,
+  },
+  {
+    key: 'emergencyContact.relationship',
+    header: 'Emergency Contact Relationship',
+    value: (row) => row.emergencyContact?.relationship,
+  },
+  {
+    key: 'emergencyContact.phoneNumber',
+    header: 'Emergency Contact Phone',
+    value: (row) => row.emergencyContact?.phoneNumber,
+  },
+  { key: 'isActive', header: 'Active', value: (row) => row.isActive },
+  { key: 'createdAt', header: 'Created At', value: (row) => row.createdAt },
+];
+
+/**
+ * WHAT: Export employees service
+ *
+ * WHY: HR and finance work in spreadsheets. Same filters as the list,
+ * from/to on joining date; columns limited by the caller's role.
+ *
+ * HOW: Checks columns and records the export, then returns a file that
+ * streams employees from a cursor as it is written
+ */
+export async function exportEmployees(
+  actor: JWTPayload,
+  query: ExportEmployeesQuery,
+  context: AuditContext,
+): Promise<ExportFile> {
+  const columns = selectExportColumns(EMPLOYEE_EXPORT_COLUMNS, query.columns, actor.role);
+
+  const filter = buildEmployeeFilter(query);
+  const joiningDate = toDateRangeFilter(query.from, query.to);
+  if (joiningDate) {
+    filter.joiningDate = joiningDate;
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.EXPORT,
+    entityType: AuditEntityType.EMPLOYEE,
+    metadata: {
+      format: query.format,
+      columns: columns.map((column) => column.key),
+      filter: query.filter,
+      q: query.q,
+      from: query.from,
+      to: query.to,
+    },
+  });
+
+  return createExportFile({
+    name: 'employees',
+    format: query.format,
+    columns,
+    rows: () =>
+      Employee.find(filter)
+        .sort(stableSort(query.sort))
+        .populate<Pick<EmployeeExportRow, 'userId' | 'managerId'>>([
+          { path: 'userId', select: 'email role' },
+          { path: 'managerId', select: 'employeeId' },
+        ])
+        .cursor(),
+  });
+}
+
+/**
+ * WHAT: Get employee by ID service
+ *
+ * WHY: Returns a single employee profile with linked account info.
+ *
+ * HOW: Finds employee and linked user
+ */
+export async function getEmployeeById(id: string): Promise<EmployeeResponse> {
+  const employee = await Employee.findById(id);
+  if (!employee) {
+    throw createHttpError('Employee not found', 404);
+  }
+
+  const user = await User.findById(employee.userId);
+  return toEmployeeResponse(employee, user);
+}
+
+/**
+ * WHAT: Update employee service
+ *
+ * WHY: Allows HR to edit employee profile fields.
+ * Account fields (email, role, password) are managed elsewhere.
+ *
+ * HOW: Validates manager/department changes, applies provided fields, saves
+ */
+export async function updateEmployee(
+  id: string,
+  input: UpdateEmployeeInput,
+  context: AuditContext,
+): Promise<EmployeeResponse> {
+  const employee = await Employee.findById(id);
+  if (!employee) {
+    throw createHttpError('Employee not found', 404);
+  }
+  const before = employee.toObject();
+
+  const { managerId, ...profile } = input;
+
+  if (managerId) {
+    await assertValidManager(managerId, id);
+  }
+
+  if (profile.department !== undefined) {
+    profile.department = await resolveActiveDepartmentName(profile.department);
+  }
+
+  employee.set(profile);
+
+  // WHY: null explicitly removes the manager; undefined leaves it unchanged
+  if (managerId === null) {
+    employee.managerId = undefined;
+  } else if (managerId) {
+    employee.managerId = new mongoose.Types.ObjectId(managerId);
+  }
+
+  await employee.save();
+
+  // WHY: A head who moves to another department no longer heads the old one
+  if (profile.department !== undefined) {
+    await Department.updateMany(
+      { headId: employee._id, name: { $ne: employee.department } },
+      { $unset: { headId: 1 } },
+    );
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.UPDATE,
+    entityType: AuditEntityType.EMPLOYEE,
+    entityId: id,
+    before,
+    after: employee.toObject(),
+  });
+
+  const user = await User.findById(employee.userId);
+  return toEmployeeResponse(employee, user);
+}
+
+/**
+ * WHAT: Update employee status service
+ *
+ * WHY: Soft-deactivates (or reactivates) an employee.
+ * Uses isActive flag instead of hard delete for:
+ * - Audit trail (preserve employee history)
+ * - Data retention (compliance)
+ * - Ability to reactivate if needed
+ * The linked User is updated too, so deactivated employees can't log in.
+ * The exit date lets payroll pay the last month up to that day.
+ *
+ * HOW: Updates isActive and exitDate on Employee and isActive on User in
+ * one transaction
+ */
+export async function updateEmployeeStatus(
+  id: string,
+  input: UpdateEmployeeStatusInput,
+  context: AuditContext,
+): Promise<EmployeeResponse> {
+  const employee = await Employee.findById(id);
+  if (!employee) {
+    throw createHttpError('Employee not found', 404);
+  }
+  const before = employee.toObject();
+
+  let exitDate: Date | undefined;
+  if (!input.isActive) {
+    exitDate = toUtcDay(input.exitDate ?? new Date());
+    if (exitDate < toUtcDay(employee.joiningDate)) {
+      throw createHttpError('Exit date cannot be before the joining date', 400);
+    }
+    if (exitDate > toUtcDay(new Date())) {
+      throw createHttpError('Exit date cannot be in the future', 400);
+    }
+  }
+
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      employee.isActive = input.isActive;
+      employee.exitDate = exitDate;
+      await employee.save({ session });
+
+      await User.updateOne(
+        { _id: employee.userId },
+        { isActive: input.isActive },
+        { session },
+      );
+
+      // WHY: Deactivated employees can't remain department heads
+      if (!input.isActive) {
+        await Department.updateMany(
+          { headId: employee._id },
+          { $unset: { headId: 1 } },
+          { session },
+        );
+      }
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.STATUS_CHANGE,
+    entityType: AuditEntityType.EMPLOYEE,
+    entityId: id,
+    before,
+    after: employee.toObject(),
+  });
+
+  const user = await User.findById(employee.userId);
+  if (user && before.isActive && !input.isActive) {
+    await publishAccountDeactivated(user, context.actorId, employee);
+  }
+
+  return toEmployeeResponse(employee, user);
+}
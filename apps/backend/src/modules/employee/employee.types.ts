@@ -0,0 +1,106 @@
+/**
+ * WHAT: TypeScript types for Employee module
+ *
+ * WHY: Centralized type definitions ensure type safety across employee module.
+ * Response types decouple the API contract from the Mongoose document shape.
+ *
+ * HOW: Exports interfaces used in employee service and controller
+ */
+
+import { UserRole } from '../auth/auth.types';
+import { Pagination } from '../../utils/response.util';
+
+/**
+ * WHAT: Employee address interface
+ *
+ * WHY: Shared shape for request and response address objects.
+ */
+export interface EmployeeAddress {
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+}
+
+/**
+ * WHAT: Employee emergency contact interface
+ *
+ * WHY: Shared shape for request and response emergency contact objects.
+ */
+export interface EmployeeEmergencyContact {
+  name: string;
+  relationship: string;
+  phoneNumber: string;
+}
+
+/**
+ * WHAT: Employee response interface
+ *
+ * WHY: Type-safe response structure for employee data.
+ * Includes linked account email and role so HR doesn't need a second lookup.
+ * Never includes password or tokens.
+ *
+ * HOW: Used in service and controller responses
+ */
+export interface EmployeeResponse {
+  id: string;
+  userId: string;
+  email?: string;
+  role?: UserRole;
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  phoneNumber?: string;
+  dateOfBirth?: Date;
+  joiningDate: Date;
+  department: string;
+  designation: string;
+  location?: string;
+  managerId?: string;
+  salary?: number;
+  address?: EmployeeAddress;
+  emergencyContact?: EmployeeEmergencyContact;
+  isActive: boolean;
+  exitDate?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Employee list pagination metadata
+ *
+ * WHY: Matches the pagination shape expected by sendPaginated().
+ */
+export interface EmployeeListResult {
+  employees: EmployeeResponse[];
+  pagination: Pagination;
+}
+
+/**
+ * WHAT: One problem with one CSV import row
+ *
+ * WHY: HR fixes the file and re-uploads - row numbers match the
+ * spreadsheet (the header is row 1).
+ */
+export interface EmployeeImportRowError {
+  row: number;
+  employeeId?: string;
+  field?: string;
+  message: string;
+}
+
+/**
+ * WHAT: Employee import result
+ *
+ * WHY: The same shape for dry runs and real imports, so HR can check a
+ * dry run's numbers against the real one. imported lists the rows that
+ * were (or, in a dry run, would be) created.
+ */
+export interface EmployeeImportResult {
+  dryRun: boolean;
+  totalRows: number;
+  created: number;
+  imported: Array<{ row: number; employeeId: string; email: string }>;
+  errors: EmployeeImportRowError[];
+}
@@ -0,0 +1,276 @@
+/**
+ * WHAT: Validation schemas for Employee endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating request bodies and query strings
+ */
+
+import { z } from 'zod';
+import { UserRole } from '../auth/auth.types';
+import { objectIdSchema, queryBooleanSchema } from '../../utils/validation.util';
+import { createListQuerySchema } from '../../utils/query.util';
+import { createExportQuerySchema } from '../../utils/export.util';
+
+/**
+ * WHAT: Address validation schema
+ *
+ * WHY: Address is stored as a nested object - all parts required when provided.
+ */
+const addressSchema = z.object({
+  street: z.string().trim().min(1, 'Street is required'),
+  city: z.string().trim().min(1, 'City is required'),
+  state: z.string().trim().min(1, 'State is required'),
+  zipCode: z.string().trim().min(1, 'Zip code is required'),
+  country: z.string().trim().min(1, 'Country is required'),
+});
+
+/**
+ * WHAT: Emergency contact validation schema
+ *
+ * WHY: Emergency contact is only useful when complete.
+ */
+const emergencyContactSchema = z.object({
+  name: z.string().trim().min(1, 'Emergency contact name is required'),
+  relationship: z.string().trim().min(1, 'Relationship is required'),
+  phoneNumber: z.string().trim().min(1, 'Emergency contact phone is required'),
+});
+
+/**
+ * WHAT: Employee profile fields shared by create and update
+ *
+ * WHY: Single definition keeps create/update rules in sync.
+ * Dates are coerced because JSON bodies carry them as strings.
+ */
+const employeeProfileSchema = z.object({
+  firstName: z
+    .string()
+    .trim()
+    .min(1, 'First name is required')
+    .max(50, 'First name must be less than 50 characters'),
+
+  lastName: z
+    .string()
+    .trim()
+    .min(1, 'Last name is required')
+    .max(50, 'Last name must be less than 50 characters'),
+
+  phoneNumber: z.string().trim().optional(),
+
+  dateOfBirth: z.coerce.date({ invalid_type_error: 'Invalid date of birth' }).optional(),
+
+  joiningDate: z.coerce.date({ invalid_type_error: 'Invalid joining date' }).optional(),
+
+  department: z.string().trim().min(1, 'Department is required'),
+
+  designation: z.string().trim().min(1, 'Designation is required'),
+
+  // WHY: Work location - selects location-specific holidays
+  location: z.string().trim().min(1).max(100, 'Location must be less than 100 characters').optional(),
+
+  // WHY: Manager is another Employee document
+  managerId: objectIdSchema.optional(),
+
+  salary: z.number().min(0, 'Salary cannot be negative').optional(),
+
+  address: addressSchema.optional(),
+
+  emergencyContact: emergencyContactSchema.optional(),
+});
+
+/**
+ * WHAT: Employee ID schema
+ *
+ * WHY: Shared by employee creation, the import's manager column and
+ * candidate conversion.
+ */
+export const employeeIdSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9-]{2,20}$/, 'Employee ID must be 2-20 letters, numbers or dashes');
+
+/**
+ * WHAT: Create employee validation schema
+ *
+ * WHY: Creating an employee also creates the linked User account,
+ * so account fields (email, password, role) are validated here too.
+ *
+ * HOW: Extends profile schema with account and identifier fields
+ */
+export const createEmployeeSchema = employeeProfileSchema.extend({
+  email: z
+    .string()
+    .email('Invalid email format')
+    .toLowerCase()
+    .trim(),
+
+  // WHY: Password is optional - if not provided, will be auto-generated
+  // If provided, must meet security requirements
+  password: z
+    .string()
+    .min(8, 'Password must be at least 8 characters')
+    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+    .regex(/[0-9]/, 'Password must contain at least one number')
+    .regex(/[^A-Za-z0-9]/, 'Password must contain at least one special character')
+    .optional(),
+
+  // WHY: Only employee-level roles can be created here
+  // HR and SUPER_ADMIN accounts go through the admin module
+  role: z
+    .enum([UserRole.EMPLOYEE, UserRole.MANAGER])
+    .optional()
+    .default(UserRole.EMPLOYEE),
+
+  employeeId: employeeIdSchema,
+});
+
+/**
+ * WHAT: Update employee validation schema
+ *
+ * WHY: Partial update - only provided fields change.
+ * managerId accepts null to remove the manager.
+ * Account fields and employeeId are immutable through this endpoint.
+ *
+ * HOW: Partial profile schema with at-least-one-field refinement
+ */
+export const updateEmployeeSchema = employeeProfileSchema
+  .extend({
+    managerId: objectIdSchema.nullable().optional(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * WHAT: Update employee status validation schema
+ *
+ * WHY: Validates soft-deactivation requests.
+ * Ensures isActive is a boolean value. exitDate is the last working day
+ * (defaults to today) and only applies when deactivating.
+ */
+export const updateEmployeeStatusSchema = z
+  .object({
+    isActive: z.boolean({
+      required_error: 'isActive is required',
+      invalid_type_error: 'isActive must be a boolean',
+    }),
+    exitDate: z.coerce.date({ invalid_type_error: 'Invalid exit date' }).optional(),
+  })
+  .refine((data) => !(data.isActive && data.exitDate), {
+    message: 'exitDate only applies when deactivating',
+    path: ['exitDate'],
+  });
+
+/**
+ * WHAT: Filterable employee fields, apart from department
+ *
+ * WHY: Exported for the department members list, where the route
+ * fixes the department.
+ */
+export const employeeMemberFilters = {
+  designation: z.string().trim().min(1),
+  location: z.string().trim().min(1),
+  managerId: objectIdSchema,
+  isActive: queryBooleanSchema,
+};
+
+/**
+ * WHAT: Sortable employee fields
+ */
+export const EMPLOYEE_SORTABLE_FIELDS = [
+  'createdAt',
+  'joiningDate',
+  'firstName',
+  'lastName',
+  'employeeId',
+] as const;
+
+/**
+ * WHAT: Filterable employee fields
+ */
+const employeeFilters = {
+  department: z.string().trim().min(1),
+  ...employeeMemberFilters,
+};
+
+/**
+ * WHAT: List employees query validation schema
+ *
+ * WHY: Standard list query - q matches name or employee ID.
+ */
+export const listEmployeesQuerySchema = createListQuerySchema({
+  filters: employeeFilters,
+  sortable: EMPLOYEE_SORTABLE_FIELDS,
+  defaultSort: '-createdAt', // WHY: Newest first
+});
+
+/**
+ * WHAT: Export employees query validation schema
+ *
+ * WHY: Same filters as the list; from/to filter on joining date.
+ */
+export const exportEmployeesQuerySchema = createExportQuerySchema({
+  filters: employeeFilters,
+  sortable: EMPLOYEE_SORTABLE_FIELDS,
+  defaultSort: 'employeeId',
+});
+
+/**
+ * WHAT: Employee import row validation schema
+ *
+ * WHY: Each CSV row is one create-employee request, with two differences:
+ * the manager is referenced by employeeId (the row may be in the same file),
+ * and passwords are always generated and emailed.
+ *
+ * HOW: CSV cells are strings - salary is coerced; empty cells arrive as undefined
+ */
+export const importEmployeeRowSchema = createEmployeeSchema
+  .omit({ password: true, managerId: true })
+  .extend({
+    salary: z.coerce
+      .number({ invalid_type_error: 'Salary must be a number' })
+      .min(0, 'Salary cannot be negative')
+      .optional(),
+    managerEmployeeId: employeeIdSchema.optional(),
+  });
+
+/**
+ * WHAT: Employee import body validation schema
+ *
+ * WHY: The CSV is sent as the raw request body. Any other content type
+ * leaves a non-string body, which gets a clear message instead of a parse error.
+ */
+export const importEmployeesBodySchema = z
+  .string({
+    required_error: 'CSV file is required',
+    invalid_type_error: 'Send the CSV file as the request body with Content-Type text/csv',
+  })
+  .refine((value) => value.trim().length > 0, { message: 'CSV file is empty' });
+
+/**
+ * WHAT: Employee import query validation schema
+ *
+ * WHY: dryRun=true validates every row without writing anything.
+ */
+export const importEmployeesQuerySchema = z.object({
+  dryRun: queryBooleanSchema.default('false'),
+});
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * WHY: Type-safe request bodies in controllers.
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type CreateEmployeeInput = z.infer<typeof createEmployeeSchema>;
+export type UpdateEmployeeInput = z.infer<typeof updateEmployeeSchema>;
+export type UpdateEmployeeStatusInput = z.infer<typeof updateEmployeeStatusSchema>;
+export type ListEmployeesQuery = z.infer<typeof listEmployeesQuerySchema>;
+export type ExportEmployeesQuery = z.infer<typeof exportEmployeesQuerySchema>;
+export type ImportEmployeeRow = z.infer<typeof importEmployeeRowSchema>;
+export type ImportEmployeesQuery = z.infer<typeof importEmployeesQuerySchema>;
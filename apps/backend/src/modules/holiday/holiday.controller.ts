@@ -0,0 +1,149 @@
+/**
+ * WHAT: Holiday controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ * - Input validation (delegates to validation layer)
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  createHoliday,
+  getHolidays,
+  updateHoliday,
+  deleteHoliday,
+  previewWorkingDays,
+} from './holiday.service';
+import {
+  CreateHolidayInput,
+  UpdateHolidayInput,
+  ListHolidaysQuery,
+  WorkingDaysQuery,
+} from './holiday.validation';
+import { JWTPayload } from '../auth/auth.types';
+import { sendSuccess } from '../../utils/response.util';
+import { getAuditContext } from '../../utils/audit.util';
+
+/**
+ * WHAT: Create holiday controller
+ *
+ * WHY: Handles POST /api/holidays requests.
+ *
+ * HOW: Express route handler
+ */
+export async function createHolidayController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: Request body is validated by validation middleware before reaching controller
+    const input = req.body as CreateHolidayInput;
+
+    const holiday = await createHoliday(input, getAuditContext(req));
+
+    // WHY: 201 Created for resource creation
+    sendSuccess(res, holiday, 201, 'Holiday created successfully');
+  } catch (error) {
+    // WHY: Pass error to error middleware for consistent error handling
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List holidays controller
+ *
+ * WHY: Handles GET /api/holidays requests.
+ * Returns the whole year's list - it is small and always shown in full.
+ *
+ * HOW: Express route handler
+ */
+export async function getHolidaysController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: Query is validated and coerced by validation middleware
+    const query = req.query as unknown as ListHolidaysQuery;
+
+    const holidays = await getHolidays(query);
+
+    sendSuccess(res, holidays);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Update holiday controller
+ *
+ * WHY: Handles PATCH /api/holidays/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function updateHolidayController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const input = req.body as UpdateHolidayInput;
+
+    const holiday = await updateHoliday(req.params.id, input, getAuditContext(req));
+
+    sendSuccess(res, holiday, 200, 'Holiday updated successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Delete holiday controller
+ *
+ * WHY: Handles DELETE /api/holidays/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function deleteHolidayController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    await deleteHoliday(req.params.id, getAuditContext(req));
+
+    sendSuccess(res, { message: 'Holiday deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Working-days preview controller
+ *
+ * WHY: Handles GET /api/holidays/working-days requests.
+ *
+ * HOW: Express route handler
+ */
+export async function previewWorkingDaysController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: User is attached by authenticate middleware
+    const user = req.user as JWTPayload;
+    const query = req.query as unknown as WorkingDaysQuery;
+
+    const result = await previewWorkingDays(user.userId, query);
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+}
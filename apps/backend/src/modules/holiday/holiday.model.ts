@@ -0,0 +1,97 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Holiday Mongoose model and schema
+ * 
+ * WHY: Public holidays are excluded when computing leave duration,
+ * so they must be stored per year and optionally per work location.
+ * 
+ * HOW: Defines holiday document structure
+ */
+
+/**
+ * WHAT: Holiday document interface
+ * 
+ * WHY: TypeScript interface ensures type safety.
+ * 
+ * HOW: Used throughout holiday module for type safety
+ */
+export interface IHolidayDocument extends Document {
+  name: string;
+  date: Date; // WHY: Stored as UTC midnight so date comparisons are exact
+  year: number; // WHY: Derived from date - the yearly holiday list is queried by year
+  location?: string; // WHY: Empty = applies to every location
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Holiday schema definition
+ * 
+ * WHY: Schema defines structure, validation, and indexes for holiday collection.
+ * 
+ * HOW: Mongoose schema with validation and indexes
+ */
+const holidaySchema = new Schema<IHolidayDocument>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Holiday name is required'],
+      trim: true,
+      maxlength: [100, 'Holiday name must be less than 100 characters'],
+    },
+
+    date: {
+      type: Date,
+      required: [true, 'Holiday date is required'],
+    },
+
+    year: {
+      type: Number,
+      required: true,
+    },
+
+    location: {
+      type: String,
+      trim: true,
+    },
+
+    description: {
+      type: String,
+      maxlength: [500, 'Description must be less than 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+/**
+ * WHAT: Normalise date and derive year before validation
+ * 
+ * WHY: A holiday is a whole calendar day. Truncating to UTC midnight
+ * keeps lookups exact and stops duplicates differing only by time.
+ */
+holidaySchema.pre('validate', function (next) {
+  if (this.date) {
+    const date = new Date(this.date);
+    this.date = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    this.year = this.date.getUTCFullYear();
+  }
+  next();
+});
+
+// WHY: One holiday per day per location (missing location = all locations)
+holidaySchema.index({ date: 1, location: 1 }, { unique: true });
+// WHY: Yearly holiday list queries
+holidaySchema.index({ year: 1, date: 1 });
+
+/**
+ * WHAT: Holiday model export
+ * 
+ * WHY: Model provides database operations.
+ * 
+ * HOW: Mongoose model created from schema
+ */
+export const Holiday = mongoose.model<IHolidayDocument>('Holiday', holidaySchema);
@@ -0,0 +1,220 @@
+/**
+ * WHAT: Holiday routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions and RBAC middleware
+ */
+
+import { Router } from 'express';
+import {
+  createHolidayController,
+  getHolidaysController,
+  updateHolidayController,
+  deleteHolidayController,
+  previewWorkingDaysController,
+} from './holiday.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import {
+  createHolidaySchema,
+  updateHolidaySchema,
+  listHolidaysQuerySchema,
+  workingDaysQuerySchema,
+} from './holiday.validation';
+import { idParamSchema } from '../../utils/validation.util';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: All holiday routes require authentication.
+ * Reading the calendar is open to every role; changes need
+ * holiday:manage, per route.
+ */
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /holidays/working-days:
+ *   get:
+ *     summary: Preview leave duration
+ *     description: Computes working days between two dates for the logged-in user, excluding weekends and holidays for their location and honouring half days.
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: startDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: startHalfDay
+ *         schema:
+ *           type: boolean
+ *         description: Leave starts at midday on startDate
+ *       - in: query
+ *         name: endHalfDay
+ *         schema:
+ *           type: boolean
+ *         description: Leave ends at midday on endDate
+ *     responses:
+ *       200:
+ *         description: Working days, weekend days and holidays in the range
+ *       400:
+ *         description: Validation error, or a range longer than 366 days
+ */
+// WHY: Declared before /:id routes so "working-days" isn't treated as an ID
+router.get(
+  '/working-days',
+  requirePermission(Permission.HOLIDAY_READ),
+  validateRequest(workingDaysQuerySchema, 'query'), // WHY: Validate query string
+  previewWorkingDaysController,
+);
+
+/**
+ * @swagger
+ * /holidays:
+ *   get:
+ *     summary: List holidays
+ *     description: Returns the holiday calendar for a year, sorted by date. With a location, returns company-wide holidays plus that location's.
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *         description: Defaults to the current year
+ *       - in: query
+ *         name: location
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Holiday list
+ */
+router.get(
+  '/',
+  requirePermission(Permission.HOLIDAY_READ),
+  validateRequest(listHolidaysQuerySchema, 'query'), // WHY: Validate query string
+  getHolidaysController,
+);
+
+/**
+ * @swagger
+ * /holidays:
+ *   post:
+ *     summary: Create holiday
+ *     description: Adds a holiday to the calendar. Without a location it applies to every location. Accessible by HR and SUPER_ADMIN.
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - date
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Independence Day
+ *               date:
+ *                 type: string
+ *                 format: date
+ *                 example: "2026-08-15"
+ *               location:
+ *                 type: string
+ *                 example: Bengaluru
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Holiday created successfully
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: Holiday already exists on this date for this location
+ */
+router.post(
+  '/',
+  requirePermission(Permission.HOLIDAY_MANAGE),
+  validateRequest(createHolidaySchema), // WHY: Validate request body
+  createHolidayController,
+);
+
+/**
+ * @swagger
+ * /holidays/{id}:
+ *   patch:
+ *     summary: Update holiday
+ *     description: Updates a holiday. Set location to null to make it company-wide. Accessible by HR and SUPER_ADMIN.
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Holiday updated successfully
+ *       404:
+ *         description: Holiday not found
+ *       409:
+ *         description: Holiday already exists on this date for this location
+ */
+router.patch(
+  '/:id',
+  requirePermission(Permission.HOLIDAY_MANAGE),
+  validateRequest(idParamSchema, 'params'),
+  validateRequest(updateHolidaySchema), // WHY: Validate request body
+  updateHolidayController,
+);
+
+/**
+ * @swagger
+ * /holidays/{id}:
+ *   delete:
+ *     summary: Delete holiday
+ *     description: Removes a holiday from the calendar. Accessible by HR and SUPER_ADMIN.
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Holiday deleted successfully
+ *       404:
+ *         description: Holiday not found
+ */
+router.delete(
+  '/:id',
+  requirePermission(Permission.HOLIDAY_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  deleteHolidayController,
+);
+
+export default router;
@@ -0,0 +1,324 @@
+/**
+ * WHAT: Holiday service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Owns the holiday calendar and the working-day calculation used for
+ * leave duration, so the number of days is never taken from the client.
+ *
+ * HOW: Contains holiday management and working-day business logic
+ */
+
+import { FilterQuery } from 'mongoose';
+import { Holiday, IHolidayDocument } from './holiday.model';
+import { Employee } from '../employee/employee.model';
+import {
+  CreateHolidayInput,
+  UpdateHolidayInput,
+  ListHolidaysQuery,
+  WorkingDaysQuery,
+  isWithinWorkingDaysSpan,
+  WORKING_DAYS_SPAN_ERROR,
+} from './holiday.validation';
+import { HolidayResponse, WorkingDaysInput, WorkingDaysResult } from './holiday.types';
+import env from '../../config/env';
+import { createHttpError } from '../../utils/error.util';
+import { escapeRegex } from '../../utils/query.util';
+import { MS_PER_DAY, toUtcDay } from '../../utils/date.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+
+/**
+ * WHAT: Map holiday document to response shape
+ */
+function toHolidayResponse(holiday: IHolidayDocument): HolidayResponse {
+  return {
+    id: holiday._id.toString(),
+    name: holiday.name,
+    date: holiday.date,
+    year: holiday.year,
+    location: holiday.location,
+    description: holiday.description,
+    createdAt: holiday.createdAt,
+    updatedAt: holiday.updatedAt,
+  };
+}
+
+/**
+ * WHAT: Filter for holidays that apply to a location
+ *
+ * WHY: Company-wide holidays (no location) apply everywhere; location-specific
+ * ones only to that location (case-insensitive). Without a location, only
+ * company-wide holidays apply.
+ */
+function locationFilter(location?: string): FilterQuery<IHolidayDocument> {
+  if (!location) {
+    return { location: { $exists: false } };
+  }
+  return {
+    $or: [
+      { location: { $exists: false } },
+      { location: new RegExp(`^${escapeRegex(location)}$`, 'i') },
+    ],
+  };
+}
+
+/**
+ * WHAT: Find holiday or throw 404
+ */
+async function findHolidayOrFail(id: string): Promise<IHolidayDocument> {
+  const holiday = await Holiday.findById(id);
+  if (!holiday) {
+    throw createHttpError('Holiday not found', 404);
+  }
+  return holiday;
+}
+
+/**
+ * WHAT: Ensure no other holiday exists on the same day and location
+ *
+ * WHY: Clear 409 errors instead of duplicate key errors from MongoDB.
+ */
+async function assertUniqueHoliday(
+  date: Date,
+  location: string | undefined,
+  excludeId?: string,
+): Promise<void> {
+  const existing = await Holiday.findOne({
+    date: toUtcDay(date),
+    location: location ? new RegExp(`^${escapeRegex(location)}$`, 'i') : { $exists: false },
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  });
+
+  if (existing) {
+    throw createHttpError('A holiday already exists on this date for this location', 409);
+  }
+}
+
+/**
+ * WHAT: Create holiday service
+ *
+ * WHY: HR maintains the yearly holiday list.
+ */
+export async function createHoliday(
+  input: CreateHolidayInput,
+  context: AuditContext,
+): Promise<HolidayResponse> {
+  await assertUniqueHoliday(input.date, input.location);
+
+  const holiday = await Holiday.create(input);
+
+  await recordAuditLog(context, {
+    action: AuditAction.CREATE,
+    entityType: AuditEntityType.HOLIDAY,
+    entityId: holiday._id.toString(),
+    after: holiday.toObject(),
+  });
+
+  return toHolidayResponse(holiday);
+}
+
+/**
+ * WHAT: Get holidays service
+ *
+ * WHY: Yearly holiday calendar, optionally as seen by one location.
+ *
+ * HOW: Filters by year (and location), sorted by date
+ */
+export async function getHolidays(query: ListHolidaysQuery): Promise<HolidayResponse[]> {
+  const filter: FilterQuery<IHolidayDocument> = { year: query.year };
+  if (query.location) {
+    Object.assign(filter, locationFilter(query.location));
+  }
+
+  const holidays = await Holiday.find(filter).sort({ date: 1 });
+
+  return holidays.map(toHolidayResponse);
+}
+
+/**
+ * WHAT: Update holiday service
+ *
+ * WHY: Fix names, move a holiday, or change where it applies.
+ * Leaves already requested keep the duration computed when they were made.
+ */
+export async function updateHoliday(
+  id: string,
+  input: UpdateHolidayInput,
+  context: AuditContext,
+): Promise<HolidayResponse> {
+  const holiday = await findHolidayOrFail(id);
+  const before = holiday.toObject();
+
+  const { location, ...fields } = input;
+  const nextLocation = location === undefined ? holiday.location : location ?? undefined;
+  await assertUniqueHoliday(fields.date ?? holiday.date, nextLocation, id);
+
+  holiday.set(fields);
+
+  // WHY: null explicitly makes the holiday company-wide; undefined leaves it unchanged
+  if (location === null) {
+    holiday.location = undefined;
+  } else if (location) {
+    holiday.location = location;
+  }
+
+  await holiday.save();
+
+  await recordAuditLog(context, {
+    action: AuditAction.UPDATE,
+    entityType: AuditEntityType.HOLIDAY,
+    entityId: id,
+    before,
+    after: holiday.toObject(),
+  });
+
+  return toHolidayResponse(holiday);
+}
+
+/**
+ * WHAT: Delete holiday service
+ *
+ * WHY: Calendar entries have no history worth keeping - a removed
+ * holiday is simply no longer excluded from future leave.
+ */
+export async function deleteHoliday(id: string, context: AuditContext): Promise<void> {
+  const holiday = await findHolidayOrFail(id);
+  await holiday.deleteOne();
+
+  await recordAuditLog(context, {
+    action: AuditAction.DELETE,
+    entityType: AuditEntityType.HOLIDAY,
+    entityId: id,
+    before: holiday.toObject(),
+  });
+}
+
+/**
+ * WHAT: Load holidays in a date range that apply to a location
+ */
+async function findHolidaysInRange(
+  start: Date,
+  end: Date,
+  location?: string,
+): Promise<IHolidayDocument[]> {
+  return Holiday.find({
+    date: { $gte: start, $lte: end },
+    ...locationFilter(location),
+  }).sort({ date: 1 });
+}
+
+/**
+ * WHAT: Reject ranges too long to count working days for
+ *
+ * WHY: Request schemas cap the range already; this keeps every caller
+ * from looping over an unbounded range.
+ */
+function assertWorkingDaysSpan(startDate: Date, endDate: Date): void {
+  if (!isWithinWorkingDaysSpan(startDate, endDate)) {
+    throw createHttpError(WORKING_DAYS_SPAN_ERROR, 400);
+  }
+}
+
+/**
+ * WHAT: List working dates between two dates (inclusive)
+ *
+ * WHY: Shared by leave duration and attendance, which both need to know
+ * which days an employee was expected to work.
+ *
+ * HOW: Every UTC day in range that is not a weekend (env.WEEKEND_DAYS)
+ * or a holiday for the location
+ */
+export async function getWorkingDates(
+  startDate: Date,
+  endDate: Date,
+  location?: string,
+): Promise<Date[]> {
+  assertWorkingDaysSpan(startDate, endDate);
+  const start = toUtcDay(startDate);
+  const end = toUtcDay(endDate);
+
+  const holidays = await findHolidaysInRange(start, end, location);
+  const holidayTimes = new Set(holidays.map((holiday) => holiday.date.getTime()));
+
+  const dates: Date[] = [];
+  for (let time = start.getTime(); time <= end.getTime(); time += MS_PER_DAY) {
+    const day = new Date(time);
+    if (!env.WEEKEND_DAYS.includes(day.getUTCDay()) && !holidayTimes.has(time)) {
+      dates.push(day);
+    }
+  }
+  return dates;
+}
+
+/**
+ * WHAT: Calculate working days between two dates (inclusive)
+ *
+ * WHY: Leave duration must exclude weekends (env.WEEKEND_DAYS) and
+ * holidays for the employee's location, and honour half days.
+ *
+ * HOW:
+ * - Counts each working day in the range as 1
+ * - startHalfDay: first day counts 0.5 (leave starts at midday)
+ * - endHalfDay: last day counts 0.5 (leave ends at midday)
+ * - Single-day leave with either flag counts 0.5
+ * - Half-day flags on a weekend/holiday change nothing
+ */
+export async function calculateWorkingDays(
+  input: WorkingDaysInput,
+): Promise<WorkingDaysResult> {
+  assertWorkingDaysSpan(input.startDate, input.endDate);
+  const start = toUtcDay(input.startDate);
+  const end = toUtcDay(input.endDate);
+
+  const [workingDates, holidays] = await Promise.all([
+    getWorkingDates(start, end, input.location),
+    findHolidaysInRange(start, end, input.location),
+  ]);
+  const workingTimes = new Set(workingDates.map((date) => date.getTime()));
+
+  let weekendDays = 0;
+  for (let time = start.getTime(); time <= end.getTime(); time += MS_PER_DAY) {
+    if (env.WEEKEND_DAYS.includes(new Date(time).getUTCDay())) {
+      weekendDays++;
+    }
+  }
+
+  let numberOfDays = workingDates.length;
+  const isSingleDay = start.getTime() === end.getTime();
+  if (isSingleDay) {
+    if (numberOfDays === 1 && (input.startHalfDay || input.endHalfDay)) {
+      numberOfDays = 0.5;
+    }
+  } else {
+    if (input.startHalfDay && workingTimes.has(start.getTime())) {
+      numberOfDays -= 0.5;
+    }
+    if (input.endHalfDay && workingTimes.has(end.getTime())) {
+      numberOfDays -= 0.5;
+    }
+  }
+
+  return {
+    numberOfDays,
+    weekendDays,
+    // WHY: Lists every holiday in the range, including ones on a weekend
+    holidays: holidays.map(toHolidayResponse),
+  };
+}
+
+/**
+ * WHAT: Preview working days for the logged-in user
+ *
+ * WHY: Lets the leave form show the duration the server will compute,
+ * using the caller's work location for location-specific holidays.
+ */
+export async function previewWorkingDays(
+  userId: string,
+  query: WorkingDaysQuery,
+): Promise<WorkingDaysResult> {
+  // WHY: Users without an employee profile get company-wide holidays only
+  const employee = await Employee.findOne({ userId });
+
+  return calculateWorkingDays({ ...query, location: employee?.location });
+}
@@ -0,0 +1,46 @@
+/**
+ * WHAT: TypeScript types for Holiday module
+ *
+ * WHY: Centralized type definitions ensure type safety across holiday module.
+ *
+ * HOW: Exports interfaces used in holiday service and controller
+ */
+
+/**
+ * WHAT: Holiday response interface
+ */
+export interface HolidayResponse {
+  id: string;
+  name: string;
+  date: Date;
+  year: number;
+  location?: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Working-day calculation input
+ *
+ * WHY: startHalfDay means the leave begins at midday on startDate;
+ * endHalfDay means it ends at midday on endDate.
+ */
+export interface WorkingDaysInput {
+  startDate: Date;
+  endDate: Date;
+  startHalfDay?: boolean;
+  endHalfDay?: boolean;
+  location?: string;
+}
+
+/**
+ * WHAT: Working-day calculation result
+ *
+ * WHY: Returns what was excluded too, so the UI can explain the number.
+ */
+export interface WorkingDaysResult {
+  numberOfDays: number;
+  weekendDays: number;
+  holidays: HolidayResponse[];
+}
@@ -0,0 +1,126 @@
+/**
+ * WHAT: Validation schemas for Holiday endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating request bodies and query strings
+ */
+
+import { z } from 'zod';
+import { queryBooleanSchema } from '../../utils/validation.util';
+import { MS_PER_DAY, toUtcDay } from '../../utils/date.util';
+
+/**
+ * WHAT: Longest date range working days are counted for, in days
+ *
+ * WHY: Working days are counted one day at a time - an unbounded range
+ * (year 1 to 9999) would keep the API busy for millions of iterations.
+ * A year covers any single leave request.
+ */
+export const MAX_WORKING_DAYS_SPAN = 366;
+
+export const WORKING_DAYS_SPAN_ERROR = `Date range cannot exceed ${MAX_WORKING_DAYS_SPAN} days`;
+
+/**
+ * WHAT: Whether a range is short enough to count working days for
+ *
+ * HOW: Both ends inclusive, by UTC day
+ */
+export function isWithinWorkingDaysSpan(startDate: Date, endDate: Date): boolean {
+  const days = (toUtcDay(endDate).getTime() - toUtcDay(startDate).getTime()) / MS_PER_DAY + 1;
+  return days <= MAX_WORKING_DAYS_SPAN;
+}
+
+/**
+ * WHAT: Create holiday validation schema
+ *
+ * WHY: Dates are coerced because JSON bodies carry them as strings.
+ * Location is optional - without it the holiday applies everywhere.
+ */
+export const createHolidaySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Holiday name is required')
+    .max(100, 'Holiday name must be less than 100 characters'),
+
+  date: z.coerce.date({ invalid_type_error: 'Invalid holiday date' }),
+
+  location: z
+    .string()
+    .trim()
+    .min(1)
+    .max(100, 'Location must be less than 100 characters')
+    .optional(),
+
+  description: z
+    .string()
+    .trim()
+    .max(500, 'Description must be less than 500 characters')
+    .optional(),
+});
+
+/**
+ * WHAT: Update holiday validation schema
+ *
+ * WHY: Partial update - only provided fields change.
+ * location accepts null to make the holiday apply everywhere.
+ */
+export const updateHolidaySchema = createHolidaySchema
+  .extend({
+    location: createHolidaySchema.shape.location.unwrap().nullable(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * WHAT: List holidays query validation schema
+ *
+ * WHY: The holiday list is managed per year; defaults to the current year.
+ * With a location, returns company-wide holidays plus that location's.
+ */
+export const listHolidaysQuerySchema = z.object({
+  year: z.coerce
+    .number()
+    .int()
+    .min(2000, 'Invalid year')
+    .max(2100, 'Invalid year')
+    .default(() => new Date().getFullYear()),
+  location: z.string().trim().min(1).optional(),
+});
+
+/**
+ * WHAT: Working-days preview query validation schema
+ *
+ * WHY: Lets the leave form show the computed duration before submitting.
+ */
+export const workingDaysQuerySchema = z
+  .object({
+    startDate: z.coerce.date({ invalid_type_error: 'Invalid start date' }),
+    endDate: z.coerce.date({ invalid_type_error: 'Invalid end date' }),
+    startHalfDay: queryBooleanSchema.optional(),
+    endHalfDay: queryBooleanSchema.optional(),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  })
+  .refine((data) => isWithinWorkingDaysSpan(data.startDate, data.endDate), {
+    message: WORKING_DAYS_SPAN_ERROR,
+    path: ['endDate'],
+  });
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * WHY: Type-safe request bodies in controllers.
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type CreateHolidayInput = z.infer<typeof createHolidaySchema>;
+export type UpdateHolidayInput = z.infer<typeof updateHolidaySchema>;
+export type ListHolidaysQuery = z.infer<typeof listHolidaysQuerySchema>;
+export type WorkingDaysQuery = z.infer<typeof workingDaysQuerySchema>;
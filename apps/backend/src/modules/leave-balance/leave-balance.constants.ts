@@ -0,0 +1,51 @@
+/**
+ * WHAT: Leave balance module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Single place to change leave entitlement policy
+ * - Consistent error messages
+ *
+ * HOW: Exports constants used across leave-balance module
+ */
+
+import { LeaveType } from '../leave/leave.model';
+
+/**
+ * WHAT: How a leave type's annual quota is granted
+ *
+ * WHY: Most types are granted in full at the start of the year;
+ * earned leave builds up month by month as the employee works.
+ */
+export enum AccrualPolicy {
+  ANNUAL = 'ANNUAL', // WHY: Full quota credited once per year
+  MONTHLY = 'MONTHLY', // WHY: Quota / 12 credited each month
+  NONE = 'NONE', // WHY: No entitlement and no balance check (unpaid leave)
+}
+
+/**
+ * WHAT: Entitlement policy per leave type
+ *
+ * WHY: Annual quota in days and how it is credited.
+ * Changing a quota only affects grants/accruals written after the change.
+ */
+export const LEAVE_POLICIES: Record<
+  LeaveType,
+  { annualQuota: number; accrual: AccrualPolicy }
+> = {
+  [LeaveType.SICK_LEAVE]: { annualQuota: 10, accrual: AccrualPolicy.ANNUAL },
+  [LeaveType.CASUAL_LEAVE]: { annualQuota: 12, accrual: AccrualPolicy.ANNUAL },
+  [LeaveType.EARNED_LEAVE]: { annualQuota: 18, accrual: AccrualPolicy.MONTHLY },
+  [LeaveType.MATERNITY_LEAVE]: { annualQuota: 182, accrual: AccrualPolicy.ANNUAL },
+  [LeaveType.PATERNITY_LEAVE]: { annualQuota: 15, accrual: AccrualPolicy.ANNUAL },
+  [LeaveType.UNPAID_LEAVE]: { annualQuota: 0, accrual: AccrualPolicy.NONE },
+};
+
+/**
+ * WHAT: Leave balance error messages
+ *
+ * WHY: Consistent messages across service functions.
+ */
+export const LEAVE_BALANCE_ERRORS = {
+  INSUFFICIENT_BALANCE: 'Insufficient leave balance',
+  ADJUSTMENT_NOT_ALLOWED: 'Balance adjustments are not allowed for this leave type',
+} as const;
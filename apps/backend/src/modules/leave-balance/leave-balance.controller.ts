@@ -0,0 +1,151 @@
+/**
+ * WHAT: Leave balance controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ * - Input validation (delegates to validation layer)
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  getMyBalance,
+  getEmployeeBalance,
+  getMyLedger,
+  getEmployeeLedger,
+  createAdjustment,
+} from './leave-balance.service';
+import { BalanceQuery, LedgerQuery, CreateAdjustmentInput } from './leave-balance.validation';
+import { JWTPayload } from '../auth/auth.types';
+import { sendSuccess, sendPaginated } from '../../utils/response.util';
+import { getAuditContext } from '../../utils/audit.util';
+
+/**
+ * WHAT: Get own balance controller
+ *
+ * WHY: Handles GET /api/leave-balances/me requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMyBalanceController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: User is attached by authenticate middleware
+    const user = req.user as JWTPayload;
+    // WHY: Query is validated and coerced by validation middleware
+    const query = req.query as unknown as BalanceQuery;
+
+    const balance = await getMyBalance(user.userId, query.year);
+
+    sendSuccess(res, balance);
+  } catch (error) {
+    // WHY: Pass error to error middleware for consistent error handling
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get own ledger controller
+ *
+ * WHY: Handles GET /api/leave-balances/me/ledger requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMyLedgerController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const query = req.query as unknown as LedgerQuery;
+
+    const result = await getMyLedger(user.userId, query);
+
+    sendPaginated(res, result.entries, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get employee balance controller
+ *
+ * WHY: Handles GET /api/leave-balances/employees/:employeeId requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getEmployeeBalanceController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = req.query as unknown as BalanceQuery;
+
+    const balance = await getEmployeeBalance(req.params.employeeId, query.year);
+
+    sendSuccess(res, balance);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get employee ledger controller
+ *
+ * WHY: Handles GET /api/leave-balances/employees/:employeeId/ledger requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getEmployeeLedgerController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = req.query as unknown as LedgerQuery;
+
+    const result = await getEmployeeLedger(req.params.employeeId, query);
+
+    sendPaginated(res, result.entries, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Create adjustment controller
+ *
+ * WHY: Handles POST /api/leave-balances/employees/:employeeId/adjustments requests.
+ *
+ * HOW: Express route handler
+ */
+export async function createAdjustmentController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as CreateAdjustmentInput;
+
+    const entry = await createAdjustment(
+      user,
+      req.params.employeeId,
+      input,
+      getAuditContext(req),
+    );
+
+    // WHY: 201 Created for resource creation
+    sendSuccess(res, entry, 201, 'Leave balance adjusted');
+  } catch (error) {
+    next(error);
+  }
+}
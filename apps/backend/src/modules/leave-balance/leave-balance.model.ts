@@ -0,0 +1,189 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { LeaveType } from '../leave/leave.model';
+
+/**
+ * WHAT: Leave ledger Mongoose model and schema
+ * 
+ * WHY: Leave balances are derived from an append-only ledger of credits
+ * (annual grants, monthly accruals, cancellations) and debits (approved leave).
+ * Keeping every movement instead of a single counter means a balance can
+ * always be explained and audited.
+ * 
+ * HOW: Defines ledger entry structure; updates and deletes are blocked
+ */
+
+/**
+ * WHAT: Ledger entry direction
+ * 
+ * WHY: Days are always stored as positive numbers; direction says whether
+ * they add to or subtract from the balance.
+ */
+export enum LedgerEntryType {
+  CREDIT = 'CREDIT',
+  DEBIT = 'DEBIT',
+}
+
+/**
+ * WHAT: Why a ledger entry was written
+ * 
+ * WHY: Lets balances be explained line by line and makes grants/accruals
+ * idempotent (one per employee, type and period).
+ */
+export enum LedgerEntryReason {
+  ANNUAL_GRANT = 'ANNUAL_GRANT',
+  MONTHLY_ACCRUAL = 'MONTHLY_ACCRUAL',
+  LEAVE_APPROVED = 'LEAVE_APPROVED',
+  LEAVE_CANCELLED = 'LEAVE_CANCELLED',
+  ADJUSTMENT = 'ADJUSTMENT',
+}
+
+/**
+ * WHAT: Leave ledger entry document interface
+ * 
+ * WHY: TypeScript interface ensures type safety.
+ * 
+ * HOW: Used throughout leave-balance module for type safety
+ */
+export interface ILeaveLedgerEntryDocument extends Document {
+  employeeId: mongoose.Types.ObjectId; // WHY: Reference to Employee
+  leaveType: LeaveType;
+  entryType: LedgerEntryType;
+  reason: LedgerEntryReason;
+  days: number;
+  year: number; // WHY: Leave year the entry counts towards
+  period?: string; // WHY: Grant/accrual period (e.g. "2026" or "2026-03")
+  leaveId?: mongoose.Types.ObjectId; // WHY: Reference to Leave for debits/credit-backs
+  createdBy?: mongoose.Types.ObjectId; // WHY: Reference to User for manual adjustments
+  note?: string;
+  createdAt: Date;
+}
+
+/**
+ * WHAT: Leave ledger entry schema definition
+ * 
+ * WHY: Schema defines structure, validation, and indexes for ledger collection.
+ * 
+ * HOW: Mongoose schema with validation and indexes
+ */
+const leaveLedgerEntrySchema = new Schema<ILeaveLedgerEntryDocument>(
+  {
+    employeeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Employee',
+      required: true,
+    },
+
+    leaveType: {
+      type: String,
+      enum: Object.values(LeaveType),
+      required: [true, 'Leave type is required'],
+    },
+
+    entryType: {
+      type: String,
+      enum: Object.values(LedgerEntryType),
+      required: true,
+    },
+
+    reason: {
+      type: String,
+      enum: Object.values(LedgerEntryReason),
+      required: true,
+    },
+
+    days: {
+      type: Number,
+      required: true,
+      min: [0.5, 'Ledger entry must be at least 0.5 days'],
+    },
+
+    year: {
+      type: Number,
+      required: true,
+    },
+
+    period: {
+      type: String,
+    },
+
+    leaveId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Leave',
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+
+    note: {
+      type: String,
+      maxlength: [500, 'Note must be less than 500 characters'],
+    },
+  },
+  {
+    // WHY: Entries are never updated, so only createdAt is meaningful
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+// WHY: Balance queries always filter by employee and year
+leaveLedgerEntrySchema.index({ employeeId: 1, year: 1, leaveType: 1 });
+
+// WHY: One grant/accrual per employee, type and period - makes lazy accrual idempotent
+leaveLedgerEntrySchema.index(
+  { employeeId: 1, leaveType: 1, reason: 1, period: 1 },
+  { unique: true, partialFilterExpression: { period: { $exists: true } } },
+);
+
+// WHY: A leave is debited once and credited back at most once
+leaveLedgerEntrySchema.index(
+  { leaveId: 1, reason: 1 },
+  { unique: true, partialFilterExpression: { leaveId: { $exists: true } } },
+);
+
+/**
+ * WHAT: Block updates and deletes
+ * 
+ * WHY: The ledger is append-only. Corrections are new ADJUSTMENT entries,
+ * never edits, so history can't be rewritten.
+ * 
+ * HOW: Pre hooks on every update/delete query reject the operation
+ */
+function rejectMutation(): never {
+  throw new Error('Leave ledger entries are append-only');
+}
+
+leaveLedgerEntrySchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'replaceOne',
+    'findOneAndReplace',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+  ],
+  rejectMutation,
+);
+
+leaveLedgerEntrySchema.pre('save', function (next) {
+  // WHY: save() on an existing document would be an update
+  if (!this.isNew) {
+    return next(new Error('Leave ledger entries are append-only'));
+  }
+  next();
+});
+
+/**
+ * WHAT: Leave ledger entry model export
+ * 
+ * WHY: Model provides database operations.
+ * 
+ * HOW: Mongoose model created from schema
+ */
+export const LeaveLedgerEntry = mongoose.model<ILeaveLedgerEntryDocument>(
+  'LeaveLedgerEntry',
+  leaveLedgerEntrySchema,
+);
@@ -0,0 +1,251 @@
+/**
+ * WHAT: Leave balance routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions and RBAC middleware
+ */
+
+import { Router } from 'express';
+import {
+  getMyBalanceController,
+  getMyLedgerController,
+  getEmployeeBalanceController,
+  getEmployeeLedgerController,
+  createAdjustmentController,
+} from './leave-balance.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import {
+  employeeIdParamSchema,
+  balanceQuerySchema,
+  ledgerQuerySchema,
+  createAdjustmentSchema,
+} from './leave-balance.validation';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: All routes require authentication.
+ * Own balance is open to every role; other employees' balances and
+ * adjustments need leave:manage, per route.
+ */
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /leave-balances/me:
+ *   get:
+ *     summary: Get my leave balance
+ *     description: Returns quota, credited, used, pending, remaining and available days per leave type for a year.
+ *     tags: [Leave Balances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *         description: Defaults to the current year
+ *     responses:
+ *       200:
+ *         description: Leave balance summary
+ *       404:
+ *         description: No employee profile for this user
+ */
+router.get(
+  '/me',
+  requirePermission(Permission.LEAVE_APPLY),
+  validateRequest(balanceQuerySchema, 'query'), // WHY: Validate query string
+  getMyBalanceController,
+);
+
+/**
+ * @swagger
+ * /leave-balances/me/ledger:
+ *   get:
+ *     summary: Get my leave ledger
+ *     description: Returns the credits and debits behind my balance, newest first by default
+ *       (limit defaults to 20). q matches the adjustment note. Sortable by createdAt, days and year.
+ *     tags: [Leave Balances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[year]
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: filter[leaveType]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filter[entryType]
+ *         schema:
+ *           type: string
+ *           enum: [CREDIT, DEBIT]
+ *       - in: query
+ *         name: filter[reason]
+ *         schema:
+ *           type: string
+ *           enum: [ANNUAL_GRANT, MONTHLY_ACCRUAL, LEAVE_APPROVED, LEAVE_CANCELLED, ADJUSTMENT]
+ *     responses:
+ *       200:
+ *         description: Paginated ledger entries ({ items, pagination })
+ */
+router.get(
+  '/me/ledger',
+  requirePermission(Permission.LEAVE_APPLY),
+  validateRequest(ledgerQuerySchema, 'query'), // WHY: Validate query string
+  getMyLedgerController,
+);
+
+/**
+ * @swagger
+ * /leave-balances/employees/{employeeId}:
+ *   get:
+ *     summary: Get employee leave balance
+ *     description: Returns an employee's balance per leave type. Accessible by HR and SUPER_ADMIN.
+ *     tags: [Leave Balances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: employeeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Leave balance summary
+ *       404:
+ *         description: Employee not found
+ */
+router.get(
+  '/employees/:employeeId',
+  requirePermission(Permission.LEAVE_MANAGE),
+  validateRequest(employeeIdParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(balanceQuerySchema, 'query'),
+  getEmployeeBalanceController,
+);
+
+/**
+ * @swagger
+ * /leave-balances/employees/{employeeId}/ledger:
+ *   get:
+ *     summary: Get employee leave ledger
+ *     description: Returns an employee's ledger entries, with the same query options as
+ *       /leave-balances/me/ledger. Accessible by HR and SUPER_ADMIN.
+ *     tags: [Leave Balances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: employeeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[year]
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: filter[leaveType]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filter[entryType]
+ *         schema:
+ *           type: string
+ *           enum: [CREDIT, DEBIT]
+ *       - in: query
+ *         name: filter[reason]
+ *         schema:
+ *           type: string
+ *           enum: [ANNUAL_GRANT, MONTHLY_ACCRUAL, LEAVE_APPROVED, LEAVE_CANCELLED, ADJUSTMENT]
+ *     responses:
+ *       200:
+ *         description: Paginated ledger entries ({ items, pagination })
+ *       404:
+ *         description: Employee not found
+ */
+router.get(
+  '/employees/:employeeId/ledger',
+  requirePermission(Permission.LEAVE_MANAGE),
+  validateRequest(employeeIdParamSchema, 'params'),
+  validateRequest(ledgerQuerySchema, 'query'),
+  getEmployeeLedgerController,
+);
+
+/**
+ * @swagger
+ * /leave-balances/employees/{employeeId}/adjustments:
+ *   post:
+ *     summary: Adjust employee leave balance
+ *     description: Appends a manual CREDIT or DEBIT entry to the ledger. Existing entries are never edited. Accessible by HR and SUPER_ADMIN.
+ *     tags: [Leave Balances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: employeeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - leaveType
+ *               - entryType
+ *               - days
+ *               - note
+ *             properties:
+ *               leaveType:
+ *                 type: string
+ *               entryType:
+ *                 type: string
+ *                 enum: [CREDIT, DEBIT]
+ *               days:
+ *                 type: number
+ *                 example: 2
+ *               year:
+ *                 type: integer
+ *               note:
+ *                 type: string
+ *                 example: Carry-over from previous year
+ *     responses:
+ *       201:
+ *         description: Adjustment recorded
+ *       400:
+ *         description: Validation error or leave type without quota
+ *       404:
+ *         description: Employee not found
+ */
+router.post(
+  '/employees/:employeeId/adjustments',
+  requirePermission(Permission.LEAVE_MANAGE),
+  validateRequest(employeeIdParamSchema, 'params'),
+  validateRequest(createAdjustmentSchema), // WHY: Validate request body
+  createAdjustmentController,
+);
+
+export default router;
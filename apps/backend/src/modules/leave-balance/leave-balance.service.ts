@@ -0,0 +1,496 @@
+/**
+ * WHAT: Leave balance service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Owns leave entitlement: grants and accruals, balance checks, and the
+ * ledger entries written when leave is approved or cancelled.
+ *
+ * HOW: Balances are always computed from ledger entries, never stored.
+ * Grants/accruals are written lazily the first time a year's balance is needed.
+ */
+
+import mongoose, { ClientSession, FilterQuery } from 'mongoose';
+import {
+  LeaveLedgerEntry,
+  ILeaveLedgerEntryDocument,
+  LedgerEntryType,
+  LedgerEntryReason,
+} from './leave-balance.model';
+import { Leave, ILeaveDocument, LeaveStatus, LeaveType } from '../leave/leave.model';
+import { Employee, IEmployeeDocument } from '../employee/employee.model';
+import { getEmployeeDocumentByUserId } from '../employee/employee.service';
+import { JWTPayload } from '../auth/auth.types';
+import { LEAVE_POLICIES, AccrualPolicy, LEAVE_BALANCE_ERRORS } from './leave-balance.constants';
+import { CreateAdjustmentInput, LedgerQuery } from './leave-balance.validation';
+import {
+  LeaveBalanceResponse,
+  LeaveTypeBalance,
+  LedgerEntryResponse,
+  LedgerListResult,
+} from './leave-balance.types';
+import { createHttpError } from '../../utils/error.util';
+import { buildSearchFilter, findPage } from '../../utils/query.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+
+/**
+ * WHAT: Leave year a date belongs to
+ *
+ * WHY: Dates arrive as UTC midnight ("2026-03-01"), so UTC keeps the year stable
+ * regardless of server timezone. A leave counts towards the year it starts in.
+ */
+export function getLeaveYear(date: Date): number {
+  return date.getUTCFullYear();
+}
+
+/**
+ * WHAT: Map ledger entry document to response shape
+ */
+function toLedgerEntryResponse(entry: ILeaveLedgerEntryDocument): LedgerEntryResponse {
+  return {
+    id: entry._id.toString(),
+    employeeId: entry.employeeId.toString(),
+    leaveType: entry.leaveType,
+    entryType: entry.entryType,
+    reason: entry.reason,
+    days: entry.days,
+    year: entry.year,
+    period: entry.period,
+    leaveId: entry.leaveId?.toString(),
+    createdBy: entry.createdBy?.toString(),
+    note: entry.note,
+    createdAt: entry.createdAt,
+  };
+}
+
+/**
+ * WHAT: Check for MongoDB duplicate key errors
+ *
+ * WHY: Two requests may write the same accrual at once; the unique
+ * index keeps one and the loser can safely ignore the error.
+ */
+function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number })?.code === 11000;
+}
+
+/**
+ * WHAT: Write missing grants and accruals for a year
+ *
+ * WHY: Entitlement is materialised in the ledger rather than computed on the fly,
+ * so every credit is visible in the history. Doing it lazily means no scheduler
+ * is needed: the first balance read in a new month writes that month's accrual.
+ *
+ * HOW:
+ * - ANNUAL types: one ANNUAL_GRANT per year (period "YYYY")
+ * - MONTHLY types: one MONTHLY_ACCRUAL per elapsed month (period "YYYY-MM"),
+ *   starting from the joining month in the joining year
+ * - Nothing before the joining year
+ * Unique index on (employee, type, reason, period) makes this idempotent.
+ */
+async function ensureEntitlements(
+  employee: IEmployeeDocument,
+  year: number,
+): Promise<void> {
+  const joiningYear = getLeaveYear(employee.joiningDate);
+  if (year < joiningYear) {
+    return;
+  }
+
+  const now = new Date();
+  const currentYear = now.getUTCFullYear();
+  const firstMonth = year === joiningYear ? employee.joiningDate.getUTCMonth() : 0;
+  // WHY: Past years accrue fully, the current year up to this month, future years not at all
+  const lastMonth =
+    year < currentYear ? 11 : year === currentYear ? now.getUTCMonth() : -1;
+
+  const existing = await LeaveLedgerEntry.find({
+    employeeId: employee._id,
+    year,
+    reason: { $in: [LedgerEntryReason.ANNUAL_GRANT, LedgerEntryReason.MONTHLY_ACCRUAL] },
+  }).select('leaveType reason period');
+  const existingKeys = new Set(
+    existing.map((entry) => `${entry.leaveType}:${entry.reason}:${entry.period}`),
+  );
+
+  const missing: Partial<ILeaveLedgerEntryDocument>[] = [];
+  const addIfMissing = (
+    leaveType: LeaveType,
+    reason: LedgerEntryReason,
+    period: string,
+    days: number,
+  ): void => {
+    if (!existingKeys.has(`${leaveType}:${reason}:${period}`)) {
+      missing.push({
+        employeeId: employee._id,
+        leaveType,
+        entryType: LedgerEntryType.CREDIT,
+        reason,
+        days,
+        year,
+        period,
+      });
+    }
+  };
+
+  for (const [leaveType, policy] of Object.entries(LEAVE_POLICIES) as [
+    LeaveType,
+    (typeof LEAVE_POLICIES)[LeaveType],
+  ][]) {
+    if (policy.accrual === AccrualPolicy.ANNUAL) {
+      addIfMissing(leaveType, LedgerEntryReason.ANNUAL_GRANT, String(year), policy.annualQuota);
+    } else if (policy.accrual === AccrualPolicy.MONTHLY) {
+      for (let month = firstMonth; month <= lastMonth; month++) {
+        const period = `${year}-${String(month + 1).padStart(2, '0')}`;
+        addIfMissing(leaveType, LedgerEntryReason.MONTHLY_ACCRUAL, period, policy.annualQuota / 12);
+      }
+    }
+  }
+
+  if (missing.length === 0) {
+    return;
+  }
+
+  try {
+    // WHY: ordered: false so one duplicate doesn't stop the remaining inserts
+    await LeaveLedgerEntry.insertMany(missing, { ordered: false });
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * WHAT: Compute balances for an employee and year
+ *
+ * WHY: Single source of truth for remaining/available days.
+ * Accepts a session so approval can check and debit inside one transaction.
+ *
+ * HOW: Sums ledger credits/debits per type, plus days in PENDING requests
+ */
+async function computeBalances(
+  employeeId: mongoose.Types.ObjectId,
+  year: number,
+  session?: ClientSession,
+): Promise<LeaveTypeBalance[]> {
+  const [ledgerTotals, pendingTotals] = await Promise.all([
+    LeaveLedgerEntry.aggregate<{ _id: LeaveType; credited: number; used: number }>([
+      { $match: { employeeId, year } },
+      {
+        $group: {
+          _id: '$leaveType',
+          credited: {
+            $sum: { $cond: [{ $eq: ['$entryType', LedgerEntryType.CREDIT] }, '$days', 0] },
+          },
+          used: {
+            $sum: { $cond: [{ $eq: ['$entryType', LedgerEntryType.DEBIT] }, '$days', 0] },
+          },
+        },
+      },
+    ]).session(session ?? null),
+    Leave.aggregate<{ _id: LeaveType; pending: number }>([
+      {
+        $match: {
+          employeeId,
+          status: LeaveStatus.PENDING,
+          startDate: {
+            $gte: new Date(Date.UTC(year, 0, 1)),
+            $lt: new Date(Date.UTC(year + 1, 0, 1)),
+          },
+        },
+      },
+      { $group: { _id: '$leaveType', pending: { $sum: '$numberOfDays' } } },
+    ]).session(session ?? null),
+  ]);
+
+  const ledgerByType = new Map(ledgerTotals.map((total) => [total._id, total]));
+  const pendingByType = new Map(pendingTotals.map((total) => [total._id, total.pending]));
+
+  return (Object.keys(LEAVE_POLICIES) as LeaveType[]).map((leaveType) => {
+    const policy = LEAVE_POLICIES[leaveType];
+    const credited = ledgerByType.get(leaveType)?.credited ?? 0;
+    const used = ledgerByType.get(leaveType)?.used ?? 0;
+    const pending = pendingByType.get(leaveType) ?? 0;
+    const hasQuota = policy.accrual !== AccrualPolicy.NONE;
+
+    return {
+      leaveType,
+      annualQuota: policy.annualQuota,
+      credited,
+      used,
+      pending,
+      remaining: hasQuota ? credited - used : null,
+      available: hasQuota ? credited - used - pending : null,
+    };
+  });
+}
+
+/**
+ * WHAT: Build balance summary for an employee document
+ */
+async function buildBalanceResponse(
+  employee: IEmployeeDocument,
+  year: number,
+): Promise<LeaveBalanceResponse> {
+  await ensureEntitlements(employee, year);
+  const balances = await computeBalances(employee._id, year);
+
+  return {
+    employeeId: employee._id.toString(),
+    year,
+    balances,
+    totalRemaining: balances.reduce((sum, balance) => sum + (balance.remaining ?? 0), 0),
+  };
+}
+
+/**
+ * WHAT: Find employee or throw 404
+ */
+async function findEmployeeOrFail(employeeId: string): Promise<IEmployeeDocument> {
+  const employee = await Employee.findById(employeeId);
+  if (!employee) {
+    throw createHttpError('Employee not found', 404);
+  }
+  return employee;
+}
+
+/**
+ * WHAT: Get own leave balance service
+ *
+ * WHY: Backs the employee dashboard balance chart and "Remaining Leaves" stat.
+ */
+export async function getMyBalance(
+  userId: string,
+  year: number,
+): Promise<LeaveBalanceResponse> {
+  const employee = await getEmployeeDocumentByUserId(userId);
+  return buildBalanceResponse(employee, year);
+}
+
+/**
+ * WHAT: Get employee leave balance service
+ *
+ * WHY: HR looks up any employee's balance.
+ */
+export async function getEmployeeBalance(
+  employeeId: string,
+  year: number,
+): Promise<LeaveBalanceResponse> {
+  const employee = await findEmployeeOrFail(employeeId);
+  return buildBalanceResponse(employee, year);
+}
+
+/**
+ * WHAT: Run a paginated ledger query for one employee
+ */
+async function findLedgerPage(
+  employee: IEmployeeDocument,
+  query: LedgerQuery,
+): Promise<LedgerListResult> {
+  if (query.filter.year !== undefined) {
+    await ensureEntitlements(employee, query.filter.year);
+  }
+
+  const filter: FilterQuery<ILeaveLedgerEntryDocument> = {
+    ...query.filter,
+    ...buildSearchFilter<ILeaveLedgerEntryDocument>(query.q, ['note']),
+    employeeId: employee._id,
+  };
+
+  const { docs: entries, pagination } = await findPage(LeaveLedgerEntry, filter, query);
+
+  return { entries: entries.map(toLedgerEntryResponse), pagination };
+}
+
+/**
+ * WHAT: Get own ledger service
+ *
+ * WHY: Lets employees see how their balance was built up and spent.
+ */
+export async function getMyLedger(
+  userId: string,
+  query: LedgerQuery,
+): Promise<LedgerListResult> {
+  const employee = await getEmployeeDocumentByUserId(userId);
+  return findLedgerPage(employee, query);
+}
+
+/**
+ * WHAT: Get employee ledger service
+ *
+ * WHY: HR view of any employee's ledger.
+ */
+export async function getEmployeeLedger(
+  employeeId: string,
+  query: LedgerQuery,
+): Promise<LedgerListResult> {
+  const employee = await findEmployeeOrFail(employeeId);
+  return findLedgerPage(employee, query);
+}
+
+/**
+ * WHAT: Create manual adjustment service
+ *
+ * WHY: The ledger is append-only, so HR corrects balances (carry-over,
+ * compensatory days, mistakes) by appending an ADJUSTMENT entry.
+ *
+ * HOW: Validates policy, appends CREDIT or DEBIT entry with actor and note
+ */
+export async function createAdjustment(
+  actor: JWTPayload,
+  employeeId: string,
+  input: CreateAdjustmentInput,
+  context: AuditContext,
+): Promise<LedgerEntryResponse> {
+  const employee = await findEmployeeOrFail(employeeId);
+
+  if (LEAVE_POLICIES[input.leaveType].accrual === AccrualPolicy.NONE) {
+    throw createHttpError(LEAVE_BALANCE_ERRORS.ADJUSTMENT_NOT_ALLOWED, 400);
+  }
+
+  const entry = await LeaveLedgerEntry.create({
+    employeeId: employee._id,
+    leaveType: input.leaveType,
+    entryType: input.entryType,
+    reason: LedgerEntryReason.ADJUSTMENT,
+    days: input.days,
+    year: input.year,
+    createdBy: new mongoose.Types.ObjectId(actor.userId),
+    note: input.note,
+  });
+
+  // WHY: Entity is the employee's balance - the entry itself is the change
+  await recordAuditLog(context, {
+    action: AuditAction.CREATE,
+    entityType: AuditEntityType.LEAVE_BALANCE,
+    entityId: employee._id.toString(),
+    after: entry.toObject(),
+  });
+
+  return toLedgerEntryResponse(entry);
+}
+
+/**
+ * WHAT: Build the insufficient balance error
+ *
+ * WHY: Same message and code whether caught at apply or at approval.
+ */
+function insufficientBalanceError(
+  leaveType: LeaveType,
+  available: number,
+  requested: number,
+): Error {
+  return createHttpError(
+    `${LEAVE_BALANCE_ERRORS.INSUFFICIENT_BALANCE}: ${available} ${leaveType} day(s) available, ${requested} requested`,
+    400,
+    'INSUFFICIENT_BALANCE',
+  );
+}
+
+/**
+ * WHAT: Ensure a new request fits in the available balance
+ *
+ * WHY: Requests exceeding the balance are refused up front.
+ * Pending requests count against the balance, so several small
+ * requests can't add up to more than the employee has.
+ * UNPAID_LEAVE has no quota and is never checked.
+ */
+export async function assertSufficientBalance(
+  employee: IEmployeeDocument,
+  leaveType: LeaveType,
+  days: number,
+  year: number,
+): Promise<void> {
+  if (LEAVE_POLICIES[leaveType].accrual === AccrualPolicy.NONE) {
+    return;
+  }
+
+  await ensureEntitlements(employee, year);
+  const balances = await computeBalances(employee._id, year);
+  const available = balances.find((balance) => balance.leaveType === leaveType)?.available ?? 0;
+
+  if (days > available) {
+    throw insufficientBalanceError(leaveType, available, days);
+  }
+}
+
+/**
+ * WHAT: Prepare ledger for approving a leave
+ *
+ * WHY: Grants/accruals must exist before the approval transaction checks
+ * the balance. They are written outside the transaction because a
+ * duplicate-key race inside it would abort the whole approval.
+ */
+export async function prepareLeaveDebit(leave: ILeaveDocument): Promise<void> {
+  const employee = await findEmployeeOrFail(leave.employeeId.toString());
+  await ensureEntitlements(employee, getLeaveYear(leave.startDate));
+}
+
+/**
+ * WHAT: Debit the ledger for an approved leave
+ *
+ * WHY: Approval is what consumes balance. The balance is re-checked here
+ * because it may have changed since the request was made (other approvals,
+ * adjustments). Must run in the same transaction as the status change.
+ *
+ * HOW: Checks remaining (pending excluded - this leave is one of them), appends DEBIT
+ */
+export async function debitForApprovedLeave(
+  leave: ILeaveDocument,
+  session: ClientSession,
+): Promise<void> {
+  const year = getLeaveYear(leave.startDate);
+
+  if (LEAVE_POLICIES[leave.leaveType].accrual !== AccrualPolicy.NONE) {
+    const balances = await computeBalances(leave.employeeId, year, session);
+    const remaining =
+      balances.find((balance) => balance.leaveType === leave.leaveType)?.remaining ?? 0;
+
+    if (leave.numberOfDays > remaining) {
+      throw insufficientBalanceError(leave.leaveType, remaining, leave.numberOfDays);
+    }
+  }
+
+  // WHY: Unpaid leave is still debited so the ledger records it (e.g. for payroll)
+  await LeaveLedgerEntry.create(
+    [
+      {
+        employeeId: leave.employeeId,
+        leaveType: leave.leaveType,
+        entryType: LedgerEntryType.DEBIT,
+        reason: LedgerEntryReason.LEAVE_APPROVED,
+        days: leave.numberOfDays,
+        year,
+        leaveId: leave._id,
+      },
+    ],
+    { session },
+  );
+}
+
+/**
+ * WHAT: Credit the ledger back for a cancelled approved leave
+ *
+ * WHY: Cancelling an approved leave returns its days. Must run in the
+ * same transaction as the status change.
+ */
+export async function creditForCancelledLeave(
+  leave: ILeaveDocument,
+  session: ClientSession,
+): Promise<void> {
+  await LeaveLedgerEntry.create(
+    [
+      {
+        employeeId: leave.employeeId,
+        leaveType: leave.leaveType,
+        entryType: LedgerEntryType.CREDIT,
+        reason: LedgerEntryReason.LEAVE_CANCELLED,
+        days: leave.numberOfDays,
+        year: getLeaveYear(leave.startDate),
+        leaveId: leave._id,
+      },
+    ],
+    { session },
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * WHAT: TypeScript types for Leave Balance module
+ *
+ * WHY: Centralized type definitions ensure type safety across leave-balance module.
+ *
+ * HOW: Exports interfaces used in leave-balance service and controller
+ */
+
+import { LeaveType } from '../leave/leave.model';
+import { LedgerEntryType, LedgerEntryReason } from './leave-balance.model';
+
+/**
+ * WHAT: Balance for one leave type in one year
+ *
+ * WHY: Backs the leave balance chart and "Remaining Leaves" stat.
+ * remaining/available are null for types without a quota (unpaid leave).
+ */
+export interface LeaveTypeBalance {
+  leaveType: LeaveType;
+  annualQuota: number;
+  credited: number; // WHY: Grants, accruals, credit-backs and positive adjustments
+  used: number; // WHY: Approved leave and negative adjustments
+  pending: number; // WHY: Days in PENDING requests, not yet debited
+  remaining: number | null; // WHY: credited - used
+  available: number | null; // WHY: remaining - pending, what a new request may use
+}
+
+/**
+ * WHAT: Leave balance summary response
+ */
+export interface LeaveBalanceResponse {
+  employeeId: string;
+  year: number;
+  balances: LeaveTypeBalance[];
+  totalRemaining: number; // WHY: Sum over types with a quota
+}
+
+/**
+ * WHAT: Ledger entry response
+ */
+export interface LedgerEntryResponse {
+  id: string;
+  employeeId: string;
+  leaveType: LeaveType;
+  entryType: LedgerEntryType;
+  reason: LedgerEntryReason;
+  days: number;
+  year: number;
+  period?: string;
+  leaveId?: string;
+  createdBy?: string;
+  note?: string;
+  createdAt: Date;
+}
+
+/**
+ * WHAT: Ledger list result
+ *
+ * WHY: Matches the pagination shape expected by sendPaginated().
+ */
+export interface LedgerListResult {
+  entries: LedgerEntryResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * WHAT: Validation schemas for Leave Balance endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating request bodies, params and query strings
+ */
+
+import { z } from 'zod';
+import { LeaveType } from '../leave/leave.model';
+import { LedgerEntryReason, LedgerEntryType } from './leave-balance.model';
+import { objectIdSchema } from '../../utils/validation.util';
+import { createListQuerySchema } from '../../utils/query.util';
+
+/**
+ * WHAT: Leave year schema
+ *
+ * WHY: Balances are per calendar year; defaults to the current year.
+ */
+const yearSchema = z.coerce
+  .number()
+  .int()
+  .min(2000, 'Invalid year')
+  .max(2100, 'Invalid year');
+
+/**
+ * WHAT: Employee ID route param schema
+ */
+export const employeeIdParamSchema = z.object({
+  employeeId: objectIdSchema,
+});
+
+/**
+ * WHAT: Balance query validation schema
+ */
+export const balanceQuerySchema = z.object({
+  year: yearSchema.default(() => new Date().getFullYear()),
+});
+
+/**
+ * WHAT: Ledger query validation schema
+ *
+ * WHY: Same list syntax as every other list; q matches the adjustment note.
+ */
+export const ledgerQuerySchema = createListQuerySchema({
+  filters: {
+    year: yearSchema,
+    leaveType: z.nativeEnum(LeaveType),
+    entryType: z.nativeEnum(LedgerEntryType),
+    reason: z.nativeEnum(LedgerEntryReason),
+  },
+  sortable: ['createdAt', 'days', 'year'],
+  defaultSort: '-createdAt', // WHY: Most recent movements first
+  defaultLimit: 20,
+});
+
+/**
+ * WHAT: Manual adjustment validation schema
+ *
+ * WHY: HR corrects balances by appending an entry, never by editing one.
+ * A note is required so every adjustment is explained.
+ */
+export const createAdjustmentSchema = z.object({
+  leaveType: z.nativeEnum(LeaveType, {
+    errorMap: () => ({ message: 'Invalid leave type' }),
+  }),
+  entryType: z.nativeEnum(LedgerEntryType, {
+    errorMap: () => ({ message: 'Entry type must be CREDIT or DEBIT' }),
+  }),
+  days: z
+    .number()
+    .min(0.5, 'Adjustment must be at least 0.5 days')
+    .multipleOf(0.5, 'Days must be in half-day steps'),
+  year: yearSchema.default(() => new Date().getFullYear()),
+  note: z
+    .string()
+    .trim()
+    .min(1, 'Note is required')
+    .max(500, 'Note must be less than 500 characters'),
+});
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * WHY: Type-safe request bodies in controllers.
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type BalanceQuery = z.infer<typeof balanceQuerySchema>;
+export type LedgerQuery = z.infer<typeof ledgerQuerySchema>;
+export type CreateAdjustmentInput = z.infer<typeof createAdjustmentSchema>;
@@ -0,0 +1,48 @@
+/**
+ * WHAT: Leave module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Single place to change workflow rules
+ * - Consistent error messages
+ *
+ * HOW: Exports constants used across leave module
+ */
+
+import { LeaveStatus } from './leave.model';
+
+/**
+ * WHAT: Allowed leave status transitions
+ *
+ * WHY: Status changes must be enforced server-side - e.g. a CANCELLED
+ * or REJECTED leave can never be approved. Anything not listed here is refused.
+ *
+ * HOW: Map of current status -> statuses it may move to
+ */
+export const LEAVE_STATUS_TRANSITIONS: Record<LeaveStatus, LeaveStatus[]> = {
+  [LeaveStatus.PENDING]: [
+    LeaveStatus.APPROVED,
+    LeaveStatus.REJECTED,
+    LeaveStatus.CANCELLED,
+  ],
+  // WHY: Approved leave can still be cancelled (before it starts); days are credited back
+  [LeaveStatus.APPROVED]: [LeaveStatus.CANCELLED],
+  [LeaveStatus.REJECTED]: [],
+  [LeaveStatus.CANCELLED]: [],
+};
+
+/**
+ * WHAT: Leave error messages
+ *
+ * WHY: Consistent messages across service functions.
+ */
+export const LEAVE_ERRORS = {
+  NOT_FOUND: 'Leave request not found',
+  OVERLAP: 'Leave request overlaps with an existing pending or approved leave',
+  NOT_REVIEWER: 'Only the employee\'s manager or HR can review this leave',
+  SELF_REVIEW: 'You cannot review your own leave request',
+  NOT_OWNER: 'Only the requester can cancel this leave',
+  CONCURRENT_UPDATE: 'Leave request was updated by another request. Please retry',
+  INACTIVE_EMPLOYEE: 'Inactive employees cannot apply for leave',
+  NO_WORKING_DAYS: 'Selected dates contain no working days',
+  ALREADY_STARTED: 'Approved leave that has already started cannot be cancelled',
+} as const;
@@ -0,0 +1,228 @@
+/**
+ * WHAT: Leave controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ * - Input validation (delegates to validation layer)
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  applyForLeave,
+  getMyLeaves,
+  getLeaves,
+  exportLeaves,
+  getLeaveById,
+  approveLeave,
+  rejectLeave,
+  cancelLeave,
+} from './leave.service';
+import {
+  ApplyLeaveInput,
+  RejectLeaveInput,
+  ListMyLeavesQuery,
+  ListLeavesQuery,
+  ExportLeavesQuery,
+} from './leave.validation';
+import { JWTPayload } from '../auth/auth.types';
+import { sendSuccess, sendPaginated, sendExport } from '../../utils/response.util';
+import { getAuditContext } from '../../utils/audit.util';
+
+/**
+ * WHAT: Apply for leave controller
+ *
+ * WHY: Handles POST /api/leaves requests.
+ * Creates a PENDING leave request for the logged-in employee.
+ *
+ * HOW: Express route handler
+ */
+export async function applyForLeaveController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: User is attached by authenticate middleware
+    const user = req.user as JWTPayload;
+    const input = req.body as ApplyLeaveInput;
+
+    const leave = await applyForLeave(user.userId, input);
+
+    // WHY: 201 Created for resource creation
+    sendSuccess(res, leave, 201, 'Leave request submitted successfully');
+  } catch (error) {
+    // WHY: Pass error to error middleware for consistent error handling
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List own leaves controller
+ *
+ * WHY: Handles GET /api/leaves/me requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMyLeavesController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    // WHY: Query is validated and coerced by validation middleware
+    const query = req.query as unknown as ListMyLeavesQuery;
+
+    const result = await getMyLeaves(user.userId, query);
+
+    sendPaginated(res, result.leaves, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List leave requests controller
+ *
+ * WHY: Handles GET /api/leaves requests.
+ * Managers see their direct reports' leaves; HR sees all.
+ *
+ * HOW: Express route handler
+ */
+export async function getLeavesController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const query = req.query as unknown as ListLeavesQuery;
+
+    const result = await getLeaves(user, query);
+
+    sendPaginated(res, result.leaves, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Export leaves controller
+ *
+ * WHY: Handles GET /api/leaves/export requests.
+ *
+ * HOW: Express route handler
+ */
+export async function exportLeavesController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const query = req.query as unknown as ExportLeavesQuery;
+
+    const file = await exportLeaves(user, query, getAuditContext(req));
+
+    await sendExport(res, file);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get leave by ID controller
+ *
+ * WHY: Handles GET /api/leaves/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getLeaveByIdController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    const leave = await getLeaveById(user, req.params.id);
+
+    sendSuccess(res, leave);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Approve leave controller
+ *
+ * WHY: Handles PATCH /api/leaves/:id/approve requests.
+ *
+ * HOW: Express route handler
+ */
+export async function approveLeaveController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    const leave = await approveLeave(user, req.params.id);
+
+    sendSuccess(res, leave, 200, 'Leave request approved');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Reject leave controller
+ *
+ * WHY: Handles PATCH /api/leaves/:id/reject requests.
+ *
+ * HOW: Express route handler
+ */
+export async function rejectLeaveController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as RejectLeaveInput;
+
+    const leave = await rejectLeave(user, req.params.id, input);
+
+    sendSuccess(res, leave, 200, 'Leave request rejected');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Cancel leave controller
+ *
+ * WHY: Handles PATCH /api/leaves/:id/cancel requests.
+ *
+ * HOW: Express route handler
+ */
+export async function cancelLeaveController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    const leave = await cancelLeave(user, req.params.id);
+
+    sendSuccess(res, leave, 200, 'Leave request cancelled');
+  } catch (error) {
+    next(error);
+  }
+}
@@ -51,6 +51,8 @@ export interface ILeaveDocument extends Document {
   leaveType: LeaveType;
   startDate: Date;
   endDate: Date;
+  startHalfDay: boolean; // WHY: Leave starts at midday on startDate
+  endHalfDay: boolean; // WHY: Leave ends at midday on endDate
   numberOfDays: number;
   reason?: string;
   status: LeaveStatus;
@@ -100,7 +102,17 @@ const leaveSchema = new Schema<ILeaveDocument>(
       },
     },
 
-    // WHY: Calculated number of days (excluding weekends/holidays in future)
+    startHalfDay: {
+      type: Boolean,
+      default: false,
+    },
+
+    endHalfDay: {
+      type: Boolean,
+      default: false,
+    },
+
+    // WHY: Working days computed server-side (excludes weekends and holidays, honours half days)
     numberOfDays: {
       type: Number,
       required: true,
@@ -0,0 +1,373 @@
+/**
+ * WHAT: Leave routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions and RBAC middleware
+ */
+
+import { Router } from 'express';
+import {
+  applyForLeaveController,
+  getMyLeavesController,
+  getLeavesController,
+  exportLeavesController,
+  getLeaveByIdController,
+  approveLeaveController,
+  rejectLeaveController,
+  cancelLeaveController,
+} from './leave.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import {
+  applyLeaveSchema,
+  rejectLeaveSchema,
+  listMyLeavesQuerySchema,
+  listLeavesQuerySchema,
+  exportLeavesQuerySchema,
+} from './leave.validation';
+import { idParamSchema } from '../../utils/validation.util';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: Every role can apply for and view leave (leave:apply).
+ * Reviewing needs leave:approve; whether a reviewer may act on a specific
+ * leave (manager of the requester, or leave:manage) depends on the leave
+ * itself, so that check lives in the service.
+ */
+router.use(authenticate);
+router.use(requirePermission(Permission.LEAVE_APPLY));
+
+/**
+ * @swagger
+ * /leaves:
+ *   post:
+ *     summary: Apply for leave
+ *     description: Creates a PENDING leave request for the logged-in employee. numberOfDays is computed server-side from the dates, weekends, holidays and half days. Overlapping pending/approved leaves are refused.
+ *     tags: [Leaves]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - leaveType
+ *               - startDate
+ *               - endDate
+ *             properties:
+ *               leaveType:
+ *                 type: string
+ *                 enum: [SICK_LEAVE, CASUAL_LEAVE, EARNED_LEAVE, MATERNITY_LEAVE, PATERNITY_LEAVE, UNPAID_LEAVE]
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               startHalfDay:
+ *                 type: boolean
+ *                 description: Leave starts at midday on startDate
+ *               endHalfDay:
+ *                 type: boolean
+ *                 description: Leave ends at midday on endDate
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Leave request submitted
+ *       400:
+ *         description: Validation error (including a range over 366 days), no working days in range, or insufficient balance (code INSUFFICIENT_BALANCE)
+ *       404:
+ *         description: No employee profile for this user
+ *       409:
+ *         description: Overlaps an existing pending or approved leave
+ */
+router.post(
+  '/',
+  validateRequest(applyLeaveSchema), // WHY: Validate request body
+  applyForLeaveController,
+);
+
+/**
+ * @swagger
+ * /leaves/me:
+ *   get:
+ *     summary: List my leaves
+ *     description: Returns the logged-in employee's leave requests, newest first by default.
+ *       q matches the reason. Sortable by createdAt, startDate, endDate and numberOfDays.
+ *     tags: [Leaves]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[status]
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED, CANCELLED]
+ *       - in: query
+ *         name: filter[leaveType]
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Paginated leave list ({ items, pagination })
+ */
+// WHY: Declared before /:id so "me" isn't treated as an ID
+router.get(
+  '/me',
+  validateRequest(listMyLeavesQuerySchema, 'query'), // WHY: Validate query string
+  getMyLeavesController,
+);
+
+/**
+ * @swagger
+ * /leaves:
+ *   get:
+ *     summary: List leave requests
+ *     description: Requires leave:approve. Managers get their direct reports' requests; users with leave:manage (HR, SUPER_ADMIN) get all requests.
+ *       q matches the reason. Sortable by createdAt, startDate, endDate and numberOfDays (default -createdAt).
+ *     tags: [Leaves]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[status]
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED, CANCELLED]
+ *       - in: query
+ *         name: filter[leaveType]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filter[employeeId]
+ *         schema:
+ *           type: string
+ *         description: Employee document ID
+ *     responses:
+ *       200:
+ *         description: Paginated leave list ({ items, pagination })
+ */
+router.get(
+  '/',
+  requirePermission(Permission.LEAVE_APPROVE),
+  validateRequest(listLeavesQuerySchema, 'query'), // WHY: Validate query string
+  getLeavesController,
+);
+
+/**
+ * @swagger
+ * /leaves/export:
+ *   get:
+ *     summary: Export leave records
+ *     description: Streams leave records as a CSV or XLSX download. Requires leave:approve - managers
+ *       export their direct reports' leave, users with leave:manage everyone's. Takes the list's sort,
+ *       q and filter parameters without paging, plus filter[department]. from and to select leaves
+ *       with at least one day in the range. Columns are employeeId, employeeName, department,
+ *       leaveType, startDate, startHalfDay, endDate, endHalfDay, numberOfDays, status, reason,
+ *       approvedAt, rejectionReason and createdAt. Default sort is -startDate.
+ *     tags: [Leaves]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ExportFormatParam'
+ *       - $ref: '#/components/parameters/ExportColumnsParam'
+ *       - $ref: '#/components/parameters/ExportFromParam'
+ *       - $ref: '#/components/parameters/ExportToParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[status]
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED, CANCELLED]
+ *       - in: query
+ *         name: filter[leaveType]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filter[employeeId]
+ *         schema:
+ *           type: string
+ *         description: Employee document ID
+ *       - in: query
+ *         name: filter[department]
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Export file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid filter, sort, date range or unknown column
+ *       403:
+ *         description: Forbidden - requires leave:approve permission
+ */
+router.get(
+  '/export',
+  requirePermission(Permission.LEAVE_APPROVE),
+  validateRequest(exportLeavesQuerySchema, 'query'), // WHY: Validate query string
+  exportLeavesController,
+);
+
+/**
+ * @swagger
+ * /leaves/{id}:
+ *   get:
+ *     summary: Get leave request
+ *     description: Visible to the requester, their manager, HR and SUPER_ADMIN.
+ *     tags: [Leaves]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Leave request details
+ *       403:
+ *         description: Not allowed to view this leave
+ *       404:
+ *         description: Leave request not found
+ */
+router.get(
+  '/:id',
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  getLeaveByIdController,
+);
+
+/**
+ * @swagger
+ * /leaves/{id}/approve:
+ *   patch:
+ *     summary: Approve leave request
+ *     description: Approves a PENDING leave. Allowed for the requester's manager, HR and SUPER_ADMIN.
+ *     tags: [Leaves]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Leave request approved
+ *       400:
+ *         description: Insufficient balance (code INSUFFICIENT_BALANCE)
+ *       403:
+ *         description: Not a reviewer for this leave, or own leave
+ *       404:
+ *         description: Leave request not found
+ *       409:
+ *         description: Leave is not PENDING
+ */
+router.patch(
+  '/:id/approve',
+  requirePermission(Permission.LEAVE_APPROVE),
+  validateRequest(idParamSchema, 'params'),
+  approveLeaveController,
+);
+
+/**
+ * @swagger
+ * /leaves/{id}/reject:
+ *   patch:
+ *     summary: Reject leave request
+ *     description: Rejects a PENDING leave with a reason. Allowed for the requester's manager, HR and SUPER_ADMIN.
+ *     tags: [Leaves]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rejectionReason
+ *             properties:
+ *               rejectionReason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Leave request rejected
+ *       403:
+ *         description: Not a reviewer for this leave, or own leave
+ *       404:
+ *         description: Leave request not found
+ *       409:
+ *         description: Leave is not PENDING
+ */
+router.patch(
+  '/:id/reject',
+  requirePermission(Permission.LEAVE_APPROVE),
+  validateRequest(idParamSchema, 'params'),
+  validateRequest(rejectLeaveSchema), // WHY: Validate request body
+  rejectLeaveController,
+);
+
+/**
+ * @swagger
+ * /leaves/{id}/cancel:
+ *   patch:
+ *     summary: Cancel leave request
+ *     description: Cancels a PENDING leave, or an APPROVED leave that hasn't started yet (days are credited back). Only the requester can cancel.
+ *     tags: [Leaves]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Leave request cancelled
+ *       403:
+ *         description: Not the requester
+ *       404:
+ *         description: Leave request not found
+ *       409:
+ *         description: Leave can no longer be cancelled
+ */
+router.patch(
+  '/:id/cancel',
+  validateRequest(idParamSchema, 'params'),
+  cancelLeaveController,
+);
+
+export default router;
@@ -0,0 +1,579 @@
+/**
+ * WHAT: Leave service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Owns the leave workflow: apply, approve, reject, cancel.
+ * All status changes go through LEAVE_STATUS_TRANSITIONS so invalid
+ * transitions (e.g. approving a CANCELLED leave) are refused server-side.
+ *
+ * HOW: Contains all leave management business logic
+ */
+
+import mongoose, { ClientSession, FilterQuery } from 'mongoose';
+import { Leave, ILeaveDocument, LeaveStatus } from './leave.model';
+import { Employee, IEmployeeDocument } from '../employee/employee.model';
+import { getEmployeeDocumentByUserId } from '../employee/employee.service';
+import { calculateWorkingDays } from '../holiday/holiday.service';
+import { JWTPayload, Permission } from '../auth/auth.types';
+import {
+  ApplyLeaveInput,
+  RejectLeaveInput,
+  ListMyLeavesQuery,
+  ListLeavesQuery,
+  ExportLeavesQuery,
+} from './leave.validation';
+import { LeaveResponse, LeaveListResult } from './leave.types';
+import { LEAVE_STATUS_TRANSITIONS, LEAVE_ERRORS } from './leave.constants';
+import {
+  assertSufficientBalance,
+  prepareLeaveDebit,
+  debitForApprovedLeave,
+  creditForCancelledLeave,
+  getLeaveYear,
+} from '../leave-balance/leave-balance.service';
+import { createHttpError } from '../../utils/error.util';
+import { hasPermission } from '../../utils/permission.util';
+import { buildSearchFilter, findPage, stableSort, SortSpec } from '../../utils/query.util';
+import {
+  ExportColumn,
+  ExportFile,
+  createExportFile,
+  selectExportColumns,
+  toExportDate,
+} from '../../utils/export.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+import { publishLeaveSubmitted, publishLeaveReviewed } from '../notification/notification.events';
+
+/**
+ * WHAT: Map leave document to response shape
+ *
+ * WHY: Keeps response format consistent across all endpoints.
+ * Requester summary is optional - only included when loaded.
+ */
+function toLeaveResponse(
+  leave: ILeaveDocument,
+  employee?: IEmployeeDocument | null,
+): LeaveResponse {
+  return {
+    id: leave._id.toString(),
+    employeeId: leave.employeeId.toString(),
+    employee: employee
+      ? {
+          id: employee._id.toString(),
+          employeeId: employee.employeeId,
+          firstName: employee.firstName,
+          lastName: employee.lastName,
+          department: employee.department,
+        }
+      : undefined,
+    leaveType: leave.leaveType,
+    startDate: leave.startDate,
+    endDate: leave.endDate,
+    startHalfDay: leave.startHalfDay,
+    endHalfDay: leave.endHalfDay,
+    numberOfDays: leave.numberOfDays,
+    reason: leave.reason,
+    status: leave.status,
+    approvedBy: leave.approvedBy?.toString(),
+    approvedAt: leave.approvedAt,
+    rejectionReason: leave.rejectionReason,
+    createdAt: leave.createdAt,
+    updatedAt: leave.updatedAt,
+  };
+}
+
+/**
+ * WHAT: Map a page of leaves, loading requesters in one query
+ *
+ * WHY: Avoids one employee lookup per leave in list endpoints.
+ */
+async function toLeaveResponses(leaves: ILeaveDocument[]): Promise<LeaveResponse[]> {
+  const employees = await Employee.find({
+    _id: { $in: leaves.map((leave) => leave.employeeId) },
+  });
+  const employeesById = new Map(
+    employees.map((employee) => [employee._id.toString(), employee]),
+  );
+
+  return leaves.map((leave) =>
+    toLeaveResponse(leave, employeesById.get(leave.employeeId.toString())),
+  );
+}
+
+/**
+ * WHAT: Find leave or throw 404
+ */
+async function findLeaveOrFail(id: string): Promise<ILeaveDocument> {
+  const leave = await Leave.findById(id);
+  if (!leave) {
+    throw createHttpError(LEAVE_ERRORS.NOT_FOUND, 404);
+  }
+  return leave;
+}
+
+/**
+ * WHAT: Check whether the actor may review (approve/reject) a leave
+ *
+ * WHY: Reviewers need leave:approve, and are either allowed to review
+ * everyone (leave:manage) or the requester's manager (Employee.managerId).
+ * Nobody reviews their own leave.
+ *
+ * HOW: Checks permissions, then compares actor's employee record with requester's managerId
+ */
+async function assertCanReview(
+  actor: JWTPayload,
+  leave: ILeaveDocument,
+): Promise<void> {
+  const requester = await Employee.findById(leave.employeeId);
+  if (!requester) {
+    throw createHttpError(LEAVE_ERRORS.NOT_FOUND, 404);
+  }
+
+  if (requester.userId.toString() === actor.userId) {
+    throw createHttpError(LEAVE_ERRORS.SELF_REVIEW, 403);
+  }
+
+  if (!hasPermission(actor.role, Permission.LEAVE_APPROVE)) {
+    throw createHttpError(LEAVE_ERRORS.NOT_REVIEWER, 403);
+  }
+
+  if (hasPermission(actor.role, Permission.LEAVE_MANAGE)) {
+    return;
+  }
+
+  const actorEmployee = await Employee.findOne({ userId: actor.userId });
+  const isManager =
+    actorEmployee !== null &&
+    requester.managerId?.toString() === actorEmployee._id.toString();
+
+  if (!isManager) {
+    throw createHttpError(LEAVE_ERRORS.NOT_REVIEWER, 403);
+  }
+}
+
+/**
+ * WHAT: Move a leave to a new status
+ *
+ * WHY: Single place where status changes happen, so the transition
+ * table is always enforced. The update is conditional on the status we
+ * read, so two concurrent reviewers can't both win.
+ * Accepts a session so ledger entries can be written in the same transaction.
+ *
+ * HOW: Validates transition, then findOneAndUpdate guarded by current status
+ */
+async function transitionLeave(
+  leave: ILeaveDocument,
+  nextStatus: LeaveStatus,
+  changes: Partial<Pick<ILeaveDocument, 'approvedBy' | 'approvedAt' | 'rejectionReason'>> = {},
+  session?: ClientSession,
+): Promise<ILeaveDocument> {
+  const allowed = LEAVE_STATUS_TRANSITIONS[leave.status];
+  if (!allowed.includes(nextStatus)) {
+    throw createHttpError(
+      `Cannot change leave status from ${leave.status} to ${nextStatus}`,
+      409,
+    );
+  }
+
+  const updated = await Leave.findOneAndUpdate(
+    { _id: leave._id, status: leave.status },
+    { status: nextStatus, ...changes },
+    { new: true, runValidators: true, session },
+  );
+
+  if (!updated) {
+    throw createHttpError(LEAVE_ERRORS.CONCURRENT_UPDATE, 409);
+  }
+
+  return updated;
+}
+
+/**
+ * WHAT: Apply for leave service
+ *
+ * WHY: Employees submit leave requests for review.
+ * Overlapping pending/approved leaves are refused so days aren't claimed twice,
+ * and requests exceeding the available balance are refused up front.
+ * The duration is computed here from the dates, weekends and the holiday
+ * calendar for the employee's location - never taken from the client.
+ *
+ * HOW: Resolves caller's employee record, computes days, checks overlap and balance, creates PENDING leave
+ * and notifies its reviewer
+ */
+export async function applyForLeave(
+  userId: string,
+  input: ApplyLeaveInput,
+): Promise<LeaveResponse> {
+  const employee = await getEmployeeDocumentByUserId(userId);
+  if (!employee.isActive) {
+    throw createHttpError(LEAVE_ERRORS.INACTIVE_EMPLOYEE, 403);
+  }
+
+  const { numberOfDays } = await calculateWorkingDays({
+    startDate: input.startDate,
+    endDate: input.endDate,
+    startHalfDay: input.startHalfDay,
+    endHalfDay: input.endHalfDay,
+    location: employee.location,
+  });
+  if (numberOfDays <= 0) {
+    throw createHttpError(LEAVE_ERRORS.NO_WORKING_DAYS, 400);
+  }
+
+  // WHY: Two ranges overlap when each starts before the other ends
+  const overlapping = await Leave.exists({
+    employeeId: employee._id,
+    status: { $in: [LeaveStatus.PENDING, LeaveStatus.APPROVED] },
+    startDate: { $lte: input.endDate },
+    endDate: { $gte: input.startDate },
+  });
+  if (overlapping) {
+    throw createHttpError(LEAVE_ERRORS.OVERLAP, 409);
+  }
+
+  await assertSufficientBalance(
+    employee,
+    input.leaveType,
+    numberOfDays,
+    getLeaveYear(input.startDate),
+  );
+
+  const leave = await Leave.create({
+    employeeId: employee._id,
+    leaveType: input.leaveType,
+    startDate: input.startDate,
+    endDate: input.endDate,
+    startHalfDay: input.startHalfDay,
+    endHalfDay: input.endHalfDay,
+    numberOfDays,
+    reason: input.reason,
+    status: LeaveStatus.PENDING, // WHY: Every request starts pending review
+  });
+
+  await publishLeaveSubmitted(leave, employee);
+
+  return toLeaveResponse(leave, employee);
+}
+
+/**
+ * WHAT: Get own leaves service
+ *
+ * WHY: Backs the "My Leaves" page.
+ *
+ * HOW: Filters leaves by caller's employee record
+ */
+export async function getMyLeaves(
+  userId: string,
+  query: ListMyLeavesQuery,
+): Promise<LeaveListResult> {
+  const employee = await getEmployeeDocumentByUserId(userId);
+
+  const filter: FilterQuery<ILeaveDocument> = {
+    ...query.filter,
+    ...buildSearchFilter<ILeaveDocument>(query.q, ['reason']),
+    employeeId: employee._id,
+  };
+
+  return findLeavePage(filter, query);
+}
+
+/**
+ * WHAT: Get leave requests service
+ *
+ * WHY: Backs the "Leave Requests" page.
+ * leave:manage sees every request; other reviewers see their direct reports'.
+ *
+ * HOW: Scopes filter by permission, then applies query filters
+ */
+export async function getLeaves(
+  actor: JWTPayload,
+  query: ListLeavesQuery,
+): Promise<LeaveListResult> {
+  const filter: FilterQuery<ILeaveDocument> = {
+    ...query.filter,
+    ...buildSearchFilter<ILeaveDocument>(query.q, ['reason']),
+  };
+
+  const reportIds = await getReviewableEmployeeIds(actor);
+  if (reportIds) {
+    // WHY: A manager filtering by someone outside their team gets nothing
+    if (query.filter.employeeId && !reportIds.includes(query.filter.employeeId)) {
+      return findLeavePage({ _id: { $in: [] } }, query);
+    }
+
+    filter.employeeId = query.filter.employeeId ?? { $in: reportIds };
+  }
+
+  return findLeavePage(filter, query);
+}
+
+/**
+ * WHAT: Employees whose leave the actor may review
+ *
+ * WHY: Users with leave:manage see every leave; managers only their
+ * direct reports'.
+ *
+ * HOW: null for everyone, otherwise the reports' employee IDs
+ */
+async function getReviewableEmployeeIds(actor: JWTPayload): Promise<string[] | null> {
+  if (hasPermission(actor.role, Permission.LEAVE_MANAGE)) {
+    return null;
+  }
+
+  const manager = await getEmployeeDocumentByUserId(actor.userId);
+  const reports = await Employee.find({ managerId: manager._id }).select('_id');
+  return reports.map((report) => report._id.toString());
+}
+
+/**
+ * WHAT: Leave row as exported
+ *
+ * WHY: The employee is populated so the sheet shows who took the leave.
+ */
+type LeaveExportRow = Omit<ILeaveDocument, 'employeeId'> & {
+  employeeId: Pick<IEmployeeDocument, 'employeeId' | 'firstName' | 'lastName' | 'department'> | null;
+};
+
+/**
+ * WHAT: Leave export columns
+ */
+const LEAVE_EXPORT_COLUMNS: ExportColumn<LeaveExportRow>[] = [
+  { key: 'employeeId', header: 'Employee ID', value: (row) => row.employeeId?.employeeId },
+  {
+    key: 'employeeName',
+    header: 'Employee Name',
+    value: (row) => row.employeeId && `${row.employeeId.firstName} ${row.employeeId.lastName}`,
+  },
+  { key: 'department', header: 'Department', value: (row) => row.employeeId?.department },
+  { key: 'leaveType', header: 'Leave Type', value: (row) => row.leaveType },
+  { key: 'startDate', header: 'Start Date', value: (row) => toExportDate(row.startDate) },
+  { key: 'startHalfDay', header: 'Starts Midday', value: (row) => row.startHalfDay },
+  { key: 'endDate', header: 'End Date', value: (row) => toExportDate(row.endDate) },
+  { key: 'endHalfDay', header: 'Ends Midday', value: (row) => row.endHalfDay },
+  { key: 'numberOfDays', header: 'Days', value: (row) => row.numberOfDays },
+  { key: 'status', header: 'Status', value: (row) => row.status },
+  { key: 'reason', header: 'Reason', value: (row) => row.reason },
+  { key: 'approvedAt', header: 'Reviewed At', value: (row) => row.approvedAt },
+  { key: 'rejectionReason', header: 'Rejection Reason', value: (row) => row.rejectionReason },
+  { key: 'createdAt', header: 'Requested At', value: (row) => row.createdAt },
+];
+
+/**
+ * WHAT: Export leaves service
+ *
+ * WHY: Leave records for payroll and audits. Reviewers export what they
+ * can list - managers only their direct reports.
+ *
+ * HOW: Combines the list filters with department and date range, records
+ * the export, then returns a file streaming leaves from a cursor
+ */
+export async function exportLeaves(
+  actor: JWTPayload,
+  query: ExportLeavesQuery,
+  context: AuditContext,
+): Promise<ExportFile> {
+  const columns = selectExportColumns(LEAVE_EXPORT_COLUMNS, query.columns, actor.role);
+  const { department, ...leaveFilter } = query.filter;
+
+  const conditions: FilterQuery<ILeaveDocument>[] = [
+    leaveFilter,
+    buildSearchFilter<ILeaveDocument>(query.q, ['reason']),
+  ];
+
+  const reportIds = await getReviewableEmployeeIds(actor);
+  if (reportIds) {
+    conditions.push({ employeeId: { $in: reportIds } });
+  }
+
+  if (department) {
+    const members = await Employee.find({ department }).select('_id');
+    conditions.push({ employeeId: { $in: members.map((member) => member._id) } });
+  }
+
+  // WHY: A leave belongs to the range if any of its days fall inside it
+  if (query.to) {
+    conditions.push({ startDate: { $lte: query.to } });
+  }
+  if (query.from) {
+    conditions.push({ endDate: { $gte: query.from } });
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.EXPORT,
+    entityType: AuditEntityType.LEAVE,
+    metadata: {
+      format: query.format,
+      columns: columns.map((column) => column.key),
+      filter: query.filter,
+      q: query.q,
+      from: query.from,
+      to: query.to,
+    },
+  });
+
+  return createExportFile({
+    name: 'leaves',
+    format: query.format,
+    columns,
+    rows: () =>
+      Leave.find({ $and: conditions })
+        .sort(stableSort(query.sort))
+        .populate<Pick<LeaveExportRow, 'employeeId'>>({
+          path: 'employeeId',
+          select: 'employeeId firstName lastName department',
+        })
+        .cursor(),
+  });
+}
+
+/**
+ * WHAT: Run a paginated leave query
+ *
+ * WHY: Shared by own-leaves and leave-requests lists.
+ */
+async function findLeavePage(
+  filter: FilterQuery<ILeaveDocument>,
+  query: { page: number; limit: number; sort: SortSpec },
+): Promise<LeaveListResult> {
+  const { docs: leaves, pagination } = await findPage(Leave, filter, query);
+
+  return {
+    leaves: await toLeaveResponses(leaves),
+    pagination,
+  };
+}
+
+/**
+ * WHAT: Get leave by ID service
+ *
+ * WHY: Requester, their manager and HR may view a leave request.
+ *
+ * HOW: Loads leave, allows owner or reviewer
+ */
+export async function getLeaveById(
+  actor: JWTPayload,
+  id: string,
+): Promise<LeaveResponse> {
+  const leave = await findLeaveOrFail(id);
+  const requester = await Employee.findById(leave.employeeId);
+
+  const isOwner = requester?.userId.toString() === actor.userId;
+  if (!isOwner) {
+    await assertCanReview(actor, leave);
+  }
+
+  return toLeaveResponse(leave, requester);
+}
+
+/**
+ * WHAT: Approve leave service
+ *
+ * WHY: Manager or HR approves a pending leave.
+ * Approval debits the leave balance; status change and debit happen in
+ * one transaction so a leave is never approved without being debited.
+ *
+ * HOW: Checks reviewer, transitions PENDING -> APPROVED and debits ledger,
+ * then notifies the requester
+ */
+export async function approveLeave(
+  actor: JWTPayload,
+  id: string,
+): Promise<LeaveResponse> {
+  const leave = await findLeaveOrFail(id);
+  await assertCanReview(actor, leave);
+  await prepareLeaveDebit(leave);
+
+  let updated!: ILeaveDocument;
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      updated = await transitionLeave(
+        leave,
+        LeaveStatus.APPROVED,
+        {
+          approvedBy: new mongoose.Types.ObjectId(actor.userId),
+          approvedAt: new Date(),
+        },
+        session,
+      );
+      await debitForApprovedLeave(updated, session);
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  const requester = await Employee.findById(updated.employeeId);
+  await publishLeaveReviewed(updated, requester);
+
+  return toLeaveResponse(updated, requester);
+}
+
+/**
+ * WHAT: Reject leave service
+ *
+ * WHY: Manager or HR rejects a pending leave with a reason.
+ *
+ * HOW: Checks reviewer, transitions PENDING -> REJECTED, then notifies the requester
+ */
+export async function rejectLeave(
+  actor: JWTPayload,
+  id: string,
+  input: RejectLeaveInput,
+): Promise<LeaveResponse> {
+  const leave = await findLeaveOrFail(id);
+  await assertCanReview(actor, leave);
+
+  const updated = await transitionLeave(leave, LeaveStatus.REJECTED, {
+    rejectionReason: input.rejectionReason,
+  });
+
+  const requester = await Employee.findById(updated.employeeId);
+  await publishLeaveReviewed(updated, requester);
+
+  return toLeaveResponse(updated, requester);
+}
+
+/**
+ * WHAT: Cancel leave service
+ *
+ * WHY: The requester can withdraw a request they no longer need.
+ * Cancelling an approved leave (before it starts) credits its days back.
+ *
+ * HOW: Checks ownership, transitions to CANCELLED (transition table decides from which statuses)
+ */
+export async function cancelLeave(
+  actor: JWTPayload,
+  id: string,
+): Promise<LeaveResponse> {
+  const leave = await findLeaveOrFail(id);
+  const requester = await Employee.findById(leave.employeeId);
+
+  if (!requester || requester.userId.toString() !== actor.userId) {
+    throw createHttpError(LEAVE_ERRORS.NOT_OWNER, 403);
+  }
+
+  if (leave.status !== LeaveStatus.APPROVED) {
+    const updated = await transitionLeave(leave, LeaveStatus.CANCELLED);
+    return toLeaveResponse(updated, requester);
+  }
+
+  // WHY: Days already taken can't be handed back
+  if (leave.startDate <= new Date()) {
+    throw createHttpError(LEAVE_ERRORS.ALREADY_STARTED, 409);
+  }
+
+  let updated!: ILeaveDocument;
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      updated = await transitionLeave(leave, LeaveStatus.CANCELLED, {}, session);
+      await creditForCancelledLeave(updated, session);
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  return toLeaveResponse(updated, requester);
+}
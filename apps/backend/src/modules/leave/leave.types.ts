@@ -0,0 +1,60 @@
+/**
+ * WHAT: TypeScript types for Leave module
+ *
+ * WHY: Centralized type definitions ensure type safety across leave module.
+ * Response types decouple the API contract from the Mongoose document shape.
+ *
+ * HOW: Exports interfaces used in leave service and controller
+ */
+
+import { LeaveStatus, LeaveType } from './leave.model';
+import { Pagination } from '../../utils/response.util';
+
+/**
+ * WHAT: Requester summary embedded in leave responses
+ *
+ * WHY: Reviewers need to see who asked for the leave without extra requests.
+ */
+export interface LeaveEmployeeSummary {
+  id: string;
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  department: string;
+}
+
+/**
+ * WHAT: Leave response interface
+ *
+ * WHY: Type-safe response structure for leave data.
+ *
+ * HOW: Used in service and controller responses
+ */
+export interface LeaveResponse {
+  id: string;
+  employeeId: string;
+  employee?: LeaveEmployeeSummary;
+  leaveType: LeaveType;
+  startDate: Date;
+  endDate: Date;
+  startHalfDay: boolean;
+  endHalfDay: boolean;
+  numberOfDays: number;
+  reason?: string;
+  status: LeaveStatus;
+  approvedBy?: string;
+  approvedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Leave list result
+ *
+ * WHY: Matches the pagination shape expected by sendPaginated().
+ */
+export interface LeaveListResult {
+  leaves: LeaveResponse[];
+  pagination: Pagination;
+}
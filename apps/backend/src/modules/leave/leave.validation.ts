@@ -0,0 +1,128 @@
+/**
+ * WHAT: Validation schemas for Leave endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating request bodies and query strings
+ */
+
+import { z } from 'zod';
+import { LeaveStatus, LeaveType } from './leave.model';
+import { objectIdSchema } from '../../utils/validation.util';
+import { createListQuerySchema } from '../../utils/query.util';
+import { createExportQuerySchema } from '../../utils/export.util';
+import { isWithinWorkingDaysSpan, WORKING_DAYS_SPAN_ERROR } from '../holiday/holiday.validation';
+
+/**
+ * WHAT: Apply for leave validation schema
+ *
+ * WHY: Validates leave request before it reaches the workflow.
+ * Dates are coerced because JSON bodies carry them as strings.
+ * numberOfDays is not accepted - the server computes it from the dates.
+ *
+ * HOW: Zod schema with date-order and range-length refinements
+ */
+export const applyLeaveSchema = z
+  .object({
+    leaveType: z.nativeEnum(LeaveType, {
+      errorMap: () => ({ message: 'Invalid leave type' }),
+    }),
+
+    startDate: z.coerce.date({ invalid_type_error: 'Invalid start date' }),
+
+    endDate: z.coerce.date({ invalid_type_error: 'Invalid end date' }),
+
+    // WHY: Half days - leave starts at midday on startDate / ends at midday on endDate
+    startHalfDay: z.boolean().optional().default(false),
+
+    endHalfDay: z.boolean().optional().default(false),
+
+    reason: z
+      .string()
+      .trim()
+      .max(500, 'Reason must be less than 500 characters')
+      .optional(),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  })
+  .refine((data) => isWithinWorkingDaysSpan(data.startDate, data.endDate), {
+    message: WORKING_DAYS_SPAN_ERROR,
+    path: ['endDate'],
+  });
+
+/**
+ * WHAT: Reject leave validation schema
+ *
+ * WHY: A rejection must always tell the employee why.
+ */
+export const rejectLeaveSchema = z.object({
+  rejectionReason: z
+    .string()
+    .trim()
+    .min(1, 'Rejection reason is required')
+    .max(500, 'Rejection reason must be less than 500 characters'),
+});
+
+/**
+ * WHAT: Shared leave list options
+ *
+ * WHY: Both leave lists filter and sort the same way; q matches the reason.
+ */
+const leaveListFilters = {
+  status: z.nativeEnum(LeaveStatus),
+  leaveType: z.nativeEnum(LeaveType),
+};
+
+const LEAVE_SORTABLE_FIELDS = ['createdAt', 'startDate', 'endDate', 'numberOfDays'];
+
+/**
+ * WHAT: Own leaves query validation schema
+ */
+export const listMyLeavesQuerySchema = createListQuerySchema({
+  filters: leaveListFilters,
+  sortable: LEAVE_SORTABLE_FIELDS,
+  defaultSort: '-createdAt', // WHY: Newest requests first
+});
+
+/**
+ * WHAT: Leave requests query validation schema
+ *
+ * WHY: Reviewers can additionally filter by employee.
+ */
+export const listLeavesQuerySchema = createListQuerySchema({
+  filters: { ...leaveListFilters, employeeId: objectIdSchema },
+  sortable: LEAVE_SORTABLE_FIELDS,
+  defaultSort: '-createdAt',
+});
+
+/**
+ * WHAT: Export leaves query validation schema
+ *
+ * WHY: Reviewer filters plus the employee's department; from/to select
+ * leaves overlapping the range.
+ */
+export const exportLeavesQuerySchema = createExportQuerySchema({
+  filters: {
+    ...leaveListFilters,
+    employeeId: objectIdSchema,
+    department: z.string().trim().min(1),
+  },
+  sortable: LEAVE_SORTABLE_FIELDS,
+  defaultSort: '-startDate', // WHY: Most recent leave first
+});
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * WHY: Type-safe request bodies in controllers.
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type ApplyLeaveInput = z.infer<typeof applyLeaveSchema>;
+export type RejectLeaveInput = z.infer<typeof rejectLeaveSchema>;
+export type ListMyLeavesQuery = z.infer<typeof listMyLeavesQuerySchema>;
+export type ListLeavesQuery = z.infer<typeof listLeavesQuerySchema>;
+export type ExportLeavesQuery = z.infer<typeof exportLeavesQuerySchema>;
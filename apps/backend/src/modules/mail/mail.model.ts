@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Mail outbox Mongoose model and schema
+ *
+ * WHY: The Mongo mail transport stores messages instead of sending them,
+ * so development and tests can read emails (e.g. reset links) from the database.
+ *
+ * HOW: One document per message, written by the mongo transport only
+ */
+
+/**
+ * WHAT: Mail outbox document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ */
+export interface IMailOutboxDocument extends Document {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  createdAt: Date;
+}
+
+/**
+ * WHAT: Mail outbox schema definition
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const mailOutboxSchema = new Schema<IMailOutboxDocument>(
+  {
+    from: {
+      type: String,
+      required: true,
+    },
+
+    to: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+
+    subject: {
+      type: String,
+      required: true,
+    },
+
+    text: {
+      type: String,
+      required: true,
+    },
+
+    html: {
+      type: String,
+    },
+  },
+  {
+    // WHY: Messages are never updated, so only createdAt is meaningful
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'mail_outbox',
+  },
+);
+
+// WHY: Find the latest mail sent to an address
+mailOutboxSchema.index({ to: 1, createdAt: -1 });
+
+/**
+ * WHAT: Mail outbox model export
+ */
+export const MailOutbox = mongoose.model<IMailOutboxDocument>('MailOutbox', mailOutboxSchema);
@@ -0,0 +1,50 @@
+/**
+ * WHAT: Mail service - business logic layer
+ *
+ * WHY: Single entry point for outgoing mail. Modules call sendMail()
+ * and never deal with transports or the sender address.
+ *
+ * HOW: Picks a transport from MAIL_TRANSPORT on first use; setMailTransport()
+ * replaces it (real delivery, tests)
+ */
+
+import env from '../../config/env';
+import { MailMessage, MailTransport } from './mail.types';
+import { createFileMailTransport, createMongoMailTransport } from './mail.transport';
+
+let transport: MailTransport | undefined;
+
+/**
+ * WHAT: Build the transport configured in env
+ */
+function createConfiguredTransport(): MailTransport {
+  switch (env.MAIL_TRANSPORT) {
+    case 'mongo':
+      return createMongoMailTransport();
+    case 'file':
+    default:
+      return createFileMailTransport(env.MAIL_FILE_PATH);
+  }
+}
+
+/**
+ * WHAT: Replace the mail transport
+ *
+ * WHY: Extension point for real delivery, and lets tests capture mail in memory.
+ */
+export function setMailTransport(mailTransport: MailTransport): void {
+  transport = mailTransport;
+}
+
+/**
+ * WHAT: Send mail service
+ *
+ * WHY: Sender address is set here so every message uses MAIL_FROM.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!transport) {
+    transport = createConfiguredTransport();
+  }
+
+  await transport.send({ ...message, from: env.MAIL_FROM });
+}
@@ -0,0 +1,69 @@
+/**
+ * WHAT: Email templates
+ *
+ * WHY: Keeps wording in one place, out of the services that send the mail.
+ *
+ * HOW: Functions returning subject and bodies for a MailMessage
+ */
+
+import { MailMessage } from './mail.types';
+
+/**
+ * WHAT: Password reset email
+ */
+export function passwordResetMail(
+  to: string,
+  resetUrl: string,
+  expiresInMinutes: number,
+): MailMessage {
+  return {
+    to,
+    subject: 'Reset your HR Portal password',
+    text: [
+      'We received a request to reset your HR Portal password.',
+      '',
+      `Reset it here (the link expires in ${expiresInMinutes} minutes and works once):`,
+      resetUrl,
+      '',
+      'If you did not request this, you can ignore this email - your password will not change.',
+    ].join('\n'),
+    html: [
+      '<p>We received a request to reset your HR Portal password.</p>',
+      `<p><a href="${resetUrl}">Reset your password</a></p>`,
+      `<p>The link expires in ${expiresInMinutes} minutes and works once.</p>`,
+      '<p>If you did not request this, you can ignore this email - your password will not change.</p>',
+    ].join('\n'),
+  };
+}
+
+/**
+ * WHAT: Temporary password email for admin-created accounts
+ *
+ * WHY: Generated passwords are never returned by the API - this mail is the
+ * only way the new user learns it. It must be changed at first login.
+ */
+export function temporaryPasswordMail(
+  to: string,
+  temporaryPassword: string,
+  loginUrl: string,
+): MailMessage {
+  return {
+    to,
+    subject: 'Your HR Portal account',
+    text: [
+      'An HR Portal account has been created for you.',
+      '',
+      `Email: ${to}`,
+      `Temporary password: ${temporaryPassword}`,
+      '',
+      `Sign in here: ${loginUrl}`,
+      'You will be asked to choose a new password when you first sign in.',
+    ].join('\n'),
+    html: [
+      '<p>An HR Portal account has been created for you.</p>',
+      `<p>Email: ${to}<br>Temporary password: <code>${temporaryPassword}</code></p>`,
+      `<p><a href="${loginUrl}">Sign in</a></p>`,
+      '<p>You will be asked to choose a new password when you first sign in.</p>',
+    ].join('\n'),
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * WHAT: Mail transports
+ *
+ * WHY: Where mail goes depends on the environment. Both transports here keep
+ * mail local, so development and tests never email real people.
+ *
+ * HOW: Factory functions returning MailTransport implementations
+ */
+
+import { appendFile, mkdir } from 'fs/promises';
+import path from 'path';
+import { MailTransport, OutgoingMail } from './mail.types';
+import { MailOutbox } from './mail.model';
+
+/**
+ * WHAT: File mail transport
+ *
+ * WHY: Zero setup - read mail with `tail -f`.
+ *
+ * HOW: Appends one JSON line per message, creating the directory if needed
+ */
+export function createFileMailTransport(filePath: string): MailTransport {
+  return {
+    async send(mail: OutgoingMail): Promise<void> {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await appendFile(
+        filePath,
+        `${JSON.stringify({ ...mail, sentAt: new Date().toISOString() })}\n`,
+        'utf8',
+      );
+    },
+  };
+}
+
+/**
+ * WHAT: Mongo outbox mail transport
+ *
+ * WHY: Tests and shared dev databases can query mail like any other data.
+ *
+ * HOW: Inserts one MailOutbox document per message
+ */
+export function createMongoMailTransport(): MailTransport {
+  return {
+    async send(mail: OutgoingMail): Promise<void> {
+      await MailOutbox.create(mail);
+    },
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * WHAT: TypeScript types for Mail module
+ *
+ * WHY: Centralized type definitions ensure type safety across mail module.
+ *
+ * HOW: Exports the message shape and the transport interface every transport implements
+ */
+
+/**
+ * WHAT: Outgoing email
+ *
+ * WHY: Plain text plus optional HTML - every mail client can show the text part.
+ * from is filled in by the mail service (MAIL_FROM).
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * WHAT: Message as handed to a transport
+ */
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+/**
+ * WHAT: Mail transport interface
+ *
+ * WHY: Callers send mail without knowing where it goes. Development and tests
+ * use the file or Mongo outbox; a real delivery transport (SMTP, provider API)
+ * only needs to implement send().
+ */
+export interface MailTransport {
+  send(mail: OutgoingMail): Promise<void>;
+}
@@ -0,0 +1,39 @@
+/**
+ * WHAT: MFA module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Consistent error messages and codes
+ * - Single place to change MFA rules
+ *
+ * HOW: Exports constants used across mfa module
+ */
+
+/**
+ * WHAT: MFA error messages
+ */
+export const MFA_ERRORS = {
+  ALREADY_ENABLED: 'Two-factor authentication is already enabled',
+  NOT_ENABLED: 'Two-factor authentication is not enabled',
+  SETUP_NOT_STARTED: 'Start two-factor setup first',
+  CODE_INVALID: 'Invalid two-factor authentication code',
+  REQUIRED_BY_POLICY: 'Two-factor authentication is required for your role and cannot be disabled',
+} as const;
+
+/**
+ * WHAT: Machine-readable error codes
+ */
+export const MFA_ERROR_CODES = {
+  CODE_INVALID: 'MFA_CODE_INVALID',
+  REQUIRED_BY_POLICY: 'MFA_REQUIRED_BY_POLICY',
+} as const;
+
+/**
+ * WHAT: Backup code settings
+ *
+ * WHY: 10 codes of 10 hex characters (40 bits each) - enough to get back in
+ * after losing a phone, too random to guess within the lockout limits.
+ */
+export const MFA_BACKUP_CODES = {
+  COUNT: 10,
+  BYTES: 5,
+} as const;
@@ -0,0 +1,151 @@
+/**
+ * WHAT: MFA controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  getMfaStatus,
+  startMfaSetup,
+  enableMfa,
+  disableMfa,
+  regenerateBackupCodes,
+} from './mfa.service';
+import { completeMfaEnrolment } from '../auth/auth.service';
+import { MfaCodeInput, TotpCodeInput } from './mfa.validation';
+import { MfaEnableResponse } from './mfa.types';
+import { JWTPayload, TokenScope } from '../auth/auth.types';
+import { sendSuccess } from '../../utils/response.util';
+import { getAuditContext } from '../../utils/audit.util';
+
+/**
+ * WHAT: Get MFA status controller
+ *
+ * WHY: Handles GET /api/auth/mfa requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMfaStatusController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    const result = await getMfaStatus(user.userId, user.role);
+
+    sendSuccess(res, result, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Start MFA setup controller
+ *
+ * WHY: Handles POST /api/auth/mfa/setup requests.
+ *
+ * HOW: Express route handler
+ */
+export async function startMfaSetupController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    const result = await startMfaSetup(user.userId, user.email);
+
+    sendSuccess(res, result, 200);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Enable MFA controller
+ *
+ * WHY: Handles POST /api/auth/mfa/enable requests.
+ *
+ * HOW: With an MFA setup token, enrolment also finishes the login that was
+ * waiting for it - the response then carries real tokens under login
+ */
+export async function enableMfaController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as TotpCodeInput;
+    const context = getAuditContext(req);
+
+    const result: MfaEnableResponse = {
+      backupCodes: await enableMfa(user.userId, input, context),
+    };
+
+    if (user.scope === TokenScope.MFA_SETUP) {
+      result.login = await completeMfaEnrolment(user.userId, context);
+    }
+
+    sendSuccess(res, result, 200, 'Two-factor authentication enabled');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Disable MFA controller
+ *
+ * WHY: Handles DELETE /api/auth/mfa requests.
+ *
+ * HOW: Express route handler
+ */
+export async function disableMfaController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as MfaCodeInput;
+
+    await disableMfa(user.userId, user.role, input, getAuditContext(req));
+
+    sendSuccess(res, { message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Regenerate backup codes controller
+ *
+ * WHY: Handles POST /api/auth/mfa/backup-codes requests.
+ *
+ * HOW: Express route handler
+ */
+export async function regenerateBackupCodesController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as MfaCodeInput;
+
+    const backupCodes = await regenerateBackupCodes(user.userId, input, getAuditContext(req));
+
+    sendSuccess(res, { backupCodes }, 200, 'Backup codes regenerated');
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,90 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: MFA factor Mongoose model and schema
+ *
+ * WHY: Two-factor login for accounts that can see salaries and manage users.
+ * Kept out of User so the secret and backup codes are never loaded with
+ * a user by accident.
+ *
+ * HOW: One document per user. pendingSecret holds a secret during enrolment;
+ * it becomes secret once the user proves their app produces valid codes.
+ */
+
+/**
+ * WHAT: MFA factor document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ *
+ * HOW: Used throughout mfa module for type safety
+ */
+export interface IMfaFactorDocument extends Document {
+  userId: mongoose.Types.ObjectId; // WHY: Reference to User
+  secret?: string; // WHY: Base32 TOTP secret - set once enrolment is verified
+  pendingSecret?: string; // WHY: Secret shown during enrolment, not yet verified
+  enabledAt?: Date; // WHY: MFA is on while set
+  backupCodeHashes: string[]; // WHY: SHA-256 of unused backup codes - each works once
+  lastUsedStep?: number; // WHY: TOTP time step of the last accepted code - blocks replay
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: MFA factor schema definition
+ *
+ * WHY: Schema defines structure, validation, and indexes for mfa collection.
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const mfaFactorSchema = new Schema<IMfaFactorDocument>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+
+    // WHY: Secrets must be readable to compute codes, so they can't be hashed.
+    // select: false keeps them out of every query that doesn't ask for them.
+    secret: {
+      type: String,
+      select: false,
+    },
+
+    pendingSecret: {
+      type: String,
+      select: false,
+    },
+
+    enabledAt: {
+      type: Date,
+    },
+
+    backupCodeHashes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+
+    lastUsedStep: {
+      type: Number,
+    },
+  },
+  {
+    // WHY: timestamps automatically add createdAt and updatedAt
+    timestamps: true,
+    collection: 'mfa_factors',
+  },
+);
+
+// WHY: One factor per user
+mfaFactorSchema.index({ userId: 1 }, { unique: true });
+
+/**
+ * WHAT: MFA factor model export
+ *
+ * WHY: Model provides database operations.
+ *
+ * HOW: Mongoose model created from schema
+ */
+export const MfaFactor = mongoose.model<IMfaFactorDocument>('MfaFactor', mfaFactorSchema);
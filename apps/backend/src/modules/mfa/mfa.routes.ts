@@ -0,0 +1,225 @@
+/**
+ * WHAT: MFA routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router mounted at /api/auth/mfa. Every signed-in user manages
+ * their own factor, so there is no permission guard.
+ */
+
+import { Router } from 'express';
+import {
+  getMfaStatusController,
+  startMfaSetupController,
+  enableMfaController,
+  disableMfaController,
+  regenerateBackupCodesController,
+} from './mfa.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import { mfaCodeSchema, totpCodeSchema } from './mfa.validation';
+import { authenticate, authenticateForMfaSetup } from '../../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /auth/mfa:
+ *   get:
+ *     summary: Get MFA status
+ *     description: Whether two-factor authentication is enabled for the current user, how many backup codes are left, and whether their role requires MFA.
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: MFA status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     enabled:
+ *                       type: boolean
+ *                     enabledAt:
+ *                       type: string
+ *                       format: date-time
+ *                     backupCodesRemaining:
+ *                       type: integer
+ *                       example: 10
+ *                     required:
+ *                       type: boolean
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.get('/', authenticate, getMfaStatusController);
+
+/**
+ * @swagger
+ * /auth/mfa/setup:
+ *   post:
+ *     summary: Start MFA enrolment
+ *     description: Generates a new TOTP secret and its otpauth:// provisioning URI (render it as a QR code). MFA stays off until /auth/mfa/enable confirms a code. Calling again replaces an unfinished enrolment. Accepts the MFA setup token from login.
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Enrolment started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP
+ *                     otpauthUri:
+ *                       type: string
+ *                       example: otpauth://totp/HR%20Portal%3Auser%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=HR%20Portal&algorithm=SHA1&digits=6&period=30
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       409:
+ *         description: MFA is already enabled
+ */
+router.post('/setup', authenticateForMfaSetup, startMfaSetupController);
+
+/**
+ * @swagger
+ * /auth/mfa/enable:
+ *   post:
+ *     summary: Confirm MFA enrolment
+ *     description: Verifies a code from the authenticator app against the secret from /auth/mfa/setup and turns MFA on. Returns 10 one-time backup codes - they are not shown again. When called with the MFA setup token from login, data.login holds the tokens that finish that login.
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: MFA enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     backupCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: [a1b2c-3d4e5, f6a7b-8c9d0]
+ *                     login:
+ *                       type: object
+ *                       description: Same shape as the /auth/login response - only with an MFA setup token
+ *       400:
+ *         description: Validation error, wrong code (MFA_CODE_INVALID) or setup not started
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       409:
+ *         description: MFA is already enabled
+ */
+router.post(
+  '/enable',
+  authenticateForMfaSetup, // WHY: Also the last step of a login waiting for enrolment
+  validateRequest(totpCodeSchema),
+  enableMfaController,
+);
+
+/**
+ * @swagger
+ * /auth/mfa:
+ *   delete:
+ *     summary: Disable MFA
+ *     description: Turns two-factor authentication off. Requires a current authenticator or backup code. Not allowed for roles in MFA_REQUIRED_ROLES.
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: MFA disabled
+ *       400:
+ *         description: Validation error, wrong code (MFA_CODE_INVALID) or MFA not enabled
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: The user's role requires MFA (MFA_REQUIRED_BY_POLICY)
+ */
+router.delete('/', authenticate, validateRequest(mfaCodeSchema), disableMfaController);
+
+/**
+ * @swagger
+ * /auth/mfa/backup-codes:
+ *   post:
+ *     summary: Regenerate backup codes
+ *     description: Replaces all backup codes with 10 new ones; the old ones stop working. Requires a current authenticator or backup code.
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: New backup codes
+ *       400:
+ *         description: Validation error, wrong code (MFA_CODE_INVALID) or MFA not enabled
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+router.post(
+  '/backup-codes',
+  authenticate,
+  validateRequest(mfaCodeSchema),
+  regenerateBackupCodesController,
+);
+
+export default router;
@@ -0,0 +1,269 @@
+/**
+ * WHAT: MFA service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Owns TOTP enrolment, code verification and backup codes. The login flow
+ * itself (challenge tokens, sessions) stays in the auth service.
+ *
+ * HOW: TOTP per RFC 6238 (utils/totp.util); backup codes stored as SHA-256 hashes
+ */
+
+import crypto from 'crypto';
+import { MfaFactor } from './mfa.model';
+import { MfaMethod, MfaSetupResponse, MfaStatusResponse } from './mfa.types';
+import { MFA_BACKUP_CODES, MFA_ERRORS, MFA_ERROR_CODES } from './mfa.constants';
+import { MfaCodeInput, TotpCodeInput } from './mfa.validation';
+import { UserRole } from '../auth/auth.types';
+import env from '../../config/env';
+import { createHttpError } from '../../utils/error.util';
+import { hashToken } from '../../utils/token.util';
+import { buildOtpAuthUri, findTotpStep, generateTotpSecret } from '../../utils/totp.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+
+/**
+ * WHAT: Normalise a backup code for hashing
+ *
+ * WHY: Codes are shown as "a1b2c-3d4e5"; users may type them without the
+ * dash or in capitals.
+ */
+function normaliseBackupCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+/**
+ * WHAT: Generate a fresh set of backup codes
+ *
+ * HOW: Returns the codes to show once, and the hashes to store
+ */
+function generateBackupCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: MFA_BACKUP_CODES.COUNT }, () => {
+    const raw = crypto.randomBytes(MFA_BACKUP_CODES.BYTES).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  return { codes, hashes: codes.map((code) => hashToken(normaliseBackupCode(code))) };
+}
+
+/**
+ * WHAT: 400 for a wrong code on enrolment and management endpoints
+ */
+function invalidCodeError() {
+  return createHttpError(MFA_ERRORS.CODE_INVALID, 400, MFA_ERROR_CODES.CODE_INVALID);
+}
+
+/**
+ * WHAT: Whether the MFA policy requires MFA for a role
+ *
+ * WHY: MFA_REQUIRED_ROLES lets deployments make MFA mandatory for
+ * privileged roles without a code change.
+ */
+export function isMfaRequiredForRole(role: UserRole): boolean {
+  return env.MFA_REQUIRED_ROLES.includes(role);
+}
+
+/**
+ * WHAT: Whether a user has MFA enabled
+ */
+export async function isMfaEnabled(userId: string): Promise<boolean> {
+  const factor = await MfaFactor.exists({ userId, enabledAt: { $exists: true } });
+  return factor !== null;
+}
+
+/**
+ * WHAT: Get MFA status service
+ *
+ * HOW: Counts remaining backup codes without returning them
+ */
+export async function getMfaStatus(userId: string, role: UserRole): Promise<MfaStatusResponse> {
+  const factor = await MfaFactor.findOne({ userId }).select('+backupCodeHashes');
+  const enabled = Boolean(factor?.enabledAt);
+
+  return {
+    enabled,
+    enabledAt: factor?.enabledAt,
+    backupCodesRemaining: enabled ? factor!.backupCodeHashes.length : 0,
+    required: isMfaRequiredForRole(role),
+  };
+}
+
+/**
+ * WHAT: Start MFA setup service
+ *
+ * WHY: First enrolment step - the user adds the secret to their app.
+ * Nothing changes for login until enableMfa() proves the app works.
+ *
+ * HOW: Stores a new pending secret (replacing an unfinished one) and
+ * returns it with its provisioning URI
+ */
+export async function startMfaSetup(userId: string, email: string): Promise<MfaSetupResponse> {
+  if (await isMfaEnabled(userId)) {
+    throw createHttpError(MFA_ERRORS.ALREADY_ENABLED, 409);
+  }
+
+  const secret = generateTotpSecret();
+
+  await MfaFactor.updateOne({ userId }, { pendingSecret: secret }, { upsert: true });
+
+  return { secret, otpauthUri: buildOtpAuthUri(secret, email, env.MFA_ISSUER) };
+}
+
+/**
+ * WHAT: Enable MFA service
+ *
+ * WHY: Second enrolment step. A valid code proves the app holds the secret,
+ * so the user can't lock themselves out with a mistyped secret.
+ *
+ * HOW: Verifies the code against the pending secret, promotes it, and
+ * issues backup codes. The code's time step is stored so it can't be replayed at login.
+ */
+export async function enableMfa(
+  userId: string,
+  input: TotpCodeInput,
+  context: AuditContext,
+): Promise<string[]> {
+  const factor = await MfaFactor.findOne({ userId }).select('+pendingSecret');
+
+  if (factor?.enabledAt) {
+    throw createHttpError(MFA_ERRORS.ALREADY_ENABLED, 409);
+  }
+
+  if (!factor?.pendingSecret) {
+    throw createHttpError(MFA_ERRORS.SETUP_NOT_STARTED, 400);
+  }
+
+  const step = findTotpStep(factor.pendingSecret, input.code);
+  if (step === null) {
+    throw invalidCodeError();
+  }
+
+  const { codes, hashes } = generateBackupCodes();
+
+  factor.secret = factor.pendingSecret;
+  factor.pendingSecret = undefined;
+  factor.enabledAt = new Date();
+  factor.backupCodeHashes = hashes;
+  factor.lastUsedStep = step;
+  await factor.save();
+
+  await recordAuditLog(context, {
+    action: AuditAction.MFA_ENABLE,
+    entityType: AuditEntityType.USER,
+    entityId: userId,
+  });
+
+  return codes;
+}
+
+/**
+ * WHAT: Verify MFA code service
+ *
+ * WHY: Used by the login challenge and before sensitive MFA changes.
+ * Every accepted code is consumed: a TOTP code can't be used again
+ * (its time step is recorded), a backup code is deleted.
+ *
+ * HOW: 6 digits are checked as TOTP, anything else as a backup code.
+ * Both consume with a conditional update, so two concurrent requests
+ * can't use the same code. Returns the method used, or null.
+ */
+export async function verifyMfaCode(userId: string, code: string): Promise<MfaMethod | null> {
+  const factor = await MfaFactor.findOne({ userId, enabledAt: { $exists: true } }).select(
+    '+secret',
+  );
+  if (!factor?.secret) {
+    return null;
+  }
+
+  if (/^\d{6}$/.test(code)) {
+    const step = findTotpStep(factor.secret, code);
+    if (step === null) {
+      return null;
+    }
+
+    const result = await MfaFactor.updateOne(
+      {
+        _id: factor._id,
+        $or: [{ lastUsedStep: { $exists: false } }, { lastUsedStep: { $lt: step } }],
+      },
+      { lastUsedStep: step },
+    );
+
+    return result.modifiedCount === 1 ? MfaMethod.TOTP : null;
+  }
+
+  const hash = hashToken(normaliseBackupCode(code));
+  const result = await MfaFactor.updateOne(
+    { _id: factor._id, backupCodeHashes: hash },
+    { $pull: { backupCodeHashes: hash } },
+  );
+
+  return result.modifiedCount === 1 ? MfaMethod.BACKUP_CODE : null;
+}
+
+/**
+ * WHAT: Disable MFA service
+ *
+ * WHY: Lets users turn MFA off, e.g. before moving to a new phone.
+ * Requires a current code, so a stolen session alone can't remove the second factor.
+ *
+ * HOW: Refused for roles the policy requires MFA for; deletes the factor
+ */
+export async function disableMfa(
+  userId: string,
+  role: UserRole,
+  input: MfaCodeInput,
+  context: AuditContext,
+): Promise<void> {
+  if (isMfaRequiredForRole(role)) {
+    throw createHttpError(MFA_ERRORS.REQUIRED_BY_POLICY, 403, MFA_ERROR_CODES.REQUIRED_BY_POLICY);
+  }
+
+  if (!(await isMfaEnabled(userId))) {
+    throw createHttpError(MFA_ERRORS.NOT_ENABLED, 400);
+  }
+
+  if (!(await verifyMfaCode(userId, input.code))) {
+    throw invalidCodeError();
+  }
+
+  await MfaFactor.deleteOne({ userId });
+
+  await recordAuditLog(context, {
+    action: AuditAction.MFA_DISABLE,
+    entityType: AuditEntityType.USER,
+    entityId: userId,
+  });
+}
+
+/**
+ * WHAT: Regenerate backup codes service
+ *
+ * WHY: For users who used up or lost their codes. Old codes stop working.
+ *
+ * HOW: Requires a current code, replaces all stored hashes
+ */
+export async function regenerateBackupCodes(
+  userId: string,
+  input: MfaCodeInput,
+  context: AuditContext,
+): Promise<string[]> {
+  if (!(await isMfaEnabled(userId))) {
+    throw createHttpError(MFA_ERRORS.NOT_ENABLED, 400);
+  }
+
+  if (!(await verifyMfaCode(userId, input.code))) {
+    throw invalidCodeError();
+  }
+
+  const { codes, hashes } = generateBackupCodes();
+  await MfaFactor.updateOne({ userId }, { backupCodeHashes: hashes });
+
+  await recordAuditLog(context, {
+    action: AuditAction.MFA_BACKUP_CODES_REGENERATE,
+    entityType: AuditEntityType.USER,
+    entityId: userId,
+  });
+
+  return codes;
+}
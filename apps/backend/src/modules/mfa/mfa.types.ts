@@ -0,0 +1,53 @@
+/**
+ * WHAT: TypeScript types for MFA module
+ *
+ * WHY: Centralized type definitions ensure type safety across mfa module.
+ *
+ * HOW: Exports interfaces used in mfa service and controller
+ */
+
+import { LoginResponse } from '../auth/auth.types';
+
+/**
+ * WHAT: How a second factor was proven
+ *
+ * WHY: Recorded on the LOGIN audit entry - a backup code login is worth a look.
+ */
+export enum MfaMethod {
+  TOTP = 'TOTP',
+  BACKUP_CODE = 'BACKUP_CODE',
+}
+
+/**
+ * WHAT: MFA status response
+ *
+ * WHY: required tells the UI to hide "disable" for roles that must keep MFA.
+ */
+export interface MfaStatusResponse {
+  enabled: boolean;
+  enabledAt?: Date;
+  backupCodesRemaining: number;
+  required: boolean;
+}
+
+/**
+ * WHAT: Enrolment details shown to the user
+ *
+ * WHY: otpauthUri is rendered as a QR code; secret is for typing in by hand.
+ */
+export interface MfaSetupResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * WHAT: Result of enabling MFA
+ *
+ * WHY: Backup codes are only ever shown here (and on regeneration) - only
+ * their hashes are stored. login is set when enrolment finished a login that
+ * was waiting for it (MFA setup token): it carries the real tokens.
+ */
+export interface MfaEnableResponse {
+  backupCodes: string[];
+  login?: LoginResponse;
+}
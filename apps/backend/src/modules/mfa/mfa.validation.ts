@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+/**
+ * WHAT: Zod validation schemas for MFA endpoints
+ *
+ * WHY: Validates request bodies before they reach the service.
+ *
+ * HOW: Schemas used by validateRequest() middleware in mfa and auth routes
+ */
+
+/**
+ * WHAT: MFA code schema
+ *
+ * WHY: Accepts a 6-digit TOTP code or a backup code ("a1b2c-3d4e5").
+ * Spaces are stripped - apps show codes as "123 456".
+ */
+export const mfaCodeSchema = z.object({
+  code: z
+    .string()
+    .transform((value) => value.replace(/\s/g, ''))
+    .pipe(z.string().min(6, 'Code is required').max(20)),
+});
+
+/**
+ * WHAT: TOTP-only code schema
+ *
+ * WHY: Enrolment must prove the authenticator app works - backup codes don't exist yet.
+ */
+export const totpCodeSchema = z.object({
+  code: z
+    .string()
+    .transform((value) => value.replace(/\s/g, ''))
+    .pipe(z.string().regex(/^\d{6}$/, 'Code must be 6 digits')),
+});
+
+export type MfaCodeInput = z.infer<typeof mfaCodeSchema>;
+export type TotpCodeInput = z.infer<typeof totpCodeSchema>;
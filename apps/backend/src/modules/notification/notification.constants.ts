@@ -0,0 +1,42 @@
+/**
+ * WHAT: Notification module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Single place to tune retention and live delivery
+ * - Consistent error messages
+ *
+ * HOW: Exports constants used across notification module
+ */
+
+/**
+ * WHAT: Days a notification is kept
+ *
+ * WHY: Notifications are a signal, not a record - the audit log and the
+ * leaves themselves keep the history.
+ */
+export const NOTIFICATION_RETENTION_DAYS = 90;
+
+/**
+ * WHAT: Live delivery (Server-Sent Events) settings
+ *
+ * WHY:
+ * - HEARTBEAT_MS: proxies close connections that stay silent; a comment
+ *   line every 25 seconds keeps the stream open
+ * - RETRY_MS: how long browsers wait before reconnecting
+ * - MAX_PER_USER: one stream per open tab; the oldest is closed beyond
+ *   this, so a tab reloading in a loop can't hold connections forever
+ */
+export const NOTIFICATION_STREAM = {
+  HEARTBEAT_MS: 25_000,
+  RETRY_MS: 5_000,
+  MAX_PER_USER: 5,
+} as const;
+
+/**
+ * WHAT: Error messages
+ *
+ * WHY: Consistent error messages across notification module.
+ */
+export const NOTIFICATION_ERRORS = {
+  NOT_FOUND: 'Notification not found',
+} as const;
@@ -0,0 +1,143 @@
+/**
+ * WHAT: Notification controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ * - Input validation (delegates to validation layer)
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  getNotifications,
+  getUnreadCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+} from './notification.service';
+import { openNotificationStream } from './notification.stream';
+import { ListNotificationsQuery } from './notification.validation';
+import { JWTPayload } from '../auth/auth.types';
+import { sendSuccess, sendPaginated } from '../../utils/response.util';
+
+/**
+ * WHAT: List own notifications controller
+ *
+ * WHY: Handles GET /api/notifications requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getNotificationsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const query = req.query as unknown as ListNotificationsQuery;
+
+    const result = await getNotifications(user, query);
+
+    sendPaginated(res, result.notifications, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get unread count controller
+ *
+ * WHY: Handles GET /api/notifications/unread-count requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getUnreadCountController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    const count = await getUnreadCount(user.userId);
+
+    sendSuccess(res, { count });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Notification stream controller
+ *
+ * WHY: Handles GET /api/notifications/stream requests.
+ *
+ * HOW: Express route handler. The response stays open; the stream ends
+ * when the access token expires (exp, in seconds)
+ */
+export async function streamNotificationsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload & { exp?: number };
+
+    const unreadCount = await getUnreadCount(user.userId);
+
+    openNotificationStream(user.userId, res, {
+      unreadCount,
+      expiresAt: user.exp ? new Date(user.exp * 1000) : undefined,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Mark notification read controller
+ *
+ * WHY: Handles PATCH /api/notifications/:id/read requests.
+ *
+ * HOW: Express route handler
+ */
+export async function markNotificationReadController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    const notification = await markNotificationRead(user, req.params.id);
+
+    sendSuccess(res, notification);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Mark all notifications read controller
+ *
+ * WHY: Handles PATCH /api/notifications/read-all requests.
+ *
+ * HOW: Express route handler
+ */
+export async function markAllNotificationsReadController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    const result = await markAllNotificationsRead(user);
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * WHAT: Domain event publishers
+ *
+ * WHY: Services report what happened; who needs to hear about it is
+ * decided here, in one place, rather than in every service.
+ *
+ * HOW: Each publisher resolves the recipients and calls notify(). Called
+ * after the change is saved (and its transaction committed). Like
+ * notify(), publishers never throw.
+ */
+
+import { NotificationType } from './notification.model';
+import { AccountNotificationPayload, LeaveNotificationPayload } from './notification.types';
+import { notify } from './notification.service';
+import { closeNotificationStreams } from './notification.stream';
+import { ILeaveDocument, LeaveStatus } from '../leave/leave.model';
+import { Employee, IEmployeeDocument } from '../employee/employee.model';
+import { User, IUserDocument } from '../auth/auth.model';
+import { UserRole } from '../auth/auth.types';
+
+/**
+ * WHAT: Leave details for leave notifications
+ */
+function toLeavePayload(leave: ILeaveDocument, employee: IEmployeeDocument): LeaveNotificationPayload {
+  return {
+    leaveId: leave._id.toString(),
+    employeeName: `${employee.firstName} ${employee.lastName}`,
+    leaveType: leave.leaveType,
+    startDate: leave.startDate,
+    endDate: leave.endDate,
+    numberOfDays: leave.numberOfDays,
+  };
+}
+
+/**
+ * WHAT: Account details for account notifications
+ */
+function toAccountPayload(
+  user: IUserDocument,
+  employee?: IEmployeeDocument | null,
+): AccountNotificationPayload {
+  return {
+    userId: user._id.toString(),
+    email: user.email,
+    role: user.role,
+    employeeName: employee ? `${employee.firstName} ${employee.lastName}` : undefined,
+  };
+}
+
+/**
+ * WHAT: User IDs of active accounts with a role
+ *
+ * HOW: exceptUserId leaves out whoever caused the event
+ */
+async function getActiveUserIds(role: UserRole, exceptUserId?: string): Promise<string[]> {
+  const users = await User.find({
+    role,
+    isActive: true,
+    ...(exceptUserId && { _id: { $ne: exceptUserId } }),
+  }).select('_id');
+  return users.map((user) => user._id.toString());
+}
+
+/**
+ * WHAT: User ID of an employee's active manager
+ */
+async function getManagerUserId(employee: IEmployeeDocument): Promise<string | null> {
+  if (!employee.managerId) {
+    return null;
+  }
+  const manager = await Employee.findOne({ _id: employee.managerId, isActive: true });
+  return manager ? manager.userId.toString() : null;
+}
+
+/**
+ * WHAT: Leave submitted
+ *
+ * WHY: The requester's manager reviews it. Without an active manager,
+ * HR does (they may review every leave).
+ */
+export async function publishLeaveSubmitted(
+  leave: ILeaveDocument,
+  employee: IEmployeeDocument,
+): Promise<void> {
+  try {
+    const managerUserId = await getManagerUserId(employee);
+    const recipients = managerUserId ? [managerUserId] : await getActiveUserIds(UserRole.HR);
+
+    await notify(
+      recipients.filter((id) => id !== employee.userId.toString()),
+      NotificationType.LEAVE_SUBMITTED,
+      toLeavePayload(leave, employee),
+    );
+  } catch (error) {
+    console.error('Failed to publish leave submitted event:', error);
+  }
+}
+
+/**
+ * WHAT: Leave approved or rejected
+ *
+ * WHY: The requester is waiting on the decision.
+ */
+export async function publishLeaveReviewed(
+  leave: ILeaveDocument,
+  employee: IEmployeeDocument | null,
+): Promise<void> {
+  if (!employee) {
+    return;
+  }
+
+  try {
+    const recipients = [employee.userId.toString()];
+    if (leave.status === LeaveStatus.APPROVED) {
+      await notify(recipients, NotificationType.LEAVE_APPROVED, toLeavePayload(leave, employee));
+    } else if (leave.status === LeaveStatus.REJECTED) {
+      await notify(recipients, NotificationType.LEAVE_REJECTED, {
+        ...toLeavePayload(leave, employee),
+        rejectionReason: leave.rejectionReason,
+      });
+    }
+  } catch (error) {
+    console.error('Failed to publish leave reviewed event:', error);
+  }
+}
+
+/**
+ * WHAT: HR account created
+ *
+ * WHY: HR accounts hold access to every employee's data - every admin
+ * should know when one appears, not only the one who created it.
+ */
+export async function publishHrAccountCreated(
+  user: IUserDocument,
+  actorId?: string,
+): Promise<void> {
+  try {
+    await notify(
+      await getActiveUserIds(UserRole.SUPER_ADMIN, actorId),
+      NotificationType.ACCOUNT_CREATED,
+      toAccountPayload(user),
+    );
+  } catch (error) {
+    console.error('Failed to publish account created event:', error);
+  }
+}
+
+/**
+ * WHAT: Account deactivated
+ *
+ * WHY: An employee's manager loses a report (and their leave to review);
+ * for HR accounts, the other admins are told, as with creation.
+ * The account's own live streams end at once.
+ */
+export async function publishAccountDeactivated(
+  user: IUserDocument,
+  actorId: string | undefined,
+  employee?: IEmployeeDocument | null,
+): Promise<void> {
+  closeNotificationStreams(user._id.toString());
+
+  try {
+    const recipients: string[] = [];
+    if (employee) {
+      const managerUserId = await getManagerUserId(employee);
+      if (managerUserId) {
+        recipients.push(managerUserId);
+      }
+    }
+    if (user.role === UserRole.HR) {
+      recipients.push(...(await getActiveUserIds(UserRole.SUPER_ADMIN)));
+    }
+
+    await notify(
+      recipients.filter((id) => id !== actorId),
+      NotificationType.ACCOUNT_DEACTIVATED,
+      toAccountPayload(user, employee),
+    );
+  } catch (error) {
+    console.error('Failed to publish account deactivated event:', error);
+  }
+}
@@ -0,0 +1,106 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Notification Mongoose model and schema
+ *
+ * WHY: Users had no signal when something happened to them - a leave
+ * approved, a report's leave waiting for review. One document per
+ * recipient and event backs the header bell.
+ *
+ * HOW: Written by the domain event publishers in notification.events.ts.
+ * payload holds the event's details; the client words the message.
+ * Removed after NOTIFICATION_RETENTION_DAYS by a TTL index.
+ */
+
+/**
+ * WHAT: Notification type enum
+ *
+ * WHY: Decides the payload shape (see NotificationPayloads) and how the
+ * client renders it.
+ */
+export enum NotificationType {
+  LEAVE_SUBMITTED = 'LEAVE_SUBMITTED', // WHY: To the reviewer
+  LEAVE_APPROVED = 'LEAVE_APPROVED', // WHY: To the requester
+  LEAVE_REJECTED = 'LEAVE_REJECTED', // WHY: To the requester
+  ACCOUNT_CREATED = 'ACCOUNT_CREATED', // WHY: HR account created - to the other admins
+  ACCOUNT_DEACTIVATED = 'ACCOUNT_DEACTIVATED', // WHY: To the manager, or the other admins for HR accounts
+}
+
+/**
+ * WHAT: Notification document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ *
+ * HOW: Used throughout notification module for type safety
+ */
+export interface INotificationDocument extends Document {
+  recipientId: mongoose.Types.ObjectId; // WHY: Reference to User
+  type: NotificationType;
+  payload: Record<string, unknown>;
+  readAt?: Date; // WHY: Unset while unread
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Notification schema definition
+ *
+ * WHY: Schema defines structure, validation, and indexes for notification collection.
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const notificationSchema = new Schema<INotificationDocument>(
+  {
+    recipientId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+
+    type: {
+      type: String,
+      enum: Object.values(NotificationType),
+      required: true,
+    },
+
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+
+    readAt: {
+      type: Date,
+    },
+
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false, // WHY: Keep an empty payload rather than dropping the field
+  },
+);
+
+// WHY: Own notifications, newest first
+notificationSchema.index({ recipientId: 1, createdAt: -1 });
+
+// WHY: Unread count behind the bell
+notificationSchema.index({ recipientId: 1, readAt: 1 });
+
+// WHY: MongoDB removes old notifications once expiresAt passes
+notificationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * WHAT: Notification model export
+ *
+ * WHY: Model provides database operations.
+ *
+ * HOW: Mongoose model created from schema
+ */
+export const Notification = mongoose.model<INotificationDocument>(
+  'Notification',
+  notificationSchema,
+);
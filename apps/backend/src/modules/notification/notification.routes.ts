@@ -0,0 +1,147 @@
+/**
+ * WHAT: Notification routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions
+ */
+
+import { Router } from 'express';
+import {
+  getNotificationsController,
+  getUnreadCountController,
+  streamNotificationsController,
+  markNotificationReadController,
+  markAllNotificationsReadController,
+} from './notification.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import { listNotificationsQuerySchema } from './notification.validation';
+import { idParamSchema } from '../../utils/validation.util';
+import { authenticate } from '../../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * WHY: All routes require authentication.
+ * Every user has notifications, so no permission is needed - each route
+ * only ever reaches the caller's own.
+ */
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /notifications:
+ *   get:
+ *     summary: List my notifications
+ *     description: Paginated list of the caller's notifications, newest first. Kept for 90 days.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - in: query
+ *         name: filter[read]
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *     responses:
+ *       200:
+ *         description: Paginated notification list ({ items, pagination })
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  '/',
+  validateRequest(listNotificationsQuerySchema, 'query'), // WHY: Validate query string
+  getNotificationsController,
+);
+
+/**
+ * @swagger
+ * /notifications/unread-count:
+ *   get:
+ *     summary: Get my unread count
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Unread notifications ({ count })
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/unread-count', getUnreadCountController);
+
+/**
+ * @swagger
+ * /notifications/stream:
+ *   get:
+ *     summary: Stream my notifications
+ *     description: Server-Sent Events. Sends unread-count ({ count }) on connect and whenever it changes,
+ *       and notification (the new notification) as they arrive. The stream ends when the access token
+ *       expires; reconnect with a fresh one. The token goes in the Authorization header, so browsers
+ *       read the stream with fetch rather than EventSource.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/stream', streamNotificationsController);
+
+/**
+ * @swagger
+ * /notifications/read-all:
+ *   patch:
+ *     summary: Mark all my notifications read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notifications marked read ({ updatedCount })
+ *       401:
+ *         description: Unauthorized
+ */
+router.patch('/read-all', markAllNotificationsReadController);
+
+/**
+ * @swagger
+ * /notifications/{id}/read:
+ *   patch:
+ *     summary: Mark notification read
+ *     description: Marking a read notification again keeps its first readAt.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Notification marked read
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Notification not found or not yours
+ */
+router.patch(
+  '/:id/read',
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  markNotificationReadController,
+);
+
+export default router;
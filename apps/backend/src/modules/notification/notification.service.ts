@@ -0,0 +1,168 @@
+/**
+ * WHAT: Notification service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Stores notifications and hands them to live streams; lists them and
+ * marks them read for their recipient.
+ *
+ * HOW: Every query is scoped to the caller's own notifications
+ */
+
+import mongoose, { FilterQuery } from 'mongoose';
+import { Notification, INotificationDocument, NotificationType } from './notification.model';
+import { NOTIFICATION_ERRORS, NOTIFICATION_RETENTION_DAYS } from './notification.constants';
+import { ListNotificationsQuery } from './notification.validation';
+import {
+  NotificationPayloads,
+  NotificationResponse,
+  NotificationListResult,
+} from './notification.types';
+import { hasOpenStream, pushToUser } from './notification.stream';
+import { JWTPayload } from '../auth/auth.types';
+import { createHttpError } from '../../utils/error.util';
+import { findPage } from '../../utils/query.util';
+
+/**
+ * WHAT: Map notification document to response shape
+ *
+ * WHY: Keeps response format consistent across all endpoints and the stream.
+ */
+function toNotificationResponse(notification: INotificationDocument): NotificationResponse {
+  return {
+    id: notification._id.toString(),
+    type: notification.type,
+    payload: notification.payload,
+    read: notification.readAt !== undefined,
+    readAt: notification.readAt,
+    createdAt: notification.createdAt,
+  };
+}
+
+/**
+ * WHAT: Send a user's unread count to their open streams
+ *
+ * WHY: Keeps the bell right in every open tab, whichever tab read them.
+ */
+async function pushUnreadCount(userId: string): Promise<void> {
+  if (hasOpenStream(userId)) {
+    pushToUser(userId, 'unread-count', { count: await getUnreadCount(userId) });
+  }
+}
+
+/**
+ * WHAT: Notify users
+ *
+ * WHY: Called by the domain event publishers once the change they report
+ * has been saved.
+ *
+ * HOW: One notification per distinct recipient, then pushed to their open
+ * streams. Never throws - the change already happened, so a failed
+ * notification is logged instead of turning a successful request into an
+ * error (like recordAuditLog).
+ */
+export async function notify<T extends NotificationType>(
+  recipientIds: string[],
+  type: T,
+  payload: NotificationPayloads[T],
+): Promise<void> {
+  const recipients = [...new Set(recipientIds)];
+  if (recipients.length === 0) {
+    return;
+  }
+
+  try {
+    const expiresAt = new Date(Date.now() + NOTIFICATION_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const notifications = await Notification.insertMany(
+      recipients.map((recipientId) => ({
+        recipientId: new mongoose.Types.ObjectId(recipientId),
+        type,
+        payload,
+        expiresAt,
+      })),
+    );
+
+    await Promise.all(
+      notifications.map(async (notification) => {
+        const recipientId = notification.recipientId.toString();
+        pushToUser(recipientId, 'notification', toNotificationResponse(notification));
+        await pushUnreadCount(recipientId);
+      }),
+    );
+  } catch (error) {
+    console.error(`Failed to send ${type} notification:`, error);
+  }
+}
+
+/**
+ * WHAT: Get own notifications service
+ *
+ * WHY: Backs the bell's list.
+ *
+ * HOW: filter[read] maps to whether readAt is set; newest first, paginated
+ */
+export async function getNotifications(
+  actor: JWTPayload,
+  query: ListNotificationsQuery,
+): Promise<NotificationListResult> {
+  const { read } = query.filter;
+  const filter: FilterQuery<INotificationDocument> = {
+    ...(read !== undefined && { readAt: { $exists: read } }),
+    recipientId: actor.userId, // WHY: Set last - only ever the caller's own
+  };
+
+  const { docs: notifications, pagination } = await findPage(Notification, filter, query);
+
+  return { notifications: notifications.map(toNotificationResponse), pagination };
+}
+
+/**
+ * WHAT: Get unread count service
+ */
+export async function getUnreadCount(userId: string): Promise<number> {
+  return Notification.countDocuments({ recipientId: userId, readAt: { $exists: false } });
+}
+
+/**
+ * WHAT: Mark notification read service
+ *
+ * WHY: Reading twice keeps the first readAt.
+ *
+ * HOW: 404 for other users' notifications, as if they didn't exist
+ */
+export async function markNotificationRead(
+  actor: JWTPayload,
+  id: string,
+): Promise<NotificationResponse> {
+  const notification = await Notification.findOne({ _id: id, recipientId: actor.userId });
+  if (!notification) {
+    throw createHttpError(NOTIFICATION_ERRORS.NOT_FOUND, 404);
+  }
+
+  if (!notification.readAt) {
+    notification.readAt = new Date();
+    await notification.save();
+    await pushUnreadCount(actor.userId);
+  }
+
+  return toNotificationResponse(notification);
+}
+
+/**
+ * WHAT: Mark all notifications read service
+ *
+ * HOW: Returns how many were unread
+ */
+export async function markAllNotificationsRead(
+  actor: JWTPayload,
+): Promise<{ updatedCount: number }> {
+  const result = await Notification.updateMany(
+    { recipientId: actor.userId, readAt: { $exists: false } },
+    { readAt: new Date() },
+  );
+
+  if (result.modifiedCount > 0) {
+    await pushUnreadCount(actor.userId);
+  }
+
+  return { updatedCount: result.modifiedCount };
+}
@@ -0,0 +1,142 @@
+/**
+ * WHAT: Live notification delivery over Server-Sent Events
+ *
+ * WHY: The header bell should change the moment something happens, not
+ * on the next page load. SSE is one-way, plain HTTP, and needs nothing
+ * beyond Express.
+ *
+ * HOW: Open streams are kept in memory per user. Events:
+ * - notification: a new NotificationResponse
+ * - unread-count: { count }, on connect and whenever it changes
+ * Streams are held by this process only - with several API instances,
+ * a user connected to another one gets the notification on their next
+ * list request instead.
+ */
+
+import { Response } from 'express';
+import { NOTIFICATION_STREAM } from './notification.constants';
+
+/**
+ * WHAT: One open stream
+ */
+interface NotificationStream {
+  res: Response;
+  heartbeat: NodeJS.Timeout;
+  expiry?: NodeJS.Timeout;
+}
+
+const streams = new Map<string, NotificationStream[]>();
+
+/**
+ * WHAT: Write to a stream
+ *
+ * WHY: An ended stream stays registered until its 'close' event fires;
+ * writing to it in between would be an error.
+ */
+function write(res: Response, chunk: string): void {
+  if (!res.writableEnded) {
+    res.write(chunk);
+  }
+}
+
+/**
+ * WHAT: Write one event to a stream
+ */
+function writeEvent(res: Response, event: string, data: unknown): void {
+  write(res, `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * WHAT: Forget a stream and stop its timers
+ */
+function removeStream(userId: string, stream: NotificationStream): void {
+  clearInterval(stream.heartbeat);
+  if (stream.expiry) {
+    clearTimeout(stream.expiry);
+  }
+
+  const remaining = (streams.get(userId) ?? []).filter((item) => item !== stream);
+  if (remaining.length > 0) {
+    streams.set(userId, remaining);
+  } else {
+    streams.delete(userId);
+  }
+}
+
+/**
+ * WHAT: Open a notification stream
+ *
+ * WHY: The stream is authenticated once, when it opens. It ends when the
+ * access token expires, so the client has to reconnect with a valid one -
+ * a deactivated or logged-out user stops receiving events.
+ *
+ * HOW: Sends the SSE headers, the reconnect delay and the current unread
+ * count, then keeps the response open until the client disconnects
+ */
+export function openNotificationStream(
+  userId: string,
+  res: Response,
+  options: { unreadCount: number; expiresAt?: Date },
+): void {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // WHY: Stops nginx buffering the stream
+  });
+  res.flushHeaders();
+
+  write(res, `retry: ${NOTIFICATION_STREAM.RETRY_MS}\n\n`);
+  writeEvent(res, 'unread-count', { count: options.unreadCount });
+
+  const stream: NotificationStream = {
+    res,
+    heartbeat: setInterval(() => write(res, ': heartbeat\n\n'), NOTIFICATION_STREAM.HEARTBEAT_MS),
+  };
+  if (options.expiresAt) {
+    stream.expiry = setTimeout(() => res.end(), Math.max(options.expiresAt.getTime() - Date.now(), 0));
+  }
+
+  // WHY: Oldest first. Ending it fires 'close', which removes it
+  const open = (streams.get(userId) ?? []).filter((item) => !item.res.writableEnded);
+  if (open.length >= NOTIFICATION_STREAM.MAX_PER_USER) {
+    open[0]?.res.end();
+  }
+  streams.set(userId, [...(streams.get(userId) ?? []), stream]);
+
+  res.on('close', () => removeStream(userId, stream));
+}
+
+/**
+ * WHAT: Send an event to every open stream of a user
+ *
+ * HOW: Does nothing when the user has no stream open here
+ */
+export function pushToUser(userId: string, event: string, data: unknown): void {
+  for (const stream of streams.get(userId) ?? []) {
+    writeEvent(stream.res, event, data);
+  }
+}
+
+/**
+ * WHAT: Whether a user has a stream open here
+ *
+ * WHY: Skips work (like counting unread notifications) nobody will see.
+ */
+export function hasOpenStream(userId: string): boolean {
+  return streams.has(userId);
+}
+
+/**
+ * WHAT: Close open streams
+ *
+ * WHY: A deactivated user's streams end at once, not when their token
+ * expires. Without a userId, every stream ends - server.close() waits for
+ * open connections, so shutdown would hang on them.
+ */
+export function closeNotificationStreams(userId?: string): void {
+  const targets = userId ? (streams.get(userId) ?? []) : [...streams.values()].flat();
+  for (const stream of targets) {
+    stream.res.end();
+  }
+}
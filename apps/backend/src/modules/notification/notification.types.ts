@@ -0,0 +1,71 @@
+/**
+ * WHAT: TypeScript types for Notification module
+ *
+ * WHY: Centralized type definitions ensure type safety across notification module.
+ * Response types decouple the API contract from the Mongoose document shape.
+ *
+ * HOW: Exports interfaces used in notification service, publishers and controller
+ */
+
+import { NotificationType } from './notification.model';
+import { LeaveType } from '../leave/leave.model';
+import { UserRole } from '../auth/auth.types';
+import { Pagination } from '../../utils/response.util';
+
+/**
+ * WHAT: Leave details carried by leave notifications
+ *
+ * WHY: Type aliases, not interfaces, so payloads fit the model's
+ * Record<string, unknown> (interfaces have no index signature).
+ */
+export type LeaveNotificationPayload = {
+  leaveId: string;
+  employeeName: string;
+  leaveType: LeaveType;
+  startDate: Date;
+  endDate: Date;
+  numberOfDays: number;
+};
+
+/**
+ * WHAT: Account details carried by account notifications
+ */
+export type AccountNotificationPayload = {
+  userId: string;
+  email: string;
+  role: UserRole;
+  employeeName?: string; // WHY: Accounts with an employee record
+};
+
+/**
+ * WHAT: Payload shape of each notification type
+ *
+ * WHY: Publishers can't send a payload the client doesn't expect.
+ */
+export interface NotificationPayloads {
+  [NotificationType.LEAVE_SUBMITTED]: LeaveNotificationPayload;
+  [NotificationType.LEAVE_APPROVED]: LeaveNotificationPayload;
+  [NotificationType.LEAVE_REJECTED]: LeaveNotificationPayload & { rejectionReason?: string };
+  [NotificationType.ACCOUNT_CREATED]: AccountNotificationPayload;
+  [NotificationType.ACCOUNT_DEACTIVATED]: AccountNotificationPayload;
+}
+
+/**
+ * WHAT: Notification response interface
+ */
+export interface NotificationResponse {
+  id: string;
+  type: NotificationType;
+  payload: Record<string, unknown>;
+  read: boolean;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * WHAT: Paginated notification list
+ */
+export interface NotificationListResult {
+  notifications: NotificationResponse[];
+  pagination: Pagination;
+}
@@ -0,0 +1,34 @@
+/**
+ * WHAT: Validation schemas for Notification endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating query strings
+ */
+
+import { z } from 'zod';
+import { queryBooleanSchema } from '../../utils/validation.util';
+import { createListQuerySchema } from '../../utils/query.util';
+
+/**
+ * WHAT: List notifications query validation schema
+ *
+ * WHY: Standard list query - filter[read]=false lists unread ones only.
+ */
+export const listNotificationsQuerySchema = createListQuerySchema({
+  filters: {
+    read: queryBooleanSchema,
+  },
+  sortable: ['createdAt'],
+  defaultSort: '-createdAt', // WHY: Newest first
+});
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * WHY: Type-safe query strings in controllers.
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type ListNotificationsQuery = z.infer<typeof listNotificationsQuerySchema>;
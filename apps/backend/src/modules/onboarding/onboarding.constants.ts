@@ -0,0 +1,36 @@
+/**
+ * WHAT: Onboarding module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Single place to change the checklist
+ * - Consistent error messages
+ *
+ * HOW: Exports constants used across onboarding module
+ */
+
+/**
+ * WHAT: Default onboarding checklist
+ *
+ * WHY: Every new hire goes through the same first steps. Each onboarding
+ * keeps its own copy, so changing this list never alters one in progress.
+ */
+export const ONBOARDING_TASKS = [
+  { key: 'SIGN_OFFER', title: 'Sign the offer letter' },
+  { key: 'SUBMIT_DOCUMENTS', title: 'Submit identity, tax and bank documents' },
+  { key: 'SET_UP_EQUIPMENT', title: 'Set up laptop and accounts' },
+  { key: 'ORIENTATION', title: 'Attend orientation' },
+  { key: 'MEET_MANAGER', title: 'First meeting with the manager' },
+] as const;
+
+export type OnboardingTaskKey = (typeof ONBOARDING_TASKS)[number]['key'];
+
+/**
+ * WHAT: Error messages
+ *
+ * WHY: Consistent error messages across onboarding module.
+ */
+export const ONBOARDING_ERRORS = {
+  ONBOARDING_NOT_FOUND: 'Onboarding not found',
+  TASK_NOT_FOUND: 'Onboarding has no such task',
+  CONCURRENT_UPDATE: 'Record was updated by another request. Please retry',
+} as const;
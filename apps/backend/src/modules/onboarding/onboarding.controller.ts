@@ -0,0 +1,116 @@
+/**
+ * WHAT: Onboarding controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ * - Input validation (delegates to validation layer)
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  getOnboardings,
+  getOnboarding,
+  getMyOnboarding,
+  updateOnboardingTask,
+} from './onboarding.service';
+import { TaskParams, UpdateTaskInput, ListOnboardingsQuery } from './onboarding.validation';
+import { JWTPayload } from '../auth/auth.types';
+import { sendSuccess, sendPaginated } from '../../utils/response.util';
+import { getAuditContext } from '../../utils/audit.util';
+
+/**
+ * WHAT: List onboardings controller
+ *
+ * WHY: Handles GET /api/onboarding requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getOnboardingsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = req.query as unknown as ListOnboardingsQuery;
+
+    const result = await getOnboardings(query);
+
+    sendPaginated(res, result.onboardings, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get own onboarding controller
+ *
+ * WHY: Handles GET /api/onboarding/me requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMyOnboardingController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: User is attached by authenticate middleware
+    const user = req.user as JWTPayload;
+
+    const onboarding = await getMyOnboarding(user);
+
+    sendSuccess(res, onboarding);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get onboarding controller
+ *
+ * WHY: Handles GET /api/onboarding/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getOnboardingController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const onboarding = await getOnboarding(req.params.id);
+
+    sendSuccess(res, onboarding);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Update onboarding task controller
+ *
+ * WHY: Handles PUT /api/onboarding/:id/tasks/:task requests.
+ *
+ * HOW: Express route handler
+ */
+export async function updateOnboardingTaskController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const params = req.params as unknown as TaskParams;
+    const input = req.body as UpdateTaskInput;
+
+    const onboarding = await updateOnboardingTask(user, params, input, getAuditContext(req));
+
+    sendSuccess(res, onboarding, 200, 'Onboarding task updated successfully');
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,150 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Onboarding Mongoose model and schema
+ *
+ * WHY: A new hire's first steps - signing the offer, handing in documents,
+ * getting equipment - tracked as one checklist per employee.
+ *
+ * HOW: Started with the default tasks when a hired candidate becomes an
+ * employee. The employee's name and department are copied, like
+ * performance reviews, so lists need no joins.
+ */
+
+/**
+ * WHAT: Onboarding status enum
+ */
+export enum OnboardingStatus {
+  IN_PROGRESS = 'IN_PROGRESS',
+  COMPLETED = 'COMPLETED', // WHY: Every task done
+}
+
+/**
+ * WHAT: One checklist task
+ */
+export interface IOnboardingTask {
+  key: string; // WHY: ONBOARDING_TASKS key, stable across title changes
+  title: string;
+  completedAt?: Date;
+  completedBy?: mongoose.Types.ObjectId; // WHY: Reference to User
+}
+
+/**
+ * WHAT: Onboarding document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ *
+ * HOW: Used throughout onboarding module for type safety
+ */
+export interface IOnboardingDocument extends Document {
+  employeeId: mongoose.Types.ObjectId; // WHY: Reference to Employee
+  employeeCode: string; // WHY: Employee.employeeId at start
+  employeeName: string;
+  department: string;
+  candidateId?: mongoose.Types.ObjectId; // WHY: Reference to Candidate the employee was hired as
+  tasks: IOnboardingTask[];
+  status: OnboardingStatus;
+  startedBy: mongoose.Types.ObjectId; // WHY: Reference to User
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Onboarding task schema
+ */
+const onboardingTaskSchema = new Schema<IOnboardingTask>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    completedAt: {
+      type: Date,
+    },
+    completedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  { _id: false },
+);
+
+/**
+ * WHAT: Onboarding schema definition
+ *
+ * WHY: Schema defines structure, validation, and indexes for onboarding collection.
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const onboardingSchema = new Schema<IOnboardingDocument>(
+  {
+    employeeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Employee',
+      required: true,
+      unique: true, // WHY: One onboarding per employee
+    },
+
+    employeeCode: {
+      type: String,
+      required: true,
+    },
+
+    employeeName: {
+      type: String,
+      required: true,
+    },
+
+    department: {
+      type: String,
+      required: true,
+    },
+
+    candidateId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Candidate',
+    },
+
+    tasks: {
+      type: [onboardingTaskSchema],
+      default: [],
+    },
+
+    status: {
+      type: String,
+      enum: Object.values(OnboardingStatus),
+      default: OnboardingStatus.IN_PROGRESS,
+      required: true,
+    },
+
+    startedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// WHY: HR list of onboardings still in progress, newest first
+onboardingSchema.index({ status: 1, createdAt: -1 });
+
+/**
+ * WHAT: Onboarding model export
+ *
+ * WHY: Model provides database operations.
+ *
+ * HOW: Mongoose model created from schema
+ */
+export const Onboarding = mongoose.model<IOnboardingDocument>('Onboarding', onboardingSchema);
@@ -0,0 +1,163 @@
+/**
+ * WHAT: Onboarding routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions and RBAC middleware
+ */
+
+import { Router } from 'express';
+import {
+  getOnboardingsController,
+  getMyOnboardingController,
+  getOnboardingController,
+  updateOnboardingTaskController,
+} from './onboarding.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import {
+  taskParamSchema,
+  updateTaskSchema,
+  listOnboardingsQuerySchema,
+} from './onboarding.validation';
+import { idParamSchema } from '../../utils/validation.util';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: All routes require authentication.
+ * Own onboarding is open to every role; everyone else's and task updates
+ * need employee:manage, per route.
+ */
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /onboarding:
+ *   get:
+ *     summary: List onboardings
+ *     description: Paginated list. q matches the employee's name or employee ID. Sortable by createdAt and
+ *       employeeName (default -createdAt).
+ *     tags: [Onboarding]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[status]
+ *         schema:
+ *           type: string
+ *           enum: [IN_PROGRESS, COMPLETED]
+ *     responses:
+ *       200:
+ *         description: Paginated onboarding list ({ items, pagination })
+ *       403:
+ *         description: Forbidden - requires employee:manage permission
+ */
+router.get(
+  '/',
+  requirePermission(Permission.EMPLOYEE_MANAGE),
+  validateRequest(listOnboardingsQuerySchema, 'query'), // WHY: Validate query string
+  getOnboardingsController,
+);
+
+/**
+ * @swagger
+ * /onboarding/me:
+ *   get:
+ *     summary: Get my onboarding
+ *     description: The caller's onboarding checklist.
+ *     tags: [Onboarding]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Onboarding
+ *       404:
+ *         description: No employee profile or no onboarding (not hired through recruitment)
+ */
+router.get('/me', requirePermission(Permission.PROFILE_READ), getMyOnboardingController);
+
+/**
+ * @swagger
+ * /onboarding/{id}:
+ *   get:
+ *     summary: Get onboarding
+ *     tags: [Onboarding]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Onboarding
+ *       404:
+ *         description: Onboarding not found
+ */
+router.get(
+  '/:id',
+  requirePermission(Permission.EMPLOYEE_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  getOnboardingController,
+);
+
+/**
+ * @swagger
+ * /onboarding/{id}/tasks/{task}:
+ *   put:
+ *     summary: Complete or reopen an onboarding task
+ *     description: The onboarding is COMPLETED once every task is done, and back IN_PROGRESS when a task is
+ *       reopened.
+ *     tags: [Onboarding]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: task
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [SIGN_OFFER, SUBMIT_DOCUMENTS, SET_UP_EQUIPMENT, ORIENTATION, MEET_MANAGER]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - completed
+ *             properties:
+ *               completed:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Onboarding updated
+ *       404:
+ *         description: Onboarding or task not found
+ *       409:
+ *         description: Updated concurrently - retry
+ */
+router.put(
+  '/:id/tasks/:task',
+  requirePermission(Permission.EMPLOYEE_MANAGE),
+  validateRequest(taskParamSchema, 'params'), // WHY: Validate ID format and task key
+  validateRequest(updateTaskSchema, 'body'), // WHY: Validate request body
+  updateOnboardingTaskController,
+);
+
+export default router;
@@ -0,0 +1,198 @@
+/**
+ * WHAT: Onboarding service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Recruitment starts an onboarding when it converts a hired candidate; HR
+ * ticks off its tasks, and the new employee follows along.
+ *
+ * HOW: Starting runs inside the caller's transaction. Task changes are
+ * conditional updates on the updatedAt we read, so two HR users ticking
+ * the last two tasks at once can't leave the status stale.
+ */
+
+import { ClientSession, FilterQuery } from 'mongoose';
+import {
+  Onboarding,
+  IOnboardingDocument,
+  IOnboardingTask,
+  OnboardingStatus,
+} from './onboarding.model';
+import { ONBOARDING_TASKS, ONBOARDING_ERRORS } from './onboarding.constants';
+import { TaskParams, UpdateTaskInput, ListOnboardingsQuery } from './onboarding.validation';
+import { OnboardingResponse, OnboardingListResult } from './onboarding.types';
+import { IEmployeeDocument } from '../employee/employee.model';
+import { getEmployeeDocumentByUserId } from '../employee/employee.service';
+import { JWTPayload } from '../auth/auth.types';
+import { createHttpError } from '../../utils/error.util';
+import { buildSearchFilter, findPage } from '../../utils/query.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+
+/**
+ * WHAT: Map onboarding document to response shape
+ */
+export function toOnboardingResponse(onboarding: IOnboardingDocument): OnboardingResponse {
+  return {
+    id: onboarding._id.toString(),
+    employeeId: onboarding.employeeId.toString(),
+    employeeCode: onboarding.employeeCode,
+    employeeName: onboarding.employeeName,
+    department: onboarding.department,
+    candidateId: onboarding.candidateId?.toString(),
+    tasks: onboarding.tasks.map((task) => ({
+      key: task.key,
+      title: task.title,
+      completedAt: task.completedAt,
+      completedBy: task.completedBy?.toString(),
+    })),
+    status: onboarding.status,
+    startedBy: onboarding.startedBy.toString(),
+    completedAt: onboarding.completedAt,
+    createdAt: onboarding.createdAt,
+    updatedAt: onboarding.updatedAt,
+  };
+}
+
+/**
+ * WHAT: Find onboarding or throw 404
+ */
+async function findOnboardingOrFail(id: string): Promise<IOnboardingDocument> {
+  const onboarding = await Onboarding.findById(id);
+  if (!onboarding) {
+    throw createHttpError(ONBOARDING_ERRORS.ONBOARDING_NOT_FOUND, 404);
+  }
+  return onboarding;
+}
+
+/**
+ * WHAT: Start onboarding for a new employee
+ *
+ * WHY: Called by the candidate conversion, inside its transaction - the
+ * employee and their checklist exist together or not at all.
+ *
+ * HOW: Default checklist, nothing done yet
+ */
+export async function startOnboarding(
+  actor: JWTPayload,
+  employee: IEmployeeDocument,
+  candidateId: string,
+  session: ClientSession,
+): Promise<IOnboardingDocument> {
+  // WHY: Array form of create() is required to pass a session
+  const [onboarding] = await Onboarding.create(
+    [
+      {
+        employeeId: employee._id,
+        employeeCode: employee.employeeId,
+        employeeName: `${employee.firstName} ${employee.lastName}`,
+        department: employee.department,
+        candidateId,
+        tasks: ONBOARDING_TASKS.map((task) => ({ key: task.key, title: task.title })),
+        startedBy: actor.userId,
+      },
+    ],
+    { session },
+  );
+  return onboarding;
+}
+
+/**
+ * WHAT: List onboardings service
+ *
+ * WHY: HR follows up on new hires still in progress.
+ */
+export async function getOnboardings(query: ListOnboardingsQuery): Promise<OnboardingListResult> {
+  const filter: FilterQuery<IOnboardingDocument> = {
+    ...query.filter,
+    ...buildSearchFilter<IOnboardingDocument>(query.q, ['employeeName', 'employeeCode']),
+  };
+
+  const { docs: onboardings, pagination } = await findPage(Onboarding, filter, query);
+
+  return { onboardings: onboardings.map(toOnboardingResponse), pagination };
+}
+
+/**
+ * WHAT: Get onboarding service
+ */
+export async function getOnboarding(id: string): Promise<OnboardingResponse> {
+  return toOnboardingResponse(await findOnboardingOrFail(id));
+}
+
+/**
+ * WHAT: Get own onboarding service
+ *
+ * WHY: New hires see what is still ahead of them.
+ *
+ * HOW: 404 for employees who were not hired through recruitment
+ */
+export async function getMyOnboarding(actor: JWTPayload): Promise<OnboardingResponse> {
+  const employee = await getEmployeeDocumentByUserId(actor.userId);
+  const onboarding = await Onboarding.findOne({ employeeId: employee._id });
+  if (!onboarding) {
+    throw createHttpError(ONBOARDING_ERRORS.ONBOARDING_NOT_FOUND, 404);
+  }
+  return toOnboardingResponse(onboarding);
+}
+
+/**
+ * WHAT: Update onboarding task service
+ *
+ * WHY: HR ticks off tasks as the new hire completes them. The onboarding
+ * is COMPLETED once every task is done, and back IN_PROGRESS if one is
+ * reopened.
+ *
+ * HOW: Checklist recomputed in memory, written only if nobody else wrote
+ * in between
+ */
+export async function updateOnboardingTask(
+  actor: JWTPayload,
+  params: TaskParams,
+  input: UpdateTaskInput,
+  context: AuditContext,
+): Promise<OnboardingResponse> {
+  const onboarding = await findOnboardingOrFail(params.id);
+  const before = onboarding.toObject();
+
+  if (!before.tasks.some((item: IOnboardingTask) => item.key === params.task)) {
+    throw createHttpError(ONBOARDING_ERRORS.TASK_NOT_FOUND, 404);
+  }
+
+  const now = new Date();
+  const tasks = before.tasks.map((item: IOnboardingTask) => {
+    if (item.key !== params.task) return item;
+    if (!input.completed) return { key: item.key, title: item.title };
+    // WHY: Ticking a task that is already done keeps who did it first
+    return item.completedAt ? item : { ...item, completedAt: now, completedBy: actor.userId };
+  });
+  const completed = tasks.every((item: IOnboardingTask) => item.completedAt);
+
+  const updated = await Onboarding.findOneAndUpdate(
+    { _id: onboarding._id, updatedAt: onboarding.updatedAt },
+    completed
+      ? {
+          $set: {
+            tasks,
+            status: OnboardingStatus.COMPLETED,
+            completedAt: onboarding.completedAt ?? now,
+          },
+        }
+      : { $set: { tasks, status: OnboardingStatus.IN_PROGRESS }, $unset: { completedAt: 1 } },
+    { new: true, runValidators: true },
+  );
+  if (!updated) {
+    throw createHttpError(ONBOARDING_ERRORS.CONCURRENT_UPDATE, 409);
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.UPDATE,
+    entityType: AuditEntityType.ONBOARDING,
+    entityId: updated._id.toString(),
+    before,
+    after: updated.toObject(),
+    metadata: { task: params.task, completed: input.completed },
+  });
+
+  return toOnboardingResponse(updated);
+}
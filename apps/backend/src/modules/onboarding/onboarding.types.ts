@@ -0,0 +1,47 @@
+/**
+ * WHAT: TypeScript types for Onboarding module
+ *
+ * WHY: Centralized type definitions ensure type safety across onboarding module.
+ * Response types decouple the API contract from the Mongoose document shape.
+ *
+ * HOW: Exports interfaces used in onboarding service and controller
+ */
+
+import { OnboardingStatus } from './onboarding.model';
+import { Pagination } from '../../utils/response.util';
+
+/**
+ * WHAT: Onboarding task response interface
+ */
+export interface OnboardingTaskResponse {
+  key: string;
+  title: string;
+  completedAt?: Date;
+  completedBy?: string;
+}
+
+/**
+ * WHAT: Onboarding response interface
+ */
+export interface OnboardingResponse {
+  id: string;
+  employeeId: string;
+  employeeCode: string;
+  employeeName: string;
+  department: string;
+  candidateId?: string;
+  tasks: OnboardingTaskResponse[];
+  status: OnboardingStatus;
+  startedBy: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Paginated onboarding list
+ */
+export interface OnboardingListResult {
+  onboardings: OnboardingResponse[];
+  pagination: Pagination;
+}
@@ -0,0 +1,56 @@
+/**
+ * WHAT: Validation schemas for Onboarding endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating request bodies, params and query strings
+ */
+
+import { z } from 'zod';
+import { OnboardingStatus } from './onboarding.model';
+import { ONBOARDING_TASKS, OnboardingTaskKey } from './onboarding.constants';
+import { idParamSchema } from '../../utils/validation.util';
+import { createListQuerySchema } from '../../utils/query.util';
+
+/**
+ * WHAT: Route params schema for /:id/tasks/:task routes
+ */
+export const taskParamSchema = idParamSchema.extend({
+  task: z.enum(
+    ONBOARDING_TASKS.map((task) => task.key) as [OnboardingTaskKey, ...OnboardingTaskKey[]],
+  ),
+});
+
+/**
+ * WHAT: Update onboarding task validation schema
+ *
+ * WHY: completed false reopens a task ticked by mistake.
+ */
+export const updateTaskSchema = z.object({
+  completed: z.boolean({ required_error: 'completed is required' }),
+});
+
+/**
+ * WHAT: List onboardings query validation schema
+ *
+ * WHY: Standard list query - q matches the employee's name or ID.
+ */
+export const listOnboardingsQuerySchema = createListQuerySchema({
+  filters: {
+    status: z.nativeEnum(OnboardingStatus),
+  },
+  sortable: ['createdAt', 'employeeName'],
+  defaultSort: '-createdAt', // WHY: Newest hire first
+});
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * WHY: Type-safe request bodies in controllers.
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type TaskParams = z.infer<typeof taskParamSchema>;
+export type UpdateTaskInput = z.infer<typeof updateTaskSchema>;
+export type ListOnboardingsQuery = z.infer<typeof listOnboardingsQuerySchema>;
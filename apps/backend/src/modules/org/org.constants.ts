@@ -0,0 +1,26 @@
+/**
+ * WHAT: Org module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Single place to change hierarchy limits
+ * - Consistent error messages
+ *
+ * HOW: Exports constants used across org module
+ */
+
+/**
+ * WHAT: Tree depth limits
+ *
+ * WHY: Bounds the size of reports trees and the org chart per request.
+ */
+export const DEFAULT_ORG_DEPTH = 3;
+export const MAX_ORG_DEPTH = 10;
+
+/**
+ * WHAT: Org error messages
+ */
+export const ORG_ERRORS = {
+  EMPLOYEE_NOT_FOUND: 'Employee not found',
+  PROFILE_NOT_FOUND: 'Employee profile not found for this user',
+  MANAGER_CYCLE: 'Manager assignment would create a reporting cycle',
+} as const;
@@ -0,0 +1,139 @@
+/**
+ * WHAT: Org controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ * - Input validation (delegates to validation layer)
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  getOrgChart,
+  getReportingChain,
+  getReportsTree,
+  getMyReportingChain,
+  getMyReportsTree,
+} from './org.service';
+import { TreeDepthQuery } from './org.validation';
+import { JWTPayload } from '../auth/auth.types';
+import { sendSuccess } from '../../utils/response.util';
+
+/**
+ * WHAT: Get org chart controller
+ *
+ * WHY: Handles GET /api/org/chart requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getOrgChartController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: Query is validated and coerced by validation middleware
+    const { depth } = req.query as unknown as TreeDepthQuery;
+
+    const chart = await getOrgChart(depth);
+
+    sendSuccess(res, chart);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get own reporting chain controller
+ *
+ * WHY: Handles GET /api/org/me/chain requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMyReportingChainController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: User is attached by authenticate middleware
+    const user = req.user as JWTPayload;
+
+    const chain = await getMyReportingChain(user.userId);
+
+    sendSuccess(res, chain);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get own reports tree controller
+ *
+ * WHY: Handles GET /api/org/me/reports requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMyReportsTreeController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const { depth } = req.query as unknown as TreeDepthQuery;
+
+    const tree = await getMyReportsTree(user.userId, depth);
+
+    sendSuccess(res, tree);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get reporting chain controller
+ *
+ * WHY: Handles GET /api/org/employees/:id/chain requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getReportingChainController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const chain = await getReportingChain(req.params.id);
+
+    sendSuccess(res, chain);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get reports tree controller
+ *
+ * WHY: Handles GET /api/org/employees/:id/reports requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getReportsTreeController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const { depth } = req.query as unknown as TreeDepthQuery;
+
+    const tree = await getReportsTree(req.params.id, depth);
+
+    sendSuccess(res, tree);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * WHAT: Org routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions and RBAC middleware
+ */
+
+import { Router } from 'express';
+import {
+  getOrgChartController,
+  getMyReportingChainController,
+  getMyReportsTreeController,
+  getReportingChainController,
+  getReportsTreeController,
+} from './org.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import { treeDepthQuerySchema } from './org.validation';
+import { idParamSchema } from '../../utils/validation.util';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: The org chart is company directory information - every role can
+ * see it. Hierarchy responses carry names and titles only, no salary.
+ */
+router.use(authenticate);
+router.use(requirePermission(Permission.ORG_READ));
+
+/**
+ * @swagger
+ * /org/chart:
+ *   get:
+ *     summary: Get org chart
+ *     description: Active employees as a forest of trees. Roots are employees without an (active) manager.
+ *     tags: [Organisation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: depth
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 10
+ *           default: 3
+ *         description: Levels returned below each root
+ *     responses:
+ *       200:
+ *         description: List of root nodes, each with nested reports and directReportCount
+ */
+router.get(
+  '/chart',
+  validateRequest(treeDepthQuerySchema, 'query'), // WHY: Validate query string
+  getOrgChartController,
+);
+
+/**
+ * @swagger
+ * /org/me/chain:
+ *   get:
+ *     summary: Get my reporting chain
+ *     description: Managers above the logged-in employee, direct manager first, up to the top.
+ *     tags: [Organisation]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Employee and chain of managers
+ *       404:
+ *         description: No employee profile for this user
+ */
+router.get('/me/chain', getMyReportingChainController);
+
+/**
+ * @swagger
+ * /org/me/reports:
+ *   get:
+ *     summary: Get my reports tree
+ *     description: Direct and indirect active reports of the logged-in employee.
+ *     tags: [Organisation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: depth
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 10
+ *           default: 3
+ *     responses:
+ *       200:
+ *         description: Tree rooted at the logged-in employee
+ *       404:
+ *         description: No employee profile for this user
+ */
+router.get(
+  '/me/reports',
+  validateRequest(treeDepthQuerySchema, 'query'),
+  getMyReportsTreeController,
+);
+
+/**
+ * @swagger
+ * /org/employees/{id}/chain:
+ *   get:
+ *     summary: Get reporting chain
+ *     description: Managers above an employee, direct manager first, up to the top.
+ *     tags: [Organisation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Employee and chain of managers
+ *       404:
+ *         description: Employee not found
+ */
+router.get(
+  '/employees/:id/chain',
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  getReportingChainController,
+);
+
+/**
+ * @swagger
+ * /org/employees/{id}/reports:
+ *   get:
+ *     summary: Get reports tree
+ *     description: Direct and indirect active reports of an employee.
+ *     tags: [Organisation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: depth
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 10
+ *           default: 3
+ *     responses:
+ *       200:
+ *         description: Tree rooted at the employee
+ *       404:
+ *         description: Employee not found
+ */
+router.get(
+  '/employees/:id/reports',
+  validateRequest(idParamSchema, 'params'),
+  validateRequest(treeDepthQuerySchema, 'query'),
+  getReportsTreeController,
+);
+
+export default router;
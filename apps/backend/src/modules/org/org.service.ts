@@ -0,0 +1,236 @@
+/**
+ * WHAT: Org service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Walks the Employee.managerId self-reference: reporting chains, reports
+ * trees and the org chart, plus the cycle check used on manager changes.
+ *
+ * HOW: Uses MongoDB $graphLookup so each walk is a single query,
+ * and $graphLookup tracks visited documents so bad data can't loop forever.
+ */
+
+import mongoose from 'mongoose';
+import { Employee, IEmployeeDocument } from '../employee/employee.model';
+import { OrgEmployeeSummary, OrgNode, ReportingChainResponse } from './org.types';
+import { ORG_ERRORS } from './org.constants';
+import { createHttpError } from '../../utils/error.util';
+
+/**
+ * WHAT: Employee fields returned by aggregation
+ *
+ * WHY: Aggregation returns plain objects, not documents.
+ */
+type EmployeeRow = Pick<
+  IEmployeeDocument,
+  'employeeId' | 'firstName' | 'lastName' | 'designation' | 'department' | 'managerId' | 'isActive'
+> & { _id: mongoose.Types.ObjectId; level?: number };
+
+/**
+ * WHAT: Map employee to hierarchy summary
+ */
+function toOrgEmployeeSummary(employee: EmployeeRow | IEmployeeDocument): OrgEmployeeSummary {
+  return {
+    id: employee._id.toString(),
+    employeeId: employee.employeeId,
+    firstName: employee.firstName,
+    lastName: employee.lastName,
+    designation: employee.designation,
+    department: employee.department,
+    managerId: employee.managerId?.toString(),
+    isActive: employee.isActive,
+  };
+}
+
+/**
+ * WHAT: Find employee or throw 404
+ */
+async function findEmployeeOrFail(id: string): Promise<IEmployeeDocument> {
+  const employee = await Employee.findById(id);
+  if (!employee) {
+    throw createHttpError(ORG_ERRORS.EMPLOYEE_NOT_FOUND, 404);
+  }
+  return employee;
+}
+
+/**
+ * WHAT: Find the caller's employee record or throw 404
+ *
+ * WHY: Kept local rather than importing employee.service, which imports
+ * this module for the cycle check.
+ */
+async function findEmployeeByUserIdOrFail(userId: string): Promise<IEmployeeDocument> {
+  const employee = await Employee.findOne({ userId });
+  if (!employee) {
+    throw createHttpError(ORG_ERRORS.PROFILE_NOT_FOUND, 404);
+  }
+  return employee;
+}
+
+/**
+ * WHAT: Load managers above an employee, nearest first
+ *
+ * HOW: $graphLookup from managerId up through _id
+ */
+async function findManagersAbove(employeeId: mongoose.Types.ObjectId): Promise<EmployeeRow[]> {
+  const [result] = await Employee.aggregate<{ chain: EmployeeRow[] }>([
+    { $match: { _id: employeeId } },
+    {
+      $graphLookup: {
+        from: Employee.collection.name,
+        startWith: '$managerId',
+        connectFromField: 'managerId',
+        connectToField: '_id',
+        as: 'chain',
+        depthField: 'level',
+      },
+    },
+  ]);
+
+  return (result?.chain ?? []).sort((a, b) => (a.level ?? 0) - (b.level ?? 0));
+}
+
+/**
+ * WHAT: Ensure a manager assignment doesn't create a reporting cycle
+ *
+ * WHY: A cycle (A reports to B, B reports to A) breaks the reporting chain,
+ * org chart and anything that walks up to "the top". Called on every
+ * employee create and update that sets a manager.
+ *
+ * HOW: Walks up from the proposed manager. Rejects if the chain reaches
+ * the employee being updated, or the manager itself (existing bad data).
+ */
+export async function assertNoManagerCycle(
+  managerId: string,
+  employeeId?: string,
+): Promise<void> {
+  const managers = await findManagersAbove(new mongoose.Types.ObjectId(managerId));
+  const managerIds = managers.map((manager) => manager._id.toString());
+
+  if (managerIds.includes(managerId) || (employeeId && managerIds.includes(employeeId))) {
+    throw createHttpError(ORG_ERRORS.MANAGER_CYCLE, 400);
+  }
+}
+
+/**
+ * WHAT: Get reporting chain service
+ *
+ * WHY: Shows who an employee reports to, all the way to the top.
+ */
+export async function getReportingChain(id: string): Promise<ReportingChainResponse> {
+  const employee = await findEmployeeOrFail(id);
+  const managers = await findManagersAbove(employee._id);
+
+  return {
+    employee: toOrgEmployeeSummary(employee),
+    chain: managers.map(toOrgEmployeeSummary),
+  };
+}
+
+/**
+ * WHAT: Load trees below one or more roots
+ *
+ * WHY: Shared by reports tree (one root) and org chart (all top-level employees).
+ *
+ * HOW: One $graphLookup per root down through managerId, limited to active
+ * employees. One level beyond `depth` is loaded only to count the direct
+ * reports of the deepest returned nodes.
+ */
+async function buildTrees(
+  rootFilter: Record<string, unknown>,
+  depth: number,
+): Promise<OrgNode[]> {
+  const roots = await Employee.aggregate<EmployeeRow & { descendants: EmployeeRow[] }>([
+    { $match: rootFilter },
+    { $sort: { firstName: 1, lastName: 1 } },
+    {
+      $graphLookup: {
+        from: Employee.collection.name,
+        startWith: '$_id',
+        connectFromField: '_id',
+        connectToField: 'managerId',
+        as: 'descendants',
+        // WHY: maxDepth is 0-based - depth levels plus one for counting
+        maxDepth: depth,
+        depthField: 'level',
+        restrictSearchWithMatch: { isActive: true },
+      },
+    },
+  ]);
+
+  return roots.map((root) => {
+    const childrenByManager = new Map<string, EmployeeRow[]>();
+    for (const descendant of root.descendants) {
+      const key = descendant.managerId?.toString() ?? '';
+      childrenByManager.set(key, [...(childrenByManager.get(key) ?? []), descendant]);
+    }
+
+    const toNode = (employee: EmployeeRow, level: number): OrgNode => {
+      const children = (childrenByManager.get(employee._id.toString()) ?? []).sort((a, b) =>
+        `${a.firstName} ${a.lastName}`.localeCompare(`${b.firstName} ${b.lastName}`),
+      );
+
+      return {
+        ...toOrgEmployeeSummary(employee),
+        directReportCount: children.length,
+        reports: level < depth ? children.map((child) => toNode(child, level + 1)) : [],
+      };
+    };
+
+    return toNode(root, 0);
+  });
+}
+
+/**
+ * WHAT: Get reports tree service
+ *
+ * WHY: Direct and indirect reports of an employee, as a tree.
+ */
+export async function getReportsTree(id: string, depth: number): Promise<OrgNode> {
+  const employee = await findEmployeeOrFail(id);
+  const [tree] = await buildTrees({ _id: employee._id }, depth);
+
+  return tree;
+}
+
+/**
+ * WHAT: Get org chart service
+ *
+ * WHY: Whole organisation as a forest of trees.
+ * Roots are active employees without a manager, or whose manager is
+ * inactive - otherwise their team would disappear from the chart.
+ */
+export async function getOrgChart(depth: number): Promise<OrgNode[]> {
+  const inactiveIds = await Employee.find({ isActive: false }).distinct('_id');
+
+  return buildTrees(
+    {
+      isActive: true,
+      $or: [
+        { managerId: { $exists: false } },
+        { managerId: null },
+        { managerId: { $in: inactiveIds } },
+      ],
+    },
+    depth,
+  );
+}
+
+/**
+ * WHAT: Get own reporting chain service
+ *
+ * WHY: Self-service - the JWT only carries userId.
+ */
+export async function getMyReportingChain(userId: string): Promise<ReportingChainResponse> {
+  const employee = await findEmployeeByUserIdOrFail(userId);
+  return getReportingChain(employee._id.toString());
+}
+
+/**
+ * WHAT: Get own reports tree service
+ *
+ * WHY: Managers see their team without knowing their employee ID.
+ */
+export async function getMyReportsTree(userId: string, depth: number): Promise<OrgNode> {
+  const employee = await findEmployeeByUserIdOrFail(userId);
+  return getReportsTree(employee._id.toString(), depth);
+}
@@ -0,0 +1,45 @@
+/**
+ * WHAT: TypeScript types for Org module
+ *
+ * WHY: Centralized type definitions ensure type safety across org module.
+ *
+ * HOW: Exports interfaces used in org service and controller
+ */
+
+/**
+ * WHAT: Employee summary used in hierarchy responses
+ *
+ * WHY: Hierarchy views only need identity and position - no salary,
+ * contact details or other profile data, so any employee may see them.
+ */
+export interface OrgEmployeeSummary {
+  id: string;
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  designation: string;
+  department: string;
+  managerId?: string;
+  isActive: boolean;
+}
+
+/**
+ * WHAT: Reporting chain response
+ *
+ * WHY: chain[0] is the direct manager, the last entry is the top of the org.
+ */
+export interface ReportingChainResponse {
+  employee: OrgEmployeeSummary;
+  chain: OrgEmployeeSummary[];
+}
+
+/**
+ * WHAT: Node in a reports tree / org chart
+ *
+ * WHY: directReportCount is always accurate, even when the depth limit
+ * cut the reports off - so the UI can show "+N" and load more.
+ */
+export interface OrgNode extends OrgEmployeeSummary {
+  directReportCount: number;
+  reports: OrgNode[];
+}
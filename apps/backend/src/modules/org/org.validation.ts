@@ -0,0 +1,28 @@
+/**
+ * WHAT: Validation schemas for Org endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating query strings
+ */
+
+import { z } from 'zod';
+import { MAX_ORG_DEPTH, DEFAULT_ORG_DEPTH } from './org.constants';
+
+/**
+ * WHAT: Tree depth query schema
+ *
+ * WHY: Trees can be large; depth limits how many levels below the
+ * root(s) are returned (1 = direct reports only).
+ */
+export const treeDepthQuerySchema = z.object({
+  depth: z.coerce.number().int().min(1).max(MAX_ORG_DEPTH).default(DEFAULT_ORG_DEPTH),
+});
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type TreeDepthQuery = z.infer<typeof treeDepthQuerySchema>;
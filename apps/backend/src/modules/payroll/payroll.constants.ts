@@ -0,0 +1,35 @@
+/**
+ * WHAT: Payroll module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Consistent error messages
+ * - Single place to change structure limits
+ *
+ * HOW: Exports constants used across payroll module
+ */
+
+/**
+ * WHAT: Salary structure limits
+ *
+ * WHY: Keeps payslips readable and request bodies small.
+ */
+export const SALARY_STRUCTURE_LIMITS = {
+  MAX_COMPONENTS: 20, // WHY: Per list - allowances and deductions each
+} as const;
+
+/**
+ * WHAT: Payroll error messages
+ *
+ * WHY: Consistent messages across service functions.
+ */
+export const PAYROLL_ERRORS = {
+  EMPLOYEE_NOT_FOUND: 'Employee not found or inactive',
+  STRUCTURE_NOT_FOUND: 'Salary structure not found',
+  STRUCTURE_EXISTS: 'Employee already has a salary structure effective from this month',
+  STRUCTURE_IN_FINALISED_PERIOD: 'Payroll is finalised for this month - salary changes must take effect from a later month',
+  RUN_NOT_FOUND: 'Payroll run not found',
+  RUN_FINALISED: 'Payroll run is finalised and can no longer change',
+  FUTURE_PERIOD: 'Payroll cannot be run for a future month',
+  EMPTY_RUN: 'Payroll run has no payslips - add salary structures and recompute first',
+  PAYSLIP_NOT_FOUND: 'Payslip not found',
+} as const;
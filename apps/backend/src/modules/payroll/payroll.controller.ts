@@ -0,0 +1,323 @@
+/**
+ * WHAT: Payroll controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ * - Input validation (delegates to validation layer)
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  createSalaryStructure,
+  getSalaryStructures,
+  deleteSalaryStructure,
+} from './salary-structure.service';
+import {
+  runPayroll,
+  getPayrollRuns,
+  getPayrollRun,
+  finalisePayrollRun,
+} from './payroll.service';
+import {
+  getRunPayslips,
+  getMyPayslips,
+  getMyPayslipPdf,
+  getPayslipPdf,
+  exportRunPayslips,
+} from './payslip.service';
+import {
+  CreateSalaryStructureInput,
+  ListSalaryStructuresQuery,
+  RunPayrollInput,
+  ListPayrollRunsQuery,
+  ListPayslipsQuery,
+  ListMyPayslipsQuery,
+} from './payroll.validation';
+import { JWTPayload } from '../auth/auth.types';
+import { sendSuccess, sendPaginated, sendExport } from '../../utils/response.util';
+import { getAuditContext } from '../../utils/audit.util';
+
+/**
+ * WHAT: Create salary structure controller
+ *
+ * WHY: Handles POST /api/payroll/salary-structures requests.
+ *
+ * HOW: Express route handler
+ */
+export async function createSalaryStructureController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: User is attached by authenticate middleware
+    const user = req.user as JWTPayload;
+    const input = req.body as CreateSalaryStructureInput;
+
+    const structure = await createSalaryStructure(user, input, getAuditContext(req));
+
+    // WHY: 201 Created for resource creation
+    sendSuccess(res, structure, 201, 'Salary structure created successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List salary structures controller
+ *
+ * WHY: Handles GET /api/payroll/salary-structures requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getSalaryStructuresController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: Query is validated and coerced by validation middleware
+    const query = req.query as unknown as ListSalaryStructuresQuery;
+
+    const result = await getSalaryStructures(query);
+
+    sendPaginated(res, result.structures, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Delete salary structure controller
+ *
+ * WHY: Handles DELETE /api/payroll/salary-structures/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function deleteSalaryStructureController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    await deleteSalaryStructure(req.params.id, getAuditContext(req));
+
+    sendSuccess(res, { message: 'Salary structure deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Run payroll controller
+ *
+ * WHY: Handles POST /api/payroll/runs requests.
+ * 201 when the period is run for the first time, 200 when a draft is recomputed.
+ *
+ * HOW: Express route handler
+ */
+export async function runPayrollController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as RunPayrollInput;
+
+    const { run, created } = await runPayroll(user, input, getAuditContext(req));
+
+    sendSuccess(
+      res,
+      run,
+      created ? 201 : 200,
+      created ? 'Payroll run created successfully' : 'Payroll run recomputed successfully',
+    );
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List payroll runs controller
+ *
+ * WHY: Handles GET /api/payroll/runs requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getPayrollRunsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = req.query as unknown as ListPayrollRunsQuery;
+
+    const result = await getPayrollRuns(query);
+
+    sendPaginated(res, result.runs, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get payroll run controller
+ *
+ * WHY: Handles GET /api/payroll/runs/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getPayrollRunController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const run = await getPayrollRun(req.params.id);
+
+    sendSuccess(res, run);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List run payslips controller
+ *
+ * WHY: Handles GET /api/payroll/runs/:id/payslips requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getRunPayslipsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = req.query as unknown as ListPayslipsQuery;
+
+    const result = await getRunPayslips(req.params.id, query);
+
+    sendPaginated(res, result.payslips, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Finalise payroll run controller
+ *
+ * WHY: Handles POST /api/payroll/runs/:id/finalise requests.
+ *
+ * HOW: Express route handler
+ */
+export async function finalisePayrollRunController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    const run = await finalisePayrollRun(user, req.params.id, getAuditContext(req));
+
+    sendSuccess(res, run, 200, 'Payroll run finalised successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Download run payslips controller
+ *
+ * WHY: Handles GET /api/payroll/runs/:id/payslips/download requests.
+ * Streams every payslip of the run as PDFs in a zip.
+ *
+ * HOW: Express route handler
+ */
+export async function exportRunPayslipsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const file = await exportRunPayslips(req.params.id, getAuditContext(req));
+
+    await sendExport(res, file);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Payslip PDF controller
+ *
+ * WHY: Handles GET /api/payroll/payslips/:id/pdf requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getPayslipPdfController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const file = await getPayslipPdf(req.params.id);
+
+    await sendExport(res, file);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List own payslips controller
+ *
+ * WHY: Handles GET /api/payroll/payslips/me requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMyPayslipsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const query = req.query as unknown as ListMyPayslipsQuery;
+
+    const result = await getMyPayslips(user.userId, query);
+
+    sendPaginated(res, result.payslips, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Own payslip PDF controller
+ *
+ * WHY: Handles GET /api/payroll/payslips/me/:id/pdf requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMyPayslipPdfController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    const file = await getMyPayslipPdf(user.userId, req.params.id);
+
+    await sendExport(res, file);
+  } catch (error) {
+    next(error);
+  }
+}
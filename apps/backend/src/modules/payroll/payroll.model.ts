@@ -0,0 +1,153 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Payroll run Mongoose model and schema
+ *
+ * WHY: A run is one month's payroll for the whole company. Its payslips
+ * can be recomputed while it is a draft and are frozen once it is finalised.
+ *
+ * HOW: One run per period; payslips reference it (see payslip.model.ts)
+ */
+
+/**
+ * WHAT: Payroll run status enum
+ *
+ * WHY: DRAFT runs can be recomputed any number of times; FINALISED is final.
+ */
+export enum PayrollRunStatus {
+  DRAFT = 'DRAFT',
+  FINALISED = 'FINALISED',
+}
+
+/**
+ * WHAT: Why an employee got no payslip
+ */
+export enum PayrollSkipReason {
+  NO_SALARY_STRUCTURE = 'NO_SALARY_STRUCTURE',
+}
+
+/**
+ * WHAT: Employee left out of a run
+ *
+ * WHY: Shown on the run so HR can fix the data and recompute before finalising.
+ */
+export interface IPayrollSkippedEmployee {
+  employeeId: mongoose.Types.ObjectId; // WHY: Reference to Employee
+  employeeCode: string;
+  employeeName: string;
+  reason: PayrollSkipReason;
+}
+
+/**
+ * WHAT: Payroll run document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ *
+ * HOW: Used throughout payroll module for type safety
+ */
+export interface IPayrollRunDocument extends Document {
+  period: string; // WHY: YYYY-MM
+  status: PayrollRunStatus;
+  employeeCount: number; // WHY: Number of payslips
+  totalGross: number;
+  totalDeductions: number;
+  totalNet: number;
+  skipped: IPayrollSkippedEmployee[];
+  computedAt: Date;
+  computedBy: mongoose.Types.ObjectId; // WHY: Reference to User who last (re)computed
+  finalisedAt?: Date;
+  finalisedBy?: mongoose.Types.ObjectId; // WHY: Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Payroll run schema definition
+ *
+ * WHY: Schema defines structure, validation, and indexes for payroll run collection.
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const payrollRunSchema = new Schema<IPayrollRunDocument>(
+  {
+    period: {
+      type: String,
+      required: [true, 'Payroll period is required'],
+      match: [/^\d{4}-(0[1-9]|1[0-2])$/, 'Payroll period must be YYYY-MM'],
+      unique: true, // WHY: Re-running a period updates its run instead of adding one
+    },
+
+    status: {
+      type: String,
+      enum: Object.values(PayrollRunStatus),
+      default: PayrollRunStatus.DRAFT,
+      required: true,
+      index: true,
+    },
+
+    employeeCount: {
+      type: Number,
+      default: 0,
+    },
+
+    totalGross: {
+      type: Number,
+      default: 0,
+    },
+
+    totalDeductions: {
+      type: Number,
+      default: 0,
+    },
+
+    totalNet: {
+      type: Number,
+      default: 0,
+    },
+
+    skipped: {
+      type: [
+        {
+          _id: false,
+          employeeId: { type: Schema.Types.ObjectId, ref: 'Employee', required: true },
+          employeeCode: { type: String, required: true },
+          employeeName: { type: String, required: true },
+          reason: { type: String, enum: Object.values(PayrollSkipReason), required: true },
+        },
+      ],
+      default: [],
+    },
+
+    computedAt: {
+      type: Date,
+      required: true,
+    },
+
+    computedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+
+    finalisedAt: {
+      type: Date,
+    },
+
+    finalisedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+/**
+ * WHAT: Payroll run model export
+ *
+ * WHY: Model provides database operations.
+ *
+ * HOW: Mongoose model created from schema
+ */
+export const PayrollRun = mongoose.model<IPayrollRunDocument>('PayrollRun', payrollRunSchema);
@@ -0,0 +1,496 @@
+/**
+ * WHAT: Payroll routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions and RBAC middleware
+ */
+
+import { Router } from 'express';
+import {
+  createSalaryStructureController,
+  getSalaryStructuresController,
+  deleteSalaryStructureController,
+  runPayrollController,
+  getPayrollRunsController,
+  getPayrollRunController,
+  getRunPayslipsController,
+  finalisePayrollRunController,
+  exportRunPayslipsController,
+  getPayslipPdfController,
+  getMyPayslipsController,
+  getMyPayslipPdfController,
+} from './payroll.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import {
+  createSalaryStructureSchema,
+  listSalaryStructuresQuerySchema,
+  runPayrollSchema,
+  listPayrollRunsQuerySchema,
+  listPayslipsQuerySchema,
+  listMyPayslipsQuerySchema,
+} from './payroll.validation';
+import { idParamSchema } from '../../utils/validation.util';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: All payroll routes require authentication.
+ * Pay data is for HR/finance only - every route needs payroll:manage,
+ * except employees reading their own payslips (payslip:read).
+ */
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /payroll/salary-structures:
+ *   post:
+ *     summary: Create salary structure
+ *     description: Sets an employee's monthly pay from a given month. A pay change is a new structure;
+ *       structures are never edited. Refused for a month already covered by a finalised payroll run.
+ *     tags: [Payroll]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - employeeId
+ *               - effectiveFrom
+ *               - basic
+ *             properties:
+ *               employeeId:
+ *                 type: string
+ *                 description: Employee document ID
+ *               effectiveFrom:
+ *                 type: string
+ *                 example: 2026-04
+ *                 description: First payroll month (YYYY-MM) the structure applies to
+ *               basic:
+ *                 type: number
+ *                 example: 50000
+ *               allowances:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                       example: Housing
+ *                     amount:
+ *                       type: number
+ *                       example: 20000
+ *               deductions:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                       example: Provident fund
+ *                     amount:
+ *                       type: number
+ *                       example: 6000
+ *     responses:
+ *       201:
+ *         description: Salary structure created
+ *       400:
+ *         description: Validation error, or employee not found or inactive
+ *       403:
+ *         description: Forbidden - requires payroll:manage permission
+ *       409:
+ *         description: A structure already starts that month, or the month is finalised
+ */
+router.post(
+  '/salary-structures',
+  requirePermission(Permission.PAYROLL_MANAGE),
+  validateRequest(createSalaryStructureSchema, 'body'), // WHY: Validate request body
+  createSalaryStructureController,
+);
+
+/**
+ * @swagger
+ * /payroll/salary-structures:
+ *   get:
+ *     summary: List salary structures
+ *     description: Paginated list of salary structures. filter[employeeId] gives one employee's pay history.
+ *       Sortable by effectiveFrom and createdAt (default -effectiveFrom).
+ *     tags: [Payroll]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - in: query
+ *         name: filter[employeeId]
+ *         schema:
+ *           type: string
+ *         description: Employee document ID
+ *       - in: query
+ *         name: filter[effectiveFrom]
+ *         schema:
+ *           type: string
+ *         description: YYYY-MM
+ *     responses:
+ *       200:
+ *         description: Paginated salary structure list ({ items, pagination })
+ *       403:
+ *         description: Forbidden - requires payroll:manage permission
+ */
+router.get(
+  '/salary-structures',
+  requirePermission(Permission.PAYROLL_MANAGE),
+  validateRequest(listSalaryStructuresQuerySchema, 'query'), // WHY: Validate query string
+  getSalaryStructuresController,
+);
+
+/**
+ * @swagger
+ * /payroll/salary-structures/{id}:
+ *   delete:
+ *     summary: Delete salary structure
+ *     description: Removes a structure entered by mistake. Refused once a finalised payroll run covers its month.
+ *     tags: [Payroll]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Salary structure deleted
+ *       404:
+ *         description: Salary structure not found
+ *       409:
+ *         description: Month is covered by a finalised payroll run
+ */
+router.delete(
+  '/salary-structures/:id',
+  requirePermission(Permission.PAYROLL_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  deleteSalaryStructureController,
+);
+
+/**
+ * @swagger
+ * /payroll/runs:
+ *   post:
+ *     summary: Run payroll
+ *     description: Computes the payroll of a month for every active employee with a salary structure.
+ *       Running a draft period again recomputes it from current data and replaces its payslips.
+ *       Employees without a structure are listed in skipped.
+ *     tags: [Payroll]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - period
+ *             properties:
+ *               period:
+ *                 type: string
+ *                 example: 2026-04
+ *                 description: Payroll month (YYYY-MM), not later than the current month
+ *     responses:
+ *       201:
+ *         description: Payroll run created
+ *       200:
+ *         description: Draft payroll run recomputed
+ *       400:
+ *         description: Validation error or future month
+ *       409:
+ *         description: Payroll run for this month is finalised
+ */
+router.post(
+  '/runs',
+  requirePermission(Permission.PAYROLL_MANAGE),
+  validateRequest(runPayrollSchema, 'body'), // WHY: Validate request body
+  runPayrollController,
+);
+
+/**
+ * @swagger
+ * /payroll/runs:
+ *   get:
+ *     summary: List payroll runs
+ *     description: Paginated list of payroll runs with their totals. Sortable by period and createdAt (default -period).
+ *     tags: [Payroll]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - in: query
+ *         name: filter[status]
+ *         schema:
+ *           type: string
+ *           enum: [DRAFT, FINALISED]
+ *     responses:
+ *       200:
+ *         description: Paginated payroll run list ({ items, pagination })
+ *       403:
+ *         description: Forbidden - requires payroll:manage permission
+ */
+router.get(
+  '/runs',
+  requirePermission(Permission.PAYROLL_MANAGE),
+  validateRequest(listPayrollRunsQuerySchema, 'query'), // WHY: Validate query string
+  getPayrollRunsController,
+);
+
+/**
+ * @swagger
+ * /payroll/runs/{id}:
+ *   get:
+ *     summary: Get payroll run
+ *     description: Returns a payroll run with its totals and skipped employees.
+ *     tags: [Payroll]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payroll run
+ *       404:
+ *         description: Payroll run not found
+ */
+router.get(
+  '/runs/:id',
+  requirePermission(Permission.PAYROLL_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  getPayrollRunController,
+);
+
+/**
+ * @swagger
+ * /payroll/runs/{id}/payslips:
+ *   get:
+ *     summary: List payslips of a payroll run
+ *     description: Paginated payslips of a run. q matches employee name or employee ID.
+ *       Sortable by employeeCode, employeeName, gross and net (default employeeCode).
+ *     tags: [Payroll]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[department]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filter[employeeId]
+ *         schema:
+ *           type: string
+ *         description: Employee document ID
+ *     responses:
+ *       200:
+ *         description: Paginated payslip list ({ items, pagination })
+ *       404:
+ *         description: Payroll run not found
+ */
+router.get(
+  '/runs/:id/payslips',
+  requirePermission(Permission.PAYROLL_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(listPayslipsQuerySchema, 'query'), // WHY: Validate query string
+  getRunPayslipsController,
+);
+
+/**
+ * @swagger
+ * /payroll/runs/{id}/payslips/download:
+ *   get:
+ *     summary: Download payslips of a payroll run
+ *     description: Zip with one PDF payslip per employee (payslip-YYYY-MM-EMPLOYEEID.pdf).
+ *       Payslips of a draft run are marked as draft. Recorded in the audit log.
+ *     tags: [Payroll]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Zip file download
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Run has no payslips
+ *       404:
+ *         description: Payroll run not found
+ */
+router.get(
+  '/runs/:id/payslips/download',
+  requirePermission(Permission.PAYROLL_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  exportRunPayslipsController,
+);
+
+/**
+ * @swagger
+ * /payroll/runs/{id}/finalise:
+ *   post:
+ *     summary: Finalise payroll run
+ *     description: Locks a draft run. Its payslips no longer change, the month can't be re-run and
+ *       salary structures can't take effect in it any more.
+ *     tags: [Payroll]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payroll run finalised
+ *       400:
+ *         description: Run has no payslips
+ *       404:
+ *         description: Payroll run not found
+ *       409:
+ *         description: Payroll run is already finalised
+ */
+router.post(
+  '/runs/:id/finalise',
+  requirePermission(Permission.PAYROLL_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  finalisePayrollRunController,
+);
+
+/**
+ * @swagger
+ * /payroll/payslips/me:
+ *   get:
+ *     summary: List own payslips
+ *     description: The caller's payslips from finalised payroll runs, latest month first.
+ *     tags: [Payroll]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - in: query
+ *         name: filter[period]
+ *         schema:
+ *           type: string
+ *         description: YYYY-MM
+ *     responses:
+ *       200:
+ *         description: Paginated payslip list ({ items, pagination })
+ *       403:
+ *         description: Forbidden - requires payslip:read permission
+ *       404:
+ *         description: Employee profile not found
+ */
+router.get(
+  '/payslips/me',
+  requirePermission(Permission.PAYSLIP_READ),
+  validateRequest(listMyPayslipsQuerySchema, 'query'), // WHY: Validate query string
+  getMyPayslipsController,
+);
+
+/**
+ * @swagger
+ * /payroll/payslips/me/{id}/pdf:
+ *   get:
+ *     summary: Download own payslip
+ *     description: PDF of one of the caller's payslips. Only payslips of finalised runs.
+ *     tags: [Payroll]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: PDF download
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Payslip not found
+ */
+router.get(
+  '/payslips/me/:id/pdf',
+  requirePermission(Permission.PAYSLIP_READ),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  getMyPayslipPdfController,
+);
+
+/**
+ * @swagger
+ * /payroll/payslips/{id}/pdf:
+ *   get:
+ *     summary: Download payslip
+ *     description: PDF of any payslip. Payslips of a draft run are marked as draft.
+ *     tags: [Payroll]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: PDF download
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Payslip not found
+ */
+router.get(
+  '/payslips/:id/pdf',
+  requirePermission(Permission.PAYROLL_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  getPayslipPdfController,
+);
+
+export default router;
@@ -0,0 +1,210 @@
+import mongoose from 'mongoose';
+import { Employee } from '../employee/employee.model';
+import { SalaryStructure } from './salary-structure.model';
+import { computePayslip } from './payroll.service';
+
+/**
+ * WHAT: Tests for the payslip computation
+ *
+ * WHY: These figures are what employees are paid - proration for joiners
+ * and leavers and the unpaid leave deduction must add up to the cent.
+ *
+ * HOW: April 2026 has 22 weekdays. A structure of 4,400 basic + 1,100
+ * housing - 550 tax is 250 gross per working day, so expected figures
+ * stay round.
+ */
+
+// WHY: The real env needs a database URL and secrets; nothing here reads it
+jest.mock('../../config/env', () => ({ __esModule: true, default: {} }));
+
+const PERIOD = '2026-04';
+
+/**
+ * WHAT: The weekdays of April 2026
+ */
+function aprilWorkingDates(): Date[] {
+  return Array.from({ length: 30 }, (_, index) => new Date(Date.UTC(2026, 3, index + 1))).filter(
+    (date) => date.getUTCDay() !== 0 && date.getUTCDay() !== 6,
+  );
+}
+
+function buildEmployee(dates: { joiningDate: string; exitDate?: string }) {
+  return new Employee({
+    userId: new mongoose.Types.ObjectId(),
+    employeeId: 'EMP-0042',
+    firstName: 'Dana',
+    lastName: 'Müller',
+    department: 'Engineering',
+    designation: 'Developer',
+    joiningDate: new Date(dates.joiningDate),
+    exitDate: dates.exitDate ? new Date(dates.exitDate) : undefined,
+    isActive: !dates.exitDate,
+  });
+}
+
+function buildStructure() {
+  return new SalaryStructure({
+    employeeId: new mongoose.Types.ObjectId(),
+    effectiveFrom: '2026-01',
+    basic: 4400,
+    allowances: [{ name: 'Housing', amount: 1100 }],
+    deductions: [{ name: 'Income tax', amount: 550 }],
+    createdBy: new mongoose.Types.ObjectId(),
+  });
+}
+
+function compute(dates: { joiningDate: string; exitDate?: string }, unpaidLeaveDays = 0) {
+  return computePayslip(
+    buildEmployee(dates),
+    buildStructure(),
+    PERIOD,
+    aprilWorkingDates(),
+    unpaidLeaveDays,
+  );
+}
+
+describe('computePayslip', () => {
+  it('pays the full structure for a whole month', () => {
+    const payslip = compute({ joiningDate: '2025-01-06' });
+
+    expect(payslip).toMatchObject({
+      period: PERIOD,
+      employeeCode: 'EMP-0042',
+      employeeName: 'Dana Müller',
+      workingDays: 22,
+      payableDays: 22,
+      unpaidLeaveDays: 0,
+      basic: 4400,
+      allowances: [{ name: 'Housing', amount: 1100 }],
+      deductions: [{ name: 'Income tax', amount: 550 }],
+      unpaidLeaveDeduction: 0,
+      gross: 5500,
+      totalDeductions: 550,
+      net: 4950,
+    });
+  });
+
+  describe('proration', () => {
+    it('pays a mid-month joiner from the joining date', () => {
+      const payslip = compute({ joiningDate: '2026-04-16' });
+
+      expect(payslip).toMatchObject({
+        workingDays: 22,
+        payableDays: 11,
+        basic: 2200,
+        allowances: [{ name: 'Housing', amount: 550 }],
+        deductions: [{ name: 'Income tax', amount: 275 }],
+        gross: 2750,
+        net: 2475,
+      });
+    });
+
+    it('pays a leaver up to and including the exit date', () => {
+      const payslip = compute({ joiningDate: '2025-01-06', exitDate: '2026-04-15' });
+
+      expect(payslip).toMatchObject({ payableDays: 11, gross: 2750, net: 2475 });
+    });
+
+    it('pays only the days between joining and exit in the same month', () => {
+      const payslip = compute({ joiningDate: '2026-04-06', exitDate: '2026-04-17' });
+
+      expect(payslip).toMatchObject({
+        payableDays: 10,
+        basic: 2000,
+        allowances: [{ name: 'Housing', amount: 500 }],
+        deductions: [{ name: 'Income tax', amount: 250 }],
+        net: 2250,
+      });
+    });
+
+    it('ignores an exit date after the month', () => {
+      const payslip = compute({ joiningDate: '2025-01-06', exitDate: '2026-05-04' });
+
+      expect(payslip).toMatchObject({ payableDays: 22, net: 4950 });
+    });
+
+    it('pays nothing for a month without working days', () => {
+      const payslip = computePayslip(
+        buildEmployee({ joiningDate: '2025-01-06' }),
+        buildStructure(),
+        PERIOD,
+        [],
+        0,
+      );
+
+      expect(payslip).toMatchObject({
+        workingDays: 0,
+        payableDays: 0,
+        gross: 0,
+        totalDeductions: 0,
+        net: 0,
+      });
+    });
+  });
+
+  describe('deductions', () => {
+    it('deducts the daily gross per unpaid day and prorates deductions by paid days', () => {
+      const payslip = compute({ joiningDate: '2025-01-06' }, 2);
+
+      expect(payslip).toMatchObject({
+        unpaidLeaveDays: 2,
+        unpaidLeaveDeduction: 500,
+        deductions: [{ name: 'Income tax', amount: 500 }],
+        gross: 5500,
+        totalDeductions: 1000,
+        // WHY: Monthly net 4,950 x 20 paid days / 22 working days
+        net: 4500,
+      });
+    });
+
+    it('deducts half a day for half-day unpaid leave', () => {
+      const payslip = compute({ joiningDate: '2025-01-06' }, 0.5);
+
+      expect(payslip).toMatchObject({
+        unpaidLeaveDays: 0.5,
+        unpaidLeaveDeduction: 125,
+        deductions: [{ name: 'Income tax', amount: 537.5 }],
+      });
+    });
+
+    it('never deducts more unpaid days than were payable, and never goes negative', () => {
+      const payslip = compute({ joiningDate: '2025-01-06', exitDate: '2026-04-03' }, 5);
+
+      expect(payslip).toMatchObject({
+        payableDays: 3,
+        unpaidLeaveDays: 3,
+        unpaidLeaveDeduction: 750,
+        deductions: [{ name: 'Income tax', amount: 0 }],
+        gross: 750,
+        totalDeductions: 750,
+        net: 0,
+      });
+    });
+
+    it('rounds every line to cents', () => {
+      const structure = buildStructure();
+      structure.basic = 1000;
+      structure.allowances = [];
+      structure.deductions = [{ name: 'Pension', amount: 100 }];
+
+      const payslip = computePayslip(
+        buildEmployee({ joiningDate: '2026-04-02' }),
+        structure,
+        PERIOD,
+        aprilWorkingDates(),
+        1,
+      );
+
+      // WHY: 21 of 22 days payable, 20 paid
+      expect(payslip).toMatchObject({
+        payableDays: 21,
+        basic: 954.55,
+        unpaidLeaveDeduction: 45.45,
+        deductions: [{ name: 'Pension', amount: 90.91 }],
+        gross: 954.55,
+        totalDeductions: 136.36,
+        net: 818.19,
+      });
+    });
+  });
+});
@@ -0,0 +1,425 @@
+/**
+ * WHAT: Payroll run service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Computes each month's pay from salary structures, working days and
+ * approved unpaid leave, and locks it once HR finalises the run.
+ *
+ * HOW: Running a period computes every payslip first, then swaps them in
+ * with the run totals in one transaction. A draft period can be re-run as
+ * often as needed - the same data always gives the same payslips.
+ */
+
+import mongoose, { FilterQuery } from 'mongoose';
+import {
+  PayrollRun,
+  IPayrollRunDocument,
+  PayrollRunStatus,
+  PayrollSkipReason,
+  IPayrollSkippedEmployee,
+} from './payroll.model';
+import { Payslip, IPayslipDocument } from './payslip.model';
+import { ISalaryStructureDocument } from './salary-structure.model';
+import { findEffectiveStructures, roundMoney, sumComponents } from './salary-structure.service';
+import { Employee, IEmployeeDocument } from '../employee/employee.model';
+import { Leave, ILeaveDocument, LeaveStatus, LeaveType } from '../leave/leave.model';
+import { getWorkingDates, calculateWorkingDays } from '../holiday/holiday.service';
+import { JWTPayload } from '../auth/auth.types';
+import { PAYROLL_ERRORS } from './payroll.constants';
+import { RunPayrollInput, ListPayrollRunsQuery } from './payroll.validation';
+import {
+  PayrollRunResponse,
+  PayrollRunListResult,
+  RunPayrollResult,
+} from './payroll.types';
+import { createHttpError } from '../../utils/error.util';
+import { findPage } from '../../utils/query.util';
+import { addUtcDays, toDateKey, toUtcDay } from '../../utils/date.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+
+/**
+ * WHAT: Payslip fields computed for one employee
+ *
+ * WHY: Everything but runId, which is only known inside the transaction.
+ */
+export type PayslipDraft = Omit<IPayslipDocument, keyof mongoose.Document | 'runId' | 'createdAt'>;
+
+/**
+ * WHAT: Map payroll run document to response shape
+ */
+function toPayrollRunResponse(run: IPayrollRunDocument): PayrollRunResponse {
+  return {
+    id: run._id.toString(),
+    period: run.period,
+    status: run.status,
+    employeeCount: run.employeeCount,
+    totalGross: run.totalGross,
+    totalDeductions: run.totalDeductions,
+    totalNet: run.totalNet,
+    skipped: run.skipped.map((item) => ({
+      employeeId: item.employeeId.toString(),
+      employeeCode: item.employeeCode,
+      employeeName: item.employeeName,
+      reason: item.reason,
+    })),
+    computedAt: run.computedAt,
+    computedBy: run.computedBy.toString(),
+    finalisedAt: run.finalisedAt,
+    finalisedBy: run.finalisedBy?.toString(),
+    createdAt: run.createdAt,
+    updatedAt: run.updatedAt,
+  };
+}
+
+/**
+ * WHAT: Find payroll run or throw 404
+ *
+ * WHY: Also used by the payslip service for a run's payslips.
+ */
+export async function findRunOrFail(id: string): Promise<IPayrollRunDocument> {
+  const run = await PayrollRun.findById(id);
+  if (!run) {
+    throw createHttpError(PAYROLL_ERRORS.RUN_NOT_FOUND, 404);
+  }
+  return run;
+}
+
+/**
+ * WHAT: First and last day of a YYYY-MM period
+ */
+function getPeriodRange(period: string): { from: Date; to: Date } {
+  const [year, month] = period.split('-').map(Number);
+  const from = new Date(Date.UTC(year, month - 1, 1));
+  return { from, to: addUtcDays(new Date(Date.UTC(year, month, 1)), -1) };
+}
+
+/**
+ * WHAT: Unpaid leave days an employee takes within a date range
+ *
+ * WHY: A leave may run across the month boundary; only its days in the
+ * range count. Its half-day flags only apply where it really starts or ends.
+ *
+ * HOW: Working days of each leave clipped to the range, via the same
+ * calculation that set the leave's own duration
+ */
+async function countUnpaidLeaveDays(
+  leaves: ILeaveDocument[],
+  from: Date,
+  to: Date,
+  location?: string,
+): Promise<number> {
+  let days = 0;
+
+  for (const leave of leaves) {
+    const startDate = leave.startDate > from ? toUtcDay(leave.startDate) : from;
+    const endDate = leave.endDate < to ? toUtcDay(leave.endDate) : to;
+    if (startDate > endDate) {
+      continue;
+    }
+
+    const { numberOfDays } = await calculateWorkingDays({
+      startDate,
+      endDate,
+      startHalfDay: leave.startHalfDay && startDate.getTime() === toUtcDay(leave.startDate).getTime(),
+      endHalfDay: leave.endHalfDay && endDate.getTime() === toUtcDay(leave.endDate).getTime(),
+      location,
+    });
+    days += numberOfDays;
+  }
+
+  return days;
+}
+
+/**
+ * WHAT: Compute one employee's payslip
+ *
+ * WHY: Pure arithmetic, so a re-run over the same data gives the same figures.
+ *
+ * HOW:
+ * - Earnings are prorated by payable days (working days employed this
+ *   month, from joining to exit)
+ * - Unpaid leave deducts the monthly gross per working day, per day taken
+ * - Structure deductions are prorated by days actually paid
+ * So net = monthly net x paid days / working days, and is never negative.
+ */
+export function computePayslip(
+  employee: IEmployeeDocument,
+  structure: ISalaryStructureDocument,
+  period: string,
+  workingDates: Date[],
+  unpaidLeaveDays: number,
+): PayslipDraft {
+  const joined = toUtcDay(employee.joiningDate);
+  const exited = employee.exitDate ? toUtcDay(employee.exitDate) : undefined;
+  const workingDays = workingDates.length;
+  const payableDays = workingDates.filter(
+    (date) => date >= joined && (!exited || date <= exited),
+  ).length;
+  const unpaidDays = Math.min(unpaidLeaveDays, payableDays);
+
+  const payableRatio = workingDays > 0 ? payableDays / workingDays : 0;
+  const paidRatio = workingDays > 0 ? (payableDays - unpaidDays) / workingDays : 0;
+
+  const basic = roundMoney(structure.basic * payableRatio);
+  const allowances = structure.allowances.map(({ name, amount }) => ({
+    name,
+    amount: roundMoney(amount * payableRatio),
+  }));
+  const deductions = structure.deductions.map(({ name, amount }) => ({
+    name,
+    amount: roundMoney(amount * paidRatio),
+  }));
+
+  const monthlyGross = structure.basic + sumComponents(structure.allowances);
+  const unpaidLeaveDeduction =
+    workingDays > 0 ? roundMoney((monthlyGross / workingDays) * unpaidDays) : 0;
+
+  const gross = roundMoney(basic + sumComponents(allowances));
+  const totalDeductions = roundMoney(unpaidLeaveDeduction + sumComponents(deductions));
+
+  return {
+    period,
+    employeeId: employee._id,
+    employeeCode: employee.employeeId,
+    employeeName: `${employee.firstName} ${employee.lastName}`,
+    department: employee.department,
+    designation: employee.designation,
+    salaryStructureId: structure._id,
+    workingDays,
+    payableDays,
+    unpaidLeaveDays: unpaidDays,
+    basic,
+    allowances,
+    deductions,
+    unpaidLeaveDeduction,
+    gross,
+    totalDeductions,
+    // WHY: Rounding can leave -0.01 when everything is deducted
+    net: Math.max(0, roundMoney(gross - totalDeductions)),
+  };
+}
+
+/**
+ * WHAT: Compute every payslip for a period
+ *
+ * WHY: Done before the transaction opens, so the transaction only writes.
+ *
+ * HOW: Employees employed at any point in the month - joined by its end
+ * and either still active or left on or after its first day - in employee
+ * ID order. Working days are looked up once per location.
+ */
+async function computePayslips(
+  period: string,
+): Promise<{ payslips: PayslipDraft[]; skipped: IPayrollSkippedEmployee[] }> {
+  const { from, to } = getPeriodRange(period);
+
+  // WHY: Employees deactivated without an exit date left before exit dates were recorded
+  const employees = await Employee.find({
+    joiningDate: { $lte: to },
+    $or: [{ isActive: true }, { exitDate: { $gte: from } }],
+  }).sort({ employeeId: 1 });
+  const employeeIds = employees.map((employee) => employee._id);
+
+  const [structures, unpaidLeaves] = await Promise.all([
+    findEffectiveStructures(employeeIds, period),
+    Leave.find({
+      employeeId: { $in: employeeIds },
+      leaveType: LeaveType.UNPAID_LEAVE,
+      status: LeaveStatus.APPROVED,
+      startDate: { $lte: to },
+      endDate: { $gte: from },
+    }),
+  ]);
+
+  const workingDatesByLocation = new Map<string, Date[]>();
+  const payslips: PayslipDraft[] = [];
+  const skipped: IPayrollSkippedEmployee[] = [];
+
+  for (const employee of employees) {
+    const structure = structures.get(employee._id.toString());
+    if (!structure) {
+      skipped.push({
+        employeeId: employee._id,
+        employeeCode: employee.employeeId,
+        employeeName: `${employee.firstName} ${employee.lastName}`,
+        reason: PayrollSkipReason.NO_SALARY_STRUCTURE,
+      });
+      continue;
+    }
+
+    const locationKey = employee.location ?? '';
+    let workingDates = workingDatesByLocation.get(locationKey);
+    if (!workingDates) {
+      workingDates = await getWorkingDates(from, to, employee.location);
+      workingDatesByLocation.set(locationKey, workingDates);
+    }
+
+    const leaves = unpaidLeaves.filter(
+      (leave) => leave.employeeId.toString() === employee._id.toString(),
+    );
+    // WHY: Only leave while employed is deducted
+    const joined = toUtcDay(employee.joiningDate);
+    const exited = employee.exitDate ? toUtcDay(employee.exitDate) : undefined;
+    const unpaidLeaveDays = await countUnpaidLeaveDays(
+      leaves,
+      joined > from ? joined : from,
+      exited && exited < to ? exited : to,
+      employee.location,
+    );
+
+    payslips.push(computePayslip(employee, structure, period, workingDates, unpaidLeaveDays));
+  }
+
+  return { payslips, skipped };
+}
+
+/**
+ * WHAT: Run payroll service
+ *
+ * WHY: Computes a month's payroll. Re-running a draft period recomputes it
+ * from current data (after fixing a structure or approving leave); a
+ * finalised period is refused.
+ *
+ * HOW: Upserts the period's run as long as it is a draft and replaces its
+ * payslips in the same transaction, so a run and its payslips always agree
+ */
+export async function runPayroll(
+  actor: JWTPayload,
+  input: RunPayrollInput,
+  context: AuditContext,
+): Promise<RunPayrollResult> {
+  if (input.period > toDateKey(new Date()).slice(0, 7)) {
+    throw createHttpError(PAYROLL_ERRORS.FUTURE_PERIOD, 400);
+  }
+
+  const existing = await PayrollRun.findOne({ period: input.period });
+  if (existing?.status === PayrollRunStatus.FINALISED) {
+    throw createHttpError(PAYROLL_ERRORS.RUN_FINALISED, 409);
+  }
+
+  const { payslips, skipped } = await computePayslips(input.period);
+  const totalGross = roundMoney(payslips.reduce((sum, payslip) => sum + payslip.gross, 0));
+  const totalDeductions = roundMoney(
+    payslips.reduce((sum, payslip) => sum + payslip.totalDeductions, 0),
+  );
+
+  let run!: IPayrollRunDocument;
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      // WHY: The status condition makes a run finalised meanwhile fail the
+      // upsert (duplicate period) instead of being overwritten
+      // WHY: upsert + new always returns the document
+      run = (await PayrollRun.findOneAndUpdate(
+        { period: input.period, status: PayrollRunStatus.DRAFT },
+        {
+          $set: {
+            employeeCount: payslips.length,
+            totalGross,
+            totalDeductions,
+            totalNet: roundMoney(totalGross - totalDeductions),
+            skipped,
+            computedAt: new Date(),
+            computedBy: new mongoose.Types.ObjectId(actor.userId),
+          },
+        },
+        { upsert: true, new: true, runValidators: true, session },
+      )) as IPayrollRunDocument;
+
+      await Payslip.deleteMany({ runId: run._id }, { session });
+      await Payslip.insertMany(
+        payslips.map((payslip) => ({ ...payslip, runId: run._id })),
+        { session },
+      );
+    });
+  } catch (error) {
+    if ((error as { code?: number })?.code === 11000) {
+      throw createHttpError(PAYROLL_ERRORS.RUN_FINALISED, 409);
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+
+  await recordAuditLog(context, {
+    action: existing ? AuditAction.UPDATE : AuditAction.CREATE,
+    entityType: AuditEntityType.PAYROLL_RUN,
+    entityId: run._id.toString(),
+    before: existing?.toObject(),
+    after: run.toObject(),
+    metadata: { period: run.period },
+  });
+
+  return { run: toPayrollRunResponse(run), created: !existing };
+}
+
+/**
+ * WHAT: Get payroll runs service
+ *
+ * WHY: Paginated list of runs, latest month first.
+ */
+export async function getPayrollRuns(query: ListPayrollRunsQuery): Promise<PayrollRunListResult> {
+  const filter: FilterQuery<IPayrollRunDocument> = { ...query.filter };
+
+  const { docs: runs, pagination } = await findPage(PayrollRun, filter, query);
+
+  return { runs: runs.map(toPayrollRunResponse), pagination };
+}
+
+/**
+ * WHAT: Get payroll run service
+ */
+export async function getPayrollRun(id: string): Promise<PayrollRunResponse> {
+  return toPayrollRunResponse(await findRunOrFail(id));
+}
+
+/**
+ * WHAT: Finalise payroll run service
+ *
+ * WHY: Locks the run - its payslips are what gets paid. From then on the
+ * period can't be re-run, and salary structures can't change in it.
+ *
+ * HOW: Conditional update on DRAFT, so two finalise requests can't both succeed
+ */
+export async function finalisePayrollRun(
+  actor: JWTPayload,
+  id: string,
+  context: AuditContext,
+): Promise<PayrollRunResponse> {
+  const run = await findRunOrFail(id);
+
+  if (run.status === PayrollRunStatus.FINALISED) {
+    throw createHttpError(PAYROLL_ERRORS.RUN_FINALISED, 409);
+  }
+  if (run.employeeCount === 0) {
+    throw createHttpError(PAYROLL_ERRORS.EMPTY_RUN, 400);
+  }
+
+  const finalised = await PayrollRun.findOneAndUpdate(
+    { _id: run._id, status: PayrollRunStatus.DRAFT },
+    {
+      $set: {
+        status: PayrollRunStatus.FINALISED,
+        finalisedAt: new Date(),
+        finalisedBy: new mongoose.Types.ObjectId(actor.userId),
+      },
+    },
+    { new: true },
+  );
+  if (!finalised) {
+    throw createHttpError(PAYROLL_ERRORS.RUN_FINALISED, 409);
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.STATUS_CHANGE,
+    entityType: AuditEntityType.PAYROLL_RUN,
+    entityId: id,
+    before: run.toObject(),
+    after: finalised.toObject(),
+    metadata: { period: finalised.period },
+  });
+
+  return toPayrollRunResponse(finalised);
+}
@@ -0,0 +1,127 @@
+/**
+ * WHAT: TypeScript types for Payroll module
+ *
+ * WHY: Centralized type definitions ensure type safety across payroll module.
+ * Response types decouple the API contract from the Mongoose document shape.
+ *
+ * HOW: Exports interfaces used in payroll services and controller
+ */
+
+import { PayrollRunStatus, PayrollSkipReason } from './payroll.model';
+import { Pagination } from '../../utils/response.util';
+
+/**
+ * WHAT: Named monthly amount (allowance or deduction)
+ */
+export interface SalaryComponent {
+  name: string;
+  amount: number;
+}
+
+/**
+ * WHAT: Salary structure response interface
+ *
+ * WHY: monthlyGross and monthlyNet save clients adding the components up.
+ */
+export interface SalaryStructureResponse {
+  id: string;
+  employeeId: string;
+  effectiveFrom: string;
+  basic: number;
+  allowances: SalaryComponent[];
+  deductions: SalaryComponent[];
+  monthlyGross: number;
+  monthlyNet: number;
+  createdBy: string;
+  createdAt: Date;
+}
+
+/**
+ * WHAT: Paginated salary structure list
+ */
+export interface SalaryStructureListResult {
+  structures: SalaryStructureResponse[];
+  pagination: Pagination;
+}
+
+/**
+ * WHAT: Employee left out of a run
+ */
+export interface PayrollSkippedEmployee {
+  employeeId: string;
+  employeeCode: string;
+  employeeName: string;
+  reason: PayrollSkipReason;
+}
+
+/**
+ * WHAT: Payroll run response interface
+ */
+export interface PayrollRunResponse {
+  id: string;
+  period: string;
+  status: PayrollRunStatus;
+  employeeCount: number;
+  totalGross: number;
+  totalDeductions: number;
+  totalNet: number;
+  skipped: PayrollSkippedEmployee[];
+  computedAt: Date;
+  computedBy: string;
+  finalisedAt?: Date;
+  finalisedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Paginated payroll run list
+ */
+export interface PayrollRunListResult {
+  runs: PayrollRunResponse[];
+  pagination: Pagination;
+}
+
+/**
+ * WHAT: Run payroll result
+ *
+ * WHY: created tells the controller whether to answer 201 or 200.
+ */
+export interface RunPayrollResult {
+  run: PayrollRunResponse;
+  created: boolean;
+}
+
+/**
+ * WHAT: Payslip response interface
+ */
+export interface PayslipResponse {
+  id: string;
+  runId: string;
+  period: string;
+  employeeId: string;
+  employeeCode: string;
+  employeeName: string;
+  department: string;
+  designation: string;
+  salaryStructureId: string;
+  workingDays: number;
+  payableDays: number;
+  unpaidLeaveDays: number;
+  basic: number;
+  allowances: SalaryComponent[];
+  deductions: SalaryComponent[];
+  unpaidLeaveDeduction: number;
+  gross: number;
+  totalDeductions: number;
+  net: number;
+  createdAt: Date;
+}
+
+/**
+ * WHAT: Paginated payslip list
+ */
+export interface PayslipListResult {
+  payslips: PayslipResponse[];
+  pagination: Pagination;
+}
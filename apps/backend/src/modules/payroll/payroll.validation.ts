@@ -0,0 +1,157 @@
+/**
+ * WHAT: Validation schemas for Payroll endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating request bodies and query strings
+ */
+
+import { z } from 'zod';
+import { PayrollRunStatus } from './payroll.model';
+import { SALARY_STRUCTURE_LIMITS } from './payroll.constants';
+import { objectIdSchema } from '../../utils/validation.util';
+import { createListQuerySchema } from '../../utils/query.util';
+
+/**
+ * WHAT: Payroll period schema
+ *
+ * WHY: Payroll is monthly; periods are calendar months as YYYY-MM.
+ */
+export const periodSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Period must be a month as YYYY-MM');
+
+/**
+ * WHAT: Allowance or deduction list schema
+ *
+ * WHY: Amounts are monthly. Names label payslip lines, so they must be
+ * unique within the list.
+ */
+const salaryComponentsSchema = z
+  .array(
+    z.object({
+      name: z
+        .string()
+        .trim()
+        .min(1, 'Component name is required')
+        .max(50, 'Component name must be less than 50 characters'),
+      amount: z
+        .number({ invalid_type_error: 'Component amount must be a number' })
+        .positive('Component amount must be positive')
+        .finite(),
+    }),
+  )
+  .max(
+    SALARY_STRUCTURE_LIMITS.MAX_COMPONENTS,
+    `At most ${SALARY_STRUCTURE_LIMITS.MAX_COMPONENTS} components are allowed`,
+  )
+  .refine(
+    (components) =>
+      new Set(components.map((component) => component.name.toLowerCase())).size ===
+      components.length,
+    { message: 'Component names must be unique' },
+  )
+  .default([]);
+
+/**
+ * WHAT: Create salary structure validation schema
+ *
+ * WHY: Deductions may not exceed basic + allowances, so net pay is never
+ * negative.
+ */
+export const createSalaryStructureSchema = z
+  .object({
+    employeeId: objectIdSchema,
+    effectiveFrom: periodSchema,
+    basic: z
+      .number({ invalid_type_error: 'Basic pay must be a number' })
+      .min(0, 'Basic pay cannot be negative')
+      .finite(),
+    allowances: salaryComponentsSchema,
+    deductions: salaryComponentsSchema,
+  })
+  .refine(
+    (data) =>
+      data.deductions.reduce((sum, component) => sum + component.amount, 0) <=
+      data.basic + data.allowances.reduce((sum, component) => sum + component.amount, 0),
+    { message: 'Deductions cannot exceed basic pay plus allowances', path: ['deductions'] },
+  );
+
+/**
+ * WHAT: List salary structures query validation schema
+ *
+ * WHY: Standard list query; filter[employeeId] gives one employee's history.
+ */
+export const listSalaryStructuresQuerySchema = createListQuerySchema({
+  filters: {
+    employeeId: objectIdSchema,
+    effectiveFrom: periodSchema,
+  },
+  sortable: ['effectiveFrom', 'createdAt'],
+  defaultSort: '-effectiveFrom', // WHY: Latest change first
+});
+
+/**
+ * WHAT: Run payroll validation schema
+ */
+export const runPayrollSchema = z.object({
+  period: periodSchema,
+});
+
+/**
+ * WHAT: List payroll runs query validation schema
+ */
+export const listPayrollRunsQuerySchema = createListQuerySchema({
+  filters: {
+    status: z.nativeEnum(PayrollRunStatus),
+  },
+  sortable: ['period', 'createdAt'],
+  defaultSort: '-period', // WHY: Latest month first
+});
+
+/**
+ * WHAT: List payslips query validation schema
+ *
+ * WHY: Standard list query - q matches employee name or ID.
+ */
+export const listPayslipsQuerySchema = createListQuerySchema({
+  filters: {
+    department: z.string().trim().min(1),
+    employeeId: objectIdSchema,
+  },
+  sortable: ['employeeCode', 'employeeName', 'gross', 'net'],
+  defaultSort: 'employeeCode',
+  defaultLimit: 20,
+});
+
+/**
+ * WHAT: Own payslips list query schema
+ *
+ * WHY: An employee's payslip history, latest month first.
+ *
+ * HOW: ?filter[period]=2026-04&sort=-period
+ */
+export const listMyPayslipsQuerySchema = createListQuerySchema({
+  filters: {
+    period: periodSchema,
+  },
+  sortable: ['period'],
+  defaultSort: '-period',
+  defaultLimit: 12, // WHY: A year of payslips per page
+});
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * WHY: Type-safe request bodies in controllers.
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type CreateSalaryStructureInput = z.infer<typeof createSalaryStructureSchema>;
+export type ListSalaryStructuresQuery = z.infer<typeof listSalaryStructuresQuerySchema>;
+export type RunPayrollInput = z.infer<typeof runPayrollSchema>;
+export type ListPayrollRunsQuery = z.infer<typeof listPayrollRunsQuerySchema>;
+export type ListPayslipsQuery = z.infer<typeof listPayslipsQuerySchema>;
+export type ListMyPayslipsQuery = z.infer<typeof listMyPayslipsQuerySchema>;
@@ -0,0 +1,165 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ISalaryComponent, salaryComponentSchema } from './salary-structure.model';
+
+/**
+ * WHAT: Payslip Mongoose model and schema
+ *
+ * WHY: One employee's pay for one payroll run. Everything the figures were
+ * computed from (name, department, structure amounts, days) is copied in,
+ * so a finalised payslip never changes when the employee or structure does.
+ *
+ * HOW: Written only by the payroll run service - replaced while the run is
+ * a draft, left alone once it is finalised
+ */
+
+/**
+ * WHAT: Payslip document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ *
+ * HOW: Used throughout payroll module for type safety
+ */
+export interface IPayslipDocument extends Document {
+  runId: mongoose.Types.ObjectId; // WHY: Reference to PayrollRun
+  period: string; // WHY: YYYY-MM, copied from the run for per-employee lookups
+  employeeId: mongoose.Types.ObjectId; // WHY: Reference to Employee
+  employeeCode: string;
+  employeeName: string;
+  department: string;
+  designation: string;
+  salaryStructureId: mongoose.Types.ObjectId; // WHY: Reference to the SalaryStructure used
+  workingDays: number; // WHY: Working days in the month
+  payableDays: number; // WHY: Working days employed (fewer for mid-month joiners)
+  unpaidLeaveDays: number;
+  basic: number;
+  allowances: ISalaryComponent[];
+  deductions: ISalaryComponent[];
+  unpaidLeaveDeduction: number;
+  gross: number;
+  totalDeductions: number;
+  net: number;
+  createdAt: Date;
+}
+
+/**
+ * WHAT: Payslip schema definition
+ *
+ * WHY: Schema defines structure, validation, and indexes for payslip collection.
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const payslipSchema = new Schema<IPayslipDocument>(
+  {
+    runId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PayrollRun',
+      required: true,
+    },
+
+    period: {
+      type: String,
+      required: true,
+    },
+
+    employeeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Employee',
+      required: true,
+    },
+
+    employeeCode: {
+      type: String,
+      required: true,
+    },
+
+    employeeName: {
+      type: String,
+      required: true,
+    },
+
+    department: {
+      type: String,
+      required: true,
+    },
+
+    designation: {
+      type: String,
+      required: true,
+    },
+
+    salaryStructureId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SalaryStructure',
+      required: true,
+    },
+
+    workingDays: {
+      type: Number,
+      required: true,
+    },
+
+    payableDays: {
+      type: Number,
+      required: true,
+    },
+
+    unpaidLeaveDays: {
+      type: Number,
+      default: 0,
+    },
+
+    basic: {
+      type: Number,
+      required: true,
+    },
+
+    allowances: {
+      type: [salaryComponentSchema],
+      default: [],
+    },
+
+    deductions: {
+      type: [salaryComponentSchema],
+      default: [],
+    },
+
+    unpaidLeaveDeduction: {
+      type: Number,
+      default: 0,
+    },
+
+    gross: {
+      type: Number,
+      required: true,
+    },
+
+    totalDeductions: {
+      type: Number,
+      required: true,
+    },
+
+    net: {
+      type: Number,
+      required: true,
+    },
+  },
+  {
+    // WHY: Payslips are replaced, never edited, so only createdAt is meaningful
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+// WHY: One payslip per employee per run
+payslipSchema.index({ runId: 1, employeeId: 1 }, { unique: true });
+
+// WHY: An employee's payslips, newest period first
+payslipSchema.index({ employeeId: 1, period: -1 });
+
+/**
+ * WHAT: Payslip model export
+ *
+ * WHY: Model provides database operations.
+ *
+ * HOW: Mongoose model created from schema
+ */
+export const Payslip = mongoose.model<IPayslipDocument>('Payslip', payslipSchema);
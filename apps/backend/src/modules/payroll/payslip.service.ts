@@ -0,0 +1,210 @@
+/**
+ * WHAT: Payslip service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Serves payslips once payroll has computed them: HR's review list, each
+ * employee's own payslips, and the PDFs of both.
+ *
+ * HOW: Employees only ever see payslips of finalised runs - a draft may
+ * still change. PDFs are rendered on request from the stored payslip, so
+ * nothing is kept on disk.
+ */
+
+import { FilterQuery } from 'mongoose';
+import { Writable } from 'stream';
+import { Payslip, IPayslipDocument } from './payslip.model';
+import { PayrollRun, PayrollRunStatus } from './payroll.model';
+import { findRunOrFail } from './payroll.service';
+import { renderPayslipPdf, getPayslipFilename } from './payslip.template';
+import { Employee, IEmployeeDocument } from '../employee/employee.model';
+import { getEmployeeDocumentByUserId } from '../employee/employee.service';
+import { PAYROLL_ERRORS } from './payroll.constants';
+import { ListPayslipsQuery, ListMyPayslipsQuery } from './payroll.validation';
+import { PayslipResponse, PayslipListResult } from './payroll.types';
+import { createHttpError } from '../../utils/error.util';
+import { buildSearchFilter, findPage } from '../../utils/query.util';
+import { DownloadFile } from '../../utils/export.util';
+import { createZipWriter, writeChunk } from '../../utils/zip.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+
+/**
+ * WHAT: Map payslip document to response shape
+ */
+function toPayslipResponse(payslip: IPayslipDocument): PayslipResponse {
+  return {
+    id: payslip._id.toString(),
+    runId: payslip.runId.toString(),
+    period: payslip.period,
+    employeeId: payslip.employeeId.toString(),
+    employeeCode: payslip.employeeCode,
+    employeeName: payslip.employeeName,
+    department: payslip.department,
+    designation: payslip.designation,
+    salaryStructureId: payslip.salaryStructureId.toString(),
+    workingDays: payslip.workingDays,
+    payableDays: payslip.payableDays,
+    unpaidLeaveDays: payslip.unpaidLeaveDays,
+    basic: payslip.basic,
+    allowances: payslip.allowances.map(({ name, amount }) => ({ name, amount })),
+    deductions: payslip.deductions.map(({ name, amount }) => ({ name, amount })),
+    unpaidLeaveDeduction: payslip.unpaidLeaveDeduction,
+    gross: payslip.gross,
+    totalDeductions: payslip.totalDeductions,
+    net: payslip.net,
+    createdAt: payslip.createdAt,
+  };
+}
+
+/**
+ * WHAT: Wrap a rendered payslip as a download
+ */
+async function toPayslipFile(
+  payslip: IPayslipDocument,
+  employee: IEmployeeDocument | null,
+  status: PayrollRunStatus,
+): Promise<DownloadFile> {
+  // WHY: Rendered before returning, so a rendering error is still a clean 500
+  const pdf = await renderPayslipPdf(payslip, employee, status);
+
+  return {
+    filename: getPayslipFilename(payslip),
+    contentType: 'application/pdf',
+    write: (output: Writable) => writeChunk(output, pdf),
+  };
+}
+
+/**
+ * WHAT: Get payslips of a run service
+ *
+ * WHY: HR reviews a draft before finalising it.
+ *
+ * HOW: Paginated; q matches employee name or ID
+ */
+export async function getRunPayslips(
+  runId: string,
+  query: ListPayslipsQuery,
+): Promise<PayslipListResult> {
+  const run = await findRunOrFail(runId);
+
+  const filter: FilterQuery<IPayslipDocument> = {
+    runId: run._id,
+    ...query.filter,
+    ...buildSearchFilter<IPayslipDocument>(query.q, ['employeeName', 'employeeCode']),
+  };
+
+  const { docs: payslips, pagination } = await findPage(Payslip, filter, query);
+
+  return { payslips: payslips.map(toPayslipResponse), pagination };
+}
+
+/**
+ * WHAT: Get own payslips service
+ *
+ * WHY: Employees look up what they were paid. Only finalised runs - a
+ * draft can still be recomputed.
+ *
+ * HOW: Resolves the caller's employee record from the JWT userId
+ */
+export async function getMyPayslips(
+  userId: string,
+  query: ListMyPayslipsQuery,
+): Promise<PayslipListResult> {
+  const employee = await getEmployeeDocumentByUserId(userId);
+  // WHY: One run per month, so this stays small
+  const finalisedRunIds = await PayrollRun.find({ status: PayrollRunStatus.FINALISED }).distinct(
+    '_id',
+  );
+
+  const filter: FilterQuery<IPayslipDocument> = {
+    employeeId: employee._id,
+    runId: { $in: finalisedRunIds },
+    ...query.filter,
+  };
+
+  const { docs: payslips, pagination } = await findPage(Payslip, filter, query);
+
+  return { payslips: payslips.map(toPayslipResponse), pagination };
+}
+
+/**
+ * WHAT: Own payslip PDF service
+ *
+ * WHY: Someone else's payslip, or one of a draft run, is a 404 - the same
+ * answer as a wrong ID, so IDs can't be probed.
+ */
+export async function getMyPayslipPdf(userId: string, id: string): Promise<DownloadFile> {
+  const employee = await getEmployeeDocumentByUserId(userId);
+
+  const payslip = await Payslip.findOne({ _id: id, employeeId: employee._id });
+  const run = payslip
+    ? await PayrollRun.findOne({ _id: payslip.runId, status: PayrollRunStatus.FINALISED })
+    : null;
+  if (!payslip || !run) {
+    throw createHttpError(PAYROLL_ERRORS.PAYSLIP_NOT_FOUND, 404);
+  }
+
+  return toPayslipFile(payslip, employee, run.status);
+}
+
+/**
+ * WHAT: Payslip PDF service (HR)
+ *
+ * WHY: HR can print any payslip, including drafts - which are marked as such.
+ */
+export async function getPayslipPdf(id: string): Promise<DownloadFile> {
+  const payslip = await Payslip.findById(id);
+  if (!payslip) {
+    throw createHttpError(PAYROLL_ERRORS.PAYSLIP_NOT_FOUND, 404);
+  }
+
+  const [run, employee] = await Promise.all([
+    findRunOrFail(payslip.runId.toString()),
+    Employee.findById(payslip.employeeId),
+  ]);
+
+  return toPayslipFile(payslip, employee, run.status);
+}
+
+/**
+ * WHAT: Download all payslips of a run service
+ *
+ * WHY: HR hands out or archives a month's payslips in one go. Every
+ * payslip leaves the system, so the download is audited like an export.
+ *
+ * HOW: A zip with one PDF per employee, rendered and streamed one at a
+ * time from a cursor - never the whole month in memory
+ */
+export async function exportRunPayslips(runId: string, context: AuditContext): Promise<DownloadFile> {
+  const run = await findRunOrFail(runId);
+  if (run.employeeCount === 0) {
+    throw createHttpError(PAYROLL_ERRORS.EMPTY_RUN, 400);
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.EXPORT,
+    entityType: AuditEntityType.PAYROLL_RUN,
+    entityId: run._id.toString(),
+    metadata: { period: run.period, format: 'zip', status: run.status },
+  });
+
+  return {
+    filename: `payslips-${run.period}.zip`,
+    contentType: 'application/zip',
+    write: async (output: Writable) => {
+      // WHY: Joining date and location for every payslip, in one query
+      const employeeIds = await Payslip.distinct('employeeId', { runId: run._id });
+      const employees = await Employee.find({ _id: { $in: employeeIds } });
+      const byId = new Map(employees.map((employee) => [employee._id.toString(), employee]));
+
+      const zip = createZipWriter(output);
+      const cursor = Payslip.find({ runId: run._id }).sort({ employeeCode: 1 }).cursor();
+      for await (const payslip of cursor) {
+        const employee = byId.get(payslip.employeeId.toString()) ?? null;
+        await zip.addEntry(getPayslipFilename(payslip), await renderPayslipPdf(payslip, employee, run.status));
+      }
+      await zip.finish();
+    },
+  };
+}
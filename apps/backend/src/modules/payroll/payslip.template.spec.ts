@@ -0,0 +1,134 @@
+import mongoose from 'mongoose';
+import { PDFArray, PDFDocument, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+import { Payslip } from './payslip.model';
+import { PayrollRunStatus } from './payroll.model';
+import { getPayslipFilename, renderPayslipPdf } from './payslip.template';
+
+/**
+ * WHAT: Tests for the payslip PDF layout
+ *
+ * WHY: Employees and HR only ever see the rendered PDF - a layout change
+ * must not drop the figures that are paid.
+ *
+ * HOW: Renders a payslip, parses the output back with pdf-lib and reads
+ * the text shown on the page
+ */
+
+// WHY: The real env needs a database URL and secrets; the layout only reads the company
+jest.mock('../../config/env', () => ({
+  __esModule: true,
+  default: { COMPANY_NAME: 'Acme Corp', COMPANY_ADDRESS: '1 Market Street' },
+}));
+
+function buildPayslip() {
+  return new Payslip({
+    runId: new mongoose.Types.ObjectId(),
+    period: '2026-04',
+    employeeId: new mongoose.Types.ObjectId(),
+    employeeCode: 'EMP-0042',
+    employeeName: 'Dana Müller',
+    department: 'Engineering',
+    designation: 'Developer',
+    salaryStructureId: new mongoose.Types.ObjectId(),
+    workingDays: 22,
+    payableDays: 22,
+    unpaidLeaveDays: 1,
+    basic: 50000,
+    allowances: [{ name: 'Housing', amount: 10000 }],
+    deductions: [{ name: 'Income tax', amount: 6000 }],
+    unpaidLeaveDeduction: 2727.27,
+    gross: 60000,
+    totalDeductions: 8727.27,
+    net: 51272.73,
+  });
+}
+
+/**
+ * WHAT: Text drawn on every page of a PDF, in drawing order
+ *
+ * HOW: Decodes each content stream and reads the hex strings shown with Tj
+ */
+async function readText(pdf: Buffer): Promise<string[]> {
+  const document = await PDFDocument.load(pdf);
+  const texts: string[] = [];
+
+  for (const page of document.getPages()) {
+    const contents = page.node.Contents();
+    const refs = contents instanceof PDFArray ? contents.asArray() : [contents];
+    for (const ref of refs) {
+      const stream = document.context.lookup(ref);
+      if (!(stream instanceof PDFRawStream)) {
+        continue;
+      }
+      const operators = Buffer.from(decodePDFRawStream(stream).decode()).toString('latin1');
+      for (const [, hex] of operators.matchAll(/<([0-9A-Fa-f]*)> Tj/g)) {
+        texts.push(Buffer.from(hex, 'hex').toString('latin1'));
+      }
+    }
+  }
+
+  return texts;
+}
+
+describe('renderPayslipPdf', () => {
+  it('renders a single-page PDF with the payslip title', async () => {
+    const pdf = await renderPayslipPdf(buildPayslip(), null, PayrollRunStatus.FINALISED);
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    const document = await PDFDocument.load(pdf);
+    expect(document.getPageCount()).toBe(1);
+    expect(document.getTitle()).toBe('Payslip April 2026 - Dana Müller');
+    expect(document.getAuthor()).toBe('Acme Corp');
+  });
+
+  it('shows the header, earnings, deductions and net pay', async () => {
+    const texts = await readText(
+      await renderPayslipPdf(buildPayslip(), null, PayrollRunStatus.FINALISED),
+    );
+
+    // Header
+    expect(texts).toEqual(
+      expect.arrayContaining(['Acme Corp', '1 Market Street', 'PAYSLIP', 'April 2026']),
+    );
+    expect(texts).toEqual(expect.arrayContaining(['Dana Müller', 'EMP-0042', 'Engineering']));
+    // Earnings
+    expect(texts).toEqual(
+      expect.arrayContaining(['Basic', '50,000.00', 'Housing', '10,000.00', 'Gross earnings', '60,000.00']),
+    );
+    // Deductions
+    expect(texts).toEqual(
+      expect.arrayContaining([
+        'Income tax',
+        '6,000.00',
+        'Unpaid leave (1 day)',
+        '2,727.27',
+        'Total deductions',
+        '8,727.27',
+      ]),
+    );
+    // Net pay
+    expect(texts).toEqual(expect.arrayContaining(['Net pay', '51,272.73']));
+    expect(texts).not.toContain('DRAFT - NOT FINAL');
+  });
+
+  it('marks payslips of runs that are not finalised', async () => {
+    const texts = await readText(await renderPayslipPdf(buildPayslip(), null, PayrollRunStatus.DRAFT));
+
+    expect(texts).toContain('DRAFT - NOT FINAL');
+  });
+
+  it('prints characters the standard fonts lack as "?"', async () => {
+    const payslip = buildPayslip();
+    payslip.employeeName = 'Zhang 伟';
+
+    const texts = await readText(await renderPayslipPdf(payslip, null, PayrollRunStatus.FINALISED));
+
+    expect(texts).toContain('Zhang ?');
+  });
+});
+
+describe('getPayslipFilename', () => {
+  it('names the file by period and employee ID', () => {
+    expect(getPayslipFilename(buildPayslip())).toBe('payslip-2026-04-EMP-0042.pdf');
+  });
+});
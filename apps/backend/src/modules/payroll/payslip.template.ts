@@ -0,0 +1,215 @@
+/**
+ * WHAT: Payslip PDF layout
+ *
+ * WHY: One place decides what a payslip looks like - the employee download
+ * and HR's bulk zip print the same document.
+ *
+ * HOW: Draws a single A4 page from the stored payslip. Figures come from
+ * the payslip snapshot; the employee record only adds details the payslip
+ * doesn't carry (joining date, location).
+ */
+
+import { IPayslipDocument } from './payslip.model';
+import { PayrollRunStatus } from './payroll.model';
+import { IEmployeeDocument } from '../employee/employee.model';
+import { A4, PdfColor, PdfDocument, PdfPage, createPdfDocument } from '../../utils/pdf.util';
+import { toDateKey } from '../../utils/date.util';
+import env from '../../config/env';
+
+const MARGIN = 50;
+const CONTENT_WIDTH = A4.width - MARGIN * 2;
+const COLUMN_GAP = 20;
+const COLUMN_WIDTH = (CONTENT_WIDTH - COLUMN_GAP) / 2;
+const ROW_HEIGHT = 18;
+
+const TEXT: PdfColor = [0.13, 0.13, 0.13];
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+const RULE: PdfColor = [0.82, 0.84, 0.87];
+const SHADE: PdfColor = [0.95, 0.96, 0.97];
+const ACCENT: PdfColor = [0.15, 0.39, 0.92];
+const WARNING: PdfColor = [0.8, 0.2, 0.1];
+
+interface PayslipLine {
+  label: string;
+  amount: number;
+}
+
+/**
+ * WHAT: Format an amount with two decimals and thousands separators
+ */
+function formatAmount(value: number): string {
+  return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * WHAT: "2026-04" -> "April 2026"
+ */
+function formatPeriod(period: string): string {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * WHAT: Draw an earnings or deductions table
+ *
+ * HOW: Header band, one row per line, then a bold total row
+ */
+function drawTable(
+  document: PdfDocument,
+  page: PdfPage,
+  x: number,
+  y: number,
+  title: string,
+  lines: PayslipLine[],
+  totalLabel: string,
+  total: number,
+): void {
+  page.rect(x, y, COLUMN_WIDTH, ROW_HEIGHT, { fill: SHADE });
+  page.text(x + 8, y + 12.5, title, { font: 'bold', color: TEXT });
+  page.text(x + COLUMN_WIDTH - 8, y + 12.5, 'Amount', { font: 'bold', color: TEXT, align: 'right' });
+
+  let rowY = y + ROW_HEIGHT;
+  for (const line of lines) {
+    page.text(x + 8, rowY + 12.5, document.fitText(line.label, COLUMN_WIDTH - 100, 10), { color: TEXT });
+    page.text(x + COLUMN_WIDTH - 8, rowY + 12.5, formatAmount(line.amount), {
+      color: TEXT,
+      align: 'right',
+    });
+    page.line(x, rowY + ROW_HEIGHT, x + COLUMN_WIDTH, rowY + ROW_HEIGHT, { color: RULE });
+    rowY += ROW_HEIGHT;
+  }
+
+  page.text(x + 8, rowY + 12.5, totalLabel, { font: 'bold', color: TEXT });
+  page.text(x + COLUMN_WIDTH - 8, rowY + 12.5, formatAmount(total), {
+    font: 'bold',
+    color: TEXT,
+    align: 'right',
+  });
+  page.rect(x, y, COLUMN_WIDTH, rowY + ROW_HEIGHT - y, { stroke: RULE });
+}
+
+/**
+ * WHAT: Payslip PDF filename
+ *
+ * HOW: payslip-<YYYY-MM>-<employee ID>.pdf - unique within a run's zip
+ */
+export function getPayslipFilename(payslip: IPayslipDocument): string {
+  return `payslip-${payslip.period}-${payslip.employeeCode}.pdf`;
+}
+
+/**
+ * WHAT: Render a payslip as a PDF
+ *
+ * WHY: status marks payslips of runs that aren't finalised yet, so a draft
+ * downloaded by HR for review can't pass for the real thing.
+ *
+ * HOW: employee may be null if the record was deleted - the payslip
+ * snapshot still has everything that is paid.
+ */
+export async function renderPayslipPdf(
+  payslip: IPayslipDocument,
+  employee: IEmployeeDocument | null,
+  status: PayrollRunStatus,
+): Promise<Buffer> {
+  const periodLabel = formatPeriod(payslip.period);
+  const document = await createPdfDocument({
+    title: `Payslip ${periodLabel} - ${payslip.employeeName}`,
+    author: env.COMPANY_NAME,
+  });
+  const page = document.addPage();
+  const right = A4.width - MARGIN;
+
+  // Header: company on the left, document title on the right
+  page.text(MARGIN, 70, document.fitText(env.COMPANY_NAME, CONTENT_WIDTH - 180, 18, 'bold'), {
+    size: 18,
+    font: 'bold',
+    color: TEXT,
+  });
+  if (env.COMPANY_ADDRESS) {
+    page.text(MARGIN, 88, document.fitText(env.COMPANY_ADDRESS, CONTENT_WIDTH - 180, 9), {
+      size: 9,
+      color: MUTED,
+    });
+  }
+  page.text(right, 68, 'PAYSLIP', { size: 16, font: 'bold', color: ACCENT, align: 'right' });
+  page.text(right, 86, periodLabel, { size: 10, color: MUTED, align: 'right' });
+  if (status !== PayrollRunStatus.FINALISED) {
+    page.text(right, 102, 'DRAFT - NOT FINAL', { size: 9, font: 'bold', color: WARNING, align: 'right' });
+  }
+  page.line(MARGIN, 115, right, 115, { width: 1.5, color: ACCENT });
+
+  // Employee details: two label/value columns
+  const details: Array<[string, string]> = [
+    ['Employee name', payslip.employeeName],
+    ['Employee ID', payslip.employeeCode],
+    ['Department', payslip.department],
+    ['Designation', payslip.designation],
+    ['Date of joining', employee ? toDateKey(employee.joiningDate) : '-'],
+    ['Location', employee?.location ?? '-'],
+    ['Working days', String(payslip.workingDays)],
+    ['Payable days', String(payslip.payableDays)],
+  ];
+  details.forEach(([label, value], index) => {
+    const x = index % 2 === 0 ? MARGIN : MARGIN + COLUMN_WIDTH + COLUMN_GAP;
+    const y = 140 + Math.floor(index / 2) * 18;
+    page.text(x, y, label, { size: 9, color: MUTED });
+    page.text(x + 95, y, document.fitText(value, COLUMN_WIDTH - 95, 10, 'bold'), {
+      font: 'bold',
+      color: TEXT,
+    });
+  });
+
+  // Earnings and deductions side by side
+  const tableTop = 140 + Math.ceil(details.length / 2) * 18 + 10;
+  const earnings: PayslipLine[] = [
+    { label: 'Basic', amount: payslip.basic },
+    ...payslip.allowances.map(({ name, amount }) => ({ label: name, amount })),
+  ];
+  const deductions: PayslipLine[] = payslip.deductions.map(({ name, amount }) => ({
+    label: name,
+    amount,
+  }));
+  if (payslip.unpaidLeaveDays > 0) {
+    deductions.push({
+      label: `Unpaid leave (${payslip.unpaidLeaveDays} ${payslip.unpaidLeaveDays === 1 ? 'day' : 'days'})`,
+      amount: payslip.unpaidLeaveDeduction,
+    });
+  }
+
+  drawTable(document, page, MARGIN, tableTop, 'Earnings', earnings, 'Gross earnings', payslip.gross);
+  drawTable(
+    document,
+    page,
+    MARGIN + COLUMN_WIDTH + COLUMN_GAP,
+    tableTop,
+    'Deductions',
+    deductions,
+    'Total deductions',
+    payslip.totalDeductions,
+  );
+
+  // Net pay band below the longer table
+  const rows = Math.max(earnings.length, deductions.length) + 2;
+  const netTop = tableTop + rows * ROW_HEIGHT + 20;
+  page.rect(MARGIN, netTop, CONTENT_WIDTH, 34, { fill: SHADE });
+  page.text(MARGIN + 12, netTop + 22, 'Net pay', { size: 12, font: 'bold', color: TEXT });
+  page.text(right - 12, netTop + 22, formatAmount(payslip.net), {
+    size: 14,
+    font: 'bold',
+    color: ACCENT,
+    align: 'right',
+  });
+
+  page.text(
+    MARGIN,
+    A4.height - 50,
+    'This is a computer-generated payslip and does not require a signature.',
+    { size: 8, color: MUTED },
+  );
+
+  return document.toBuffer();
+}
@@ -0,0 +1,124 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Salary structure Mongoose model and schema
+ *
+ * WHY: Employee.salary is a single figure; payroll needs to know what the
+ * monthly pay is made of (basic, allowances, deductions) and when it changed.
+ *
+ * HOW: One document per employee per effective month. The structure for a
+ * payroll period is the latest one effective on or before it.
+ */
+
+/**
+ * WHAT: Named monthly amount (allowance or deduction)
+ */
+export interface ISalaryComponent {
+  name: string;
+  amount: number;
+}
+
+/**
+ * WHAT: Salary structure document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ *
+ * HOW: Used throughout payroll module for type safety
+ */
+export interface ISalaryStructureDocument extends Document {
+  employeeId: mongoose.Types.ObjectId; // WHY: Reference to Employee
+  effectiveFrom: string; // WHY: Payroll period (YYYY-MM) the structure applies from
+  basic: number; // WHY: Monthly amounts, like every component
+  allowances: ISalaryComponent[];
+  deductions: ISalaryComponent[];
+  createdBy: mongoose.Types.ObjectId; // WHY: Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Salary component schema
+ *
+ * WHY: No _id - components are always read and written with their structure.
+ */
+export const salaryComponentSchema = new Schema<ISalaryComponent>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Component name is required'],
+      trim: true,
+      maxlength: [50, 'Component name must be less than 50 characters'],
+    },
+
+    amount: {
+      type: Number,
+      required: [true, 'Component amount is required'],
+      min: [0, 'Component amount cannot be negative'],
+    },
+  },
+  { _id: false },
+);
+
+/**
+ * WHAT: Salary structure schema definition
+ *
+ * WHY: Schema defines structure, validation, and indexes for salary structure collection.
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const salaryStructureSchema = new Schema<ISalaryStructureDocument>(
+  {
+    employeeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Employee',
+      required: true,
+    },
+
+    // WHY: YYYY-MM strings sort chronologically, so "effective on or before" is a string comparison
+    effectiveFrom: {
+      type: String,
+      required: [true, 'Effective month is required'],
+      match: [/^\d{4}-(0[1-9]|1[0-2])$/, 'Effective month must be YYYY-MM'],
+    },
+
+    basic: {
+      type: Number,
+      required: [true, 'Basic pay is required'],
+      min: [0, 'Basic pay cannot be negative'],
+    },
+
+    allowances: {
+      type: [salaryComponentSchema],
+      default: [],
+    },
+
+    deductions: {
+      type: [salaryComponentSchema],
+      default: [],
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// WHY: One structure per employee per month; also serves "latest on or before" lookups
+salaryStructureSchema.index({ employeeId: 1, effectiveFrom: -1 }, { unique: true });
+
+/**
+ * WHAT: Salary structure model export
+ *
+ * WHY: Model provides database operations.
+ *
+ * HOW: Mongoose model created from schema
+ */
+export const SalaryStructure = mongoose.model<ISalaryStructureDocument>(
+  'SalaryStructure',
+  salaryStructureSchema,
+);
@@ -0,0 +1,188 @@
+/**
+ * WHAT: Salary structure service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Owns what each employee is paid per month and since when.
+ *
+ * HOW: Structures are effective-dated by month and never edited - a pay
+ * change is a new structure. Months already paid out in a finalised run
+ * can't be changed retroactively.
+ */
+
+import mongoose, { FilterQuery } from 'mongoose';
+import { SalaryStructure, ISalaryStructureDocument, ISalaryComponent } from './salary-structure.model';
+import { PayrollRun, PayrollRunStatus } from './payroll.model';
+import { Employee } from '../employee/employee.model';
+import { JWTPayload } from '../auth/auth.types';
+import { PAYROLL_ERRORS } from './payroll.constants';
+import { CreateSalaryStructureInput, ListSalaryStructuresQuery } from './payroll.validation';
+import { SalaryStructureResponse, SalaryStructureListResult } from './payroll.types';
+import { createHttpError } from '../../utils/error.util';
+import { findPage } from '../../utils/query.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+
+/**
+ * WHAT: Round a money amount to cents
+ *
+ * WHY: Prorated amounts have long fractions; payslip lines are shown and
+ * summed in cents. EPSILON stops 1.005 from rounding down.
+ */
+export function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * WHAT: Sum component amounts
+ */
+export function sumComponents(components: ISalaryComponent[]): number {
+  return roundMoney(components.reduce((sum, component) => sum + component.amount, 0));
+}
+
+/**
+ * WHAT: Map salary structure document to response shape
+ */
+function toSalaryStructureResponse(structure: ISalaryStructureDocument): SalaryStructureResponse {
+  const monthlyGross = roundMoney(structure.basic + sumComponents(structure.allowances));
+
+  return {
+    id: structure._id.toString(),
+    employeeId: structure.employeeId.toString(),
+    effectiveFrom: structure.effectiveFrom,
+    basic: structure.basic,
+    allowances: structure.allowances.map(({ name, amount }) => ({ name, amount })),
+    deductions: structure.deductions.map(({ name, amount }) => ({ name, amount })),
+    monthlyGross,
+    monthlyNet: roundMoney(monthlyGross - sumComponents(structure.deductions)),
+    createdBy: structure.createdBy.toString(),
+    createdAt: structure.createdAt,
+  };
+}
+
+/**
+ * WHAT: Refuse changes to a month that has been paid out
+ *
+ * WHY: A finalised run is the record of what was paid. A structure taking
+ * effect in or before it would no longer match it.
+ */
+async function assertNotFinalised(effectiveFrom: string): Promise<void> {
+  const finalised = await PayrollRun.exists({
+    status: PayrollRunStatus.FINALISED,
+    period: { $gte: effectiveFrom },
+  });
+  if (finalised) {
+    throw createHttpError(PAYROLL_ERRORS.STRUCTURE_IN_FINALISED_PERIOD, 409);
+  }
+}
+
+/**
+ * WHAT: Create salary structure service
+ *
+ * WHY: Sets an employee's pay from a given month. A raise is a new
+ * structure, so the history of what applied when is kept.
+ *
+ * HOW: Employee must be active; one structure per employee and month
+ */
+export async function createSalaryStructure(
+  actor: JWTPayload,
+  input: CreateSalaryStructureInput,
+  context: AuditContext,
+): Promise<SalaryStructureResponse> {
+  const employee = await Employee.findById(input.employeeId);
+  if (!employee || !employee.isActive) {
+    throw createHttpError(PAYROLL_ERRORS.EMPLOYEE_NOT_FOUND, 400);
+  }
+
+  await assertNotFinalised(input.effectiveFrom);
+
+  let structure: ISalaryStructureDocument;
+  try {
+    structure = await SalaryStructure.create({
+      ...input,
+      createdBy: new mongoose.Types.ObjectId(actor.userId),
+    });
+  } catch (error) {
+    // WHY: Unique index on (employeeId, effectiveFrom)
+    if ((error as { code?: number })?.code === 11000) {
+      throw createHttpError(PAYROLL_ERRORS.STRUCTURE_EXISTS, 409);
+    }
+    throw error;
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.CREATE,
+    entityType: AuditEntityType.SALARY_STRUCTURE,
+    entityId: structure._id.toString(),
+    after: structure.toObject(),
+  });
+
+  return toSalaryStructureResponse(structure);
+}
+
+/**
+ * WHAT: Get salary structures service
+ *
+ * WHY: Paginated list; filtered by employee it is their pay history.
+ */
+export async function getSalaryStructures(
+  query: ListSalaryStructuresQuery,
+): Promise<SalaryStructureListResult> {
+  const filter: FilterQuery<ISalaryStructureDocument> = { ...query.filter };
+
+  const { docs: structures, pagination } = await findPage(SalaryStructure, filter, query);
+
+  return { structures: structures.map(toSalaryStructureResponse), pagination };
+}
+
+/**
+ * WHAT: Delete salary structure service
+ *
+ * WHY: Structures are never edited; one entered by mistake is deleted and
+ * re-created - unless a finalised run has already used it.
+ */
+export async function deleteSalaryStructure(id: string, context: AuditContext): Promise<void> {
+  const structure = await SalaryStructure.findById(id);
+  if (!structure) {
+    throw createHttpError(PAYROLL_ERRORS.STRUCTURE_NOT_FOUND, 404);
+  }
+
+  await assertNotFinalised(structure.effectiveFrom);
+
+  await structure.deleteOne();
+
+  await recordAuditLog(context, {
+    action: AuditAction.DELETE,
+    entityType: AuditEntityType.SALARY_STRUCTURE,
+    entityId: id,
+    before: structure.toObject(),
+  });
+}
+
+/**
+ * WHAT: Structure in effect for a period, per employee
+ *
+ * WHY: Used by payroll runs. The latest structure effective on or before
+ * the period applies.
+ *
+ * HOW: Map keyed by employee ID; employees without one are absent
+ */
+export async function findEffectiveStructures(
+  employeeIds: mongoose.Types.ObjectId[],
+  period: string,
+): Promise<Map<string, ISalaryStructureDocument>> {
+  const structures = await SalaryStructure.find({
+    employeeId: { $in: employeeIds },
+    effectiveFrom: { $lte: period },
+  }).sort({ effectiveFrom: -1 });
+
+  const byEmployee = new Map<string, ISalaryStructureDocument>();
+  for (const structure of structures) {
+    const key = structure.employeeId.toString();
+    // WHY: Sorted newest first, so the first one seen is in effect
+    if (!byEmployee.has(key)) {
+      byEmployee.set(key, structure);
+    }
+  }
+  return byEmployee;
+}
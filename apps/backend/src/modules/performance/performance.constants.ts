@@ -0,0 +1,78 @@
+/**
+ * WHAT: Performance module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Single place to change workflow rules
+ * - Consistent error messages
+ *
+ * HOW: Exports constants used across performance module
+ */
+
+import { ReviewCycleStatus } from './review-cycle.model';
+import { ReviewStatus } from './performance.model';
+
+/**
+ * WHAT: Rating scale
+ *
+ * WHY: Same scale for every step, so self, manager and final ratings compare.
+ */
+export const PERFORMANCE_RATING = {
+  MIN: 1,
+  MAX: 5,
+  STEP: 0.5, // WHY: Lets calibration land between two whole ratings
+} as const;
+
+/**
+ * WHAT: Allowed review cycle status transitions
+ *
+ * WHY: A cycle goes through its steps once, in order. Anything not listed
+ * here is refused.
+ *
+ * HOW: Map of current status -> statuses it may move to
+ */
+export const REVIEW_CYCLE_STATUS_TRANSITIONS: Record<ReviewCycleStatus, ReviewCycleStatus[]> = {
+  [ReviewCycleStatus.DRAFT]: [ReviewCycleStatus.ACTIVE],
+  [ReviewCycleStatus.ACTIVE]: [ReviewCycleStatus.CALIBRATION],
+  [ReviewCycleStatus.CALIBRATION]: [ReviewCycleStatus.FINALISED],
+  [ReviewCycleStatus.FINALISED]: [],
+};
+
+/**
+ * WHAT: Allowed performance review status transitions
+ *
+ * WHY: Steps can be missed - a self-assessment not in by its deadline, or a
+ * manager who didn't assess in time - but never repeated or reversed.
+ *
+ * HOW: Map of current status -> statuses it may move to
+ */
+export const REVIEW_STATUS_TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+  // WHY: Straight to calibration when the self-assessment is missed
+  [ReviewStatus.SELF_REVIEW]: [ReviewStatus.MANAGER_REVIEW, ReviewStatus.CALIBRATION],
+  [ReviewStatus.MANAGER_REVIEW]: [ReviewStatus.CALIBRATION],
+  [ReviewStatus.CALIBRATION]: [ReviewStatus.FINALISED],
+  [ReviewStatus.FINALISED]: [],
+};
+
+/**
+ * WHAT: Performance error messages
+ *
+ * WHY: Consistent messages across service functions.
+ */
+export const PERFORMANCE_ERRORS = {
+  CYCLE_NOT_FOUND: 'Review cycle not found',
+  REVIEW_NOT_FOUND: 'Performance review not found',
+  CYCLE_NOT_DRAFT: 'Only deadlines can change once a review cycle is launched',
+  CYCLE_FINALISED: 'Review cycle is finalised and can no longer change',
+  NO_PARTICIPANTS: 'No active employees in the selected departments joined before the period end',
+  SELF_DEADLINE_PASSED: 'The self-assessment deadline has passed',
+  SELF_DEADLINE_OPEN: 'The employee can still submit a self-assessment until its deadline',
+  MANAGER_DEADLINE_PASSED: 'The manager assessment deadline has passed',
+  MANAGER_REVIEWS_OPEN: 'Manager assessments are open until their deadline',
+  SELF_DUE_DATE_PASSED: 'The self-assessment due date has passed - move it before launching',
+  CYCLE_NOT_ACTIVE: 'Review cycle is not taking assessments',
+  CYCLE_NOT_CALIBRATING: 'Ratings can only be calibrated while the cycle is in calibration',
+  NOT_MANAGER: 'Only the employee\'s manager can assess this review',
+  SELF_REVIEW: 'You cannot assess or calibrate your own review',
+  UNRATED_REVIEWS: 'Some reviews have no rating - calibrate them before finalising',
+  CONCURRENT_UPDATE: 'Review was updated by another request. Please retry',
+} as const;
@@ -0,0 +1,343 @@
+/**
+ * WHAT: Performance controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ * - Input validation (delegates to validation layer)
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  createReviewCycle,
+  getReviewCycles,
+  getReviewCycle,
+  updateReviewCycle,
+  launchReviewCycle,
+  startCalibration,
+  finaliseReviewCycle,
+} from './review-cycle.service';
+import {
+  getCycleReviews,
+  getMyReviews,
+  getTeamReviews,
+  submitSelfAssessment,
+  submitManagerAssessment,
+  calibrateReview,
+} from './performance.service';
+import {
+  CreateReviewCycleInput,
+  UpdateReviewCycleInput,
+  AssessmentInput,
+  ListReviewCyclesQuery,
+  ListCycleReviewsQuery,
+  ListReviewsQuery,
+} from './performance.validation';
+import { JWTPayload } from '../auth/auth.types';
+import { sendSuccess, sendPaginated } from '../../utils/response.util';
+import { getAuditContext } from '../../utils/audit.util';
+
+/**
+ * WHAT: Create review cycle controller
+ *
+ * WHY: Handles POST /api/performance/cycles requests.
+ *
+ * HOW: Express route handler
+ */
+export async function createReviewCycleController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: User is attached by authenticate middleware
+    const user = req.user as JWTPayload;
+    const input = req.body as CreateReviewCycleInput;
+
+    const cycle = await createReviewCycle(user, input, getAuditContext(req));
+
+    // WHY: 201 Created for resource creation
+    sendSuccess(res, cycle, 201, 'Review cycle created successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List review cycles controller
+ *
+ * WHY: Handles GET /api/performance/cycles requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getReviewCyclesController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: Query is validated and coerced by validation middleware
+    const query = req.query as unknown as ListReviewCyclesQuery;
+
+    const result = await getReviewCycles(query);
+
+    sendPaginated(res, result.cycles, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get review cycle controller
+ *
+ * WHY: Handles GET /api/performance/cycles/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getReviewCycleController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const cycle = await getReviewCycle(req.params.id);
+
+    sendSuccess(res, cycle);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Update review cycle controller
+ *
+ * WHY: Handles PATCH /api/performance/cycles/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function updateReviewCycleController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const input = req.body as UpdateReviewCycleInput;
+
+    const cycle = await updateReviewCycle(req.params.id, input, getAuditContext(req));
+
+    sendSuccess(res, cycle, 200, 'Review cycle updated successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Launch review cycle controller
+ *
+ * WHY: Handles POST /api/performance/cycles/:id/launch requests.
+ *
+ * HOW: Express route handler
+ */
+export async function launchReviewCycleController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const cycle = await launchReviewCycle(req.params.id, getAuditContext(req));
+
+    sendSuccess(res, cycle, 200, 'Review cycle launched successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Start calibration controller
+ *
+ * WHY: Handles POST /api/performance/cycles/:id/start-calibration requests.
+ *
+ * HOW: Express route handler
+ */
+export async function startCalibrationController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const cycle = await startCalibration(req.params.id, getAuditContext(req));
+
+    sendSuccess(res, cycle, 200, 'Calibration started successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Finalise review cycle controller
+ *
+ * WHY: Handles POST /api/performance/cycles/:id/finalise requests.
+ *
+ * HOW: Express route handler
+ */
+export async function finaliseReviewCycleController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    const cycle = await finaliseReviewCycle(user, req.params.id, getAuditContext(req));
+
+    sendSuccess(res, cycle, 200, 'Review cycle finalised successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List cycle reviews controller
+ *
+ * WHY: Handles GET /api/performance/cycles/:id/reviews requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getCycleReviewsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = req.query as unknown as ListCycleReviewsQuery;
+
+    const result = await getCycleReviews(req.params.id, query);
+
+    sendPaginated(res, result.reviews, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List own reviews controller
+ *
+ * WHY: Handles GET /api/performance/reviews/me requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMyReviewsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const query = req.query as unknown as ListReviewsQuery;
+
+    const result = await getMyReviews(user.userId, query);
+
+    sendPaginated(res, result.reviews, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List team reviews controller
+ *
+ * WHY: Handles GET /api/performance/reviews/team requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getTeamReviewsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const query = req.query as unknown as ListReviewsQuery;
+
+    const result = await getTeamReviews(user, query);
+
+    sendPaginated(res, result.reviews, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Submit self-assessment controller
+ *
+ * WHY: Handles POST /api/performance/reviews/:id/self-assessment requests.
+ *
+ * HOW: Express route handler
+ */
+export async function submitSelfAssessmentController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as AssessmentInput;
+
+    const review = await submitSelfAssessment(user, req.params.id, input);
+
+    sendSuccess(res, review, 200, 'Self-assessment submitted successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Submit manager assessment controller
+ *
+ * WHY: Handles POST /api/performance/reviews/:id/manager-assessment requests.
+ *
+ * HOW: Express route handler
+ */
+export async function submitManagerAssessmentController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as AssessmentInput;
+
+    const review = await submitManagerAssessment(user, req.params.id, input);
+
+    sendSuccess(res, review, 200, 'Manager assessment submitted successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Calibrate review controller
+ *
+ * WHY: Handles PUT /api/performance/reviews/:id/calibration requests.
+ *
+ * HOW: Express route handler
+ */
+export async function calibrateReviewController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as AssessmentInput;
+
+    const review = await calibrateReview(user, req.params.id, input, getAuditContext(req));
+
+    sendSuccess(res, review, 200, 'Rating calibrated successfully');
+  } catch (error) {
+    next(error);
+  }
+}
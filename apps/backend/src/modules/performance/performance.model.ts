@@ -0,0 +1,172 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Performance review Mongoose model and schema
+ *
+ * WHY: One employee's review within a cycle - their self-assessment, their
+ * manager's assessment, HR's calibration and the final rating.
+ *
+ * HOW: Created for every participant when the cycle is launched. The
+ * employee's name and department are copied, so a finalised review keeps
+ * showing what applied at the time.
+ */
+
+/**
+ * WHAT: Performance review status enum
+ *
+ * WHY: The step the review is waiting for; see REVIEW_STATUS_TRANSITIONS
+ * in performance.constants.ts.
+ */
+export enum ReviewStatus {
+  SELF_REVIEW = 'SELF_REVIEW', // WHY: Waiting for the employee
+  MANAGER_REVIEW = 'MANAGER_REVIEW', // WHY: Waiting for the employee's manager
+  CALIBRATION = 'CALIBRATION', // WHY: Waiting for HR
+  FINALISED = 'FINALISED',
+}
+
+/**
+ * WHAT: Rating with comments, as given at one step
+ */
+export interface IAssessment {
+  rating: number;
+  comments?: string;
+  submittedBy: mongoose.Types.ObjectId; // WHY: Reference to User
+  submittedAt: Date;
+}
+
+/**
+ * WHAT: Performance review document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ *
+ * HOW: Used throughout performance module for type safety
+ */
+export interface IPerformanceReviewDocument extends Document {
+  cycleId: mongoose.Types.ObjectId; // WHY: Reference to ReviewCycle
+  employeeId: mongoose.Types.ObjectId; // WHY: Reference to Employee
+  employeeCode: string; // WHY: Employee.employeeId at launch
+  employeeName: string;
+  department: string;
+  status: ReviewStatus;
+  selfAssessment?: IAssessment;
+  managerAssessment?: IAssessment;
+  calibration?: IAssessment; // WHY: HR's rating, overrides the manager's
+  finalRating?: number;
+  finalisedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Assessment schema
+ */
+const assessmentSchema = new Schema<IAssessment>(
+  {
+    rating: {
+      type: Number,
+      required: [true, 'Rating is required'],
+      min: [1, 'Rating must be at least 1'],
+      max: [5, 'Rating must be at most 5'],
+    },
+    comments: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Comments must be less than 2000 characters'],
+    },
+    submittedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    submittedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false },
+);
+
+/**
+ * WHAT: Performance review schema definition
+ *
+ * WHY: Schema defines structure, validation, and indexes for performance review collection.
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const performanceReviewSchema = new Schema<IPerformanceReviewDocument>(
+  {
+    cycleId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ReviewCycle',
+      required: true,
+    },
+
+    employeeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Employee',
+      required: true,
+    },
+
+    employeeCode: {
+      type: String,
+      required: true,
+    },
+
+    employeeName: {
+      type: String,
+      required: true,
+    },
+
+    department: {
+      type: String,
+      required: true,
+    },
+
+    status: {
+      type: String,
+      enum: Object.values(ReviewStatus),
+      default: ReviewStatus.SELF_REVIEW,
+      required: true,
+    },
+
+    selfAssessment: {
+      type: assessmentSchema,
+    },
+
+    managerAssessment: {
+      type: assessmentSchema,
+    },
+
+    calibration: {
+      type: assessmentSchema,
+    },
+
+    finalRating: {
+      type: Number,
+    },
+
+    finalisedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// WHY: One review per employee per cycle
+performanceReviewSchema.index({ cycleId: 1, employeeId: 1 }, { unique: true });
+// WHY: Employee's reviews, latest rating first (dashboard)
+performanceReviewSchema.index({ employeeId: 1, status: 1, finalisedAt: -1 });
+
+/**
+ * WHAT: Performance review model export
+ *
+ * WHY: Model provides database operations.
+ *
+ * HOW: Mongoose model created from schema
+ */
+export const PerformanceReview = mongoose.model<IPerformanceReviewDocument>(
+  'PerformanceReview',
+  performanceReviewSchema,
+);
@@ -0,0 +1,599 @@
+/**
+ * WHAT: Performance routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions and RBAC middleware
+ */
+
+import { Router } from 'express';
+import {
+  createReviewCycleController,
+  getReviewCyclesController,
+  getReviewCycleController,
+  updateReviewCycleController,
+  launchReviewCycleController,
+  startCalibrationController,
+  finaliseReviewCycleController,
+  getCycleReviewsController,
+  getMyReviewsController,
+  getTeamReviewsController,
+  submitSelfAssessmentController,
+  submitManagerAssessmentController,
+  calibrateReviewController,
+} from './performance.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import {
+  createReviewCycleSchema,
+  updateReviewCycleSchema,
+  assessmentSchema,
+  listReviewCyclesQuerySchema,
+  listCycleReviewsQuerySchema,
+  listReviewsQuerySchema,
+} from './performance.validation';
+import { idParamSchema } from '../../utils/validation.util';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: All performance routes require authentication.
+ * Cycles and calibration need performance:manage (HR); employees use
+ * performance:self for their own review, managers performance:review for
+ * their direct reports'.
+ */
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /performance/cycles:
+ *   post:
+ *     summary: Create review cycle
+ *     description: Sets up a review cycle as a draft. No departments means every department takes part.
+ *       Due dates must be in step order - self review, manager review, calibration.
+ *     tags: [Performance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - periodStart
+ *               - periodEnd
+ *               - selfReviewDueDate
+ *               - managerReviewDueDate
+ *               - calibrationDueDate
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: H1 2026
+ *               periodStart:
+ *                 type: string
+ *                 format: date
+ *                 example: 2026-01-01
+ *               periodEnd:
+ *                 type: string
+ *                 format: date
+ *                 example: 2026-06-30
+ *               departments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [Engineering, Sales]
+ *                 description: Department names or codes
+ *               selfReviewDueDate:
+ *                 type: string
+ *                 format: date
+ *                 example: 2026-07-10
+ *               managerReviewDueDate:
+ *                 type: string
+ *                 format: date
+ *                 example: 2026-07-24
+ *               calibrationDueDate:
+ *                 type: string
+ *                 format: date
+ *                 example: 2026-07-31
+ *     responses:
+ *       201:
+ *         description: Review cycle created
+ *       400:
+ *         description: Validation error or unknown department
+ *       403:
+ *         description: Forbidden - requires performance:manage permission
+ */
+router.post(
+  '/cycles',
+  requirePermission(Permission.PERFORMANCE_MANAGE),
+  validateRequest(createReviewCycleSchema, 'body'), // WHY: Validate request body
+  createReviewCycleController,
+);
+
+/**
+ * @swagger
+ * /performance/cycles:
+ *   get:
+ *     summary: List review cycles
+ *     description: Paginated list of review cycles. Sortable by periodStart and createdAt (default -periodStart).
+ *     tags: [Performance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - in: query
+ *         name: filter[status]
+ *         schema:
+ *           type: string
+ *           enum: [DRAFT, ACTIVE, CALIBRATION, FINALISED]
+ *     responses:
+ *       200:
+ *         description: Paginated review cycle list ({ items, pagination })
+ *       403:
+ *         description: Forbidden - requires performance:manage permission
+ */
+router.get(
+  '/cycles',
+  requirePermission(Permission.PERFORMANCE_MANAGE),
+  validateRequest(listReviewCyclesQuerySchema, 'query'), // WHY: Validate query string
+  getReviewCyclesController,
+);
+
+/**
+ * @swagger
+ * /performance/cycles/{id}:
+ *   get:
+ *     summary: Get review cycle
+ *     tags: [Performance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Review cycle
+ *       404:
+ *         description: Review cycle not found
+ */
+router.get(
+  '/cycles/:id',
+  requirePermission(Permission.PERFORMANCE_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  getReviewCycleController,
+);
+
+/**
+ * @swagger
+ * /performance/cycles/{id}:
+ *   patch:
+ *     summary: Update review cycle
+ *     description: A draft can change freely. Once launched only the three due dates can change;
+ *       a finalised cycle can't change at all.
+ *     tags: [Performance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               periodStart:
+ *                 type: string
+ *                 format: date
+ *               periodEnd:
+ *                 type: string
+ *                 format: date
+ *               departments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               selfReviewDueDate:
+ *                 type: string
+ *                 format: date
+ *               managerReviewDueDate:
+ *                 type: string
+ *                 format: date
+ *               calibrationDueDate:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       200:
+ *         description: Review cycle updated
+ *       400:
+ *         description: Validation error or dates out of order
+ *       404:
+ *         description: Review cycle not found
+ *       409:
+ *         description: Cycle launched (only due dates can change) or finalised
+ */
+router.patch(
+  '/cycles/:id',
+  requirePermission(Permission.PERFORMANCE_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(updateReviewCycleSchema, 'body'), // WHY: Validate request body
+  updateReviewCycleController,
+);
+
+/**
+ * @swagger
+ * /performance/cycles/{id}/launch:
+ *   post:
+ *     summary: Launch review cycle
+ *     description: Creates a review for every active employee of the cycle's departments who joined by
+ *       the period end, waiting for their self-assessment.
+ *     tags: [Performance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Review cycle launched
+ *       400:
+ *         description: No participants, or the self review due date has passed
+ *       404:
+ *         description: Review cycle not found
+ *       409:
+ *         description: Cycle is not a draft
+ */
+router.post(
+  '/cycles/:id/launch',
+  requirePermission(Permission.PERFORMANCE_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  launchReviewCycleController,
+);
+
+/**
+ * @swagger
+ * /performance/cycles/{id}/start-calibration:
+ *   post:
+ *     summary: Start calibration
+ *     description: Moves an active cycle to calibration. Allowed once every manager assessment is in, or
+ *       after the manager review due date - reviews still open then move on without their missing steps.
+ *     tags: [Performance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Calibration started
+ *       404:
+ *         description: Review cycle not found
+ *       409:
+ *         description: Cycle not active, or manager assessments still open before their due date
+ */
+router.post(
+  '/cycles/:id/start-calibration',
+  requirePermission(Permission.PERFORMANCE_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  startCalibrationController,
+);
+
+/**
+ * @swagger
+ * /performance/cycles/{id}/finalise:
+ *   post:
+ *     summary: Finalise review cycle
+ *     description: Sets every review's final rating - the calibrated rating, otherwise the manager's -
+ *       and shows it to the employee. Every review must have one of the two.
+ *     tags: [Performance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Review cycle finalised
+ *       404:
+ *         description: Review cycle not found
+ *       409:
+ *         description: Cycle not in calibration, or reviews without a rating
+ */
+router.post(
+  '/cycles/:id/finalise',
+  requirePermission(Permission.PERFORMANCE_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  finaliseReviewCycleController,
+);
+
+/**
+ * @swagger
+ * /performance/cycles/{id}/reviews:
+ *   get:
+ *     summary: List reviews of a cycle
+ *     description: Paginated reviews of a cycle with every assessment. q matches employee name or ID.
+ *       Sortable by employeeCode, employeeName and finalRating (default employeeCode).
+ *     tags: [Performance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[status]
+ *         schema:
+ *           type: string
+ *           enum: [SELF_REVIEW, MANAGER_REVIEW, CALIBRATION, FINALISED]
+ *       - in: query
+ *         name: filter[department]
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Paginated review list ({ items, pagination })
+ *       404:
+ *         description: Review cycle not found
+ */
+router.get(
+  '/cycles/:id/reviews',
+  requirePermission(Permission.PERFORMANCE_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(listCycleReviewsQuerySchema, 'query'), // WHY: Validate query string
+  getCycleReviewsController,
+);
+
+/**
+ * @swagger
+ * /performance/reviews/me:
+ *   get:
+ *     summary: List own reviews
+ *     description: The caller's reviews with their cycle's due dates. The manager's assessment and the
+ *       final rating are included once the cycle is finalised.
+ *     tags: [Performance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - in: query
+ *         name: filter[status]
+ *         schema:
+ *           type: string
+ *           enum: [SELF_REVIEW, MANAGER_REVIEW, CALIBRATION, FINALISED]
+ *       - in: query
+ *         name: filter[cycleId]
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Paginated review list ({ items, pagination })
+ *       404:
+ *         description: Employee profile not found
+ */
+router.get(
+  '/reviews/me',
+  requirePermission(Permission.PERFORMANCE_SELF),
+  validateRequest(listReviewsQuerySchema, 'query'), // WHY: Validate query string
+  getMyReviewsController,
+);
+
+/**
+ * @swagger
+ * /performance/reviews/team:
+ *   get:
+ *     summary: List team reviews
+ *     description: Reviews of the caller's direct reports, with their self-assessments.
+ *     tags: [Performance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - in: query
+ *         name: filter[status]
+ *         schema:
+ *           type: string
+ *           enum: [SELF_REVIEW, MANAGER_REVIEW, CALIBRATION, FINALISED]
+ *       - in: query
+ *         name: filter[cycleId]
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Paginated review list ({ items, pagination })
+ *       403:
+ *         description: Forbidden - requires performance:review permission
+ */
+router.get(
+  '/reviews/team',
+  requirePermission(Permission.PERFORMANCE_REVIEW),
+  validateRequest(listReviewsQuerySchema, 'query'), // WHY: Validate query string
+  getTeamReviewsController,
+);
+
+/**
+ * @swagger
+ * /performance/reviews/{id}/self-assessment:
+ *   post:
+ *     summary: Submit self-assessment
+ *     description: The employee rates themselves, once, by the cycle's self review due date.
+ *     tags: [Performance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *             properties:
+ *               rating:
+ *                 type: number
+ *                 minimum: 1
+ *                 maximum: 5
+ *                 multipleOf: 0.5
+ *                 example: 4
+ *               comments:
+ *                 type: string
+ *                 maxLength: 2000
+ *     responses:
+ *       200:
+ *         description: Self-assessment submitted
+ *       404:
+ *         description: Review not found (or not the caller's)
+ *       409:
+ *         description: Already submitted, due date passed, or cycle not active
+ */
+router.post(
+  '/reviews/:id/self-assessment',
+  requirePermission(Permission.PERFORMANCE_SELF),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(assessmentSchema, 'body'), // WHY: Validate request body
+  submitSelfAssessmentController,
+);
+
+/**
+ * @swagger
+ * /performance/reviews/{id}/manager-assessment:
+ *   post:
+ *     summary: Submit manager assessment
+ *     description: The employee's manager rates them, once, by the manager review due date. Before the
+ *       self review due date this waits for the employee's self-assessment.
+ *     tags: [Performance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *             properties:
+ *               rating:
+ *                 type: number
+ *                 minimum: 1
+ *                 maximum: 5
+ *                 multipleOf: 0.5
+ *                 example: 4
+ *               comments:
+ *                 type: string
+ *                 maxLength: 2000
+ *     responses:
+ *       200:
+ *         description: Manager assessment submitted
+ *       403:
+ *         description: Not the employee's manager
+ *       404:
+ *         description: Review not found
+ *       409:
+ *         description: Already submitted, self-assessment still open, due date passed, or cycle not active
+ */
+router.post(
+  '/reviews/:id/manager-assessment',
+  requirePermission(Permission.PERFORMANCE_REVIEW),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(assessmentSchema, 'body'), // WHY: Validate request body
+  submitManagerAssessmentController,
+);
+
+/**
+ * @swagger
+ * /performance/reviews/{id}/calibration:
+ *   put:
+ *     summary: Calibrate review
+ *     description: Sets HR's rating, which overrides the manager's. Can be changed until the cycle is finalised.
+ *     tags: [Performance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *             properties:
+ *               rating:
+ *                 type: number
+ *                 minimum: 1
+ *                 maximum: 5
+ *                 multipleOf: 0.5
+ *                 example: 4
+ *               comments:
+ *                 type: string
+ *                 maxLength: 2000
+ *     responses:
+ *       200:
+ *         description: Rating calibrated
+ *       403:
+ *         description: Own review
+ *       404:
+ *         description: Review not found
+ *       409:
+ *         description: Cycle not in calibration
+ */
+router.put(
+  '/reviews/:id/calibration',
+  requirePermission(Permission.PERFORMANCE_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(assessmentSchema, 'body'), // WHY: Validate request body
+  calibrateReviewController,
+);
+
+export default router;
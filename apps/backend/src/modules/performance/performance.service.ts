@@ -0,0 +1,392 @@
+/**
+ * WHAT: Performance review service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Runs each employee's review through its steps: self-assessment, manager
+ * assessment, HR calibration.
+ *
+ * HOW: Each step is allowed only in its review status, while the cycle is
+ * in the matching step and before the step's due date. Ratings are shown
+ * to the employee only once the cycle is finalised.
+ */
+
+import mongoose, { FilterQuery } from 'mongoose';
+import {
+  PerformanceReview,
+  IPerformanceReviewDocument,
+  IAssessment,
+  ReviewStatus,
+} from './performance.model';
+import { IReviewCycleDocument, ReviewCycle, ReviewCycleStatus } from './review-cycle.model';
+import { findCycleOrFail, isPastDue } from './review-cycle.service';
+import { Employee } from '../employee/employee.model';
+import { getEmployeeDocumentByUserId } from '../employee/employee.service';
+import { JWTPayload } from '../auth/auth.types';
+import { PERFORMANCE_ERRORS, REVIEW_STATUS_TRANSITIONS } from './performance.constants';
+import { AssessmentInput, ListCycleReviewsQuery, ListReviewsQuery } from './performance.validation';
+import {
+  PerformanceReviewResponse,
+  PerformanceReviewListResult,
+  ReviewCycleSummary,
+  AssessmentResponse,
+} from './performance.types';
+import { createHttpError } from '../../utils/error.util';
+import { buildSearchFilter, findPage } from '../../utils/query.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+
+/**
+ * WHAT: Who a review is shown to
+ *
+ * WHY: Each step is made independently - the employee doesn't see their
+ * manager's rating before it is final, and HR's calibration notes stay
+ * with HR.
+ */
+type ReviewView = 'employee' | 'manager' | 'hr';
+
+function toAssessmentResponse(assessment?: IAssessment): AssessmentResponse | undefined {
+  return (
+    assessment && {
+      rating: assessment.rating,
+      comments: assessment.comments,
+      submittedBy: assessment.submittedBy.toString(),
+      submittedAt: assessment.submittedAt,
+    }
+  );
+}
+
+function toCycleSummary(cycle: IReviewCycleDocument): ReviewCycleSummary {
+  return {
+    id: cycle._id.toString(),
+    name: cycle.name,
+    periodStart: cycle.periodStart,
+    periodEnd: cycle.periodEnd,
+    selfReviewDueDate: cycle.selfReviewDueDate,
+    managerReviewDueDate: cycle.managerReviewDueDate,
+    status: cycle.status,
+  };
+}
+
+/**
+ * WHAT: Map performance review document to response shape
+ *
+ * HOW: Assessments the viewer may not see yet are left out
+ */
+function toReviewResponse(
+  review: IPerformanceReviewDocument,
+  view: ReviewView,
+  cycle?: IReviewCycleDocument,
+): PerformanceReviewResponse {
+  const finalised = review.status === ReviewStatus.FINALISED;
+
+  return {
+    id: review._id.toString(),
+    cycleId: review.cycleId.toString(),
+    cycle: cycle && toCycleSummary(cycle),
+    employeeId: review.employeeId.toString(),
+    employeeCode: review.employeeCode,
+    employeeName: review.employeeName,
+    department: review.department,
+    status: review.status,
+    selfAssessment: toAssessmentResponse(review.selfAssessment),
+    managerAssessment:
+      view !== 'employee' || finalised ? toAssessmentResponse(review.managerAssessment) : undefined,
+    calibration: view === 'hr' ? toAssessmentResponse(review.calibration) : undefined,
+    finalRating: review.finalRating,
+    finalisedAt: review.finalisedAt,
+    createdAt: review.createdAt,
+    updatedAt: review.updatedAt,
+  };
+}
+
+/**
+ * WHAT: Map reviews with their cycle summaries
+ *
+ * WHY: Employee and manager lists span cycles; each row shows its deadlines.
+ */
+async function toReviewResponsesWithCycles(
+  reviews: IPerformanceReviewDocument[],
+  view: ReviewView,
+): Promise<PerformanceReviewResponse[]> {
+  const cycles = await ReviewCycle.find({ _id: { $in: reviews.map((review) => review.cycleId) } });
+  const cyclesById = new Map(cycles.map((cycle) => [cycle._id.toString(), cycle]));
+
+  return reviews.map((review) =>
+    toReviewResponse(review, view, cyclesById.get(review.cycleId.toString())),
+  );
+}
+
+/**
+ * WHAT: Find performance review or throw 404
+ */
+async function findReviewOrFail(
+  filter: FilterQuery<IPerformanceReviewDocument>,
+): Promise<IPerformanceReviewDocument> {
+  const review = await PerformanceReview.findOne(filter);
+  if (!review) {
+    throw createHttpError(PERFORMANCE_ERRORS.REVIEW_NOT_FOUND, 404);
+  }
+  return review;
+}
+
+/**
+ * WHAT: Move a review to its next step
+ *
+ * WHY: Single place where review status changes happen, so the transition
+ * table is always enforced. The update is conditional on the status we
+ * read, so a step can't be submitted twice.
+ *
+ * HOW: Validates transition, then findOneAndUpdate guarded by current status
+ */
+async function transitionReview(
+  review: IPerformanceReviewDocument,
+  nextStatus: ReviewStatus,
+  changes: Partial<Pick<IPerformanceReviewDocument, 'selfAssessment' | 'managerAssessment'>>,
+): Promise<IPerformanceReviewDocument> {
+  if (!REVIEW_STATUS_TRANSITIONS[review.status].includes(nextStatus)) {
+    throw createHttpError(
+      `Cannot change review status from ${review.status} to ${nextStatus}`,
+      409,
+    );
+  }
+
+  const updated = await PerformanceReview.findOneAndUpdate(
+    { _id: review._id, status: review.status },
+    { status: nextStatus, ...changes },
+    { new: true, runValidators: true },
+  );
+  if (!updated) {
+    throw createHttpError(PERFORMANCE_ERRORS.CONCURRENT_UPDATE, 409);
+  }
+  return updated;
+}
+
+/**
+ * WHAT: Build an assessment from request input
+ */
+function toAssessment(actor: JWTPayload, input: AssessmentInput): IAssessment {
+  return {
+    rating: input.rating,
+    comments: input.comments,
+    submittedBy: new mongoose.Types.ObjectId(actor.userId),
+    submittedAt: new Date(),
+  };
+}
+
+/**
+ * WHAT: Get own reviews service
+ *
+ * WHY: Employees see what they have to fill in, by when, and - once a
+ * cycle is finalised - their ratings.
+ *
+ * HOW: Resolves the caller's employee record from the JWT userId
+ */
+export async function getMyReviews(
+  userId: string,
+  query: ListReviewsQuery,
+): Promise<PerformanceReviewListResult> {
+  const employee = await getEmployeeDocumentByUserId(userId);
+
+  const filter: FilterQuery<IPerformanceReviewDocument> = {
+    ...query.filter,
+    employeeId: employee._id,
+  };
+
+  const { docs: reviews, pagination } = await findPage(PerformanceReview, filter, query);
+
+  return { reviews: await toReviewResponsesWithCycles(reviews, 'employee'), pagination };
+}
+
+/**
+ * WHAT: Submit self-assessment service
+ *
+ * WHY: The employee's own rating and comments, once, by the self-review
+ * due date. Their manager sees it when assessing.
+ *
+ * HOW: Someone else's review is a 404; moves SELF_REVIEW -> MANAGER_REVIEW
+ */
+export async function submitSelfAssessment(
+  actor: JWTPayload,
+  id: string,
+  input: AssessmentInput,
+): Promise<PerformanceReviewResponse> {
+  const employee = await getEmployeeDocumentByUserId(actor.userId);
+  const review = await findReviewOrFail({ _id: id, employeeId: employee._id });
+  const cycle = await findCycleOrFail(review.cycleId.toString());
+
+  if (cycle.status !== ReviewCycleStatus.ACTIVE) {
+    throw createHttpError(PERFORMANCE_ERRORS.CYCLE_NOT_ACTIVE, 409);
+  }
+  if (isPastDue(cycle.selfReviewDueDate)) {
+    throw createHttpError(PERFORMANCE_ERRORS.SELF_DEADLINE_PASSED, 409);
+  }
+
+  const updated = await transitionReview(review, ReviewStatus.MANAGER_REVIEW, {
+    selfAssessment: toAssessment(actor, input),
+  });
+
+  return toReviewResponse(updated, 'employee', cycle);
+}
+
+/**
+ * WHAT: Get team reviews service
+ *
+ * WHY: Managers see the reviews of their direct reports (Employee.managerId)
+ * to assess them.
+ */
+export async function getTeamReviews(
+  actor: JWTPayload,
+  query: ListReviewsQuery,
+): Promise<PerformanceReviewListResult> {
+  const manager = await getEmployeeDocumentByUserId(actor.userId);
+  const reports = await Employee.find({ managerId: manager._id }).select('_id');
+
+  const filter: FilterQuery<IPerformanceReviewDocument> = {
+    ...query.filter,
+    employeeId: { $in: reports.map((report) => report._id) },
+  };
+
+  const { docs: reviews, pagination } = await findPage(PerformanceReview, filter, query);
+
+  return { reviews: await toReviewResponsesWithCycles(reviews, 'manager'), pagination };
+}
+
+/**
+ * WHAT: Submit manager assessment service
+ *
+ * WHY: The employee's current manager (Employee.managerId) rates them, by
+ * the manager-review due date. If the employee missed their own deadline
+ * the manager goes ahead without a self-assessment.
+ *
+ * HOW: Moves MANAGER_REVIEW (or overdue SELF_REVIEW) -> CALIBRATION
+ */
+export async function submitManagerAssessment(
+  actor: JWTPayload,
+  id: string,
+  input: AssessmentInput,
+): Promise<PerformanceReviewResponse> {
+  const review = await findReviewOrFail({ _id: id });
+
+  const [employee, actorEmployee] = await Promise.all([
+    Employee.findById(review.employeeId),
+    Employee.findOne({ userId: actor.userId }),
+  ]);
+  if (employee?.userId.toString() === actor.userId) {
+    throw createHttpError(PERFORMANCE_ERRORS.SELF_REVIEW, 403);
+  }
+  const isManager =
+    employee !== null &&
+    actorEmployee !== null &&
+    employee.managerId?.toString() === actorEmployee._id.toString();
+  if (!isManager) {
+    throw createHttpError(PERFORMANCE_ERRORS.NOT_MANAGER, 403);
+  }
+
+  const cycle = await findCycleOrFail(review.cycleId.toString());
+  if (cycle.status !== ReviewCycleStatus.ACTIVE) {
+    throw createHttpError(PERFORMANCE_ERRORS.CYCLE_NOT_ACTIVE, 409);
+  }
+  if (review.status === ReviewStatus.SELF_REVIEW && !isPastDue(cycle.selfReviewDueDate)) {
+    throw createHttpError(PERFORMANCE_ERRORS.SELF_DEADLINE_OPEN, 409);
+  }
+  if (isPastDue(cycle.managerReviewDueDate)) {
+    throw createHttpError(PERFORMANCE_ERRORS.MANAGER_DEADLINE_PASSED, 409);
+  }
+
+  const updated = await transitionReview(review, ReviewStatus.CALIBRATION, {
+    managerAssessment: toAssessment(actor, input),
+  });
+
+  return toReviewResponse(updated, 'manager', cycle);
+}
+
+/**
+ * WHAT: Get reviews of a cycle service
+ *
+ * WHY: HR follows progress and calibrates ratings across the company.
+ *
+ * HOW: Paginated; q matches employee name or ID
+ */
+export async function getCycleReviews(
+  cycleId: string,
+  query: ListCycleReviewsQuery,
+): Promise<PerformanceReviewListResult> {
+  const cycle = await findCycleOrFail(cycleId);
+
+  const filter: FilterQuery<IPerformanceReviewDocument> = {
+    cycleId: cycle._id,
+    ...query.filter,
+    ...buildSearchFilter<IPerformanceReviewDocument>(query.q, ['employeeName', 'employeeCode']),
+  };
+
+  const { docs: reviews, pagination } = await findPage(PerformanceReview, filter, query);
+
+  return { reviews: reviews.map((review) => toReviewResponse(review, 'hr', cycle)), pagination };
+}
+
+/**
+ * WHAT: Calibrate review service
+ *
+ * WHY: HR adjusts a rating so the same performance gets the same rating
+ * in every team - or gives one where the manager didn't. It overrides the
+ * manager's rating, and can be changed until the cycle is finalised.
+ *
+ * HOW: Only while cycle and review are in CALIBRATION; nobody calibrates
+ * their own review
+ */
+export async function calibrateReview(
+  actor: JWTPayload,
+  id: string,
+  input: AssessmentInput,
+  context: AuditContext,
+): Promise<PerformanceReviewResponse> {
+  const review = await findReviewOrFail({ _id: id });
+  const cycle = await findCycleOrFail(review.cycleId.toString());
+
+  if (cycle.status !== ReviewCycleStatus.CALIBRATION) {
+    throw createHttpError(PERFORMANCE_ERRORS.CYCLE_NOT_CALIBRATING, 409);
+  }
+  const employee = await Employee.findById(review.employeeId);
+  if (employee?.userId.toString() === actor.userId) {
+    throw createHttpError(PERFORMANCE_ERRORS.SELF_REVIEW, 403);
+  }
+
+  const updated = await PerformanceReview.findOneAndUpdate(
+    { _id: review._id, status: ReviewStatus.CALIBRATION },
+    { calibration: toAssessment(actor, input) },
+    { new: true, runValidators: true },
+  );
+  if (!updated) {
+    throw createHttpError(PERFORMANCE_ERRORS.CONCURRENT_UPDATE, 409);
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.UPDATE,
+    entityType: AuditEntityType.PERFORMANCE_REVIEW,
+    entityId: id,
+    before: review.toObject(),
+    after: updated.toObject(),
+    metadata: { cycleId: cycle._id.toString() },
+  });
+
+  return toReviewResponse(updated, 'hr', cycle);
+}
+
+/**
+ * WHAT: Latest final rating of an employee
+ *
+ * WHY: Shown on the employee dashboard.
+ *
+ * HOW: null before the employee's first finalised review
+ */
+export async function getLatestFinalRating(
+  employeeId: mongoose.Types.ObjectId,
+): Promise<number | null> {
+  const review = await PerformanceReview.findOne({
+    employeeId,
+    status: ReviewStatus.FINALISED,
+  }).sort({ finalisedAt: -1 });
+
+  return review?.finalRating ?? null;
+}
@@ -0,0 +1,99 @@
+/**
+ * WHAT: TypeScript types for Performance module
+ *
+ * WHY: Centralized type definitions ensure type safety across performance module.
+ * Response types decouple the API contract from the Mongoose document shape.
+ *
+ * HOW: Exports interfaces used in performance services and controller
+ */
+
+import { ReviewCycleStatus } from './review-cycle.model';
+import { ReviewStatus } from './performance.model';
+import { Pagination } from '../../utils/response.util';
+
+/**
+ * WHAT: Review cycle response interface
+ */
+export interface ReviewCycleResponse {
+  id: string;
+  name: string;
+  periodStart: Date;
+  periodEnd: Date;
+  departments: string[];
+  selfReviewDueDate: Date;
+  managerReviewDueDate: Date;
+  calibrationDueDate: Date;
+  status: ReviewCycleStatus;
+  participantCount: number;
+  createdBy: string;
+  launchedAt?: Date;
+  finalisedAt?: Date;
+  finalisedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Paginated review cycle list
+ */
+export interface ReviewCycleListResult {
+  cycles: ReviewCycleResponse[];
+  pagination: Pagination;
+}
+
+/**
+ * WHAT: Cycle summary embedded in review responses
+ *
+ * WHY: Employees and managers need the deadlines without extra requests.
+ */
+export interface ReviewCycleSummary {
+  id: string;
+  name: string;
+  periodStart: Date;
+  periodEnd: Date;
+  selfReviewDueDate: Date;
+  managerReviewDueDate: Date;
+  status: ReviewCycleStatus;
+}
+
+/**
+ * WHAT: Assessment response interface
+ */
+export interface AssessmentResponse {
+  rating: number;
+  comments?: string;
+  submittedBy: string;
+  submittedAt: Date;
+}
+
+/**
+ * WHAT: Performance review response interface
+ *
+ * WHY: Which assessments are included depends on who asks - see
+ * toReviewResponse() in performance.service.ts.
+ */
+export interface PerformanceReviewResponse {
+  id: string;
+  cycleId: string;
+  cycle?: ReviewCycleSummary;
+  employeeId: string;
+  employeeCode: string;
+  employeeName: string;
+  department: string;
+  status: ReviewStatus;
+  selfAssessment?: AssessmentResponse;
+  managerAssessment?: AssessmentResponse;
+  calibration?: AssessmentResponse;
+  finalRating?: number;
+  finalisedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Paginated performance review list
+ */
+export interface PerformanceReviewListResult {
+  reviews: PerformanceReviewResponse[];
+  pagination: Pagination;
+}
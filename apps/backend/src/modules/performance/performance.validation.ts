@@ -0,0 +1,139 @@
+/**
+ * WHAT: Validation schemas for Performance endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating request bodies and query strings
+ */
+
+import { z } from 'zod';
+import { ReviewCycleStatus } from './review-cycle.model';
+import { ReviewStatus } from './performance.model';
+import { PERFORMANCE_RATING } from './performance.constants';
+import { objectIdSchema } from '../../utils/validation.util';
+import { createListQuerySchema } from '../../utils/query.util';
+
+/**
+ * WHAT: Review cycle fields
+ *
+ * WHY: Dates are coerced because JSON bodies carry them as strings.
+ * Departments are names or codes, resolved against active departments.
+ */
+const reviewCycleFields = {
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Cycle name is required')
+    .max(100, 'Cycle name must be less than 100 characters'),
+  periodStart: z.coerce.date({ invalid_type_error: 'Invalid period start' }),
+  periodEnd: z.coerce.date({ invalid_type_error: 'Invalid period end' }),
+  departments: z.array(z.string().trim().min(1)).max(100),
+  selfReviewDueDate: z.coerce.date({ invalid_type_error: 'Invalid self review due date' }),
+  managerReviewDueDate: z.coerce.date({ invalid_type_error: 'Invalid manager review due date' }),
+  calibrationDueDate: z.coerce.date({ invalid_type_error: 'Invalid calibration due date' }),
+};
+
+/**
+ * WHAT: Create review cycle validation schema
+ *
+ * WHY: Steps happen in order, so their due dates must too.
+ * No departments means every department takes part.
+ */
+export const createReviewCycleSchema = z
+  .object({ ...reviewCycleFields, departments: reviewCycleFields.departments.default([]) })
+  .refine((data) => data.periodEnd >= data.periodStart, {
+    message: 'Period end must be on or after period start',
+    path: ['periodEnd'],
+  })
+  .refine((data) => data.managerReviewDueDate >= data.selfReviewDueDate, {
+    message: 'Manager review is due on or after the self review',
+    path: ['managerReviewDueDate'],
+  })
+  .refine((data) => data.calibrationDueDate >= data.managerReviewDueDate, {
+    message: 'Calibration is due on or after the manager review',
+    path: ['calibrationDueDate'],
+  });
+
+/**
+ * WHAT: Update review cycle validation schema
+ *
+ * WHY: Partial update - only provided fields change. Date order is checked
+ * by the service against the stored values.
+ */
+export const updateReviewCycleSchema = z
+  .object(reviewCycleFields)
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * WHAT: Assessment validation schema
+ *
+ * WHY: Self, manager and calibration ratings share one scale.
+ */
+export const assessmentSchema = z.object({
+  rating: z
+    .number({ invalid_type_error: 'Rating must be a number' })
+    .min(PERFORMANCE_RATING.MIN, `Rating must be at least ${PERFORMANCE_RATING.MIN}`)
+    .max(PERFORMANCE_RATING.MAX, `Rating must be at most ${PERFORMANCE_RATING.MAX}`)
+    .multipleOf(PERFORMANCE_RATING.STEP, `Rating must be in steps of ${PERFORMANCE_RATING.STEP}`),
+  comments: z
+    .string()
+    .trim()
+    .max(2000, 'Comments must be less than 2000 characters')
+    .optional(),
+});
+
+/**
+ * WHAT: List review cycles query validation schema
+ */
+export const listReviewCyclesQuerySchema = createListQuerySchema({
+  filters: {
+    status: z.nativeEnum(ReviewCycleStatus),
+  },
+  sortable: ['periodStart', 'createdAt'],
+  defaultSort: '-periodStart', // WHY: Latest cycle first
+});
+
+/**
+ * WHAT: Reviews of a cycle query validation schema
+ *
+ * WHY: Standard list query - q matches employee name or ID.
+ */
+export const listCycleReviewsQuerySchema = createListQuerySchema({
+  filters: {
+    status: z.nativeEnum(ReviewStatus),
+    department: z.string().trim().min(1),
+  },
+  sortable: ['employeeCode', 'employeeName', 'finalRating'],
+  defaultSort: 'employeeCode',
+  defaultLimit: 20,
+});
+
+/**
+ * WHAT: Own and team reviews query validation schema
+ */
+export const listReviewsQuerySchema = createListQuerySchema({
+  filters: {
+    status: z.nativeEnum(ReviewStatus),
+    cycleId: objectIdSchema,
+  },
+  sortable: ['createdAt', 'employeeName'],
+  defaultSort: '-createdAt', // WHY: Current cycle first
+});
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * WHY: Type-safe request bodies in controllers.
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type CreateReviewCycleInput = z.infer<typeof createReviewCycleSchema>;
+export type UpdateReviewCycleInput = z.infer<typeof updateReviewCycleSchema>;
+export type AssessmentInput = z.infer<typeof assessmentSchema>;
+export type ListReviewCyclesQuery = z.infer<typeof listReviewCyclesQuerySchema>;
+export type ListCycleReviewsQuery = z.infer<typeof listCycleReviewsQuerySchema>;
+export type ListReviewsQuery = z.infer<typeof listReviewsQuerySchema>;
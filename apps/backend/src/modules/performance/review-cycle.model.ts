@@ -0,0 +1,141 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Review cycle Mongoose model and schema
+ *
+ * WHY: A review cycle is one round of performance reviews - the period it
+ * covers, who takes part, and when each step is due.
+ *
+ * HOW: Launching a cycle creates one review per participant (see
+ * performance.model.ts). The cycle's status is the step the company is in.
+ */
+
+/**
+ * WHAT: Review cycle status enum
+ *
+ * WHY: The cycle moves through its steps in order; see
+ * REVIEW_CYCLE_STATUS_TRANSITIONS in performance.constants.ts.
+ */
+export enum ReviewCycleStatus {
+  DRAFT = 'DRAFT', // WHY: Being set up - no reviews yet
+  ACTIVE = 'ACTIVE', // WHY: Self and manager assessments
+  CALIBRATION = 'CALIBRATION', // WHY: HR aligns ratings across teams
+  FINALISED = 'FINALISED', // WHY: Final ratings published, nothing changes
+}
+
+/**
+ * WHAT: Review cycle document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ *
+ * HOW: Used throughout performance module for type safety
+ */
+export interface IReviewCycleDocument extends Document {
+  name: string;
+  periodStart: Date; // WHY: Work period under review
+  periodEnd: Date;
+  departments: string[]; // WHY: Participating departments - empty means every department
+  selfReviewDueDate: Date; // WHY: Last day for self-assessments
+  managerReviewDueDate: Date; // WHY: Last day for manager assessments
+  calibrationDueDate: Date; // WHY: Target date for HR to finalise
+  status: ReviewCycleStatus;
+  participantCount: number;
+  createdBy: mongoose.Types.ObjectId; // WHY: Reference to User
+  launchedAt?: Date;
+  finalisedAt?: Date;
+  finalisedBy?: mongoose.Types.ObjectId; // WHY: Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Review cycle schema definition
+ *
+ * WHY: Schema defines structure, validation, and indexes for review cycle collection.
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const reviewCycleSchema = new Schema<IReviewCycleDocument>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Cycle name is required'],
+      trim: true,
+      maxlength: [100, 'Cycle name must be less than 100 characters'],
+    },
+
+    periodStart: {
+      type: Date,
+      required: [true, 'Period start is required'],
+    },
+
+    periodEnd: {
+      type: Date,
+      required: [true, 'Period end is required'],
+    },
+
+    departments: {
+      type: [String],
+      default: [],
+    },
+
+    selfReviewDueDate: {
+      type: Date,
+      required: [true, 'Self review due date is required'],
+    },
+
+    managerReviewDueDate: {
+      type: Date,
+      required: [true, 'Manager review due date is required'],
+    },
+
+    calibrationDueDate: {
+      type: Date,
+      required: [true, 'Calibration due date is required'],
+    },
+
+    status: {
+      type: String,
+      enum: Object.values(ReviewCycleStatus),
+      default: ReviewCycleStatus.DRAFT,
+      required: true,
+      index: true,
+    },
+
+    participantCount: {
+      type: Number,
+      default: 0,
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+
+    launchedAt: {
+      type: Date,
+    },
+
+    finalisedAt: {
+      type: Date,
+    },
+
+    finalisedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+/**
+ * WHAT: Review cycle model export
+ *
+ * WHY: Model provides database operations.
+ *
+ * HOW: Mongoose model created from schema
+ */
+export const ReviewCycle = mongoose.model<IReviewCycleDocument>('ReviewCycle', reviewCycleSchema);
@@ -0,0 +1,435 @@
+/**
+ * WHAT: Review cycle service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * HR sets up review cycles and moves them through their steps.
+ *
+ * HOW: A cycle is set up as a draft, launched (one review per participant),
+ * moved to calibration once manager assessments are in or overdue, then
+ * finalised, which fixes every participant's final rating. Each move
+ * updates the cycle and its reviews in one transaction.
+ */
+
+import mongoose, { ClientSession, FilterQuery } from 'mongoose';
+import { ReviewCycle, IReviewCycleDocument, ReviewCycleStatus } from './review-cycle.model';
+import { PerformanceReview, ReviewStatus } from './performance.model';
+import { Employee } from '../employee/employee.model';
+import { resolveActiveDepartmentName } from '../department/department.service';
+import { JWTPayload } from '../auth/auth.types';
+import { PERFORMANCE_ERRORS, REVIEW_CYCLE_STATUS_TRANSITIONS } from './performance.constants';
+import {
+  CreateReviewCycleInput,
+  UpdateReviewCycleInput,
+  ListReviewCyclesQuery,
+} from './performance.validation';
+import { ReviewCycleResponse, ReviewCycleListResult } from './performance.types';
+import { createHttpError } from '../../utils/error.util';
+import { findPage } from '../../utils/query.util';
+import { toDateKey } from '../../utils/date.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+
+/**
+ * WHAT: Fields that can still change after launch
+ *
+ * WHY: Participants and the period are fixed once reviews exist; HR may
+ * still extend a deadline.
+ */
+const DEADLINE_FIELDS = ['selfReviewDueDate', 'managerReviewDueDate', 'calibrationDueDate'] as const;
+
+/**
+ * WHAT: Map review cycle document to response shape
+ */
+function toReviewCycleResponse(cycle: IReviewCycleDocument): ReviewCycleResponse {
+  return {
+    id: cycle._id.toString(),
+    name: cycle.name,
+    periodStart: cycle.periodStart,
+    periodEnd: cycle.periodEnd,
+    departments: cycle.departments,
+    selfReviewDueDate: cycle.selfReviewDueDate,
+    managerReviewDueDate: cycle.managerReviewDueDate,
+    calibrationDueDate: cycle.calibrationDueDate,
+    status: cycle.status,
+    participantCount: cycle.participantCount,
+    createdBy: cycle.createdBy.toString(),
+    launchedAt: cycle.launchedAt,
+    finalisedAt: cycle.finalisedAt,
+    finalisedBy: cycle.finalisedBy?.toString(),
+    createdAt: cycle.createdAt,
+    updatedAt: cycle.updatedAt,
+  };
+}
+
+/**
+ * WHAT: Whether a due date is over
+ *
+ * WHY: Due dates are whole days - a step due on the 15th can be done all
+ * of the 15th (UTC).
+ */
+export function isPastDue(dueDate: Date): boolean {
+  return toDateKey(new Date()) > toDateKey(dueDate);
+}
+
+/**
+ * WHAT: Find review cycle or throw 404
+ *
+ * WHY: Also used by the review service to check a cycle's step and deadlines.
+ */
+export async function findCycleOrFail(id: string): Promise<IReviewCycleDocument> {
+  const cycle = await ReviewCycle.findById(id);
+  if (!cycle) {
+    throw createHttpError(PERFORMANCE_ERRORS.CYCLE_NOT_FOUND, 404);
+  }
+  return cycle;
+}
+
+/**
+ * WHAT: Resolve participating departments to their canonical names
+ *
+ * HOW: Each must be an active department; duplicates are dropped
+ */
+async function resolveDepartments(values: string[]): Promise<string[]> {
+  const names = await Promise.all(values.map((value) => resolveActiveDepartmentName(value)));
+  return [...new Set(names)];
+}
+
+/**
+ * WHAT: Check the cycle's dates are in order
+ *
+ * WHY: An update may change one date only; the order is checked against
+ * the stored values.
+ */
+function assertDateOrder(cycle: IReviewCycleDocument): void {
+  if (cycle.periodEnd < cycle.periodStart) {
+    throw createHttpError('Period end must be on or after period start', 400);
+  }
+  if (cycle.managerReviewDueDate < cycle.selfReviewDueDate) {
+    throw createHttpError('Manager review is due on or after the self review', 400);
+  }
+  if (cycle.calibrationDueDate < cycle.managerReviewDueDate) {
+    throw createHttpError('Calibration is due on or after the manager review', 400);
+  }
+}
+
+/**
+ * WHAT: Move a review cycle to its next step
+ *
+ * WHY: Single place where cycle status changes happen, so the transition
+ * table is always enforced. The update is conditional on the status we
+ * read, so two requests can't both move the cycle.
+ *
+ * HOW: Validates transition, then findOneAndUpdate guarded by current status
+ */
+async function transitionCycle(
+  cycle: IReviewCycleDocument,
+  nextStatus: ReviewCycleStatus,
+  changes: Partial<
+    Pick<IReviewCycleDocument, 'participantCount' | 'launchedAt' | 'finalisedAt' | 'finalisedBy'>
+  > = {},
+  session?: ClientSession,
+): Promise<IReviewCycleDocument> {
+  const updated = await ReviewCycle.findOneAndUpdate(
+    { _id: cycle._id, status: cycle.status },
+    { status: nextStatus, ...changes },
+    { new: true, runValidators: true, session },
+  );
+  if (!updated) {
+    throw createHttpError(PERFORMANCE_ERRORS.CONCURRENT_UPDATE, 409);
+  }
+  return updated;
+}
+
+/**
+ * WHAT: Refuse a step the cycle can't take from its current status
+ *
+ * WHY: Checked before any work is done, so the error is the transition's.
+ */
+function assertCanTransition(cycle: IReviewCycleDocument, nextStatus: ReviewCycleStatus): void {
+  if (!REVIEW_CYCLE_STATUS_TRANSITIONS[cycle.status].includes(nextStatus)) {
+    throw createHttpError(
+      `Cannot change review cycle status from ${cycle.status} to ${nextStatus}`,
+      409,
+    );
+  }
+}
+
+/**
+ * WHAT: Create review cycle service
+ *
+ * WHY: HR sets up a cycle - period, departments and due dates - before
+ * launching it.
+ *
+ * HOW: Created as DRAFT; nothing is sent to employees yet
+ */
+export async function createReviewCycle(
+  actor: JWTPayload,
+  input: CreateReviewCycleInput,
+  context: AuditContext,
+): Promise<ReviewCycleResponse> {
+  const departments = await resolveDepartments(input.departments);
+
+  const cycle = await ReviewCycle.create({
+    ...input,
+    departments,
+    createdBy: new mongoose.Types.ObjectId(actor.userId),
+  });
+
+  await recordAuditLog(context, {
+    action: AuditAction.CREATE,
+    entityType: AuditEntityType.REVIEW_CYCLE,
+    entityId: cycle._id.toString(),
+    after: cycle.toObject(),
+  });
+
+  return toReviewCycleResponse(cycle);
+}
+
+/**
+ * WHAT: Get review cycles service
+ *
+ * WHY: Paginated list, latest cycle first.
+ */
+export async function getReviewCycles(query: ListReviewCyclesQuery): Promise<ReviewCycleListResult> {
+  const filter: FilterQuery<IReviewCycleDocument> = { ...query.filter };
+
+  const { docs: cycles, pagination } = await findPage(ReviewCycle, filter, query);
+
+  return { cycles: cycles.map(toReviewCycleResponse), pagination };
+}
+
+/**
+ * WHAT: Get review cycle service
+ */
+export async function getReviewCycle(id: string): Promise<ReviewCycleResponse> {
+  return toReviewCycleResponse(await findCycleOrFail(id));
+}
+
+/**
+ * WHAT: Update review cycle service
+ *
+ * WHY: A draft can change freely. Once launched only the due dates can
+ * move - e.g. to give everyone another week. A finalised cycle is fixed.
+ *
+ * HOW: Applies provided fields, checks date order, saves
+ */
+export async function updateReviewCycle(
+  id: string,
+  input: UpdateReviewCycleInput,
+  context: AuditContext,
+): Promise<ReviewCycleResponse> {
+  const cycle = await findCycleOrFail(id);
+
+  if (cycle.status === ReviewCycleStatus.FINALISED) {
+    throw createHttpError(PERFORMANCE_ERRORS.CYCLE_FINALISED, 409);
+  }
+  const deadlinesOnly = Object.keys(input).every((key) =>
+    (DEADLINE_FIELDS as readonly string[]).includes(key),
+  );
+  if (cycle.status !== ReviewCycleStatus.DRAFT && !deadlinesOnly) {
+    throw createHttpError(PERFORMANCE_ERRORS.CYCLE_NOT_DRAFT, 409);
+  }
+
+  const before = cycle.toObject();
+  const { departments, ...fields } = input;
+  cycle.set(fields);
+  if (departments !== undefined) {
+    cycle.departments = await resolveDepartments(departments);
+  }
+  assertDateOrder(cycle);
+
+  await cycle.save();
+
+  await recordAuditLog(context, {
+    action: AuditAction.UPDATE,
+    entityType: AuditEntityType.REVIEW_CYCLE,
+    entityId: id,
+    before,
+    after: cycle.toObject(),
+  });
+
+  return toReviewCycleResponse(cycle);
+}
+
+/**
+ * WHAT: Launch review cycle service
+ *
+ * WHY: Opens the cycle - every participant gets a review waiting for their
+ * self-assessment.
+ *
+ * HOW: Participants are active employees of the cycle's departments who
+ * joined by the end of the period. Their reviews and the cycle's new
+ * status are written in one transaction.
+ */
+export async function launchReviewCycle(
+  id: string,
+  context: AuditContext,
+): Promise<ReviewCycleResponse> {
+  const cycle = await findCycleOrFail(id);
+  assertCanTransition(cycle, ReviewCycleStatus.ACTIVE);
+
+  if (isPastDue(cycle.selfReviewDueDate)) {
+    throw createHttpError(PERFORMANCE_ERRORS.SELF_DUE_DATE_PASSED, 400);
+  }
+
+  const participants = await Employee.find({
+    isActive: true,
+    joiningDate: { $lte: cycle.periodEnd },
+    ...(cycle.departments.length > 0 && { department: { $in: cycle.departments } }),
+  }).sort({ employeeId: 1 });
+  if (participants.length === 0) {
+    throw createHttpError(PERFORMANCE_ERRORS.NO_PARTICIPANTS, 400);
+  }
+
+  let launched!: IReviewCycleDocument;
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      launched = await transitionCycle(
+        cycle,
+        ReviewCycleStatus.ACTIVE,
+        { participantCount: participants.length, launchedAt: new Date() },
+        session,
+      );
+      await PerformanceReview.insertMany(
+        participants.map((employee) => ({
+          cycleId: cycle._id,
+          employeeId: employee._id,
+          employeeCode: employee.employeeId,
+          employeeName: `${employee.firstName} ${employee.lastName}`,
+          department: employee.department,
+        })),
+        { session },
+      );
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.STATUS_CHANGE,
+    entityType: AuditEntityType.REVIEW_CYCLE,
+    entityId: id,
+    before: cycle.toObject(),
+    after: launched.toObject(),
+  });
+
+  return toReviewCycleResponse(launched);
+}
+
+/**
+ * WHAT: Start calibration service
+ *
+ * WHY: HR compares ratings across teams once managers are done. Allowed
+ * when every manager assessment is in, or once they are overdue - reviews
+ * still waiting then move on without them.
+ *
+ * HOW: Moves open reviews and the cycle to CALIBRATION in one transaction
+ */
+export async function startCalibration(
+  id: string,
+  context: AuditContext,
+): Promise<ReviewCycleResponse> {
+  const cycle = await findCycleOrFail(id);
+  assertCanTransition(cycle, ReviewCycleStatus.CALIBRATION);
+
+  const openFilter = {
+    cycleId: cycle._id,
+    status: { $in: [ReviewStatus.SELF_REVIEW, ReviewStatus.MANAGER_REVIEW] },
+  };
+  if (!isPastDue(cycle.managerReviewDueDate) && (await PerformanceReview.exists(openFilter))) {
+    throw createHttpError(PERFORMANCE_ERRORS.MANAGER_REVIEWS_OPEN, 409);
+  }
+
+  let calibrating!: IReviewCycleDocument;
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      calibrating = await transitionCycle(cycle, ReviewCycleStatus.CALIBRATION, {}, session);
+      await PerformanceReview.updateMany(
+        openFilter,
+        { $set: { status: ReviewStatus.CALIBRATION } },
+        { session },
+      );
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.STATUS_CHANGE,
+    entityType: AuditEntityType.REVIEW_CYCLE,
+    entityId: id,
+    before: cycle.toObject(),
+    after: calibrating.toObject(),
+  });
+
+  return toReviewCycleResponse(calibrating);
+}
+
+/**
+ * WHAT: Finalise review cycle service
+ *
+ * WHY: Publishes the final ratings - HR's calibrated rating where there is
+ * one, otherwise the manager's. Every review needs one of the two.
+ *
+ * HOW: Sets every review's final rating and the cycle's status in one transaction
+ */
+export async function finaliseReviewCycle(
+  actor: JWTPayload,
+  id: string,
+  context: AuditContext,
+): Promise<ReviewCycleResponse> {
+  const cycle = await findCycleOrFail(id);
+  assertCanTransition(cycle, ReviewCycleStatus.FINALISED);
+
+  const unrated = await PerformanceReview.countDocuments({
+    cycleId: cycle._id,
+    calibration: { $exists: false },
+    managerAssessment: { $exists: false },
+  });
+  if (unrated > 0) {
+    throw createHttpError(`${PERFORMANCE_ERRORS.UNRATED_REVIEWS} (${unrated} left)`, 409);
+  }
+
+  const finalisedAt = new Date();
+  let finalised!: IReviewCycleDocument;
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      finalised = await transitionCycle(
+        cycle,
+        ReviewCycleStatus.FINALISED,
+        { finalisedAt, finalisedBy: new mongoose.Types.ObjectId(actor.userId) },
+        session,
+      );
+      // WHY: Pipeline update - the final rating is read from each review's own fields
+      await PerformanceReview.updateMany(
+        { cycleId: cycle._id, status: ReviewStatus.CALIBRATION },
+        [
+          {
+            $set: {
+              status: ReviewStatus.FINALISED,
+              finalRating: { $ifNull: ['$calibration.rating', '$managerAssessment.rating'] },
+              finalisedAt,
+            },
+          },
+        ],
+        { session },
+      );
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.STATUS_CHANGE,
+    entityType: AuditEntityType.REVIEW_CYCLE,
+    entityId: id,
+    before: cycle.toObject(),
+    after: finalised.toObject(),
+  });
+
+  return toReviewCycleResponse(finalised);
+}
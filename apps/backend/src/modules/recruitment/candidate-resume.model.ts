@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Candidate resume Mongoose model and schema
+ *
+ * WHY: Resumes are stored in MongoDB with the rest of the data, so there
+ * is no file storage to set up or back up separately. They are kept out
+ * of the candidate document so lists don't load megabytes of files.
+ *
+ * HOW: One document per candidate, replaced on re-upload. The size limit
+ * (RESUME_LIMITS) keeps it far below MongoDB's 16 MB document limit.
+ */
+
+/**
+ * WHAT: Candidate resume document interface
+ */
+export interface ICandidateResumeDocument extends Document {
+  candidateId: mongoose.Types.ObjectId; // WHY: Reference to Candidate
+  data: Buffer;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Candidate resume schema definition
+ */
+const candidateResumeSchema = new Schema<ICandidateResumeDocument>(
+  {
+    candidateId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Candidate',
+      required: true,
+      unique: true, // WHY: One current resume per candidate
+    },
+
+    data: {
+      type: Buffer,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+/**
+ * WHAT: Candidate resume model export
+ */
+export const CandidateResume = mongoose.model<ICandidateResumeDocument>(
+  'CandidateResume',
+  candidateResumeSchema,
+);
@@ -0,0 +1,253 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Candidate Mongoose model and schema
+ *
+ * WHY: One applicant for one requisition, the stage they have reached and
+ * how they got there.
+ *
+ * HOW: Every stage change is appended to stageHistory, so the history
+ * shows who moved the candidate and when. The resume file itself lives in
+ * CandidateResume; only its details are kept here.
+ */
+
+/**
+ * WHAT: Candidate pipeline stage enum
+ *
+ * WHY: Declared in pipeline order. Which stages a candidate goes through
+ * is set per requisition; see PIPELINE_STAGES in recruitment.constants.ts.
+ */
+export enum CandidateStage {
+  APPLIED = 'APPLIED',
+  SCREENING = 'SCREENING',
+  INTERVIEW = 'INTERVIEW',
+  OFFER = 'OFFER',
+  HIRED = 'HIRED',
+  REJECTED = 'REJECTED', // WHY: Rejected, withdrawn or offer declined - the note says which
+}
+
+/**
+ * WHAT: One stage change
+ */
+export interface IStageChange {
+  stage: CandidateStage;
+  note?: string;
+  changedBy: mongoose.Types.ObjectId; // WHY: Reference to User
+  changedAt: Date;
+}
+
+/**
+ * WHAT: Offer made to a candidate
+ *
+ * WHY: What the candidate was offered - the details of their employee
+ * record if they accept.
+ */
+export interface IOffer {
+  designation: string;
+  joiningDate: Date;
+  managerId?: mongoose.Types.ObjectId; // WHY: Reference to Employee
+  salary?: number;
+  location?: string;
+}
+
+/**
+ * WHAT: Uploaded resume details
+ */
+export interface IResumeInfo {
+  filename: string;
+  contentType: string;
+  size: number; // WHY: Bytes
+  uploadedAt: Date;
+}
+
+/**
+ * WHAT: Candidate document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ *
+ * HOW: Used throughout recruitment module for type safety
+ */
+export interface ICandidateDocument extends Document {
+  requisitionId: mongoose.Types.ObjectId; // WHY: Reference to JobRequisition
+  firstName: string;
+  lastName: string;
+  email: string;
+  phoneNumber?: string;
+  source?: string; // WHY: Where they came from - referral, job board, ...
+  stage: CandidateStage;
+  stageHistory: IStageChange[];
+  offer?: IOffer;
+  resume?: IResumeInfo;
+  employeeId?: mongoose.Types.ObjectId; // WHY: Reference to Employee, set once converted
+  createdBy: mongoose.Types.ObjectId; // WHY: Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Stage change schema
+ */
+const stageChangeSchema = new Schema<IStageChange>(
+  {
+    stage: {
+      type: String,
+      enum: Object.values(CandidateStage),
+      required: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Note must be less than 1000 characters'],
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    changedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false },
+);
+
+/**
+ * WHAT: Offer schema
+ */
+const offerSchema = new Schema<IOffer>(
+  {
+    designation: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    joiningDate: {
+      type: Date,
+      required: true,
+    },
+    managerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Employee',
+    },
+    salary: {
+      type: Number,
+      min: [0, 'Salary cannot be negative'],
+    },
+    location: {
+      type: String,
+      trim: true,
+    },
+  },
+  { _id: false },
+);
+
+/**
+ * WHAT: Resume details schema
+ */
+const resumeInfoSchema = new Schema<IResumeInfo>(
+  {
+    filename: { type: String, required: true },
+    contentType: { type: String, required: true },
+    size: { type: Number, required: true },
+    uploadedAt: { type: Date, required: true },
+  },
+  { _id: false },
+);
+
+/**
+ * WHAT: Candidate schema definition
+ *
+ * WHY: Schema defines structure, validation, and indexes for candidate collection.
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const candidateSchema = new Schema<ICandidateDocument>(
+  {
+    requisitionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'JobRequisition',
+      required: true,
+    },
+
+    firstName: {
+      type: String,
+      required: [true, 'First name is required'],
+      trim: true,
+      maxlength: [50, 'First name must be less than 50 characters'],
+    },
+
+    lastName: {
+      type: String,
+      required: [true, 'Last name is required'],
+      trim: true,
+      maxlength: [50, 'Last name must be less than 50 characters'],
+    },
+
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      lowercase: true,
+      trim: true,
+    },
+
+    phoneNumber: {
+      type: String,
+      trim: true,
+    },
+
+    source: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Source must be less than 100 characters'],
+    },
+
+    stage: {
+      type: String,
+      enum: Object.values(CandidateStage),
+      default: CandidateStage.APPLIED,
+      required: true,
+    },
+
+    stageHistory: {
+      type: [stageChangeSchema],
+      default: [],
+    },
+
+    offer: {
+      type: offerSchema,
+    },
+
+    resume: {
+      type: resumeInfoSchema,
+    },
+
+    employeeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Employee',
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// WHY: The same person can't apply twice for one requisition
+candidateSchema.index({ requisitionId: 1, email: 1 }, { unique: true });
+// WHY: Stage counts per requisition (pipeline, dashboard)
+candidateSchema.index({ requisitionId: 1, stage: 1 });
+
+/**
+ * WHAT: Candidate model export
+ *
+ * WHY: Model provides database operations.
+ *
+ * HOW: Mongoose model created from schema
+ */
+export const Candidate = mongoose.model<ICandidateDocument>('Candidate', candidateSchema);
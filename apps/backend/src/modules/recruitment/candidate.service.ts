@@ -0,0 +1,590 @@
+/**
+ * WHAT: Candidate service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * HR adds candidates to requisitions and moves them through its pipeline,
+ * then converts hires into employees.
+ *
+ * HOW: Candidates move forward through their requisition's stages, or out
+ * as REJECTED. Each move is a conditional update on the stage we read and
+ * appends to the candidate's stage history. A hire also counts towards
+ * the requisition's openings, in the same transaction.
+ */
+
+import { Writable } from 'stream';
+import mongoose, { ClientSession, FilterQuery, UpdateQuery } from 'mongoose';
+import { Candidate, CandidateStage, ICandidateDocument, IOffer } from './candidate.model';
+import { CandidateResume } from './candidate-resume.model';
+import {
+  JobRequisition,
+  IJobRequisitionDocument,
+  RequisitionStatus,
+} from './job-requisition.model';
+import {
+  assertActiveManager,
+  findActiveDepartmentOrFail,
+  findRequisitionOrFail,
+} from './job-requisition.service';
+import { User, IUserDocument } from '../auth/auth.model';
+import { JWTPayload, UserRole } from '../auth/auth.types';
+import { Employee, IEmployeeDocument } from '../employee/employee.model';
+import { getEmployeeById } from '../employee/employee.service';
+import { IOnboardingDocument } from '../onboarding/onboarding.model';
+import { startOnboarding, toOnboardingResponse } from '../onboarding/onboarding.service';
+import { FINAL_STAGES, PIPELINE_STAGES, RECRUITMENT_ERRORS } from './recruitment.constants';
+import {
+  CreateCandidateInput,
+  UpdateCandidateInput,
+  MoveCandidateInput,
+  ConvertCandidateInput,
+  OfferInput,
+  ListCandidatesQuery,
+} from './recruitment.validation';
+import {
+  CandidateResponse,
+  CandidateListResult,
+  CandidateConversionResult,
+} from './recruitment.types';
+import { createHttpError } from '../../utils/error.util';
+import { buildSearchFilter, findPage } from '../../utils/query.util';
+import { DownloadFile } from '../../utils/export.util';
+import { writeChunk } from '../../utils/zip.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+import { generateRandomPassword } from '../../utils/password.util';
+import { sendMail } from '../mail/mail.service';
+import { temporaryPasswordMail } from '../mail/mail.templates';
+import env from '../../config/env';
+
+/**
+ * WHAT: Map candidate document to response shape
+ */
+function toCandidateResponse(candidate: ICandidateDocument): CandidateResponse {
+  return {
+    id: candidate._id.toString(),
+    requisitionId: candidate.requisitionId.toString(),
+    firstName: candidate.firstName,
+    lastName: candidate.lastName,
+    email: candidate.email,
+    phoneNumber: candidate.phoneNumber,
+    source: candidate.source,
+    stage: candidate.stage,
+    stageHistory: candidate.stageHistory.map((change) => ({
+      stage: change.stage,
+      note: change.note,
+      changedBy: change.changedBy.toString(),
+      changedAt: change.changedAt,
+    })),
+    offer: candidate.offer && {
+      designation: candidate.offer.designation,
+      joiningDate: candidate.offer.joiningDate,
+      managerId: candidate.offer.managerId?.toString(),
+      salary: candidate.offer.salary,
+      location: candidate.offer.location,
+    },
+    resume: candidate.resume && {
+      filename: candidate.resume.filename,
+      contentType: candidate.resume.contentType,
+      size: candidate.resume.size,
+      uploadedAt: candidate.resume.uploadedAt,
+    },
+    employeeId: candidate.employeeId?.toString(),
+    createdBy: candidate.createdBy.toString(),
+    createdAt: candidate.createdAt,
+    updatedAt: candidate.updatedAt,
+  };
+}
+
+/**
+ * WHAT: Find candidate or throw 404
+ */
+async function findCandidateOrFail(id: string): Promise<ICandidateDocument> {
+  const candidate = await Candidate.findById(id);
+  if (!candidate) {
+    throw createHttpError(RECRUITMENT_ERRORS.CANDIDATE_NOT_FOUND, 404);
+  }
+  return candidate;
+}
+
+/**
+ * WHAT: Refuse a second application with the same email
+ *
+ * HOW: excludeId skips the candidate being updated
+ */
+async function assertNotDuplicate(
+  requisitionId: mongoose.Types.ObjectId,
+  email: string,
+  excludeId?: mongoose.Types.ObjectId,
+): Promise<void> {
+  const existing = await Candidate.exists({
+    requisitionId,
+    email,
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  });
+  if (existing) {
+    throw createHttpError(RECRUITMENT_ERRORS.DUPLICATE_CANDIDATE, 409);
+  }
+}
+
+/**
+ * WHAT: Build the offer from input and requisition defaults
+ *
+ * WHY: Most offers are for the requisition as advertised; HR only enters
+ * what differs. The manager must be an active employee.
+ */
+async function toOffer(requisition: IJobRequisitionDocument, input: OfferInput): Promise<IOffer> {
+  const managerId = input.managerId
+    ? new mongoose.Types.ObjectId(input.managerId)
+    : requisition.hiringManagerId;
+  if (managerId) {
+    await assertActiveManager(managerId);
+  }
+
+  return {
+    designation: input.designation ?? requisition.title,
+    joiningDate: input.joiningDate,
+    managerId,
+    salary: input.salary,
+    location: input.location ?? requisition.location,
+  };
+}
+
+/**
+ * WHAT: Check a candidate may move to a stage
+ *
+ * WHY: Forward only, through the stages this requisition uses - skipping
+ * ahead is fine (a strong referral straight to interview), going back is
+ * not. A hire needs an offer first. Anyone not yet hired can be rejected,
+ * but only an open requisition moves candidates forward.
+ */
+function assertCanMove(
+  candidate: ICandidateDocument,
+  requisition: IJobRequisitionDocument,
+  stage: CandidateStage,
+): void {
+  if (FINAL_STAGES.includes(candidate.stage)) {
+    throw createHttpError(RECRUITMENT_ERRORS.CANDIDATE_FINAL, 409);
+  }
+  if (stage === CandidateStage.REJECTED) {
+    return;
+  }
+  if (requisition.status !== RequisitionStatus.OPEN) {
+    throw createHttpError(RECRUITMENT_ERRORS.REQUISITION_NOT_OPEN, 409);
+  }
+
+  const forward = PIPELINE_STAGES.indexOf(stage) > PIPELINE_STAGES.indexOf(candidate.stage);
+  const hireFromOffer = stage !== CandidateStage.HIRED || candidate.stage === CandidateStage.OFFER;
+  if (!requisition.stages.includes(stage) || !forward || !hireFromOffer) {
+    throw createHttpError(`Cannot move candidate from ${candidate.stage} to ${stage}`, 409);
+  }
+}
+
+/**
+ * WHAT: Count a hire against the requisition's openings
+ *
+ * WHY: Conditional on an opening being left, so two hires can't take the
+ * last one. The last hire marks the requisition filled.
+ *
+ * HOW: Pipeline update - hiredCount and status in one atomic write
+ */
+async function recordHire(
+  requisition: IJobRequisitionDocument,
+  session: ClientSession,
+): Promise<void> {
+  const updated = await JobRequisition.findOneAndUpdate(
+    {
+      _id: requisition._id,
+      status: RequisitionStatus.OPEN,
+      $expr: { $lt: ['$hiredCount', '$openings'] },
+    },
+    [
+      {
+        $set: {
+          hiredCount: { $add: ['$hiredCount', 1] },
+          status: {
+            $cond: [
+              { $gte: [{ $add: ['$hiredCount', 1] }, '$openings'] },
+              RequisitionStatus.FILLED,
+              '$status',
+            ],
+          },
+        },
+      },
+    ],
+    { new: true, session },
+  );
+  if (!updated) {
+    throw createHttpError(RECRUITMENT_ERRORS.REQUISITION_FILLED, 409);
+  }
+}
+
+/**
+ * WHAT: Add candidate service
+ *
+ * WHY: HR records an application against an open requisition.
+ *
+ * HOW: Starts at APPLIED; that is the first entry of its history
+ */
+export async function createCandidate(
+  actor: JWTPayload,
+  requisitionId: string,
+  input: CreateCandidateInput,
+  context: AuditContext,
+): Promise<CandidateResponse> {
+  const requisition = await findRequisitionOrFail(requisitionId);
+  if (requisition.status !== RequisitionStatus.OPEN) {
+    throw createHttpError(RECRUITMENT_ERRORS.REQUISITION_NOT_OPEN, 409);
+  }
+  await assertNotDuplicate(requisition._id, input.email);
+
+  const changedBy = new mongoose.Types.ObjectId(actor.userId);
+  const candidate = await Candidate.create({
+    ...input,
+    requisitionId: requisition._id,
+    stage: CandidateStage.APPLIED,
+    stageHistory: [{ stage: CandidateStage.APPLIED, changedBy, changedAt: new Date() }],
+    createdBy: changedBy,
+  });
+
+  await recordAuditLog(context, {
+    action: AuditAction.CREATE,
+    entityType: AuditEntityType.CANDIDATE,
+    entityId: candidate._id.toString(),
+    after: candidate.toObject(),
+  });
+
+  return toCandidateResponse(candidate);
+}
+
+/**
+ * WHAT: Get candidates service
+ *
+ * WHY: Paginated list; q matches name or email. filter[requisitionId]
+ * gives one requisition's pipeline.
+ */
+export async function getCandidates(query: ListCandidatesQuery): Promise<CandidateListResult> {
+  const filter: FilterQuery<ICandidateDocument> = {
+    ...query.filter,
+    ...buildSearchFilter(query.q, ['firstName', 'lastName', 'email']),
+  };
+
+  const { docs: candidates, pagination } = await findPage(Candidate, filter, query);
+
+  return { candidates: candidates.map(toCandidateResponse), pagination };
+}
+
+/**
+ * WHAT: Get candidate service
+ *
+ * HOW: Includes the full stage history
+ */
+export async function getCandidate(id: string): Promise<CandidateResponse> {
+  return toCandidateResponse(await findCandidateOrFail(id));
+}
+
+/**
+ * WHAT: Update candidate service
+ *
+ * WHY: Corrects contact details, or changes an offer that is still open -
+ * e.g. a later joining date.
+ *
+ * HOW: An offer replaces the previous one whole, with requisition defaults
+ */
+export async function updateCandidate(
+  id: string,
+  input: UpdateCandidateInput,
+  context: AuditContext,
+): Promise<CandidateResponse> {
+  const candidate = await findCandidateOrFail(id);
+
+  if (input.offer && candidate.stage !== CandidateStage.OFFER) {
+    throw createHttpError(RECRUITMENT_ERRORS.OFFER_NOT_OPEN, 409);
+  }
+  if (input.email && input.email !== candidate.email) {
+    await assertNotDuplicate(candidate.requisitionId, input.email, candidate._id);
+  }
+
+  const before = candidate.toObject();
+  const { offer, ...fields } = input;
+  candidate.set(fields);
+  if (offer) {
+    candidate.offer = await toOffer(await findRequisitionOrFail(candidate.requisitionId.toString()), offer);
+  }
+
+  await candidate.save();
+
+  await recordAuditLog(context, {
+    action: AuditAction.UPDATE,
+    entityType: AuditEntityType.CANDIDATE,
+    entityId: id,
+    before,
+    after: candidate.toObject(),
+  });
+
+  return toCandidateResponse(candidate);
+}
+
+/**
+ * WHAT: Move candidate service
+ *
+ * WHY: Records a candidate's progress - or their rejection - with who
+ * moved them and an optional note.
+ *
+ * HOW: Conditional update on the current stage. Moving to OFFER stores
+ * the offer; moving to HIRED also takes one of the requisition's openings,
+ * in one transaction.
+ */
+export async function moveCandidate(
+  actor: JWTPayload,
+  id: string,
+  input: MoveCandidateInput,
+  context: AuditContext,
+): Promise<CandidateResponse> {
+  const candidate = await findCandidateOrFail(id);
+  const requisition = await findRequisitionOrFail(candidate.requisitionId.toString());
+  assertCanMove(candidate, requisition, input.stage);
+
+  const update: UpdateQuery<ICandidateDocument> = {
+    $set: {
+      stage: input.stage,
+      ...(input.offer && { offer: await toOffer(requisition, input.offer) }),
+    },
+    $push: {
+      stageHistory: {
+        stage: input.stage,
+        note: input.note,
+        changedBy: new mongoose.Types.ObjectId(actor.userId),
+        changedAt: new Date(),
+      },
+    },
+  };
+
+  let moved!: ICandidateDocument;
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      if (input.stage === CandidateStage.HIRED) {
+        await recordHire(requisition, session);
+      }
+
+      const updated = await Candidate.findOneAndUpdate(
+        { _id: candidate._id, stage: candidate.stage },
+        update,
+        { new: true, runValidators: true, session },
+      );
+      if (!updated) {
+        throw createHttpError(RECRUITMENT_ERRORS.CONCURRENT_UPDATE, 409);
+      }
+      moved = updated;
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.STATUS_CHANGE,
+    entityType: AuditEntityType.CANDIDATE,
+    entityId: id,
+    before: candidate.toObject(),
+    after: moved.toObject(),
+    metadata: { requisitionId: requisition._id.toString() },
+  });
+
+  return toCandidateResponse(moved);
+}
+
+/**
+ * WHAT: Convert candidate service
+ *
+ * WHY: A hire shouldn't be typed in twice. The User (EMPLOYEE role) and
+ * Employee come from the candidate and their offer, in the requisition's
+ * department, and onboarding starts right away.
+ *
+ * HOW: Checks first for clear errors, then account, employee, onboarding
+ * and the candidate's link in one transaction - a failure leaves nothing
+ * half-created. The conditional link makes a second conversion fail
+ * rather than create a second employee. The generated password is
+ * emailed, as for employees created by HR.
+ */
+export async function convertCandidate(
+  actor: JWTPayload,
+  id: string,
+  input: ConvertCandidateInput,
+  context: AuditContext,
+): Promise<CandidateConversionResult> {
+  const candidate = await findCandidateOrFail(id);
+  if (candidate.employeeId) {
+    throw createHttpError(RECRUITMENT_ERRORS.CANDIDATE_CONVERTED, 409);
+  }
+  // WHY: HIRED is only reached from OFFER, so the offer is always there
+  const offer = candidate.offer;
+  if (candidate.stage !== CandidateStage.HIRED || !offer) {
+    throw createHttpError(RECRUITMENT_ERRORS.CANDIDATE_NOT_HIRED, 409);
+  }
+
+  // WHY: Check uniqueness up front for clear 409 errors (instead of duplicate key errors)
+  if (await User.exists({ email: candidate.email })) {
+    throw createHttpError(RECRUITMENT_ERRORS.EMAIL_IN_USE, 409);
+  }
+  if (await Employee.exists({ employeeId: input.employeeId })) {
+    throw createHttpError(RECRUITMENT_ERRORS.EMPLOYEE_ID_IN_USE, 409);
+  }
+
+  const requisition = await findRequisitionOrFail(candidate.requisitionId.toString());
+  // WHY: The department or manager may have been deactivated since the offer
+  const department = await findActiveDepartmentOrFail(requisition.departmentId.toString());
+  if (offer.managerId) {
+    await assertActiveManager(offer.managerId);
+  }
+
+  const password = generateRandomPassword();
+
+  let created!: {
+    user: IUserDocument;
+    employee: IEmployeeDocument;
+    onboarding: IOnboardingDocument;
+    candidate: ICandidateDocument;
+  };
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      // WHY: Array form of create() is required to pass a session
+      const [user] = await User.create(
+        [
+          {
+            email: candidate.email,
+            password, // WHY: Password will be hashed by pre-save hook in model
+            role: UserRole.EMPLOYEE,
+            isActive: true,
+            mustChangePassword: true, // WHY: Generated for them
+          },
+        ],
+        { session },
+      );
+
+      const [employee] = await Employee.create(
+        [
+          {
+            userId: user._id,
+            employeeId: input.employeeId,
+            firstName: candidate.firstName,
+            lastName: candidate.lastName,
+            phoneNumber: candidate.phoneNumber,
+            joiningDate: offer.joiningDate,
+            department: department.name,
+            designation: offer.designation,
+            location: offer.location,
+            managerId: offer.managerId,
+            salary: offer.salary,
+            isActive: true,
+          },
+        ],
+        { session },
+      );
+
+      const onboarding = await startOnboarding(actor, employee, id, session);
+
+      const linked = await Candidate.findOneAndUpdate(
+        { _id: candidate._id, stage: CandidateStage.HIRED, employeeId: { $exists: false } },
+        { $set: { employeeId: employee._id } },
+        { new: true, session },
+      );
+      if (!linked) {
+        throw createHttpError(RECRUITMENT_ERRORS.CANDIDATE_CONVERTED, 409);
+      }
+
+      created = { user, employee, onboarding, candidate: linked };
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.CREATE,
+    entityType: AuditEntityType.EMPLOYEE,
+    entityId: created.employee._id.toString(),
+    after: created.employee.toObject(),
+    metadata: {
+      email: created.user.email,
+      role: created.user.role,
+      candidateId: id,
+      onboardingId: created.onboarding._id.toString(),
+    },
+  });
+
+  // WHY: A generated password is never returned - the new employee gets it by email
+  await sendMail(temporaryPasswordMail(created.user.email, password, `${env.APP_URL}/login`));
+
+  return {
+    candidate: toCandidateResponse(created.candidate),
+    employee: await getEmployeeById(created.employee._id.toString()),
+    onboarding: toOnboardingResponse(created.onboarding),
+  };
+}
+
+/**
+ * WHAT: Upload resume service
+ *
+ * WHY: One resume per candidate; a new upload replaces the old one.
+ *
+ * HOW: File and candidate details are written in one transaction, so the
+ * details never describe a file that isn't there
+ */
+export async function uploadResume(
+  id: string,
+  data: Buffer,
+  contentType: string,
+  filename: string,
+  context: AuditContext,
+): Promise<CandidateResponse> {
+  const candidate = await findCandidateOrFail(id);
+  const before = candidate.toObject();
+
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      await CandidateResume.findOneAndUpdate(
+        { candidateId: candidate._id },
+        { data },
+        { upsert: true, session },
+      );
+
+      candidate.resume = { filename, contentType, size: data.length, uploadedAt: new Date() };
+      await candidate.save({ session });
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.UPDATE,
+    entityType: AuditEntityType.CANDIDATE,
+    entityId: id,
+    before,
+    after: candidate.toObject(),
+  });
+
+  return toCandidateResponse(candidate);
+}
+
+/**
+ * WHAT: Download resume service
+ *
+ * HOW: Sent back with the name and type it was uploaded with
+ */
+export async function getResume(id: string): Promise<DownloadFile> {
+  const candidate = await findCandidateOrFail(id);
+  const resume = candidate.resume
+    ? await CandidateResume.findOne({ candidateId: candidate._id })
+    : null;
+  if (!candidate.resume || !resume) {
+    throw createHttpError(RECRUITMENT_ERRORS.RESUME_NOT_FOUND, 404);
+  }
+
+  return {
+    filename: candidate.resume.filename,
+    contentType: candidate.resume.contentType,
+    write: (output: Writable) => writeChunk(output, resume.data),
+  };
+}
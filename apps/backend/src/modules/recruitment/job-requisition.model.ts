@@ -0,0 +1,140 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { CandidateStage } from './candidate.model';
+
+/**
+ * WHAT: Job requisition Mongoose model and schema
+ *
+ * WHY: An approved opening in a department - what is being hired for, how
+ * many people, and which stages its candidates go through.
+ *
+ * HOW: Candidates are added to an open requisition. Each hire counts
+ * towards openings; the requisition is filled when they are all taken.
+ */
+
+/**
+ * WHAT: Job requisition status enum
+ *
+ * WHY: See REQUISITION_STATUS_TRANSITIONS in recruitment.constants.ts.
+ */
+export enum RequisitionStatus {
+  OPEN = 'OPEN', // WHY: Taking candidates
+  ON_HOLD = 'ON_HOLD', // WHY: Paused - candidates stay where they are
+  FILLED = 'FILLED', // WHY: Every opening hired; set automatically
+  CLOSED = 'CLOSED',
+}
+
+/**
+ * WHAT: Job requisition document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ *
+ * HOW: Used throughout recruitment module for type safety
+ */
+export interface IJobRequisitionDocument extends Document {
+  title: string; // WHY: Also the hired employee's designation unless the offer says otherwise
+  departmentId: mongoose.Types.ObjectId; // WHY: Reference to Department
+  description?: string;
+  openings: number;
+  hiredCount: number;
+  hiringManagerId?: mongoose.Types.ObjectId; // WHY: Reference to Employee - default manager in offers
+  location?: string;
+  stages: CandidateStage[]; // WHY: This requisition's pipeline, in order
+  status: RequisitionStatus;
+  createdBy: mongoose.Types.ObjectId; // WHY: Reference to User
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Job requisition schema definition
+ *
+ * WHY: Schema defines structure, validation, and indexes for job requisition collection.
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const jobRequisitionSchema = new Schema<IJobRequisitionDocument>(
+  {
+    title: {
+      type: String,
+      required: [true, 'Title is required'],
+      trim: true,
+      maxlength: [100, 'Title must be less than 100 characters'],
+    },
+
+    departmentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Department',
+      required: true,
+    },
+
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [5000, 'Description must be less than 5000 characters'],
+    },
+
+    openings: {
+      type: Number,
+      required: true,
+      min: [1, 'A requisition needs at least one opening'],
+    },
+
+    hiredCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+
+    hiringManagerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Employee',
+    },
+
+    location: {
+      type: String,
+      trim: true,
+    },
+
+    stages: {
+      type: [String],
+      enum: Object.values(CandidateStage),
+      required: true,
+    },
+
+    status: {
+      type: String,
+      enum: Object.values(RequisitionStatus),
+      default: RequisitionStatus.OPEN,
+      required: true,
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+
+    closedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// WHY: Open requisitions per department (lists, dashboard)
+jobRequisitionSchema.index({ status: 1, departmentId: 1 });
+
+/**
+ * WHAT: Job requisition model export
+ *
+ * WHY: Model provides database operations.
+ *
+ * HOW: Mongoose model created from schema
+ */
+export const JobRequisition = mongoose.model<IJobRequisitionDocument>(
+  'JobRequisition',
+  jobRequisitionSchema,
+);
@@ -0,0 +1,408 @@
+/**
+ * WHAT: Job requisition service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * HR opens requisitions, sets their pipeline and closes them.
+ *
+ * HOW: Status changes follow REQUISITION_STATUS_TRANSITIONS. Closing a
+ * requisition rejects its candidates still in progress, in the same
+ * transaction.
+ */
+
+import mongoose, { ClientSession, FilterQuery } from 'mongoose';
+import {
+  JobRequisition,
+  IJobRequisitionDocument,
+  RequisitionStatus,
+} from './job-requisition.model';
+import { Candidate, CandidateStage, ICandidateDocument } from './candidate.model';
+import { Department, IDepartmentDocument } from '../department/department.model';
+import { Employee } from '../employee/employee.model';
+import { JWTPayload } from '../auth/auth.types';
+import {
+  FINAL_STAGES,
+  RECRUITMENT_ERRORS,
+  REQUISITION_STATUS_TRANSITIONS,
+} from './recruitment.constants';
+import {
+  CreateRequisitionInput,
+  UpdateRequisitionInput,
+  UpdateRequisitionStatusInput,
+  ListRequisitionsQuery,
+} from './recruitment.validation';
+import { RequisitionResponse, RequisitionListResult, StageCount } from './recruitment.types';
+import { createHttpError } from '../../utils/error.util';
+import { buildSearchFilter, findPage } from '../../utils/query.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+
+/**
+ * WHAT: Map job requisition document to response shape
+ */
+function toRequisitionResponse(
+  requisition: IJobRequisitionDocument,
+  department: string,
+  stageCounts?: StageCount[],
+): RequisitionResponse {
+  return {
+    id: requisition._id.toString(),
+    title: requisition.title,
+    departmentId: requisition.departmentId.toString(),
+    department,
+    description: requisition.description,
+    openings: requisition.openings,
+    hiredCount: requisition.hiredCount,
+    hiringManagerId: requisition.hiringManagerId?.toString(),
+    location: requisition.location,
+    stages: requisition.stages,
+    status: requisition.status,
+    createdBy: requisition.createdBy.toString(),
+    closedAt: requisition.closedAt,
+    stageCounts,
+    createdAt: requisition.createdAt,
+    updatedAt: requisition.updatedAt,
+  };
+}
+
+/**
+ * WHAT: Look up department names for requisitions
+ *
+ * WHY: Requisitions reference their department, so a renamed department
+ * shows its current name. One query for a whole page.
+ */
+async function getDepartmentNames(
+  requisitions: IJobRequisitionDocument[],
+): Promise<Map<string, string>> {
+  const departments = await Department.find({
+    _id: { $in: requisitions.map((requisition) => requisition.departmentId) },
+  }).select('name');
+
+  return new Map(departments.map((department) => [department._id.toString(), department.name]));
+}
+
+/**
+ * WHAT: Map one job requisition with its department name
+ */
+async function toRequisitionResponseWithDepartment(
+  requisition: IJobRequisitionDocument,
+  stageCounts?: StageCount[],
+): Promise<RequisitionResponse> {
+  const names = await getDepartmentNames([requisition]);
+  return toRequisitionResponse(
+    requisition,
+    names.get(requisition.departmentId.toString()) ?? '',
+    stageCounts,
+  );
+}
+
+/**
+ * WHAT: Find job requisition or throw 404
+ *
+ * WHY: Also used by the candidate service to check the requisition's
+ * status and pipeline.
+ */
+export async function findRequisitionOrFail(id: string): Promise<IJobRequisitionDocument> {
+  const requisition = await JobRequisition.findById(id);
+  if (!requisition) {
+    throw createHttpError(RECRUITMENT_ERRORS.REQUISITION_NOT_FOUND, 404);
+  }
+  return requisition;
+}
+
+/**
+ * WHAT: Find an active department or throw 400
+ */
+export async function findActiveDepartmentOrFail(id: string): Promise<IDepartmentDocument> {
+  const department = await Department.findOne({ _id: id, isActive: true });
+  if (!department) {
+    throw createHttpError(RECRUITMENT_ERRORS.DEPARTMENT_NOT_FOUND, 400);
+  }
+  return department;
+}
+
+/**
+ * WHAT: Check a manager is an active employee or throw 400
+ *
+ * WHY: Also checks the manager named in an offer.
+ */
+export async function assertActiveManager(id: string | mongoose.Types.ObjectId): Promise<void> {
+  if (!(await Employee.exists({ _id: id, isActive: true }))) {
+    throw createHttpError(RECRUITMENT_ERRORS.MANAGER_NOT_FOUND, 400);
+  }
+}
+
+/**
+ * WHAT: Count candidates per stage
+ *
+ * WHY: Every stage is listed, with 0 where there are none, so pipeline
+ * charts keep their bars in a fixed order.
+ *
+ * HOW: One $group over the matching candidates
+ */
+export async function getStageCounts(match: FilterQuery<ICandidateDocument>): Promise<StageCount[]> {
+  const counts = await Candidate.aggregate<{ _id: CandidateStage; count: number }>([
+    { $match: match },
+    { $group: { _id: '$stage', count: { $sum: 1 } } },
+  ]);
+
+  return Object.values(CandidateStage).map((stage) => ({
+    stage,
+    count: counts.find((item) => item._id === stage)?.count ?? 0,
+  }));
+}
+
+/**
+ * WHAT: Candidates per stage across open requisitions
+ *
+ * WHY: The HR dashboard's recruitment pipeline - current hiring only, so
+ * closed and filled requisitions don't pile up in it.
+ */
+export async function getOpenPipelineStageCounts(): Promise<StageCount[]> {
+  const open = await JobRequisition.find({ status: RequisitionStatus.OPEN }).select('_id');
+  return getStageCounts({ requisitionId: { $in: open.map((requisition) => requisition._id) } });
+}
+
+/**
+ * WHAT: Move a job requisition to another status
+ *
+ * WHY: Single place where manual status changes happen, so the transition
+ * table is always enforced. The update is conditional on the status we
+ * read, so two requests can't both move the requisition.
+ *
+ * HOW: Validates transition, then findOneAndUpdate guarded by current status
+ */
+async function transitionRequisition(
+  requisition: IJobRequisitionDocument,
+  nextStatus: RequisitionStatus,
+  changes: Partial<Pick<IJobRequisitionDocument, 'closedAt'>> = {},
+  session?: ClientSession,
+): Promise<IJobRequisitionDocument> {
+  if (!REQUISITION_STATUS_TRANSITIONS[requisition.status].includes(nextStatus)) {
+    throw createHttpError(
+      `Cannot change job requisition status from ${requisition.status} to ${nextStatus}`,
+      409,
+    );
+  }
+
+  const updated = await JobRequisition.findOneAndUpdate(
+    { _id: requisition._id, status: requisition.status },
+    { status: nextStatus, ...changes },
+    { new: true, runValidators: true, session },
+  );
+  if (!updated) {
+    throw createHttpError(RECRUITMENT_ERRORS.CONCURRENT_UPDATE, 409);
+  }
+  return updated;
+}
+
+/**
+ * WHAT: Create job requisition service
+ *
+ * WHY: HR opens a position in an active department.
+ *
+ * HOW: Created OPEN - candidates can be added straight away
+ */
+export async function createRequisition(
+  actor: JWTPayload,
+  input: CreateRequisitionInput,
+  context: AuditContext,
+): Promise<RequisitionResponse> {
+  const department = await findActiveDepartmentOrFail(input.departmentId);
+  if (input.hiringManagerId) {
+    await assertActiveManager(input.hiringManagerId);
+  }
+
+  const requisition = await JobRequisition.create({
+    ...input,
+    createdBy: new mongoose.Types.ObjectId(actor.userId),
+  });
+
+  await recordAuditLog(context, {
+    action: AuditAction.CREATE,
+    entityType: AuditEntityType.JOB_REQUISITION,
+    entityId: requisition._id.toString(),
+    after: requisition.toObject(),
+  });
+
+  return toRequisitionResponse(requisition, department.name);
+}
+
+/**
+ * WHAT: Get job requisitions service
+ *
+ * WHY: Paginated list; q matches the title.
+ */
+export async function getRequisitions(query: ListRequisitionsQuery): Promise<RequisitionListResult> {
+  const filter: FilterQuery<IJobRequisitionDocument> = {
+    ...query.filter,
+    ...buildSearchFilter(query.q, ['title']),
+  };
+
+  const { docs: requisitions, pagination } = await findPage(JobRequisition, filter, query);
+  const names = await getDepartmentNames(requisitions);
+
+  return {
+    requisitions: requisitions.map((requisition) =>
+      toRequisitionResponse(requisition, names.get(requisition.departmentId.toString()) ?? ''),
+    ),
+    pagination,
+  };
+}
+
+/**
+ * WHAT: Get job requisition service
+ *
+ * HOW: Includes how many candidates are at each stage
+ */
+export async function getRequisition(id: string): Promise<RequisitionResponse> {
+  const requisition = await findRequisitionOrFail(id);
+  const stageCounts = await getStageCounts({ requisitionId: requisition._id });
+
+  return toRequisitionResponseWithDepartment(requisition, stageCounts);
+}
+
+/**
+ * WHAT: Update job requisition service
+ *
+ * WHY: Details, openings and pipeline can change until the requisition is
+ * closed. Changing openings fills or reopens it.
+ *
+ * HOW: A stage can only be removed once no candidate is in it
+ */
+export async function updateRequisition(
+  id: string,
+  input: UpdateRequisitionInput,
+  context: AuditContext,
+): Promise<RequisitionResponse> {
+  const requisition = await findRequisitionOrFail(id);
+
+  if (requisition.status === RequisitionStatus.CLOSED) {
+    throw createHttpError(RECRUITMENT_ERRORS.REQUISITION_CLOSED, 409);
+  }
+  if (input.departmentId) {
+    await findActiveDepartmentOrFail(input.departmentId);
+  }
+  if (input.hiringManagerId) {
+    await assertActiveManager(input.hiringManagerId);
+  }
+  if (input.openings !== undefined && input.openings < requisition.hiredCount) {
+    throw createHttpError(RECRUITMENT_ERRORS.OPENINGS_BELOW_HIRED, 400);
+  }
+  if (input.stages) {
+    const removed = requisition.stages.filter((stage) => !input.stages?.includes(stage));
+    if (
+      removed.length > 0 &&
+      (await Candidate.exists({ requisitionId: requisition._id, stage: { $in: removed } }))
+    ) {
+      throw createHttpError(RECRUITMENT_ERRORS.STAGE_IN_USE, 409);
+    }
+  }
+
+  const before = requisition.toObject();
+  const { hiringManagerId, ...fields } = input;
+  requisition.set(fields);
+
+  // WHY: null removes the hiring manager
+  if (hiringManagerId === null) {
+    requisition.set('hiringManagerId', undefined);
+  } else if (hiringManagerId !== undefined) {
+    requisition.hiringManagerId = new mongoose.Types.ObjectId(hiringManagerId);
+  }
+
+  // WHY: Filled means every opening is hired - recheck when openings change
+  if (requisition.status === RequisitionStatus.OPEN && requisition.hiredCount >= requisition.openings) {
+    requisition.status = RequisitionStatus.FILLED;
+  } else if (
+    requisition.status === RequisitionStatus.FILLED &&
+    requisition.hiredCount < requisition.openings
+  ) {
+    requisition.status = RequisitionStatus.OPEN;
+  }
+
+  await requisition.save();
+
+  await recordAuditLog(context, {
+    action: AuditAction.UPDATE,
+    entityType: AuditEntityType.JOB_REQUISITION,
+    entityId: id,
+    before,
+    after: requisition.toObject(),
+  });
+
+  return toRequisitionResponseWithDepartment(requisition);
+}
+
+/**
+ * WHAT: Update job requisition status service
+ *
+ * WHY: HR puts a requisition on hold, reopens it or closes it. Closing
+ * rejects the candidates still in progress, so none is left waiting on a
+ * position that no longer exists.
+ *
+ * HOW: Status and rejections are written in one transaction; each rejected
+ * candidate's history records why
+ */
+export async function updateRequisitionStatus(
+  actor: JWTPayload,
+  id: string,
+  input: UpdateRequisitionStatusInput,
+  context: AuditContext,
+): Promise<RequisitionResponse> {
+  const requisition = await findRequisitionOrFail(id);
+
+  // WHY: A filled requisition reopens by adding openings
+  if (
+    input.status === RequisitionStatus.OPEN &&
+    requisition.hiredCount >= requisition.openings
+  ) {
+    throw createHttpError(RECRUITMENT_ERRORS.REQUISITION_FILLED, 409);
+  }
+
+  let updated!: IJobRequisitionDocument;
+  let rejected = 0;
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      const closing = input.status === RequisitionStatus.CLOSED;
+      updated = await transitionRequisition(
+        requisition,
+        input.status,
+        closing ? { closedAt: new Date() } : {},
+        session,
+      );
+
+      if (closing) {
+        const result = await Candidate.updateMany(
+          { requisitionId: requisition._id, stage: { $nin: FINAL_STAGES } },
+          {
+            $set: { stage: CandidateStage.REJECTED },
+            $push: {
+              stageHistory: {
+                stage: CandidateStage.REJECTED,
+                note: 'Job requisition closed',
+                changedBy: new mongoose.Types.ObjectId(actor.userId),
+                changedAt: new Date(),
+              },
+            },
+          },
+          { session },
+        );
+        rejected = result.modifiedCount;
+      }
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.STATUS_CHANGE,
+    entityType: AuditEntityType.JOB_REQUISITION,
+    entityId: id,
+    before: requisition.toObject(),
+    after: updated.toObject(),
+    metadata: rejected > 0 ? { rejectedCandidates: rejected } : undefined,
+  });
+
+  return toRequisitionResponseWithDepartment(updated);
+}
@@ -0,0 +1,108 @@
+/**
+ * WHAT: Recruitment module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Single place to change pipeline rules
+ * - Consistent error messages
+ *
+ * HOW: Exports constants used across recruitment module
+ */
+
+import { RequisitionStatus } from './job-requisition.model';
+import { CandidateStage } from './candidate.model';
+
+/**
+ * WHAT: Every pipeline stage, in order
+ *
+ * WHY: A requisition's stages are picked from this list and keep its
+ * order. REJECTED is not a step - a candidate can leave from any stage.
+ */
+export const PIPELINE_STAGES: readonly CandidateStage[] = [
+  CandidateStage.APPLIED,
+  CandidateStage.SCREENING,
+  CandidateStage.INTERVIEW,
+  CandidateStage.OFFER,
+  CandidateStage.HIRED,
+];
+
+/**
+ * WHAT: Stages every requisition has
+ *
+ * WHY: Candidates start as applied, and a hire needs an offer - it holds
+ * the details of the new employee record. Screening and interview are
+ * optional, e.g. no screening for internal moves.
+ */
+export const REQUIRED_STAGES: readonly CandidateStage[] = [
+  CandidateStage.APPLIED,
+  CandidateStage.OFFER,
+  CandidateStage.HIRED,
+];
+
+/**
+ * WHAT: Stages a candidate can't leave
+ */
+export const FINAL_STAGES: readonly CandidateStage[] = [
+  CandidateStage.HIRED,
+  CandidateStage.REJECTED,
+];
+
+/**
+ * WHAT: Allowed job requisition status transitions
+ *
+ * WHY: FILLED is set by hiring, and undone by adding openings. A closed
+ * requisition stays closed - reopening means a new one.
+ *
+ * HOW: Map of current status -> statuses it may move to
+ */
+export const REQUISITION_STATUS_TRANSITIONS: Record<RequisitionStatus, RequisitionStatus[]> = {
+  [RequisitionStatus.OPEN]: [
+    RequisitionStatus.ON_HOLD,
+    RequisitionStatus.FILLED,
+    RequisitionStatus.CLOSED,
+  ],
+  [RequisitionStatus.ON_HOLD]: [RequisitionStatus.OPEN, RequisitionStatus.CLOSED],
+  [RequisitionStatus.FILLED]: [RequisitionStatus.OPEN, RequisitionStatus.CLOSED],
+  [RequisitionStatus.CLOSED]: [],
+};
+
+/**
+ * WHAT: Resume upload limits
+ *
+ * WHY: PDF and Word only - the formats recruiters can open. 5 MB covers
+ * any text resume and keeps uploads cheap to store.
+ */
+export const RESUME_LIMITS = {
+  MAX_BYTES: 5 * 1024 * 1024,
+  CONTENT_TYPES: [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ],
+} as const;
+
+/**
+ * WHAT: Recruitment error messages
+ *
+ * WHY: Consistent messages across service functions.
+ */
+export const RECRUITMENT_ERRORS = {
+  REQUISITION_NOT_FOUND: 'Job requisition not found',
+  CANDIDATE_NOT_FOUND: 'Candidate not found',
+  RESUME_NOT_FOUND: 'Candidate has no resume',
+  DEPARTMENT_NOT_FOUND: 'Department not found or inactive',
+  MANAGER_NOT_FOUND: 'Manager not found or inactive',
+  REQUISITION_CLOSED: 'Job requisition is closed and can no longer change',
+  REQUISITION_NOT_OPEN: 'Job requisition is not open',
+  REQUISITION_FILLED: 'Every opening of this requisition has been filled',
+  OPENINGS_BELOW_HIRED: 'Openings cannot be fewer than the candidates already hired',
+  STAGE_IN_USE: 'Candidates are still in a stage being removed',
+  DUPLICATE_CANDIDATE: 'This candidate has already applied for this requisition',
+  CANDIDATE_FINAL: 'Candidate is hired or rejected and can no longer move',
+  OFFER_REQUIRED: 'Offer details are required to move a candidate to offer',
+  OFFER_NOT_OPEN: 'Offer details can only change while the candidate is at the offer stage',
+  CANDIDATE_NOT_HIRED: 'Only hired candidates can be converted into employees',
+  CANDIDATE_CONVERTED: 'Candidate has already been converted into an employee',
+  EMAIL_IN_USE: 'User with this email already exists',
+  EMPLOYEE_ID_IN_USE: 'Employee ID already exists',
+  CONCURRENT_UPDATE: 'Record was updated by another request. Please retry',
+} as const;
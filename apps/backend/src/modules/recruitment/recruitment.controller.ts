@@ -0,0 +1,362 @@
+/**
+ * WHAT: Recruitment controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ * - Input validation (delegates to validation layer)
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  createRequisition,
+  getRequisitions,
+  getRequisition,
+  updateRequisition,
+  updateRequisitionStatus,
+} from './job-requisition.service';
+import {
+  createCandidate,
+  getCandidates,
+  getCandidate,
+  updateCandidate,
+  moveCandidate,
+  convertCandidate,
+  uploadResume,
+  getResume,
+} from './candidate.service';
+import {
+  CreateRequisitionInput,
+  UpdateRequisitionInput,
+  UpdateRequisitionStatusInput,
+  ListRequisitionsQuery,
+  CreateCandidateInput,
+  UpdateCandidateInput,
+  MoveCandidateInput,
+  ConvertCandidateInput,
+  UploadResumeQuery,
+  ListCandidatesQuery,
+} from './recruitment.validation';
+import { RESUME_LIMITS } from './recruitment.constants';
+import { JWTPayload } from '../auth/auth.types';
+import { sendSuccess, sendPaginated, sendExport } from '../../utils/response.util';
+import { getAuditContext } from '../../utils/audit.util';
+
+/**
+ * WHAT: Create job requisition controller
+ *
+ * WHY: Handles POST /api/recruitment/requisitions requests.
+ *
+ * HOW: Express route handler
+ */
+export async function createRequisitionController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: User is attached by authenticate middleware
+    const user = req.user as JWTPayload;
+    const input = req.body as CreateRequisitionInput;
+
+    const requisition = await createRequisition(user, input, getAuditContext(req));
+
+    // WHY: 201 Created for resource creation
+    sendSuccess(res, requisition, 201, 'Job requisition created successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List job requisitions controller
+ *
+ * WHY: Handles GET /api/recruitment/requisitions requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getRequisitionsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: Query is validated and coerced by validation middleware
+    const query = req.query as unknown as ListRequisitionsQuery;
+
+    const result = await getRequisitions(query);
+
+    sendPaginated(res, result.requisitions, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get job requisition controller
+ *
+ * WHY: Handles GET /api/recruitment/requisitions/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getRequisitionController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const requisition = await getRequisition(req.params.id);
+
+    sendSuccess(res, requisition);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Update job requisition controller
+ *
+ * WHY: Handles PATCH /api/recruitment/requisitions/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function updateRequisitionController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const input = req.body as UpdateRequisitionInput;
+
+    const requisition = await updateRequisition(req.params.id, input, getAuditContext(req));
+
+    sendSuccess(res, requisition, 200, 'Job requisition updated successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Update job requisition status controller
+ *
+ * WHY: Handles PATCH /api/recruitment/requisitions/:id/status requests.
+ *
+ * HOW: Express route handler
+ */
+export async function updateRequisitionStatusController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as UpdateRequisitionStatusInput;
+
+    const requisition = await updateRequisitionStatus(
+      user,
+      req.params.id,
+      input,
+      getAuditContext(req),
+    );
+
+    sendSuccess(res, requisition, 200, 'Job requisition status updated successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Add candidate controller
+ *
+ * WHY: Handles POST /api/recruitment/requisitions/:id/candidates requests.
+ *
+ * HOW: Express route handler
+ */
+export async function createCandidateController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as CreateCandidateInput;
+
+    const candidate = await createCandidate(user, req.params.id, input, getAuditContext(req));
+
+    sendSuccess(res, candidate, 201, 'Candidate added successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List candidates controller
+ *
+ * WHY: Handles GET /api/recruitment/candidates requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getCandidatesController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = req.query as unknown as ListCandidatesQuery;
+
+    const result = await getCandidates(query);
+
+    sendPaginated(res, result.candidates, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get candidate controller
+ *
+ * WHY: Handles GET /api/recruitment/candidates/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getCandidateController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const candidate = await getCandidate(req.params.id);
+
+    sendSuccess(res, candidate);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Update candidate controller
+ *
+ * WHY: Handles PATCH /api/recruitment/candidates/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function updateCandidateController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const input = req.body as UpdateCandidateInput;
+
+    const candidate = await updateCandidate(req.params.id, input, getAuditContext(req));
+
+    sendSuccess(res, candidate, 200, 'Candidate updated successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Move candidate controller
+ *
+ * WHY: Handles POST /api/recruitment/candidates/:id/stage requests.
+ *
+ * HOW: Express route handler
+ */
+export async function moveCandidateController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as MoveCandidateInput;
+
+    const candidate = await moveCandidate(user, req.params.id, input, getAuditContext(req));
+
+    sendSuccess(res, candidate, 200, `Candidate moved to ${candidate.stage}`);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Convert candidate controller
+ *
+ * WHY: Handles POST /api/recruitment/candidates/:id/convert requests.
+ *
+ * HOW: Express route handler
+ */
+export async function convertCandidateController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as ConvertCandidateInput;
+
+    const result = await convertCandidate(user, req.params.id, input, getAuditContext(req));
+
+    // WHY: 201 Created - a user, employee and onboarding were created
+    sendSuccess(res, result, 201, 'Candidate converted into an employee successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Upload resume controller
+ *
+ * WHY: Handles PUT /api/recruitment/candidates/:id/resume requests.
+ *
+ * HOW: Express route handler
+ */
+export async function uploadResumeController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: Body (raw file) and query are validated by validation middleware;
+    // the raw parser only accepted one of these content types
+    const query = req.query as unknown as UploadResumeQuery;
+    const contentType = req.is([...RESUME_LIMITS.CONTENT_TYPES]) as string;
+
+    const candidate = await uploadResume(
+      req.params.id,
+      req.body as Buffer,
+      contentType,
+      query.filename,
+      getAuditContext(req),
+    );
+
+    sendSuccess(res, candidate, 200, 'Resume uploaded successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Download resume controller
+ *
+ * WHY: Handles GET /api/recruitment/candidates/:id/resume requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getResumeController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const file = await getResume(req.params.id);
+
+    await sendExport(res, file);
+  } catch (error) {
+    next(error);
+  }
+}
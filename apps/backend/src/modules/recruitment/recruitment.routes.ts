@@ -0,0 +1,649 @@
+/**
+ * WHAT: Recruitment routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions and RBAC middleware
+ */
+
+import express, { Router } from 'express';
+import {
+  createRequisitionController,
+  getRequisitionsController,
+  getRequisitionController,
+  updateRequisitionController,
+  updateRequisitionStatusController,
+  createCandidateController,
+  getCandidatesController,
+  getCandidateController,
+  updateCandidateController,
+  moveCandidateController,
+  convertCandidateController,
+  uploadResumeController,
+  getResumeController,
+} from './recruitment.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import {
+  createRequisitionSchema,
+  updateRequisitionSchema,
+  updateRequisitionStatusSchema,
+  listRequisitionsQuerySchema,
+  createCandidateSchema,
+  updateCandidateSchema,
+  moveCandidateSchema,
+  convertCandidateSchema,
+  uploadResumeBodySchema,
+  uploadResumeQuerySchema,
+  listCandidatesQuerySchema,
+} from './recruitment.validation';
+import { RESUME_LIMITS } from './recruitment.constants';
+import { idParamSchema } from '../../utils/validation.util';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: All recruitment routes require authentication and the
+ * recruitment:manage permission (HR, SUPER_ADMIN) - candidates' personal
+ * data stays with HR.
+ */
+router.use(authenticate);
+router.use(requirePermission(Permission.RECRUITMENT_MANAGE));
+
+/**
+ * @swagger
+ * /recruitment/requisitions:
+ *   post:
+ *     summary: Create job requisition
+ *     description: Opens a position in an active department. stages picks the pipeline from
+ *       APPLIED, SCREENING, INTERVIEW, OFFER, HIRED (in that order); APPLIED, OFFER and HIRED are
+ *       required. Defaults to every stage.
+ *     tags: [Recruitment]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - departmentId
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 example: Backend Engineer
+ *               departmentId:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               openings:
+ *                 type: integer
+ *                 minimum: 1
+ *                 default: 1
+ *               hiringManagerId:
+ *                 type: string
+ *                 description: Employee ID (MongoDB) - the default manager in offers
+ *               location:
+ *                 type: string
+ *               stages:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [APPLIED, SCREENING, INTERVIEW, OFFER, HIRED]
+ *                 example: [APPLIED, INTERVIEW, OFFER, HIRED]
+ *     responses:
+ *       201:
+ *         description: Job requisition created
+ *       400:
+ *         description: Validation error, inactive department or manager
+ *       403:
+ *         description: Forbidden - requires recruitment:manage permission
+ */
+router.post(
+  '/requisitions',
+  validateRequest(createRequisitionSchema, 'body'), // WHY: Validate request body
+  createRequisitionController,
+);
+
+/**
+ * @swagger
+ * /recruitment/requisitions:
+ *   get:
+ *     summary: List job requisitions
+ *     description: Paginated list. q matches the title. Sortable by createdAt and title (default -createdAt).
+ *     tags: [Recruitment]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[status]
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, ON_HOLD, FILLED, CLOSED]
+ *       - in: query
+ *         name: filter[departmentId]
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Paginated job requisition list ({ items, pagination })
+ */
+router.get(
+  '/requisitions',
+  validateRequest(listRequisitionsQuerySchema, 'query'), // WHY: Validate query string
+  getRequisitionsController,
+);
+
+/**
+ * @swagger
+ * /recruitment/requisitions/{id}:
+ *   get:
+ *     summary: Get job requisition
+ *     description: Includes stageCounts - how many candidates are at each stage.
+ *     tags: [Recruitment]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job requisition
+ *       404:
+ *         description: Job requisition not found
+ */
+router.get(
+  '/requisitions/:id',
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  getRequisitionController,
+);
+
+/**
+ * @swagger
+ * /recruitment/requisitions/{id}:
+ *   patch:
+ *     summary: Update job requisition
+ *     description: Any field can change until the requisition is closed. Openings can't go below the
+ *       hires already made; raising them reopens a filled requisition. A stage can only be removed
+ *       when no candidate is in it. hiringManagerId null removes the manager.
+ *     tags: [Recruitment]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *               departmentId:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               openings:
+ *                 type: integer
+ *               hiringManagerId:
+ *                 type: string
+ *                 nullable: true
+ *               location:
+ *                 type: string
+ *               stages:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Job requisition updated
+ *       400:
+ *         description: Validation error, or openings below hires
+ *       404:
+ *         description: Job requisition not found
+ *       409:
+ *         description: Requisition closed, or candidates in a removed stage
+ */
+router.patch(
+  '/requisitions/:id',
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(updateRequisitionSchema, 'body'), // WHY: Validate request body
+  updateRequisitionController,
+);
+
+/**
+ * @swagger
+ * /recruitment/requisitions/{id}/status:
+ *   patch:
+ *     summary: Update job requisition status
+ *     description: OPEN, ON_HOLD or CLOSED. Closing rejects every candidate still in progress.
+ *       FILLED is set by the last hire, and a filled requisition reopens by raising its openings.
+ *     tags: [Recruitment]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [OPEN, ON_HOLD, CLOSED]
+ *     responses:
+ *       200:
+ *         description: Status updated
+ *       404:
+ *         description: Job requisition not found
+ *       409:
+ *         description: Transition not allowed, or every opening is filled
+ */
+router.patch(
+  '/requisitions/:id/status',
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(updateRequisitionStatusSchema, 'body'), // WHY: Validate request body
+  updateRequisitionStatusController,
+);
+
+/**
+ * @swagger
+ * /recruitment/requisitions/{id}/candidates:
+ *   post:
+ *     summary: Add candidate
+ *     description: Adds an applicant to an open requisition at APPLIED. One application per email
+ *       and requisition.
+ *     tags: [Recruitment]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Job requisition ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - firstName
+ *               - lastName
+ *               - email
+ *             properties:
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               phoneNumber:
+ *                 type: string
+ *               source:
+ *                 type: string
+ *                 example: Referral
+ *     responses:
+ *       201:
+ *         description: Candidate added
+ *       404:
+ *         description: Job requisition not found
+ *       409:
+ *         description: Requisition not open, or candidate already applied
+ */
+router.post(
+  '/requisitions/:id/candidates',
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(createCandidateSchema, 'body'), // WHY: Validate request body
+  createCandidateController,
+);
+
+/**
+ * @swagger
+ * /recruitment/candidates:
+ *   get:
+ *     summary: List candidates
+ *     description: Paginated list. q matches name or email. Sortable by createdAt, lastName and
+ *       stage (default -createdAt).
+ *     tags: [Recruitment]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[requisitionId]
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filter[stage]
+ *         schema:
+ *           type: string
+ *           enum: [APPLIED, SCREENING, INTERVIEW, OFFER, HIRED, REJECTED]
+ *     responses:
+ *       200:
+ *         description: Paginated candidate list ({ items, pagination })
+ */
+router.get(
+  '/candidates',
+  validateRequest(listCandidatesQuerySchema, 'query'), // WHY: Validate query string
+  getCandidatesController,
+);
+
+/**
+ * @swagger
+ * /recruitment/candidates/{id}:
+ *   get:
+ *     summary: Get candidate
+ *     description: Includes the stage history - each stage with who moved the candidate and when.
+ *     tags: [Recruitment]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Candidate
+ *       404:
+ *         description: Candidate not found
+ */
+router.get(
+  '/candidates/:id',
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  getCandidateController,
+);
+
+/**
+ * @swagger
+ * /recruitment/candidates/{id}:
+ *   patch:
+ *     summary: Update candidate
+ *     description: Contact details can change at any stage. offer replaces the offer, and only at
+ *       the OFFER stage.
+ *     tags: [Recruitment]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *               phoneNumber:
+ *                 type: string
+ *               source:
+ *                 type: string
+ *               offer:
+ *                 type: object
+ *                 properties:
+ *                   designation:
+ *                     type: string
+ *                   joiningDate:
+ *                     type: string
+ *                     format: date
+ *                   managerId:
+ *                     type: string
+ *                   salary:
+ *                     type: number
+ *                   location:
+ *                     type: string
+ *     responses:
+ *       200:
+ *         description: Candidate updated
+ *       404:
+ *         description: Candidate not found
+ *       409:
+ *         description: Email already applied, or candidate not at the offer stage
+ */
+router.patch(
+  '/candidates/:id',
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(updateCandidateSchema, 'body'), // WHY: Validate request body
+  updateCandidateController,
+);
+
+/**
+ * @swagger
+ * /recruitment/candidates/{id}/stage:
+ *   post:
+ *     summary: Move candidate
+ *     description: Moves a candidate forward to a later stage of the requisition's pipeline (stages
+ *       may be skipped), or to REJECTED from any stage before HIRED. Moving forward needs an open
+ *       requisition. OFFER needs offer details - designation, manager and location default to the
+ *       requisition's. HIRED is only reached from OFFER and takes one of the openings.
+ *     tags: [Recruitment]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - stage
+ *             properties:
+ *               stage:
+ *                 type: string
+ *                 enum: [SCREENING, INTERVIEW, OFFER, HIRED, REJECTED]
+ *               note:
+ *                 type: string
+ *                 example: Strong system design round
+ *               offer:
+ *                 type: object
+ *                 required:
+ *                   - joiningDate
+ *                 properties:
+ *                   designation:
+ *                     type: string
+ *                   joiningDate:
+ *                     type: string
+ *                     format: date
+ *                   managerId:
+ *                     type: string
+ *                   salary:
+ *                     type: number
+ *                   location:
+ *                     type: string
+ *     responses:
+ *       200:
+ *         description: Candidate moved
+ *       400:
+ *         description: Validation error (e.g. OFFER without offer details), or inactive manager
+ *       404:
+ *         description: Candidate not found
+ *       409:
+ *         description: Move not allowed, requisition not open or filled, or candidate hired/rejected
+ */
+router.post(
+  '/candidates/:id/stage',
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(moveCandidateSchema, 'body'), // WHY: Validate request body
+  moveCandidateController,
+);
+
+/**
+ * @swagger
+ * /recruitment/candidates/{id}/convert:
+ *   post:
+ *     summary: Convert hired candidate into an employee
+ *     description: Creates the user account (EMPLOYEE role, generated password emailed to the candidate) and the
+ *       employee record from the candidate and their offer - department from the requisition; designation,
+ *       joining date, manager, salary and location from the offer - and starts their onboarding, in one
+ *       transaction.
+ *     tags: [Recruitment]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - employeeId
+ *             properties:
+ *               employeeId:
+ *                 type: string
+ *                 example: EMP042
+ *     responses:
+ *       201:
+ *         description: Candidate converted ({ candidate, employee, onboarding })
+ *       400:
+ *         description: Validation error, inactive department or manager
+ *       403:
+ *         description: Forbidden - requires recruitment:manage and employee:manage permissions
+ *       404:
+ *         description: Candidate not found
+ *       409:
+ *         description: Candidate not hired or already converted, email or employee ID in use
+ */
+router.post(
+  '/candidates/:id/convert',
+  requirePermission(Permission.EMPLOYEE_MANAGE), // WHY: Creates an employee, like POST /employees
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(convertCandidateSchema, 'body'), // WHY: Validate request body
+  convertCandidateController,
+);
+
+/**
+ * @swagger
+ * /recruitment/candidates/{id}/resume:
+ *   put:
+ *     summary: Upload resume
+ *     description: The file is the request body. Replaces any previous resume.
+ *     tags: [Recruitment]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: filename
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: jane-doe-cv.pdf
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/pdf:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *         application/msword:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *         application/vnd.openxmlformats-officedocument.wordprocessingml.document:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       200:
+ *         description: Resume uploaded
+ *       400:
+ *         description: Not a PDF or Word body, empty file, or invalid filename
+ *       404:
+ *         description: Candidate not found
+ *       413:
+ *         description: File larger than 5 MB
+ */
+router.put(
+  '/candidates/:id/resume',
+  express.raw({ type: [...RESUME_LIMITS.CONTENT_TYPES], limit: RESUME_LIMITS.MAX_BYTES }), // WHY: The file arrives as the raw body
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(uploadResumeBodySchema), // WHY: Validate request body
+  validateRequest(uploadResumeQuerySchema, 'query'), // WHY: Validate query string
+  uploadResumeController,
+);
+
+/**
+ * @swagger
+ * /recruitment/candidates/{id}/resume:
+ *   get:
+ *     summary: Download resume
+ *     tags: [Recruitment]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The resume file, with its original name and type
+ *       404:
+ *         description: Candidate or resume not found
+ */
+router.get(
+  '/candidates/:id/resume',
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  getResumeController,
+);
+
+export default router;
@@ -0,0 +1,122 @@
+/**
+ * WHAT: TypeScript types for Recruitment module
+ *
+ * WHY: Centralized type definitions ensure type safety across recruitment module.
+ * Response types decouple the API contract from the Mongoose document shape.
+ *
+ * HOW: Exports interfaces used in recruitment services and controller
+ */
+
+import { RequisitionStatus } from './job-requisition.model';
+import { CandidateStage } from './candidate.model';
+import { EmployeeResponse } from '../employee/employee.types';
+import { OnboardingResponse } from '../onboarding/onboarding.types';
+import { Pagination } from '../../utils/response.util';
+
+/**
+ * WHAT: Candidates at one stage
+ */
+export interface StageCount {
+  stage: CandidateStage;
+  count: number;
+}
+
+/**
+ * WHAT: Job requisition response interface
+ *
+ * WHY: stageCounts is only on the single-requisition response - lists
+ * would need one aggregation per row.
+ */
+export interface RequisitionResponse {
+  id: string;
+  title: string;
+  departmentId: string;
+  department: string; // WHY: Current department name
+  description?: string;
+  openings: number;
+  hiredCount: number;
+  hiringManagerId?: string;
+  location?: string;
+  stages: CandidateStage[];
+  status: RequisitionStatus;
+  createdBy: string;
+  closedAt?: Date;
+  stageCounts?: StageCount[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Paginated job requisition list
+ */
+export interface RequisitionListResult {
+  requisitions: RequisitionResponse[];
+  pagination: Pagination;
+}
+
+/**
+ * WHAT: Stage change response interface
+ */
+export interface StageChangeResponse {
+  stage: CandidateStage;
+  note?: string;
+  changedBy: string;
+  changedAt: Date;
+}
+
+/**
+ * WHAT: Offer response interface
+ */
+export interface OfferResponse {
+  designation: string;
+  joiningDate: Date;
+  managerId?: string;
+  salary?: number;
+  location?: string;
+}
+
+/**
+ * WHAT: Candidate response interface
+ */
+export interface CandidateResponse {
+  id: string;
+  requisitionId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phoneNumber?: string;
+  source?: string;
+  stage: CandidateStage;
+  stageHistory: StageChangeResponse[];
+  offer?: OfferResponse;
+  resume?: {
+    filename: string;
+    contentType: string;
+    size: number;
+    uploadedAt: Date;
+  };
+  employeeId?: string; // WHY: Employee record once converted
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Paginated candidate list
+ */
+export interface CandidateListResult {
+  candidates: CandidateResponse[];
+  pagination: Pagination;
+}
+
+/**
+ * WHAT: Candidate conversion result
+ *
+ * WHY: Everything the conversion created, so HR can go straight to the
+ * new employee or their onboarding.
+ */
+export interface CandidateConversionResult {
+  candidate: CandidateResponse;
+  employee: EmployeeResponse;
+  onboarding: OnboardingResponse;
+}
@@ -0,0 +1,255 @@
+/**
+ * WHAT: Validation schemas for Recruitment endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating request bodies and query strings
+ */
+
+import { z } from 'zod';
+import { RequisitionStatus } from './job-requisition.model';
+import { CandidateStage } from './candidate.model';
+import { PIPELINE_STAGES, REQUIRED_STAGES } from './recruitment.constants';
+import { employeeIdSchema } from '../employee/employee.validation';
+import { objectIdSchema } from '../../utils/validation.util';
+import { createListQuerySchema } from '../../utils/query.util';
+
+/**
+ * WHAT: Requisition pipeline schema
+ *
+ * WHY: Stages come from PIPELINE_STAGES, in its order, each once, and
+ * include the required ones. Defaults to every stage.
+ */
+const stagesSchema = z
+  .array(z.nativeEnum(CandidateStage))
+  .refine((stages) => stages.every((stage) => PIPELINE_STAGES.includes(stage)), {
+    message: `Stages must be among ${PIPELINE_STAGES.join(', ')}`,
+  })
+  .refine((stages) => REQUIRED_STAGES.every((stage) => stages.includes(stage)), {
+    message: `Stages must include ${REQUIRED_STAGES.join(', ')}`,
+  })
+  .refine(
+    (stages) =>
+      stages.every(
+        (stage, index) =>
+          index === 0 || PIPELINE_STAGES.indexOf(stage) > PIPELINE_STAGES.indexOf(stages[index - 1]),
+      ),
+    { message: `Stages must be listed once each, in the order ${PIPELINE_STAGES.join(', ')}` },
+  );
+
+/**
+ * WHAT: Job requisition fields
+ */
+const requisitionFields = {
+  title: z
+    .string()
+    .trim()
+    .min(1, 'Title is required')
+    .max(100, 'Title must be less than 100 characters'),
+  departmentId: objectIdSchema,
+  description: z
+    .string()
+    .trim()
+    .max(5000, 'Description must be less than 5000 characters')
+    .optional(),
+  openings: z
+    .number({ invalid_type_error: 'Openings must be a number' })
+    .int('Openings must be a whole number')
+    .min(1, 'A requisition needs at least one opening')
+    .max(500),
+  // WHY: Manager is an Employee document; default manager of offers
+  hiringManagerId: objectIdSchema,
+  location: z.string().trim().min(1).max(100, 'Location must be less than 100 characters'),
+  stages: stagesSchema,
+};
+
+/**
+ * WHAT: Create job requisition validation schema
+ */
+export const createRequisitionSchema = z.object({
+  ...requisitionFields,
+  openings: requisitionFields.openings.default(1),
+  hiringManagerId: requisitionFields.hiringManagerId.optional(),
+  location: requisitionFields.location.optional(),
+  stages: requisitionFields.stages.default([...PIPELINE_STAGES]),
+});
+
+/**
+ * WHAT: Update job requisition validation schema
+ *
+ * WHY: Partial update - only provided fields change. hiringManagerId
+ * accepts null to remove the manager. Status has its own endpoint.
+ */
+export const updateRequisitionSchema = z
+  .object({
+    ...requisitionFields,
+    hiringManagerId: requisitionFields.hiringManagerId.nullable(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * WHAT: Update job requisition status validation schema
+ *
+ * WHY: FILLED is set by hiring, never by hand.
+ */
+export const updateRequisitionStatusSchema = z.object({
+  status: z.enum([RequisitionStatus.OPEN, RequisitionStatus.ON_HOLD, RequisitionStatus.CLOSED]),
+});
+
+/**
+ * WHAT: List job requisitions query validation schema
+ *
+ * WHY: Standard list query - q matches the title.
+ */
+export const listRequisitionsQuerySchema = createListQuerySchema({
+  filters: {
+    status: z.nativeEnum(RequisitionStatus),
+    departmentId: objectIdSchema,
+  },
+  sortable: ['createdAt', 'title'],
+  defaultSort: '-createdAt', // WHY: Newest opening first
+});
+
+/**
+ * WHAT: Candidate contact fields
+ */
+const candidateFields = {
+  firstName: z
+    .string()
+    .trim()
+    .min(1, 'First name is required')
+    .max(50, 'First name must be less than 50 characters'),
+  lastName: z
+    .string()
+    .trim()
+    .min(1, 'Last name is required')
+    .max(50, 'Last name must be less than 50 characters'),
+  email: z.string().email('Invalid email format').toLowerCase().trim(),
+  phoneNumber: z.string().trim().optional(),
+  source: z.string().trim().max(100, 'Source must be less than 100 characters').optional(),
+};
+
+/**
+ * WHAT: Offer validation schema
+ *
+ * WHY: Designation defaults to the requisition title and manager to its
+ * hiring manager, so HR only types what differs.
+ */
+const offerSchema = z.object({
+  designation: z.string().trim().min(1).max(100, 'Designation must be less than 100 characters').optional(),
+  joiningDate: z.coerce.date({ invalid_type_error: 'Invalid joining date' }),
+  managerId: objectIdSchema.optional(),
+  salary: z.number().min(0, 'Salary cannot be negative').optional(),
+  location: z.string().trim().min(1).max(100, 'Location must be less than 100 characters').optional(),
+});
+
+/**
+ * WHAT: Add candidate validation schema
+ */
+export const createCandidateSchema = z.object(candidateFields);
+
+/**
+ * WHAT: Update candidate validation schema
+ *
+ * WHY: Contact details can be corrected at any stage; the offer only at
+ * the offer stage (e.g. a new joining date), replacing it whole.
+ */
+export const updateCandidateSchema = z
+  .object({ ...candidateFields, offer: offerSchema })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * WHAT: Move candidate validation schema
+ *
+ * WHY: Moving to OFFER records what was offered.
+ */
+export const moveCandidateSchema = z
+  .object({
+    stage: z.nativeEnum(CandidateStage),
+    note: z.string().trim().max(1000, 'Note must be less than 1000 characters').optional(),
+    offer: offerSchema.optional(),
+  })
+  .refine((data) => data.stage !== CandidateStage.OFFER || data.offer !== undefined, {
+    message: 'Offer details are required to move a candidate to offer',
+    path: ['offer'],
+  })
+  .refine((data) => data.stage === CandidateStage.OFFER || data.offer === undefined, {
+    message: 'Offer details are only accepted when moving to offer',
+    path: ['offer'],
+  });
+
+/**
+ * WHAT: Convert candidate validation schema
+ *
+ * WHY: Everything else comes from the candidate, their offer and the
+ * requisition - HR only picks the employee ID.
+ */
+export const convertCandidateSchema = z.object({
+  employeeId: employeeIdSchema,
+});
+
+/**
+ * WHAT: Resume upload body validation schema
+ *
+ * WHY: The raw body parser only reads PDF and Word content types; anything
+ * else leaves no file behind.
+ */
+export const uploadResumeBodySchema = z
+  .instanceof(Buffer, {
+    message: 'Send the resume as the request body with a PDF or Word Content-Type',
+  })
+  .refine((value) => value.length > 0, { message: 'Resume file is empty' });
+
+/**
+ * WHAT: Resume upload query validation schema
+ *
+ * WHY: The body is the raw file, so its name comes in the query. Only
+ * plain characters - it is sent back in a Content-Disposition header.
+ */
+export const uploadResumeQuerySchema = z.object({
+  filename: z
+    .string()
+    .trim()
+    .regex(/^[\w\- .()]{1,100}\.(pdf|docx?)$/i, 'Filename must be a .pdf, .doc or .docx name of plain characters'),
+});
+
+/**
+ * WHAT: List candidates query validation schema
+ *
+ * WHY: Standard list query - q matches name or email.
+ */
+export const listCandidatesQuerySchema = createListQuerySchema({
+  filters: {
+    requisitionId: objectIdSchema,
+    stage: z.nativeEnum(CandidateStage),
+  },
+  sortable: ['createdAt', 'lastName', 'stage'],
+  defaultSort: '-createdAt', // WHY: Latest applicant first
+  defaultLimit: 20,
+});
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * WHY: Type-safe request bodies in controllers.
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type CreateRequisitionInput = z.infer<typeof createRequisitionSchema>;
+export type UpdateRequisitionInput = z.infer<typeof updateRequisitionSchema>;
+export type UpdateRequisitionStatusInput = z.infer<typeof updateRequisitionStatusSchema>;
+export type ListRequisitionsQuery = z.infer<typeof listRequisitionsQuerySchema>;
+export type OfferInput = z.infer<typeof offerSchema>;
+export type CreateCandidateInput = z.infer<typeof createCandidateSchema>;
+export type UpdateCandidateInput = z.infer<typeof updateCandidateSchema>;
+export type MoveCandidateInput = z.infer<typeof moveCandidateSchema>;
+export type ConvertCandidateInput = z.infer<typeof convertCandidateSchema>;
+export type UploadResumeQuery = z.infer<typeof uploadResumeQuerySchema>;
+export type ListCandidatesQuery = z.infer<typeof listCandidatesQuerySchema>;
@@ -0,0 +1,28 @@
+/**
+ * WHAT: Session module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Consistent error messages and codes
+ * - Single place to change session rules
+ *
+ * HOW: Exports constants used across session module
+ */
+
+/**
+ * WHAT: Session error messages
+ */
+export const SESSION_ERRORS = {
+  NOT_FOUND: 'Session not found',
+  REFRESH_TOKEN_INVALID: 'Invalid refresh token',
+  REFRESH_TOKEN_REUSED: 'Refresh token was already used. Session has been revoked, please login again',
+} as const;
+
+/**
+ * WHAT: Machine-readable error codes
+ *
+ * WHY: The frontend signs the user out on either, but can explain a reuse.
+ */
+export const SESSION_ERROR_CODES = {
+  REFRESH_TOKEN_INVALID: 'REFRESH_TOKEN_INVALID',
+  REFRESH_TOKEN_REUSED: 'REFRESH_TOKEN_REUSED',
+} as const;
@@ -0,0 +1,86 @@
+/**
+ * WHAT: Session controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getMySessions, revokeSession, revokeOtherSessions } from './session.service';
+import { JWTPayload } from '../auth/auth.types';
+import { sendSuccess } from '../../utils/response.util';
+import { getAuditContext } from '../../utils/audit.util';
+
+/**
+ * WHAT: List own sessions controller
+ *
+ * WHY: Handles GET /api/auth/sessions requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMySessionsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    // WHY: The access token's sessionId marks which session is "this device"
+    const sessions = await getMySessions(user.userId, user.sessionId);
+
+    sendSuccess(res, sessions);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Revoke session controller
+ *
+ * WHY: Handles DELETE /api/auth/sessions/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function revokeSessionController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    await revokeSession(user.userId, req.params.id, getAuditContext(req));
+
+    sendSuccess(res, { message: 'Session revoked successfully' });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Revoke other sessions controller
+ *
+ * WHY: Handles DELETE /api/auth/sessions requests.
+ *
+ * HOW: Express route handler
+ */
+export async function revokeOtherSessionsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    const result = await revokeOtherSessions(user.userId, user.sessionId, getAuditContext(req));
+
+    sendSuccess(res, result, 200, 'Other sessions revoked successfully');
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,118 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Session Mongoose model and schema
+ *
+ * WHY: One document per signed-in device. Replaces the single refreshToken
+ * string on User, which let a second login silently end the first.
+ *
+ * HOW: Stores a hash of the device's current refresh token. Every refresh
+ * rotates the token (new hash); an older token of the same session being
+ * presented again means it was stolen, so the whole session is revoked.
+ */
+
+/**
+ * WHAT: Why a session was revoked
+ *
+ * WHY: Kept on the session for investigation - a REUSE_DETECTED
+ * revocation is a security event, a LOGOUT is not.
+ */
+export enum SessionRevokedReason {
+  LOGOUT = 'LOGOUT',
+  USER_INACTIVE = 'USER_INACTIVE', // WHY: Account deactivated - ended on its next refresh
+  USER_REVOKED = 'USER_REVOKED', // WHY: Revoked from the session list
+  PASSWORD_RESET = 'PASSWORD_RESET', // WHY: Password reset - every device must log in again
+  PASSWORD_CHANGE = 'PASSWORD_CHANGE', // WHY: Password changed - other devices held the old credentials
+  REUSE_DETECTED = 'REUSE_DETECTED',
+}
+
+/**
+ * WHAT: Session document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ *
+ * HOW: Used throughout session module for type safety
+ */
+export interface ISessionDocument extends Document {
+  userId: mongoose.Types.ObjectId; // WHY: Reference to User
+  tokenHash: string; // WHY: SHA-256 of the current refresh token - never the token itself
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokedReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Session schema definition
+ *
+ * WHY: Schema defines structure, validation, and indexes for session collection.
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const sessionSchema = new Schema<ISessionDocument>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+
+    tokenHash: {
+      type: String,
+      required: true,
+      select: false, // WHY: Only the refresh flow needs it
+    },
+
+    userAgent: {
+      type: String,
+      maxlength: 500,
+    },
+
+    ip: {
+      type: String,
+    },
+
+    lastUsedAt: {
+      type: Date,
+      required: true,
+    },
+
+    // WHY: Moves forward on every rotation - matches the current token's expiry
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+
+    revokedAt: {
+      type: Date,
+    },
+
+    revokedReason: {
+      type: String,
+      enum: Object.values(SessionRevokedReason),
+    },
+  },
+  {
+    // WHY: timestamps automatically add createdAt (sign-in time) and updatedAt
+    timestamps: true,
+  },
+);
+
+// WHY: Session list - a user's sessions, newest activity first
+sessionSchema.index({ userId: 1, lastUsedAt: -1 });
+
+// WHY: TTL index - MongoDB deletes sessions once their refresh token has expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * WHAT: Session model export
+ *
+ * WHY: Model provides database operations.
+ *
+ * HOW: Mongoose model created from schema
+ */
+export const Session = mongoose.model<ISessionDocument>('Session', sessionSchema);
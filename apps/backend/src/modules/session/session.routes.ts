@@ -0,0 +1,121 @@
+/**
+ * WHAT: Session routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router mounted at /api/auth/sessions
+ */
+
+import { Router } from 'express';
+import {
+  getMySessionsController,
+  revokeSessionController,
+  revokeOtherSessionsController,
+} from './session.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import { idParamSchema } from '../../utils/validation.util';
+import { authenticate } from '../../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * WHY: Every user manages their own sessions - authentication is enough,
+ * the service scopes every query to the caller.
+ */
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   get:
+ *     summary: List own sessions
+ *     description: Active signed-in sessions (one per device login), most recently used first. The session of the current access token is marked current.
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Session list
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       userAgent:
+ *                         type: string
+ *                       ip:
+ *                         type: string
+ *                       current:
+ *                         type: boolean
+ *                       lastUsedAt:
+ *                         type: string
+ *                         format: date-time
+ *                       expiresAt:
+ *                         type: string
+ *                         format: date-time
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', getMySessionsController);
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   delete:
+ *     summary: Revoke other sessions
+ *     description: Signs out every other device. The current session stays signed in.
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions revoked ({ revokedCount })
+ *       401:
+ *         description: Unauthorized
+ */
+router.delete('/', revokeOtherSessionsController);
+
+/**
+ * @swagger
+ * /auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke session
+ *     description: Signs out one of your own sessions. Its refresh token stops working immediately; access tokens already issued expire within 15 minutes.
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Session not found, not yours or already revoked
+ */
+router.delete(
+  '/:id',
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  revokeSessionController,
+);
+
+export default router;
@@ -0,0 +1,334 @@
+/**
+ * WHAT: Session service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * Owns refresh tokens: issuing them on login, rotating them on refresh,
+ * detecting replayed tokens and revoking sessions.
+ *
+ * HOW: Refresh tokens are JWTs carrying the sessionId; the session stores
+ * only a SHA-256 hash of the device's current token.
+ */
+
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { Session, ISessionDocument, SessionRevokedReason } from './session.model';
+import {
+  IssuedSession,
+  RefreshTokenPayload,
+  SessionClientInfo,
+  SessionResponse,
+} from './session.types';
+import { SESSION_ERRORS, SESSION_ERROR_CODES } from './session.constants';
+import { TOKEN_EXPIRATION } from '../auth/auth.constants';
+import env from '../../config/env';
+import { createHttpError } from '../../utils/error.util';
+import { hashToken } from '../../utils/token.util';
+import { AppError } from '../../middlewares/error.middleware';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+
+/**
+ * WHAT: Sign a refresh token for a session
+ *
+ * HOW: Returns the token and its expiry, which becomes the session's expiresAt
+ */
+function signRefreshToken(
+  userId: string,
+  sessionId: string,
+): { refreshToken: string; expiresAt: Date } {
+  const payload: RefreshTokenPayload = { userId, sessionId, jti: crypto.randomUUID() };
+  const refreshToken = jwt.sign(payload, env.JWT_REFRESH_SECRET, {
+    expiresIn: TOKEN_EXPIRATION.REFRESH_TOKEN,
+  });
+  const { exp } = jwt.decode(refreshToken) as { exp: number };
+
+  return { refreshToken, expiresAt: new Date(exp * 1000) };
+}
+
+/**
+ * WHAT: 401 for refresh tokens that can't be used
+ */
+function invalidRefreshTokenError(): AppError {
+  return createHttpError(
+    SESSION_ERRORS.REFRESH_TOKEN_INVALID,
+    401,
+    SESSION_ERROR_CODES.REFRESH_TOKEN_INVALID,
+  );
+}
+
+/**
+ * WHAT: Verify a refresh token's signature and expiry
+ *
+ * WHY: Any failure is reported the same way - the client must log in again.
+ */
+function verifyRefreshToken(refreshToken: string): RefreshTokenPayload {
+  try {
+    const payload = jwt.verify(refreshToken, env.JWT_REFRESH_SECRET) as RefreshTokenPayload;
+    if (!payload.sessionId || !mongoose.Types.ObjectId.isValid(payload.sessionId)) {
+      throw new jwt.JsonWebTokenError('Refresh token has no session');
+    }
+    return payload;
+  } catch (error) {
+    if (error instanceof jwt.JsonWebTokenError) {
+      throw invalidRefreshTokenError();
+    }
+    throw error;
+  }
+}
+
+/**
+ * WHAT: Map session document to response shape
+ */
+function toSessionResponse(
+  session: ISessionDocument,
+  currentSessionId?: string,
+): SessionResponse {
+  const id = session._id.toString();
+
+  return {
+    id,
+    userAgent: session.userAgent,
+    ip: session.ip,
+    current: id === currentSessionId,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    createdAt: session.createdAt,
+  };
+}
+
+/**
+ * WHAT: Filter for sessions that can still be refreshed
+ */
+function activeSessionFilter(): Record<string, unknown> {
+  return { revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } };
+}
+
+/**
+ * WHAT: Create session service
+ *
+ * WHY: Called on login. Each login is a new device session, so signing in
+ * on a second device leaves the first one working.
+ *
+ * HOW: Pre-generates the session ID so it can be signed into the token
+ */
+export async function createSession(
+  userId: string,
+  client: SessionClientInfo,
+): Promise<IssuedSession> {
+  const sessionId = new mongoose.Types.ObjectId();
+  const { refreshToken, expiresAt } = signRefreshToken(userId, sessionId.toString());
+
+  await Session.create({
+    _id: sessionId,
+    userId,
+    tokenHash: hashToken(refreshToken),
+    ip: client.ip,
+    userAgent: client.userAgent,
+    lastUsedAt: new Date(),
+    expiresAt,
+  });
+
+  return { sessionId: sessionId.toString(), refreshToken };
+}
+
+/**
+ * WHAT: Rotate session service
+ *
+ * WHY: Every refresh replaces the refresh token, so a stolen token is only
+ * useful until the real device next refreshes. If an already-rotated token
+ * is presented, either the thief or the real device is replaying it - we
+ * can't tell which, so the whole session is revoked and both must log in again.
+ *
+ * HOW: Swaps the hash with a conditional update on the presented hash, so two
+ * concurrent refreshes can't both succeed. If the update misses, the session is
+ * reloaded to tell a replay (active session, different hash) from a dead session.
+ */
+export async function rotateSession(
+  refreshToken: string,
+  client: SessionClientInfo,
+): Promise<IssuedSession & { userId: string }> {
+  const payload = verifyRefreshToken(refreshToken);
+  const tokenHash = hashToken(refreshToken);
+  const rotated = signRefreshToken(payload.userId, payload.sessionId);
+
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: payload.sessionId,
+      userId: payload.userId,
+      tokenHash,
+      ...activeSessionFilter(),
+    },
+    {
+      tokenHash: hashToken(rotated.refreshToken),
+      lastUsedAt: new Date(),
+      expiresAt: rotated.expiresAt,
+      ip: client.ip,
+      userAgent: client.userAgent,
+    },
+    { new: true },
+  );
+
+  if (session) {
+    return {
+      userId: payload.userId,
+      sessionId: payload.sessionId,
+      refreshToken: rotated.refreshToken,
+    };
+  }
+
+  const existing = await Session.findOne({
+    _id: payload.sessionId,
+    userId: payload.userId,
+    ...activeSessionFilter(),
+  }).select('+tokenHash');
+
+  // WHY: Validly signed token for a live session, but not its current token - a replay
+  if (existing && existing.tokenHash !== tokenHash) {
+    existing.revokedAt = new Date();
+    existing.revokedReason = SessionRevokedReason.REUSE_DETECTED;
+    await existing.save();
+
+    // WHY: Refresh is a public route - the actor is the token's owner
+    await recordAuditLog(
+      { ...client, actorId: payload.userId },
+      {
+        action: AuditAction.TOKEN_REUSE,
+        entityType: AuditEntityType.SESSION,
+        entityId: payload.sessionId,
+        metadata: { userId: payload.userId },
+      },
+    );
+
+    throw createHttpError(
+      SESSION_ERRORS.REFRESH_TOKEN_REUSED,
+      401,
+      SESSION_ERROR_CODES.REFRESH_TOKEN_REUSED,
+    );
+  }
+
+  throw invalidRefreshTokenError();
+}
+
+/**
+ * WHAT: Get own sessions service
+ *
+ * WHY: Lets users see where they are signed in and spot devices they don't recognise.
+ *
+ * HOW: Active sessions only, most recently used first
+ */
+export async function getMySessions(
+  userId: string,
+  currentSessionId?: string,
+): Promise<SessionResponse[]> {
+  const sessions = await Session.find({ userId, ...activeSessionFilter() }).sort({
+    lastUsedAt: -1,
+  });
+
+  return sessions.map((session) => toSessionResponse(session, currentSessionId));
+}
+
+/**
+ * WHAT: End session service
+ *
+ * WHY: Used by logout and when a deactivated user tries to refresh.
+ * Idempotent - logging out of a session that was already revoked
+ * (e.g. from another device) is not an error.
+ *
+ * HOW: Marks the session revoked if it is still active
+ */
+export async function endSession(
+  sessionId: string,
+  reason: SessionRevokedReason,
+): Promise<void> {
+  await Session.updateOne(
+    { _id: sessionId, ...activeSessionFilter() },
+    { revokedAt: new Date(), revokedReason: reason },
+  );
+}
+
+/**
+ * WHAT: Revoke session service
+ *
+ * WHY: Lets users sign out a device from the session list.
+ * Scoped to the user, so nobody can revoke someone else's session by ID.
+ *
+ * HOW: Marks the session revoked; its refresh token stops working immediately.
+ * Access tokens already issued stay valid until they expire (15 minutes).
+ */
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+  context: AuditContext,
+): Promise<void> {
+  const session = await Session.findOneAndUpdate(
+    { _id: sessionId, userId, ...activeSessionFilter() },
+    { revokedAt: new Date(), revokedReason: SessionRevokedReason.USER_REVOKED },
+    { new: true },
+  );
+
+  if (!session) {
+    throw createHttpError(SESSION_ERRORS.NOT_FOUND, 404);
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.SESSION_REVOKE,
+    entityType: AuditEntityType.SESSION,
+    entityId: sessionId,
+    metadata: { userId, reason: SessionRevokedReason.USER_REVOKED },
+  });
+}
+
+/**
+ * WHAT: Revoke other sessions service
+ *
+ * WHY: "Sign out everywhere else" - one call instead of revoking each device.
+ *
+ * HOW: Revokes every active session of the user except the current one
+ */
+export async function revokeOtherSessions(
+  userId: string,
+  currentSessionId: string | undefined,
+  context: AuditContext,
+): Promise<{ revokedCount: number }> {
+  const filter: Record<string, unknown> = { userId, ...activeSessionFilter() };
+  if (currentSessionId) {
+    filter._id = { $ne: currentSessionId };
+  }
+
+  const result = await Session.updateMany(filter, {
+    revokedAt: new Date(),
+    revokedReason: SessionRevokedReason.USER_REVOKED,
+  });
+
+  if (result.modifiedCount > 0) {
+    await recordAuditLog(context, {
+      action: AuditAction.SESSION_REVOKE,
+      entityType: AuditEntityType.SESSION,
+      metadata: { userId, reason: SessionRevokedReason.USER_REVOKED, count: result.modifiedCount },
+    });
+  }
+
+  return { revokedCount: result.modifiedCount };
+}
+
+/**
+ * WHAT: Revoke all sessions service
+ *
+ * WHY: After a password reset, whoever had the old password may also hold
+ * refresh tokens - every device must log in again with the new password.
+ *
+ * HOW: Revokes every active session of the user
+ */
+export async function revokeAllSessions(
+  userId: string,
+  reason: SessionRevokedReason,
+): Promise<number> {
+  const result = await Session.updateMany(
+    { userId, ...activeSessionFilter() },
+    { revokedAt: new Date(), revokedReason: reason },
+  );
+
+  return result.modifiedCount;
+}
@@ -0,0 +1,53 @@
+/**
+ * WHAT: TypeScript types for Session module
+ *
+ * WHY: Centralized type definitions ensure type safety across session module.
+ *
+ * HOW: Exports interfaces used in session service and controller
+ */
+
+/**
+ * WHAT: Refresh token claims
+ *
+ * WHY: sessionId ties the token to its device session. jti makes every
+ * issued token unique, so two rotations within the same second still differ.
+ */
+export interface RefreshTokenPayload {
+  userId: string;
+  sessionId: string;
+  jti: string;
+}
+
+/**
+ * WHAT: Device details recorded with a session
+ *
+ * WHY: Lets users recognise their sessions in the list ("Chrome on ...").
+ */
+export interface SessionClientInfo {
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * WHAT: Newly issued or rotated refresh token
+ */
+export interface IssuedSession {
+  sessionId: string;
+  refreshToken: string;
+}
+
+/**
+ * WHAT: Session response interface
+ *
+ * WHY: Never includes the token hash. current marks the session
+ * the request was made from. createdAt is when the device signed in.
+ */
+export interface SessionResponse {
+  id: string;
+  userAgent?: string;
+  ip?: string;
+  current: boolean;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+}
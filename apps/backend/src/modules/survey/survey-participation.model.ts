@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Survey participation Mongoose model and schema
+ *
+ * WHY: Records that a user responded - never what they answered - so
+ * nobody responds twice and employees see which surveys they've done.
+ *
+ * HOW: Written in the same transaction as the (anonymous) submission. No
+ * timestamps, for the same reason submissions have none.
+ */
+
+/**
+ * WHAT: Survey participation document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ *
+ * HOW: Used throughout survey module for type safety
+ */
+export interface ISurveyParticipationDocument extends Document {
+  surveyId: mongoose.Types.ObjectId; // WHY: Reference to Survey
+  userId: mongoose.Types.ObjectId; // WHY: Reference to User
+}
+
+/**
+ * WHAT: Survey participation schema definition
+ *
+ * WHY: Schema defines structure, validation, and indexes for survey participation collection.
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const surveyParticipationSchema = new Schema<ISurveyParticipationDocument>(
+  {
+    surveyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Survey',
+      required: true,
+    },
+
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: false,
+  },
+);
+
+// WHY: One response per user per survey - also the duplicate check
+surveyParticipationSchema.index({ surveyId: 1, userId: 1 }, { unique: true });
+
+/**
+ * WHAT: Survey participation model export
+ *
+ * WHY: Model provides database operations.
+ *
+ * HOW: Mongoose model created from schema
+ */
+export const SurveyParticipation = mongoose.model<ISurveyParticipationDocument>(
+  'SurveyParticipation',
+  surveyParticipationSchema,
+);
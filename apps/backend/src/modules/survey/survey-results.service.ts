@@ -0,0 +1,311 @@
+/**
+ * WHAT: Survey results service
+ *
+ * WHY: HR reads what employees said - as totals, never one person's
+ * answers. Results stay hidden below the survey's minimum respondents,
+ * and until the survey is closed: watching an open survey's results move
+ * after each response would show what the latest respondent answered.
+ *
+ * HOW: Aggregations over the anonymous submissions. Satisfaction is the
+ * percentage of favourable Likert answers (4 or 5) across the survey.
+ */
+
+import mongoose from 'mongoose';
+import { Survey, ISurveyDocument, QuestionType, SurveyStatus } from './survey.model';
+import { SurveySubmission } from './survey-submission.model';
+import { findSurveyOrFail } from './survey.service';
+import { LIKERT_SCALE } from './survey.constants';
+import {
+  QuestionResult,
+  DepartmentSatisfaction,
+  SurveyResultsResponse,
+  SatisfactionSummary,
+} from './survey.types';
+
+/**
+ * WHAT: Likert answers of one department
+ */
+interface DepartmentTally {
+  department: string | null; // WHY: null for respondents without an employee record
+  respondents: number;
+  answered: number;
+  favourable: number;
+}
+
+/**
+ * WHAT: Share of a whole as a percentage, one decimal
+ *
+ * HOW: null when there is nothing to share
+ */
+function toPercentage(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : null;
+}
+
+/**
+ * WHAT: Respondents and Likert answers per department
+ */
+async function getDepartmentTallies(surveyId: mongoose.Types.ObjectId): Promise<DepartmentTally[]> {
+  return SurveySubmission.aggregate<DepartmentTally>([
+    { $match: { surveyId } },
+    {
+      $project: {
+        department: { $ifNull: ['$department', null] },
+        ratings: {
+          $filter: { input: '$answers', cond: { $isNumber: '$$this.rating' } },
+        },
+      },
+    },
+    {
+      $group: {
+        _id: '$department',
+        respondents: { $sum: 1 },
+        answered: { $sum: { $size: '$ratings' } },
+        favourable: {
+          $sum: {
+            $size: {
+              $filter: {
+                input: '$ratings',
+                cond: { $gte: ['$$this.rating', LIKERT_SCALE.FAVOURABLE_FROM] },
+              },
+            },
+          },
+        },
+      },
+    },
+    { $project: { _id: 0, department: '$_id', respondents: 1, answered: 1, favourable: 1 } },
+  ]);
+}
+
+/**
+ * WHAT: Split departments into shown and hidden
+ *
+ * WHY: A department below the threshold is hidden - and so is the next
+ * smallest one while the hidden ones add up to fewer than the threshold,
+ * or the overall figure minus the shown departments would give the
+ * hidden one's answers away.
+ *
+ * HOW: Respondents without a department count as hidden from the start
+ */
+function splitDepartments(
+  tallies: DepartmentTally[],
+  minRespondents: number,
+): { shown: DepartmentTally[]; hiddenDepartments: number } {
+  const named = tallies
+    .filter((tally) => tally.department !== null)
+    .sort((a, b) => a.respondents - b.respondents);
+
+  let hiddenRespondents = tallies
+    .filter((tally) => tally.department === null)
+    .reduce((sum, tally) => sum + tally.respondents, 0);
+  let hiddenDepartments = 0;
+  const shown: DepartmentTally[] = [];
+
+  for (const tally of named) {
+    const mustHide =
+      tally.respondents < minRespondents ||
+      (hiddenRespondents > 0 && hiddenRespondents < minRespondents);
+    if (mustHide) {
+      hiddenRespondents += tally.respondents;
+      hiddenDepartments += 1;
+    } else {
+      shown.push(tally);
+    }
+  }
+
+  return { shown, hiddenDepartments };
+}
+
+/**
+ * WHAT: Map department tallies to their satisfaction
+ */
+function toDepartmentSatisfaction(tallies: DepartmentTally[]): DepartmentSatisfaction[] {
+  return tallies
+    .map((tally) => ({
+      department: tally.department as string,
+      respondentCount: tally.respondents,
+      satisfaction: toPercentage(tally.favourable, tally.answered),
+    }))
+    .sort((a, b) => a.department.localeCompare(b.department));
+}
+
+/**
+ * WHAT: Overall satisfaction from department tallies
+ */
+function toOverallSatisfaction(tallies: DepartmentTally[]): number | null {
+  return toPercentage(
+    tallies.reduce((sum, tally) => sum + tally.favourable, 0),
+    tallies.reduce((sum, tally) => sum + tally.answered, 0),
+  );
+}
+
+/**
+ * WHAT: Per-question results
+ *
+ * WHY: A question answered by fewer than minRespondents (optional ones)
+ * shows only how many answered.
+ *
+ * HOW: One aggregation counts ratings and choices; free text is listed
+ * in _id order, which is random (see survey-submission.model.ts)
+ */
+async function getQuestionResults(survey: ISurveyDocument): Promise<QuestionResult[]> {
+  const [counts, texts] = await Promise.all([
+    SurveySubmission.aggregate<{
+      _id: { questionId: mongoose.Types.ObjectId; rating?: number; choice?: string };
+      count: number;
+    }>([
+      { $match: { surveyId: survey._id } },
+      { $unwind: '$answers' },
+      { $match: { 'answers.text': { $exists: false } } },
+      {
+        $group: {
+          _id: {
+            questionId: '$answers.questionId',
+            rating: '$answers.rating',
+            choice: '$answers.choice',
+          },
+          count: { $sum: 1 },
+        },
+      },
+    ]),
+    SurveySubmission.aggregate<{ questionId: mongoose.Types.ObjectId; text: string }>([
+      { $match: { surveyId: survey._id } },
+      { $sort: { _id: 1 } },
+      { $unwind: '$answers' },
+      { $match: { 'answers.text': { $exists: true } } },
+      { $project: { _id: 0, questionId: '$answers.questionId', text: '$answers.text' } },
+    ]),
+  ]);
+
+  return survey.questions.map((question) => {
+    const id = question._id.toString();
+    const own = counts.filter((row) => row._id.questionId.toString() === id);
+    const ownTexts = texts.filter((row) => row.questionId.toString() === id).map((row) => row.text);
+    const answered =
+      question.type === QuestionType.TEXT
+        ? ownTexts.length
+        : own.reduce((sum, row) => sum + row.count, 0);
+
+    const result: QuestionResult = {
+      questionId: id,
+      type: question.type,
+      text: question.text,
+      answered,
+      visible: answered >= survey.minRespondents,
+    };
+    if (!result.visible) {
+      return result;
+    }
+
+    switch (question.type) {
+      case QuestionType.LIKERT: {
+        const distribution = [];
+        for (let rating = LIKERT_SCALE.MIN; rating <= LIKERT_SCALE.MAX; rating += 1) {
+          distribution.push({
+            rating,
+            count: own.find((row) => row._id.rating === rating)?.count ?? 0,
+          });
+        }
+        const total = distribution.reduce((sum, point) => sum + point.rating * point.count, 0);
+        const favourable = distribution
+          .filter((point) => point.rating >= LIKERT_SCALE.FAVOURABLE_FROM)
+          .reduce((sum, point) => sum + point.count, 0);
+        return {
+          ...result,
+          average: Math.round((total / answered) * 100) / 100,
+          favourable: toPercentage(favourable, answered) ?? 0,
+          distribution,
+        };
+      }
+      case QuestionType.MULTIPLE_CHOICE:
+        return {
+          ...result,
+          options: question.options.map((option) => ({
+            option,
+            count: own.find((row) => row._id.choice === option)?.count ?? 0,
+          })),
+        };
+      case QuestionType.TEXT:
+        return { ...result, answers: ownTexts };
+    }
+  });
+}
+
+/**
+ * WHAT: Get survey results service
+ *
+ * WHY: Per-question results, overall satisfaction and the per-department
+ * breakdown of a closed survey.
+ *
+ * HOW: Counts only (visible false) until the survey is closed with at
+ * least minRespondents
+ */
+export async function getSurveyResults(id: string): Promise<SurveyResultsResponse> {
+  const survey = await findSurveyOrFail(id);
+
+  const result: SurveyResultsResponse = {
+    surveyId: survey._id.toString(),
+    title: survey.title,
+    status: survey.status,
+    closedAt: survey.closedAt,
+    respondentCount: survey.respondentCount,
+    minRespondents: survey.minRespondents,
+    visible:
+      survey.status === SurveyStatus.CLOSED && survey.respondentCount >= survey.minRespondents,
+    satisfaction: null,
+    questions: [],
+    departments: [],
+    hiddenDepartments: 0,
+  };
+  if (!result.visible) {
+    return result;
+  }
+
+  const [tallies, questions] = await Promise.all([
+    getDepartmentTallies(survey._id),
+    getQuestionResults(survey),
+  ]);
+  const { shown, hiddenDepartments } = splitDepartments(tallies, survey.minRespondents);
+
+  return {
+    ...result,
+    satisfaction: toOverallSatisfaction(tallies),
+    questions,
+    departments: toDepartmentSatisfaction(shown),
+    hiddenDepartments,
+  };
+}
+
+/**
+ * WHAT: Latest satisfaction figures
+ *
+ * WHY: Backs the HR dashboard's "Employee Satisfaction" stat and
+ * per-department chart.
+ *
+ * HOW: The most recently closed survey with Likert questions and enough
+ * respondents; null before there is one
+ */
+export async function getLatestSatisfaction(): Promise<SatisfactionSummary | null> {
+  const survey = await Survey.findOne({
+    status: SurveyStatus.CLOSED,
+    'questions.type': QuestionType.LIKERT,
+    $expr: { $gte: ['$respondentCount', '$minRespondents'] },
+  }).sort({ closedAt: -1 });
+  if (!survey) {
+    return null;
+  }
+
+  const tallies = await getDepartmentTallies(survey._id);
+  const satisfaction = toOverallSatisfaction(tallies);
+  if (satisfaction === null) {
+    return null;
+  }
+  const { shown } = splitDepartments(tallies, survey.minRespondents);
+
+  return {
+    surveyId: survey._id.toString(),
+    title: survey.title,
+    closedAt: survey.closedAt,
+    satisfaction,
+    departments: toDepartmentSatisfaction(shown),
+  };
+}
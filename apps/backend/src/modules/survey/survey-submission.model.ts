@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import mongoose, { Schema, Document } from 'mongoose';
+import { UserRole } from '../auth/auth.types';
+
+/**
+ * WHAT: Survey submission Mongoose model and schema
+ *
+ * WHY: One respondent's answers, kept apart from who gave them. Nothing
+ * here can be matched back to a user:
+ * - no user or employee reference (who responded is in SurveyParticipation)
+ * - no timestamps, and a random _id instead of an ObjectId, which embeds
+ *   its creation time - otherwise the time would pair each response with
+ *   its participation record
+ *
+ * HOW: Department and role are kept for breakdowns; results only show
+ * groups of at least the survey's minRespondents.
+ */
+
+/**
+ * WHAT: One answer
+ *
+ * WHY: Exactly one of rating, choice or text, by question type.
+ */
+export interface ISurveyAnswer {
+  questionId: mongoose.Types.ObjectId; // WHY: Survey question subdocument _id
+  rating?: number; // WHY: LIKERT
+  choice?: string; // WHY: MULTIPLE_CHOICE
+  text?: string; // WHY: TEXT
+}
+
+/**
+ * WHAT: Survey submission document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ *
+ * HOW: Used throughout survey module for type safety
+ */
+export interface ISurveySubmissionDocument extends Omit<Document, '_id'> {
+  _id: string;
+  surveyId: mongoose.Types.ObjectId; // WHY: Reference to Survey
+  department?: string; // WHY: Respondent's department; none for accounts without an employee record
+  role: UserRole;
+  answers: ISurveyAnswer[];
+}
+
+/**
+ * WHAT: Answer schema
+ */
+const answerSchema = new Schema<ISurveyAnswer>(
+  {
+    questionId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    rating: {
+      type: Number,
+    },
+    choice: {
+      type: String,
+    },
+    text: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Answer must be less than 2000 characters'],
+    },
+  },
+  { _id: false },
+);
+
+/**
+ * WHAT: Survey submission schema definition
+ *
+ * WHY: Schema defines structure, validation, and indexes for survey submission collection.
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const surveySubmissionSchema = new Schema<ISurveySubmissionDocument>(
+  {
+    _id: {
+      type: String,
+      default: () => crypto.randomUUID(),
+    },
+
+    surveyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Survey',
+      required: true,
+      index: true,
+    },
+
+    department: {
+      type: String,
+    },
+
+    role: {
+      type: String,
+      enum: Object.values(UserRole),
+      required: true,
+    },
+
+    answers: {
+      type: [answerSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: false, // WHY: See above - times would identify respondents
+  },
+);
+
+/**
+ * WHAT: Survey submission model export
+ *
+ * WHY: Model provides database operations.
+ *
+ * HOW: Mongoose model created from schema
+ */
+export const SurveySubmission = mongoose.model<ISurveySubmissionDocument>(
+  'SurveySubmission',
+  surveySubmissionSchema,
+);
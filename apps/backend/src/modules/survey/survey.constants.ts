@@ -0,0 +1,64 @@
+/**
+ * WHAT: Survey module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Single place to change survey rules
+ * - Consistent error messages
+ *
+ * HOW: Exports constants used across survey module
+ */
+
+import { SurveyStatus } from './survey.model';
+
+/**
+ * WHAT: Likert scale
+ *
+ * WHY: One scale for every question, so answers can be combined.
+ * Favourable answers (agree, strongly agree) make the satisfaction score.
+ */
+export const LIKERT_SCALE = {
+  MIN: 1,
+  MAX: 5,
+  FAVOURABLE_FROM: 4,
+} as const;
+
+/**
+ * WHAT: Anonymity threshold
+ *
+ * WHY: Results of a handful of people can be traced back to them. HR can
+ * raise the threshold per survey but not go below FLOOR.
+ */
+export const MIN_RESPONDENTS = {
+  DEFAULT: 5,
+  FLOOR: 3,
+} as const;
+
+/**
+ * WHAT: Allowed survey status transitions
+ *
+ * WHY: A survey is answered once. A closed survey is never reopened - the
+ * results already read would change under HR.
+ *
+ * HOW: Map of current status -> statuses it may move to
+ */
+export const SURVEY_STATUS_TRANSITIONS: Record<SurveyStatus, SurveyStatus[]> = {
+  [SurveyStatus.DRAFT]: [SurveyStatus.OPEN],
+  [SurveyStatus.OPEN]: [SurveyStatus.CLOSED],
+  [SurveyStatus.CLOSED]: [],
+};
+
+/**
+ * WHAT: Error messages
+ *
+ * WHY: Consistent error messages across survey module.
+ */
+export const SURVEY_ERRORS = {
+  SURVEY_NOT_FOUND: 'Survey not found',
+  SURVEY_NOT_DRAFT: 'Only the closing date of an open survey can change',
+  SURVEY_CLOSED: 'Survey is closed and can no longer change',
+  SURVEY_NOT_OPEN: 'Survey is not accepting responses',
+  SURVEY_EXPIRED: 'Survey closing date has passed',
+  NOT_TARGETED: 'This survey is not addressed to you',
+  ALREADY_RESPONDED: 'You have already responded to this survey',
+  CONCURRENT_UPDATE: 'Record was updated by another request. Please retry',
+} as const;
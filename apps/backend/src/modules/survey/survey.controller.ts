@@ -0,0 +1,217 @@
+/**
+ * WHAT: Survey controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ * - Input validation (delegates to validation layer)
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  createSurvey,
+  getSurveys,
+  getSurvey,
+  updateSurvey,
+  updateSurveyStatus,
+  getMySurveys,
+  submitSurveyResponse,
+} from './survey.service';
+import { getSurveyResults } from './survey-results.service';
+import {
+  CreateSurveyInput,
+  UpdateSurveyInput,
+  UpdateSurveyStatusInput,
+  ListSurveysQuery,
+  SubmitResponseInput,
+} from './survey.validation';
+import { JWTPayload } from '../auth/auth.types';
+import { sendSuccess, sendPaginated } from '../../utils/response.util';
+import { getAuditContext } from '../../utils/audit.util';
+
+/**
+ * WHAT: Create survey controller
+ *
+ * WHY: Handles POST /api/surveys requests.
+ *
+ * HOW: Express route handler
+ */
+export async function createSurveyController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    // WHY: User is attached by authenticate middleware
+    const user = req.user as JWTPayload;
+    const input = req.body as CreateSurveyInput;
+
+    const survey = await createSurvey(user, input, getAuditContext(req));
+
+    // WHY: 201 Created for resource creation
+    sendSuccess(res, survey, 201, 'Survey created successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: List surveys controller
+ *
+ * WHY: Handles GET /api/surveys requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getSurveysController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const query = req.query as unknown as ListSurveysQuery;
+
+    const result = await getSurveys(query);
+
+    sendPaginated(res, result.surveys, result.pagination);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get survey controller
+ *
+ * WHY: Handles GET /api/surveys/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getSurveyController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const survey = await getSurvey(req.params.id);
+
+    sendSuccess(res, survey);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Update survey controller
+ *
+ * WHY: Handles PATCH /api/surveys/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function updateSurveyController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const input = req.body as UpdateSurveyInput;
+
+    const survey = await updateSurvey(req.params.id, input, getAuditContext(req));
+
+    sendSuccess(res, survey, 200, 'Survey updated successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Update survey status controller
+ *
+ * WHY: Handles PATCH /api/surveys/:id/status requests.
+ *
+ * HOW: Express route handler
+ */
+export async function updateSurveyStatusController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const input = req.body as UpdateSurveyStatusInput;
+
+    const survey = await updateSurveyStatus(req.params.id, input, getAuditContext(req));
+
+    sendSuccess(res, survey, 200, 'Survey status updated successfully');
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get survey results controller
+ *
+ * WHY: Handles GET /api/surveys/:id/results requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getSurveyResultsController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const results = await getSurveyResults(req.params.id);
+
+    sendSuccess(res, results);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Get own surveys controller
+ *
+ * WHY: Handles GET /api/surveys/me requests.
+ *
+ * HOW: Express route handler
+ */
+export async function getMySurveysController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+
+    const surveys = await getMySurveys(user);
+
+    sendSuccess(res, surveys);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * WHAT: Submit survey response controller
+ *
+ * WHY: Handles POST /api/surveys/:id/responses requests.
+ *
+ * HOW: Express route handler
+ */
+export async function submitSurveyResponseController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const user = req.user as JWTPayload;
+    const input = req.body as SubmitResponseInput;
+
+    const survey = await submitSurveyResponse(user, req.params.id, input);
+
+    sendSuccess(res, survey, 201, 'Response submitted anonymously');
+  } catch (error) {
+    next(error);
+  }
+}
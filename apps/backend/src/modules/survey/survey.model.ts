@@ -0,0 +1,184 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { UserRole } from '../auth/auth.types';
+
+/**
+ * WHAT: Survey Mongoose model and schema
+ *
+ * WHY: A pulse survey - a few questions HR sends to some or all employees
+ * to see how they feel about work.
+ *
+ * HOW: Authored as DRAFT, answered while OPEN, results readable once
+ * CLOSED. Answers live in SurveySubmission, with nothing linking them to
+ * the respondent (see survey-submission.model.ts).
+ */
+
+/**
+ * WHAT: Survey status enum
+ *
+ * WHY: See SURVEY_STATUS_TRANSITIONS in survey.constants.ts.
+ */
+export enum SurveyStatus {
+  DRAFT = 'DRAFT', // WHY: Being written - nobody sees it yet
+  OPEN = 'OPEN', // WHY: Accepting responses
+  CLOSED = 'CLOSED', // WHY: Results available, no more responses
+}
+
+/**
+ * WHAT: Question type enum
+ */
+export enum QuestionType {
+  LIKERT = 'LIKERT', // WHY: 1 (strongly disagree) to 5 (strongly agree)
+  MULTIPLE_CHOICE = 'MULTIPLE_CHOICE', // WHY: One of the question's options
+  TEXT = 'TEXT', // WHY: Free text
+}
+
+/**
+ * WHAT: Survey question
+ *
+ * WHY: The subdocument _id identifies the question in answers.
+ */
+export interface ISurveyQuestion {
+  _id: mongoose.Types.ObjectId;
+  type: QuestionType;
+  text: string;
+  options: string[]; // WHY: MULTIPLE_CHOICE only
+  required: boolean;
+}
+
+/**
+ * WHAT: Survey document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ *
+ * HOW: Used throughout survey module for type safety
+ */
+export interface ISurveyDocument extends Document {
+  title: string;
+  description?: string;
+  questions: ISurveyQuestion[];
+  departments: string[]; // WHY: Target departments - empty means every department
+  roles: UserRole[]; // WHY: Target roles - empty means every role
+  closesAt?: Date; // WHY: Last day for responses
+  minRespondents: number; // WHY: Fewer respondents than this and results stay hidden
+  status: SurveyStatus;
+  respondentCount: number;
+  createdBy: mongoose.Types.ObjectId; // WHY: Reference to User
+  openedAt?: Date;
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Survey question schema
+ */
+const questionSchema = new Schema<ISurveyQuestion>({
+  type: {
+    type: String,
+    enum: Object.values(QuestionType),
+    required: true,
+  },
+  text: {
+    type: String,
+    required: [true, 'Question text is required'],
+    trim: true,
+    maxlength: [300, 'Question text must be less than 300 characters'],
+  },
+  options: {
+    type: [String],
+    default: [],
+  },
+  required: {
+    type: Boolean,
+    default: true,
+  },
+});
+
+/**
+ * WHAT: Survey schema definition
+ *
+ * WHY: Schema defines structure, validation, and indexes for survey collection.
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const surveySchema = new Schema<ISurveyDocument>(
+  {
+    title: {
+      type: String,
+      required: [true, 'Survey title is required'],
+      trim: true,
+      maxlength: [100, 'Survey title must be less than 100 characters'],
+    },
+
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Description must be less than 1000 characters'],
+    },
+
+    questions: {
+      type: [questionSchema],
+      default: [],
+    },
+
+    departments: {
+      type: [String],
+      default: [],
+    },
+
+    roles: {
+      type: [String],
+      enum: Object.values(UserRole),
+      default: [],
+    },
+
+    closesAt: {
+      type: Date,
+    },
+
+    minRespondents: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+
+    status: {
+      type: String,
+      enum: Object.values(SurveyStatus),
+      default: SurveyStatus.DRAFT,
+      required: true,
+      index: true,
+    },
+
+    respondentCount: {
+      type: Number,
+      default: 0,
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+
+    openedAt: {
+      type: Date,
+    },
+
+    closedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+/**
+ * WHAT: Survey model export
+ *
+ * WHY: Model provides database operations.
+ *
+ * HOW: Mongoose model created from schema
+ */
+export const Survey = mongoose.model<ISurveyDocument>('Survey', surveySchema);
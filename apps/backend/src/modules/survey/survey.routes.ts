@@ -0,0 +1,371 @@
+/**
+ * WHAT: Survey routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router with route definitions and RBAC middleware
+ */
+
+import { Router } from 'express';
+import {
+  createSurveyController,
+  getSurveysController,
+  getSurveyController,
+  updateSurveyController,
+  updateSurveyStatusController,
+  getSurveyResultsController,
+  getMySurveysController,
+  submitSurveyResponseController,
+} from './survey.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import {
+  createSurveySchema,
+  updateSurveySchema,
+  updateSurveyStatusSchema,
+  listSurveysQuerySchema,
+  submitResponseSchema,
+} from './survey.validation';
+import { idParamSchema } from '../../utils/validation.util';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: All routes require authentication.
+ * Answering is open to every role (survey:respond); authoring and results
+ * need survey:manage (HR), per route.
+ */
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /surveys:
+ *   post:
+ *     summary: Create survey
+ *     description: Created as DRAFT. No departments or roles means everyone. Results stay hidden below
+ *       minRespondents (at least 3, default 5).
+ *     tags: [Surveys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - questions
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 example: October pulse
+ *               description:
+ *                 type: string
+ *               questions:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - type
+ *                     - text
+ *                   properties:
+ *                     type:
+ *                       type: string
+ *                       enum: [LIKERT, MULTIPLE_CHOICE, TEXT]
+ *                     text:
+ *                       type: string
+ *                       example: I would recommend working here to a friend
+ *                     options:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       description: MULTIPLE_CHOICE only, 2 to 10
+ *                     required:
+ *                       type: boolean
+ *                       description: Defaults to true, false for TEXT
+ *               departments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Department names or codes
+ *               roles:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [EMPLOYEE, MANAGER, HR, SUPER_ADMIN]
+ *               closesAt:
+ *                 type: string
+ *                 format: date
+ *               minRespondents:
+ *                 type: integer
+ *                 minimum: 3
+ *                 default: 5
+ *     responses:
+ *       201:
+ *         description: Survey created
+ *       400:
+ *         description: Validation error or inactive department
+ *       403:
+ *         description: Forbidden - requires survey:manage permission
+ */
+router.post(
+  '/',
+  requirePermission(Permission.SURVEY_MANAGE),
+  validateRequest(createSurveySchema, 'body'), // WHY: Validate request body
+  createSurveyController,
+);
+
+/**
+ * @swagger
+ * /surveys:
+ *   get:
+ *     summary: List surveys
+ *     description: Paginated list. q matches the title. Sortable by createdAt, title and closesAt (default
+ *       -createdAt).
+ *     tags: [Surveys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SortParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - in: query
+ *         name: filter[status]
+ *         schema:
+ *           type: string
+ *           enum: [DRAFT, OPEN, CLOSED]
+ *     responses:
+ *       200:
+ *         description: Paginated survey list ({ items, pagination })
+ *       403:
+ *         description: Forbidden - requires survey:manage permission
+ */
+router.get(
+  '/',
+  requirePermission(Permission.SURVEY_MANAGE),
+  validateRequest(listSurveysQuerySchema, 'query'), // WHY: Validate query string
+  getSurveysController,
+);
+
+/**
+ * @swagger
+ * /surveys/me:
+ *   get:
+ *     summary: Get my open surveys
+ *     description: Open surveys addressed to the caller's role and department, before their closing date, each
+ *       with whether the caller already responded.
+ *     tags: [Surveys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Open surveys
+ */
+router.get('/me', requirePermission(Permission.SURVEY_RESPOND), getMySurveysController);
+
+/**
+ * @swagger
+ * /surveys/{id}:
+ *   get:
+ *     summary: Get survey
+ *     tags: [Surveys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Survey
+ *       404:
+ *         description: Survey not found
+ */
+router.get(
+  '/:id',
+  requirePermission(Permission.SURVEY_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  getSurveyController,
+);
+
+/**
+ * @swagger
+ * /surveys/{id}:
+ *   patch:
+ *     summary: Update survey
+ *     description: Any field while DRAFT (questions are replaced whole); only closesAt while OPEN.
+ *     tags: [Surveys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Same fields as create, all optional
+ *     responses:
+ *       200:
+ *         description: Survey updated
+ *       400:
+ *         description: Validation error, inactive department or closing date passed
+ *       409:
+ *         description: Survey is open (other than closesAt) or closed
+ */
+router.patch(
+  '/:id',
+  requirePermission(Permission.SURVEY_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(updateSurveySchema, 'body'), // WHY: Validate request body
+  updateSurveyController,
+);
+
+/**
+ * @swagger
+ * /surveys/{id}/status:
+ *   patch:
+ *     summary: Open or close survey
+ *     description: DRAFT -> OPEN -> CLOSED. Results become available once closed.
+ *     tags: [Surveys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [OPEN, CLOSED]
+ *     responses:
+ *       200:
+ *         description: Survey status updated
+ *       400:
+ *         description: Closing date passed
+ *       409:
+ *         description: Transition not allowed or updated concurrently
+ */
+router.patch(
+  '/:id/status',
+  requirePermission(Permission.SURVEY_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(updateSurveyStatusSchema, 'body'), // WHY: Validate request body
+  updateSurveyStatusController,
+);
+
+/**
+ * @swagger
+ * /surveys/{id}/results:
+ *   get:
+ *     summary: Get survey results
+ *     description: Per-question results, satisfaction (percentage of Likert answers of 4 or 5) and the
+ *       per-department breakdown. Only counts (visible false) until the survey is closed with at least
+ *       minRespondents. Questions and departments with fewer answers than that are hidden too.
+ *     tags: [Surveys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Survey results
+ *       404:
+ *         description: Survey not found
+ */
+router.get(
+  '/:id/results',
+  requirePermission(Permission.SURVEY_MANAGE),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  getSurveyResultsController,
+);
+
+/**
+ * @swagger
+ * /surveys/{id}/responses:
+ *   post:
+ *     summary: Respond to survey
+ *     description: Anonymous - the answers are stored without any link to the respondent. One response per user.
+ *     tags: [Surveys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - answers
+ *             properties:
+ *               answers:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - questionId
+ *                   properties:
+ *                     questionId:
+ *                       type: string
+ *                     rating:
+ *                       type: integer
+ *                       minimum: 1
+ *                       maximum: 5
+ *                       description: LIKERT
+ *                     choice:
+ *                       type: string
+ *                       description: MULTIPLE_CHOICE - one of the options
+ *                     text:
+ *                       type: string
+ *                       description: TEXT
+ *     responses:
+ *       201:
+ *         description: Response submitted
+ *       400:
+ *         description: Missing or invalid answers
+ *       403:
+ *         description: Survey not addressed to the caller
+ *       409:
+ *         description: Survey not open, past its closing date, or already responded
+ */
+router.post(
+  '/:id/responses',
+  requirePermission(Permission.SURVEY_RESPOND),
+  validateRequest(idParamSchema, 'params'), // WHY: Validate ID format
+  validateRequest(submitResponseSchema, 'body'), // WHY: Validate request body
+  submitSurveyResponseController,
+);
+
+export default router;
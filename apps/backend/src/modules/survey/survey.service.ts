@@ -0,0 +1,442 @@
+/**
+ * WHAT: Survey service - business logic layer
+ *
+ * WHY: Service layer separates business logic from HTTP layer (controller).
+ * HR writes pulse surveys for some or all employees; employees answer
+ * them anonymously.
+ *
+ * HOW: A submission and the participation record are written in one
+ * transaction - one says what was answered, the other who answered, and
+ * nothing links the two. Results are in survey-results.service.ts.
+ */
+
+import mongoose, { FilterQuery } from 'mongoose';
+import { Survey, ISurveyDocument, ISurveyQuestion, QuestionType, SurveyStatus } from './survey.model';
+import { SurveySubmission, ISurveyAnswer } from './survey-submission.model';
+import { SurveyParticipation } from './survey-participation.model';
+import { Employee } from '../employee/employee.model';
+import { resolveActiveDepartmentName } from '../department/department.service';
+import { JWTPayload } from '../auth/auth.types';
+import { SURVEY_ERRORS, SURVEY_STATUS_TRANSITIONS } from './survey.constants';
+import {
+  CreateSurveyInput,
+  UpdateSurveyInput,
+  UpdateSurveyStatusInput,
+  ListSurveysQuery,
+  SubmitResponseInput,
+} from './survey.validation';
+import {
+  SurveyQuestionResponse,
+  SurveyResponse,
+  SurveyListResult,
+  MySurveyResponse,
+} from './survey.types';
+import { createHttpError } from '../../utils/error.util';
+import { buildSearchFilter, findPage } from '../../utils/query.util';
+import { toDateKey } from '../../utils/date.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+
+/**
+ * WHAT: Map survey question to response shape
+ */
+function toQuestionResponse(question: ISurveyQuestion): SurveyQuestionResponse {
+  return {
+    id: question._id.toString(),
+    type: question.type,
+    text: question.text,
+    options: question.options,
+    required: question.required,
+  };
+}
+
+/**
+ * WHAT: Map survey document to response shape
+ */
+function toSurveyResponse(survey: ISurveyDocument): SurveyResponse {
+  return {
+    id: survey._id.toString(),
+    title: survey.title,
+    description: survey.description,
+    questions: survey.questions.map(toQuestionResponse),
+    departments: survey.departments,
+    roles: survey.roles,
+    closesAt: survey.closesAt,
+    minRespondents: survey.minRespondents,
+    status: survey.status,
+    respondentCount: survey.respondentCount,
+    createdBy: survey.createdBy.toString(),
+    openedAt: survey.openedAt,
+    closedAt: survey.closedAt,
+    createdAt: survey.createdAt,
+    updatedAt: survey.updatedAt,
+  };
+}
+
+/**
+ * WHAT: Map survey document to a respondent's view
+ */
+function toMySurveyResponse(survey: ISurveyDocument, responded: boolean): MySurveyResponse {
+  return {
+    id: survey._id.toString(),
+    title: survey.title,
+    description: survey.description,
+    questions: survey.questions.map(toQuestionResponse),
+    closesAt: survey.closesAt,
+    responded,
+  };
+}
+
+/**
+ * WHAT: Find survey or throw 404
+ */
+export async function findSurveyOrFail(id: string): Promise<ISurveyDocument> {
+  const survey = await Survey.findById(id);
+  if (!survey) {
+    throw createHttpError(SURVEY_ERRORS.SURVEY_NOT_FOUND, 404);
+  }
+  return survey;
+}
+
+/**
+ * WHAT: Resolve target departments to their canonical names
+ *
+ * HOW: Each must be an active department; duplicates are dropped
+ */
+async function resolveDepartments(values: string[]): Promise<string[]> {
+  const names = await Promise.all(values.map((value) => resolveActiveDepartmentName(value)));
+  return [...new Set(names)];
+}
+
+/**
+ * WHAT: Whether a survey's closing date has passed
+ *
+ * WHY: The closing date counts the whole day, compared as UTC calendar days.
+ */
+function isPastClosing(survey: Pick<ISurveyDocument, 'closesAt'>): boolean {
+  return survey.closesAt !== undefined && toDateKey(new Date()) > toDateKey(survey.closesAt);
+}
+
+/**
+ * WHAT: Whether a survey is addressed to a respondent
+ *
+ * WHY: Targeting by department needs an employee record; accounts without
+ * one only get surveys sent to every department.
+ */
+function isTargeted(survey: ISurveyDocument, role: string, department?: string): boolean {
+  const roleMatches = survey.roles.length === 0 || survey.roles.some((item) => item === role);
+  const departmentMatches =
+    survey.departments.length === 0 ||
+    (department !== undefined && survey.departments.includes(department));
+  return roleMatches && departmentMatches;
+}
+
+/**
+ * WHAT: Create survey service
+ *
+ * WHY: HR writes the questions and picks the audience before opening it.
+ *
+ * HOW: Created as DRAFT; nobody sees it yet
+ */
+export async function createSurvey(
+  actor: JWTPayload,
+  input: CreateSurveyInput,
+  context: AuditContext,
+): Promise<SurveyResponse> {
+  const departments = await resolveDepartments(input.departments);
+
+  const survey = await Survey.create({
+    ...input,
+    departments,
+    createdBy: new mongoose.Types.ObjectId(actor.userId),
+  });
+
+  await recordAuditLog(context, {
+    action: AuditAction.CREATE,
+    entityType: AuditEntityType.SURVEY,
+    entityId: survey._id.toString(),
+    after: survey.toObject(),
+  });
+
+  return toSurveyResponse(survey);
+}
+
+/**
+ * WHAT: Get surveys service
+ *
+ * WHY: Paginated list for HR, newest first.
+ */
+export async function getSurveys(query: ListSurveysQuery): Promise<SurveyListResult> {
+  const filter: FilterQuery<ISurveyDocument> = {
+    ...query.filter,
+    ...buildSearchFilter<ISurveyDocument>(query.q, ['title']),
+  };
+
+  const { docs: surveys, pagination } = await findPage(Survey, filter, query);
+
+  return { surveys: surveys.map(toSurveyResponse), pagination };
+}
+
+/**
+ * WHAT: Get survey service
+ */
+export async function getSurvey(id: string): Promise<SurveyResponse> {
+  return toSurveyResponse(await findSurveyOrFail(id));
+}
+
+/**
+ * WHAT: Update survey service
+ *
+ * WHY: A draft can change freely. Once open only the closing date can
+ * move - changing questions or audience would mix answers to different
+ * surveys. A closed survey is fixed.
+ *
+ * HOW: Applies provided fields, saves
+ */
+export async function updateSurvey(
+  id: string,
+  input: UpdateSurveyInput,
+  context: AuditContext,
+): Promise<SurveyResponse> {
+  const survey = await findSurveyOrFail(id);
+
+  if (survey.status === SurveyStatus.CLOSED) {
+    throw createHttpError(SURVEY_ERRORS.SURVEY_CLOSED, 409);
+  }
+  const closingOnly = Object.keys(input).every((key) => key === 'closesAt');
+  if (survey.status === SurveyStatus.OPEN && !closingOnly) {
+    throw createHttpError(SURVEY_ERRORS.SURVEY_NOT_DRAFT, 409);
+  }
+
+  const before = survey.toObject();
+  const { departments, ...fields } = input;
+  survey.set(fields);
+  if (departments !== undefined) {
+    survey.departments = await resolveDepartments(departments);
+  }
+  if (survey.status === SurveyStatus.OPEN && isPastClosing(survey)) {
+    throw createHttpError(SURVEY_ERRORS.SURVEY_EXPIRED, 400);
+  }
+
+  await survey.save();
+
+  await recordAuditLog(context, {
+    action: AuditAction.UPDATE,
+    entityType: AuditEntityType.SURVEY,
+    entityId: id,
+    before,
+    after: survey.toObject(),
+  });
+
+  return toSurveyResponse(survey);
+}
+
+/**
+ * WHAT: Update survey status service
+ *
+ * WHY: Opening sends the survey to its audience; closing stops responses
+ * and makes the results available.
+ *
+ * HOW: Conditional update on the status we read, so two requests can't
+ * both change it
+ */
+export async function updateSurveyStatus(
+  id: string,
+  input: UpdateSurveyStatusInput,
+  context: AuditContext,
+): Promise<SurveyResponse> {
+  const survey = await findSurveyOrFail(id);
+
+  if (!SURVEY_STATUS_TRANSITIONS[survey.status].includes(input.status)) {
+    throw createHttpError(
+      `Cannot change survey status from ${survey.status} to ${input.status}`,
+      409,
+    );
+  }
+  if (input.status === SurveyStatus.OPEN && isPastClosing(survey)) {
+    throw createHttpError(SURVEY_ERRORS.SURVEY_EXPIRED, 400);
+  }
+
+  const now = new Date();
+  const updated = await Survey.findOneAndUpdate(
+    { _id: survey._id, status: survey.status },
+    {
+      status: input.status,
+      ...(input.status === SurveyStatus.OPEN ? { openedAt: now } : { closedAt: now }),
+    },
+    { new: true, runValidators: true },
+  );
+  if (!updated) {
+    throw createHttpError(SURVEY_ERRORS.CONCURRENT_UPDATE, 409);
+  }
+
+  await recordAuditLog(context, {
+    action: AuditAction.STATUS_CHANGE,
+    entityType: AuditEntityType.SURVEY,
+    entityId: id,
+    before: survey.toObject(),
+    after: updated.toObject(),
+  });
+
+  return toSurveyResponse(updated);
+}
+
+/**
+ * WHAT: Get own open surveys service
+ *
+ * WHY: What the caller is asked to answer, and what they already did.
+ *
+ * HOW: Open surveys addressed to the caller's role and department, still
+ * before their closing date
+ */
+export async function getMySurveys(actor: JWTPayload): Promise<MySurveyResponse[]> {
+  const employee = await Employee.findOne({ userId: actor.userId });
+
+  const surveys = (await Survey.find({ status: SurveyStatus.OPEN }).sort({ openedAt: -1 })).filter(
+    (survey) => !isPastClosing(survey) && isTargeted(survey, actor.role, employee?.department),
+  );
+
+  const participations = await SurveyParticipation.find({
+    userId: actor.userId,
+    surveyId: { $in: surveys.map((survey) => survey._id) },
+  });
+  const responded = new Set(participations.map((item) => item.surveyId.toString()));
+
+  return surveys.map((survey) => toMySurveyResponse(survey, responded.has(survey._id.toString())));
+}
+
+/**
+ * WHAT: Whether an answer fits its question's type
+ *
+ * WHY: Exactly the one field of the question's type - a rating, one of
+ * the options, or text.
+ */
+function isValidAnswer(
+  question: ISurveyQuestion,
+  values: Omit<SubmitResponseInput['answers'][number], 'questionId'>,
+): boolean {
+  const { rating, choice, text } = values;
+  switch (question.type) {
+    case QuestionType.LIKERT:
+      return rating !== undefined && choice === undefined && text === undefined;
+    case QuestionType.MULTIPLE_CHOICE:
+      return (
+        choice !== undefined &&
+        question.options.includes(choice) &&
+        rating === undefined &&
+        text === undefined
+      );
+    case QuestionType.TEXT:
+      return text !== undefined && rating === undefined && choice === undefined;
+  }
+}
+
+/**
+ * WHAT: Check the answers against the survey's questions
+ *
+ * WHY: Each answer must match its question's type; required questions
+ * must be answered.
+ *
+ * HOW: Returns the answers in question order
+ */
+function toAnswers(survey: ISurveyDocument, input: SubmitResponseInput): ISurveyAnswer[] {
+  const byQuestion = new Map<string, SubmitResponseInput['answers'][number]>();
+  for (const answer of input.answers) {
+    if (!survey.questions.some((question) => question._id.toString() === answer.questionId)) {
+      throw createHttpError(`Unknown question ${answer.questionId}`, 400);
+    }
+    if (byQuestion.has(answer.questionId)) {
+      throw createHttpError(`Question ${answer.questionId} is answered twice`, 400);
+    }
+    byQuestion.set(answer.questionId, answer);
+  }
+
+  const answers: ISurveyAnswer[] = [];
+  for (const question of survey.questions) {
+    const answer = byQuestion.get(question._id.toString());
+    if (!answer) {
+      if (question.required) {
+        throw createHttpError(`Question "${question.text}" is required`, 400);
+      }
+      continue;
+    }
+
+    const { questionId, ...values } = answer;
+    if (!isValidAnswer(question, values)) {
+      throw createHttpError(`Invalid answer to question "${question.text}"`, 400);
+    }
+
+    answers.push({ questionId: new mongoose.Types.ObjectId(questionId), ...values });
+  }
+  return answers;
+}
+
+/**
+ * WHAT: Submit survey response service
+ *
+ * WHY: Anonymous by design - the submission has no reference to the
+ * respondent, and this is not audited, since an audit entry would name
+ * them next to the time of their answers.
+ *
+ * HOW: Participation (who), submission (what) and the survey's
+ * respondent count in one transaction. The unique participation index
+ * turns a concurrent second response into 409; the count is conditional
+ * on the survey still being open.
+ */
+export async function submitSurveyResponse(
+  actor: JWTPayload,
+  id: string,
+  input: SubmitResponseInput,
+): Promise<MySurveyResponse> {
+  const survey = await findSurveyOrFail(id);
+  if (survey.status !== SurveyStatus.OPEN) {
+    throw createHttpError(SURVEY_ERRORS.SURVEY_NOT_OPEN, 409);
+  }
+  if (isPastClosing(survey)) {
+    throw createHttpError(SURVEY_ERRORS.SURVEY_EXPIRED, 409);
+  }
+
+  const employee = await Employee.findOne({ userId: actor.userId });
+  if (!isTargeted(survey, actor.role, employee?.department)) {
+    throw createHttpError(SURVEY_ERRORS.NOT_TARGETED, 403);
+  }
+  if (await SurveyParticipation.exists({ surveyId: survey._id, userId: actor.userId })) {
+    throw createHttpError(SURVEY_ERRORS.ALREADY_RESPONDED, 409);
+  }
+
+  const answers = toAnswers(survey, input);
+
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      // WHY: Array form of create() is required to pass a session
+      await SurveyParticipation.create([{ surveyId: survey._id, userId: actor.userId }], {
+        session,
+      });
+      await SurveySubmission.create(
+        [{ surveyId: survey._id, department: employee?.department, role: actor.role, answers }],
+        { session },
+      );
+
+      const counted = await Survey.updateOne(
+        { _id: survey._id, status: SurveyStatus.OPEN },
+        { $inc: { respondentCount: 1 } },
+        { session },
+      );
+      if (counted.matchedCount === 0) {
+        throw createHttpError(SURVEY_ERRORS.SURVEY_NOT_OPEN, 409);
+      }
+    });
+  } catch (error) {
+    // WHY: Unique index catches a concurrent second response
+    if ((error as { code?: number })?.code === 11000) {
+      throw createHttpError(SURVEY_ERRORS.ALREADY_RESPONDED, 409);
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+
+  return toMySurveyResponse(survey, true);
+}
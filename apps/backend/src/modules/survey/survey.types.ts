@@ -0,0 +1,125 @@
+/**
+ * WHAT: TypeScript types for Survey module
+ *
+ * WHY: Centralized type definitions ensure type safety across survey module.
+ * Response types decouple the API contract from the Mongoose document shape.
+ *
+ * HOW: Exports interfaces used in survey services and controller
+ */
+
+import { QuestionType, SurveyStatus } from './survey.model';
+import { UserRole } from '../auth/auth.types';
+import { Pagination } from '../../utils/response.util';
+
+/**
+ * WHAT: Survey question response interface
+ */
+export interface SurveyQuestionResponse {
+  id: string;
+  type: QuestionType;
+  text: string;
+  options: string[];
+  required: boolean;
+}
+
+/**
+ * WHAT: Survey response interface
+ */
+export interface SurveyResponse {
+  id: string;
+  title: string;
+  description?: string;
+  questions: SurveyQuestionResponse[];
+  departments: string[];
+  roles: UserRole[];
+  closesAt?: Date;
+  minRespondents: number;
+  status: SurveyStatus;
+  respondentCount: number;
+  createdBy: string;
+  openedAt?: Date;
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WHAT: Paginated survey list
+ */
+export interface SurveyListResult {
+  surveys: SurveyResponse[];
+  pagination: Pagination;
+}
+
+/**
+ * WHAT: Open survey as seen by a respondent
+ *
+ * WHY: Respondents see the questions, not the audience or counts.
+ */
+export interface MySurveyResponse {
+  id: string;
+  title: string;
+  description?: string;
+  questions: SurveyQuestionResponse[];
+  closesAt?: Date;
+  responded: boolean;
+}
+
+/**
+ * WHAT: Results of one question
+ *
+ * WHY: Only the fields of the question's type are set, and only when
+ * enough people answered it (visible).
+ */
+export interface QuestionResult {
+  questionId: string;
+  type: QuestionType;
+  text: string;
+  answered: number;
+  visible: boolean;
+  average?: number; // WHY: LIKERT
+  favourable?: number; // WHY: LIKERT - percentage of 4s and 5s
+  distribution?: { rating: number; count: number }[]; // WHY: LIKERT, every rating listed
+  options?: { option: string; count: number }[]; // WHY: MULTIPLE_CHOICE, every option listed
+  answers?: string[]; // WHY: TEXT, in random order
+}
+
+/**
+ * WHAT: Satisfaction of one department
+ */
+export interface DepartmentSatisfaction {
+  department: string;
+  respondentCount: number;
+  satisfaction: number | null; // WHY: Percentage of favourable Likert answers; null without any
+}
+
+/**
+ * WHAT: Survey results response interface
+ *
+ * WHY: Empty questions and departments until the survey is closed with
+ * enough respondents (visible).
+ */
+export interface SurveyResultsResponse {
+  surveyId: string;
+  title: string;
+  status: SurveyStatus;
+  closedAt?: Date;
+  respondentCount: number;
+  minRespondents: number;
+  visible: boolean;
+  satisfaction: number | null;
+  questions: QuestionResult[];
+  departments: DepartmentSatisfaction[];
+  hiddenDepartments: number; // WHY: Departments left out to protect anonymity
+}
+
+/**
+ * WHAT: Latest satisfaction figures for the HR dashboard
+ */
+export interface SatisfactionSummary {
+  surveyId: string;
+  title: string;
+  closedAt?: Date;
+  satisfaction: number;
+  departments: DepartmentSatisfaction[];
+}
@@ -0,0 +1,169 @@
+/**
+ * WHAT: Validation schemas for Survey endpoints
+ *
+ * WHY: Request validation ensures data integrity and security.
+ * Prevents invalid data from reaching business logic layer.
+ *
+ * HOW: Zod schemas for validating request bodies and query strings
+ */
+
+import { z } from 'zod';
+import { QuestionType, SurveyStatus } from './survey.model';
+import { LIKERT_SCALE, MIN_RESPONDENTS } from './survey.constants';
+import { UserRole } from '../auth/auth.types';
+import { objectIdSchema } from '../../utils/validation.util';
+import { createListQuerySchema } from '../../utils/query.util';
+
+/**
+ * WHAT: Question text schema
+ */
+const questionTextSchema = z
+  .string()
+  .trim()
+  .min(1, 'Question text is required')
+  .max(300, 'Question text must be less than 300 characters');
+
+/**
+ * WHAT: Survey question validation schema
+ *
+ * WHY: Only multiple choice questions have options. Free text is optional
+ * by default - people skip it more than they'd give a made-up answer.
+ */
+const questionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal(QuestionType.LIKERT),
+    text: questionTextSchema,
+    required: z.boolean().default(true),
+  }),
+  z.object({
+    type: z.literal(QuestionType.MULTIPLE_CHOICE),
+    text: questionTextSchema,
+    options: z
+      .array(z.string().trim().min(1).max(100, 'Option must be less than 100 characters'))
+      .min(2, 'A multiple choice question needs at least 2 options')
+      .max(10, 'A multiple choice question has at most 10 options')
+      .refine((options) => new Set(options).size === options.length, {
+        message: 'Options must be different',
+      }),
+    required: z.boolean().default(true),
+  }),
+  z.object({
+    type: z.literal(QuestionType.TEXT),
+    text: questionTextSchema,
+    required: z.boolean().default(false),
+  }),
+]);
+
+/**
+ * WHAT: Survey fields
+ *
+ * WHY: Departments are names or codes, resolved against active departments.
+ * No departments or roles means everyone.
+ */
+const surveyFields = {
+  title: z
+    .string()
+    .trim()
+    .min(1, 'Survey title is required')
+    .max(100, 'Survey title must be less than 100 characters'),
+  description: z
+    .string()
+    .trim()
+    .max(1000, 'Description must be less than 1000 characters')
+    .optional(),
+  questions: z
+    .array(questionSchema)
+    .min(1, 'A survey needs at least one question')
+    .max(30, 'A survey has at most 30 questions'),
+  departments: z.array(z.string().trim().min(1)).max(100),
+  roles: z.array(z.nativeEnum(UserRole)).max(Object.values(UserRole).length),
+  closesAt: z.coerce.date({ invalid_type_error: 'Invalid closing date' }),
+  minRespondents: z
+    .number({ invalid_type_error: 'Minimum respondents must be a number' })
+    .int('Minimum respondents must be a whole number')
+    .min(MIN_RESPONDENTS.FLOOR, `Minimum respondents must be at least ${MIN_RESPONDENTS.FLOOR}`)
+    .max(1000),
+};
+
+/**
+ * WHAT: Create survey validation schema
+ */
+export const createSurveySchema = z.object({
+  ...surveyFields,
+  departments: surveyFields.departments.default([]),
+  roles: surveyFields.roles.default([]),
+  closesAt: surveyFields.closesAt.optional(),
+  minRespondents: surveyFields.minRespondents.default(MIN_RESPONDENTS.DEFAULT),
+});
+
+/**
+ * WHAT: Update survey validation schema
+ *
+ * WHY: Partial update - only provided fields change. Questions are
+ * replaced whole. Which fields may change depends on the status, checked
+ * by the service.
+ */
+export const updateSurveySchema = z
+  .object(surveyFields)
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * WHAT: Update survey status validation schema
+ */
+export const updateSurveyStatusSchema = z.object({
+  status: z.enum([SurveyStatus.OPEN, SurveyStatus.CLOSED]),
+});
+
+/**
+ * WHAT: List surveys query validation schema
+ *
+ * WHY: Standard list query - q matches the title.
+ */
+export const listSurveysQuerySchema = createListQuerySchema({
+  filters: {
+    status: z.nativeEnum(SurveyStatus),
+  },
+  sortable: ['createdAt', 'title', 'closesAt'],
+  defaultSort: '-createdAt', // WHY: Newest survey first
+});
+
+/**
+ * WHAT: Survey response validation schema
+ *
+ * WHY: Shape only - which field each answer needs depends on its
+ * question, checked by the service against the survey.
+ */
+export const submitResponseSchema = z.object({
+  answers: z
+    .array(
+      z.object({
+        questionId: objectIdSchema,
+        rating: z
+          .number({ invalid_type_error: 'Rating must be a number' })
+          .int('Rating must be a whole number')
+          .min(LIKERT_SCALE.MIN, `Rating must be at least ${LIKERT_SCALE.MIN}`)
+          .max(LIKERT_SCALE.MAX, `Rating must be at most ${LIKERT_SCALE.MAX}`)
+          .optional(),
+        choice: z.string().trim().min(1).optional(),
+        text: z.string().trim().min(1).max(2000, 'Answer must be less than 2000 characters').optional(),
+      }),
+    )
+    .max(30),
+});
+
+/**
+ * WHAT: Type exports for TypeScript
+ *
+ * WHY: Type-safe request bodies in controllers.
+ *
+ * HOW: Infer types from Zod schemas
+ */
+export type QuestionInput = z.infer<typeof questionSchema>;
+export type CreateSurveyInput = z.infer<typeof createSurveySchema>;
+export type UpdateSurveyInput = z.infer<typeof updateSurveySchema>;
+export type UpdateSurveyStatusInput = z.infer<typeof updateSurveyStatusSchema>;
+export type ListSurveysQuery = z.infer<typeof listSurveysQuerySchema>;
+export type SubmitResponseInput = z.infer<typeof submitResponseSchema>;
@@ -0,0 +1,39 @@
+/**
+ * WHAT: Throttle module constants
+ *
+ * WHY: Centralized constants provide:
+ * - Consistent error messages and codes
+ * - One place for counter key names
+ *
+ * HOW: Exports constants used across throttle module and middlewares
+ */
+
+/**
+ * WHAT: Throttle error messages
+ */
+export const THROTTLE_ERRORS = {
+  RATE_LIMITED: 'Too many requests, please try again later',
+  ACCOUNT_LOCKED: 'Account is temporarily locked after too many failed login attempts',
+  USER_NOT_FOUND: 'User not found',
+} as const;
+
+/**
+ * WHAT: Machine-readable error codes
+ *
+ * WHY: The login form shows a lockout differently from a wrong password.
+ */
+export const THROTTLE_ERROR_CODES = {
+  RATE_LIMITED: 'RATE_LIMITED',
+  LOCKED: 'LOCKED',
+} as const;
+
+/**
+ * WHAT: Counter key prefixes
+ *
+ * WHY: Every counter shares one store - prefixes keep them apart.
+ */
+export const THROTTLE_KEYS = {
+  RATE_LIMIT: 'rate',
+  LOGIN_FAILURES: 'login-failures',
+  LOGIN_LOCK: 'login-lock',
+} as const;
@@ -0,0 +1,36 @@
+/**
+ * WHAT: Throttle controller - HTTP request/response layer
+ *
+ * WHY: Controller layer handles HTTP-specific concerns:
+ * - Request/response formatting
+ * - HTTP status codes
+ * - Error handling and transformation
+ *
+ * HOW: Express route handlers that call service layer and format responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { unlockAccount } from './throttle.service';
+import { sendSuccess } from '../../utils/response.util';
+import { getAuditContext } from '../../utils/audit.util';
+
+/**
+ * WHAT: Unlock account controller
+ *
+ * WHY: Handles DELETE /api/admin/lockouts/:id requests.
+ *
+ * HOW: Express route handler
+ */
+export async function unlockAccountController(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const result = await unlockAccount(req.params.id, getAuditContext(req));
+
+    sendSuccess(res, result, 200, 'Account unlocked successfully');
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * WHAT: Throttle counter Mongoose model and schema
+ *
+ * WHY: Backs the Mongo throttle store, so rate limits and lockouts hold
+ * across every backend instance and survive restarts.
+ *
+ * HOW: One document per counter key, written by the mongo store only
+ */
+
+/**
+ * WHAT: Throttle counter document interface
+ *
+ * WHY: TypeScript interface ensures type safety.
+ */
+export interface IThrottleCounterDocument extends Document {
+  key: string; // WHY: e.g. "rate:login:<ip>" or "login-lock:<email>"
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * WHAT: Throttle counter schema definition
+ *
+ * HOW: Mongoose schema with validation and indexes
+ */
+const throttleCounterSchema = new Schema<IThrottleCounterDocument>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+
+    count: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+
+    resetAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    collection: 'throttle_counters',
+  },
+);
+
+// WHY: One counter per key - concurrent upserts can't create duplicates
+throttleCounterSchema.index({ key: 1 }, { unique: true });
+
+// WHY: TTL index - MongoDB deletes counters once their window has passed
+throttleCounterSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * WHAT: Throttle counter model export
+ */
+export const ThrottleCounterModel = mongoose.model<IThrottleCounterDocument>(
+  'ThrottleCounter',
+  throttleCounterSchema,
+);
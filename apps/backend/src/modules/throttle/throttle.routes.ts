@@ -0,0 +1,71 @@
+/**
+ * WHAT: Lockout routes - route definitions only
+ *
+ * WHY: Routes file only defines routes and middleware chain.
+ * No business logic here - delegates to controller.
+ *
+ * HOW: Express router mounted at /api/admin/lockouts
+ */
+
+import { Router } from 'express';
+import { unlockAccountController } from './throttle.controller';
+import { validateRequest } from '../../middlewares/validation.middleware';
+import { idParamSchema } from '../../utils/validation.util';
+import { authenticate } from '../../middlewares/auth.middleware';
+import { requirePermission } from '../../middlewares/rbac.middleware';
+import { Permission } from '../auth/auth.types';
+
+const router = Router();
+
+/**
+ * WHY: account:unlock is granted to SUPER_ADMIN only
+ */
+router.use(authenticate);
+router.use(requirePermission(Permission.ACCOUNT_UNLOCK));
+
+/**
+ * @swagger
+ * /admin/lockouts/{id}:
+ *   delete:
+ *     summary: Unlock account
+ *     description: Lifts a failed-login lockout before it expires and resets the failed-attempt count. Succeeds (wasLocked false) when the account was not locked. SUPER_ADMIN only.
+ *     tags: [Lockouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     userId:
+ *                       type: string
+ *                     email:
+ *                       type: string
+ *                     wasLocked:
+ *                       type: boolean
+ *       400:
+ *         description: Invalid user ID
+ *       403:
+ *         description: Forbidden - SUPER_ADMIN only
+ *       404:
+ *         description: User not found
+ */
+router.delete('/:id', validateRequest(idParamSchema, 'params'), unlockAccountController);
+
+export default router;
@@ -0,0 +1,172 @@
+/**
+ * WHAT: Throttle service - business logic layer
+ *
+ * WHY: Brute-force protection. Per-IP rate limits slow down anyone hammering
+ * the auth endpoints; per-account lockout stops password guessing against one
+ * account even when the attempts come from many IPs.
+ *
+ * HOW: Fixed-window counters in a ThrottleStore, picked from THROTTLE_STORE on
+ * first use; setThrottleStore() replaces it (custom stores, tests)
+ */
+
+import env from '../../config/env';
+import { User } from '../auth/auth.model';
+import { ThrottleCounter, ThrottleStore, UnlockResult } from './throttle.types';
+import { THROTTLE_ERRORS, THROTTLE_KEYS } from './throttle.constants';
+import { createMemoryThrottleStore, createMongoThrottleStore } from './throttle.store';
+import { createHttpError } from '../../utils/error.util';
+import { recordAuditLog } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit.model';
+import { AuditContext } from '../audit/audit.types';
+
+const MINUTE_MS = 60 * 1000;
+
+let store: ThrottleStore | undefined;
+
+/**
+ * WHAT: Build the store configured in env
+ */
+function createConfiguredStore(): ThrottleStore {
+  switch (env.THROTTLE_STORE) {
+    case 'mongo':
+      return createMongoThrottleStore();
+    case 'memory':
+    default:
+      return createMemoryThrottleStore();
+  }
+}
+
+/**
+ * WHAT: Current store, created on first use
+ */
+function getStore(): ThrottleStore {
+  if (!store) {
+    store = createConfiguredStore();
+  }
+  return store;
+}
+
+/**
+ * WHAT: Replace the throttle store
+ *
+ * WHY: Extension point for other backends (e.g. Redis), and lets tests
+ * start from empty counters.
+ */
+export function setThrottleStore(throttleStore: ThrottleStore): void {
+  store = throttleStore;
+}
+
+/**
+ * WHAT: Counter keys for account lockout
+ *
+ * WHY: Keyed by email, not user ID - unknown emails lock the same way,
+ * so a lockout doesn't reveal whether an account exists.
+ */
+function loginFailuresKey(email: string): string {
+  return `${THROTTLE_KEYS.LOGIN_FAILURES}:${email.toLowerCase()}`;
+}
+
+function loginLockKey(email: string): string {
+  return `${THROTTLE_KEYS.LOGIN_LOCK}:${email.toLowerCase()}`;
+}
+
+/**
+ * WHAT: Count one request against a rate limit
+ *
+ * WHY: Used by the rate limit middleware; the counter is returned so the
+ * caller can set Retry-After.
+ *
+ * HOW: Increments "rate:<name>:<client>"; allowed while the count is within max
+ */
+export async function consumeRateLimit(
+  name: string,
+  client: string,
+  max: number,
+  windowMs: number,
+): Promise<{ allowed: boolean; counter: ThrottleCounter }> {
+  const counter = await getStore().increment(
+    `${THROTTLE_KEYS.RATE_LIMIT}:${name}:${client}`,
+    windowMs,
+  );
+
+  return { allowed: counter.count <= max, counter };
+}
+
+/**
+ * WHAT: Get account lock service
+ *
+ * HOW: Returns when the lock ends, or null if the account is not locked
+ */
+export async function getAccountLock(email: string): Promise<Date | null> {
+  const lock = await getStore().get(loginLockKey(email));
+  return lock ? lock.resetAt : null;
+}
+
+/**
+ * WHAT: Record login failure service
+ *
+ * WHY: LOGIN_MAX_FAILED_ATTEMPTS failures within LOGIN_FAILURE_WINDOW_MINUTES
+ * lock the account for LOGIN_LOCKOUT_MINUTES.
+ *
+ * HOW: Counts the failure; on reaching the limit, sets the lock and starts
+ * counting again from zero. Returns the lock's end if this failure locked the account.
+ */
+export async function recordLoginFailure(email: string): Promise<Date | null> {
+  const failures = await getStore().increment(
+    loginFailuresKey(email),
+    env.LOGIN_FAILURE_WINDOW_MINUTES * MINUTE_MS,
+  );
+
+  if (failures.count < env.LOGIN_MAX_FAILED_ATTEMPTS) {
+    return null;
+  }
+
+  const lock = await getStore().increment(
+    loginLockKey(email),
+    env.LOGIN_LOCKOUT_MINUTES * MINUTE_MS,
+  );
+  await getStore().reset(loginFailuresKey(email));
+
+  return lock.resetAt;
+}
+
+/**
+ * WHAT: Clear login failures service
+ *
+ * WHY: A successful login means the earlier failures were the owner's typos.
+ */
+export async function clearLoginFailures(email: string): Promise<void> {
+  await getStore().reset(loginFailuresKey(email));
+}
+
+/**
+ * WHAT: Unlock account service
+ *
+ * WHY: Lets SUPER_ADMIN restore access before the lockout expires,
+ * e.g. after confirming the failed attempts were the user's own.
+ *
+ * HOW: Clears both the lock and the failure count for the user's email
+ */
+export async function unlockAccount(
+  userId: string,
+  context: AuditContext,
+): Promise<UnlockResult> {
+  const user = await User.findById(userId);
+  if (!user) {
+    throw createHttpError(THROTTLE_ERRORS.USER_NOT_FOUND, 404);
+  }
+
+  const lockedUntil = await getAccountLock(user.email);
+
+  await getStore().reset(loginLockKey(user.email));
+  await getStore().reset(loginFailuresKey(user.email));
+
+  await recordAuditLog(context, {
+    action: AuditAction.ACCOUNT_UNLOCK,
+    entityType: AuditEntityType.USER,
+    entityId: userId,
+    metadata: { email: user.email, wasLocked: lockedUntil !== null },
+  });
+
+  return { userId, email: user.email, wasLocked: lockedUntil !== null };
+}
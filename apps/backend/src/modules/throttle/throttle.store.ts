@@ -0,0 +1,135 @@
+/**
+ * WHAT: Throttle stores
+ *
+ * WHY: Where counters live depends on the deployment. A single instance can
+ * keep them in memory; several instances must share them, or each one would
+ * allow the full limit.
+ *
+ * HOW: Factory functions returning ThrottleStore implementations
+ */
+
+import { ThrottleCounter, ThrottleStore } from './throttle.types';
+import { ThrottleCounterModel } from './throttle.model';
+
+// WHY: Expired entries are dropped on access; a sweep keeps unused keys from piling up
+const MEMORY_SWEEP_THRESHOLD = 10000;
+
+/**
+ * WHAT: In-memory throttle store
+ *
+ * WHY: Zero setup, no database round trip. Counters reset on restart and
+ * are not shared between instances.
+ *
+ * HOW: Map of key to counter
+ */
+export function createMemoryThrottleStore(): ThrottleStore {
+  const counters = new Map<string, ThrottleCounter>();
+
+  function getActive(key: string, now: Date): ThrottleCounter | null {
+    const counter = counters.get(key);
+    if (!counter) {
+      return null;
+    }
+    if (counter.resetAt <= now) {
+      counters.delete(key);
+      return null;
+    }
+    return counter;
+  }
+
+  function sweep(now: Date): void {
+    for (const [key, counter] of counters) {
+      if (counter.resetAt <= now) {
+        counters.delete(key);
+      }
+    }
+  }
+
+  return {
+    async increment(key: string, windowMs: number): Promise<ThrottleCounter> {
+      const now = new Date();
+      const counter = getActive(key, now);
+
+      if (counter) {
+        counter.count += 1;
+        return { ...counter };
+      }
+
+      if (counters.size >= MEMORY_SWEEP_THRESHOLD) {
+        sweep(now);
+      }
+
+      const created = { count: 1, resetAt: new Date(now.getTime() + windowMs) };
+      counters.set(key, created);
+      return { ...created };
+    },
+
+    async get(key: string): Promise<ThrottleCounter | null> {
+      const counter = getActive(key, new Date());
+      return counter ? { ...counter } : null;
+    },
+
+    async reset(key: string): Promise<void> {
+      counters.delete(key);
+    },
+  };
+}
+
+/**
+ * WHAT: Mongo throttle store
+ *
+ * WHY: Shared by every instance and survives restarts - use it when running
+ * more than one backend process.
+ *
+ * HOW: One atomic pipeline update per increment: continues the current window,
+ * or starts a new one if the stored window has passed (or the key is new)
+ */
+export function createMongoThrottleStore(): ThrottleStore {
+  async function incrementOnce(key: string, windowMs: number): Promise<ThrottleCounter> {
+    const now = new Date();
+    const windowActive = { $gt: ['$resetAt', now] };
+
+    const counter = await ThrottleCounterModel.findOneAndUpdate(
+      { key },
+      [
+        {
+          $set: {
+            count: { $cond: [windowActive, { $add: ['$count', 1] }, 1] },
+            resetAt: { $cond: [windowActive, '$resetAt', new Date(now.getTime() + windowMs)] },
+          },
+        },
+      ],
+      { upsert: true, new: true },
+    ).lean();
+
+    return { count: counter!.count, resetAt: counter!.resetAt };
+  }
+
+  return {
+    async increment(key: string, windowMs: number): Promise<ThrottleCounter> {
+      try {
+        return await incrementOnce(key, windowMs);
+      } catch (error) {
+        // WHY: Two concurrent upserts of a new key - one loses on the unique index.
+        // The document exists now, so a retry updates it.
+        if ((error as { code?: number }).code === 11000) {
+          return incrementOnce(key, windowMs);
+        }
+        throw error;
+      }
+    },
+
+    async get(key: string): Promise<ThrottleCounter | null> {
+      const counter = await ThrottleCounterModel.findOne({
+        key,
+        resetAt: { $gt: new Date() }, // WHY: The TTL monitor runs only once a minute
+      }).lean();
+
+      return counter ? { count: counter.count, resetAt: counter.resetAt } : null;
+    },
+
+    async reset(key: string): Promise<void> {
+      await ThrottleCounterModel.deleteOne({ key });
+    },
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * WHAT: TypeScript types for Throttle module
+ *
+ * WHY: Centralized type definitions ensure type safety across throttle module.
+ *
+ * HOW: Exports the counter shape and the store interface every store implements
+ */
+
+/**
+ * WHAT: State of one fixed-window counter
+ *
+ * WHY: resetAt tells the client when to retry (Retry-After) and, for
+ * lockouts, until when the account is locked.
+ */
+export interface ThrottleCounter {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * WHAT: Throttle store interface
+ *
+ * WHY: Rate limits and lockouts count the same way, wherever the counters live.
+ * The in-memory store is per process; the Mongo store is shared by every
+ * instance behind a load balancer.
+ *
+ * HOW: Fixed windows - the first increment of an expired key starts a new window
+ */
+export interface ThrottleStore {
+  increment(key: string, windowMs: number): Promise<ThrottleCounter>;
+  get(key: string): Promise<ThrottleCounter | null>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * WHAT: Lockout removed by an admin
+ *
+ * WHY: wasLocked tells the admin whether there was anything to unlock.
+ */
+export interface UnlockResult {
+  userId: string;
+  email: string;
+  wasLocked: boolean;
+}
@@ -1,6 +1,7 @@
 import { createApp } from './app';
 import { connectDatabase } from './config/db';
 import env from './config/env';
+import { closeNotificationStreams } from './modules/notification/notification.stream';
 
 /**
  * WHAT: Server entry point - starts the HTTP server
@@ -41,8 +42,10 @@ async function startServer(): Promise<void> {
 
     // WHY: Graceful shutdown handling
     // Closes server and database connection when process receives termination signal
+    // Notification streams never end by themselves - server.close() would wait on them
     process.on('SIGTERM', () => {
       console.log('SIGTERM received, shutting down gracefully...');
+      closeNotificationStreams();
       server.close(() => {
         console.log('Server closed');
         process.exit(0);
@@ -51,6 +54,7 @@ async function startServer(): Promise<void> {
 
     process.on('SIGINT', () => {
       console.log('SIGINT received, shutting down gracefully...');
+      closeNotificationStreams();
       server.close(() => {
         console.log('Server closed');
         process.exit(0);
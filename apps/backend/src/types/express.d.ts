@@ -0,0 +1,20 @@
+import { JWTPayload } from '../modules/auth/auth.types';
+
+/**
+ * WHAT: Express type augmentation for the authenticated user
+ * 
+ * WHY: Other packages in the workspace (e.g. passport typings) declare an empty
+ * global Express.User. Without this augmentation, handlers typed with
+ * AuthenticatedRequest don't match Express's own Request type.
+ * 
+ * HOW: Declares Express.User as the JWT payload attached by authenticate()
+ */
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    // eslint-disable-next-line @typescript-eslint/no-empty-interface
+    interface User extends JWTPayload {}
+  }
+}
+
+export {};
@@ -0,0 +1,21 @@
+import { Request } from 'express';
+import { AuditContext } from '../modules/audit/audit.types';
+
+/**
+ * WHAT: Build audit context from a request
+ *
+ * WHY: Audit entries need the actor, IP and user agent, which only the
+ * HTTP layer knows. Controllers call this and pass the result to services.
+ *
+ * HOW: Reads req.user (set by authenticate, absent on public routes),
+ * req.ip and the User-Agent header
+ */
+export function getAuditContext(req: Request): AuditContext {
+  return {
+    actorId: req.user?.userId,
+    actorEmail: req.user?.email,
+    actorRole: req.user?.role,
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+  };
+}
@@ -0,0 +1,73 @@
+import { parseCsv, toCsvLine } from './csv.util';
+
+/**
+ * WHAT: Tests for the CSV utilities
+ *
+ * WHY: Exports are opened in Excel and the same files come back through
+ * the employee import - both sides must agree on RFC 4180.
+ */
+
+describe('toCsvLine', () => {
+  it('joins plain cells and ends with CRLF', () => {
+    expect(toCsvLine(['EMP-001', 'Ann', 'Lee'])).toBe('EMP-001,Ann,Lee\r\n');
+  });
+
+  it('quotes cells with separators, quotes or line breaks', () => {
+    expect(toCsvLine(['Street 1, Floor 2', 'say "hi"', 'two\nlines', 'cr\rhere'])).toBe(
+      '"Street 1, Floor 2","say ""hi""","two\nlines","cr\rhere"\r\n',
+    );
+  });
+
+  it('leaves empty cells empty', () => {
+    expect(toCsvLine(['', 'a', ''])).toBe(',a,\r\n');
+  });
+});
+
+describe('parseCsv', () => {
+  it('strips the UTF-8 BOM Excel adds', () => {
+    expect(parseCsv('\uFEFFemail,name\r\na@x.com,Ann\r\n')).toEqual([
+      ['email', 'name'],
+      ['a@x.com', 'Ann'],
+    ]);
+  });
+
+  it('accepts CRLF, LF and CR line endings', () => {
+    expect(parseCsv('a,b\r\nc,d\ne,f\rg,h')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['e', 'f'],
+      ['g', 'h'],
+    ]);
+  });
+
+  it('reads quoted separators, doubled quotes and line breaks', () => {
+    expect(parseCsv('"Street 1, Floor 2","say ""hi""","two\r\nlines"\r\n')).toEqual([
+      ['Street 1, Floor 2', 'say "hi"', 'two\r\nlines'],
+    ]);
+  });
+
+  it('skips blank lines but keeps empty cells', () => {
+    expect(parseCsv('a,,c\r\n\r\n,b,\r\n')).toEqual([
+      ['a', '', 'c'],
+      ['', 'b', ''],
+    ]);
+  });
+
+  it('throws on an unterminated quote', () => {
+    expect(() => parseCsv('a,"b\r\nc,d')).toThrow('Unterminated quoted field');
+  });
+});
+
+describe('round trip', () => {
+  it('parses written lines back to the same cells', () => {
+    const rows = [
+      ['employeeId', 'name', 'address', 'notes'],
+      ['EMP-001', 'Ann "Annie" Lee', 'Street 1, Floor 2', 'first\r\nsecond'],
+      ['EMP-002', 'Müller', '', "'=SUM(A1)"],
+    ];
+
+    const text = `\uFEFF${rows.map(toCsvLine).join('')}`;
+
+    expect(parseCsv(text)).toEqual(rows);
+  });
+});
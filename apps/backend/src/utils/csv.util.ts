@@ -0,0 +1,89 @@
+/**
+ * WHAT: CSV utilities
+ *
+ * WHY: Bulk imports arrive as CSV exported from spreadsheets, and exports
+ * go back to them. RFC 4180 is small enough to handle without adding a dependency.
+ *
+ * HOW: Parsing is a single-pass state machine over the text; writing
+ * quotes only the cells that need it
+ */
+
+/**
+ * WHAT: Parse CSV text into rows of cells
+ *
+ * WHY: Spreadsheet exports quote cells containing commas, quotes or line
+ * breaks ("Street 1, Floor 2"), use CRLF, and Excel adds a UTF-8 BOM.
+ *
+ * HOW: Quoted cells may contain separators and doubled quotes (""); blank
+ * lines are skipped. Throws on an unterminated quote.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    // WHY: A blank line parses as one empty cell - not a row
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      // WHY: CRLF ends one row, not two
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * WHAT: Format one CSV line
+ *
+ * HOW: Cells containing separators, quotes or line breaks are quoted,
+ * with quotes doubled. Ends with CRLF, as RFC 4180 and Excel expect.
+ */
+export function toCsvLine(cells: string[]): string {
+  return (
+    cells
+      .map((cell) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell))
+      .join(',') + '\r\n'
+  );
+}
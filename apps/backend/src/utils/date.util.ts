@@ -0,0 +1,66 @@
+/**
+ * WHAT: Date helpers for whole-day values
+ *
+ * WHY: Leave, holiday and attendance dates are calendar days. Handling them
+ * as UTC midnight keeps comparisons exact regardless of server timezone.
+ *
+ * HOW: Small pure functions shared across modules
+ */
+
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * WHAT: Truncate a date to UTC midnight
+ */
+export function toUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * WHAT: Add whole days to a UTC day
+ */
+export function addUtcDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * WHAT: Format a UTC day as YYYY-MM-DD
+ *
+ * WHY: Stable map keys and readable API output for day-level data.
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * WHAT: One calendar month, as used by monthly charts
+ */
+export interface UtcMonth {
+  month: string; // WHY: YYYY-MM
+  label: string; // WHY: Short month name, used as chart axis label
+  from: Date; // WHY: First day
+  to: Date; // WHY: Last day
+}
+
+/**
+ * WHAT: First and last day of each of the last N months
+ *
+ * WHY: Monthly charts; the current month is the last entry.
+ */
+export function lastUtcMonths(months: number): UtcMonth[] {
+  const today = new Date();
+  const result: UtcMonth[] = [];
+
+  for (let offset = months - 1; offset >= 0; offset--) {
+    const from = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - offset, 1));
+    const to = addUtcDays(new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, 1)), -1);
+    result.push({
+      month: toDateKey(from).slice(0, 7),
+      label: from.toLocaleString('en-US', { month: 'short', timeZone: 'UTC' }),
+      from,
+      to,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,27 @@
+import { AppError } from '../middlewares/error.middleware';
+
+/**
+ * WHAT: HTTP error factory
+ *
+ * WHY: Services throw errors that the error middleware turns into responses.
+ * Attaching a status code (and optional machine-readable code) at the throw
+ * site lets services signal 400/404/409 instead of every failure becoming a 500.
+ *
+ * HOW: Creates an Error with statusCode/code set, same shape notFoundMiddleware uses
+ */
+export function createHttpError(
+  message: string,
+  statusCode: number,
+  code?: string,
+): AppError {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  error.isOperational = true;
+
+  // WHY: Optional code lets the frontend branch on error type without parsing messages
+  if (code) {
+    error.code = code;
+  }
+
+  return error;
+}
@@ -0,0 +1,128 @@
+import { Writable } from 'stream';
+import { Permission, UserRole } from '../modules/auth/auth.types';
+import { parseCsv } from './csv.util';
+import { ExportColumn, ExportFormat, createExportFile, selectExportColumns } from './export.util';
+
+/**
+ * WHAT: Tests for the spreadsheet export helpers
+ *
+ * WHY: Exports hold user-entered text that HR opens in Excel - a missed
+ * formula guard runs attacker-chosen formulas on HR's machine.
+ *
+ * HOW: Writes CSV exports in memory and reads them back with the import parser
+ */
+
+interface Person {
+  id: string;
+  name: string;
+  salary?: number;
+  joinedOn?: Date;
+}
+
+const COLUMNS: ExportColumn<Person>[] = [
+  { key: 'id', header: 'Employee ID', value: (row) => row.id },
+  { key: 'name', header: 'Name', value: (row) => row.name },
+  { key: 'salary', header: 'Salary', value: (row) => row.salary, permission: Permission.SALARY_READ },
+  { key: 'joinedOn', header: 'Joined', value: (row) => row.joinedOn },
+];
+
+async function writeCsv(rows: Person[]): Promise<string> {
+  const file = createExportFile({
+    name: 'employees',
+    format: ExportFormat.CSV,
+    columns: COLUMNS,
+    rows: async function* () {
+      yield* rows;
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const output = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk);
+      callback();
+    },
+  });
+  await file.write(output);
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+describe('createExportFile (CSV)', () => {
+  it('starts with a BOM and a header row, lines end with CRLF', async () => {
+    const csv = await writeCsv([{ id: 'EMP-001', name: 'Ann' }]);
+
+    expect(csv).toBe('\uFEFFEmployee ID,Name,Salary,Joined\r\nEMP-001,Ann,,\r\n');
+  });
+
+  it.each(['=HYPERLINK("http://evil")', '+1+1', '-2+3', '@SUM(A1)', '\tTAB', '\rCR'])(
+    'prefixes %p with an apostrophe so it is not run as a formula',
+    async (name) => {
+      const [, row] = parseCsv(await writeCsv([{ id: 'EMP-001', name }]));
+
+      expect(row[1]).toBe(`'${name}`);
+    },
+  );
+
+  it('leaves numbers, dates and ordinary text alone', async () => {
+    const [, row] = parseCsv(
+      await writeCsv([
+        { id: 'EMP-001', name: 'Ann-Marie', salary: -500, joinedOn: new Date('2024-03-01T00:00:00Z') },
+      ]),
+    );
+
+    expect(row).toEqual(['EMP-001', 'Ann-Marie', '-500', '2024-03-01T00:00:00.000Z']);
+  });
+
+  it('round-trips through the import parser', async () => {
+    const people: Person[] = [
+      { id: 'EMP-001', name: 'Ann "Annie" Lee, Jr.', salary: 1234.5 },
+      { id: 'EMP-002', name: 'Multi\r\nline', salary: 0 },
+      { id: 'EMP-003', name: 'Müller' },
+    ];
+
+    const rows = parseCsv(await writeCsv(people));
+
+    expect(rows).toEqual([
+      ['Employee ID', 'Name', 'Salary', 'Joined'],
+      ['EMP-001', 'Ann "Annie" Lee, Jr.', '1234.5', ''],
+      ['EMP-002', 'Multi\r\nline', '0', ''],
+      ['EMP-003', 'Müller', '', ''],
+    ]);
+  });
+
+  it('names the file after the export and today', () => {
+    const file = createExportFile({
+      name: 'employees',
+      format: ExportFormat.XLSX,
+      columns: COLUMNS,
+      rows: async function* () {},
+    });
+
+    expect(file.filename).toMatch(/^employees-\d{4}-\d{2}-\d{2}\.xlsx$/);
+    expect(file.columns).toEqual(['id', 'name', 'salary', 'joinedOn']);
+  });
+});
+
+describe('selectExportColumns', () => {
+  it('leaves out columns the role may not see by default', () => {
+    const keys = selectExportColumns(COLUMNS, undefined, UserRole.MANAGER).map((column) => column.key);
+
+    expect(keys).toEqual(['id', 'name', 'joinedOn']);
+  });
+
+  it('keeps the requested order', () => {
+    const keys = selectExportColumns(COLUMNS, ['salary', 'id'], UserRole.HR).map((column) => column.key);
+
+    expect(keys).toEqual(['salary', 'id']);
+  });
+
+  it('refuses unknown and hidden columns', () => {
+    expect(() => selectExportColumns(COLUMNS, ['nope'], UserRole.HR)).toThrow(
+      expect.objectContaining({ statusCode: 400 }),
+    );
+    expect(() => selectExportColumns(COLUMNS, ['salary'], UserRole.MANAGER)).toThrow(
+      expect.objectContaining({ statusCode: 403 }),
+    );
+  });
+});
@@ -0,0 +1,229 @@
+import { Writable } from 'stream';
+import { z } from 'zod';
+import { Permission, UserRole } from '../modules/auth/auth.types';
+import { hasPermission } from './permission.util';
+import { createHttpError } from './error.util';
+import { createListQuerySchema, ListQueryOptions } from './query.util';
+import { toCsvLine } from './csv.util';
+import { writeXlsx, XlsxCellValue } from './xlsx.util';
+import { writeChunk } from './zip.util';
+import { toDateKey } from './date.util';
+
+/**
+ * WHAT: Spreadsheet export helpers
+ *
+ * WHY: Employees, leaves and HR users are exported the same way - same
+ * query syntax, formats, column rules and streaming. Modules only describe
+ * their columns and rows.
+ *
+ * HOW: Modules build an ExportFile from column definitions and a row
+ * source; controllers set the headers and stream it to the response
+ */
+
+/**
+ * WHAT: Export file formats
+ */
+export enum ExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
+
+const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ExportFormat.XLSX]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export type ExportValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * WHAT: One export column
+ *
+ * WHY: permission hides sensitive columns (salary) from roles without it -
+ * they are left out by default and refused when asked for.
+ */
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  value: (row: T) => ExportValue;
+  permission?: Permission;
+}
+
+/**
+ * WHAT: A ready-to-stream download
+ *
+ * WHY: Everything that can fail with a clean 4xx (columns, filters, access)
+ * is checked when the file is built - before any header is sent.
+ */
+export interface DownloadFile {
+  filename: string;
+  contentType: string;
+  write(output: Writable): Promise<void>;
+}
+
+/**
+ * WHAT: A ready-to-stream spreadsheet export
+ */
+export interface ExportFile extends DownloadFile {
+  columns: string[];
+}
+
+/**
+ * WHAT: Create an export query validation schema
+ *
+ * WHY: Exports take the list query (sort, filter[field], q) without
+ * paging, plus format, columns and a date range.
+ *
+ * HOW: ?format=xlsx&columns=employeeId,email&from=2024-01-01&to=2024-12-31.
+ * What the date range applies to is up to each resource.
+ */
+export function createExportQuerySchema<TFilters extends z.ZodRawShape>(
+  options: ListQueryOptions<TFilters>,
+) {
+  return createListQuerySchema(options)
+    .omit({ page: true, limit: true })
+    .extend({
+      format: z.nativeEnum(ExportFormat).default(ExportFormat.CSV),
+      columns: z
+        .string()
+        .trim()
+        .optional()
+        .transform((value) =>
+          value ? [...new Set(value.split(',').map((key) => key.trim()).filter(Boolean))] : undefined,
+        ),
+      from: z.coerce.date({ invalid_type_error: 'Invalid from date' }).optional(),
+      to: z.coerce.date({ invalid_type_error: 'Invalid to date' }).optional(),
+    })
+    .refine((query) => !query.from || !query.to || query.from <= query.to, {
+      message: 'from must be on or before to',
+      path: ['to'],
+    });
+}
+
+/**
+ * WHAT: Pick the columns to export
+ *
+ * HOW: Defaults to every column the role may see; requested columns keep
+ * their order. Unknown columns are a 400, hidden ones a 403.
+ */
+export function selectExportColumns<T>(
+  columns: ExportColumn<T>[],
+  requested: string[] | undefined,
+  role: UserRole,
+): ExportColumn<T>[] {
+  const visible = columns.filter(
+    (column) => !column.permission || hasPermission(role, column.permission),
+  );
+
+  if (!requested) {
+    return visible;
+  }
+
+  return requested.map((key) => {
+    const column = columns.find((item) => item.key === key);
+    if (!column) {
+      throw createHttpError(
+        `Unknown export column "${key}". Allowed: ${visible.map((item) => item.key).join(', ')}`,
+        400,
+      );
+    }
+    if (!visible.includes(column)) {
+      throw createHttpError(`Not allowed to export column "${key}"`, 403);
+    }
+    return column;
+  });
+}
+
+/**
+ * WHAT: Format a value for a CSV cell
+ *
+ * WHY: Spreadsheets run cells starting with = + - @ as formulas, so a name
+ * like "=HYPERLINK(...)" could execute on HR's machine (CSV injection).
+ * Such text is prefixed with an apostrophe; numbers are left alone.
+ */
+function toCsvCell(value: ExportValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * WHAT: Format a value for an XLSX cell
+ *
+ * WHY: Inline strings are never evaluated, so no formula guard is needed.
+ */
+function toXlsxCell(value: ExportValue): XlsxCellValue {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * WHAT: Build an export file
+ *
+ * WHY: rows is a factory so the database cursor is only opened when the
+ * file is written, and closed when the client goes away mid-download.
+ *
+ * HOW: CSV starts with a BOM so Excel reads it as UTF-8; XLSX has one
+ * sheet named after the export. Filename is "<name>-<YYYY-MM-DD>.<format>".
+ */
+export function createExportFile<T>(options: {
+  name: string;
+  format: ExportFormat;
+  columns: ExportColumn<T>[];
+  rows: () => AsyncIterable<T>;
+}): ExportFile {
+  const { name, format, columns, rows } = options;
+  const headers = columns.map((column) => column.header);
+
+  async function* xlsxRows(): AsyncGenerator<XlsxCellValue[]> {
+    for await (const row of rows()) {
+      yield columns.map((column) => toXlsxCell(column.value(row)));
+    }
+  }
+
+  return {
+    filename: `${name}-${toDateKey(new Date())}.${format}`,
+    contentType: EXPORT_CONTENT_TYPES[format],
+    columns: columns.map((column) => column.key),
+    async write(output: Writable): Promise<void> {
+      if (format === ExportFormat.XLSX) {
+        await writeXlsx(output, name, headers, xlsxRows());
+        return;
+      }
+
+      await writeChunk(output, `\uFEFF${toCsvLine(headers)}`);
+      for await (const row of rows()) {
+        await writeChunk(output, toCsvLine(columns.map((column) => toCsvCell(column.value(row)))));
+      }
+    },
+  };
+}
+
+/**
+ * WHAT: Mongo condition for an export's from/to range
+ *
+ * HOW: Both ends inclusive; undefined when neither is set
+ */
+export function toDateRangeFilter(
+  from: Date | undefined,
+  to: Date | undefined,
+): { $gte?: Date; $lte?: Date } | undefined {
+  if (!from && !to) {
+    return undefined;
+  }
+  return { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+}
+
+/**
+ * WHAT: Format a date-only value (date of birth, leave dates)
+ *
+ * WHY: Timestamps would show a misleading time of day in spreadsheets.
+ */
+export function toExportDate(value: Date | undefined): string | undefined {
+  return value ? toDateKey(value) : undefined;
+}
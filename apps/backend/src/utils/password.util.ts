@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+
+/**
+ * WHAT: Password utilities shared across modules
+ * 
+ * WHY: Both admin HR creation and employee onboarding create accounts on
+ * behalf of someone else. Keeping password generation in one place ensures
+ * every generated password meets the same strength rules.
+ * 
+ * HOW: Exports helpers built on Node's crypto module
+ */
+
+/**
+ * WHAT: Generate random password
+ * 
+ * WHY: Auto-generate secure passwords when admin doesn't provide one.
+ * Ensures strong passwords without requiring admin to create them.
+ * 
+ * HOW: Uses crypto to generate random secure password
+ */
+export function generateRandomPassword(): string {
+  // WHY: Generate 16-character random password with mixed case, numbers, and symbols
+  // Secure enough for initial password (user should change on first login)
+  const length = 16;
+  const charset = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*';
+  const randomBytes = crypto.randomBytes(length);
+  let password = '';
+  
+  for (let i = 0; i < length; i++) {
+    password += charset[randomBytes[i] % charset.length];
+  }
+  
+  return password;
+}
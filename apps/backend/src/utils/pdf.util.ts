@@ -0,0 +1,142 @@
+import { PDFFont, PDFPage, PDFDocument as PdfLibDocument, StandardFonts, rgb } from 'pdf-lib';
+
+/**
+ * WHAT: PDF document helpers
+ *
+ * WHY: Payslips are simple documents - text, rules and shaded boxes.
+ * pdf-lib is pure JavaScript and ships the metrics of the standard PDF
+ * fonts (Helvetica), so rendering works offline with nothing embedded.
+ *
+ * HOW: A thin layer over pdf-lib that measures from the top-left corner
+ * (text y is the baseline) and keeps text within what the fonts can print.
+ */
+
+/**
+ * WHAT: A4 page size in points
+ */
+export const A4 = { width: 595.28, height: 841.89 } as const;
+
+/**
+ * WHAT: RGB colour, each channel 0-1
+ */
+export type PdfColor = readonly [number, number, number];
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  size?: number; // WHY: Points, default 10
+  font?: PdfFont;
+  color?: PdfColor;
+  align?: 'left' | 'right' | 'center'; // WHY: Relative to x
+}
+
+/**
+ * WHAT: One page to draw on
+ */
+export interface PdfPage {
+  text(x: number, y: number, value: string, options?: PdfTextOptions): void;
+  line(x1: number, y1: number, x2: number, y2: number, options?: { width?: number; color?: PdfColor }): void;
+  rect(x: number, y: number, width: number, height: number, options: { fill?: PdfColor; stroke?: PdfColor }): void;
+}
+
+/**
+ * WHAT: PDF document builder
+ */
+export interface PdfDocument {
+  addPage(): PdfPage;
+  /**
+   * WHAT: Shorten text to fit a width
+   *
+   * HOW: Drops characters from the end and adds "..." when it doesn't fit
+   */
+  fitText(value: string, maxWidth: number, size: number, font?: PdfFont): string;
+  toBuffer(): Promise<Buffer>;
+}
+
+function toRgb(value: PdfColor) {
+  return rgb(value[0], value[1], value[2]);
+}
+
+/**
+ * WHAT: Create a PDF document
+ *
+ * HOW: title goes into the document properties shown by viewers
+ */
+export async function createPdfDocument(info: { title: string; author?: string }): Promise<PdfDocument> {
+  const document = await PdfLibDocument.create();
+  document.setTitle(info.title);
+  if (info.author) {
+    document.setAuthor(info.author);
+  }
+  document.setProducer('HR Portal');
+
+  const fonts: Record<PdfFont, PDFFont> = {
+    regular: await document.embedFont(StandardFonts.Helvetica),
+    bold: await document.embedFont(StandardFonts.HelveticaBold),
+  };
+  // WHY: Both fonts share the WinAnsi (Western European) character set
+  const printable = new Set(fonts.regular.getCharacterSet());
+
+  // WHY: pdf-lib throws on characters the standard fonts can't encode;
+  // those print as "?" rather than failing the whole document
+  const sanitize = (value: string) =>
+    Array.from(value, (char) => (printable.has(char.codePointAt(0)!) ? char : '?')).join('');
+
+  const measure = (value: string, size: number, font: PdfFont) =>
+    fonts[font].widthOfTextAtSize(sanitize(value), size);
+
+  function wrapPage(page: PDFPage): PdfPage {
+    // WHY: PDF measures y from the bottom of the page
+    const flip = (y: number) => A4.height - y;
+
+    return {
+      text(x, y, value, options = {}) {
+        const { size = 10, font = 'regular', color = [0, 0, 0], align = 'left' } = options;
+        const width = align === 'left' ? 0 : measure(value, size, font);
+        const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+        page.drawText(sanitize(value), {
+          x: left,
+          y: flip(y),
+          size,
+          font: fonts[font],
+          color: toRgb(color),
+        });
+      },
+      line(x1, y1, x2, y2, options = {}) {
+        const { width = 0.5, color = [0, 0, 0] } = options;
+        page.drawLine({
+          start: { x: x1, y: flip(y1) },
+          end: { x: x2, y: flip(y2) },
+          thickness: width,
+          color: toRgb(color),
+        });
+      },
+      rect(x, y, width, height, options) {
+        page.drawRectangle({
+          x,
+          y: flip(y + height),
+          width,
+          height,
+          color: options.fill ? toRgb(options.fill) : undefined,
+          borderColor: options.stroke ? toRgb(options.stroke) : undefined,
+          borderWidth: options.stroke ? 0.5 : 0,
+        });
+      },
+    };
+  }
+
+  return {
+    addPage: () => wrapPage(document.addPage([A4.width, A4.height])),
+    fitText(value, maxWidth, size, font = 'regular') {
+      if (measure(value, size, font) <= maxWidth) {
+        return value;
+      }
+      let text = value;
+      while (text.length > 0 && measure(`${text}...`, size, font) > maxWidth) {
+        text = text.slice(0, -1);
+      }
+      return `${text.trimEnd()}...`;
+    },
+    toBuffer: async () => Buffer.from(await document.save()),
+  };
+}
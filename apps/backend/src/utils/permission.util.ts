@@ -0,0 +1,28 @@
+import { Permission, UserRole } from '../modules/auth/auth.types';
+import { ROLE_PERMISSIONS } from '../modules/auth/auth.constants';
+
+/**
+ * WHAT: Permission helpers shared across modules
+ * 
+ * WHY: Middleware guards routes by permission; services need the same
+ * check for record-level rules (e.g. HR reviews any leave, a manager
+ * only their team's). Both read ROLE_PERMISSIONS through these helpers.
+ * 
+ * HOW: Looks up permissions from the role carried in the JWT
+ */
+
+/**
+ * WHAT: Effective permissions of a role
+ * 
+ * WHY: Returned to the frontend so it can hide what the user can't do.
+ */
+export function getPermissionsForRole(role: UserRole): Permission[] {
+  return [...(ROLE_PERMISSIONS[role] ?? [])];
+}
+
+/**
+ * WHAT: Check whether a role grants a permission
+ */
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return (ROLE_PERMISSIONS[role] ?? []).includes(permission);
+}
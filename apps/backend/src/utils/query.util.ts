@@ -0,0 +1,219 @@
+import { FilterQuery, Model } from 'mongoose';
+import { z } from 'zod';
+import { Pagination } from './response.util';
+
+/**
+ * WHAT: Query building helpers
+ * 
+ * WHY: List endpoints across modules build Mongo filters from user input.
+ * Shared helpers keep that input handling safe and consistent.
+ * 
+ * HOW: Exports small pure functions used by services, and the list query
+ * schema factory used by validation files
+ */
+
+/**
+ * WHAT: Escape user input for use in a RegExp
+ * 
+ * WHY: Search terms are user-provided - unescaped characters could
+ * build expensive or invalid regular expressions.
+ */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * WHAT: Largest page size any list endpoint returns
+ */
+export const MAX_PAGE_LIMIT = 100;
+
+/**
+ * WHAT: Mongo sort specification
+ */
+export type SortSpec = Record<string, 1 | -1>;
+
+/**
+ * WHAT: Per-resource list query options
+ *
+ * WHY: Each resource whitelists what may be filtered and sorted on -
+ * anything else is a 400, never an unindexed or private field.
+ *
+ * HOW: filters maps field name to the Zod schema for its value
+ */
+export interface ListQueryOptions<TFilters extends z.ZodRawShape> {
+  filters: TFilters;
+  sortable: readonly string[];
+  defaultSort: string; // WHY: Same syntax as ?sort=, e.g. "-createdAt"
+  defaultLimit?: number;
+}
+
+/**
+ * WHAT: Parse a sort parameter
+ *
+ * HOW: "field" ascending, "-field" descending, comma-separated for
+ * several keys; every field must be whitelisted
+ */
+function parseSort(value: string, sortable: readonly string[], ctx: z.RefinementCtx): SortSpec {
+  const sort: SortSpec = {};
+
+  for (const part of value.split(',').map((item) => item.trim()).filter(Boolean)) {
+    const field = part.replace(/^-/, '');
+
+    if (!sortable.includes(field)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Cannot sort by "${field}". Allowed: ${sortable.join(', ')}`,
+      });
+      return z.NEVER;
+    }
+
+    sort[field] = part.startsWith('-') ? -1 : 1;
+  }
+
+  return sort;
+}
+
+/**
+ * WHAT: Create a list query validation schema
+ *
+ * WHY: Every list endpoint takes the same query string:
+ * ?page=2&limit=20&sort=-createdAt,lastName&filter[isActive]=true&q=smith
+ * One parser keeps the syntax, limits and error messages identical.
+ *
+ * HOW: Express parses filter[field] into a nested object. The filter
+ * object is strict, so unknown fields fail validation, and each value must
+ * match its schema - operator objects like filter[email][$ne]= are rejected.
+ * Output: { page, limit, sort (Mongo sort object), filter, q }
+ */
+export function createListQuerySchema<TFilters extends z.ZodRawShape>(
+  options: ListQueryOptions<TFilters>,
+) {
+  const { filters, sortable, defaultSort, defaultLimit = 10 } = options;
+
+  return z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).default(defaultLimit),
+    sort: z
+      .string()
+      .trim()
+      .default(defaultSort)
+      .transform((value, ctx) => parseSort(value || defaultSort, sortable, ctx)),
+    filter: z
+      .object(filters)
+      .partial()
+      .strict()
+      .optional()
+      .transform((value) => value ?? ({} as NonNullable<typeof value>)),
+    // WHY: An empty search box sends q= - treat it as no search
+    q: z
+      .string()
+      .trim()
+      .max(100)
+      .optional()
+      .transform((value) => value || undefined),
+  });
+}
+
+/**
+ * WHAT: Build a case-insensitive search filter
+ *
+ * WHY: q matches any of a resource's searchable fields.
+ *
+ * HOW: Returns an $or of escaped regexes, or {} without a search term
+ */
+export function buildSearchFilter<T>(
+  q: string | undefined,
+  fields: readonly string[],
+): FilterQuery<T> {
+  if (!q) {
+    return {};
+  }
+
+  const pattern = new RegExp(escapeRegex(q), 'i');
+  return { $or: fields.map((field) => ({ [field]: pattern })) } as FilterQuery<T>;
+}
+
+/**
+ * WHAT: Make a sort order stable
+ *
+ * WHY: Documents with equal sort keys have no defined order - pages could
+ * repeat or skip them. _id breaks the tie.
+ */
+export function stableSort(sort: SortSpec): SortSpec {
+  return { ...sort, _id: sort._id ?? 1 };
+}
+
+/**
+ * WHAT: Run a paginated query
+ *
+ * WHY: Every list does the same skip/limit/count dance.
+ *
+ * HOW: Page query and count run in parallel, with a stable sort
+ */
+export async function findPage<TDoc>(
+  model: Model<TDoc>,
+  filter: FilterQuery<TDoc>,
+  query: { page: number; limit: number; sort: SortSpec },
+) {
+  const [docs, total] = await Promise.all([
+    model
+      .find(filter)
+      .sort(stableSort(query.sort))
+      .skip((query.page - 1) * query.limit)
+      .limit(query.limit),
+    model.countDocuments(filter),
+  ]);
+
+  const pagination: Pagination = {
+    page: query.page,
+    limit: query.limit,
+    total,
+    totalPages: Math.ceil(total / query.limit),
+  };
+
+  return { docs, pagination };
+}
+
+/**
+ * WHAT: Paginate rows built in memory
+ *
+ * WHY: Some lists are computed rather than stored (daily attendance) -
+ * they take the same parsed list query and return the same pagination
+ * as findPage().
+ *
+ * HOW: Sorts by the parsed sort (stable, so ties keep their input
+ * order; missing values last), then slices out the page
+ */
+export function paginateRows<T extends object>(
+  rows: T[],
+  query: { page: number; limit: number; sort: SortSpec },
+) {
+  const keys = Object.entries(query.sort);
+  const sorted = [...rows].sort((a, b) => {
+    for (const [field, direction] of keys) {
+      const left = (a as Record<string, unknown>)[field] as string | number | undefined;
+      const right = (b as Record<string, unknown>)[field] as string | number | undefined;
+      if (left === right) {
+        continue;
+      }
+      if (left === undefined) {
+        return 1;
+      }
+      if (right === undefined) {
+        return -1;
+      }
+      return (left < right ? -1 : 1) * direction;
+    }
+    return 0;
+  });
+
+  const skip = (query.page - 1) * query.limit;
+  const pagination: Pagination = {
+    page: query.page,
+    limit: query.limit,
+    total: rows.length,
+    totalPages: Math.ceil(rows.length / query.limit),
+  };
+
+  return { docs: sorted.slice(skip, skip + query.limit), pagination };
+}
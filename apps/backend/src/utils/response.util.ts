@@ -1,4 +1,5 @@
 import { Response } from 'express';
+import { DownloadFile } from './export.util';
 
 /**
  * WHAT: Standardized API response utility
@@ -43,6 +44,18 @@ export interface ApiErrorResponse {
   };
 }
 
+/**
+ * WHAT: Pagination metadata
+ * 
+ * WHY: Every paginated list returns the same metadata next to its items.
+ */
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
 /**
  * WHAT: Send success response
  * 
@@ -128,17 +141,12 @@ export function sendError(
 export function sendPaginated<T>(
   res: Response,
   data: T[],
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  },
+  pagination: Pagination,
   statusCode: number = 200,
 ): void {
   const response: ApiSuccessResponse<{
     items: T[];
-    pagination: typeof pagination;
+    pagination: Pagination;
   }> = {
     success: true,
     data: {
@@ -150,3 +158,27 @@ export function sendPaginated<T>(
   res.status(statusCode).json(response);
 }
 
+
+/**
+ * WHAT: Stream an export file as a download
+ * 
+ * WHY: Exports (spreadsheets, PDFs, zips) are the one response that isn't JSON. Once the first bytes
+ * are out the status can't change, so a failure mid-stream aborts the
+ * connection - the client sees a failed download, never a silently truncated file.
+ * 
+ * HOW: Sets download headers, writes the file, ends the response
+ */
+export async function sendExport(res: Response, file: DownloadFile): Promise<void> {
+  res.status(200);
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+  res.setHeader('Cache-Control', 'no-store'); // WHY: Exports hold personal data
+
+  try {
+    await file.write(res);
+    res.end();
+  } catch (error) {
+    console.error('Export failed:', error);
+    res.destroy(error as Error);
+  }
+}
@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+
+/**
+ * WHAT: Opaque token utilities shared across modules
+ * 
+ * WHY: Refresh tokens and password reset tokens are stored as hashes, so a
+ * leaked collection doesn't hand out working tokens. Hashing the same way
+ * everywhere keeps lookups consistent.
+ * 
+ * HOW: Exports helpers built on Node's crypto module
+ */
+
+/**
+ * WHAT: Generate a random URL-safe token
+ * 
+ * WHY: 32 random bytes can't be guessed, so no rate limiting is needed on lookups.
+ */
+export function generateSecureToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * WHAT: Hash a token for storage
+ * 
+ * WHY: Tokens are long and random, so a fast unsalted hash is enough
+ * (unlike passwords) - and lets the hash be looked up directly.
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,74 @@
+import { decodeBase32, encodeBase32, findTotpStep, generateTotp, getTotpStep } from './totp.util';
+
+/**
+ * WHAT: Tests for the TOTP utilities
+ *
+ * WHY: MFA login depends on this hand-written code matching what
+ * authenticator apps compute. Pinning the RFC 6238 vectors and the
+ * accepted step window stops a refactor from silently locking users out.
+ *
+ * HOW: RFC 6238 Appendix B SHA1 vectors. The RFC lists 8-digit codes;
+ * a 6-digit code is the last 6 digits of the same value.
+ */
+
+// WHY: The RFC's SHA1 secret, ASCII "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+const RFC_VECTORS: Array<{ seconds: number; code: string }> = [
+  { seconds: 59, code: '287082' }, // 94287082
+  { seconds: 1111111109, code: '081804' }, // 07081804
+  { seconds: 1111111111, code: '050471' }, // 14050471
+  { seconds: 1234567890, code: '005924' }, // 89005924
+  { seconds: 2000000000, code: '279037' }, // 69279037
+  { seconds: 20000000000, code: '353130' }, // 65353130
+];
+
+describe('base32', () => {
+  it('encodes the RFC secret', () => {
+    expect(encodeBase32(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+  });
+
+  it('decodes case-insensitively, ignoring spaces and padding', () => {
+    expect(decodeBase32('gezd gnbv gy3t qojq gezd gnbv gy3t qojq==').toString()).toBe(
+      '12345678901234567890',
+    );
+  });
+});
+
+describe('generateTotp', () => {
+  it.each(RFC_VECTORS)('matches the RFC 6238 vector at $seconds s', ({ seconds, code }) => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(seconds * 1000))).toBe(code);
+  });
+});
+
+describe('findTotpStep', () => {
+  const timeMs = 1111111111 * 1000;
+  const step = getTotpStep(timeMs);
+
+  it.each(RFC_VECTORS)('returns the step of the RFC code at $seconds s', ({ seconds, code }) => {
+    expect(findTotpStep(RFC_SECRET, code, 1, seconds * 1000)).toBe(getTotpStep(seconds * 1000));
+  });
+
+  it('accepts codes from one step either side', () => {
+    expect(findTotpStep(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), 1, timeMs)).toBe(step - 1);
+    expect(findTotpStep(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), 1, timeMs)).toBe(step + 1);
+  });
+
+  it('rejects codes two steps away', () => {
+    expect(findTotpStep(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), 1, timeMs)).toBeNull();
+    expect(findTotpStep(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), 1, timeMs)).toBeNull();
+  });
+
+  // WHY: verifyMfaCode only accepts a step above lastUsedStep, so a code
+  // must keep mapping to the step it was issued for while it is in the window
+  it('returns the same step for a code reused later in the window', () => {
+    const code = generateTotp(RFC_SECRET, step);
+    expect(findTotpStep(RFC_SECRET, code, 1, timeMs + 30 * 1000)).toBe(step);
+  });
+
+  it('rejects codes that are not 6 digits', () => {
+    expect(findTotpStep(RFC_SECRET, '50471', 1, timeMs)).toBeNull();
+    expect(findTotpStep(RFC_SECRET, '0504711', 1, timeMs)).toBeNull();
+    expect(findTotpStep(RFC_SECRET, 'abcdef', 1, timeMs)).toBeNull();
+  });
+});
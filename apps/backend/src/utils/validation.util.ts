@@ -0,0 +1,42 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+
+/**
+ * WHAT: Shared Zod building blocks
+ * 
+ * WHY: Many modules validate MongoDB IDs in params and bodies.
+ * Defining the rule once keeps error messages consistent across endpoints.
+ * 
+ * HOW: Exports reusable Zod schemas
+ */
+
+/**
+ * WHAT: MongoDB ObjectId string schema
+ * 
+ * WHY: Invalid IDs would make Mongoose throw a CastError (500).
+ * Validating up front turns that into a clear 400 validation error.
+ */
+export const objectIdSchema = z
+  .string()
+  .trim()
+  .refine((value) => mongoose.Types.ObjectId.isValid(value), {
+    message: 'Invalid ID format',
+  });
+
+/**
+ * WHAT: Route params schema for /:id routes
+ * 
+ * WHY: Used with validateRequest(idParamSchema, 'params') on item endpoints.
+ */
+export const idParamSchema = z.object({
+  id: objectIdSchema,
+});
+
+/**
+ * WHAT: Query string boolean schema
+ * 
+ * WHY: Query values are strings; only "true"/"false" are accepted.
+ */
+export const queryBooleanSchema = z
+  .enum(['true', 'false'])
+  .transform((value) => value === 'true');
@@ -0,0 +1,125 @@
+import { Writable } from 'stream';
+import zlib from 'zlib';
+import { writeXlsx, XlsxCellValue } from './xlsx.util';
+
+/**
+ * WHAT: Tests for the XLSX writer
+ *
+ * WHY: Excel refuses the whole workbook over one badly escaped cell, so
+ * user-entered text must always come out as valid XML.
+ *
+ * HOW: Writes a workbook in memory and reads its parts back through the
+ * ZIP central directory
+ */
+
+/**
+ * WHAT: Write a workbook and return its parts by name
+ */
+async function buildWorkbook(
+  sheetName: string,
+  headers: string[],
+  rows: XlsxCellValue[][],
+): Promise<Map<string, string>> {
+  const chunks: Buffer[] = [];
+  const output = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk);
+      callback();
+    },
+  });
+  async function* source() {
+    yield* rows;
+  }
+
+  await writeXlsx(output, sheetName, headers, source());
+
+  const archive = Buffer.concat(chunks);
+  const endOffset = archive.length - 22;
+  const count = archive.readUInt16LE(endOffset + 10);
+  let position = archive.readUInt32LE(endOffset + 16);
+  const parts = new Map<string, string>();
+
+  for (let index = 0; index < count; index++) {
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.toString('utf8', position + 46, position + 46 + nameLength);
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26);
+    parts.set(
+      name,
+      zlib.inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize)).toString('utf8'),
+    );
+    position += 46 + nameLength;
+  }
+
+  return parts;
+}
+
+/**
+ * WHAT: The <row> elements of the sheet
+ */
+function sheetRows(parts: Map<string, string>): string[] {
+  return parts.get('xl/worksheets/sheet1.xml')?.match(/<row>[\s\S]*?<\/row>/g) ?? [];
+}
+
+describe('writeXlsx', () => {
+  it('writes every part of a single-sheet workbook', async () => {
+    const parts = await buildWorkbook('Employees', ['Name'], []);
+
+    expect([...parts.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/workbook.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    expect(parts.get('xl/workbook.xml')).toContain('<sheet name="Employees" sheetId="1" r:id="rId1"/>');
+  });
+
+  it('writes the headers as a bold first row', async () => {
+    const [header] = sheetRows(await buildWorkbook('Sheet', ['Name', 'Email'], []));
+
+    expect(header).toBe(
+      '<row><c t="inlineStr" s="1"><is><t xml:space="preserve">Name</t></is></c>' +
+        '<c t="inlineStr" s="1"><is><t xml:space="preserve">Email</t></is></c></row>',
+    );
+  });
+
+  it('escapes XML special characters in cell text', async () => {
+    const [, row] = sheetRows(
+      await buildWorkbook('Sheet', ['Name'], [['Tom & Jerry <"Co"> \'Ltd\'']]),
+    );
+
+    expect(row).toContain(
+      '<t xml:space="preserve">Tom &amp; Jerry &lt;&quot;Co&quot;&gt; \'Ltd\'</t>',
+    );
+  });
+
+  it('drops control characters XML does not allow, keeping tabs and line breaks', async () => {
+    const [, row] = sheetRows(await buildWorkbook('Sheet', ['Notes'], [['a\u0000b\u0007c\td\r\ne']]));
+
+    expect(row).toContain('<t xml:space="preserve">abc\td\r\ne</t>');
+  });
+
+  it('keeps numbers and booleans typed and leaves empty cells out', async () => {
+    const [, row] = sheetRows(
+      await buildWorkbook('Sheet', ['A', 'B', 'C', 'D', 'E'], [[42.5, true, null, '', undefined]]),
+    );
+
+    expect(row).toBe('<row><c><v>42.5</v></c><c t="b"><v>1</v></c><c/><c/><c/></row>');
+  });
+
+  it('writes formula-like text as a string, never a formula', async () => {
+    const [, row] = sheetRows(await buildWorkbook('Sheet', ['Name'], [['=SUM(A1:A2)']]));
+
+    expect(row).toContain('<t xml:space="preserve">=SUM(A1:A2)</t>');
+    expect(row).not.toContain('<f>');
+  });
+
+  it('escapes and shortens the sheet name', async () => {
+    const parts = await buildWorkbook('R&D <team> payroll export for 2026', ['Name'], []);
+
+    expect(parts.get('xl/workbook.xml')).toContain('<sheet name="R&amp;D &lt;team&gt; payroll export for 2" ');
+  });
+});
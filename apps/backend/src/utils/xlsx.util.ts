@@ -0,0 +1,132 @@
+import { Writable } from 'stream';
+import { createZipWriter } from './zip.util';
+
+/**
+ * WHAT: Streaming XLSX writer
+ *
+ * WHY: HR and finance work in Excel. A single-sheet workbook is a handful
+ * of fixed XML parts plus the sheet, so it can be streamed row by row
+ * without a spreadsheet library.
+ *
+ * HOW: Writes the OOXML parts into a streaming ZIP. Strings are inline
+ * (no shared string table, which would need every value up front).
+ */
+
+export type XlsxCellValue = string | number | boolean | null | undefined;
+
+const CONTENT_TYPES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>';
+
+const WORKBOOK_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '</Relationships>';
+
+// WHY: Style 1 is bold, for the header row
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>';
+
+/**
+ * WHAT: Escape text for XML
+ *
+ * WHY: Control characters other than tab and line breaks are not allowed
+ * in XML at all - Excel refuses the whole file - so they are dropped.
+ */
+function escapeXml(value: string): string {
+  return value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[^\x09\x0A\x0D\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * WHAT: Render one sheet row
+ *
+ * HOW: Numbers and booleans keep their type so Excel can sum and filter
+ * them; empty values leave the cell out
+ */
+function toRowXml(values: XlsxCellValue[], style?: number): string {
+  const styleAttribute = style ? ` s="${style}"` : '';
+  const cells = values.map((value) => {
+    if (value === null || value === undefined || value === '') {
+      return '<c/>';
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return `<c${styleAttribute}><v>${value}</v></c>`;
+    }
+    if (typeof value === 'boolean') {
+      return `<c t="b"${styleAttribute}><v>${value ? 1 : 0}</v></c>`;
+    }
+    return `<c t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+  });
+
+  return `<row>${cells.join('')}</row>`;
+}
+
+/**
+ * WHAT: Write a single-sheet workbook
+ *
+ * HOW: headers become a bold first row; rows are consumed as they arrive.
+ * The output is not ended.
+ */
+export async function writeXlsx(
+  output: Writable,
+  sheetName: string,
+  headers: string[],
+  rows: AsyncIterable<XlsxCellValue[]>,
+): Promise<void> {
+  const zip = createZipWriter(output);
+
+  await zip.addEntry('[Content_Types].xml', CONTENT_TYPES_XML);
+  await zip.addEntry('_rels/.rels', ROOT_RELS_XML);
+  await zip.addEntry('xl/_rels/workbook.xml.rels', WORKBOOK_RELS_XML);
+  await zip.addEntry('xl/styles.xml', STYLES_XML);
+  await zip.addEntry(
+    'xl/workbook.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      // WHY: Sheet names are limited to 31 characters
+      `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>',
+  );
+
+  async function* sheetXml(): AsyncGenerator<string> {
+    yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>';
+    yield toRowXml(headers, 1);
+    for await (const row of rows) {
+      yield toRowXml(row);
+    }
+    yield '</sheetData></worksheet>';
+  }
+
+  await zip.addEntry('xl/worksheets/sheet1.xml', sheetXml());
+  await zip.finish();
+}
@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import { Writable } from 'stream';
+import zlib from 'zlib';
+import { crc32, createZipWriter } from './zip.util';
+
+/**
+ * WHAT: Tests for the streaming ZIP writer
+ *
+ * WHY: XLSX exports and the payslip and CV bulk downloads are all written
+ * by it - a wrong CRC or offset makes every one of them unreadable.
+ *
+ * HOW: Builds archives in memory and reads them back by following the
+ * end record to the central directory and each local header
+ */
+
+interface ParsedEntry {
+  name: string;
+  flags: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  content: Buffer;
+}
+
+/**
+ * WHAT: Collect everything written to a stream
+ */
+function createCollector(): { output: Writable; read: () => Buffer } {
+  const chunks: Buffer[] = [];
+  const output = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk);
+      callback();
+    },
+  });
+  return { output, read: () => Buffer.concat(chunks) };
+}
+
+async function buildZip(
+  entries: Array<[string, AsyncIterable<Buffer | string> | Buffer | string]>,
+): Promise<Buffer> {
+  const { output, read } = createCollector();
+  const zip = createZipWriter(output);
+  for (const [name, content] of entries) {
+    await zip.addEntry(name, content);
+  }
+  await zip.finish();
+  return read();
+}
+
+/**
+ * WHAT: Read an archive back from its central directory
+ *
+ * HOW: Checks every local header and data descriptor against the central
+ * directory record while reading
+ */
+function parseZip(archive: Buffer): ParsedEntry[] {
+  const endOffset = archive.length - 22;
+  expect(archive.readUInt32LE(endOffset)).toBe(0x06054b50);
+  const count = archive.readUInt16LE(endOffset + 10);
+  const directorySize = archive.readUInt32LE(endOffset + 12);
+  const directoryOffset = archive.readUInt32LE(endOffset + 16);
+  expect(directoryOffset + directorySize).toBe(endOffset);
+
+  const entries: ParsedEntry[] = [];
+  let position = directoryOffset;
+  for (let index = 0; index < count; index++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const entry = {
+      name: archive.toString('utf8', position + 46, position + 46 + nameLength),
+      flags: archive.readUInt16LE(position + 8),
+      crc: archive.readUInt32LE(position + 16),
+      compressedSize: archive.readUInt32LE(position + 20),
+      size: archive.readUInt32LE(position + 24),
+      offset: archive.readUInt32LE(position + 42),
+    };
+    position += 46 + nameLength;
+
+    // WHY: The local header must sit exactly where the directory says
+    expect(archive.readUInt32LE(entry.offset)).toBe(0x04034b50);
+    const localNameLength = archive.readUInt16LE(entry.offset + 26);
+    expect(archive.toString('utf8', entry.offset + 30, entry.offset + 30 + localNameLength)).toBe(
+      entry.name,
+    );
+
+    const dataStart = entry.offset + 30 + localNameLength;
+    const dataEnd = dataStart + entry.compressedSize;
+    const content = zlib.inflateRawSync(archive.subarray(dataStart, dataEnd));
+
+    expect(archive.readUInt32LE(dataEnd)).toBe(0x08074b50);
+    expect(archive.readUInt32LE(dataEnd + 4)).toBe(entry.crc);
+    expect(archive.readUInt32LE(dataEnd + 8)).toBe(entry.compressedSize);
+    expect(archive.readUInt32LE(dataEnd + 12)).toBe(entry.size);
+
+    entries.push({ ...entry, content });
+  }
+  expect(position).toBe(endOffset);
+
+  return entries;
+}
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('continues across chunks', () => {
+    const whole = crc32(Buffer.from('hello world'));
+    expect(crc32(Buffer.from(' world'), crc32(Buffer.from('hello')))).toBe(whole);
+  });
+
+  it('is 0 for no data', () => {
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+});
+
+describe('createZipWriter', () => {
+  it('writes entries the central directory points to', async () => {
+    const archive = await buildZip([
+      ['a.txt', 'first file'],
+      ['folder/b.csv', Buffer.from('id,name\r\n1,Ann\r\n')],
+      ['empty.txt', ''],
+    ]);
+
+    const entries = parseZip(archive);
+
+    expect(entries.map((entry) => entry.name)).toEqual(['a.txt', 'folder/b.csv', 'empty.txt']);
+    expect(entries[0].offset).toBe(0);
+    expect(entries.map((entry) => entry.content.toString())).toEqual([
+      'first file',
+      'id,name\r\n1,Ann\r\n',
+      '',
+    ]);
+    for (const entry of entries) {
+      expect(entry.crc).toBe(crc32(entry.content));
+      expect(entry.size).toBe(entry.content.length);
+    }
+  });
+
+  it('streams content from an async iterable', async () => {
+    // WHY: Larger than zlib's buffer, so data is flushed while input is still arriving
+    const parts = Array.from({ length: 8 }, () => crypto.randomBytes(64 * 1024));
+    async function* source() {
+      for (const part of parts) {
+        yield part;
+      }
+    }
+
+    const [entry] = parseZip(await buildZip([['random.bin', source()]]));
+
+    expect(entry.content.equals(Buffer.concat(parts))).toBe(true);
+    expect(entry.crc).toBe(crc32(Buffer.concat(parts)));
+  });
+
+  it('marks names as UTF-8', async () => {
+    const [entry] = parseZip(await buildZip([['résumé-Müller.pdf', 'x']]));
+
+    expect(entry.name).toBe('résumé-Müller.pdf');
+    expect(entry.flags & 0x0800).toBe(0x0800);
+  });
+
+  it('writes only the end record for an empty archive', async () => {
+    const archive = await buildZip([]);
+
+    expect(archive.length).toBe(22);
+    expect(parseZip(archive)).toEqual([]);
+  });
+});
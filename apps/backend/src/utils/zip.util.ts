@@ -0,0 +1,202 @@
+import { Writable } from 'stream';
+import zlib from 'zlib';
+
+/**
+ * WHAT: Streaming ZIP writer
+ *
+ * WHY: XLSX files are ZIP archives, and bulk downloads are zipped. Entries
+ * are compressed as they are produced, so an archive of any size is never
+ * held in memory - and ZIP is small enough to write on Node's zlib module,
+ * without adding a dependency.
+ *
+ * HOW: Each entry is a local header, deflated data and a data descriptor
+ * (sizes and CRC follow the data, so they needn't be known up front);
+ * finish() writes the central directory. No ZIP64 - entries and archives
+ * stay under 4 GB.
+ */
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit++) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+/**
+ * WHAT: Update a CRC-32 with more data
+ *
+ * HOW: Start from 0; pass the previous result for each following chunk
+ */
+export function crc32(data: Buffer, previous: number = 0): number {
+  let crc = ~previous >>> 0;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+/**
+ * WHAT: Date and time in MS-DOS format, as ZIP headers store them
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * WHAT: Write to a stream, waiting when its buffer is full
+ *
+ * WHY: Backpressure - a slow client must slow the producer down,
+ * not make the server buffer the whole file.
+ */
+export async function writeChunk(output: Writable, chunk: Buffer | string): Promise<void> {
+  if (output.destroyed) {
+    throw new Error('Output stream closed');
+  }
+
+  if (!output.write(chunk)) {
+    await new Promise<void>((resolve, reject) => {
+      const onDrain = () => {
+        output.off('close', onClose);
+        resolve();
+      };
+      const onClose = () => {
+        output.off('drain', onDrain);
+        reject(new Error('Output stream closed'));
+      };
+      output.once('drain', onDrain);
+      output.once('close', onClose);
+    });
+  }
+}
+
+/**
+ * WHAT: Streaming ZIP writer interface
+ */
+export interface ZipWriter {
+  addEntry(name: string, content: AsyncIterable<Buffer | string> | Buffer | string): Promise<void>;
+  finish(): Promise<void>;
+}
+
+interface CentralEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+/**
+ * WHAT: Create a ZIP writer on an output stream
+ *
+ * HOW: Entries are written one at a time - await each addEntry() before the next.
+ * The output is not ended by finish(), so callers can decide what follows.
+ */
+export function createZipWriter(output: Writable): ZipWriter {
+  const entries: CentralEntry[] = [];
+  let offset = 0;
+
+  const write = async (chunk: Buffer) => {
+    await writeChunk(output, chunk);
+    offset += chunk.length;
+  };
+
+  async function addEntry(
+    name: string,
+    content: AsyncIterable<Buffer | string> | Buffer | string,
+  ): Promise<void> {
+    const fileName = Buffer.from(name, 'utf8');
+    const { time, date } = toDosDateTime(new Date());
+    const entryOffset = offset;
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0); // Local file header signature
+    header.writeUInt16LE(20, 4); // Version needed (2.0 - deflate)
+    header.writeUInt16LE(0x0808, 6); // Flags: data descriptor follows, UTF-8 names
+    header.writeUInt16LE(8, 8); // Compression: deflate
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    // WHY: CRC and sizes (14-25) stay zero - they're in the data descriptor
+    header.writeUInt16LE(fileName.length, 26);
+    await write(Buffer.concat([header, fileName]));
+
+    let crc = 0;
+    let size = 0;
+    let compressedSize = 0;
+
+    const deflate = zlib.createDeflateRaw();
+    const pending: Buffer[] = [];
+    deflate.on('data', (chunk: Buffer) => pending.push(chunk));
+
+    const flushPending = async () => {
+      while (pending.length > 0) {
+        const chunk = pending.shift()!;
+        compressedSize += chunk.length;
+        await write(chunk);
+      }
+    };
+
+    const source = typeof content === 'string' || Buffer.isBuffer(content) ? [content] : content;
+    for await (const part of source) {
+      const chunk = typeof part === 'string' ? Buffer.from(part, 'utf8') : part;
+      crc = crc32(chunk, crc);
+      size += chunk.length;
+      // WHY: Wait until zlib has consumed the chunk before reading more input
+      await new Promise<void>((resolve) => deflate.write(chunk, () => resolve()));
+      await flushPending();
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      deflate.once('end', resolve);
+      deflate.once('error', reject);
+      deflate.end();
+    });
+    await flushPending();
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0); // Data descriptor signature
+    descriptor.writeUInt32LE(crc, 4);
+    descriptor.writeUInt32LE(compressedSize, 8);
+    descriptor.writeUInt32LE(size, 12);
+    await write(descriptor);
+
+    entries.push({ name: fileName, crc, compressedSize, size, offset: entryOffset, time, date });
+  }
+
+  async function finish(): Promise<void> {
+    const directoryOffset = offset;
+
+    for (const entry of entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0); // Central directory header signature
+      header.writeUInt16LE(20, 4); // Version made by
+      header.writeUInt16LE(20, 6); // Version needed
+      header.writeUInt16LE(0x0808, 8);
+      header.writeUInt16LE(8, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // WHY: Extra field, comment, disk number and attributes (30-41) stay zero
+      header.writeUInt32LE(entry.offset, 42);
+      await write(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0); // End of central directory signature
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await write(end);
+  }
+
+  return { addEntry, finish };
+}
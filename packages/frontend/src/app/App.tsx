@@ -6,17 +6,22 @@ import { ProtectedRoute } from '@/routes/ProtectedRoute';
 import { RoleGuard } from '@/routes/RoleGuard';
 import { AppLayout } from '@/layouts/AppLayout';
 import { useAuth, useAuthActions } from '@/features/auth/hooks';
-import { UserRole } from '@/features/auth/types';
+import { Permission, UserRole } from '@/features/auth/types';
 
 // WHY: Lazy load routes for better performance - only load code when route is accessed
 const HomePage = lazy(() => import('@/features/home/pages/HomePage'));
 const LoginPage = lazy(() => import('@/features/auth/pages/LoginPage'));
+const ChangePasswordPage = lazy(() => import('@/features/auth/pages/ChangePasswordPage'));
+const MfaSetupPage = lazy(() => import('@/features/auth/pages/MfaSetupPage'));
 
 // WHY: Lazy load role-specific dashboards
 const AdminDashboard = lazy(() => import('@/features/admin/pages/AdminDashboard'));
 const HrManagementPage = lazy(() => import('@/features/admin/hr/pages/HrManagementPage'));
 const HRDashboard = lazy(() => import('@/features/hr/pages/HRDashboard'));
 const EmployeeDashboard = lazy(() => import('@/features/employee/pages/EmployeeDashboard'));
+const MyPayslipsPage = lazy(() => import('@/features/payroll/pages/MyPayslipsPage'));
+const MyReviewsPage = lazy(() => import('@/features/performance/pages/MyReviewsPage'));
+const MySurveysPage = lazy(() => import('@/features/survey/pages/MySurveysPage'));
 
 /**
  * WHAT: Dashboard redirect component
@@ -80,6 +85,16 @@ function App() {
         <Routes>
           {/* WHY: Public routes - no authentication required */}
           <Route path="/login" element={<LoginPage />} />
+
+          {/* WHY: Outside AppLayout - reachable with the restricted token issued
+           * to users who must change their password, nothing else is
+           */}
+          <Route path="/change-password" element={<ChangePasswordPage />} />
+
+          {/* WHY: Outside AppLayout - reachable with the MFA setup token issued
+           * to roles that must enrol in two-factor authentication
+           */}
+          <Route path="/mfa-setup" element={<MfaSetupPage />} />
           
           {/* WHY: Public home route - shows home page with role selection
            * Authenticated users are redirected to their dashboard
@@ -112,11 +127,11 @@ function App() {
               element={<DashboardRedirect />}
             />
 
-            {/* WHY: Admin routes - SUPER_ADMIN only */}
+            {/* WHY: Admin routes - only SUPER_ADMIN holds these permissions */}
             <Route
               path="/admin"
               element={
-                <RoleGuard allowedRoles={[UserRole.SUPER_ADMIN]}>
+                <RoleGuard requiredPermissions={[Permission.ANALYTICS_ADMIN]}>
                   <AdminDashboard />
                 </RoleGuard>
               }
@@ -125,17 +140,17 @@ function App() {
             <Route
               path="/admin/hr"
               element={
-                <RoleGuard allowedRoles={[UserRole.SUPER_ADMIN]}>
+                <RoleGuard requiredPermissions={[Permission.HR_MANAGE]}>
                   <HrManagementPage />
                 </RoleGuard>
               }
             />
 
-            {/* WHY: HR routes - HR and SUPER_ADMIN */}
+            {/* WHY: HR routes - employee management permission */}
             <Route
               path="/hr"
               element={
-                <RoleGuard allowedRoles={[UserRole.HR, UserRole.SUPER_ADMIN]}>
+                <RoleGuard requiredPermissions={[Permission.EMPLOYEE_READ]}>
                   <HRDashboard />
                 </RoleGuard>
               }
@@ -145,18 +160,38 @@ function App() {
             <Route
               path="/employee"
               element={
-                <RoleGuard
-                  allowedRoles={[
-                    UserRole.EMPLOYEE,
-                    UserRole.MANAGER,
-                    UserRole.HR,
-                    UserRole.SUPER_ADMIN,
-                  ]}
-                >
+                <RoleGuard requiredPermissions={[Permission.PROFILE_READ]}>
                   <EmployeeDashboard />
                 </RoleGuard>
               }
             />
+
+            <Route
+              path="/employee/payslips"
+              element={
+                <RoleGuard requiredPermissions={[Permission.PAYSLIP_READ]}>
+                  <MyPayslipsPage />
+                </RoleGuard>
+              }
+            />
+
+            <Route
+              path="/employee/reviews"
+              element={
+                <RoleGuard requiredPermissions={[Permission.PERFORMANCE_SELF]}>
+                  <MyReviewsPage />
+                </RoleGuard>
+              }
+            />
+
+            <Route
+              path="/employee/surveys"
+              element={
+                <RoleGuard requiredPermissions={[Permission.SURVEY_RESPOND]}>
+                  <MySurveysPage />
+                </RoleGuard>
+              }
+            />
           </Route>
 
           {/* WHY: Catch-all route - redirect to home */}
@@ -1,6 +1,11 @@
 import { configureStore } from '@reduxjs/toolkit';
 import authReducer from '@/features/auth/authSlice';
 import adminHrReducer from '@/features/admin/hr/adminHrSlice';
+import analyticsReducer from '@/features/analytics/analyticsSlice';
+import payrollReducer from '@/features/payroll/payrollSlice';
+import performanceReducer from '@/features/performance/performanceSlice';
+import surveyReducer from '@/features/survey/surveySlice';
+import notificationsReducer from '@/features/notifications/notificationsSlice';
 
 // WHY: configureStore sets up Redux store with good defaults:
 // - Redux DevTools integration
@@ -10,6 +15,11 @@ export const store = configureStore({
   reducer: {
     auth: authReducer,
     adminHr: adminHrReducer, // WHY: Add admin HR reducer for HR management
+    analytics: analyticsReducer, // WHY: Dashboard stats and chart data
+    payroll: payrollReducer, // WHY: Own payslips
+    performance: performanceReducer, // WHY: Own reviews and self-assessment
+    survey: surveyReducer, // WHY: Open surveys and own responses
+    notifications: notificationsReducer, // WHY: Header bell, kept live by the stream
     // Add feature reducers here
   },
   // WHY: Enable Redux DevTools in development for debugging
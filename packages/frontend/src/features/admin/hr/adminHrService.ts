@@ -12,6 +12,7 @@
  */
 
 import apiClient from '@/shared/utils/api';
+import { PAGINATION } from '@/shared/constants';
 import {
   CreateHrRequest,
   HrListResponse,
@@ -43,11 +44,13 @@ export async function createHrUser(
  * WHY: Retrieves list of all HR users for admin dashboard.
  * Used to populate HR management table.
  * 
- * HOW: GET request to /api/admin/hr
+ * HOW: GET request to /api/admin/hr. The table isn't paged, so it asks
+ * for the largest page the API allows.
  */
 export async function getHrUsers(): Promise<HrListResponse> {
   const response = await apiClient.get<{ success: boolean; data: HrListResponse }>(
     '/admin/hr',
+    { params: { limit: PAGINATION.MAX_LIMIT } },
   );
   return response.data.data;
 }
@@ -165,8 +165,8 @@ const adminHrSlice = createSlice({
       })
       .addCase(fetchHrUsers.fulfilled, (state, action) => {
         state.loading = false;
-        state.users = action.payload.users;
-        state.total = action.payload.total;
+        state.users = action.payload.items;
+        state.total = action.payload.pagination.total;
       })
       .addCase(fetchHrUsers.rejected, (state, action) => {
         state.loading = false;
@@ -7,6 +7,8 @@
  * HOW: Exports interfaces and types used in admin HR slice, service, and components
  */
 
+import { PaginatedResponse } from '@/shared/types';
+
 /**
  * WHAT: HR user interface from backend
  * 
@@ -39,17 +41,14 @@ export interface CreateHrRequest {
 }
 
 /**
- * WHAT: HR list response interface
+ * WHAT: HR list response type
  * 
  * WHY: Type-safe API response structure.
- * Matches backend HrListResponse interface.
+ * Matches the backend paginated envelope for GET /admin/hr.
  * 
  * HOW: Used in admin HR service and Redux slice
  */
-export interface HrListResponse {
-  users: HrUser[];
-  total: number;
-}
+export type HrListResponse = PaginatedResponse<HrUser>;
 
 /**
  * WHAT: Update HR status request interface
@@ -1,5 +1,8 @@
+import { useEffect } from "react";
 import styled from "styled-components";
 import { Link } from "react-router-dom";
+import { useDispatch, useSelector } from "react-redux";
+import { AppDispatch, RootState } from "@/app/store";
 import { PageContainer } from "@/shared/components/PageContainer";
 import { Card } from "@/shared/components/Card";
 import { ChartCard } from "@/shared/components/ChartCard";
@@ -15,6 +18,7 @@ import {
   LineChart,
   Line,
 } from "recharts";
+import { fetchAdminDashboard } from "@/features/analytics/analyticsSlice";
 
 /**
  * WHAT: Admin dashboard page
@@ -22,7 +26,8 @@ import {
  * WHY: Dashboard for SUPER_ADMIN role with analytics and charts.
  * Provides overview of system-wide metrics and employee data.
  *
- * HOW: Uses PageContainer, Cards, and Recharts for data visualization
+ * HOW: Loads /analytics/admin into the analytics slice on mount;
+ * PageContainer, Cards, and Recharts render it
  */
 
 const DashboardHeader = styled.div`
@@ -112,25 +117,25 @@ const ChartsGrid = styled.div`
   }
 `;
 
-// WHY: Dummy data for charts - will be replaced with real API data
-const employeeCountData = [
-  { department: "Engineering", employees: 45 },
-  { department: "HR", employees: 12 },
-  { department: "Sales", employees: 28 },
-  { department: "Marketing", employees: 18 },
-  { department: "Finance", employees: 15 },
-];
-
-const attendanceTrendData = [
-  { month: "Jan", present: 95, absent: 5 },
-  { month: "Feb", present: 92, absent: 8 },
-  { month: "Mar", present: 98, absent: 2 },
-  { month: "Apr", present: 94, absent: 6 },
-  { month: "May", present: 96, absent: 4 },
-  { month: "Jun", present: 97, absent: 3 },
-];
+const ErrorText = styled.p`
+  color: var(--color-error);
+  margin-bottom: var(--spacing-lg);
+`;
 
 export default function AdminDashboard() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { data, error } = useSelector(
+    (state: RootState) => state.analytics.admin,
+  );
+
+  useEffect(() => {
+    dispatch(fetchAdminDashboard());
+  }, [dispatch]);
+
+  // WHY: Placeholder until the first load finishes
+  const stat = (value: number | undefined, suffix = "") =>
+    value === undefined ? "-" : `${value.toLocaleString()}${suffix}`;
+
   return (
     <PageContainer>
       <DashboardHeader>
@@ -152,22 +157,24 @@ export default function AdminDashboard() {
         </QuickActionCard>
       </QuickActions>
 
+      {error && <ErrorText role="alert">{error}</ErrorText>}
+
       {/* WHY: Stats grid provides quick overview of key metrics */}
       <StatsGrid>
         <StatCard>
-          <StatValue>1,250</StatValue>
-          <StatLabel>Total Employees</StatLabel>
+          <StatValue>{stat(data?.stats.activeEmployees)}</StatValue>
+          <StatLabel>Active Employees</StatLabel>
         </StatCard>
         <StatCard>
-          <StatValue>98.5%</StatValue>
+          <StatValue>{stat(data?.stats.attendanceRate, "%")}</StatValue>
           <StatLabel>Attendance Rate</StatLabel>
         </StatCard>
         <StatCard>
-          <StatValue>45</StatValue>
+          <StatValue>{stat(data?.stats.activeDepartments)}</StatValue>
           <StatLabel>Active Departments</StatLabel>
         </StatCard>
         <StatCard>
-          <StatValue>12</StatValue>
+          <StatValue>{stat(data?.stats.pendingLeaves)}</StatValue>
           <StatLabel>Pending Leaves</StatLabel>
         </StatCard>
       </StatsGrid>
@@ -178,16 +185,16 @@ export default function AdminDashboard() {
       <ChartsGrid>
         <ChartCard
           title="Employees by Department"
-          description="Distribution of employees across different departments"
+          description="Active employees in each department"
         >
           <ResponsiveContainer width="100%" height="100%">
             <BarChart
-              data={employeeCountData}
+              data={data?.headcountByDepartment ?? []}
               aria-label="Employee count by department chart"
             >
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="department" />
-              <YAxis />
+              <YAxis allowDecimals={false} />
               <Tooltip />
               <Legend />
               <Bar
@@ -201,15 +208,15 @@ export default function AdminDashboard() {
 
         <ChartCard
           title="Attendance Trend"
-          description="Monthly attendance percentage over the last 6 months"
+          description="Monthly attendance percentage over the last 6 months (leave days excluded)"
         >
           <ResponsiveContainer width="100%" height="100%">
             <LineChart
-              data={attendanceTrendData}
+              data={data?.attendanceTrend ?? []}
               aria-label="Attendance trend chart"
             >
               <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="month" />
+              <XAxis dataKey="label" />
               <YAxis />
               <Tooltip />
               <Legend />
@@ -0,0 +1,50 @@
+/**
+ * WHAT: Analytics service - API calls
+ * 
+ * WHY: Service layer separates API logic from components and Redux.
+ * 
+ * HOW: Uses axios instance (apiClient) for HTTP requests
+ */
+
+import apiClient from '@/shared/utils/api';
+import {
+  AdminDashboardAnalytics,
+  HrDashboardAnalytics,
+  EmployeeDashboardAnalytics,
+} from './types';
+
+/**
+ * WHAT: Get admin dashboard analytics API call
+ * 
+ * HOW: GET request to /api/analytics/admin
+ */
+export async function getAdminDashboard(): Promise<AdminDashboardAnalytics> {
+  const response = await apiClient.get<{ success: boolean; data: AdminDashboardAnalytics }>(
+    '/analytics/admin',
+  );
+  return response.data.data;
+}
+
+/**
+ * WHAT: Get HR dashboard analytics API call
+ * 
+ * HOW: GET request to /api/analytics/hr
+ */
+export async function getHrDashboard(): Promise<HrDashboardAnalytics> {
+  const response = await apiClient.get<{ success: boolean; data: HrDashboardAnalytics }>(
+    '/analytics/hr',
+  );
+  return response.data.data;
+}
+
+/**
+ * WHAT: Get own dashboard analytics API call
+ * 
+ * HOW: GET request to /api/analytics/me
+ */
+export async function getMyDashboard(): Promise<EmployeeDashboardAnalytics> {
+  const response = await apiClient.get<{ success: boolean; data: EmployeeDashboardAnalytics }>(
+    '/analytics/me',
+  );
+  return response.data.data;
+}
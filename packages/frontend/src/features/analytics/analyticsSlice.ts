@@ -0,0 +1,112 @@
+/**
+ * WHAT: Redux Toolkit slice for dashboard analytics
+ * 
+ * WHY: Dashboards are revisited often; keeping the last result in the store
+ * shows it immediately on navigation while a fresh copy loads.
+ * 
+ * HOW: One async thunk per dashboard, each with its own loading/error state
+ */
+
+import { createSlice, createAsyncThunk, ActionReducerMapBuilder, AsyncThunk } from '@reduxjs/toolkit';
+import { AnalyticsState, DashboardState } from './types';
+import * as analyticsService from './analyticsService';
+import { clearAuthState } from '@/features/auth/authSlice';
+
+const emptyDashboard = { data: null, loading: false, error: null };
+
+const initialState: AnalyticsState = {
+  admin: emptyDashboard,
+  hr: emptyDashboard,
+  me: emptyDashboard,
+};
+
+/**
+ * WHAT: Async thunks for fetching dashboard analytics
+ * 
+ * HOW: Call the analytics API; the error message comes from the API envelope
+ */
+export const fetchAdminDashboard = createAsyncThunk(
+  'analytics/fetchAdminDashboard',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await analyticsService.getAdminDashboard();
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message || 'Failed to load dashboard',
+      );
+    }
+  },
+);
+
+export const fetchHrDashboard = createAsyncThunk(
+  'analytics/fetchHrDashboard',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await analyticsService.getHrDashboard();
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message || 'Failed to load dashboard',
+      );
+    }
+  },
+);
+
+export const fetchMyDashboard = createAsyncThunk(
+  'analytics/fetchMyDashboard',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await analyticsService.getMyDashboard();
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message || 'Failed to load dashboard',
+      );
+    }
+  },
+);
+
+/**
+ * WHAT: Register pending/fulfilled/rejected handlers for one dashboard
+ * 
+ * WHY: The three dashboards load identically; only the state key differs.
+ */
+function addDashboardCases<K extends keyof AnalyticsState>(
+  builder: ActionReducerMapBuilder<AnalyticsState>,
+  key: K,
+  thunk: AsyncThunk<NonNullable<AnalyticsState[K]['data']>, void, object>,
+) {
+  builder
+    .addCase(thunk.pending, (state) => {
+      const dashboard = state[key] as DashboardState<unknown>;
+      dashboard.loading = true;
+      dashboard.error = null;
+    })
+    .addCase(thunk.fulfilled, (state, action) => {
+      const dashboard = state[key] as DashboardState<unknown>;
+      dashboard.loading = false;
+      dashboard.data = action.payload;
+    })
+    .addCase(thunk.rejected, (state, action) => {
+      const dashboard = state[key] as DashboardState<unknown>;
+      dashboard.loading = false;
+      dashboard.error = action.payload as string;
+    });
+}
+
+/**
+ * WHAT: Analytics slice
+ */
+const analyticsSlice = createSlice({
+  name: 'analytics',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    addDashboardCases(builder, 'admin', fetchAdminDashboard);
+    addDashboardCases(builder, 'hr', fetchHrDashboard);
+    addDashboardCases(builder, 'me', fetchMyDashboard);
+
+    // WHY: Figures belong to the signed-in user - never show them to the next one
+    builder.addCase(clearAuthState, () => initialState);
+  },
+});
+
+export default analyticsSlice.reducer;
@@ -0,0 +1,149 @@
+/**
+ * WHAT: TypeScript types for Analytics feature
+ * 
+ * WHY: Centralized type definitions ensure type safety across dashboards.
+ * Types match backend /api/analytics responses and Redux state structure.
+ * 
+ * HOW: Exports interfaces used in analytics slice, service, and dashboard pages
+ */
+
+export interface HeadcountPoint {
+  department: string;
+  employees: number;
+}
+
+export interface AttendanceTrendPoint {
+  month: string; // WHY: YYYY-MM
+  label: string; // WHY: Short month name for the chart axis
+  present: number; // WHY: Percentage
+  absent: number; // WHY: Percentage
+}
+
+export interface LeaveStatusPoint {
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+  count: number;
+}
+
+export interface StageCount {
+  stage: 'APPLIED' | 'SCREENING' | 'INTERVIEW' | 'OFFER' | 'HIRED' | 'REJECTED';
+  count: number;
+}
+
+export interface DepartmentSatisfaction {
+  department: string;
+  respondentCount: number;
+  satisfaction: number | null;
+}
+
+/**
+ * WHAT: Latest closed survey with enough respondents
+ */
+export interface SatisfactionSummary {
+  surveyId: string;
+  title: string;
+  closedAt?: string;
+  satisfaction: number;
+  departments: DepartmentSatisfaction[];
+}
+
+export interface JoiningsPoint {
+  month: string;
+  label: string;
+  joinings: number;
+}
+
+export interface MonthlyHoursPoint {
+  month: string;
+  label: string;
+  hours: number;
+  target: number;
+}
+
+/**
+ * WHAT: Leave balance for one leave type
+ * 
+ * WHY: remaining is null for types without a quota (unpaid leave).
+ */
+export interface LeaveTypeBalance {
+  leaveType: string;
+  annualQuota: number;
+  credited: number;
+  used: number;
+  pending: number;
+  remaining: number | null;
+  available: number | null;
+}
+
+/**
+ * WHAT: Admin dashboard response (GET /analytics/admin)
+ */
+export interface AdminDashboardAnalytics {
+  stats: {
+    activeEmployees: number;
+    activeDepartments: number;
+    pendingLeaves: number;
+    attendanceRate: number;
+  };
+  headcountByDepartment: HeadcountPoint[];
+  attendanceTrend: AttendanceTrendPoint[];
+}
+
+/**
+ * WHAT: HR dashboard response (GET /analytics/hr)
+ */
+export interface HrDashboardAnalytics {
+  stats: {
+    activeEmployees: number;
+    pendingLeaves: number;
+    newJoiningsThisMonth: number;
+    onLeaveToday: number;
+    activeRecruitments: number;
+    employeeSatisfaction: number | null; // WHY: null until a survey has enough respondents
+  };
+  leaveYear: number;
+  leaveStatus: LeaveStatusPoint[];
+  joiningTrend: JoiningsPoint[];
+  recruitmentPipeline: StageCount[];
+  satisfaction: SatisfactionSummary | null;
+}
+
+/**
+ * WHAT: Employee dashboard response (GET /analytics/me)
+ * 
+ * WHY: team is only set for users who review their reports' leave.
+ */
+export interface EmployeeDashboardAnalytics {
+  stats: {
+    attendanceRate: number;
+    remainingLeaves: number;
+    pendingRequests: number;
+    performanceRating: number | null; // WHY: Latest finalised review; null before the first one
+  };
+  monthlyHours: MonthlyHoursPoint[];
+  leaveBalances: LeaveTypeBalance[];
+  team: {
+    members: number;
+    pendingApprovals: number;
+    onLeaveToday: number;
+  } | null;
+}
+
+/**
+ * WHAT: Load state of one dashboard
+ */
+export interface DashboardState<T> {
+  data: T | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * WHAT: Analytics state interface for Redux
+ * 
+ * WHY: Each dashboard loads on its own, so each has its own loading/error.
+ */
+export interface AnalyticsState {
+  admin: DashboardState<AdminDashboardAnalytics>;
+  hr: DashboardState<HrDashboardAnalytics>;
+  me: DashboardState<EmployeeDashboardAnalytics>;
+}
@@ -1,5 +1,14 @@
 import apiClient from '@/shared/utils/api';
-import { LoginRequest, LoginResponse, RefreshTokenResponse, User } from './types';
+import {
+  ChangePasswordRequest,
+  LoginRequest,
+  LoginResponse,
+  MfaChallengeResponse,
+  MfaEnableResponse,
+  MfaSetupResponse,
+  RefreshTokenResponse,
+  User,
+} from './types';
 
 /**
  * WHAT: Authentication service - API calls for authentication
@@ -18,12 +27,18 @@ import { LoginRequest, LoginResponse, RefreshTokenResponse, User } from './types
  * WHAT: Login API call
  * 
  * WHY: Authenticates user with email and password.
- * Returns tokens and user information for Redux state.
+ * Returns tokens and user information for Redux state, or an MFA
+ * challenge when the user has two-factor authentication enabled.
  * 
  * HOW: POST request to /api/auth/login
  */
-export async function login(credentials: LoginRequest): Promise<LoginResponse> {
-  const response = await apiClient.post<{ success: boolean; data: LoginResponse }>(
+export async function login(
+  credentials: LoginRequest,
+): Promise<LoginResponse | MfaChallengeResponse> {
+  const response = await apiClient.post<{
+    success: boolean;
+    data: LoginResponse | MfaChallengeResponse;
+  }>(
     '/auth/login',
     credentials,
   );
@@ -75,3 +90,67 @@ export async function logout(): Promise<void> {
   await apiClient.post('/auth/logout');
 }
 
+/**
+ * WHAT: Change password API call
+ * 
+ * WHY: Required after logging in with an admin-set password.
+ * Returns full tokens, same as login - the restricted token stops being used.
+ * 
+ * HOW: POST request to /api/auth/change-password (requires authentication)
+ */
+export async function changePassword(
+  payload: ChangePasswordRequest,
+): Promise<LoginResponse> {
+  const response = await apiClient.post<{ success: boolean; data: LoginResponse }>(
+    '/auth/change-password',
+    payload,
+  );
+  return response.data.data;
+}
+
+/**
+ * WHAT: MFA login step API call
+ * 
+ * WHY: Second login step - exchanges the MFA challenge token and a code
+ * (authenticator or backup) for real tokens.
+ * 
+ * HOW: POST request to /api/auth/login/mfa with the challenge token as bearer
+ */
+export async function verifyMfa(mfaToken: string, code: string): Promise<LoginResponse> {
+  const response = await apiClient.post<{ success: boolean; data: LoginResponse }>(
+    '/auth/login/mfa',
+    { code },
+    // WHY: The challenge token is never set as the default header - it isn't a session
+    { headers: { Authorization: `Bearer ${mfaToken}` } },
+  );
+  return response.data.data;
+}
+
+/**
+ * WHAT: Start MFA enrolment API call
+ * 
+ * WHY: Gets a new secret to add to an authenticator app.
+ * 
+ * HOW: POST request to /api/auth/mfa/setup (requires authentication)
+ */
+export async function startMfaSetup(): Promise<MfaSetupResponse> {
+  const response = await apiClient.post<{ success: boolean; data: MfaSetupResponse }>(
+    '/auth/mfa/setup',
+  );
+  return response.data.data;
+}
+
+/**
+ * WHAT: Enable MFA API call
+ * 
+ * WHY: Confirms the authenticator app works and turns MFA on.
+ * 
+ * HOW: POST request to /api/auth/mfa/enable (requires authentication)
+ */
+export async function enableMfa(code: string): Promise<MfaEnableResponse> {
+  const response = await apiClient.post<{ success: boolean; data: MfaEnableResponse }>(
+    '/auth/mfa/enable',
+    { code },
+  );
+  return response.data.data;
+}
@@ -1,5 +1,10 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
-import { AuthState, LoginRequest } from "./types";
+import {
+  AuthState,
+  ChangePasswordRequest,
+  LoginRequest,
+  User,
+} from "./types";
 import * as authService from "./authService";
 import apiClient from "@/shared/utils/api";
 
@@ -94,6 +99,8 @@ const initialState: AuthState = {
   isAuthenticated: false,
   user: null,
   accessToken: storedToken, // WHY: Restore token from localStorage on app load
+  mfaToken: null,
+  mfaSetup: null,
   loading: false,
   error: null,
 };
@@ -104,6 +111,32 @@ if (storedToken) {
   apiClient.defaults.headers.common["Authorization"] = `Bearer ${storedToken}`;
 }
 
+/**
+ * WHAT: Apply a finished login to state
+ *
+ * WHY: Login, the MFA code step, password change and MFA enrolment all end
+ * with a token for a user. Restricted tokens (password change, MFA setup)
+ * are not persisted - after a reload the user logs in again.
+ *
+ * HOW: Called from fulfilled reducers with the Immer draft
+ */
+function applyLogin(
+  state: AuthState,
+  payload: { accessToken: string; user: User },
+): void {
+  state.isAuthenticated = true;
+  state.user = payload.user;
+  state.accessToken = payload.accessToken;
+  state.mfaToken = null;
+  // WHY: Store token in localStorage for persistence across page refreshes
+  if (!payload.user.mustChangePassword && !payload.user.mfaSetupRequired) {
+    storeAccessToken(payload.accessToken);
+  }
+  // WHY: Set axios default header for all subsequent requests
+  apiClient.defaults.headers.common["Authorization"] =
+    `Bearer ${payload.accessToken}`;
+}
+
 /**
  * WHAT: Async thunk for user login
  *
@@ -118,6 +151,11 @@ export const loginUser = createAsyncThunk(
     try {
       const response = await authService.login(credentials);
 
+      // WHY: MFA users get a challenge instead of tokens - the code step finishes the login
+      if ("mfaRequired" in response) {
+        return response;
+      }
+
       // WHY: Store access token in memory (Redux state)
       // Refresh token is NOT stored here - it's handled separately (httpOnly cookie or secure storage)
       // Access token in memory is more secure than localStorage (XSS protection)
@@ -139,6 +177,108 @@ export const loginUser = createAsyncThunk(
   },
 );
 
+/**
+ * WHAT: Async thunk for the MFA login step
+ *
+ * WHY: Second login step for users with two-factor authentication.
+ * Uses the challenge token kept from the password step.
+ *
+ * HOW: Calls auth service, updates state like login
+ */
+export const verifyMfa = createAsyncThunk(
+  "auth/verifyMfa",
+  async (code: string, { rejectWithValue, getState }) => {
+    const { mfaToken } = (getState() as { auth: AuthState }).auth;
+    if (!mfaToken) {
+      return rejectWithValue("Your sign-in has expired. Please sign in again.");
+    }
+
+    try {
+      const response = await authService.verifyMfa(mfaToken, code);
+
+      return {
+        accessToken: response.accessToken,
+        user: response.user,
+      };
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message ||
+          "Verification failed. Please try again.",
+      );
+    }
+  },
+);
+
+/**
+ * WHAT: Async thunk for starting MFA enrolment
+ *
+ * WHY: Gets the secret the user adds to their authenticator app.
+ *
+ * HOW: Calls auth service, keeps the result in state until MFA is enabled
+ */
+export const startMfaSetup = createAsyncThunk(
+  "auth/startMfaSetup",
+  async (_, { rejectWithValue }) => {
+    try {
+      return await authService.startMfaSetup();
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message ||
+          "Could not start two-factor setup. Please try again.",
+      );
+    }
+  },
+);
+
+/**
+ * WHAT: Async thunk for enabling MFA
+ *
+ * WHY: Finishes enrolment. When the login was waiting for enrolment, the
+ * response carries full tokens that replace the MFA setup token.
+ *
+ * HOW: Calls auth service; backup codes are returned to the caller, not kept in state
+ */
+export const enableMfa = createAsyncThunk(
+  "auth/enableMfa",
+  async (code: string, { rejectWithValue }) => {
+    try {
+      return await authService.enableMfa(code);
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message ||
+          "Verification failed. Please try again.",
+      );
+    }
+  },
+);
+
+/**
+ * WHAT: Async thunk for changing password
+ *
+ * WHY: Completes a forced password change after first login.
+ * The response carries full tokens that replace the restricted one.
+ *
+ * HOW: Calls auth service, updates state like login
+ */
+export const changePassword = createAsyncThunk(
+  "auth/changePassword",
+  async (payload: ChangePasswordRequest, { rejectWithValue }) => {
+    try {
+      const response = await authService.changePassword(payload);
+
+      return {
+        accessToken: response.accessToken,
+        user: response.user,
+      };
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message ||
+          "Password change failed. Please try again.",
+      );
+    }
+  },
+);
+
 /**
  * WHAT: Async thunk for getting current user
  *
@@ -214,6 +354,8 @@ const authSlice = createSlice({
       state.isAuthenticated = false;
       state.user = null;
       state.accessToken = null;
+      state.mfaToken = null;
+      state.mfaSetup = null;
       state.error = null;
       // WHY: Remove token from localStorage on logout
       removeStoredAccessToken();
@@ -247,6 +389,18 @@ const authSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+
+    /**
+     * WHAT: Cancel MFA challenge
+     *
+     * WHY: Lets the user go back from the code step to the password step.
+     *
+     * HOW: Drops the challenge token
+     */
+    cancelMfaChallenge: (state) => {
+      state.mfaToken = null;
+      state.error = null;
+    },
   },
   extraReducers: (builder) => {
     // WHY: extraReducers handle async thunk actions
@@ -261,14 +415,12 @@ const authSlice = createSlice({
     // Login fulfilled
     builder.addCase(loginUser.fulfilled, (state, action) => {
       state.loading = false;
-      state.isAuthenticated = true;
-      state.user = action.payload.user;
-      state.accessToken = action.payload.accessToken;
-      // WHY: Store token in localStorage for persistence across page refreshes
-      storeAccessToken(action.payload.accessToken);
-      // WHY: Set axios default header for all subsequent requests
-      apiClient.defaults.headers.common["Authorization"] =
-        `Bearer ${action.payload.accessToken}`;
+      // WHY: Not authenticated yet - LoginForm switches to the code step
+      if ("mfaRequired" in action.payload) {
+        state.mfaToken = action.payload.mfaToken;
+        return;
+      }
+      applyLogin(state, action.payload);
     });
 
     // Login rejected
@@ -278,6 +430,81 @@ const authSlice = createSlice({
       state.error = action.payload as string;
     });
 
+    // MFA login step pending
+    builder.addCase(verifyMfa.pending, (state) => {
+      state.loading = true;
+      state.error = null;
+    });
+
+    // MFA login step fulfilled
+    builder.addCase(verifyMfa.fulfilled, (state, action) => {
+      state.loading = false;
+      applyLogin(state, action.payload);
+    });
+
+    // MFA login step rejected
+    builder.addCase(verifyMfa.rejected, (state, action) => {
+      state.loading = false;
+      state.error = action.payload as string;
+    });
+
+    // Start MFA setup pending
+    builder.addCase(startMfaSetup.pending, (state) => {
+      state.loading = true;
+      state.error = null;
+    });
+
+    // Start MFA setup fulfilled
+    builder.addCase(startMfaSetup.fulfilled, (state, action) => {
+      state.loading = false;
+      state.mfaSetup = action.payload;
+    });
+
+    // Start MFA setup rejected
+    builder.addCase(startMfaSetup.rejected, (state, action) => {
+      state.loading = false;
+      state.error = action.payload as string;
+    });
+
+    // Enable MFA pending
+    builder.addCase(enableMfa.pending, (state) => {
+      state.loading = true;
+      state.error = null;
+    });
+
+    // Enable MFA fulfilled
+    builder.addCase(enableMfa.fulfilled, (state, action) => {
+      state.loading = false;
+      state.mfaSetup = null;
+      if (action.payload.login) {
+        applyLogin(state, action.payload.login);
+      }
+    });
+
+    // Enable MFA rejected
+    builder.addCase(enableMfa.rejected, (state, action) => {
+      state.loading = false;
+      state.error = action.payload as string;
+    });
+
+    // Change password pending
+    builder.addCase(changePassword.pending, (state) => {
+      state.loading = true;
+      state.error = null;
+    });
+
+    // Change password fulfilled
+    builder.addCase(changePassword.fulfilled, (state, action) => {
+      state.loading = false;
+      applyLogin(state, action.payload);
+    });
+
+    // Change password rejected
+    builder.addCase(changePassword.rejected, (state, action) => {
+      state.loading = false;
+      state.error = action.payload as string;
+    });
+
     // Get current user pending
     builder.addCase(getCurrentUser.pending, (state) => {
       state.loading = true;
@@ -318,5 +545,6 @@ const authSlice = createSlice({
   },
 });
 
-export const { clearAuthState, setAccessToken, clearError } = authSlice.actions;
+export const { clearAuthState, setAccessToken, clearError, cancelMfaChallenge } =
+  authSlice.actions;
 export default authSlice.reducer;
@@ -0,0 +1,182 @@
+import { useState, FormEvent } from 'react';
+import { useAuth, useAuthActions } from '../hooks';
+import { LoadingSpinner } from '@/shared/components/LoadingSpinner';
+import './LoginForm.css';
+
+/**
+ * WHAT: Change password form component
+ *
+ * WHY: Accounts created by an admin start with a password the admin knows.
+ * The user must replace it before any dashboard is reachable.
+ *
+ * HOW: Controlled form with current/new/confirm inputs, reuses login form styles
+ */
+export function ChangePasswordForm() {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  const { loading, error: authError } = useAuth();
+  const { changePassword, logout, clearError } = useAuthActions();
+
+  /**
+   * WHAT: Handle form submission
+   *
+   * WHY: Checks the obvious mistakes before calling the API.
+   * Password strength rules are enforced by the backend.
+   *
+   * HOW: Validates inputs, calls changePassword hook
+   */
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLocalError(null);
+    clearError();
+
+    if (!currentPassword || !newPassword || !confirmPassword) {
+      setLocalError('Please fill in all fields');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setLocalError('New passwords do not match');
+      return;
+    }
+
+    if (newPassword === currentPassword) {
+      setLocalError('New password must be different from the current password');
+      return;
+    }
+
+    try {
+      await changePassword({ currentPassword, newPassword });
+    } catch (error) {
+      // WHY: Error handling is done in Redux, but catch for safety
+      setLocalError('Password change failed. Please try again.');
+    }
+  };
+
+  // WHY: Combine local and Redux errors for display
+  const displayError = localError || authError;
+
+  return (
+    <div className="login-container">
+      <form
+        onSubmit={handleSubmit}
+        className="login-form"
+        aria-label="Change password form"
+        noValidate
+      >
+        <h1>Change Password</h1>
+        <p className="login-subtitle">
+          Your password was set by an administrator. Choose a new one to continue.
+        </p>
+
+        {/* WHY: Error message with ARIA for accessibility */}
+        {displayError && (
+          <div
+            className="error-message"
+            role="alert"
+            aria-live="polite"
+            aria-atomic="true"
+          >
+            {displayError}
+            <button
+              type="button"
+              onClick={() => {
+                setLocalError(null);
+                clearError();
+              }}
+              className="error-dismiss"
+              aria-label="Dismiss error message"
+            >
+              ×
+            </button>
+          </div>
+        )}
+
+        <div className="form-group">
+          <label htmlFor="currentPassword" className="form-label">
+            Current Password
+          </label>
+          <input
+            id="currentPassword"
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            className="form-input"
+            required
+            autoComplete="current-password"
+            aria-required="true"
+            disabled={loading}
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="newPassword" className="form-label">
+            New Password
+          </label>
+          <input
+            id="newPassword"
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            className="form-input"
+            required
+            autoComplete="new-password"
+            aria-required="true"
+            aria-describedby="password-rules"
+            disabled={loading}
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="confirmPassword" className="form-label">
+            Confirm New Password
+          </label>
+          <input
+            id="confirmPassword"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className="form-input"
+            required
+            autoComplete="new-password"
+            aria-required="true"
+            disabled={loading}
+          />
+        </div>
+
+        <button
+          type="submit"
+          className="login-button"
+          disabled={loading}
+          aria-busy={loading}
+        >
+          {loading ? (
+            <>
+              <LoadingSpinner />
+              <span>Saving...</span>
+            </>
+          ) : (
+            'Change Password'
+          )}
+        </button>
+
+        <div className="login-footer">
+          <p id="password-rules" className="login-note">
+            At least 8 characters, with an uppercase letter, a lowercase letter,
+            a number and a special character.
+          </p>
+
+          {/* WHY: The restricted token can't be used for anything else - let the user leave */}
+          <div className="signup-link-container">
+            <button type="button" className="link-button" onClick={logout}>
+              Sign out
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -9,7 +9,8 @@ import './LoginForm.css';
  * WHY: Provides user interface for authentication.
  * Handles form submission, validation, and error display.
  * 
- * HOW: Form with email/password inputs, submits to auth service
+ * HOW: Form with email/password inputs, submits to auth service.
+ * Users with two-factor authentication get a second step for their code.
  */
 
 /**
@@ -23,10 +24,11 @@ import './LoginForm.css';
 export function LoginForm() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
   const [localError, setLocalError] = useState<string | null>(null);
 
-  const { loading, error: authError } = useAuth();
-  const { login, clearError } = useAuthActions();
+  const { loading, error: authError, mfaToken } = useAuth();
+  const { login, verifyMfa, cancelMfaChallenge, clearError } = useAuthActions();
 
   /**
    * WHAT: Handle form submission
@@ -63,9 +65,137 @@ export function LoginForm() {
     }
   };
 
+  /**
+   * WHAT: Handle code submission
+   * 
+   * WHY: Second login step - accepts an authenticator code or a backup code.
+   * 
+   * HOW: Calls verifyMfa hook; a wrong code keeps the user on this step
+   */
+  const handleCodeSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLocalError(null);
+    clearError();
+
+    const trimmedCode = code.replace(/\s/g, '');
+    if (trimmedCode.length < 6) {
+      setLocalError('Please enter the code from your authenticator app or a backup code');
+      return;
+    }
+
+    try {
+      await verifyMfa(trimmedCode);
+    } catch (error) {
+      // WHY: Error handling is done in Redux, but catch for safety
+      setLocalError('Verification failed. Please try again.');
+    }
+  };
+
+  // WHY: Back to the password step with a clean form
+  const handleBack = () => {
+    setCode('');
+    setPassword('');
+    setLocalError(null);
+    cancelMfaChallenge();
+  };
+
   // WHY: Combine local and Redux errors for display
   const displayError = localError || authError;
 
+  // WHY: Error message with ARIA for accessibility - shared by both steps
+  const errorMessage = displayError && (
+    <div
+      className="error-message"
+      role="alert"
+      aria-live="polite"
+      aria-atomic="true"
+    >
+      {displayError}
+      <button
+        type="button"
+        onClick={() => {
+          setLocalError(null);
+          clearError();
+        }}
+        className="error-dismiss"
+        aria-label="Dismiss error message"
+      >
+        ×
+      </button>
+    </div>
+  );
+
+  // WHY: Password accepted, second factor still missing
+  if (mfaToken) {
+    return (
+      <div className="login-container">
+        <form
+          onSubmit={handleCodeSubmit}
+          className="login-form"
+          aria-label="Two-factor authentication form"
+          noValidate
+        >
+          <h1>Two-Factor Authentication</h1>
+          <p className="login-subtitle">
+            Enter the 6-digit code from your authenticator app.
+          </p>
+
+          {errorMessage}
+
+          <div className="form-group">
+            <label htmlFor="mfaCode" className="form-label">
+              Authentication Code
+            </label>
+            <input
+              id="mfaCode"
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="form-input"
+              placeholder="123456"
+              required
+              autoFocus
+              autoComplete="one-time-code"
+              aria-required="true"
+              aria-invalid={displayError ? 'true' : 'false'}
+              aria-describedby="mfa-code-hint"
+              disabled={loading}
+            />
+          </div>
+
+          <button
+            type="submit"
+            className="login-button"
+            disabled={loading}
+            aria-busy={loading}
+          >
+            {loading ? (
+              <>
+                <LoadingSpinner />
+                <span>Verifying...</span>
+              </>
+            ) : (
+              'Verify'
+            )}
+          </button>
+
+          <div className="login-footer">
+            <p id="mfa-code-hint" className="login-note">
+              Lost your device? Enter one of your backup codes instead.
+              Each backup code works once.
+            </p>
+
+            <div className="signup-link-container">
+              <button type="button" className="link-button" onClick={handleBack}>
+                Back to sign in
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    );
+  }
+
   return (
     <div className="login-container">
       <form
@@ -77,28 +207,7 @@ export function LoginForm() {
         <h1>Employee HR Portal</h1>
         <p className="login-subtitle">Sign in to your account</p>
 
-        {/* WHY: Error message with ARIA for accessibility */}
-        {displayError && (
-          <div
-            className="error-message"
-            role="alert"
-            aria-live="polite"
-            aria-atomic="true"
-          >
-            {displayError}
-            <button
-              type="button"
-              onClick={() => {
-                setLocalError(null);
-                clearError();
-              }}
-              className="error-dismiss"
-              aria-label="Dismiss error message"
-            >
-              ×
-            </button>
-          </div>
-        )}
+        {errorMessage}
 
         {/* WHY: Email input with proper labels and types */}
         <div className="form-group">
@@ -0,0 +1,194 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { useAuth, useAuthActions } from '../hooks';
+import { LoadingSpinner } from '@/shared/components/LoadingSpinner';
+import './LoginForm.css';
+
+/**
+ * WHAT: MFA setup form component
+ *
+ * WHY: Enrols an authenticator app. Required before the first sign-in
+ * completes for roles that must use two-factor authentication.
+ *
+ * HOW: Starts enrolment on mount, shows the provisioning link and secret,
+ * confirms a code, then shows the backup codes once
+ */
+export function MfaSetupForm() {
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  const { user, loading, error: authError, mfaSetup } = useAuth();
+  const { startMfaSetup, enableMfa, continueAfterLogin, logout, clearError } =
+    useAuthActions();
+
+  // WHY: Each visit starts a fresh enrolment - an unfinished one is replaced
+  useEffect(() => {
+    if (!mfaSetup && !backupCodes) {
+      startMfaSetup();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [startMfaSetup]);
+
+  /**
+   * WHAT: Handle form submission
+   *
+   * WHY: The code proves the app holds the secret before MFA is turned on.
+   *
+   * HOW: Validates the code, calls enableMfa hook, keeps the backup codes for display
+   */
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLocalError(null);
+    clearError();
+
+    const trimmedCode = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(trimmedCode)) {
+      setLocalError('Please enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    try {
+      const codes = await enableMfa(trimmedCode);
+      if (codes) {
+        setBackupCodes(codes);
+      }
+    } catch (error) {
+      // WHY: Error handling is done in Redux, but catch for safety
+      setLocalError('Verification failed. Please try again.');
+    }
+  };
+
+  // WHY: Combine local and Redux errors for display
+  const displayError = localError || authError;
+
+  if (backupCodes) {
+    return (
+      <div className="login-container">
+        <div className="login-form">
+          <h1>Save Your Backup Codes</h1>
+          <p className="login-subtitle">
+            Two-factor authentication is on. If you lose your device, sign in
+            with one of these codes. Each code works once and they are not shown again.
+          </p>
+
+          <ul className="backup-codes" aria-label="Backup codes">
+            {backupCodes.map((backupCode) => (
+              <li key={backupCode}>{backupCode}</li>
+            ))}
+          </ul>
+
+          <button
+            type="button"
+            className="login-button"
+            onClick={() => user && continueAfterLogin(user)}
+          >
+            I have saved my codes
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="login-container">
+      <form
+        onSubmit={handleSubmit}
+        className="login-form"
+        aria-label="Two-factor authentication setup form"
+        noValidate
+      >
+        <h1>Set Up Two-Factor Authentication</h1>
+        <p className="login-subtitle">
+          {user?.mfaSetupRequired
+            ? 'Your role requires two-factor authentication. Set it up to continue.'
+            : 'Protect your account with an authenticator app.'}
+        </p>
+
+        {/* WHY: Error message with ARIA for accessibility */}
+        {displayError && (
+          <div
+            className="error-message"
+            role="alert"
+            aria-live="polite"
+            aria-atomic="true"
+          >
+            {displayError}
+            <button
+              type="button"
+              onClick={() => {
+                setLocalError(null);
+                clearError();
+              }}
+              className="error-dismiss"
+              aria-label="Dismiss error message"
+            >
+              ×
+            </button>
+          </div>
+        )}
+
+        {mfaSetup ? (
+          <>
+            <p className="login-note">
+              1. In your authenticator app, add an account with this key, or{' '}
+              <a href={mfaSetup.otpauthUri} className="signup-link">
+                open it in the app
+              </a>{' '}
+              on this device.
+            </p>
+            <code className="mfa-secret" aria-label="Setup key">
+              {mfaSetup.secret.match(/.{1,4}/g)?.join(' ')}
+            </code>
+
+            <div className="form-group">
+              <label htmlFor="mfaSetupCode" className="form-label">
+                2. Enter the 6-digit code it shows
+              </label>
+              <input
+                id="mfaSetupCode"
+                type="text"
+                inputMode="numeric"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="form-input"
+                placeholder="123456"
+                required
+                autoComplete="one-time-code"
+                aria-required="true"
+                aria-invalid={displayError ? 'true' : 'false'}
+                disabled={loading}
+              />
+            </div>
+
+            <button
+              type="submit"
+              className="login-button"
+              disabled={loading}
+              aria-busy={loading}
+            >
+              {loading ? (
+                <>
+                  <LoadingSpinner />
+                  <span>Verifying...</span>
+                </>
+              ) : (
+                'Enable Two-Factor Authentication'
+              )}
+            </button>
+          </>
+        ) : (
+          loading && <LoadingSpinner />
+        )}
+
+        <div className="login-footer">
+          {/* WHY: The MFA setup token can't be used for anything else - let the user leave */}
+          <div className="signup-link-container">
+            <button type="button" className="link-button" onClick={logout}>
+              Sign out
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
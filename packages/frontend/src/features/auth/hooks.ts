@@ -1,9 +1,20 @@
 import { useDispatch, useSelector } from 'react-redux';
 import { useNavigate } from 'react-router-dom';
 import { useCallback } from 'react';
-import { RootState } from '@/app/store';
-import { loginUser, logoutUser, getCurrentUser, clearError } from './authSlice';
-import { LoginRequest, UserRole } from './types';
+import { AppDispatch, RootState } from '@/app/store';
+import {
+  loginUser,
+  logoutUser,
+  getCurrentUser,
+  changePassword,
+  verifyMfa,
+  startMfaSetup,
+  enableMfa,
+  clearError,
+  cancelMfaChallenge,
+} from './authSlice';
+import { ChangePasswordRequest, LoginRequest, Permission, User, UserRole } from './types';
+import { hasPermissions } from './utils/permissions';
 
 /**
  * WHAT: Custom hooks for authentication
@@ -38,7 +49,8 @@ export function useAuth() {
  * HOW: Returns object with auth action functions
  */
 export function useAuthActions() {
-  const dispatch = useDispatch();
+  // WHY: Typed dispatch so thunk results can be matched with .fulfilled.match
+  const dispatch = useDispatch<AppDispatch>();
   const navigate = useNavigate();
 
   // WHY: useCallback prevents function recreation on every render
@@ -47,33 +59,98 @@ export function useAuthActions() {
     dispatch(getCurrentUser());
   }, [dispatch]);
 
+  // WHY: Role-based routing ensures users land on correct dashboard
+  // Different roles have different dashboards
+  const navigateToDashboard = useCallback(
+    (role: UserRole) => {
+      switch (role) {
+        case UserRole.SUPER_ADMIN:
+          navigate('/admin');
+          break;
+        case UserRole.HR:
+          navigate('/hr');
+          break;
+        case UserRole.EMPLOYEE:
+        case UserRole.MANAGER:
+          navigate('/employee');
+          break;
+        default:
+          navigate('/dashboard');
+      }
+    },
+    [navigate],
+  );
+
+  // WHY: Restricted tokens only work on their own page - send the user
+  // there before any dashboard is reachable
+  const navigateAfterLogin = useCallback(
+    (user: User) => {
+      if (user.mustChangePassword) {
+        navigate('/change-password');
+        return;
+      }
+
+      if (user.mfaSetupRequired) {
+        navigate('/mfa-setup');
+        return;
+      }
+
+      navigateToDashboard(user.role);
+    },
+    [navigate, navigateToDashboard],
+  );
+
   const handleLogin = useCallback(
     async (credentials: LoginRequest) => {
       const result = await dispatch(loginUser(credentials));
       
-      // WHY: Navigate based on role after successful login
-      // Different roles have different dashboards
-      if (loginUser.fulfilled.match(result)) {
-        const role = result.payload.user.role;
-        
-        // WHY: Role-based routing ensures users land on correct dashboard
-        switch (role) {
-          case UserRole.SUPER_ADMIN:
-            navigate('/admin');
-            break;
-          case UserRole.HR:
-            navigate('/hr');
-            break;
-          case UserRole.EMPLOYEE:
-          case UserRole.MANAGER:
-            navigate('/employee');
-            break;
-          default:
-            navigate('/dashboard');
-        }
+      // WHY: Navigate based on role after successful login.
+      // An MFA challenge stays on the login page for the code step.
+      if (loginUser.fulfilled.match(result) && !('mfaRequired' in result.payload)) {
+        navigateAfterLogin(result.payload.user);
+      }
+    },
+    [dispatch, navigateAfterLogin],
+  );
+
+  const handleVerifyMfa = useCallback(
+    async (code: string) => {
+      const result = await dispatch(verifyMfa(code));
+
+      if (verifyMfa.fulfilled.match(result)) {
+        navigateAfterLogin(result.payload.user);
       }
     },
-    [dispatch, navigate],
+    [dispatch, navigateAfterLogin],
+  );
+
+  const handleCancelMfaChallenge = useCallback(() => {
+    dispatch(cancelMfaChallenge());
+  }, [dispatch]);
+
+  const handleStartMfaSetup = useCallback(() => {
+    dispatch(startMfaSetup());
+  }, [dispatch]);
+
+  // WHY: Returns the backup codes - they are shown once and never kept in state
+  const handleEnableMfa = useCallback(
+    async (code: string): Promise<string[] | null> => {
+      const result = await dispatch(enableMfa(code));
+
+      return enableMfa.fulfilled.match(result) ? result.payload.backupCodes : null;
+    },
+    [dispatch],
+  );
+
+  const handleChangePassword = useCallback(
+    async (payload: ChangePasswordRequest) => {
+      const result = await dispatch(changePassword(payload));
+
+      if (changePassword.fulfilled.match(result)) {
+        navigateAfterLogin(result.payload.user);
+      }
+    },
+    [dispatch, navigateAfterLogin],
   );
 
   const handleLogout = useCallback(async () => {
@@ -106,6 +183,59 @@ export function useAuthActions() {
      */
     logout: handleLogout,
 
+    /**
+     * WHAT: Change password function
+     * 
+     * WHY: Completes a forced password change after first login.
+     * 
+     * HOW: Calls changePassword thunk, then navigates based on role
+     */
+    changePassword: handleChangePassword,
+
+    /**
+     * WHAT: MFA code login step
+     * 
+     * WHY: Finishes login for users with two-factor authentication.
+     * 
+     * HOW: Calls verifyMfa thunk, then navigates like login
+     */
+    verifyMfa: handleVerifyMfa,
+
+    /**
+     * WHAT: Cancel MFA code step
+     * 
+     * WHY: Back to the password step, e.g. to sign in as someone else.
+     * 
+     * HOW: Dispatches cancelMfaChallenge action
+     */
+    cancelMfaChallenge: handleCancelMfaChallenge,
+
+    /**
+     * WHAT: Start MFA enrolment
+     * 
+     * HOW: Calls startMfaSetup thunk; the secret lands in auth state
+     */
+    startMfaSetup: handleStartMfaSetup,
+
+    /**
+     * WHAT: Enable MFA
+     * 
+     * WHY: Confirms the authenticator app and turns MFA on.
+     * 
+     * HOW: Calls enableMfa thunk, resolves to the backup codes (null on failure)
+     */
+    enableMfa: handleEnableMfa,
+
+    /**
+     * WHAT: Continue after login
+     * 
+     * WHY: Lets a page that interrupted login (e.g. to show backup codes)
+     * send the user on once they are done.
+     * 
+     * HOW: Navigates to the next restricted step or the user's dashboard
+     */
+    continueAfterLogin: navigateAfterLogin,
+
     /**
      * WHAT: Get current user function
      * 
@@ -156,3 +286,15 @@ export function useHasAnyRole(roles: UserRole[]): boolean {
   return user ? roles.includes(user.role) : false;
 }
 
+/**
+ * WHAT: Hook to check if user has the specified permissions
+ * 
+ * WHY: Components check capabilities (e.g. leave:approve) instead of roles,
+ * so what a role can do is decided by the backend only.
+ * 
+ * HOW: Checks that every permission is in the user's permissions
+ */
+export function useHasPermissions(permissions: Permission[]): boolean {
+  const { user } = useAuth();
+  return hasPermissions(user, permissions);
+}
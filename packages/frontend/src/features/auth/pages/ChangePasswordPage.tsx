@@ -0,0 +1,22 @@
+import { Navigate } from 'react-router-dom';
+import { ChangePasswordForm } from '../components/ChangePasswordForm';
+import { useAuth } from '../hooks';
+
+/**
+ * WHAT: Change password page component
+ *
+ * WHY: Shown right after login while the account still has an
+ * admin-set password. Lives outside AppLayout, so no dashboard
+ * navigation is reachable until the password is changed.
+ *
+ * HOW: Redirects unauthenticated users to login, renders the form otherwise
+ */
+export default function ChangePasswordPage() {
+  const { isAuthenticated, user } = useAuth();
+
+  if (!isAuthenticated || !user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  return <ChangePasswordForm />;
+}
@@ -33,6 +33,14 @@ export default function LoginPage() {
 
   // WHY: If already authenticated, redirect immediately
   if (isAuthenticated && user) {
+    if (user.mustChangePassword) {
+      return <Navigate to="/change-password" replace />;
+    }
+
+    if (user.mfaSetupRequired) {
+      return <Navigate to="/mfa-setup" replace />;
+    }
+
     switch (user.role) {
       case UserRole.SUPER_ADMIN:
         return <Navigate to="/admin" replace />;
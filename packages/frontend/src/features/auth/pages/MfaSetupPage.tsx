@@ -0,0 +1,27 @@
+import { Navigate } from 'react-router-dom';
+import { MfaSetupForm } from '../components/MfaSetupForm';
+import { useAuth } from '../hooks';
+
+/**
+ * WHAT: MFA setup page component
+ *
+ * WHY: Shown right after login when the user's role requires two-factor
+ * authentication and none is enrolled. Lives outside AppLayout, so no
+ * dashboard navigation is reachable until enrolment is done.
+ *
+ * HOW: Redirects unauthenticated users to login, renders the form otherwise
+ */
+export default function MfaSetupPage() {
+  const { isAuthenticated, user } = useAuth();
+
+  if (!isAuthenticated || !user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  // WHY: The password change comes first - its token can't start enrolment
+  if (user.mustChangePassword) {
+    return <Navigate to="/change-password" replace />;
+  }
+
+  return <MfaSetupForm />;
+}
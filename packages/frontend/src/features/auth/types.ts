@@ -22,6 +22,46 @@ export enum UserRole {
   EMPLOYEE = "EMPLOYEE",
 }
 
+/**
+ * WHAT: Permissions enum matching backend
+ *
+ * WHY: Route guards and menus check what the user may do, not their role.
+ * The backend decides which roles grant which permissions and returns the
+ * effective list with the user, so role rules live in one place.
+ * Must match backend Permission enum exactly.
+ *
+ * HOW: Used in RoleGuard and navigation config
+ */
+export enum Permission {
+  PROFILE_READ = "profile:read",
+  EMPLOYEE_READ = "employee:read",
+  EMPLOYEE_MANAGE = "employee:manage",
+  SALARY_READ = "salary:read",
+  DEPARTMENT_READ = "department:read",
+  DEPARTMENT_MANAGE = "department:manage",
+  HOLIDAY_READ = "holiday:read",
+  HOLIDAY_MANAGE = "holiday:manage",
+  LEAVE_APPLY = "leave:apply",
+  LEAVE_APPROVE = "leave:approve",
+  LEAVE_MANAGE = "leave:manage",
+  ATTENDANCE_RECORD = "attendance:record",
+  ATTENDANCE_READ = "attendance:read",
+  ORG_READ = "org:read",
+  ANALYTICS_READ = "analytics:read",
+  ANALYTICS_ADMIN = "analytics:admin",
+  PAYROLL_MANAGE = "payroll:manage",
+  PAYSLIP_READ = "payslip:read",
+  PERFORMANCE_SELF = "performance:self",
+  PERFORMANCE_REVIEW = "performance:review",
+  PERFORMANCE_MANAGE = "performance:manage",
+  RECRUITMENT_MANAGE = "recruitment:manage",
+  SURVEY_RESPOND = "survey:respond",
+  SURVEY_MANAGE = "survey:manage",
+  HR_MANAGE = "hr:manage",
+  AUDIT_READ = "audit:read",
+  ACCOUNT_UNLOCK = "account:unlock",
+}
+
 /**
  * WHAT: User interface from backend
  *
@@ -34,6 +74,9 @@ export interface User {
   id: string;
   email: string;
   role: UserRole;
+  permissions: Permission[]; // WHY: Effective permissions from login and /auth/me
+  mustChangePassword?: boolean; // WHY: Set on admin-created accounts until the first password change
+  mfaSetupRequired?: boolean; // WHY: Role requires MFA and none is enrolled - set up before continuing
   isActive?: boolean;
   createdAt?: string;
   updatedAt?: string;
@@ -57,15 +100,68 @@ export interface LoginRequest {
  *
  * WHY: Type-safe API response structure.
  * Matches backend LoginResponse interface.
+ * When user.mustChangePassword is set, accessToken only works for
+ * /auth/change-password and there is no refreshToken. When
+ * user.mfaSetupRequired is set, it only works for MFA enrolment.
  *
  * HOW: Used in auth service and Redux slice
  */
 export interface LoginResponse {
   accessToken: string;
-  refreshToken: string;
+  refreshToken?: string;
   user: User;
 }
 
+/**
+ * WHAT: Login response when MFA is enabled
+ *
+ * WHY: The password was right, but the second factor is still missing.
+ * mfaToken is only accepted by /auth/login/mfa, for a few minutes.
+ *
+ * HOW: Returned by login instead of LoginResponse
+ */
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+/**
+ * WHAT: MFA enrolment details from backend
+ *
+ * WHY: otpauthUri is what authenticator apps import; secret is for typing in by hand.
+ *
+ * HOW: Used on the MFA setup page
+ */
+export interface MfaSetupResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * WHAT: Result of enabling MFA
+ *
+ * WHY: Backup codes are shown once and never again. login is set when
+ * enrolment finished a login that was waiting for it.
+ *
+ * HOW: Used in auth service and Redux slice
+ */
+export interface MfaEnableResponse {
+  backupCodes: string[];
+  login?: LoginResponse;
+}
+
+/**
+ * WHAT: Change password request payload
+ *
+ * WHY: Type-safe change password form data.
+ *
+ * HOW: Used in change password form and auth service
+ */
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
 /**
  * WHAT: Auth state interface for Redux
  *
@@ -78,6 +174,8 @@ export interface AuthState {
   isAuthenticated: boolean;
   user: User | null;
   accessToken: string | null;
+  mfaToken: string | null; // WHY: Set between the password and code login steps
+  mfaSetup: MfaSetupResponse | null; // WHY: Enrolment in progress
   loading: boolean;
   error: string | null;
 }
@@ -86,10 +184,12 @@ export interface AuthState {
  * WHAT: Refresh token response
  *
  * WHY: Type-safe refresh token API response.
- * Used when refreshing access token.
+ * Used when refreshing access token. The refresh token is rotated on
+ * every refresh - the new one must replace the one that was sent.
  *
  * HOW: Used in auth service
  */
 export interface RefreshTokenResponse {
   accessToken: string;
+  refreshToken: string;
 }
@@ -0,0 +1,29 @@
+import { Permission, User } from '../types';
+
+/**
+ * WHAT: Permission check utilities
+ * 
+ * WHY: Route guards, menus and components all ask the same question -
+ * "does this user have these permissions?" - so the answer is computed
+ * in one place.
+ * 
+ * HOW: Pure functions over the permissions returned by the backend
+ */
+
+/**
+ * WHAT: Check that a user has every required permission
+ * 
+ * WHY: No required permissions means any authenticated user.
+ * 
+ * HOW: Returns false when there is no user
+ */
+export function hasPermissions(
+  user: Pick<User, 'permissions'> | null,
+  required: Permission[] = [],
+): boolean {
+  if (!user) {
+    return false;
+  }
+  const granted = user.permissions ?? [];
+  return required.every((permission) => granted.includes(permission));
+}
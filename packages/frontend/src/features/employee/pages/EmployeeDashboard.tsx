@@ -1,17 +1,22 @@
+import { useEffect } from 'react';
 import styled from 'styled-components';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '@/app/store';
 import { PageContainer } from '@/shared/components/PageContainer';
 import { Card } from '@/shared/components/Card';
 import { ChartCard } from '@/shared/components/ChartCard';
 import { useAuth } from '@/features/auth/hooks';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area } from 'recharts';
+import { fetchMyDashboard } from '@/features/analytics/analyticsSlice';
 
 /**
  * WHAT: Employee dashboard page
  * 
  * WHY: Dashboard for EMPLOYEE role with personal analytics.
- * Provides insights into attendance, leaves, and performance.
+ * Provides insights into attendance and leaves; managers also see their team.
  * 
- * HOW: Uses PageContainer, Cards, and Recharts for employee data visualization
+ * HOW: Loads /analytics/me into the analytics slice on mount;
+ * PageContainer, Cards, and Recharts render it
  */
 
 const DashboardHeader = styled.div`
@@ -65,24 +70,43 @@ const ChartsGrid = styled.div`
   }
 `;
 
-// WHY: Dummy data for employee charts - will be replaced with real API data
-const monthlyAttendanceData = [
-  { month: 'Jan', hours: 160, target: 160 },
-  { month: 'Feb', hours: 155, target: 160 },
-  { month: 'Mar', hours: 162, target: 160 },
-  { month: 'Apr', hours: 158, target: 160 },
-  { month: 'May', hours: 160, target: 160 },
-  { month: 'Jun', hours: 161, target: 160 },
-];
-
-const leaveBalanceData = [
-  { type: 'Sick Leave', used: 2, remaining: 8 },
-  { type: 'Casual Leave', used: 5, remaining: 7 },
-  { type: 'Earned Leave', used: 10, remaining: 10 },
-];
+const ErrorText = styled.p`
+  color: var(--color-error);
+  margin-bottom: var(--spacing-lg);
+`;
+
+/**
+ * WHAT: Readable leave type name (SICK_LEAVE -> Sick Leave)
+ */
+function toLeaveTypeLabel(leaveType: string): string {
+  return leaveType
+    .split('_')
+    .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(' ');
+}
 
 export default function EmployeeDashboard() {
   const { user } = useAuth();
+  const dispatch = useDispatch<AppDispatch>();
+  const { data, error } = useSelector((state: RootState) => state.analytics.me);
+
+  useEffect(() => {
+    dispatch(fetchMyDashboard());
+  }, [dispatch]);
+
+  // WHY: Placeholder until the first load finishes, or while there is no
+  // finalised performance review yet (null rating)
+  const stat = (value: number | null | undefined, suffix = '') =>
+    value === undefined || value === null ? '-' : `${value.toLocaleString()}${suffix}`;
+
+  // WHY: Types without a quota (unpaid leave) have no remaining balance to chart
+  const leaveBalanceData = (data?.leaveBalances ?? [])
+    .filter((balance) => balance.remaining !== null)
+    .map((balance) => ({
+      type: toLeaveTypeLabel(balance.leaveType),
+      used: balance.used,
+      remaining: balance.remaining,
+    }));
 
   return (
     <PageContainer>
@@ -93,30 +117,49 @@ export default function EmployeeDashboard() {
         </WelcomeText>
       </DashboardHeader>
 
+      {error && <ErrorText role="alert">{error}</ErrorText>}
+
       {/* WHY: Employee-specific stats for personal overview */}
       <StatsGrid>
         <StatCard>
-          <StatValue>98%</StatValue>
-          <StatLabel>Attendance</StatLabel>
+          <StatValue>{stat(data?.stats.attendanceRate, '%')}</StatValue>
+          <StatLabel>Attendance This Month</StatLabel>
         </StatCard>
         <StatCard>
-          <StatValue>25</StatValue>
+          <StatValue>{stat(data?.stats.remainingLeaves)}</StatValue>
           <StatLabel>Remaining Leaves</StatLabel>
         </StatCard>
         <StatCard>
-          <StatValue>4.8</StatValue>
-          <StatLabel>Performance Rating</StatLabel>
+          <StatValue>{stat(data?.stats.pendingRequests)}</StatValue>
+          <StatLabel>Pending Requests</StatLabel>
         </StatCard>
         <StatCard>
-          <StatValue>2</StatValue>
-          <StatLabel>Pending Requests</StatLabel>
+          <StatValue>{stat(data?.stats.performanceRating, ' / 5')}</StatValue>
+          <StatLabel>Performance Rating</StatLabel>
         </StatCard>
       </StatsGrid>
 
+      {/* WHY: Managers see their direct reports at a glance */}
+      {data?.team && (
+        <StatsGrid>
+          <StatCard>
+            <StatValue>{stat(data.team.members)}</StatValue>
+            <StatLabel>Team Members</StatLabel>
+          </StatCard>
+          <StatCard>
+            <StatValue>{stat(data.team.pendingApprovals)}</StatValue>
+            <StatLabel>Leave Awaiting Approval</StatLabel>
+          </StatCard>
+          <StatCard>
+            <StatValue>{stat(data.team.onLeaveToday)}</StatValue>
+            <StatLabel>Team On Leave Today</StatLabel>
+          </StatCard>
+        </StatsGrid>
+      )}
+
       {/* WHY: Employee charts provide insights into:
        * - Personal attendance trends
        * - Leave balance
-       * - Performance metrics
        */}
       <ChartsGrid>
         <ChartCard
@@ -125,11 +168,11 @@ export default function EmployeeDashboard() {
         >
           <ResponsiveContainer width="100%" height="100%">
             <AreaChart
-              data={monthlyAttendanceData}
+              data={data?.monthlyHours ?? []}
               aria-label="Monthly attendance chart"
             >
               <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="month" />
+              <XAxis dataKey="label" />
               <YAxis />
               <Tooltip />
               <Legend />
@@ -155,7 +198,7 @@ export default function EmployeeDashboard() {
 
         <ChartCard
           title="Leave Balance"
-          description="Your leave balance by type"
+          description="Your leave balance by type this year"
         >
           <ResponsiveContainer width="100%" height="100%">
             <LineChart
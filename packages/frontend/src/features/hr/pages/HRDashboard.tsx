@@ -1,16 +1,23 @@
+import { useEffect } from 'react';
 import styled from 'styled-components';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '@/app/store';
 import { PageContainer } from '@/shared/components/PageContainer';
 import { Card } from '@/shared/components/Card';
 import { ChartCard } from '@/shared/components/ChartCard';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
+import { fetchHrDashboard } from '@/features/analytics/analyticsSlice';
+import { LeaveStatusPoint, StageCount } from '@/features/analytics/types';
 
 /**
  * WHAT: HR dashboard page
  * 
  * WHY: Dashboard for HR role with HR-specific analytics.
- * Provides insights into employee management, leaves, and recruitment.
+ * Provides insights into employee management, leaves, joinings, recruitment
+ * and employee satisfaction.
  * 
- * HOW: Uses PageContainer, Cards, and Recharts for HR data visualization
+ * HOW: Loads /analytics/hr into the analytics slice on mount;
+ * PageContainer, Cards, and Recharts render it
  */
 
 const DashboardHeader = styled.div`
@@ -64,23 +71,61 @@ const ChartsGrid = styled.div`
   }
 `;
 
-// WHY: Dummy data for HR charts - will be replaced with real API data
-const leaveStatusData = [
-  { status: 'Approved', count: 45 },
-  { status: 'Pending', count: 12 },
-  { status: 'Rejected', count: 3 },
-];
+const ErrorText = styled.p`
+  color: var(--color-error);
+  margin-bottom: var(--spacing-lg);
+`;
 
-const recruitmentData = [
-  { position: 'Developer', applicants: 25, hired: 5 },
-  { position: 'Designer', applicants: 18, hired: 3 },
-  { position: 'Manager', applicants: 12, hired: 2 },
-  { position: 'Analyst', applicants: 20, hired: 4 },
-];
+// WHY: Each status keeps its colour whatever the counts are
+const LEAVE_STATUS_DISPLAY: Record<LeaveStatusPoint['status'], { label: string; color: string }> = {
+  PENDING: { label: 'Pending', color: 'var(--color-warning)' },
+  APPROVED: { label: 'Approved', color: 'var(--color-success)' },
+  REJECTED: { label: 'Rejected', color: 'var(--color-error)' },
+  CANCELLED: { label: 'Cancelled', color: 'var(--color-text-secondary)' },
+};
 
-const COLORS = ['var(--color-success)', 'var(--color-warning)', 'var(--color-error)'];
+const STAGE_LABELS: Record<StageCount['stage'], string> = {
+  APPLIED: 'Applied',
+  SCREENING: 'Screening',
+  INTERVIEW: 'Interview',
+  OFFER: 'Offer',
+  HIRED: 'Hired',
+  REJECTED: 'Rejected',
+};
 
 export default function HRDashboard() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { data, error } = useSelector((state: RootState) => state.analytics.hr);
+
+  useEffect(() => {
+    dispatch(fetchHrDashboard());
+  }, [dispatch]);
+
+  // WHY: Placeholder until the first load finishes
+  const stat = (value: number | undefined) => (value === undefined ? '-' : value.toLocaleString());
+
+  // WHY: Empty slices would only add overlapping zero labels
+  const leaveStatusData = (data?.leaveStatus ?? [])
+    .filter((point) => point.count > 0)
+    .map((point) => ({ ...point, ...LEAVE_STATUS_DISPLAY[point.status] }));
+
+  const pipelineData = (data?.recruitmentPipeline ?? []).map((point) => ({
+    ...point,
+    label: STAGE_LABELS[point.stage],
+  }));
+
+  // WHY: Departments too small to report stay hidden on the backend;
+  // ones without Likert answers have nothing to plot
+  const satisfactionData = (data?.satisfaction?.departments ?? []).filter(
+    (point) => point.satisfaction !== null,
+  );
+
+  const satisfactionStat = () => {
+    if (!data) return '-';
+    const value = data.stats.employeeSatisfaction;
+    return value === null ? 'N/A' : `${value}%`;
+  };
+
   return (
     <PageContainer>
       <DashboardHeader>
@@ -90,35 +135,46 @@ export default function HRDashboard() {
         </DashboardSubtitle>
       </DashboardHeader>
 
+      {error && <ErrorText role="alert">{error}</ErrorText>}
+
       {/* WHY: HR-specific stats for quick overview */}
       <StatsGrid>
         <StatCard>
-          <StatValue>60</StatValue>
+          <StatValue>{stat(data?.stats.pendingLeaves)}</StatValue>
           <StatLabel>Pending Leaves</StatLabel>
         </StatCard>
         <StatCard>
-          <StatValue>15</StatValue>
-          <StatLabel>Active Recruitments</StatLabel>
+          <StatValue>{stat(data?.stats.onLeaveToday)}</StatValue>
+          <StatLabel>On Leave Today</StatLabel>
         </StatCard>
         <StatCard>
-          <StatValue>8</StatValue>
+          <StatValue>{stat(data?.stats.newJoiningsThisMonth)}</StatValue>
           <StatLabel>New Joinings This Month</StatLabel>
         </StatCard>
         <StatCard>
-          <StatValue>95%</StatValue>
+          <StatValue>{stat(data?.stats.activeEmployees)}</StatValue>
+          <StatLabel>Active Employees</StatLabel>
+        </StatCard>
+        <StatCard>
+          <StatValue>{stat(data?.stats.activeRecruitments)}</StatValue>
+          <StatLabel>Active Recruitments</StatLabel>
+        </StatCard>
+        <StatCard>
+          <StatValue>{satisfactionStat()}</StatValue>
           <StatLabel>Employee Satisfaction</StatLabel>
         </StatCard>
       </StatsGrid>
 
       {/* WHY: HR charts provide insights into:
        * - Leave management trends
-       * - Recruitment pipeline
-       * - Employee distribution
+       * - Hiring over time
+       * - Where candidates of open requisitions stand
+       * - Satisfaction per department in the latest survey
        */}
       <ChartsGrid>
         <ChartCard
           title="Leave Status Distribution"
-          description="Current status of leave requests"
+          description={`Leave requests starting in ${data?.leaveYear ?? 'this year'}`}
         >
           <ResponsiveContainer width="100%" height="100%">
             <PieChart aria-label="Leave status distribution chart">
@@ -127,13 +183,14 @@ export default function HRDashboard() {
                 cx="50%"
                 cy="50%"
                 labelLine={false}
-                label={({ status, percent }) => `${status}: ${(percent * 100).toFixed(0)}%`}
+                label={({ label, percent }) => `${label}: ${(percent * 100).toFixed(0)}%`}
                 outerRadius={80}
                 fill="#8884d8"
                 dataKey="count"
+                nameKey="label"
               >
-                {leaveStatusData.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                {leaveStatusData.map((entry) => (
+                  <Cell key={entry.status} fill={entry.color} />
                 ))}
               </Pie>
               <Tooltip />
@@ -143,21 +200,56 @@ export default function HRDashboard() {
         </ChartCard>
 
         <ChartCard
-          title="Recruitment Pipeline"
-          description="Applicants and hires by position"
+          title="New Joinings"
+          description="Employees joining per month over the last 6 months"
         >
           <ResponsiveContainer width="100%" height="100%">
             <BarChart
-              data={recruitmentData}
-              aria-label="Recruitment pipeline chart"
+              data={data?.joiningTrend ?? []}
+              aria-label="New joinings chart"
             >
               <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="position" />
-              <YAxis />
+              <XAxis dataKey="label" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="joinings" fill="var(--color-success)" name="Joinings" />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        <ChartCard
+          title="Recruitment Pipeline"
+          description="Candidates at each stage of open requisitions"
+        >
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={pipelineData} aria-label="Recruitment pipeline chart">
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="count" fill="var(--color-primary)" name="Candidates" />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        <ChartCard
+          title="Satisfaction by Department"
+          description={
+            data?.satisfaction
+              ? `Favourable answers in "${data.satisfaction.title}"`
+              : 'No closed survey with enough respondents yet'
+          }
+        >
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={satisfactionData} aria-label="Satisfaction by department chart">
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="department" />
+              <YAxis domain={[0, 100]} unit="%" />
               <Tooltip />
               <Legend />
-              <Bar dataKey="applicants" fill="var(--color-info)" name="Applicants" />
-              <Bar dataKey="hired" fill="var(--color-success)" name="Hired" />
+              <Bar dataKey="satisfaction" fill="var(--color-success)" name="Satisfaction (%)" />
             </BarChart>
           </ResponsiveContainer>
         </ChartCard>
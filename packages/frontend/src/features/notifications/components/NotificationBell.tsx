@@ -0,0 +1,259 @@
+import { useEffect, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '@/app/store';
+import { Button } from '@/shared/components/Button';
+import { useNotificationStream } from '../hooks';
+import {
+  fetchNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from '../notificationsSlice';
+import {
+  AccountNotificationPayload,
+  LeaveNotificationPayload,
+  Notification,
+  NotificationType,
+} from '../types';
+
+/**
+ * WHAT: Notification bell component
+ *
+ * WHY: Tells users the moment something happens to them - their leave
+ * decided, a report's leave waiting for review.
+ *
+ * HOW: Unread badge kept live by the notification stream; the panel
+ * loads the latest notifications when opened
+ */
+
+const BellContainer = styled.div`
+  position: relative;
+`;
+
+const BellButton = styled.button`
+  position: relative;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  width: 40px;
+  height: 40px;
+  border: none;
+  border-radius: var(--radius-full);
+  background: transparent;
+  font-size: var(--font-size-xl);
+  cursor: pointer;
+
+  &:hover {
+    background: var(--color-bg-secondary);
+  }
+`;
+
+const Badge = styled.span`
+  position: absolute;
+  top: 2px;
+  right: 2px;
+  min-width: 18px;
+  height: 18px;
+  padding: 0 4px;
+  border-radius: var(--radius-full);
+  background: var(--color-error);
+  color: white;
+  font-size: var(--font-size-xs);
+  font-weight: var(--font-weight-bold);
+  line-height: 18px;
+  text-align: center;
+`;
+
+const Panel = styled.div`
+  position: absolute;
+  top: calc(100% + var(--spacing-xs));
+  right: 0;
+  width: 360px;
+  max-height: 480px;
+  overflow-y: auto;
+  background: var(--color-surface);
+  border: 1px solid var(--color-border);
+  border-radius: var(--radius-md);
+  box-shadow: var(--shadow-lg);
+  z-index: var(--z-dropdown);
+
+  @media (max-width: 768px) {
+    width: calc(100vw - 2 * var(--spacing-lg));
+  }
+`;
+
+const PanelHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: var(--spacing-sm) var(--spacing-md);
+  border-bottom: 1px solid var(--color-border);
+  font-weight: var(--font-weight-semibold);
+  color: var(--color-text);
+`;
+
+const List = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+`;
+
+const Item = styled.li<{ $unread: boolean }>`
+  padding: var(--spacing-sm) var(--spacing-md);
+  border-bottom: 1px solid var(--color-border);
+  background: ${({ $unread }) => ($unread ? 'var(--color-bg-secondary)' : 'transparent')};
+  font-weight: ${({ $unread }) =>
+    $unread ? 'var(--font-weight-medium)' : 'var(--font-weight-normal)'};
+  cursor: ${({ $unread }) => ($unread ? 'pointer' : 'default')};
+  font-size: var(--font-size-sm);
+  color: var(--color-text);
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+const ItemTime = styled.div`
+  margin-top: var(--spacing-xs);
+  font-size: var(--font-size-xs);
+  color: var(--color-text-secondary);
+`;
+
+const Empty = styled.p`
+  margin: 0;
+  padding: var(--spacing-lg);
+  text-align: center;
+  color: var(--color-text-secondary);
+  font-size: var(--font-size-sm);
+`;
+
+const ErrorText = styled.p`
+  margin: 0;
+  padding: var(--spacing-sm) var(--spacing-md);
+  color: var(--color-error);
+  font-size: var(--font-size-sm);
+`;
+
+// WHY: Leave dates are calendar days - UTC so they never shift
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+/**
+ * WHAT: Readable leave type name (SICK_LEAVE -> sick leave)
+ */
+const toLeaveTypeLabel = (leaveType: string) => leaveType.replace(/_/g, ' ').toLowerCase();
+
+/**
+ * WHAT: Notification text
+ *
+ * WHY: The backend sends the event's details, not wording.
+ */
+function describeNotification(notification: Notification): string {
+  switch (notification.type) {
+    case NotificationType.LEAVE_SUBMITTED: {
+      const leave = notification.payload as unknown as LeaveNotificationPayload;
+      return `${leave.employeeName} requested ${leave.numberOfDays} day(s) of ${toLeaveTypeLabel(leave.leaveType)} from ${formatDate(leave.startDate)}`;
+    }
+    case NotificationType.LEAVE_APPROVED: {
+      const leave = notification.payload as unknown as LeaveNotificationPayload;
+      return `Your ${toLeaveTypeLabel(leave.leaveType)} from ${formatDate(leave.startDate)} to ${formatDate(leave.endDate)} was approved`;
+    }
+    case NotificationType.LEAVE_REJECTED: {
+      const leave = notification.payload as unknown as LeaveNotificationPayload;
+      const reason = leave.rejectionReason ? `: ${leave.rejectionReason}` : '';
+      return `Your ${toLeaveTypeLabel(leave.leaveType)} from ${formatDate(leave.startDate)} was rejected${reason}`;
+    }
+    case NotificationType.ACCOUNT_CREATED: {
+      const account = notification.payload as unknown as AccountNotificationPayload;
+      return `${account.role} account created for ${account.email}`;
+    }
+    case NotificationType.ACCOUNT_DEACTIVATED: {
+      const account = notification.payload as unknown as AccountNotificationPayload;
+      return `${account.employeeName ?? account.email}'s account was deactivated`;
+    }
+    default:
+      return 'New notification';
+  }
+}
+
+export function NotificationBell() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { notifications, unreadCount, loading, error } = useSelector(
+    (state: RootState) => state.notifications,
+  );
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useNotificationStream();
+
+  // WHY: Reload on every open - the list may have changed in another tab
+  useEffect(() => {
+    if (open) {
+      dispatch(fetchNotifications());
+    }
+  }, [dispatch, open]);
+
+  // WHY: Clicking anywhere else closes the panel
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  return (
+    <BellContainer ref={containerRef}>
+      <BellButton
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-label={`Notifications, ${unreadCount} unread`}
+        aria-expanded={open}
+        aria-haspopup="true"
+      >
+        🔔
+        {unreadCount > 0 && <Badge>{unreadCount > 99 ? '99+' : unreadCount}</Badge>}
+      </BellButton>
+
+      {open && (
+        <Panel role="dialog" aria-label="Notifications">
+          <PanelHeader>
+            <span>Notifications</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => dispatch(markAllNotificationsRead())}
+              disabled={unreadCount === 0}
+            >
+              Mark all read
+            </Button>
+          </PanelHeader>
+
+          {error && <ErrorText role="alert">{error}</ErrorText>}
+
+          {notifications.length === 0 ? (
+            <Empty>{loading ? 'Loading notifications...' : 'No notifications yet.'}</Empty>
+          ) : (
+            <List>
+              {notifications.map((notification) => (
+                <Item
+                  key={notification.id}
+                  $unread={!notification.read}
+                  onClick={() => !notification.read && dispatch(markNotificationRead(notification.id))}
+                >
+                  {describeNotification(notification)}
+                  <ItemTime>{new Date(notification.createdAt).toLocaleString()}</ItemTime>
+                </Item>
+              ))}
+            </List>
+          )}
+        </Panel>
+      )}
+    </BellContainer>
+  );
+}
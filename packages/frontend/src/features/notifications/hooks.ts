@@ -0,0 +1,86 @@
+import { useEffect } from 'react';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '@/app/store';
+import { useAuth } from '@/features/auth/hooks';
+import { NotificationStreamError, streamNotifications } from './notificationService';
+import { notificationReceived, unreadCountChanged } from './notificationsSlice';
+
+/**
+ * WHAT: Custom hooks for notifications
+ *
+ * WHY: Keeps the live connection out of the components that show it.
+ *
+ * HOW: Wraps the stream reader and dispatches its events
+ */
+
+// WHY: Matches the server's retry hint (NOTIFICATION_STREAM.RETRY_MS)
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * WHAT: Whether a JWT's exp claim has passed
+ *
+ * HOW: Reads the payload without verifying it - the server does that.
+ * An unreadable token counts as expired.
+ */
+function isTokenExpired(token: string): boolean {
+  try {
+    const payload = (token.split('.')[1] ?? '').replace(/-/g, '+').replace(/_/g, '/');
+    const { exp } = JSON.parse(atob(payload)) as { exp?: number };
+    return typeof exp !== 'number' || exp * 1000 <= Date.now();
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * WHAT: Hook keeping the live notification stream open
+ *
+ * WHY: Networks drop and servers restart; those reconnect after a pause.
+ * The server also ends the stream when the access token expires -
+ * reconnecting with that token would only get a 401, so it stops instead.
+ * A new token in the store opens a new stream. A refused token (401/403)
+ * stops it too - the next API call sends the user to log in.
+ *
+ * HOW: Retries only while the token's exp claim is in the future;
+ * closes on logout, token change or unmount
+ */
+export function useNotificationStream() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { accessToken, isAuthenticated } = useAuth();
+
+  useEffect(() => {
+    if (!isAuthenticated || !accessToken) {
+      return;
+    }
+
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = async () => {
+      try {
+        await streamNotifications(
+          accessToken,
+          {
+            onNotification: (notification) => dispatch(notificationReceived(notification)),
+            onUnreadCount: (count) => dispatch(unreadCountChanged(count)),
+          },
+          controller.signal,
+        );
+      } catch (error) {
+        if (error instanceof NotificationStreamError && [401, 403].includes(error.status)) {
+          return;
+        }
+      }
+
+      if (!controller.signal.aborted && !isTokenExpired(accessToken)) {
+        retryTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+    };
+  }, [dispatch, accessToken, isAuthenticated]);
+}
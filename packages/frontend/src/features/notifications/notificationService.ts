@@ -0,0 +1,129 @@
+/**
+ * WHAT: Notifications service - API calls
+ *
+ * WHY: Service layer separates API logic from components and Redux.
+ *
+ * HOW: Uses axios instance (apiClient) for HTTP requests; the live stream
+ * uses fetch, since axios can't read a response as it arrives
+ */
+
+import apiClient from '@/shared/utils/api';
+import { Notification, NotificationListResponse } from './types';
+
+/**
+ * WHAT: Get own notifications API call
+ *
+ * HOW: GET request to /api/notifications, newest first
+ */
+export async function getNotifications(limit: number): Promise<NotificationListResponse> {
+  const response = await apiClient.get<{ success: boolean; data: NotificationListResponse }>(
+    '/notifications',
+    { params: { limit } },
+  );
+  return response.data.data;
+}
+
+/**
+ * WHAT: Mark notification read API call
+ *
+ * HOW: PATCH request to /api/notifications/:id/read
+ */
+export async function markNotificationRead(id: string): Promise<Notification> {
+  const response = await apiClient.patch<{ success: boolean; data: Notification }>(
+    `/notifications/${id}/read`,
+  );
+  return response.data.data;
+}
+
+/**
+ * WHAT: Mark all notifications read API call
+ *
+ * HOW: PATCH request to /api/notifications/read-all
+ */
+export async function markAllNotificationsRead(): Promise<{ updatedCount: number }> {
+  const response = await apiClient.patch<{ success: boolean; data: { updatedCount: number } }>(
+    '/notifications/read-all',
+  );
+  return response.data.data;
+}
+
+/**
+ * WHAT: Error for a stream the server refused
+ *
+ * WHY: 401/403 means the token is no longer good - reconnecting with it
+ * would only be refused again.
+ */
+export class NotificationStreamError extends Error {
+  constructor(public status: number) {
+    super(`Notification stream refused (${status})`);
+  }
+}
+
+/**
+ * WHAT: Live stream event handlers
+ */
+export interface NotificationStreamHandlers {
+  onNotification: (notification: Notification) => void;
+  onUnreadCount: (count: number) => void;
+}
+
+/**
+ * WHAT: Read the live notification stream
+ *
+ * WHY: EventSource can't send the Authorization header, so the
+ * Server-Sent Events are read with fetch and parsed here.
+ *
+ * HOW: GET request to /api/notifications/stream. Resolves when the server
+ * ends the stream (the access token expired); the caller reconnects.
+ * Abort the signal to stop.
+ */
+export async function streamNotifications(
+  accessToken: string,
+  handlers: NotificationStreamHandlers,
+  signal: AbortSignal,
+): Promise<void> {
+  const response = await fetch(`${apiClient.defaults.baseURL}/notifications/stream`, {
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: 'text/event-stream' },
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new NotificationStreamError(response.status);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return;
+    }
+
+    // WHY: Events end with a blank line; a chunk may end mid-event
+    buffer += value;
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+
+    for (const block of events) {
+      let event = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event: ')) {
+          event = line.slice('event: '.length);
+        } else if (line.startsWith('data: ')) {
+          data += line.slice('data: '.length);
+        }
+      }
+      // WHY: Heartbeat comments and the retry line carry no data
+      if (!data) {
+        continue;
+      }
+
+      if (event === 'notification') {
+        handlers.onNotification(JSON.parse(data) as Notification);
+      } else if (event === 'unread-count') {
+        handlers.onUnreadCount((JSON.parse(data) as { count: number }).count);
+      }
+    }
+  }
+}
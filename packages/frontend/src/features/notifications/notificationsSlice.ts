@@ -0,0 +1,143 @@
+/**
+ * WHAT: Redux Toolkit slice for Notifications state
+ *
+ * WHY: Holds the bell's latest notifications and unread count, kept
+ * current by the live stream.
+ *
+ * HOW: Async thunks for listing and marking read; stream events arrive
+ * as plain actions; reset on logout
+ */
+
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { Notification, NotificationsState } from './types';
+import * as notificationService from './notificationService';
+import { clearAuthState } from '@/features/auth/authSlice';
+
+// WHY: The bell shows the latest few; older ones aren't kept in state
+export const NOTIFICATIONS_SHOWN = 10;
+
+const initialState: NotificationsState = {
+  notifications: [],
+  unreadCount: 0,
+  loading: false,
+  error: null,
+};
+
+/**
+ * WHAT: Async thunk for fetching the latest notifications
+ *
+ * HOW: Calls getNotifications API for the first page
+ */
+export const fetchNotifications = createAsyncThunk(
+  'notifications/fetchNotifications',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await notificationService.getNotifications(NOTIFICATIONS_SHOWN);
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message || 'Failed to fetch notifications',
+      );
+    }
+  },
+);
+
+/**
+ * WHAT: Async thunk for marking one notification read
+ *
+ * HOW: Calls markNotificationRead API; the stream sends the new unread count
+ */
+export const markNotificationRead = createAsyncThunk(
+  'notifications/markNotificationRead',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      return await notificationService.markNotificationRead(id);
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message || 'Failed to update notification',
+      );
+    }
+  },
+);
+
+/**
+ * WHAT: Async thunk for marking every notification read
+ *
+ * HOW: Calls markAllNotificationsRead API
+ */
+export const markAllNotificationsRead = createAsyncThunk(
+  'notifications/markAllNotificationsRead',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await notificationService.markAllNotificationsRead();
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message || 'Failed to update notifications',
+      );
+    }
+  },
+);
+
+const notificationsSlice = createSlice({
+  name: 'notifications',
+  initialState,
+  reducers: {
+    // WHY: Stream event - newest first, dropping what falls off the list
+    notificationReceived: (state, action: PayloadAction<Notification>) => {
+      state.notifications = [
+        action.payload,
+        ...state.notifications.filter((item) => item.id !== action.payload.id),
+      ].slice(0, NOTIFICATIONS_SHOWN);
+    },
+    // WHY: Stream event - sent on connect and on every change, from any tab
+    unreadCountChanged: (state, action: PayloadAction<number>) => {
+      state.unreadCount = action.payload;
+    },
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Fetch latest notifications
+    builder
+      .addCase(fetchNotifications.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchNotifications.fulfilled, (state, action) => {
+        state.loading = false;
+        state.notifications = action.payload.items;
+      })
+      .addCase(fetchNotifications.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+
+    // Mark one read
+    builder
+      .addCase(markNotificationRead.fulfilled, (state, action) => {
+        state.notifications = state.notifications.map((item) =>
+          item.id === action.payload.id ? action.payload : item,
+        );
+      })
+      .addCase(markNotificationRead.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Mark all read
+    builder
+      .addCase(markAllNotificationsRead.fulfilled, (state) => {
+        state.notifications = state.notifications.map((item) => ({ ...item, read: true }));
+        state.unreadCount = 0;
+      })
+      .addCase(markAllNotificationsRead.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // WHY: Another user's notifications must not show after a logout on a shared machine
+    builder.addCase(clearAuthState, () => initialState);
+  },
+});
+
+export const { notificationReceived, unreadCountChanged, clearError } =
+  notificationsSlice.actions;
+export default notificationsSlice.reducer;
@@ -0,0 +1,78 @@
+/**
+ * WHAT: TypeScript types for Notifications feature
+ *
+ * WHY: Centralized type definitions ensure type safety across the notifications module.
+ * Types match backend API responses and Redux state structure.
+ *
+ * HOW: Exports interfaces used in notifications slice, service, and components
+ */
+
+import { PaginatedResponse } from '@/shared/types';
+
+/**
+ * WHAT: Notification type enum
+ */
+export enum NotificationType {
+  LEAVE_SUBMITTED = 'LEAVE_SUBMITTED',
+  LEAVE_APPROVED = 'LEAVE_APPROVED',
+  LEAVE_REJECTED = 'LEAVE_REJECTED',
+  ACCOUNT_CREATED = 'ACCOUNT_CREATED',
+  ACCOUNT_DEACTIVATED = 'ACCOUNT_DEACTIVATED',
+}
+
+/**
+ * WHAT: Leave details of leave notifications
+ */
+export interface LeaveNotificationPayload {
+  leaveId: string;
+  employeeName: string;
+  leaveType: string;
+  startDate: string;
+  endDate: string;
+  numberOfDays: number;
+  rejectionReason?: string; // WHY: LEAVE_REJECTED only
+}
+
+/**
+ * WHAT: Account details of account notifications
+ */
+export interface AccountNotificationPayload {
+  userId: string;
+  email: string;
+  role: string;
+  employeeName?: string;
+}
+
+/**
+ * WHAT: Notification interface from backend
+ *
+ * WHY: payload depends on type - see describeNotification.
+ */
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  payload: Record<string, unknown>;
+  read: boolean;
+  readAt?: string;
+  createdAt: string;
+}
+
+/**
+ * WHAT: Notification list response type
+ *
+ * HOW: Matches the backend paginated envelope for GET /notifications
+ */
+export type NotificationListResponse = PaginatedResponse<Notification>;
+
+/**
+ * WHAT: Notifications state interface for Redux
+ *
+ * WHY: unreadCount comes from the live stream, so it stays right for
+ * notifications not in the loaded page.
+ */
+export interface NotificationsState {
+  notifications: Notification[];
+  unreadCount: number;
+  loading: boolean;
+  error: string | null;
+}
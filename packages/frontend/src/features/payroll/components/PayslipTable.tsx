@@ -0,0 +1,160 @@
+import styled from 'styled-components';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '@/app/store';
+import { Payslip } from '../types';
+import { downloadMyPayslip } from '../payrollSlice';
+import { Button } from '@/shared/components/Button';
+
+/**
+ * WHAT: Own payslips table component
+ * 
+ * WHY: One row per month with the headline figures; the full breakdown
+ * is in the PDF.
+ * 
+ * HOW: Styled table with a download button per payslip
+ */
+
+const TableContainer = styled.div`
+  overflow-x: auto;
+  border-radius: var(--radius-lg);
+  border: 1px solid var(--color-border);
+  background: var(--color-surface);
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: var(--font-size-md);
+`;
+
+const TableHeader = styled.thead`
+  background: var(--color-bg-secondary);
+`;
+
+const TableHeaderRow = styled.tr`
+  border-bottom: 2px solid var(--color-border);
+`;
+
+const TableHeaderCell = styled.th<{ numeric?: boolean }>`
+  padding: var(--spacing-md) var(--spacing-lg);
+  text-align: ${(props) => (props.numeric ? 'right' : 'left')};
+  font-weight: var(--font-weight-semibold);
+  color: var(--color-text);
+  font-size: var(--font-size-sm);
+  text-transform: uppercase;
+  letter-spacing: 0.05em;
+`;
+
+const TableBody = styled.tbody``;
+
+const TableRow = styled.tr`
+  border-bottom: 1px solid var(--color-border);
+  transition: background var(--transition-fast);
+
+  &:hover {
+    background: var(--color-surface-hover);
+  }
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+const TableCell = styled.td<{ numeric?: boolean }>`
+  padding: var(--spacing-md) var(--spacing-lg);
+  color: var(--color-text);
+  text-align: ${(props) => (props.numeric ? 'right' : 'left')};
+  font-variant-numeric: tabular-nums;
+`;
+
+const NetCell = styled(TableCell)`
+  font-weight: var(--font-weight-semibold);
+`;
+
+const EmptyState = styled.div`
+  padding: var(--spacing-3xl);
+  text-align: center;
+  color: var(--color-text-secondary);
+`;
+
+interface PayslipTableProps {
+  payslips: Payslip[];
+  loading: boolean;
+  downloadingId: string | null;
+}
+
+/**
+ * WHAT: Format a YYYY-MM period for display
+ * 
+ * HOW: "2026-04" -> "April 2026"; UTC so the month never shifts
+ */
+const formatPeriod = (period: string) =>
+  new Date(`${period}-01T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const formatAmount = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function PayslipTable({ payslips, loading, downloadingId }: PayslipTableProps) {
+  const dispatch = useDispatch<AppDispatch>();
+
+  if (loading && payslips.length === 0) {
+    return (
+      <EmptyState>
+        <p>Loading payslips...</p>
+      </EmptyState>
+    );
+  }
+
+  if (payslips.length === 0) {
+    return (
+      <EmptyState>
+        <p>No payslips yet. They appear here once payroll for a month is finalised.</p>
+      </EmptyState>
+    );
+  }
+
+  return (
+    <TableContainer>
+      <Table aria-label="Payslips table">
+        <TableHeader>
+          <TableHeaderRow>
+            <TableHeaderCell>Month</TableHeaderCell>
+            <TableHeaderCell numeric>Payable Days</TableHeaderCell>
+            <TableHeaderCell numeric>Gross</TableHeaderCell>
+            <TableHeaderCell numeric>Deductions</TableHeaderCell>
+            <TableHeaderCell numeric>Net Pay</TableHeaderCell>
+            <TableHeaderCell>Actions</TableHeaderCell>
+          </TableHeaderRow>
+        </TableHeader>
+        <TableBody>
+          {payslips.map((payslip) => (
+            <TableRow key={payslip.id}>
+              <TableCell>{formatPeriod(payslip.period)}</TableCell>
+              <TableCell numeric>
+                {payslip.payableDays} / {payslip.workingDays}
+              </TableCell>
+              <TableCell numeric>{formatAmount(payslip.gross)}</TableCell>
+              <TableCell numeric>{formatAmount(payslip.totalDeductions)}</TableCell>
+              <NetCell numeric>{formatAmount(payslip.net)}</NetCell>
+              <TableCell>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => dispatch(downloadMyPayslip(payslip))}
+                  disabled={downloadingId === payslip.id}
+                  aria-label={`Download payslip for ${formatPeriod(payslip.period)}`}
+                >
+                  {downloadingId === payslip.id ? 'Downloading...' : 'Download PDF'}
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState, AppDispatch } from '@/app/store';
+import { PageContainer } from '@/shared/components/PageContainer';
+import { Card } from '@/shared/components/Card';
+import { Button } from '@/shared/components/Button';
+import { PAGINATION } from '@/shared/constants';
+import { fetchMyPayslips } from '../payrollSlice';
+import { PayslipTable } from '../components/PayslipTable';
+
+/**
+ * WHAT: My Payslips page
+ * 
+ * WHY: Employees look up and download what they were paid each month.
+ * 
+ * HOW: Paged payslip table, latest month first; each row downloads its PDF
+ */
+
+const PageHeader = styled.div`
+  margin-bottom: var(--spacing-2xl);
+`;
+
+const PageTitle = styled.h1`
+  font-size: var(--font-size-4xl);
+  font-weight: var(--font-weight-bold);
+  color: var(--color-text);
+  margin: 0 0 var(--spacing-xs);
+`;
+
+const PageSubtitle = styled.p`
+  color: var(--color-text-secondary);
+  margin: 0;
+`;
+
+const Pager = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  align-items: center;
+  gap: var(--spacing-md);
+  margin-top: var(--spacing-lg);
+  color: var(--color-text-secondary);
+  font-size: var(--font-size-sm);
+`;
+
+export default function MyPayslipsPage() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { payslips, pagination, loading, downloadingId, error } = useSelector(
+    (state: RootState) => state.payroll,
+  );
+  const [page, setPage] = useState<number>(PAGINATION.DEFAULT_PAGE);
+
+  // WHY: Reload whenever the page changes
+  useEffect(() => {
+    dispatch(fetchMyPayslips(page));
+  }, [dispatch, page]);
+
+  return (
+    <PageContainer>
+      <PageHeader>
+        <PageTitle>My Payslips</PageTitle>
+        <PageSubtitle>Payslips of finalised payroll months, latest first.</PageSubtitle>
+      </PageHeader>
+
+      {error && (
+        <Card padding="md" style={{ marginBottom: 'var(--spacing-lg)' }}>
+          <p style={{ color: 'var(--color-error)', margin: 0 }}>{error}</p>
+        </Card>
+      )}
+
+      <PayslipTable payslips={payslips} loading={loading} downloadingId={downloadingId} />
+
+      {/* WHY: Pager only when there is more than one page */}
+      {pagination && pagination.totalPages > 1 && (
+        <Pager>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page - 1)}
+            disabled={loading || page <= 1}
+          >
+            Previous
+          </Button>
+          <span>
+            Page {pagination.page} of {pagination.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page + 1)}
+            disabled={loading || page >= pagination.totalPages}
+          >
+            Next
+          </Button>
+        </Pager>
+      )}
+    </PageContainer>
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * WHAT: Payroll service - API calls
+ * 
+ * WHY: Service layer separates API logic from components and Redux.
+ * 
+ * HOW: Uses axios instance (apiClient) for HTTP requests
+ */
+
+import apiClient from '@/shared/utils/api';
+import { PayslipListResponse } from './types';
+
+/**
+ * WHAT: Get own payslips API call
+ * 
+ * WHY: Only payslips of finalised payroll runs are returned.
+ * 
+ * HOW: GET request to /api/payroll/payslips/me, latest month first
+ */
+export async function getMyPayslips(page: number): Promise<PayslipListResponse> {
+  const response = await apiClient.get<{ success: boolean; data: PayslipListResponse }>(
+    '/payroll/payslips/me',
+    { params: { page } },
+  );
+  return response.data.data;
+}
+
+/**
+ * WHAT: Download own payslip PDF API call
+ * 
+ * WHY: The PDF needs the Authorization header, so a plain link won't do -
+ * it is fetched as a blob and handed to the browser as a file.
+ * 
+ * HOW: GET request to /api/payroll/payslips/me/:id/pdf
+ */
+export async function downloadMyPayslip(id: string, filename: string): Promise<void> {
+  const response = await apiClient.get<Blob>(`/payroll/payslips/me/${id}/pdf`, {
+    responseType: 'blob',
+  });
+
+  const url = URL.createObjectURL(response.data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // WHY: Release the blob once the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,105 @@
+/**
+ * WHAT: Redux Toolkit slice for Payroll state
+ * 
+ * WHY: Holds the employee's own payslips and the download in progress.
+ * 
+ * HOW: Async thunks for listing and downloading; reset on logout
+ */
+
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { PayrollState, Payslip } from './types';
+import * as payrollService from './payrollService';
+import { clearAuthState } from '@/features/auth/authSlice';
+
+const initialState: PayrollState = {
+  payslips: [],
+  pagination: null,
+  loading: false,
+  downloadingId: null,
+  error: null,
+};
+
+/**
+ * WHAT: Async thunk for fetching own payslips
+ * 
+ * HOW: Calls getMyPayslips API for one page
+ */
+export const fetchMyPayslips = createAsyncThunk(
+  'payroll/fetchMyPayslips',
+  async (page: number, { rejectWithValue }) => {
+    try {
+      return await payrollService.getMyPayslips(page);
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message || 'Failed to fetch payslips',
+      );
+    }
+  },
+);
+
+/**
+ * WHAT: Async thunk for downloading a payslip PDF
+ * 
+ * WHY: Error bodies of blob requests are blobs too, so the message
+ * is generic rather than the API's.
+ */
+export const downloadMyPayslip = createAsyncThunk(
+  'payroll/downloadMyPayslip',
+  async (payslip: Payslip, { rejectWithValue }) => {
+    try {
+      return await payrollService.downloadMyPayslip(
+        payslip.id,
+        `payslip-${payslip.period}-${payslip.employeeCode}.pdf`,
+      );
+    } catch {
+      return rejectWithValue('Failed to download payslip');
+    }
+  },
+);
+
+const payrollSlice = createSlice({
+  name: 'payroll',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Fetch own payslips
+    builder
+      .addCase(fetchMyPayslips.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchMyPayslips.fulfilled, (state, action) => {
+        state.loading = false;
+        state.payslips = action.payload.items;
+        state.pagination = action.payload.pagination;
+      })
+      .addCase(fetchMyPayslips.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+
+    // Download payslip PDF
+    builder
+      .addCase(downloadMyPayslip.pending, (state, action) => {
+        state.downloadingId = action.meta.arg.id;
+        state.error = null;
+      })
+      .addCase(downloadMyPayslip.fulfilled, (state) => {
+        state.downloadingId = null;
+      })
+      .addCase(downloadMyPayslip.rejected, (state, action) => {
+        state.downloadingId = null;
+        state.error = action.payload as string;
+      });
+
+    // WHY: Pay data must not survive a logout on a shared machine
+    builder.addCase(clearAuthState, () => initialState);
+  },
+});
+
+export const { clearError } = payrollSlice.actions;
+export default payrollSlice.reducer;
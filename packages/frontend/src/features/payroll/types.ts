@@ -0,0 +1,65 @@
+/**
+ * WHAT: TypeScript types for Payroll feature
+ * 
+ * WHY: Centralized type definitions ensure type safety across the payroll module.
+ * Types match backend API responses and Redux state structure.
+ * 
+ * HOW: Exports interfaces used in payroll slice, service, and components
+ */
+
+import { PaginatedResponse, Pagination } from '@/shared/types';
+
+/**
+ * WHAT: Named allowance or deduction on a payslip
+ */
+export interface SalaryComponent {
+  name: string;
+  amount: number;
+}
+
+/**
+ * WHAT: Payslip interface from backend
+ * 
+ * WHY: Type-safe representation of a month's pay, as computed by payroll.
+ */
+export interface Payslip {
+  id: string;
+  runId: string;
+  period: string; // WHY: YYYY-MM
+  employeeId: string;
+  employeeCode: string;
+  employeeName: string;
+  department: string;
+  designation: string;
+  workingDays: number;
+  payableDays: number;
+  unpaidLeaveDays: number;
+  basic: number;
+  allowances: SalaryComponent[];
+  deductions: SalaryComponent[];
+  unpaidLeaveDeduction: number;
+  gross: number;
+  totalDeductions: number;
+  net: number;
+  createdAt: string;
+}
+
+/**
+ * WHAT: Payslip list response type
+ * 
+ * HOW: Matches the backend paginated envelope for GET /payroll/payslips/me
+ */
+export type PayslipListResponse = PaginatedResponse<Payslip>;
+
+/**
+ * WHAT: Payroll state interface for Redux
+ * 
+ * WHY: downloadingId disables the one row whose PDF is being fetched.
+ */
+export interface PayrollState {
+  payslips: Payslip[];
+  pagination: Pagination | null;
+  loading: boolean;
+  downloadingId: string | null;
+  error: string | null;
+}
@@ -0,0 +1,153 @@
+import { useState, FormEvent } from 'react';
+import styled from 'styled-components';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '@/app/store';
+import { PERFORMANCE_RATING, PerformanceReview } from '../types';
+import { submitSelfAssessment } from '../performanceSlice';
+import { Button } from '@/shared/components/Button';
+import { LoadingSpinner } from '@/shared/components/LoadingSpinner';
+
+/**
+ * WHAT: Self-assessment form component
+ *
+ * WHY: The employee's own rating and comments open every review; their
+ * manager sees them before rating.
+ *
+ * HOW: Rating select on the backend's scale plus optional comments,
+ * submitted once
+ */
+
+const Form = styled.form`
+  display: flex;
+  flex-direction: column;
+  gap: var(--spacing-md);
+`;
+
+const Label = styled.label`
+  display: flex;
+  flex-direction: column;
+  gap: var(--spacing-xs);
+  font-size: var(--font-size-sm);
+  font-weight: var(--font-weight-medium);
+  color: var(--color-text);
+`;
+
+const fieldStyles = `
+  padding: var(--spacing-sm) var(--spacing-md);
+  font-size: var(--font-size-md);
+  font-family: inherit;
+  color: var(--color-text);
+  background-color: var(--color-bg);
+  border: 1px solid var(--color-border);
+  border-radius: var(--radius-md);
+
+  &:focus {
+    outline: none;
+    border-color: var(--color-primary);
+  }
+
+  &:disabled {
+    opacity: 0.6;
+    cursor: not-allowed;
+  }
+`;
+
+const Select = styled.select`
+  ${fieldStyles}
+  max-width: 200px;
+`;
+
+const TextArea = styled.textarea`
+  ${fieldStyles}
+  min-height: 120px;
+  resize: vertical;
+`;
+
+const ButtonGroup = styled.div`
+  display: flex;
+  justify-content: flex-end;
+`;
+
+// WHY: Comments limit matches the backend validation
+const MAX_COMMENTS_LENGTH = 2000;
+
+// WHY: 1, 1.5, ... 5 - the half steps the backend accepts
+const RATING_OPTIONS = Array.from(
+  { length: (PERFORMANCE_RATING.MAX - PERFORMANCE_RATING.MIN) / PERFORMANCE_RATING.STEP + 1 },
+  (_, index) => PERFORMANCE_RATING.MIN + index * PERFORMANCE_RATING.STEP,
+);
+
+interface SelfAssessmentFormProps {
+  review: PerformanceReview;
+  submitting: boolean;
+}
+
+export function SelfAssessmentForm({ review, submitting }: SelfAssessmentFormProps) {
+  const dispatch = useDispatch<AppDispatch>();
+  const [rating, setRating] = useState('');
+  const [comments, setComments] = useState('');
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    // WHY: Submit stays disabled until a rating is picked
+    if (!rating) {
+      return;
+    }
+
+    dispatch(
+      submitSelfAssessment({
+        id: review.id,
+        input: {
+          rating: Number(rating),
+          comments: comments.trim() || undefined,
+        },
+      }),
+    );
+  };
+
+  return (
+    <Form onSubmit={handleSubmit} aria-label={`Self-assessment for ${review.cycle?.name ?? 'review'}`}>
+      <Label>
+        Rating
+        <Select
+          value={rating}
+          onChange={(e) => setRating(e.target.value)}
+          required
+          disabled={submitting}
+        >
+          <option value="">Select a rating</option>
+          {RATING_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option} / {PERFORMANCE_RATING.MAX}
+            </option>
+          ))}
+        </Select>
+      </Label>
+
+      <Label>
+        Comments
+        <TextArea
+          value={comments}
+          onChange={(e) => setComments(e.target.value)}
+          maxLength={MAX_COMMENTS_LENGTH}
+          placeholder="Achievements, challenges and goals for the period"
+          disabled={submitting}
+        />
+      </Label>
+
+      <ButtonGroup>
+        <Button type="submit" variant="primary" disabled={submitting || !rating}>
+          {submitting ? (
+            <>
+              <LoadingSpinner />
+              <span>Submitting...</span>
+            </>
+          ) : (
+            'Submit Self-Assessment'
+          )}
+        </Button>
+      </ButtonGroup>
+    </Form>
+  );
+}
@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState, AppDispatch } from '@/app/store';
+import { PageContainer } from '@/shared/components/PageContainer';
+import { Card } from '@/shared/components/Card';
+import { Button } from '@/shared/components/Button';
+import { PAGINATION } from '@/shared/constants';
+import { fetchMyReviews } from '../performanceSlice';
+import { SelfAssessmentForm } from '../components/SelfAssessmentForm';
+import { PERFORMANCE_RATING, PerformanceReview, ReviewCycleStatus, ReviewStatus } from '../types';
+
+/**
+ * WHAT: My Reviews page
+ *
+ * WHY: Employees fill in their self-assessment for each review cycle and
+ * see their final rating once HR finalises the cycle.
+ *
+ * HOW: One card per cycle, latest first; open reviews show the form
+ */
+
+const PageHeader = styled.div`
+  margin-bottom: var(--spacing-2xl);
+`;
+
+const PageTitle = styled.h1`
+  font-size: var(--font-size-4xl);
+  font-weight: var(--font-weight-bold);
+  color: var(--color-text);
+  margin: 0 0 var(--spacing-xs);
+`;
+
+const PageSubtitle = styled.p`
+  color: var(--color-text-secondary);
+  margin: 0;
+`;
+
+const ReviewList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: var(--spacing-lg);
+`;
+
+const ReviewHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: flex-start;
+  gap: var(--spacing-md);
+  margin-bottom: var(--spacing-md);
+`;
+
+const CycleName = styled.h2`
+  font-size: var(--font-size-xl);
+  font-weight: var(--font-weight-semibold);
+  color: var(--color-text);
+  margin: 0 0 var(--spacing-xs);
+`;
+
+const Muted = styled.p`
+  color: var(--color-text-secondary);
+  font-size: var(--font-size-sm);
+  margin: 0;
+`;
+
+const StatusBadge = styled.span`
+  padding: var(--spacing-xs) var(--spacing-sm);
+  border-radius: var(--radius-md);
+  background: var(--color-bg-secondary);
+  color: var(--color-text);
+  font-size: var(--font-size-sm);
+  font-weight: var(--font-weight-medium);
+  white-space: nowrap;
+`;
+
+const RatingRow = styled.dl`
+  display: grid;
+  grid-template-columns: max-content 1fr;
+  gap: var(--spacing-xs) var(--spacing-lg);
+  margin: 0;
+
+  dt {
+    color: var(--color-text-secondary);
+  }
+
+  dd {
+    margin: 0;
+    color: var(--color-text);
+  }
+`;
+
+const EmptyState = styled.div`
+  padding: var(--spacing-3xl);
+  text-align: center;
+  color: var(--color-text-secondary);
+`;
+
+const Pager = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  align-items: center;
+  gap: var(--spacing-md);
+  margin-top: var(--spacing-lg);
+  color: var(--color-text-secondary);
+  font-size: var(--font-size-sm);
+`;
+
+// WHY: What the employee is waiting on, in their words
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  [ReviewStatus.SELF_REVIEW]: 'Self-assessment due',
+  [ReviewStatus.MANAGER_REVIEW]: 'With your manager',
+  [ReviewStatus.CALIBRATION]: 'With HR',
+  [ReviewStatus.FINALISED]: 'Finalised',
+};
+
+// WHY: Dates are calendar days - UTC so they never shift
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const formatRating = (rating: number) => `${rating} / ${PERFORMANCE_RATING.MAX}`;
+
+/**
+ * WHAT: Whether the self-assessment form should show
+ *
+ * WHY: The backend refuses submissions after the due date or once the
+ * cycle leaves ACTIVE; hiding the form avoids a pointless round trip.
+ *
+ * HOW: Due dates are inclusive - compared as YYYY-MM-DD day keys
+ */
+const canSelfAssess = (review: PerformanceReview) =>
+  review.status === ReviewStatus.SELF_REVIEW &&
+  review.cycle?.status === ReviewCycleStatus.ACTIVE &&
+  new Date().toISOString().slice(0, 10) <= review.cycle.selfReviewDueDate.slice(0, 10);
+
+export default function MyReviewsPage() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { reviews, pagination, loading, submittingId, error } = useSelector(
+    (state: RootState) => state.performance,
+  );
+  const [page, setPage] = useState<number>(PAGINATION.DEFAULT_PAGE);
+
+  // WHY: Reload whenever the page changes
+  useEffect(() => {
+    dispatch(fetchMyReviews(page));
+  }, [dispatch, page]);
+
+  return (
+    <PageContainer>
+      <PageHeader>
+        <PageTitle>My Reviews</PageTitle>
+        <PageSubtitle>Your performance reviews, latest cycle first.</PageSubtitle>
+      </PageHeader>
+
+      {error && (
+        <Card padding="md" style={{ marginBottom: 'var(--spacing-lg)' }}>
+          <p role="alert" style={{ color: 'var(--color-error)', margin: 0 }}>{error}</p>
+        </Card>
+      )}
+
+      {loading && reviews.length === 0 && (
+        <EmptyState>
+          <p>Loading reviews...</p>
+        </EmptyState>
+      )}
+
+      {!loading && reviews.length === 0 && (
+        <EmptyState>
+          <p>No reviews yet. They appear here when HR launches a review cycle.</p>
+        </EmptyState>
+      )}
+
+      <ReviewList>
+        {reviews.map((review) => (
+          <Card key={review.id} padding="lg">
+            <ReviewHeader>
+              <div>
+                <CycleName>{review.cycle?.name ?? 'Review'}</CycleName>
+                {review.cycle && (
+                  <Muted>
+                    {formatDate(review.cycle.periodStart)} - {formatDate(review.cycle.periodEnd)}
+                    {review.status === ReviewStatus.SELF_REVIEW &&
+                      ` · Self-assessment due ${formatDate(review.cycle.selfReviewDueDate)}`}
+                  </Muted>
+                )}
+              </div>
+              <StatusBadge>{STATUS_LABELS[review.status]}</StatusBadge>
+            </ReviewHeader>
+
+            {canSelfAssess(review) ? (
+              <SelfAssessmentForm review={review} submitting={submittingId === review.id} />
+            ) : (
+              <RatingRow>
+                <dt>Your rating</dt>
+                <dd>
+                  {review.selfAssessment
+                    ? formatRating(review.selfAssessment.rating)
+                    : 'Not submitted'}
+                </dd>
+                {review.selfAssessment?.comments && (
+                  <>
+                    <dt>Your comments</dt>
+                    <dd>{review.selfAssessment.comments}</dd>
+                  </>
+                )}
+                {review.managerAssessment?.comments && (
+                  <>
+                    <dt>Manager comments</dt>
+                    <dd>{review.managerAssessment.comments}</dd>
+                  </>
+                )}
+                {review.finalRating !== undefined && (
+                  <>
+                    <dt>Final rating</dt>
+                    <dd>
+                      <strong>{formatRating(review.finalRating)}</strong>
+                    </dd>
+                  </>
+                )}
+              </RatingRow>
+            )}
+          </Card>
+        ))}
+      </ReviewList>
+
+      {/* WHY: Pager only when there is more than one page */}
+      {pagination && pagination.totalPages > 1 && (
+        <Pager>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page - 1)}
+            disabled={loading || page <= 1}
+          >
+            Previous
+          </Button>
+          <span>
+            Page {pagination.page} of {pagination.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page + 1)}
+            disabled={loading || page >= pagination.totalPages}
+          >
+            Next
+          </Button>
+        </Pager>
+      )}
+    </PageContainer>
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * WHAT: Performance service - API calls
+ *
+ * WHY: Service layer separates API logic from components and Redux.
+ *
+ * HOW: Uses axios instance (apiClient) for HTTP requests
+ */
+
+import apiClient from '@/shared/utils/api';
+import { AssessmentInput, PerformanceReview, PerformanceReviewListResponse } from './types';
+
+/**
+ * WHAT: Get own reviews API call
+ *
+ * HOW: GET request to /api/performance/reviews/me, latest cycle first
+ */
+export async function getMyReviews(page: number): Promise<PerformanceReviewListResponse> {
+  const response = await apiClient.get<{ success: boolean; data: PerformanceReviewListResponse }>(
+    '/performance/reviews/me',
+    { params: { page } },
+  );
+  return response.data.data;
+}
+
+/**
+ * WHAT: Submit self-assessment API call
+ *
+ * WHY: Can be submitted once, by the cycle's self review due date.
+ *
+ * HOW: POST request to /api/performance/reviews/:id/self-assessment
+ */
+export async function submitSelfAssessment(
+  id: string,
+  input: AssessmentInput,
+): Promise<PerformanceReview> {
+  const response = await apiClient.post<{ success: boolean; data: PerformanceReview }>(
+    `/performance/reviews/${id}/self-assessment`,
+    input,
+  );
+  return response.data.data;
+}
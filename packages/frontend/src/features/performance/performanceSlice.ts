@@ -0,0 +1,110 @@
+/**
+ * WHAT: Redux Toolkit slice for Performance state
+ *
+ * WHY: Holds the employee's own reviews and the self-assessment being submitted.
+ *
+ * HOW: Async thunks for listing and submitting; reset on logout
+ */
+
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { AssessmentInput, PerformanceState } from './types';
+import * as performanceService from './performanceService';
+import { clearAuthState } from '@/features/auth/authSlice';
+
+const initialState: PerformanceState = {
+  reviews: [],
+  pagination: null,
+  loading: false,
+  submittingId: null,
+  error: null,
+};
+
+/**
+ * WHAT: Async thunk for fetching own reviews
+ *
+ * HOW: Calls getMyReviews API for one page
+ */
+export const fetchMyReviews = createAsyncThunk(
+  'performance/fetchMyReviews',
+  async (page: number, { rejectWithValue }) => {
+    try {
+      return await performanceService.getMyReviews(page);
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message || 'Failed to fetch reviews',
+      );
+    }
+  },
+);
+
+/**
+ * WHAT: Async thunk for submitting a self-assessment
+ *
+ * HOW: Calls submitSelfAssessment API; the API message explains refusals
+ * such as a passed due date
+ */
+export const submitSelfAssessment = createAsyncThunk(
+  'performance/submitSelfAssessment',
+  async (
+    { id, input }: { id: string; input: AssessmentInput },
+    { rejectWithValue },
+  ) => {
+    try {
+      return await performanceService.submitSelfAssessment(id, input);
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message || 'Failed to submit self-assessment',
+      );
+    }
+  },
+);
+
+const performanceSlice = createSlice({
+  name: 'performance',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Fetch own reviews
+    builder
+      .addCase(fetchMyReviews.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchMyReviews.fulfilled, (state, action) => {
+        state.loading = false;
+        state.reviews = action.payload.items;
+        state.pagination = action.payload.pagination;
+      })
+      .addCase(fetchMyReviews.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+
+    // Submit self-assessment
+    builder
+      .addCase(submitSelfAssessment.pending, (state, action) => {
+        state.submittingId = action.meta.arg.id;
+        state.error = null;
+      })
+      .addCase(submitSelfAssessment.fulfilled, (state, action) => {
+        state.submittingId = null;
+        state.reviews = state.reviews.map((review) =>
+          review.id === action.payload.id ? action.payload : review,
+        );
+      })
+      .addCase(submitSelfAssessment.rejected, (state, action) => {
+        state.submittingId = null;
+        state.error = action.payload as string;
+      });
+
+    // WHY: Ratings must not survive a logout on a shared machine
+    builder.addCase(clearAuthState, () => initialState);
+  },
+});
+
+export const { clearError } = performanceSlice.actions;
+export default performanceSlice.reducer;
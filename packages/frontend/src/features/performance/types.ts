@@ -0,0 +1,115 @@
+/**
+ * WHAT: TypeScript types for Performance feature
+ *
+ * WHY: Centralized type definitions ensure type safety across the performance module.
+ * Types match backend API responses and Redux state structure.
+ *
+ * HOW: Exports interfaces used in performance slice, service, and components
+ */
+
+import { PaginatedResponse, Pagination } from '@/shared/types';
+
+/**
+ * WHAT: Review cycle status enum
+ */
+export enum ReviewCycleStatus {
+  DRAFT = 'DRAFT',
+  ACTIVE = 'ACTIVE',
+  CALIBRATION = 'CALIBRATION',
+  FINALISED = 'FINALISED',
+}
+
+/**
+ * WHAT: Review status enum
+ *
+ * WHY: Which step a review waits for - the employee, their manager or HR.
+ */
+export enum ReviewStatus {
+  SELF_REVIEW = 'SELF_REVIEW',
+  MANAGER_REVIEW = 'MANAGER_REVIEW',
+  CALIBRATION = 'CALIBRATION',
+  FINALISED = 'FINALISED',
+}
+
+/**
+ * WHAT: Rating scale, as validated by the backend
+ */
+export const PERFORMANCE_RATING = {
+  MIN: 1,
+  MAX: 5,
+  STEP: 0.5,
+} as const;
+
+/**
+ * WHAT: Review cycle summary embedded in reviews
+ */
+export interface ReviewCycleSummary {
+  id: string;
+  name: string;
+  periodStart: string;
+  periodEnd: string;
+  selfReviewDueDate: string;
+  managerReviewDueDate: string;
+  status: ReviewCycleStatus;
+}
+
+/**
+ * WHAT: One step's rating and comments
+ */
+export interface Assessment {
+  rating: number;
+  comments?: string;
+  submittedBy: string;
+  submittedAt: string;
+}
+
+/**
+ * WHAT: Performance review interface from backend
+ *
+ * WHY: The employee's own view - the manager's assessment and final
+ * rating only appear once the cycle is finalised.
+ */
+export interface PerformanceReview {
+  id: string;
+  cycleId: string;
+  cycle?: ReviewCycleSummary;
+  employeeId: string;
+  employeeCode: string;
+  employeeName: string;
+  department: string;
+  status: ReviewStatus;
+  selfAssessment?: Assessment;
+  managerAssessment?: Assessment;
+  finalRating?: number;
+  finalisedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * WHAT: Self-assessment request body
+ */
+export interface AssessmentInput {
+  rating: number;
+  comments?: string;
+}
+
+/**
+ * WHAT: Review list response type
+ *
+ * HOW: Matches the backend paginated envelope for GET /performance/reviews/me
+ */
+export type PerformanceReviewListResponse = PaginatedResponse<PerformanceReview>;
+
+/**
+ * WHAT: Performance state interface for Redux
+ *
+ * WHY: submittingId disables the one form being submitted.
+ */
+export interface PerformanceState {
+  reviews: PerformanceReview[];
+  pagination: Pagination | null;
+  loading: boolean;
+  submittingId: string | null;
+  error: string | null;
+}
@@ -0,0 +1,240 @@
+import { useState, FormEvent } from 'react';
+import styled from 'styled-components';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '@/app/store';
+import { LIKERT_SCALE, MySurvey, QuestionType, SurveyAnswerInput, SurveyQuestion } from '../types';
+import { submitSurveyResponse } from '../surveySlice';
+import { Button } from '@/shared/components/Button';
+import { LoadingSpinner } from '@/shared/components/LoadingSpinner';
+
+/**
+ * WHAT: Survey response form component
+ *
+ * WHY: One answer per question, in the form its type asks for; HR only
+ * ever sees them aggregated.
+ *
+ * HOW: Radio buttons for Likert and multiple choice, a text area for
+ * free text, submitted once
+ */
+
+const Form = styled.form`
+  display: flex;
+  flex-direction: column;
+  gap: var(--spacing-lg);
+`;
+
+const Fieldset = styled.fieldset`
+  border: none;
+  margin: 0;
+  padding: 0;
+  display: flex;
+  flex-direction: column;
+  gap: var(--spacing-sm);
+`;
+
+const Legend = styled.legend`
+  font-size: var(--font-size-md);
+  font-weight: var(--font-weight-medium);
+  color: var(--color-text);
+  margin-bottom: var(--spacing-sm);
+`;
+
+const Optional = styled.span`
+  color: var(--color-text-secondary);
+  font-size: var(--font-size-sm);
+  font-weight: var(--font-weight-normal);
+`;
+
+const Choices = styled.div<{ $inline?: boolean }>`
+  display: flex;
+  flex-direction: ${({ $inline }) => ($inline ? 'row' : 'column')};
+  flex-wrap: wrap;
+  gap: var(--spacing-sm) var(--spacing-lg);
+`;
+
+const ChoiceLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: var(--spacing-xs);
+  color: var(--color-text);
+  cursor: pointer;
+`;
+
+const ScaleHint = styled.p`
+  color: var(--color-text-secondary);
+  font-size: var(--font-size-sm);
+  margin: 0;
+`;
+
+const TextArea = styled.textarea`
+  padding: var(--spacing-sm) var(--spacing-md);
+  font-size: var(--font-size-md);
+  font-family: inherit;
+  color: var(--color-text);
+  background-color: var(--color-bg);
+  border: 1px solid var(--color-border);
+  border-radius: var(--radius-md);
+  min-height: 100px;
+  resize: vertical;
+
+  &:focus {
+    outline: none;
+    border-color: var(--color-primary);
+  }
+
+  &:disabled {
+    opacity: 0.6;
+    cursor: not-allowed;
+  }
+`;
+
+const ButtonGroup = styled.div`
+  display: flex;
+  justify-content: flex-end;
+`;
+
+// WHY: Answer limit matches the backend validation
+const MAX_TEXT_LENGTH = 2000;
+
+const LIKERT_OPTIONS = Array.from(
+  { length: LIKERT_SCALE.MAX - LIKERT_SCALE.MIN + 1 },
+  (_, index) => LIKERT_SCALE.MIN + index,
+);
+
+/**
+ * WHAT: Convert one form value into an answer
+ *
+ * WHY: Blank values are left out - the backend rejects empty answers,
+ * and optional questions may be skipped.
+ */
+const toAnswer = (question: SurveyQuestion, value: string): SurveyAnswerInput | null => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  switch (question.type) {
+    case QuestionType.LIKERT:
+      return { questionId: question.id, rating: Number(trimmed) };
+    case QuestionType.MULTIPLE_CHOICE:
+      return { questionId: question.id, choice: trimmed };
+    case QuestionType.TEXT:
+      return { questionId: question.id, text: trimmed };
+  }
+};
+
+interface SurveyFormProps {
+  survey: MySurvey;
+  submitting: boolean;
+}
+
+export function SurveyForm({ survey, submitting }: SurveyFormProps) {
+  const dispatch = useDispatch<AppDispatch>();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const setValue = (questionId: string, value: string) =>
+    setValues((current) => ({ ...current, [questionId]: value }));
+
+  // WHY: Submit stays disabled until every required question is answered
+  const complete = survey.questions.every(
+    (question) => !question.required || (values[question.id] ?? '').trim() !== '',
+  );
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!complete) {
+      return;
+    }
+
+    const answers = survey.questions
+      .map((question) => toAnswer(question, values[question.id] ?? ''))
+      .filter((answer): answer is SurveyAnswerInput => answer !== null);
+
+    dispatch(submitSurveyResponse({ id: survey.id, input: { answers } }));
+  };
+
+  const renderQuestion = (question: SurveyQuestion) => {
+    const value = values[question.id] ?? '';
+
+    switch (question.type) {
+      case QuestionType.LIKERT:
+        return (
+          <>
+            <Choices $inline>
+              {LIKERT_OPTIONS.map((option) => (
+                <ChoiceLabel key={option}>
+                  <input
+                    type="radio"
+                    name={question.id}
+                    value={option}
+                    checked={value === String(option)}
+                    onChange={(e) => setValue(question.id, e.target.value)}
+                    disabled={submitting}
+                  />
+                  {option}
+                </ChoiceLabel>
+              ))}
+            </Choices>
+            <ScaleHint>
+              {LIKERT_SCALE.MIN} = Strongly disagree, {LIKERT_SCALE.MAX} = Strongly agree
+            </ScaleHint>
+          </>
+        );
+      case QuestionType.MULTIPLE_CHOICE:
+        return (
+          <Choices>
+            {question.options.map((option) => (
+              <ChoiceLabel key={option}>
+                <input
+                  type="radio"
+                  name={question.id}
+                  value={option}
+                  checked={value === option}
+                  onChange={(e) => setValue(question.id, e.target.value)}
+                  disabled={submitting}
+                />
+                {option}
+              </ChoiceLabel>
+            ))}
+          </Choices>
+        );
+      case QuestionType.TEXT:
+        return (
+          <TextArea
+            aria-label={question.text}
+            value={value}
+            onChange={(e) => setValue(question.id, e.target.value)}
+            maxLength={MAX_TEXT_LENGTH}
+            disabled={submitting}
+          />
+        );
+    }
+  };
+
+  return (
+    <Form onSubmit={handleSubmit} aria-label={survey.title}>
+      {survey.questions.map((question) => (
+        <Fieldset key={question.id}>
+          <Legend>
+            {question.text} {!question.required && <Optional>(optional)</Optional>}
+          </Legend>
+          {renderQuestion(question)}
+        </Fieldset>
+      ))}
+
+      <ButtonGroup>
+        <Button type="submit" variant="primary" disabled={submitting || !complete}>
+          {submitting ? (
+            <>
+              <LoadingSpinner />
+              <span>Submitting...</span>
+            </>
+          ) : (
+            'Submit Anonymously'
+          )}
+        </Button>
+      </ButtonGroup>
+    </Form>
+  );
+}
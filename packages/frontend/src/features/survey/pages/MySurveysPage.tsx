@@ -0,0 +1,146 @@
+import { useEffect } from 'react';
+import styled from 'styled-components';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState, AppDispatch } from '@/app/store';
+import { PageContainer } from '@/shared/components/PageContainer';
+import { Card } from '@/shared/components/Card';
+import { fetchMySurveys } from '../surveySlice';
+import { SurveyForm } from '../components/SurveyForm';
+
+/**
+ * WHAT: My Surveys page
+ *
+ * WHY: Employees answer the pulse surveys HR sends to their department
+ * or role. Answers are anonymous; only aggregated results are shown to HR.
+ *
+ * HOW: One card per open survey, latest first; unanswered ones show the form
+ */
+
+const PageHeader = styled.div`
+  margin-bottom: var(--spacing-2xl);
+`;
+
+const PageTitle = styled.h1`
+  font-size: var(--font-size-4xl);
+  font-weight: var(--font-weight-bold);
+  color: var(--color-text);
+  margin: 0 0 var(--spacing-xs);
+`;
+
+const PageSubtitle = styled.p`
+  color: var(--color-text-secondary);
+  margin: 0;
+`;
+
+const SurveyList = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: var(--spacing-lg);
+`;
+
+const SurveyHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: flex-start;
+  gap: var(--spacing-md);
+  margin-bottom: var(--spacing-md);
+`;
+
+const SurveyTitle = styled.h2`
+  font-size: var(--font-size-xl);
+  font-weight: var(--font-weight-semibold);
+  color: var(--color-text);
+  margin: 0 0 var(--spacing-xs);
+`;
+
+const Muted = styled.p`
+  color: var(--color-text-secondary);
+  font-size: var(--font-size-sm);
+  margin: 0;
+`;
+
+const StatusBadge = styled.span`
+  padding: var(--spacing-xs) var(--spacing-sm);
+  border-radius: var(--radius-md);
+  background: var(--color-bg-secondary);
+  color: var(--color-text);
+  font-size: var(--font-size-sm);
+  font-weight: var(--font-weight-medium);
+  white-space: nowrap;
+`;
+
+const EmptyState = styled.div`
+  padding: var(--spacing-3xl);
+  text-align: center;
+  color: var(--color-text-secondary);
+`;
+
+// WHY: Closing dates are calendar days - UTC so they never shift
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+export default function MySurveysPage() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { surveys, loading, submittingId, error } = useSelector(
+    (state: RootState) => state.survey,
+  );
+
+  useEffect(() => {
+    dispatch(fetchMySurveys());
+  }, [dispatch]);
+
+  return (
+    <PageContainer>
+      <PageHeader>
+        <PageTitle>My Surveys</PageTitle>
+        <PageSubtitle>
+          Your answers are anonymous. HR only sees results once enough people have responded.
+        </PageSubtitle>
+      </PageHeader>
+
+      {error && (
+        <Card padding="md" style={{ marginBottom: 'var(--spacing-lg)' }}>
+          <p role="alert" style={{ color: 'var(--color-error)', margin: 0 }}>{error}</p>
+        </Card>
+      )}
+
+      {loading && surveys.length === 0 && (
+        <EmptyState>
+          <p>Loading surveys...</p>
+        </EmptyState>
+      )}
+
+      {!loading && surveys.length === 0 && (
+        <EmptyState>
+          <p>No open surveys. They appear here when HR sends one to you.</p>
+        </EmptyState>
+      )}
+
+      <SurveyList>
+        {surveys.map((survey) => (
+          <Card key={survey.id} padding="lg">
+            <SurveyHeader>
+              <div>
+                <SurveyTitle>{survey.title}</SurveyTitle>
+                {survey.description && <Muted>{survey.description}</Muted>}
+                {survey.closesAt && <Muted>Closes {formatDate(survey.closesAt)}</Muted>}
+              </div>
+              <StatusBadge>{survey.responded ? 'Responded' : 'Open'}</StatusBadge>
+            </SurveyHeader>
+
+            {survey.responded ? (
+              <Muted>Thank you - your response has been recorded.</Muted>
+            ) : (
+              <SurveyForm survey={survey} submitting={submittingId === survey.id} />
+            )}
+          </Card>
+        ))}
+      </SurveyList>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,38 @@
+/**
+ * WHAT: Survey service - API calls
+ *
+ * WHY: Service layer separates API logic from components and Redux.
+ *
+ * HOW: Uses axios instance (apiClient) for HTTP requests
+ */
+
+import apiClient from '@/shared/utils/api';
+import { MySurvey, SurveyResponseInput } from './types';
+
+/**
+ * WHAT: Get own open surveys API call
+ *
+ * HOW: GET request to /api/surveys/me, latest opened first
+ */
+export async function getMySurveys(): Promise<MySurvey[]> {
+  const response = await apiClient.get<{ success: boolean; data: MySurvey[] }>('/surveys/me');
+  return response.data.data;
+}
+
+/**
+ * WHAT: Submit survey response API call
+ *
+ * WHY: Can be submitted once per survey; the response is not linked to the user.
+ *
+ * HOW: POST request to /api/surveys/:id/responses
+ */
+export async function submitSurveyResponse(
+  id: string,
+  input: SurveyResponseInput,
+): Promise<MySurvey> {
+  const response = await apiClient.post<{ success: boolean; data: MySurvey }>(
+    `/surveys/${id}/responses`,
+    input,
+  );
+  return response.data.data;
+}
@@ -0,0 +1,108 @@
+/**
+ * WHAT: Redux Toolkit slice for Survey state
+ *
+ * WHY: Holds the open surveys targeted at the user and the response being submitted.
+ *
+ * HOW: Async thunks for listing and submitting; reset on logout
+ */
+
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { SurveyResponseInput, SurveyState } from './types';
+import * as surveyService from './surveyService';
+import { clearAuthState } from '@/features/auth/authSlice';
+
+const initialState: SurveyState = {
+  surveys: [],
+  loading: false,
+  submittingId: null,
+  error: null,
+};
+
+/**
+ * WHAT: Async thunk for fetching own open surveys
+ *
+ * HOW: Calls getMySurveys API
+ */
+export const fetchMySurveys = createAsyncThunk(
+  'survey/fetchMySurveys',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await surveyService.getMySurveys();
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message || 'Failed to fetch surveys',
+      );
+    }
+  },
+);
+
+/**
+ * WHAT: Async thunk for submitting a survey response
+ *
+ * HOW: Calls submitSurveyResponse API; the API message explains refusals
+ * such as a survey that has just closed
+ */
+export const submitSurveyResponse = createAsyncThunk(
+  'survey/submitSurveyResponse',
+  async (
+    { id, input }: { id: string; input: SurveyResponseInput },
+    { rejectWithValue },
+  ) => {
+    try {
+      return await surveyService.submitSurveyResponse(id, input);
+    } catch (error: any) {
+      return rejectWithValue(
+        error.response?.data?.error?.message || 'Failed to submit response',
+      );
+    }
+  },
+);
+
+const surveySlice = createSlice({
+  name: 'survey',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Fetch own surveys
+    builder
+      .addCase(fetchMySurveys.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchMySurveys.fulfilled, (state, action) => {
+        state.loading = false;
+        state.surveys = action.payload;
+      })
+      .addCase(fetchMySurveys.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+
+    // Submit response
+    builder
+      .addCase(submitSurveyResponse.pending, (state, action) => {
+        state.submittingId = action.meta.arg.id;
+        state.error = null;
+      })
+      .addCase(submitSurveyResponse.fulfilled, (state, action) => {
+        state.submittingId = null;
+        state.surveys = state.surveys.map((survey) =>
+          survey.id === action.payload.id ? action.payload : survey,
+        );
+      })
+      .addCase(submitSurveyResponse.rejected, (state, action) => {
+        state.submittingId = null;
+        state.error = action.payload as string;
+      });
+
+    // WHY: Which surveys were answered must not survive a logout on a shared machine
+    builder.addCase(clearAuthState, () => initialState);
+  },
+});
+
+export const { clearError } = surveySlice.actions;
+export default surveySlice.reducer;
@@ -0,0 +1,83 @@
+/**
+ * WHAT: TypeScript types for Survey feature
+ *
+ * WHY: Centralized type definitions ensure type safety across the survey module.
+ * Types match backend API responses and Redux state structure.
+ *
+ * HOW: Exports interfaces used in survey slice, service, and components
+ */
+
+/**
+ * WHAT: Question type enum
+ */
+export enum QuestionType {
+  LIKERT = 'LIKERT',
+  MULTIPLE_CHOICE = 'MULTIPLE_CHOICE',
+  TEXT = 'TEXT',
+}
+
+/**
+ * WHAT: Likert scale, as validated by the backend
+ */
+export const LIKERT_SCALE = {
+  MIN: 1,
+  MAX: 5,
+} as const;
+
+/**
+ * WHAT: Survey question from backend
+ *
+ * WHY: options is only filled for MULTIPLE_CHOICE questions.
+ */
+export interface SurveyQuestion {
+  id: string;
+  type: QuestionType;
+  text: string;
+  options: string[];
+  required: boolean;
+}
+
+/**
+ * WHAT: Open survey targeted at the current user (GET /surveys/me)
+ */
+export interface MySurvey {
+  id: string;
+  title: string;
+  description?: string;
+  questions: SurveyQuestion[];
+  closesAt?: string;
+  responded: boolean;
+}
+
+/**
+ * WHAT: One answer of a survey response
+ *
+ * HOW: Exactly one of rating, choice or text, matching the question's type
+ */
+export interface SurveyAnswerInput {
+  questionId: string;
+  rating?: number;
+  choice?: string;
+  text?: string;
+}
+
+/**
+ * WHAT: Survey response request body
+ *
+ * WHY: Unanswered optional questions are left out.
+ */
+export interface SurveyResponseInput {
+  answers: SurveyAnswerInput[];
+}
+
+/**
+ * WHAT: Survey state interface for Redux
+ *
+ * WHY: submittingId disables the one form being submitted.
+ */
+export interface SurveyState {
+  surveys: MySurvey[];
+  loading: boolean;
+  submittingId: string | null;
+  error: string | null;
+}
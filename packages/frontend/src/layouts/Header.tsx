@@ -1,16 +1,18 @@
 import styled from 'styled-components';
 import { useAuth, useAuthActions } from '@/features/auth/hooks';
 import { Button } from '@/shared/components/Button';
+import { NotificationBell } from '@/features/notifications/components/NotificationBell';
 
 /**
  * WHAT: Header component with user info and logout
  * 
  * WHY: Header provides:
  * - User information display
+ * - Live notifications (bell with unread count)
  * - Logout functionality
  * - Consistent header across all pages
  * 
- * HOW: Displays user email/role and logout button
+ * HOW: Displays notification bell, user email/role and logout button
  */
 
 const HeaderContainer = styled.header`
@@ -92,6 +94,7 @@ export function Header() {
       </div>
 
       <UserInfo>
+        <NotificationBell />
         <UserEmail>{user.email}</UserEmail>
         <UserRole>{user.role}</UserRole>
         <LogoutButton
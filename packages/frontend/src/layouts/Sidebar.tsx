@@ -1,7 +1,7 @@
 import { useLocation, useNavigate } from 'react-router-dom';
 import styled from 'styled-components';
 import { useAuth, useAuthActions } from '@/features/auth/hooks';
-import { getNavigationItemsForRole } from '@/shared/config/navigation';
+import { getNavigationItemsForPermissions } from '@/shared/config/navigation';
 
 /**
  * WHAT: Left sidebar navigation component
@@ -121,9 +121,9 @@ export function Sidebar() {
     return null;
   }
 
-  // WHY: Get navigation items filtered by user role
+  // WHY: Get navigation items filtered by user permissions
   // Config-driven approach prevents hardcoded role checks
-  const navItems = getNavigationItemsForRole(user.role);
+  const navItems = getNavigationItemsForPermissions(user.permissions);
 
   /**
    * WHAT: Handle navigation item click
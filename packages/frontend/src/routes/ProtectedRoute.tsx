@@ -27,7 +27,7 @@ interface ProtectedRouteProps {
  * HOW: Checks isAuthenticated, renders children or redirects
  */
 export function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const { isAuthenticated, loading } = useAuth();
+  const { isAuthenticated, user, loading } = useAuth();
 
   // WHY: Show loading state while checking authentication
   // Prevents flash of login page for authenticated users
@@ -47,6 +47,16 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     return <Navigate to="/login" replace />;
   }
 
+  // WHY: Admin-set passwords must be changed before any protected page is reachable
+  if (user?.mustChangePassword) {
+    return <Navigate to="/change-password" replace />;
+  }
+
+  // WHY: Roles that require MFA must enrol before any protected page is reachable
+  if (user?.mfaSetupRequired) {
+    return <Navigate to="/mfa-setup" replace />;
+  }
+
   // WHY: Render protected content if authenticated
   return <>{children}</>;
 }
@@ -1,39 +1,41 @@
 import { ReactNode } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/features/auth/hooks';
-import { UserRole } from '@/features/auth/types';
+import { Permission, UserRole } from '@/features/auth/types';
+import { hasPermissions } from '@/features/auth/utils/permissions';
 
 /**
- * WHAT: Role-based route guard component
+ * WHAT: Permission-based route guard component
  * 
  * WHY: Route-level authorization check ensures users can only access routes
- * appropriate for their role. Even though backend enforces RBAC, frontend
+ * they have permissions for. Which roles grant which permissions is decided
+ * by the backend and returned with the user. Even though backend enforces RBAC, frontend
  * check provides:
  * - Better UX (immediate feedback, no API call)
  * - Reduced server load
  * - Client-side authorization
  * - Prevents unauthorized route access
  * 
- * HOW: Checks user role, renders children or redirects based on role
+ * HOW: Checks user permissions, renders children or redirects based on role
  */
 
 interface RoleGuardProps {
   children: ReactNode;
-  allowedRoles: UserRole[];
+  requiredPermissions: Permission[];
   fallbackPath?: string;
 }
 
 /**
  * WHAT: Role guard wrapper component
  * 
- * WHY: Wraps routes that require specific roles.
- * Automatically redirects users without required roles.
+ * WHY: Wraps routes that require specific permissions.
+ * Automatically redirects users without them.
  * 
- * HOW: Checks user role against allowed roles, renders or redirects
+ * HOW: Checks user permissions against required permissions, renders or redirects
  */
 export function RoleGuard({
   children,
-  allowedRoles,
+  requiredPermissions,
   fallbackPath = '/',
 }: RoleGuardProps) {
   const { user, isAuthenticated, loading } = useAuth();
@@ -55,9 +57,9 @@ export function RoleGuard({
     return <Navigate to="/login" replace />;
   }
 
-  // WHY: Check if user role is in allowed roles
-  // If not, redirect to fallback path (default: home)
-  if (!allowedRoles.includes(user.role)) {
+  // WHY: Check if user has every required permission
+  // If not, redirect to the user's own dashboard (or fallback path)
+  if (!hasPermissions(user, requiredPermissions)) {
     // WHY: Redirect based on user's actual role
     // Users should land on their appropriate dashboard
     switch (user.role) {
@@ -72,7 +74,7 @@ export function RoleGuard({
     }
   }
 
-  // WHY: Render content if user has required role
+  // WHY: Render content if user has required permissions
   return <>{children}</>;
 }
 
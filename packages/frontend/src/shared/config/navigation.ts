@@ -1,5 +1,5 @@
 /**
- * WHAT: Navigation configuration for role-based menu items
+ * WHAT: Navigation configuration for permission-based menu items
  *
  * WHY: Config-driven navigation provides:
  * - Single source of truth for menu structure
@@ -8,10 +8,11 @@
  * - No hardcoded role checks in components
  * - Centralized navigation logic
  *
- * HOW: Array of menu items with role-based access control
+ * HOW: Array of menu items with permission-based access control
  */
 
-import { UserRole } from "@/features/auth/types";
+import { Permission } from "@/features/auth/types";
+import { hasPermissions } from "@/features/auth/utils/permissions";
 
 /**
  * WHAT: Navigation menu item interface
@@ -24,7 +25,7 @@ import { UserRole } from "@/features/auth/types";
 export interface NavigationItem {
   label: string;
   route: string;
-  allowedRoles: UserRole[]; // WHY: Array allows multiple roles to access same item
+  requiredPermissions?: Permission[]; // WHY: Omitted = every authenticated user
   icon?: string; // WHY: Optional icon for visual enhancement
   children?: NavigationItem[]; // WHY: Optional nested menu items (future expansion)
 }
@@ -35,98 +36,120 @@ export interface NavigationItem {
  * WHY: Centralized config makes it easy to:
  * - Add new menu items
  * - Change routes
- * - Update role permissions
+ * - Update required permissions
  * - Maintain consistency
  *
- * HOW: Array of menu items filtered by user role in Sidebar component
+ * HOW: Array of menu items filtered by user permissions in Sidebar component
  */
 export const navigationConfig: NavigationItem[] = [
   // WHY: Dashboard accessible to all authenticated users
   {
     label: "Dashboard",
     route: "/dashboard",
-    allowedRoles: [
-      UserRole.SUPER_ADMIN,
-      UserRole.HR,
-      UserRole.EMPLOYEE,
-      UserRole.MANAGER,
-    ],
     icon: "📊",
   },
 
-  // WHY: HR Management only for SUPER_ADMIN
+  // WHY: HR account management
   {
     label: "HR Management",
     route: "/admin/hr",
-    allowedRoles: [UserRole.SUPER_ADMIN],
+    requiredPermissions: [Permission.HR_MANAGE],
     icon: "👥",
   },
 
-  // WHY: Reports for SUPER_ADMIN and HR
+  // WHY: Reports cover employee data
   {
     label: "Reports",
     route: "/admin/reports",
-    allowedRoles: [UserRole.SUPER_ADMIN, UserRole.HR],
+    requiredPermissions: [Permission.EMPLOYEE_READ],
     icon: "📈",
   },
 
-  // WHY: Employees management for HR
+  // WHY: Employee directory and management
   {
     label: "Employees",
     route: "/hr/employees",
-    allowedRoles: [UserRole.HR, UserRole.SUPER_ADMIN],
+    requiredPermissions: [Permission.EMPLOYEE_READ],
     icon: "👔",
   },
 
-  // WHY: Attendance for HR
+  // WHY: Company-wide attendance
   {
     label: "Attendance",
     route: "/hr/attendance",
-    allowedRoles: [UserRole.HR, UserRole.SUPER_ADMIN],
+    requiredPermissions: [Permission.ATTENDANCE_READ],
     icon: "⏰",
   },
 
-  // WHY: Leave requests for HR
+  // WHY: Leave requests for reviewers (managers see their team, HR everyone)
   {
     label: "Leave Requests",
     route: "/hr/leaves",
-    allowedRoles: [UserRole.HR, UserRole.SUPER_ADMIN],
+    requiredPermissions: [Permission.LEAVE_APPROVE],
     icon: "🏖️",
   },
 
-  // WHY: Employee profile for employees
+  // WHY: Own employee profile
   {
     label: "My Profile",
     route: "/employee/profile",
-    allowedRoles: [UserRole.EMPLOYEE, UserRole.MANAGER],
+    requiredPermissions: [Permission.PROFILE_READ],
     icon: "👤",
   },
 
-  // WHY: Employee attendance for employees
+  // WHY: Own attendance
   {
     label: "My Attendance",
     route: "/employee/attendance",
-    allowedRoles: [UserRole.EMPLOYEE, UserRole.MANAGER],
+    requiredPermissions: [Permission.ATTENDANCE_RECORD],
     icon: "📅",
   },
 
-  // WHY: Employee leaves for employees
+  // WHY: Own leaves
   {
     label: "My Leaves",
     route: "/employee/leaves",
-    allowedRoles: [UserRole.EMPLOYEE, UserRole.MANAGER],
+    requiredPermissions: [Permission.LEAVE_APPLY],
     icon: "🌴",
   },
+
+  // WHY: Own payslips
+  {
+    label: "My Payslips",
+    route: "/employee/payslips",
+    requiredPermissions: [Permission.PAYSLIP_READ],
+    icon: "🧾",
+  },
+
+  // WHY: Own performance reviews and self-assessment
+  {
+    label: "My Reviews",
+    route: "/employee/reviews",
+    requiredPermissions: [Permission.PERFORMANCE_SELF],
+    icon: "⭐",
+  },
+
+  // WHY: Open pulse surveys, answered anonymously
+  {
+    label: "My Surveys",
+    route: "/employee/surveys",
+    requiredPermissions: [Permission.SURVEY_RESPOND],
+    icon: "📝",
+  },
 ];
 
 /**
- * WHAT: Get navigation items for specific role
+ * WHAT: Get navigation items for a set of permissions
  *
- * WHY: Filters menu items based on user role.
+ * WHY: Filters menu items based on user permissions.
  * Prevents unauthorized menu items from appearing.
  *
- * HOW: Filters navigationConfig by allowedRoles array
+ * HOW: Keeps items whose requiredPermissions are all granted
  */
-export function getNavigationItemsForRole(role: UserRole): NavigationItem[] {
-  return navigationConfig.filter((item) => item.allowedRoles.includes(role));
+export function getNavigationItemsForPermissions(
+  permissions: Permission[],
+): NavigationItem[] {
+  return navigationConfig.filter((item) =>
+    hasPermissions({ permissions }, item.requiredPermissions),
+  );
 }
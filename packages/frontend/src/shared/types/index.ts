@@ -39,11 +39,16 @@ export interface PaginationParams {
   limit: number;
 }
 
-export interface PaginatedResponse<T> {
-  data: T[];
-  total: number;
+export interface Pagination {
   page: number;
   limit: number;
+  total: number;
   totalPages: number;
 }
 
+// WHY: Matches the backend list envelope - every list endpoint returns { items, pagination }
+export interface PaginatedResponse<T> {
+  items: T[];
+  pagination: Pagination;
+}
+